@@ -10,13 +10,15 @@ import { Leaderboard } from './components/pages/Leaderboard';
 import { Faucet } from './components/pages/Faucet';
 import { Community } from './components/pages/Community';
 import { Profile } from './components/pages/Profile';
+import { PublicProfile } from './components/pages/PublicProfile';
+import { Review } from './components/pages/Review';
+import { TransactionHistory } from './components/pages/TransactionHistory';
 import VerifyCertificate from './components/pages/VerifyCertificate';
 import { AIGenerator } from './components/pages/AIGenerator';
 import { CreateCoursePage } from './pages/CreateCoursePage';
 import { AdminReviewDashboard } from './components/admin/AdminReviewDashboard';
 import { AdminDashboard } from './components/admin/AdminDashboard';
 import { ProtectedRoute } from './components/ProtectedRoute';
-import { mockDiscussions } from './lib/mockData';
 import { Toaster } from './components/ui/sonner';
 import { WalletProvider } from './contexts/WalletContext';
 import { MetamaskPrompt } from './components/MetamaskPrompt';
@@ -35,7 +37,8 @@ function AppContent() {
         {/* Guest-Accessible Routes - Can view but actions require auth */}
         <Route path="/courses" element={<CourseCatalog />} />
         <Route path="/leaderboard" element={<Leaderboard />} />
-        <Route path="/community" element={<Community discussions={mockDiscussions} />} />
+        <Route path="/community" element={<Community />} />
+        <Route path="/profile/:username" element={<PublicProfile />} />
 
         {/* Protected Routes - Require authentication */}
         <Route
@@ -71,7 +74,23 @@ function AppContent() {
           }
         />
         <Route
-          path="/profile/:username?"
+          path="/review"
+          element={
+            <ProtectedRoute>
+              <Review />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/transactions"
+          element={
+            <ProtectedRoute>
+              <TransactionHistory />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/profile"
           element={
             <ProtectedRoute>
               <Profile />
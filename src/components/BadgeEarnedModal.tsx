@@ -2,13 +2,15 @@
  * Badge Earned Modal Component
  *
  * Celebration modal that appears when user earns a badge.
- * Shows badge details with animation and rarity effects.
+ * Shows badge details with animation and rarity effects, and lets the
+ * learner claim the badge as an NFT.
  */
 
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { Award, X, Sparkles, Star } from 'lucide-react';
 import type { BadgeAwardResult } from '../lib/api/badge-auto-award';
+import { BadgeNftClaim } from './profile/BadgeNftClaim';
 
 interface BadgeEarnedModalProps {
   isOpen: boolean;
@@ -174,6 +176,21 @@ export function BadgeEarnedModal({
                     </motion.div>
                   )}
 
+                  {/* Claim as NFT (opt-in) */}
+                  {badge.badgeId && (
+                    <motion.div
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ delay: 0.65 }}
+                      className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-2xl p-4 mb-6 border border-blue-200"
+                    >
+                      <p className="text-sm text-gray-600 mb-3">
+                        Mint this badge as an NFT on Hedera to keep it in your wallet
+                      </p>
+                      <BadgeNftClaim achievementId={badge.badgeId} size="md" />
+                    </motion.div>
+                  )}
+
                   {/* Continue Button */}
                   <motion.button
                     initial={{ opacity: 0 }}
@@ -104,7 +104,13 @@ export function CourseCard({
       <div className="flex items-center gap-4 mb-4 text-sm text-gray-500">
         <div className="flex items-center gap-1">
           <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-          <span>{course.rating}</span>
+          {course.totalRatings > 0 ? (
+            <span>
+              {course.rating.toFixed(1)} <span className="text-gray-400">({course.totalRatings})</span>
+            </span>
+          ) : (
+            <span className="text-gray-400">New</span>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <Clock className="w-4 h-4" />
@@ -7,6 +7,7 @@
 
 import { Crown, Trophy, Award } from 'lucide-react';
 import type { LeaderboardEntry } from '../lib/api/leaderboard';
+import { UsernameLink } from './profile/UsernameLink';
 
 interface LeaderboardPodiumProps {
   topThree: LeaderboardEntry[];
@@ -107,13 +108,12 @@ export function LeaderboardPodium({ topThree }: LeaderboardPodiumProps) {
 
               {/* Username */}
               <div className={`text-center ${isFirst ? 'mb-3' : 'mb-2'}`}>
-                <p
-                  className={`font-bold text-gray-900 ${
+                <UsernameLink
+                  username={user.username}
+                  className={`block font-bold text-gray-900 ${
                     isFirst ? 'text-lg' : 'text-base'
                   } truncate max-w-[120px]`}
-                >
-                  {user.username}
-                </p>
+                />
                 <p className={`text-xs text-gray-600 mt-1`}>
                   Level {user.level}
                 </p>
@@ -1,11 +1,13 @@
 import React from 'react';
 import { Button } from './ui/button';
 import { detectMetamask } from '@/lib/hederaUtils';
+import { getAvailableWalletAdapters } from '@/lib/wallets';
 
 export function MetamaskPrompt() {
   const [dismissed, setDismissed] = React.useState(false);
 
-  if (detectMetamask() || dismissed) return null;
+  // Only nag when there is no wallet at all to connect with
+  if (detectMetamask() || getAvailableWalletAdapters().length > 0 || dismissed) return null;
 
   return (
     <div className="fixed bottom-4 right-4 bg-white rounded-2xl shadow-2xl p-6 max-w-sm border-2 border-[#0084C7] z-50">
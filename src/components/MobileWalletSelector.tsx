@@ -1,186 +1,103 @@
 /**
- * Mobile Wallet Selector Component
+ * Wallet Selector Component
  *
- * MOBILE-ONLY: Shows list of available wallets when user is NOT in a wallet browser
- * Lets user choose which wallet app to open
+ * Lists every wallet adapter usable in this browser (Metamask, HashPack and
+ * other Hedera wallets via WalletConnect, the mock wallet in development)
+ * and connects with the one the learner picks.
  *
- * This solves the problem of multiple wallets being installed
+ * Works on mobile too: HashConnect pairs with the wallet app over
+ * WalletConnect, so no in-app wallet browser is needed.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from './ui/button';
-import { Smartphone, ExternalLink, CheckCircle, Wallet } from 'lucide-react';
-import {
-  isMobileDevice,
-  isInWalletBrowser,
-  getWalletInstallUrl,
-  openMobileWallet,
-  detectAllWallets,
-  getMetamaskMobileDeepLink,
-  getHashPackDeepLink,
-  getBladeWalletDeepLink,
-} from '@/lib/mobileWallet';
+import { toast } from 'sonner';
+import { ChevronRight, Loader2, Wallet } from 'lucide-react';
+import { useWallet } from '@/contexts/WalletContext';
+import { getAvailableWalletAdapters } from '@/lib/wallets';
+import type { WalletAdapterId } from '@/lib/wallets';
+
+const INSTALL_URLS = {
+  metamask: 'https://metamask.io/download/',
+  hashpack: 'https://www.hashpack.app/download',
+};
 
 interface MobileWalletSelectorProps {
   /**
    * Callback when user selects a wallet
    */
-  onWalletSelected?: (wallet: string) => void;
+  onWalletSelected?: (wallet: WalletAdapterId) => void;
 }
 
-export function MobileWalletSelector({ onWalletSelected }: MobileWalletSelectorProps) {
-  const [mobile, setMobile] = useState(false);
-  const [inWalletBrowser, setInWalletBrowser] = useState(false);
-  const [availableWallets, setAvailableWallets] = useState<string[]>([]);
-
-  useEffect(() => {
-    const isMob = isMobileDevice();
-    const inBrowser = isInWalletBrowser();
-    const wallets = detectAllWallets();
-
-    setMobile(isMob);
-    setInWalletBrowser(inBrowser);
-    setAvailableWallets(wallets);
-
-    console.log('🔍 Mobile Wallet Detection:');
-    console.log('  - Is Mobile:', isMob);
-    console.log('  - In Wallet Browser:', inBrowser);
-    console.log('  - Detected Wallets:', wallets);
-  }, []);
-
-  const handleWalletClick = async (walletType: string) => {
-    console.log('📱 Opening wallet:', walletType);
-    onWalletSelected?.(walletType);
+/**
+ * Connect with an adapter, toasting failures other than user rejections
+ */
+function useConnectWithAdapter(onWalletSelected?: (wallet: WalletAdapterId) => void) {
+  const { connect } = useWallet();
+  const [pending, setPending] = useState<WalletAdapterId | null>(null);
 
-    // Dynamically import WalletConnect functions
-    const { openWalletWithWalletConnect } = await import('@/lib/walletConnect');
+  const connectWith = async (adapterId: WalletAdapterId) => {
+    setPending(adapterId);
+    onWalletSelected?.(adapterId);
 
-    // Open the selected wallet app via WalletConnect
     try {
-      if (walletType === 'hashpack') {
-        await openWalletWithWalletConnect('hashpack');
-      } else if (walletType === 'blade') {
-        await openWalletWithWalletConnect('blade');
-      } else if (walletType === 'metamask') {
-        await openWalletWithWalletConnect('metamask');
-      } else {
-        // Default to HashPack for unknown wallets
-        await openWalletWithWalletConnect('hashpack');
-      }
-    } catch (error) {
-      console.error('Failed to open wallet with WalletConnect:', error);
-      // Fallback to old deep link method
-      if (walletType === 'hashpack') {
-        window.location.href = getHashPackDeepLink();
-      } else if (walletType === 'blade') {
-        window.location.href = getBladeWalletDeepLink();
-      } else if (walletType === 'metamask') {
-        window.location.href = getMetamaskMobileDeepLink();
-      } else {
-        openMobileWallet('auto');
-      }
-    }
-  };
-
-  const getWalletIcon = (wallet: string) => {
-    switch (wallet) {
-      case 'hashpack':
-        return '🔷';
-      case 'blade':
-        return '⚔️';
-      case 'metamask':
-        return '🦊';
-      case 'kabila':
-        return '🐪';
-      case 'coinbase':
-        return '🔵';
-      case 'trust':
-        return '🛡️';
-      default:
-        return '👛';
-    }
-  };
+      await connect(adapterId);
+    } catch (error: any) {
+      console.error('Failed to connect wallet:', error);
 
-  const getWalletName = (wallet: string) => {
-    switch (wallet) {
-      case 'hashpack':
-        return 'HashPack';
-      case 'blade':
-        return 'Blade Wallet';
-      case 'metamask':
-        return 'Metamask';
-      case 'kabila':
-        return 'Kabila Wallet';
-      case 'coinbase':
-        return 'Coinbase Wallet';
-      case 'trust':
-        return 'Trust Wallet';
-      case 'tokenpocket':
-        return 'TokenPocket';
-      default:
-        return 'Web3 Wallet';
+      const message = error?.message || 'Failed to connect wallet';
+      if (!message.includes('rejected') && !message.includes('denied')) {
+        toast.error('Connection failed', { description: message, duration: 5000 });
+      }
+    } finally {
+      setPending(null);
     }
   };
 
-  // Only show on mobile
-  if (!mobile) {
-    return null;
-  }
+  return { pending, connectWith };
+}
 
-  // If already in wallet browser, don't show selector
-  if (inWalletBrowser) {
-    return (
-      <div className="bg-gradient-to-r from-green-50 to-emerald-50 rounded-2xl p-6 border border-green-200">
-        <div className="flex items-center gap-3">
-          <div className="w-12 h-12 bg-green-500 rounded-full flex items-center justify-center">
-            <CheckCircle className="w-7 h-7 text-white" />
-          </div>
-          <div>
-            <h3 className="font-bold text-green-900">Already in Wallet Browser</h3>
-            <p className="text-sm text-green-600">You can connect your wallet now</p>
-          </div>
-        </div>
-      </div>
-    );
-  }
+export function MobileWalletSelector({ onWalletSelected }: MobileWalletSelectorProps) {
+  const adapters = useMemo(() => getAvailableWalletAdapters(), []);
+  const { pending, connectWith } = useConnectWithAdapter(onWalletSelected);
 
-  // Show wallet selection
   return (
     <div className="bg-white rounded-3xl p-6 shadow-lg border border-gray-200">
       <div className="text-center mb-6">
         <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-purple-500 rounded-full flex items-center justify-center mx-auto mb-4">
-          <Smartphone className="w-8 h-8 text-white" />
+          <Wallet className="w-8 h-8 text-white" />
         </div>
         <h2 className="text-2xl font-bold text-gray-900 mb-2">
           Choose Your Wallet
         </h2>
         <p className="text-gray-600 text-sm">
-          Select a wallet app to open and connect
+          Select a wallet to connect to Hedera Testnet
         </p>
       </div>
 
-      {availableWallets.length > 0 ? (
+      {adapters.length > 0 ? (
         <div className="space-y-3">
-          <p className="text-sm font-semibold text-gray-700 mb-3">
-            Detected {availableWallets.length} wallet{availableWallets.length > 1 ? 's' : ''} on your device:
-          </p>
-
-          {availableWallets.map((wallet) => (
+          {adapters.map((adapter) => (
             <button
-              key={wallet}
-              onClick={() => handleWalletClick(wallet)}
-              className="w-full flex items-center gap-4 p-4 rounded-2xl border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 transition-all group"
+              key={adapter.id}
+              onClick={() => connectWith(adapter.id)}
+              disabled={pending !== null}
+              className="w-full flex items-center gap-4 p-4 rounded-2xl border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 transition-all group disabled:opacity-60"
             >
-              <div className="text-4xl">{getWalletIcon(wallet)}</div>
+              <div className="text-4xl">{adapter.icon}</div>
               <div className="flex-1 text-left">
                 <h3 className="font-bold text-gray-900 group-hover:text-blue-600">
-                  {getWalletName(wallet)}
+                  {adapter.name}
                 </h3>
                 <p className="text-sm text-gray-500">
-                  Tap to open in {getWalletName(wallet)}
+                  {adapter.description}
                 </p>
               </div>
-              <ExternalLink className="w-5 h-5 text-gray-400 group-hover:text-blue-500" />
+              {pending === adapter.id ? (
+                <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />
+              ) : (
+                <ChevronRight className="w-5 h-5 text-gray-400 group-hover:text-blue-500" />
+              )}
             </button>
           ))}
         </div>
@@ -189,39 +106,25 @@ export function MobileWalletSelector({ onWalletSelected }: MobileWalletSelectorP
           <Wallet className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="font-bold text-gray-700 mb-2">No Wallets Detected</h3>
           <p className="text-sm text-gray-500 mb-6">
-            Install a Web3 wallet app to continue
+            Install a Web3 wallet to continue
           </p>
 
           <div className="space-y-3">
             <Button
-              onClick={() => window.open(getWalletInstallUrl('metamask'), '_blank')}
+              onClick={() => window.open(INSTALL_URLS.metamask, '_blank')}
               className="w-full bg-orange-500 hover:bg-orange-600 text-white rounded-xl"
             >
               🦊 Install Metamask
             </Button>
             <Button
-              onClick={() => window.open(getWalletInstallUrl('hashpack'), '_blank')}
+              onClick={() => window.open(INSTALL_URLS.hashpack, '_blank')}
               className="w-full bg-purple-500 hover:bg-purple-600 text-white rounded-xl"
             >
               🔷 Install HashPack
             </Button>
-            <Button
-              onClick={() => window.open(getWalletInstallUrl('blade'), '_blank')}
-              className="w-full bg-blue-500 hover:bg-blue-600 text-white rounded-xl"
-            >
-              ⚔️ Install Blade Wallet
-            </Button>
           </div>
         </div>
       )}
-
-      {availableWallets.length > 0 && (
-        <div className="mt-6 pt-6 border-t border-gray-200">
-          <p className="text-xs text-gray-500 text-center">
-            💡 Tip: Opening in a wallet app will allow you to connect and sign transactions
-          </p>
-        </div>
-      )}
     </div>
   );
 }
@@ -230,61 +133,25 @@ export function MobileWalletSelector({ onWalletSelected }: MobileWalletSelectorP
  * Compact version for inline use
  */
 export function MobileWalletSelectorCompact({ onWalletSelected }: MobileWalletSelectorProps) {
-  const [availableWallets, setAvailableWallets] = useState<string[]>([]);
-
-  useEffect(() => {
-    if (isMobileDevice()) {
-      setAvailableWallets(detectAllWallets());
-    }
-  }, []);
+  const adapters = useMemo(() => getAvailableWalletAdapters(), []);
+  const { pending, connectWith } = useConnectWithAdapter(onWalletSelected);
 
-  if (!isMobileDevice() || isInWalletBrowser()) {
+  if (adapters.length === 0) {
     return null;
   }
 
-  const handleOpenWallet = async (wallet: string) => {
-    onWalletSelected?.(wallet);
-
-    // Dynamically import WalletConnect functions
-    const { openWalletWithWalletConnect } = await import('@/lib/walletConnect');
-
-    try {
-      if (wallet === 'hashpack') {
-        await openWalletWithWalletConnect('hashpack');
-      } else if (wallet === 'blade') {
-        await openWalletWithWalletConnect('blade');
-      } else {
-        await openWalletWithWalletConnect('metamask');
-      }
-    } catch (error) {
-      console.error('Failed to open wallet with WalletConnect:', error);
-      // Fallback to old deep link method
-      if (wallet === 'hashpack') {
-        window.location.href = getHashPackDeepLink();
-      } else if (wallet === 'blade') {
-        window.location.href = getBladeWalletDeepLink();
-      } else {
-        window.location.href = getMetamaskMobileDeepLink();
-      }
-    }
-  };
-
   return (
     <div className="flex flex-wrap gap-2">
-      {availableWallets.map((wallet) => (
+      {adapters.map((adapter) => (
         <Button
-          key={wallet}
-          onClick={() => handleOpenWallet(wallet)}
+          key={adapter.id}
+          onClick={() => connectWith(adapter.id)}
+          disabled={pending !== null}
           variant="outline"
           className="rounded-full"
         >
-          <span className="mr-2">
-            {wallet === 'hashpack' && '🔷'}
-            {wallet === 'blade' && '⚔️'}
-            {wallet === 'metamask' && '🦊'}
-            {wallet === 'unknown' && '👛'}
-          </span>
-          Open in {wallet === 'hashpack' ? 'HashPack' : wallet === 'blade' ? 'Blade' : wallet === 'metamask' ? 'Metamask' : 'Wallet'}
+          <span className="mr-2">{adapter.icon}</span>
+          {pending === adapter.id ? 'Connecting...' : adapter.name}
         </Button>
       ))}
     </div>
@@ -6,6 +6,9 @@ import { toast } from 'sonner';
 import { useUserStats } from '../hooks/useStats';
 import { Menu, X, ChevronDown } from 'lucide-react';
 import { ProfileDropdown } from './profile/ProfileDropdown';
+import { MobileWalletSelector } from './MobileWalletSelector';
+import { Dialog, DialogContent, DialogTitle } from './ui/dialog';
+import { getAvailableWalletAdapters } from '@/lib/wallets';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -43,9 +46,11 @@ export function Navigation() {
 
   const previousConnected = useRef(connected);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [walletPickerOpen, setWalletPickerOpen] = useState(false);
 
   useEffect(() => {
     if (connected && !previousConnected.current) {
+      setWalletPickerOpen(false);
       toast.success('Wallet connected successfully!', {
         description: `Connected to Hedera Testnet`
       });
@@ -54,6 +59,12 @@ export function Navigation() {
   }, [connected]);
 
   const handleConnect = async () => {
+    // Let the learner choose when more than one wallet can be used
+    if (getAvailableWalletAdapters().length > 1) {
+      setWalletPickerOpen(true);
+      return;
+    }
+
     try {
       await connect();
     } catch (error: unknown) {
@@ -152,7 +163,7 @@ export function Navigation() {
               <DropdownMenuTrigger asChild>
                 <button
                   className={`px-4 py-2 rounded-full transition-all flex items-center gap-1 ${
-                    location.pathname === '/verify' || location.pathname === '/playground'
+                    ['/verify', '/playground', '/transactions'].includes(location.pathname)
                       ? 'bg-white/90 text-[#0084C7] shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.1),inset_2px_2px_8px_rgba(255,255,255,0.9)]'
                       : 'text-white/90 hover:bg-white/10'
                   }`}
@@ -180,6 +191,16 @@ export function Navigation() {
                     </Link>
                   </DropdownMenuItem>
                 )}
+                {connected && (
+                  <DropdownMenuItem asChild>
+                    <Link
+                      to="/transactions"
+                      className="cursor-pointer hover:bg-blue-50 focus:bg-blue-50"
+                    >
+                      Transactions
+                    </Link>
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -200,6 +221,13 @@ export function Navigation() {
           </div>
         </div>
 
+        <Dialog open={walletPickerOpen} onOpenChange={setWalletPickerOpen}>
+          <DialogContent className="p-0 bg-transparent border-none shadow-none sm:max-w-md">
+            <DialogTitle className="sr-only">Connect Wallet</DialogTitle>
+            <MobileWalletSelector />
+          </DialogContent>
+        </Dialog>
+
         {/* Mobile Menu */}
         {mobileMenuOpen && (
           <div className="md:hidden mt-4 py-4 border-t border-white/20">
@@ -258,6 +286,12 @@ export function Navigation() {
                     active={location.pathname === '/faucet'}
                     onClick={() => setMobileMenuOpen(false)}
                   />
+                  <MobileNavButton
+                    label="Transactions"
+                    to="/transactions"
+                    active={location.pathname === '/transactions'}
+                    onClick={() => setMobileMenuOpen(false)}
+                  />
                   <div className="mt-4 pt-4 border-t border-white/20">
                     <button
                       onClick={() => {
@@ -5,7 +5,8 @@
  */
 
 import React from 'react';
-import { TransactionHistoryItem } from '../lib/hedera/transactions';
+import { Link } from 'react-router-dom';
+import { TransactionHistoryItem, TRANSACTION_TYPE_LABELS } from '../lib/hedera/transactions';
 import { X, ExternalLink, CheckCircle, XCircle, Clock, Copy } from 'lucide-react';
 import { Button } from './ui/button';
 import { toast } from 'sonner';
@@ -128,6 +129,36 @@ export function TransactionDetailsModal({ transaction, onClose }: TransactionDet
               </div>
             </div>
 
+            {/* Type */}
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Type
+              </label>
+              <div className="bg-gray-50 rounded-xl p-3">
+                <span className="text-sm text-gray-900">
+                  {TRANSACTION_TYPE_LABELS[transaction.transaction_type] || transaction.transaction_type}
+                </span>
+              </div>
+            </div>
+
+            {/* Course */}
+            {transaction.related_course_id && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Course
+                </label>
+                <div className="bg-gray-50 rounded-xl p-3">
+                  <Link
+                    to={`/courses/${transaction.related_course_id}`}
+                    onClick={onClose}
+                    className="text-sm text-[#0084C7] hover:underline"
+                  >
+                    {transaction.course_title || transaction.related_course_id}
+                  </Link>
+                </div>
+              </div>
+            )}
+
             {/* From Account */}
             <div>
               <label className="block text-sm font-semibold text-gray-700 mb-2">
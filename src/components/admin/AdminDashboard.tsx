@@ -7,9 +7,11 @@ import { UserRoleManagementTab } from './tabs/UserRoleManagementTab';
 import { CourseManagementTab } from './tabs/CourseManagementTab';
 import { AnalyticsTab } from './tabs/AnalyticsTab';
 import { BadgesTab } from './tabs/BadgesTab';
+import { ReviewsTab } from './tabs/ReviewsTab';
+import { CertificatesTab } from './tabs/CertificatesTab';
 import { SettingsTab } from './tabs/SettingsTab';
 
-type Tab = 'overview' | 'users' | 'courses' | 'analytics' | 'badges' | 'settings';
+type Tab = 'overview' | 'users' | 'courses' | 'analytics' | 'badges' | 'reviews' | 'certificates' | 'settings';
 
 export function AdminDashboard() {
   const { user } = useWallet();
@@ -88,6 +90,26 @@ export function AdminDashboard() {
           >
             Badges
           </button>
+          <button
+            onClick={() => setActiveTab('reviews')}
+            className={`flex-1 px-6 py-2 rounded-full transition-all ${
+              activeTab === 'reviews'
+                ? 'bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white shadow-[0_2px_8px_rgba(0,132,199,0.3)]'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            Reviews
+          </button>
+          <button
+            onClick={() => setActiveTab('certificates')}
+            className={`flex-1 px-6 py-2 rounded-full transition-all ${
+              activeTab === 'certificates'
+                ? 'bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white shadow-[0_2px_8px_rgba(0,132,199,0.3)]'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            Certificates
+          </button>
           <button
             onClick={() => setActiveTab('settings')}
             className={`flex-1 px-6 py-2 rounded-full transition-all ${
@@ -107,6 +129,8 @@ export function AdminDashboard() {
           {activeTab === 'courses' && <CourseManagementTab />}
           {activeTab === 'analytics' && <AnalyticsTab />}
           {activeTab === 'badges' && <BadgesTab />}
+          {activeTab === 'reviews' && <ReviewsTab />}
+          {activeTab === 'certificates' && <CertificatesTab />}
           {activeTab === 'settings' && <SettingsTab />}
         </div>
       </div>
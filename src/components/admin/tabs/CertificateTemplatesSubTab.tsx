@@ -0,0 +1,362 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Save, Star, Trash2, AlertTriangle } from 'lucide-react';
+import { useCourses } from '../../../hooks/useCourses';
+import {
+  useCertificateTemplates,
+  useCertificateTemplateAssignments,
+  useSaveCertificateTemplate,
+  useDeleteCertificateTemplate,
+  useAssignCertificateTemplate,
+} from '../../../hooks/useCertificates';
+import { generateCertificateSVG, estimateSVGSize } from '../../../lib/hedera/certificate-svg-template';
+import {
+  DEFAULT_CERTIFICATE_TEMPLATE,
+  TEMPLATE_PLACEHOLDERS,
+  validateCertificateTemplate,
+} from '../../../lib/hedera/certificate-template';
+import type { CertificateTemplate, CourseTrack } from '../../../lib/supabase/types';
+
+// HFS files up to this size fit in a single create transaction
+const TARGET_SVG_BYTES = 4096;
+
+const TRACKS: { value: CourseTrack; label: string }[] = [
+  { value: 'explorer', label: 'Explorer track' },
+  { value: 'developer', label: 'Developer track' },
+];
+
+// Preview names that exercise wrapping, non-Latin scripts and RTL
+const SAMPLE_NAMES = [
+  'Ada Lovelace',
+  'Maximilian Alexander Christopher von Habsburg-Lothringen',
+  '山田 太郎',
+  'محمد بن عبد الله',
+];
+
+interface TemplateDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  svgTemplate: string;
+  isDefault: boolean;
+}
+
+const NEW_DRAFT: TemplateDraft = {
+  id: null,
+  name: '',
+  description: '',
+  svgTemplate: DEFAULT_CERTIFICATE_TEMPLATE,
+  isDefault: false,
+};
+
+function toDraft(template: CertificateTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description || '',
+    svgTemplate: template.svg_template,
+    isDefault: template.is_default,
+  };
+}
+
+export function CertificateTemplatesSubTab() {
+  const { data: templates, isLoading } = useCertificateTemplates();
+  const { data: assignments } = useCertificateTemplateAssignments();
+  const { courses } = useCourses();
+  const saveTemplate = useSaveCertificateTemplate();
+  const deleteTemplate = useDeleteCertificateTemplate();
+  const assignTemplate = useAssignCertificateTemplate();
+
+  const [draft, setDraft] = useState<TemplateDraft>(NEW_DRAFT);
+  const [sampleName, setSampleName] = useState(SAMPLE_NAMES[1]);
+  const [sampleCourseId, setSampleCourseId] = useState('');
+  const [previewSvg, setPreviewSvg] = useState('');
+
+  const errors = useMemo(() => validateCertificateTemplate(draft.svgTemplate), [draft.svgTemplate]);
+  const sampleCourse = courses.find((course) => course.id === sampleCourseId) || courses[0];
+  const previewSize = previewSvg ? estimateSVGSize(previewSvg) : 0;
+
+  // Re-render the preview as the template or sample data changes
+  useEffect(() => {
+    if (errors.length > 0) return;
+
+    let cancelled = false;
+    generateCertificateSVG(
+      {
+        userName: sampleName || SAMPLE_NAMES[0],
+        courseName: sampleCourse?.title || 'Introduction to Hedera Consensus Service',
+        completionDate: new Date().toISOString(),
+        certificateNumber: `W3V-${new Date().getFullYear()}-00042`,
+        verificationUrl: `${window.location.origin}/verify?cert=W3V-${new Date().getFullYear()}-00042`,
+        platformSignature: 'preview',
+        track: sampleCourse?.track,
+        difficulty: sampleCourse?.difficulty,
+      },
+      draft.svgTemplate
+    )
+      .then((svg) => {
+        if (!cancelled) setPreviewSvg(svg);
+      })
+      .catch((error) => {
+        console.error('Certificate preview failed:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draft.svgTemplate, sampleName, sampleCourse?.title, sampleCourse?.track, sampleCourse?.difficulty, errors.length]);
+
+  const templateFor = (target: { courseId?: string; track?: CourseTrack }) =>
+    assignments?.find((assignment) =>
+      target.courseId ? assignment.course_id === target.courseId : assignment.track === target.track
+    )?.template_id || '';
+
+  const handleSave = () => {
+    if (!draft.name.trim() || errors.length > 0) return;
+
+    saveTemplate.mutate(
+      {
+        templateId: draft.id,
+        name: draft.name,
+        description: draft.description,
+        svgTemplate: draft.svgTemplate,
+        isDefault: draft.isDefault,
+      },
+      {
+        onSuccess: (templateId) => setDraft((current) => ({ ...current, id: templateId })),
+      }
+    );
+  };
+
+  const handleDelete = (template: CertificateTemplate) => {
+    if (!confirm(`Delete "${template.name}"? Courses using it fall back to their track or the default template.`)) return;
+
+    deleteTemplate.mutate(
+      { templateId: template.id },
+      {
+        onSuccess: () => {
+          if (draft.id === template.id) setDraft(NEW_DRAFT);
+        },
+      }
+    );
+  };
+
+  const handleAssign = (templateId: string, target: { courseId?: string; track?: CourseTrack }) => {
+    assignTemplate.mutate({ templateId: templateId || null, ...target });
+  };
+
+  const templateOptions = (
+    <>
+      <option value="">Inherit</option>
+      {templates?.map((template) => (
+        <option key={template.id} value={template.id}>
+          {template.name}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6">
+        {/* Template List */}
+        <div className="bg-white rounded-2xl p-4 shadow-sm space-y-2 self-start">
+          <button
+            onClick={() => setDraft(NEW_DRAFT)}
+            className="w-full px-4 py-2 rounded-xl flex items-center gap-2 text-[#0084C7] hover:bg-blue-50 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New template
+          </button>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin w-6 h-6 border-4 border-[#0084C7] border-t-transparent rounded-full" />
+            </div>
+          ) : templates && templates.length > 0 ? (
+            templates.map((template) => (
+              <div
+                key={template.id}
+                className={`px-4 py-2 rounded-xl flex items-center justify-between gap-2 cursor-pointer transition-colors ${
+                  draft.id === template.id ? 'bg-[#0084C7] text-white' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+                onClick={() => setDraft(toDraft(template))}
+              >
+                <span className="truncate flex items-center gap-1.5">
+                  {template.is_default && <Star className="w-3.5 h-3.5 shrink-0" />}
+                  {template.name}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(template);
+                  }}
+                  disabled={deleteTemplate.isPending}
+                  className="opacity-60 hover:opacity-100 disabled:opacity-30"
+                  title="Delete template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-gray-400 px-4 py-2">No templates yet. Certificates use the built-in layout.</p>
+          )}
+        </div>
+
+        {/* Editor and Preview */}
+        <div className="bg-white rounded-2xl p-5 shadow-sm space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name"
+              maxLength={80}
+              className="px-4 py-2 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+            />
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Description (optional)"
+              className="px-4 py-2 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <textarea
+                value={draft.svgTemplate}
+                onChange={(e) => setDraft({ ...draft, svgTemplate: e.target.value })}
+                spellCheck={false}
+                rows={22}
+                className="w-full px-3 py-2 rounded-xl border border-gray-200 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+              />
+              <p className="text-xs text-gray-500">
+                Placeholders: {TEMPLATE_PLACEHOLDERS.map((name) => `{{${name}}}`).join(' ')}. Add{' '}
+                <code>data-wrap="width"</code> to a <code>&lt;text&gt;</code> element to wrap it.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  list="certificate-sample-names"
+                  value={sampleName}
+                  onChange={(e) => setSampleName(e.target.value)}
+                  placeholder="Sample learner name"
+                  className="px-3 py-2 rounded-xl border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+                />
+                <datalist id="certificate-sample-names">
+                  {SAMPLE_NAMES.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+                <select
+                  value={sampleCourse?.id || ''}
+                  onChange={(e) => setSampleCourseId(e.target.value)}
+                  className="px-3 py-2 rounded-xl border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+                >
+                  {courses.map((course) => (
+                    <option key={course.id} value={course.id}>
+                      {course.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {errors.length > 0 ? (
+                <div className="rounded-xl bg-red-50 text-red-700 text-sm p-4 space-y-1">
+                  {errors.map((error) => (
+                    <p key={error} className="flex items-start gap-2">
+                      <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                      {error}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                previewSvg && (
+                  <>
+                    {/* Rendered as an image so nothing in the template can run */}
+                    <img
+                      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(previewSvg)}`}
+                      alt="Certificate preview"
+                      className="w-full rounded-xl border border-gray-200"
+                    />
+                    <p className={`text-xs ${previewSize > TARGET_SVG_BYTES ? 'text-amber-600' : 'text-gray-500'}`}>
+                      {previewSize.toLocaleString()} bytes
+                      {previewSize > TARGET_SVG_BYTES
+                        ? ` - over the ${TARGET_SVG_BYTES / 1024}KB target, certificates will be uploaded to HFS in several chunks`
+                        : ` (${((previewSize / TARGET_SVG_BYTES) * 100).toFixed(0)}% of the ${TARGET_SVG_BYTES / 1024}KB target)`}
+                    </p>
+                  </>
+                )
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.isDefault}
+                onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+              />
+              Default for courses without a course or track template
+            </label>
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim() || errors.length > 0 || saveTemplate.isPending}
+              className="px-4 py-2 rounded-xl flex items-center gap-2 bg-[#0084C7] text-white hover:bg-[#0073ad] transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {draft.id ? 'Save template' : 'Create template'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Assignments */}
+      <div className="bg-white rounded-2xl p-5 shadow-sm space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Assignments</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {TRACKS.map((track) => (
+            <label key={track.value} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+              {track.label}
+              <select
+                value={templateFor({ track: track.value })}
+                onChange={(e) => handleAssign(e.target.value, { track: track.value })}
+                disabled={assignTemplate.isPending}
+                className="px-3 py-2 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+              >
+                {templateOptions}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {courses.map((course) => (
+            <div key={course.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="text-gray-900 truncate">{course.title}</p>
+                <p className="text-gray-500 capitalize">
+                  {course.track} · {course.difficulty}
+                </p>
+              </div>
+              <select
+                value={templateFor({ courseId: course.id })}
+                onChange={(e) => handleAssign(e.target.value, { courseId: course.id })}
+                disabled={assignTemplate.isPending}
+                className="px-3 py-2 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+              >
+                {templateOptions}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
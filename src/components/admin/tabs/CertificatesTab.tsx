@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { IssuedCertificatesSubTab } from './IssuedCertificatesSubTab';
+import { CertificateTemplatesSubTab } from './CertificateTemplatesSubTab';
+
+type SubTab = 'issued' | 'templates';
+
+export function CertificatesTab() {
+  const [activeSubTab, setActiveSubTab] = useState<SubTab>('issued');
+
+  return (
+    <div className="space-y-6">
+      {/* Header with Sub-tab Navigation */}
+      <div className="flex items-center justify-between">
+        <div className="bg-white rounded-2xl p-2 shadow-sm inline-flex gap-2">
+          <button
+            onClick={() => setActiveSubTab('issued')}
+            className={`px-6 py-2.5 rounded-xl font-medium transition-all ${
+              activeSubTab === 'issued'
+                ? 'bg-[#0084C7] text-white shadow-sm'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+            }`}
+          >
+            Issued Certificates
+          </button>
+          <button
+            onClick={() => setActiveSubTab('templates')}
+            className={`px-6 py-2.5 rounded-xl font-medium transition-all ${
+              activeSubTab === 'templates'
+                ? 'bg-[#0084C7] text-white shadow-sm'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+            }`}
+          >
+            Templates
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          {activeSubTab === 'issued'
+            ? 'Revocations and reissues are attested on HCS'
+            : 'New certificates use the course template, then the track template, then the default'}
+        </p>
+      </div>
+
+      {/* Sub-tab Content */}
+      {activeSubTab === 'issued' && <IssuedCertificatesSubTab />}
+      {activeSubTab === 'templates' && <CertificateTemplatesSubTab />}
+    </div>
+  );
+}
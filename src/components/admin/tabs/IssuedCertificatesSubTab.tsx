@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Search, Ban, RefreshCw, ExternalLink } from 'lucide-react';
+import { useCertificatesForAdmin, useRevokeCertificate, useReissueCertificate } from '../../../hooks/useCertificates';
+import type { AdminCertificateFilters, Certificate } from '../../../lib/api/certificates';
+
+type StatusFilter = NonNullable<AdminCertificateFilters['status']>;
+
+const STATUS_LABELS: Record<StatusFilter, string> = {
+  active: 'Active',
+  revoked: 'Revoked',
+  superseded: 'Superseded',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  revoked: 'bg-red-50 text-red-700',
+  superseded: 'bg-amber-50 text-amber-700',
+};
+
+export function IssuedCertificatesSubTab() {
+  const [status, setStatus] = useState<StatusFilter>('active');
+  const [search, setSearch] = useState('');
+
+  const { data: certificates, isLoading } = useCertificatesForAdmin({
+    status,
+    search: search.trim() || undefined,
+  });
+  const revokeCertificate = useRevokeCertificate();
+  const reissueCertificate = useReissueCertificate();
+  const isBusy = revokeCertificate.isPending || reissueCertificate.isPending;
+
+  const handleRevoke = (certificate: Certificate) => {
+    const reason = prompt(`Why is ${certificate.certificate_number} being revoked? This is published on-chain.`);
+    if (!reason?.trim()) return;
+    revokeCertificate.mutate({ certificateId: certificate.id, reason });
+  };
+
+  const handleReissue = (certificate: Certificate) => {
+    const reason = prompt(`Why is ${certificate.certificate_number} being reissued? This is published on-chain.`);
+    if (!reason?.trim()) return;
+
+    const holderName = prompt(
+      'Name on the new certificate (leave empty to use the current username):',
+      certificate.certificate_data?.userName || ''
+    );
+    if (holderName === null) return;
+
+    reissueCertificate.mutate({
+      certificateId: certificate.id,
+      reason,
+      holderName: holderName.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-2xl p-4 shadow-sm flex flex-wrap items-center gap-2">
+        {(['active', 'revoked', 'superseded'] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setStatus(value)}
+            className={`px-4 py-2 rounded-xl transition-colors ${
+              status === value ? 'bg-[#0084C7] text-white' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {STATUS_LABELS[value]}
+          </button>
+        ))}
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by certificate number or course..."
+            className="w-full pl-9 pr-4 py-2 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-[#0084C7]"
+          />
+        </div>
+      </div>
+
+      {/* Certificates List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin w-8 h-8 border-4 border-[#0084C7] border-t-transparent rounded-full" />
+        </div>
+      ) : certificates && certificates.length > 0 ? (
+        <div className="space-y-3">
+          {certificates.map((certificate) => (
+            <div key={certificate.id} className="bg-white rounded-2xl p-5 shadow-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <a
+                      href={`/verify?cert=${certificate.certificate_number}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-gray-900 hover:text-[#0084C7] flex items-center gap-1"
+                    >
+                      {certificate.certificate_number}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                    {STATUS_STYLES[certificate.status] && (
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[certificate.status]}`}>
+                        {certificate.status}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                    <span className="text-gray-900">
+                      {certificate.certificate_data?.userName || certificate.users?.username || 'Unknown'}
+                    </span>
+                    <span>·</span>
+                    <span>{certificate.courses?.title || certificate.certificate_data?.courseName}</span>
+                    <span>·</span>
+                    <span>
+                      {certificate.token_id} #{certificate.serial_number}
+                    </span>
+                    {certificate.minted_at && (
+                      <>
+                        <span>·</span>
+                        <span>{formatDistanceToNow(new Date(certificate.minted_at), { addSuffix: true })}</span>
+                      </>
+                    )}
+                  </div>
+                  {certificate.revocation_reason && (
+                    <p className="text-sm text-red-600 mt-2">Revoked: {certificate.revocation_reason}</p>
+                  )}
+                </div>
+                {status === 'active' && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleReissue(certificate)}
+                      disabled={isBusy}
+                      className="px-3 py-2 rounded-xl text-sm flex items-center gap-1.5 transition-colors disabled:opacity-50 bg-blue-50 text-blue-700 hover:bg-blue-100"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Reissue
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(certificate)}
+                      disabled={isBusy}
+                      className="px-3 py-2 rounded-xl text-sm flex items-center gap-1.5 transition-colors disabled:opacity-50 bg-red-50 text-red-700 hover:bg-red-100"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12 text-gray-400">No certificates found</div>
+      )}
+    </div>
+  );
+}
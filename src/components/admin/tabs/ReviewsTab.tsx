@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Star, EyeOff, Eye } from 'lucide-react';
+import { useWallet } from '../../../contexts/WalletContext';
+import { useReviewsForModeration, useModerateReview } from '../../../hooks/useReviews';
+import type { ModerationReview, ModerationReviewFilters } from '../../../lib/api/reviews';
+
+type ReviewFilter = 'all' | 'low' | 'hidden';
+
+const FILTERS: Record<ReviewFilter, ModerationReviewFilters> = {
+  all: {},
+  low: { maxRating: 2 },
+  hidden: { hiddenOnly: true },
+};
+
+export function ReviewsTab() {
+  const { user } = useWallet();
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+
+  const { data: reviews, isLoading } = useReviewsForModeration(FILTERS[filter]);
+  const moderateReview = useModerateReview(user?.id);
+
+  const handleToggle = (review: ModerationReview) => {
+    if (review.is_hidden) {
+      moderateReview.mutate({ reviewId: review.id, isHidden: false });
+      return;
+    }
+
+    const reason = prompt('Why is this review being hidden?');
+    if (!reason?.trim()) return;
+    moderateReview.mutate({ reviewId: review.id, isHidden: true, reason });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Course Reviews</h2>
+        <p className="text-sm text-gray-500">Hidden reviews are excluded from course ratings</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl p-4 shadow-sm flex gap-2">
+        {(['all', 'low', 'hidden'] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-4 py-2 rounded-xl transition-colors ${
+              filter === value ? 'bg-[#0084C7] text-white' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {value === 'all' ? 'All Written' : value === 'low' ? '1–2 Stars' : 'Hidden'}
+          </button>
+        ))}
+      </div>
+
+      {/* Reviews List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin w-8 h-8 border-4 border-[#0084C7] border-t-transparent rounded-full" />
+        </div>
+      ) : reviews && reviews.length > 0 ? (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <div
+              key={review.id}
+              className={`bg-white rounded-2xl p-5 shadow-sm ${review.is_hidden ? 'opacity-70' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500 mb-2">
+                    <span className="text-gray-900">
+                      {review.author?.avatar_emoji} {review.author?.username || 'Unknown'}
+                    </span>
+                    <span>on</span>
+                    <span className="text-gray-900">
+                      {review.course?.thumbnail_emoji} {review.course?.title || review.course_id}
+                    </span>
+                    <span>·</span>
+                    <span>{formatDistanceToNow(new Date(review.updated_at), { addSuffix: true })}</span>
+                  </div>
+                  <div className="flex items-center gap-0.5 mb-2">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <Star
+                        key={star}
+                        className={`w-4 h-4 ${
+                          star <= review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                        }`}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-gray-700 whitespace-pre-line">{review.review_text}</p>
+                  {review.is_hidden && review.hidden_reason && (
+                    <p className="text-sm text-amber-600 mt-2">Hidden: {review.hidden_reason}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleToggle(review)}
+                  disabled={moderateReview.isPending}
+                  className={`px-3 py-2 rounded-xl text-sm flex items-center gap-1.5 transition-colors disabled:opacity-50 ${
+                    review.is_hidden
+                      ? 'bg-green-50 text-green-700 hover:bg-green-100'
+                      : 'bg-red-50 text-red-700 hover:bg-red-100'
+                  }`}
+                >
+                  {review.is_hidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  {review.is_hidden ? 'Restore' : 'Hide'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12 text-gray-400">No reviews found</div>
+      )}
+    </div>
+  );
+}
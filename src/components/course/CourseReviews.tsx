@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Star, Loader2, Pencil, Trash2, EyeOff, MessageSquare } from 'lucide-react';
+import { Button } from '../ui/button';
+import {
+  useCourseReviews,
+  useRatingBreakdown,
+  useMyCourseReview,
+  useCanReviewCourse,
+  useSubmitReview,
+  useDeleteReview,
+} from '../../hooks/useReviews';
+import { MAX_REVIEW_LENGTH, REVIEW_PROGRESS_THRESHOLD } from '../../lib/api/reviews';
+
+interface CourseReviewsProps {
+  courseId: string;
+  userId?: string;
+  averageRating: number;
+  totalRatings: number;
+  /** Current course progress (0-100), used to re-check review eligibility */
+  progressPercentage: number;
+}
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'lg';
+}
+
+export function StarRating({ value, onChange, size = 'sm' }: StarRatingProps) {
+  const [hovered, setHovered] = useState(0);
+  const displayValue = hovered || value;
+  const iconSize = size === 'lg' ? 'w-7 h-7' : 'w-4 h-4';
+
+  return (
+    <div className="flex items-center gap-0.5" onMouseLeave={() => setHovered(0)}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const filled = star <= Math.round(displayValue);
+        const icon = (
+          <Star
+            className={`${iconSize} ${filled ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+          />
+        );
+
+        if (!onChange) {
+          return <span key={star}>{icon}</span>;
+        }
+
+        return (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            className="p-0.5 transition-transform hover:scale-110"
+            aria-label={`${star} star${star > 1 ? 's' : ''}`}
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function CourseReviews({
+  courseId,
+  userId,
+  averageRating,
+  totalRatings,
+  progressPercentage,
+}: CourseReviewsProps) {
+  const { data: reviews = [], isLoading } = useCourseReviews(courseId);
+  const { data: breakdown } = useRatingBreakdown(courseId);
+  const { data: myReview } = useMyCourseReview(courseId, userId);
+  const { data: canReview = false } = useCanReviewCourse(courseId, userId, progressPercentage);
+  const submitReview = useSubmitReview();
+  const deleteReview = useDeleteReview();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [reviewText, setReviewText] = useState('');
+
+  // Load the existing review into the form
+  useEffect(() => {
+    setRating(myReview?.rating ?? 0);
+    setReviewText(myReview?.review_text ?? '');
+  }, [myReview?.id, myReview?.updated_at]);
+
+  const handleSubmit = async () => {
+    if (!userId || rating < 1) return;
+
+    await submitReview.mutateAsync({
+      courseId,
+      rating,
+      reviewText,
+      isEdit: !!myReview,
+    });
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (!userId || !confirm('Delete your review?')) return;
+    deleteReview.mutate({ courseId });
+    setIsEditing(false);
+  };
+
+  const showForm = canReview && (!myReview || isEditing);
+  const otherReviews = reviews.filter((review) => review.user_id !== userId);
+
+  return (
+    <div className="bg-white rounded-3xl p-6 md:p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)]">
+      <h3 className="mb-6 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5 text-[#0084C7]" />
+        Ratings & Reviews
+      </h3>
+
+      {/* Summary */}
+      <div className="flex flex-col sm:flex-row gap-6 mb-8">
+        <div className="text-center sm:w-40 flex-shrink-0">
+          <div className="text-5xl text-gray-900 mb-2">
+            {totalRatings > 0 ? averageRating.toFixed(1) : '–'}
+          </div>
+          <div className="flex justify-center mb-1">
+            <StarRating value={averageRating} />
+          </div>
+          <div className="text-sm text-gray-500">
+            {totalRatings} {totalRatings === 1 ? 'rating' : 'ratings'}
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-1.5">
+          {([5, 4, 3, 2, 1] as const).map((star) => {
+            const count = breakdown?.[star] ?? 0;
+            const percent = totalRatings > 0 ? (count / totalRatings) * 100 : 0;
+
+            return (
+              <div key={star} className="flex items-center gap-3 text-sm">
+                <span className="w-3 text-gray-600">{star}</span>
+                <Star className="w-3.5 h-3.5 fill-yellow-400 text-yellow-400" />
+                <div className="flex-1 bg-gray-100 rounded-full h-2 overflow-hidden shadow-[inset_0_1px_3px_rgba(0,0,0,0.08)]">
+                  <div className="bg-yellow-400 h-full rounded-full" style={{ width: `${percent}%` }} />
+                </div>
+                <span className="w-8 text-right text-gray-500">{count}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Your review */}
+      {userId && (
+        <div className="mb-8">
+          {showForm ? (
+            <div className="bg-gray-50 rounded-2xl p-5 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)]">
+              <p className="text-gray-700 mb-3">{myReview ? 'Edit your review' : 'Rate this course'}</p>
+              <div className="mb-4">
+                <StarRating value={rating} onChange={setRating} size="lg" />
+              </div>
+              <textarea
+                value={reviewText}
+                onChange={(e) => setReviewText(e.target.value)}
+                maxLength={MAX_REVIEW_LENGTH}
+                rows={4}
+                placeholder="What did you like? What could be better? (optional)"
+                className="w-full px-4 py-3 bg-white rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20 resize-none"
+              />
+              <div className="flex items-center justify-between mt-3">
+                <span className="text-xs text-gray-400">
+                  {reviewText.length}/{MAX_REVIEW_LENGTH}
+                </span>
+                <div className="flex gap-2">
+                  {myReview && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => setIsEditing(false)}
+                      className="rounded-full"
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                  <Button
+                    onClick={handleSubmit}
+                    disabled={rating < 1 || submitReview.isPending}
+                    className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white hover:from-[#0074b7] hover:to-[#0098d8] rounded-full px-6 shadow-[0_4px_16px_rgba(0,132,199,0.3)]"
+                  >
+                    {submitReview.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {myReview ? 'Save Changes' : 'Submit Review'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : myReview ? (
+            <div className="bg-[#0084C7]/5 rounded-2xl p-5">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm text-gray-500 mb-1">Your review</p>
+                  <StarRating value={myReview.rating} />
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} className="rounded-full">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDelete}
+                    disabled={deleteReview.isPending}
+                    className="rounded-full text-red-500 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              {myReview.review_text && (
+                <p className="text-gray-700 mt-3 whitespace-pre-line">{myReview.review_text}</p>
+              )}
+              {myReview.is_hidden && (
+                <p className="text-sm text-amber-600 mt-3 flex items-center gap-1.5">
+                  <EyeOff className="w-4 h-4" />
+                  Hidden by a moderator{myReview.hidden_reason ? `: ${myReview.hidden_reason}` : ''}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 bg-gray-50 rounded-2xl p-4">
+              Reach {REVIEW_PROGRESS_THRESHOLD}% progress in this course to leave a review.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Reviews list */}
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-[#0084C7]" />
+        </div>
+      ) : otherReviews.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">
+          {myReview ? 'No other reviews yet.' : 'No reviews yet. Be the first to share your thoughts!'}
+        </p>
+      ) : (
+        <div className="space-y-5">
+          {otherReviews.map((review) => (
+            <div key={review.id} className="border-t border-gray-100 pt-5 first:border-t-0 first:pt-0">
+              <div className="flex items-center gap-3 mb-2">
+                <div className="w-10 h-10 bg-gray-50 rounded-full flex items-center justify-center text-xl shadow-[inset_-2px_-2px_6px_rgba(0,0,0,0.05),inset_2px_2px_6px_rgba(255,255,255,0.9)]">
+                  {review.author?.avatar_emoji || '👤'}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-900 truncate">{review.author?.username || 'Learner'}</div>
+                  <div className="flex items-center gap-2">
+                    <StarRating value={review.rating} />
+                    <span className="text-xs text-gray-400">
+                      {formatDistanceToNow(new Date(review.updated_at), { addSuffix: true })}
+                      {review.updated_at !== review.created_at && ' (edited)'}
+                    </span>
+                  </div>
+                </div>
+              </div>
+              {review.review_text && (
+                <p className="text-gray-700 whitespace-pre-line">{review.review_text}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
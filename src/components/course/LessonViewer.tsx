@@ -8,12 +8,19 @@ import { CodeEditorLesson } from './lessons/CodeEditorLesson';
 
 interface LessonViewerProps {
   lesson: LessonContent;
-  onComplete: (score?: number) => void;
+  onComplete: (score?: number, answers?: (number | null)[]) => void;
+  onQuizAttempt?: (answers: (number | null)[]) => void;
   isCompleted?: boolean;
   isCompleting?: boolean;
 }
 
-export function LessonViewer({ lesson, onComplete, isCompleted = false, isCompleting = false }: LessonViewerProps) {
+export function LessonViewer({
+  lesson,
+  onComplete,
+  onQuizAttempt,
+  isCompleted = false,
+  isCompleting = false,
+}: LessonViewerProps) {
   // Practical lessons have their own layout, don't wrap them
   if (lesson.type === 'practical') {
     return <PracticalLesson content={lesson.content} onComplete={onComplete} />;
@@ -63,6 +70,7 @@ export function LessonViewer({ lesson, onComplete, isCompleted = false, isComple
           <QuizLesson
             content={lesson.content}
             onComplete={onComplete}
+            onAttemptFinished={onQuizAttempt}
             isCompleted={isCompleted}
             isCompleting={isCompleting}
           />
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Bot, Send, ThumbsUp, ThumbsDown, Loader2, Sparkles } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '../ui/sheet';
+import {
+  useAIQuota,
+  useChatHistory,
+  useChatWithTutor,
+  useCourseChatSession,
+  useCreateChatSession,
+  useIsAIEnabled,
+  useProvideFeedback,
+} from '../../hooks/useAI';
+import { summarizeLessonForTutor, type ChatContext, type ChatProgress } from '../../lib/ai/ai-service';
+import type { LessonContent } from '../../lib/courseContent';
+
+interface TutorDrawerProps {
+  courseId: string;
+  courseTitle: string;
+  lesson: LessonContent;
+  progress: ChatProgress;
+  userId?: string;
+}
+
+const STARTER_QUESTIONS = [
+  'Explain this lesson more simply',
+  'Give me a real-world example',
+  'What should I remember from this?',
+];
+
+export function TutorDrawer({ courseId, courseTitle, lesson, progress, userId }: TutorDrawerProps) {
+  const aiEnabled = useIsAIEnabled();
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const { data: sessionId } = useCourseChatSession(userId ? courseId : undefined);
+  const { data: messages = [] } = useChatHistory(sessionId || undefined, { enabled: isOpen });
+  const { data: quota } = useAIQuota('chat');
+  const createSession = useCreateChatSession();
+  const chat = useChatWithTutor(sessionId || '');
+  const feedback = useProvideFeedback(sessionId || undefined);
+
+  const lessonContent = useMemo(
+    () => summarizeLessonForTutor(lesson.type, lesson.content),
+    [lesson.type, lesson.content]
+  );
+
+  // Keep the latest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages.length, pendingMessage, isOpen]);
+
+  if (!aiEnabled) return null;
+
+  const outOfQuota = quota?.remaining === 0;
+  const isSending = createSession.isPending || chat.isPending;
+  const canSend = !!userId && !outOfQuota && !isSending;
+
+  const handleSend = async (text: string) => {
+    const message = text.trim();
+    if (!canSend || message.length < 3) return;
+
+    setInput('');
+    setSuggestions([]);
+    setPendingMessage(message);
+
+    try {
+      // Sessions are created on the first question so browsing a course doesn't leave empty sessions
+      const activeSessionId = sessionId || (await createSession.mutateAsync({ courseId, lessonId: lesson.id }));
+
+      const context: ChatContext = {
+        sessionId: activeSessionId,
+        courseId,
+        courseTitle,
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        lessonType: lesson.type,
+        lessonContent,
+        progress,
+      };
+
+      const response = await chat.mutateAsync({ message, context });
+      setSuggestions(response.suggestions || []);
+    } catch {
+      // Errors are surfaced by the mutation hooks; give the learner their text back
+      setInput(message);
+    } finally {
+      setPendingMessage(null);
+    }
+  };
+
+  const visibleMessages = messages.filter((message) => message.role !== 'system');
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-6 right-6 z-40 flex items-center gap-2 px-5 py-3 rounded-full bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white shadow-[0_8px_24px_rgba(0,132,199,0.4)] hover:shadow-[0_12px_32px_rgba(0,132,199,0.5)] transition-all"
+      >
+        <Bot className="w-5 h-5" />
+        Ask Tutor
+      </button>
+
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetContent side="right" className="w-full sm:max-w-md p-0 gap-0 bg-white">
+          <SheetHeader className="border-b border-gray-100 p-5">
+            <SheetTitle className="flex items-center gap-2">
+              <Bot className="w-5 h-5 text-[#0084C7]" />
+              AI Tutor
+            </SheetTitle>
+            <SheetDescription>
+              Lesson {progress.currentLessonNumber} of {progress.totalLessons}: {lesson.title}
+            </SheetDescription>
+            {quota && (
+              <p className={`text-xs ${outOfQuota ? 'text-red-600' : 'text-gray-500'}`}>
+                {quota.remaining}/{quota.limit} messages left this hour
+                {outOfQuota && ` · resets ${formatDistanceToNow(new Date(quota.resetsAt), { addSuffix: true })}`}
+              </p>
+            )}
+          </SheetHeader>
+
+          {/* Conversation */}
+          <div ref={scrollRef} className="flex-1 overflow-y-auto p-5 space-y-4 bg-gray-50">
+            {visibleMessages.length === 0 && !pendingMessage && (
+              <div className="text-center text-gray-500 py-8">
+                <Sparkles className="w-8 h-8 text-[#0084C7] mx-auto mb-3" />
+                <p className="mb-1 text-gray-700">Stuck on something?</p>
+                <p className="text-sm">The tutor can see this lesson and how far you've come.</p>
+              </div>
+            )}
+
+            {visibleMessages.map((message) => (
+              <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className="max-w-[85%]">
+                  <div
+                    className={`rounded-2xl px-4 py-3 text-sm whitespace-pre-line ${
+                      message.role === 'user'
+                        ? 'bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white'
+                        : 'bg-white text-gray-800 shadow-[0_2px_8px_rgba(0,0,0,0.06)]'
+                    }`}
+                  >
+                    {message.content}
+                  </div>
+                  {message.role === 'assistant' && (
+                    <div className="flex items-center gap-1 mt-1">
+                      <button
+                        onClick={() => feedback.mutate({ messageId: message.id, helpful: true })}
+                        disabled={feedback.isPending}
+                        className={`p-1 rounded-full hover:bg-gray-200 ${
+                          message.helpful === true ? 'text-green-600' : 'text-gray-400'
+                        }`}
+                        aria-label="Helpful"
+                      >
+                        <ThumbsUp className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => feedback.mutate({ messageId: message.id, helpful: false })}
+                        disabled={feedback.isPending}
+                        className={`p-1 rounded-full hover:bg-gray-200 ${
+                          message.helpful === false ? 'text-red-500' : 'text-gray-400'
+                        }`}
+                        aria-label="Not helpful"
+                      >
+                        <ThumbsDown className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {pendingMessage && (
+              <>
+                <div className="flex justify-end">
+                  <div className="max-w-[85%] rounded-2xl px-4 py-3 text-sm whitespace-pre-line bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white opacity-80">
+                    {pendingMessage}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 animate-spin text-[#0084C7]" />
+                  Tutor is thinking...
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Composer */}
+          <div className="border-t border-gray-100 p-4 space-y-3">
+            {!userId ? (
+              <p className="text-sm text-gray-500 text-center">Connect your wallet to chat with the tutor.</p>
+            ) : (
+              <>
+                {!isSending && (
+                  <div className="flex flex-wrap gap-2">
+                    {(suggestions.length > 0 ? suggestions : visibleMessages.length === 0 ? STARTER_QUESTIONS : []).map(
+                      (suggestion) => (
+                        <button
+                          key={suggestion}
+                          onClick={() => handleSend(suggestion)}
+                          disabled={!canSend}
+                          className="text-xs px-3 py-1.5 rounded-full bg-[#0084C7]/10 text-[#0084C7] hover:bg-[#0084C7]/20 transition-colors disabled:opacity-50"
+                        >
+                          {suggestion}
+                        </button>
+                      )
+                    )}
+                  </div>
+                )}
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSend(input);
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    maxLength={1000}
+                    disabled={outOfQuota}
+                    placeholder={outOfQuota ? 'Hourly limit reached' : 'Ask about this lesson...'}
+                    className="flex-1 px-4 py-2.5 bg-gray-50 rounded-full border-0 text-sm shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20 disabled:opacity-60"
+                  />
+                  <Button
+                    type="submit"
+                    disabled={!canSend || input.trim().length < 3}
+                    className="rounded-full bg-[#0084C7] text-white hover:bg-[#0074b7] px-4"
+                  >
+                    {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  </Button>
+                </form>
+              </>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from '../../ui/button';
 import { Search, ExternalLink, Eye, Clock, Coins, FileText, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 import { useWallet } from '@/contexts/WalletContext';
 import { toast } from 'sonner';
+import { decodeMirrorBase64, getMirrorNode } from '@/lib/hedera/mirror-node';
 
 interface ExplorerSection {
   id: string;
@@ -16,9 +17,6 @@ interface ExplorerGuideProps {
   onInteract?: () => void;
 }
 
-// Hedera Mirror Node API base URL
-const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com/api/v1';
-
 export function ExplorerGuide({ onInteract }: ExplorerGuideProps) {
   const wallet = useWallet();
   const [activeSection, setActiveSection] = useState<string>('account');
@@ -57,27 +55,25 @@ export function ExplorerGuide({ onInteract }: ExplorerGuideProps) {
     try {
       console.log(`🔍 Fetching account data for ${accountId}...`);
 
-      const response = await fetch(`${MIRROR_NODE_URL}/accounts/${accountId}`);
+      const mirrorNode = getMirrorNode();
+      const data = await mirrorNode.getAccount(accountId);
 
-      if (!response.ok) {
-        throw new Error(`Account not found or API error: ${response.statusText}`);
+      if (!data) {
+        throw new Error('Account not found');
       }
 
-      const data = await response.json();
-
       // Fetch recent transactions for this account
-      const txResponse = await fetch(
-        `${MIRROR_NODE_URL}/transactions?account.id=${accountId}&limit=5&order=desc`
-      );
-      const txData = txResponse.ok ? await txResponse.json() : { transactions: [] };
+      const recentTransactions = await mirrorNode
+        .getTransactions({ accountId, limit: 5 })
+        .catch(() => []);
 
       setSearchResult({
         type: 'account',
         account: accountId,
-        balance: (parseFloat(data.balance.balance) / 100000000).toFixed(4), // Convert tinybars to HBAR
+        balance: (data.balance.balance / 100000000).toFixed(4), // Convert tinybars to HBAR
         evmAddress: data.evm_address,
         created: data.created_timestamp,
-        recentTransactions: txData.transactions || [],
+        recentTransactions,
       });
 
       if (onInteract) onInteract();
@@ -100,14 +96,7 @@ export function ExplorerGuide({ onInteract }: ExplorerGuideProps) {
     try {
       console.log(`🔍 Fetching transaction data for ${txId}...`);
 
-      const response = await fetch(`${MIRROR_NODE_URL}/transactions/${txId}`);
-
-      if (!response.ok) {
-        throw new Error(`Transaction not found or API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const tx = data.transactions && data.transactions.length > 0 ? data.transactions[0] : null;
+      const [tx] = await getMirrorNode().getTransaction(txId);
 
       if (!tx) {
         throw new Error('Transaction not found');
@@ -124,7 +113,7 @@ export function ExplorerGuide({ onInteract }: ExplorerGuideProps) {
         fee: (tx.charged_tx_fee / 100000000).toFixed(8),
         time: new Date(parseFloat(tx.consensus_timestamp) * 1000).toLocaleString(),
         status: tx.result,
-        memo: tx.memo_base64 ? atob(tx.memo_base64) : 'None',
+        memo: tx.memo_base64 ? decodeMirrorBase64(tx.memo_base64) : 'None',
       });
 
       if (onInteract) onInteract();
@@ -2,10 +2,12 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import {
   FileText, GraduationCap, TrendingUp, ShieldCheck,
-  Factory, Users, CheckCircle, ArrowRight, Lightbulb
+  Factory, Users, CheckCircle, ArrowRight, Lightbulb, FlaskConical
 } from 'lucide-react';
 import { Card } from '../../ui/card';
 import { Button } from '../../ui/button';
+import { HCSTopicWorkshop } from '../practical/HCSTopicWorkshop';
+import { getMessageSchema } from '../../../lib/hedera/hcs-schemas';
 
 interface UseCase {
   id: string;
@@ -28,6 +30,7 @@ interface UseCase {
     cost: string;
     dataStored: string;
   };
+  schemaId: string; // Message schema for trying it in the topic workshop
 }
 
 const useCases: UseCase[] = [
@@ -63,7 +66,8 @@ const useCases: UseCase[] = [
       messagesPerDay: '~1000 messages (harvest, processing, shipping events)',
       cost: '$0.10/day = $36/year total',
       dataStored: 'Farm GPS, harvest date, weight, quality grade, photos, certifications'
-    }
+    },
+    schemaId: 'supply-chain-event'
   },
   {
     id: 'university-degrees',
@@ -97,7 +101,8 @@ const useCases: UseCase[] = [
       messagesPerDay: '~50 messages (degrees issued daily)',
       cost: '$0.005/day = $1.80/year',
       dataStored: 'Student ID, degree type, graduation date, SHA-256 hash of certificate PDF'
-    }
+    },
+    schemaId: 'credential-issued'
   },
   {
     id: 'election-voting',
@@ -133,7 +138,8 @@ const useCases: UseCase[] = [
       messagesPerDay: '~20 million on election day (one per voter)',
       cost: '$2,000 for entire election',
       dataStored: 'Encrypted vote hash (SHA-256), polling station ID, timestamp (NOT voter identity)'
-    }
+    },
+    schemaId: 'vote-cast'
   },
   {
     id: 'financial-audit',
@@ -168,7 +174,8 @@ const useCases: UseCase[] = [
       messagesPerDay: '~30,000 messages (transaction hashes)',
       cost: '$3/day = $1,095/year per company',
       dataStored: 'Transaction hash (SHA-256), timestamp, transaction ID, amount, sender/receiver'
-    }
+    },
+    schemaId: 'audit-entry'
   },
   {
     id: 'medical-records',
@@ -204,7 +211,8 @@ const useCases: UseCase[] = [
       messagesPerDay: '~1,500 messages (medical records)',
       cost: '$0.15/day = $55/year for entire hospital',
       dataStored: 'Record hash (SHA-256), patient pseudonym ID, doctor ID, timestamp, record type'
-    }
+    },
+    schemaId: 'audit-entry'
   }
 ];
 
@@ -215,9 +223,11 @@ interface HCSUseCaseExplorerProps {
 export const HCSUseCaseExplorer: React.FC<HCSUseCaseExplorerProps> = ({ onInteract }) => {
   const [selectedUseCase, setSelectedUseCase] = useState<UseCase | null>(null);
   const [hasInteracted, setHasInteracted] = useState(false);
+  const [isTryingIt, setIsTryingIt] = useState(false);
 
   const handleSelectUseCase = (useCase: UseCase) => {
     setSelectedUseCase(useCase);
+    setIsTryingIt(false);
 
     if (!hasInteracted && onInteract) {
       setHasInteracted(true);
@@ -322,7 +332,10 @@ export const HCSUseCaseExplorer: React.FC<HCSUseCaseExplorerProps> = ({ onIntera
                 {/* Back Button */}
                 <Button
                   variant="outline"
-                  onClick={() => setSelectedUseCase(null)}
+                  onClick={() => {
+                    setSelectedUseCase(null);
+                    setIsTryingIt(false);
+                  }}
                   size="sm"
                 >
                   ← Back to Use Cases
@@ -453,6 +466,31 @@ export const HCSUseCaseExplorer: React.FC<HCSUseCaseExplorerProps> = ({ onIntera
                     </div>
                   </div>
                 </Card>
+
+                {/* Try It Yourself */}
+                <Card className="p-6 bg-gradient-to-br from-blue-50/50 to-cyan-50/50 dark:from-blue-950/20 dark:to-cyan-950/20 border-2 border-blue-200 dark:border-blue-800">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                      <h4 className="text-xl font-semibold mb-1 flex items-center gap-2">
+                        <FlaskConical className="w-5 h-5 text-blue-600" />
+                        Try It Yourself
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        Create your own topic on testnet, post a {getMessageSchema(selectedUseCase.schemaId)?.name ?? 'structured'} message and verify its running hash.
+                      </p>
+                    </div>
+                    <Button
+                      variant={isTryingIt ? 'outline' : 'default'}
+                      onClick={() => setIsTryingIt(!isTryingIt)}
+                    >
+                      {isTryingIt ? 'Hide Workshop' : 'Open Topic Workshop'}
+                    </Button>
+                  </div>
+                </Card>
+
+                {isTryingIt && (
+                  <HCSTopicWorkshop key={selectedUseCase.id} defaultSchemaId={selectedUseCase.schemaId} />
+                )}
               </motion.div>
             )}
           </AnimatePresence>
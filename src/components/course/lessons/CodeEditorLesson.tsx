@@ -1,6 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Button } from '../../ui/button';
-import { CheckCircle, Play, RotateCcw, Lightbulb, Book, ExternalLink } from 'lucide-react';
+import { CheckCircle, Play, RotateCcw, Lightbulb, Book, ExternalLink, Loader2 } from 'lucide-react';
+import {
+  runInSandbox,
+  scoreSandboxRun,
+  type SandboxTest,
+  type SandboxTestResult,
+} from '../../../lib/sandbox/js-sandbox';
+import { createMockHederaModule } from '../../../lib/sandbox/mock-hedera-sdk';
 
 interface CodeEditorLessonProps {
   content: any;
@@ -9,12 +16,6 @@ interface CodeEditorLessonProps {
   isCompleting?: boolean;
 }
 
-interface Test {
-  name: string;
-  assertion: string;
-  expected: string;
-}
-
 interface Reference {
   title: string;
   url: string;
@@ -28,66 +29,40 @@ export function CodeEditorLesson({
 }: CodeEditorLessonProps) {
   const [code, setCode] = useState(content.starterCode || '// Start coding here...\n');
   const [output, setOutput] = useState<string>('');
-  const [testResults, setTestResults] = useState<{ name: string; passed: boolean; message: string }[]>([]);
+  const [testResults, setTestResults] = useState<SandboxTestResult[]>([]);
   const [showHints, setShowHints] = useState(false);
   const [currentHint, setCurrentHint] = useState(0);
   const [allTestsPassed, setAllTestsPassed] = useState(false);
+  const [score, setScore] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
 
-  const runCode = () => {
-    // Capture console.log output
-    const logs: string[] = [];
-    const originalLog = console.log;
-
-    // Override console.log temporarily
-    console.log = (...args: any[]) => {
-      logs.push(args.map(arg => String(arg)).join(' '));
-      originalLog(...args);
-    };
-
-    try {
-      // Clear previous output and results
-      setOutput('');
-      setTestResults([]);
-
-      // Run the user's code
-      // eslint-disable-next-line no-eval
-      eval(code);
-
-      // Restore console.log
-      console.log = originalLog;
+  const runCode = async () => {
+    setIsRunning(true);
+    setOutput('');
+    setTestResults([]);
 
-      // Set output
-      const outputText = logs.join('\n');
-      setOutput(outputText || '(No output)');
+    const tests: SandboxTest[] = content.tests || [];
+    // Each run starts from an empty simulated network so grading is repeatable
+    const result = await runInSandbox(code, { tests, modules: [createMockHederaModule()] });
 
-      // Run tests if they exist
-      if (content.tests && content.tests.length > 0) {
-        const results = content.tests.map((test: Test) => {
-          // Simple test: check if output contains expected string
-          const passed = outputText.includes(test.expected);
-          return {
-            name: test.name,
-            passed,
-            message: passed
-              ? `✓ ${test.name}`
-              : `✗ ${test.name} - Expected: "${test.expected}"`,
-          };
-        });
+    const logText = result.logs
+      .map((entry) => (entry.level === 'log' || entry.level === 'info' ? entry.text : `[${entry.level}] ${entry.text}`))
+      .join('\n');
+    setOutput(
+      [logText, result.error ? `Error: ${result.error}` : ''].filter(Boolean).join('\n') || '(No output)'
+    );
+    setTestResults(result.tests);
 
-        setTestResults(results);
+    // Lessons whose tests are all non-executable only require code that runs
+    // and differs from the starter template
+    const gradable = result.tests.filter((test) => test.status !== 'skipped');
+    const runScore = scoreSandboxRun(result);
+    const passed = !result.error && runScore === 100 &&
+      (gradable.length > 0 || code.trim() !== (content.starterCode || '').trim());
 
-        const allPassed = results.every((r) => r.passed);
-        setAllTestsPassed(allPassed);
-      } else {
-        // If no tests, any output is considered success
-        setAllTestsPassed(outputText.length > 0);
-      }
-    } catch (error: any) {
-      console.log = originalLog;
-      setOutput(`Error: ${error.message}`);
-      setTestResults([]);
-      setAllTestsPassed(false);
-    }
+    setScore(runScore);
+    setAllTestsPassed(passed);
+    setIsRunning(false);
   };
 
   const resetCode = () => {
@@ -95,6 +70,7 @@ export function CodeEditorLesson({
     setOutput('');
     setTestResults([]);
     setAllTestsPassed(false);
+    setScore(0);
   };
 
   const showSolution = () => {
@@ -104,7 +80,6 @@ export function CodeEditorLesson({
   };
 
   const handleComplete = () => {
-    const score = allTestsPassed ? 100 : 0;
     onComplete(score);
   };
 
@@ -132,11 +107,16 @@ export function CodeEditorLesson({
             </Button>
             <Button
               onClick={runCode}
+              disabled={isRunning}
               className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-full"
               size="sm"
             >
-              <Play className="w-4 h-4 mr-2" />
-              Run Code
+              {isRunning ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4 mr-2" />
+              )}
+              {isRunning ? 'Running...' : 'Run Code'}
             </Button>
           </div>
         </div>
@@ -163,18 +143,29 @@ export function CodeEditorLesson({
       {/* Test Results */}
       {testResults.length > 0 && (
         <div className="space-y-2">
-          <label className="text-sm font-semibold text-gray-700">Test Results:</label>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-semibold text-gray-700">Test Results:</label>
+            <span className="text-sm text-gray-600">
+              {testResults.filter((r) => r.status === 'passed').length}/
+              {testResults.filter((r) => r.status !== 'skipped').length} passed · Score {score}%
+            </span>
+          </div>
           <div className="space-y-2">
             {testResults.map((result, index) => (
               <div
                 key={index}
                 className={`p-3 rounded-xl border-2 ${
-                  result.passed
+                  result.status === 'passed'
                     ? 'bg-green-50 border-green-400 text-green-800'
+                    : result.status === 'skipped'
+                    ? 'bg-gray-50 border-gray-300 text-gray-600'
                     : 'bg-red-50 border-red-400 text-red-800'
                 }`}
               >
-                {result.message}
+                {result.status === 'passed' ? '✓' : result.status === 'skipped' ? '○' : '✗'} {result.name}
+                {result.status !== 'passed' && (
+                  <span className="block text-xs mt-1 font-mono">{result.message}</span>
+                )}
               </div>
             ))}
           </div>
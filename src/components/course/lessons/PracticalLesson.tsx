@@ -17,6 +17,7 @@
  * - nft_minting: Mint NFTs on testnet
  * - contract: Deploy smart contracts
  * - hcs_message: Submit HCS messages
+ * - hcs_topics: Create HCS topics, post schema messages and verify them
  * - defi: DeFi protocol simulation
  * - dex_swap: Token swapping
  * - wallet_creation: Generate new wallets
@@ -33,6 +34,7 @@ import { TransactionSender } from '../practical/TransactionSender';
 import { DeFiSimulator } from '../practical/DeFiSimulator';
 import { DEXSwapper } from '../practical/DEXSwapper';
 import { HCSMessageBoard } from '../practical/HCSMessageBoard';
+import { HCSTopicWorkshop } from '../practical/HCSTopicWorkshop';
 import { NFTMinterStudio } from '../practical/NFTMinterStudio';
 import { SmartContractPlayground } from '../practical/SmartContractPlayground';
 import { WalletCreator } from '../practical/WalletCreator';
@@ -54,6 +56,7 @@ interface PracticalLessonProps {
       | 'transaction'
       | 'dex_swap'
       | 'hcs_message'
+      | 'hcs_topics'
       | 'nft_minting'
       | 'wallet_creation'
       | 'wallet_investigation'
@@ -64,6 +67,7 @@ interface PracticalLessonProps {
     defaultRecipient?: string;
     defaultAmount?: number;
     defaultMemo?: string;
+    defaultSchemaId?: string; // hcs_topics: schema preselected for new topics
   };
   onComplete: (score?: number) => void;
   isCompleted?: boolean;
@@ -160,6 +164,17 @@ export function PracticalLesson({
           />
         );
 
+      case 'hcs_topics':
+        return (
+          <HCSTopicWorkshop
+            defaultSchemaId={content.defaultSchemaId}
+            onInteract={() => {
+              // When user verifies a message on their own topic, mark as completed
+              handleTransactionSuccess();
+            }}
+          />
+        );
+
       case 'nft_minting':
         return (
           <NFTMinterStudio
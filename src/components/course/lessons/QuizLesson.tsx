@@ -5,16 +5,25 @@ import { QuizQuestion } from '../../../lib/courseContent';
 
 interface QuizLessonProps {
   content: { questions: QuizQuestion[] };
-  onComplete: (score?: number) => void;
+  onComplete: (score?: number, answers?: (number | null)[]) => void;
+  /** Called after every attempt, passed or not (used to queue missed questions for review) */
+  onAttemptFinished?: (answers: (number | null)[]) => void;
   isCompleted?: boolean;
   isCompleting?: boolean;
 }
 
-export function QuizLesson({ content, onComplete, isCompleted = false, isCompleting = false }: QuizLessonProps) {
+export function QuizLesson({
+  content,
+  onComplete,
+  onAttemptFinished,
+  isCompleted = false,
+  isCompleting = false,
+}: QuizLessonProps) {
   const [currentQuestion, setCurrentQuestion] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
   const [showExplanation, setShowExplanation] = useState(false);
   const [score, setScore] = useState(0);
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
   const [completed, setCompleted] = useState(false);
 
   const question = content.questions[currentQuestion];
@@ -29,6 +38,11 @@ export function QuizLesson({ content, onComplete, isCompleted = false, isComplet
   const handleCheckAnswer = () => {
     if (selectedAnswer === null) return;
     setShowExplanation(true);
+    setAnswers((prev) => {
+      const next = [...prev];
+      next[currentQuestion] = selectedAnswer;
+      return next;
+    });
     if (isCorrect) {
       setScore(score + 1);
     }
@@ -37,6 +51,7 @@ export function QuizLesson({ content, onComplete, isCompleted = false, isComplet
   const handleNext = () => {
     if (isLastQuestion) {
       setCompleted(true);
+      onAttemptFinished?.(answers);
     } else {
       setCurrentQuestion(currentQuestion + 1);
       setSelectedAnswer(null);
@@ -88,6 +103,7 @@ export function QuizLesson({ content, onComplete, isCompleted = false, isComplet
               onClick={() => {
                 setCurrentQuestion(0);
                 setScore(0);
+                setAnswers([]);
                 setCompleted(false);
                 setSelectedAnswer(null);
                 setShowExplanation(false);
@@ -99,7 +115,7 @@ export function QuizLesson({ content, onComplete, isCompleted = false, isComplet
           )}
           {passed && (
             <Button
-              onClick={() => onComplete(percentage)}
+              onClick={() => onComplete(percentage, answers)}
               disabled={isCompleting}
               className={`rounded-2xl px-8 py-4 transition-all duration-200 ${
                 isCompleting
@@ -3,23 +3,33 @@
  *
  * Interactive interface for learning decentralized token swapping.
  * Educational simulation of DEX mechanics like slippage, price impact, and liquidity.
+ * Swaps run against constant-product pools whose reserves persist for the
+ * session, so learners can watch each trade move the price.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   MOCK_TOKENS,
   Token,
+  DexState,
   SwapQuote,
+  SwapHop,
   getSwapQuote,
   executeSwap,
+  getDexSession,
+  setDexSession,
+  resetDexSession,
+  getTokenUsdPrice,
+  getPoolInvariant,
   formatTokenAmount,
+  formatReserve,
   formatUSD,
   getPriceImpactColor,
   getPriceImpactWarning,
   getTokenBySymbol,
 } from '../../../lib/dex/simulator';
 import { Button } from '../../ui/button';
-import { ArrowDownUp, Settings, AlertCircle, CheckCircle, Loader2, TrendingDown } from 'lucide-react';
+import { ArrowDownUp, Settings, AlertCircle, CheckCircle, Loader2, TrendingDown, Droplets, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface DEXSwapperProps {
@@ -47,18 +57,17 @@ export function DEXSwapper({
   const [slippageTolerance, setSlippageTolerance] = useState(0.5);
   const [showSettings, setShowSettings] = useState(false);
   const [isSwapping, setIsSwapping] = useState(false);
-  const [swapSuccess, setSwapSuccess] = useState(false);
-  const [quote, setQuote] = useState<SwapQuote | null>(null);
-
-  // Update quote when inputs change
-  useEffect(() => {
-    if (fromToken && toToken && fromAmount > 0) {
-      const newQuote = getSwapQuote(fromToken, toToken, fromAmount, slippageTolerance);
-      setQuote(newQuote);
-    } else {
-      setQuote(null);
-    }
-  }, [fromToken, toToken, fromAmount, slippageTolerance]);
+  const [dex, setDex] = useState<DexState>(getDexSession);
+  const [lastSwap, setLastSwap] = useState<{ quote: SwapQuote; toAmount: number } | null>(null);
+
+  // Re-quote whenever inputs or pool reserves change
+  const quote = useMemo(
+    () => (fromAmount > 0 ? getSwapQuote(dex, fromToken, toToken, fromAmount, slippageTolerance) : null),
+    [dex, fromToken, toToken, fromAmount, slippageTolerance]
+  );
+
+  const fromBalance = dex.balances[fromToken.symbol] ?? 0;
+  const toBalance = dex.balances[toToken.symbol] ?? 0;
 
   const handleSwapTokens = () => {
     const temp = fromToken;
@@ -73,7 +82,7 @@ export function DEXSwapper({
       return;
     }
 
-    if (fromAmount > fromToken.balance) {
+    if (fromAmount > fromBalance) {
       toast.error('Insufficient balance');
       onError?.('Insufficient balance');
       return;
@@ -84,12 +93,15 @@ export function DEXSwapper({
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 2000));
 
-    const result = executeSwap(quote);
+    // Execute against the latest session state in case another swapper moved the pools
+    const result = executeSwap(getDexSession(), quote);
 
     setIsSwapping(false);
 
     if (result.success) {
-      setSwapSuccess(true);
+      setDexSession(result.state);
+      setDex(result.state);
+      setLastSwap({ quote, toAmount: result.toAmount });
       toast.success('🎉 Swap Successful!', {
         description: `Swapped ${formatTokenAmount(result.fromAmount)} ${fromToken.symbol} for ${formatTokenAmount(result.toAmount)} ${toToken.symbol}`,
       });
@@ -103,13 +115,22 @@ export function DEXSwapper({
   };
 
   const handleReset = () => {
-    setSwapSuccess(false);
+    setLastSwap(null);
     setFromAmount(defaultAmount);
   };
 
+  const handleResetPools = () => {
+    setDex(resetDexSession());
+    setLastSwap(null);
+    toast.info('Pools and balances reset to their starting values');
+  };
+
   const priceImpactWarning = quote ? getPriceImpactWarning(quote.priceImpact) : null;
 
-  if (swapSuccess && quote) {
+  if (lastSwap) {
+    const { quote: swapQuote, toAmount } = lastSwap;
+    const priceMove = ((swapQuote.spotPriceAfter - swapQuote.spotPrice) / swapQuote.spotPrice) * 100;
+
     return (
       <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
         <div className="text-center">
@@ -127,24 +148,42 @@ export function DEXSwapper({
               <div className="flex justify-between items-center">
                 <span className="text-gray-600">Swapped:</span>
                 <span className="font-semibold text-gray-900">
-                  {formatTokenAmount(fromAmount)} {fromToken.symbol}
+                  {formatTokenAmount(swapQuote.fromAmount)} {swapQuote.fromToken.symbol}
                 </span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-600">Received:</span>
                 <span className="font-semibold text-green-600">
-                  {formatTokenAmount(quote.toAmount)} {toToken.symbol}
+                  {formatTokenAmount(toAmount)} {swapQuote.toToken.symbol}
                 </span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-gray-600">Exchange Rate:</span>
+                <span className="text-gray-600">Average Rate:</span>
                 <span className="font-mono text-sm text-gray-900">
-                  1 {fromToken.symbol} = {formatTokenAmount(quote.exchangeRate, 6)} {toToken.symbol}
+                  1 {swapQuote.fromToken.symbol} = {formatTokenAmount(swapQuote.exchangeRate, 6)} {swapQuote.toToken.symbol}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Pool Price Moved:</span>
+                <span className="font-mono text-sm text-red-600 flex items-center gap-1">
+                  <TrendingDown className="w-4 h-4" />
+                  {formatTokenAmount(swapQuote.spotPrice, 6)} → {formatTokenAmount(swapQuote.spotPriceAfter, 6)} ({priceMove.toFixed(2)}%)
                 </span>
               </div>
             </div>
           </div>
 
+          <div className="space-y-3 mb-6 text-left">
+            {swapQuote.hops.map((hop) => (
+              <HopReserves key={hop.poolId} hop={hop} />
+            ))}
+          </div>
+
+          <p className="text-sm text-gray-600 mb-6">
+            You added {swapQuote.fromToken.symbol} to the pool and removed {swapQuote.toToken.symbol}, so{' '}
+            {swapQuote.toToken.symbol} is now scarcer and more expensive. The next swap in the same direction gets a worse rate.
+          </p>
+
           <Button
             onClick={handleReset}
             variant="outline"
@@ -208,7 +247,7 @@ export function DEXSwapper({
         <div className="flex items-center justify-between mb-3">
           <label className="text-sm font-semibold text-gray-700">From</label>
           <span className="text-sm text-gray-600">
-            Balance: {formatTokenAmount(fromToken.balance)}
+            Balance: {formatTokenAmount(fromBalance)}
           </span>
         </div>
 
@@ -235,14 +274,14 @@ export function DEXSwapper({
             placeholder="0.0"
             step="0.01"
             min="0"
-            max={fromToken.balance}
+            max={fromBalance}
             className="flex-1 px-4 py-3 bg-white rounded-xl border-2 border-gray-200 focus:border-[#0084C7] focus:outline-none text-right text-2xl font-bold"
           />
         </div>
 
         {fromAmount > 0 && (
           <div className="text-right text-sm text-gray-600 mt-2">
-            ≈ {formatUSD(fromAmount * fromToken.usdPrice)}
+            ≈ {formatUSD(fromAmount * getTokenUsdPrice(dex, fromToken.symbol))}
           </div>
         )}
       </div>
@@ -262,7 +301,7 @@ export function DEXSwapper({
         <div className="flex items-center justify-between mb-3">
           <label className="text-sm font-semibold text-gray-700">To</label>
           <span className="text-sm text-gray-600">
-            Balance: {formatTokenAmount(toToken.balance)}
+            Balance: {formatTokenAmount(toBalance)}
           </span>
         </div>
 
@@ -289,7 +328,7 @@ export function DEXSwapper({
 
         {quote && quote.toAmount > 0 && (
           <div className="text-right text-sm text-gray-600 mt-2">
-            ≈ {formatUSD(quote.toAmount * toToken.usdPrice)}
+            ≈ {formatUSD(quote.toAmount * getTokenUsdPrice(dex, toToken.symbol))}
           </div>
         )}
       </div>
@@ -298,11 +337,27 @@ export function DEXSwapper({
       {quote && quote.toAmount > 0 && (
         <div className="bg-gray-50 rounded-2xl p-4 mb-6 space-y-2 text-sm">
           <div className="flex justify-between">
-            <span className="text-gray-600">Exchange Rate:</span>
+            <span className="text-gray-600">Route:</span>
+            <span className="font-semibold text-gray-900">{quote.route.join(' → ')}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Pool Price:</span>
+            <span className="font-semibold text-gray-900">
+              1 {fromToken.symbol} = {formatTokenAmount(quote.spotPrice, 6)} {toToken.symbol}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Your Average Rate:</span>
             <span className="font-semibold text-gray-900">
               1 {fromToken.symbol} = {formatTokenAmount(quote.exchangeRate, 6)} {toToken.symbol}
             </span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Pool Price After:</span>
+            <span className="font-semibold text-gray-900">
+              1 {fromToken.symbol} = {formatTokenAmount(quote.spotPriceAfter, 6)} {toToken.symbol}
+            </span>
+          </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Price Impact:</span>
             <span className={`font-semibold ${getPriceImpactColor(quote.priceImpact)}`}>
@@ -310,7 +365,9 @@ export function DEXSwapper({
             </span>
           </div>
           <div className="flex justify-between">
-            <span className="text-gray-600">Trading Fee (0.3%):</span>
+            <span className="text-gray-600">
+              LP Fee ({quote.hops.length > 1 ? `0.3% × ${quote.hops.length} hops` : '0.3%'}):
+            </span>
             <span className="font-semibold text-gray-900">
               {formatTokenAmount(quote.fee)} {fromToken.symbol}
             </span>
@@ -337,28 +394,50 @@ export function DEXSwapper({
         </div>
       )}
 
-      {fromAmount > fromToken.balance && (
+      {fromAmount > 0 && !quote && (
         <div className="bg-red-50 border-l-4 border-red-500 rounded-lg p-4 mb-6">
           <div className="flex items-start gap-3">
             <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
             <p className="text-sm text-red-900">
-              Insufficient {fromToken.symbol} balance. You need {formatTokenAmount(fromAmount - fromToken.balance)} more {fromToken.symbol}.
+              No liquidity route between {fromToken.symbol} and {toToken.symbol}.
             </p>
           </div>
         </div>
       )}
 
+      {fromAmount > fromBalance && (
+        <div className="bg-red-50 border-l-4 border-red-500 rounded-lg p-4 mb-6">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-900">
+              Insufficient {fromToken.symbol} balance. You need {formatTokenAmount(fromAmount - fromBalance)} more {fromToken.symbol}.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Pools touched by this swap */}
+      {quote && quote.hops.length > 0 && (
+        <div className="space-y-3 mb-6">
+          {quote.hops.map((hop) => (
+            <HopReserves key={hop.poolId} hop={hop} />
+          ))}
+        </div>
+      )}
+
       {/* Educational Note */}
       <div className="bg-blue-50 rounded-2xl p-4 mb-6">
         <p className="text-sm text-blue-900">
-          💡 <strong>Educational Simulation:</strong> This is a simulated DEX swap for learning purposes. In a real DEX, prices are determined by automated market makers (AMMs) and liquidity pools.
+          💡 <strong>How the price is set:</strong> Each pool holds two reserves and keeps x · y = k constant.
+          Adding one token and removing the other shifts the ratio, which is why bigger swaps get worse rates
+          (price impact) and why every swap moves the price for the next trader. The 0.3% fee stays in the pool for liquidity providers.
         </p>
       </div>
 
       {/* Swap Button */}
       <Button
         onClick={handleSwap}
-        disabled={isSwapping || !quote || fromAmount <= 0 || fromAmount > fromToken.balance}
+        disabled={isSwapping || !quote || fromAmount <= 0 || fromAmount > fromBalance}
         className="w-full py-6 bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-2xl text-lg font-semibold shadow-[0_4px_16px_rgba(0,132,199,0.3)] hover:shadow-[0_6px_24px_rgba(0,132,199,0.4)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
       >
         {isSwapping ? (
@@ -370,6 +449,80 @@ export function DEXSwapper({
           'Swap Tokens'
         )}
       </Button>
+
+      {/* All Pools */}
+      <div className="mt-8">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Droplets className="w-4 h-4 text-[#0084C7]" />
+            Liquidity Pools
+          </h4>
+          <button
+            onClick={handleResetPools}
+            className="text-sm text-gray-500 hover:text-gray-900 flex items-center gap-1"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset
+          </button>
+        </div>
+        <div className="grid sm:grid-cols-2 gap-2">
+          {dex.pools.map((pool) => (
+            <div key={pool.id} className="bg-gray-50 rounded-xl px-4 py-3 text-sm">
+              <div className="font-semibold text-gray-900 mb-1">
+                {pool.tokenA}/{pool.tokenB}
+              </div>
+              <div className="text-gray-600">
+                {formatReserve(pool.reserveA)} {pool.tokenA} · {formatReserve(pool.reserveB)} {pool.tokenB}
+              </div>
+              <div className="text-xs text-gray-500 font-mono">
+                1 {pool.tokenA} = {formatTokenAmount(pool.reserveB / pool.reserveA, 6)} {pool.tokenB} · k = {formatReserve(getPoolInvariant(pool))}
+              </div>
+            </div>
+          ))}
+        </div>
+        {dex.swapCount > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            {dex.swapCount} swap{dex.swapCount === 1 ? '' : 's'} this session. k grows slightly with each swap because fees stay in the pool.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Reserves of one pool before and after a swap hop
+ */
+function HopReserves({ hop }: { hop: SwapHop }) {
+  const reserveInChange = ((hop.reserveInAfter - hop.reserveInBefore) / hop.reserveInBefore) * 100;
+  const reserveOutChange = ((hop.reserveOutAfter - hop.reserveOutBefore) / hop.reserveOutBefore) * 100;
+
+  return (
+    <div className="bg-gray-50 rounded-2xl p-4 text-sm">
+      <div className="font-semibold text-gray-900 mb-2">
+        {hop.tokenIn}/{hop.tokenOut} pool
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-gray-600">
+        <span />
+        <span className="text-xs uppercase tracking-wide">Before</span>
+        <span className="text-xs uppercase tracking-wide">After</span>
+
+        <span>{hop.tokenIn} reserve</span>
+        <span className="font-mono">{formatReserve(hop.reserveInBefore)}</span>
+        <span className="font-mono text-green-600">
+          {formatReserve(hop.reserveInAfter)} (+{reserveInChange.toFixed(2)}%)
+        </span>
+
+        <span>{hop.tokenOut} reserve</span>
+        <span className="font-mono">{formatReserve(hop.reserveOutBefore)}</span>
+        <span className="font-mono text-red-600">
+          {formatReserve(hop.reserveOutAfter)} ({reserveOutChange.toFixed(2)}%)
+        </span>
+
+        <span>Price ({hop.tokenOut})</span>
+        <span className="font-mono">{formatTokenAmount(hop.priceBefore, 6)}</span>
+        <span className="font-mono">{formatTokenAmount(hop.priceAfter, 6)}</span>
+      </div>
     </div>
   );
 }
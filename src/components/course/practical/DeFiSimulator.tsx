@@ -2,24 +2,31 @@
  * DeFi Simulator Component
  *
  * Interactive interface for learning DeFi concepts through simulation.
- * Users can deposit/withdraw from liquidity pools and see rewards calculations.
+ * Users provide two-sided liquidity, step a price path forward in time and
+ * compare fees earned against impermanent loss and simply holding.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import {
   MOCK_POOLS,
   LiquidityPool,
-  UserPosition,
-  simulateDeposit,
-  simulateWithdraw,
-  calculateRewards,
+  LPPosition,
+  PositionReport,
+  PriceScenario,
+  createPricePath,
+  openLPPosition,
+  evaluateLPPosition,
+  getLPPositionHistory,
+  getPairedDepositAmount,
   getRiskDescription,
   getRiskColor,
   formatTVL,
+  formatTokenValue,
   getPoolById,
 } from '../../../lib/defi/simulator';
 import { Button } from '../../ui/button';
-import { TrendingUp, TrendingDown, Info, CheckCircle, AlertCircle } from 'lucide-react';
+import { TrendingUp, TrendingDown, Info, CheckCircle, Play, Pause, RotateCcw, Shuffle } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface DeFiSimulatorProps {
@@ -27,43 +34,94 @@ interface DeFiSimulatorProps {
   onError?: (error: string) => void;
   targetPoolId?: string; // For guided lessons
   targetAmount?: number; // For guided lessons
+  defaultScenario?: PriceScenario;
 }
 
+interface ClosedPosition {
+  position: LPPosition;
+  report: PositionReport;
+}
+
+const SIMULATION_DAYS = 90;
+const PLAY_INTERVAL_MS = 400;
+
+const SCENARIOS: { id: PriceScenario; label: string; description: string }[] = [
+  { id: 'random', label: '🎲 Random', description: 'Seeded random walk using the pool\'s volatility' },
+  { id: 'sideways', label: '〰️ Sideways', description: 'Price oscillates ±10% and ends where it started' },
+  { id: 'rally', label: '🚀 Rally', description: 'Base token triples over the period' },
+  { id: 'crash', label: '📉 Crash', description: 'Base token loses 70% of its value' },
+  { id: 'round-trip', label: '🎢 Round Trip', description: 'Pumps 2.5x, then returns to the starting price' },
+];
+
 export function DeFiSimulator({
   onSuccess,
   onError,
   targetPoolId,
-  targetAmount = 1,
+  targetAmount = 100,
+  defaultScenario = 'random',
 }: DeFiSimulatorProps) {
   const [selectedPool, setSelectedPool] = useState<LiquidityPool | null>(
     targetPoolId ? getPoolById(targetPoolId) || null : null
   );
   const [depositAmount, setDepositAmount] = useState(targetAmount);
-  const [userPosition, setUserPosition] = useState<UserPosition | null>(null);
+  const [scenario, setScenario] = useState<PriceScenario>(defaultScenario);
+  const [seed, setSeed] = useState(42);
+  const [day, setDay] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positions, setPositions] = useState<LPPosition[]>([]);
+  const [closedPositions, setClosedPositions] = useState<ClosedPosition[]>([]);
   const [isDepositing, setIsDepositing] = useState(false);
-  const [showSuccess, setShowSuccess] = useState(false);
-  const [liveRewards, setLiveRewards] = useState(0);
 
-  // Update live rewards every second when user has a position
+  const pricePath = useMemo(
+    () => (selectedPool ? createPricePath(selectedPool, { scenario, days: SIMULATION_DAYS, seed }) : []),
+    [selectedPool, scenario, seed]
+  );
+
+  const currentPrice = pricePath[day] ?? 0;
+
+  // Advance the clock while playing
   useEffect(() => {
-    if (!userPosition || !selectedPool) return;
+    if (!isPlaying) return;
 
     const interval = setInterval(() => {
-      const daysElapsed = Math.max(
-        (new Date().getTime() - userPosition.depositedAt.getTime()) / (1000 * 60 * 60 * 24),
-        0.001
-      );
-      const rewards = calculateRewards(userPosition.amount, selectedPool.apy, daysElapsed);
-      setLiveRewards(rewards);
-    }, 1000);
+      setDay((current) => Math.min(current + 1, SIMULATION_DAYS));
+    }, PLAY_INTERVAL_MS);
 
     return () => clearInterval(interval);
-  }, [userPosition, selectedPool]);
+  }, [isPlaying]);
+
+  // Stop playing at the end of the path
+  useEffect(() => {
+    if (day >= SIMULATION_DAYS) {
+      setIsPlaying(false);
+    }
+  }, [day]);
+
+  const resetSimulation = () => {
+    setIsPlaying(false);
+    setDay(0);
+    setPositions([]);
+    setClosedPositions([]);
+  };
 
   const handleSelectPool = (pool: LiquidityPool) => {
     setSelectedPool(pool);
-    setUserPosition(null);
-    setShowSuccess(false);
+    resetSimulation();
+  };
+
+  const handleScenarioChange = (next: PriceScenario) => {
+    if (next === scenario) return;
+    setScenario(next);
+    resetSimulation();
+  };
+
+  const handleNewSeed = () => {
+    setSeed(Math.floor(Math.random() * 1_000_000));
+    resetSimulation();
+  };
+
+  const handleAdvance = (days: number) => {
+    setDay((current) => Math.min(current + days, SIMULATION_DAYS));
   };
 
   const handleDeposit = async () => {
@@ -73,34 +131,40 @@ export function DeFiSimulator({
       return;
     }
 
+    if (day >= SIMULATION_DAYS) {
+      toast.error('The simulation has ended. Restart it to open a new position.');
+      return;
+    }
+
+    setIsPlaying(false);
     setIsDepositing(true);
 
     // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
+    await new Promise(resolve => setTimeout(resolve, 1000));
 
-    const position = simulateDeposit(selectedPool.id, depositAmount);
-    setUserPosition(position);
+    const position = openLPPosition(selectedPool, depositAmount, currentPrice, day);
+    setPositions((current) => [...current, position]);
     setIsDepositing(false);
-    setShowSuccess(true);
 
-    toast.success('🎉 Successfully deposited into pool!', {
-      description: `${depositAmount} HBAR deposited into ${selectedPool.name}`,
+    toast.success('🎉 Liquidity added!', {
+      description: `${formatTokenValue(position.baseAmount, selectedPool.baseToken)} + ${formatTokenValue(position.quoteAmount, selectedPool.quoteToken)} deposited into ${selectedPool.name}`,
     });
 
     onSuccess?.();
   };
 
-  const handleWithdraw = () => {
-    if (!userPosition || !selectedPool) return;
+  const handleWithdraw = (position: LPPosition) => {
+    if (!selectedPool) return;
 
-    const result = simulateWithdraw(userPosition);
+    const report = evaluateLPPosition(position, selectedPool, pricePath, day);
+    const verdict = report.netVsHold >= 0 ? 'beat holding by' : 'lost to holding by';
 
-    toast.success('Withdrawal successful!', {
-      description: `Principal: ${result.principal.toFixed(4)} ℏ | Rewards: ${result.rewards.toFixed(6)} ℏ`,
+    toast.success('Liquidity removed', {
+      description: `Received ${formatTokenValue(report.lpBaseAmount, selectedPool.baseToken)} + ${formatTokenValue(report.lpQuoteAmount, selectedPool.quoteToken)} plus fees. You ${verdict} ${formatTokenValue(Math.abs(report.netVsHold), selectedPool.quoteToken)}.`,
     });
 
-    setUserPosition(null);
-    setShowSuccess(false);
+    setPositions((current) => current.filter((p) => p.id !== position.id));
+    setClosedPositions((current) => [{ position, report }, ...current]);
   };
 
   // Pool selection view
@@ -132,7 +196,7 @@ export function DeFiSimulator({
                   <span className="font-semibold text-gray-900">{formatTVL(pool.tvl)}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">APY:</span>
+                  <span className="text-sm text-gray-600">Fee APY:</span>
                   <span className="font-bold text-green-600 text-lg">{pool.apy}%</span>
                 </div>
                 <div className="flex items-center justify-between">
@@ -151,7 +215,11 @@ export function DeFiSimulator({
     );
   }
 
-  // Pool details and deposit/withdraw view
+  const { baseToken, quoteToken } = selectedPool;
+  const priceChange = (currentPrice / selectedPool.initialPrice - 1) * 100;
+  const priceChartData = pricePath.slice(0, day + 1).map((price, index) => ({ day: index, price }));
+
+  // Pool details, market clock and positions
   return (
     <div className="space-y-6">
       {/* Pool Header */}
@@ -176,12 +244,17 @@ export function DeFiSimulator({
       {/* Pool Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-white rounded-2xl p-6 shadow-[0_4px_16px_rgba(0,0,0,0.08)]">
-          <div className="text-sm text-gray-600 mb-2">Total Value Locked</div>
-          <div className="text-2xl font-bold text-gray-900">{formatTVL(selectedPool.tvl)}</div>
+          <div className="text-sm text-gray-600 mb-2">{baseToken} Price</div>
+          <div className="text-2xl font-bold text-gray-900">{formatTokenValue(currentPrice, quoteToken)}</div>
+          <div className={`text-sm flex items-center gap-1 ${priceChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {priceChange >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+            {priceChange >= 0 ? '+' : ''}{priceChange.toFixed(2)}% since day 0
+          </div>
         </div>
         <div className="bg-white rounded-2xl p-6 shadow-[0_4px_16px_rgba(0,0,0,0.08)]">
-          <div className="text-sm text-gray-600 mb-2">Annual Percentage Yield</div>
+          <div className="text-sm text-gray-600 mb-2">Fee APY</div>
           <div className="text-2xl font-bold text-green-600">{selectedPool.apy}%</div>
+          <div className="text-sm text-gray-500">Paid to LPs from 0.3% swap fees</div>
         </div>
         <div className="bg-white rounded-2xl p-6 shadow-[0_4px_16px_rgba(0,0,0,0.08)]">
           <div className="text-sm text-gray-600 mb-2">Risk Level</div>
@@ -191,6 +264,82 @@ export function DeFiSimulator({
         </div>
       </div>
 
+      {/* Market Simulation */}
+      <div className="bg-white rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="text-xl font-bold text-gray-900">Market Simulation</h3>
+          <span className="text-sm font-semibold text-gray-600">
+            Day {day} / {SIMULATION_DAYS}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-2">
+          {SCENARIOS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => handleScenarioChange(option.id)}
+              className={`px-4 py-2 rounded-xl text-sm font-semibold transition-colors ${
+                scenario === option.id
+                  ? 'bg-[#0084C7] text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          {SCENARIOS.find((option) => option.id === scenario)?.description}
+          {scenario === 'random' && (
+            <>
+              {' '}· Seed <span className="font-mono">{seed}</span>{' '}
+              <button onClick={handleNewSeed} className="text-[#0084C7] hover:underline inline-flex items-center gap-1">
+                <Shuffle className="w-3 h-3" /> New path
+              </button>
+            </>
+          )}
+        </p>
+
+        <div className="h-48 mb-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={priceChartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="day" type="number" domain={[0, SIMULATION_DAYS]} tick={{ fontSize: 12 }} />
+              <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} width={60} />
+              <Tooltip
+                formatter={(value: number) => [formatTokenValue(value, quoteToken), `${baseToken} price`]}
+                labelFormatter={(label) => `Day ${label}`}
+              />
+              <Line type="monotone" dataKey="price" stroke="#0084C7" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => setIsPlaying(!isPlaying)}
+            disabled={day >= SIMULATION_DAYS}
+            className="rounded-xl bg-[#0084C7] hover:bg-[#0074b7] text-white"
+          >
+            {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+            {isPlaying ? 'Pause' : 'Play'}
+          </Button>
+          <Button variant="outline" onClick={() => handleAdvance(1)} disabled={day >= SIMULATION_DAYS} className="rounded-xl">
+            +1 day
+          </Button>
+          <Button variant="outline" onClick={() => handleAdvance(7)} disabled={day >= SIMULATION_DAYS} className="rounded-xl">
+            +7 days
+          </Button>
+          <Button variant="outline" onClick={() => handleAdvance(30)} disabled={day >= SIMULATION_DAYS} className="rounded-xl">
+            +30 days
+          </Button>
+          <Button variant="ghost" onClick={resetSimulation} className="rounded-xl">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restart
+          </Button>
+        </div>
+      </div>
+
       {/* Risk Description */}
       <div className="bg-blue-50 rounded-2xl p-4 border border-blue-200">
         <div className="flex items-start gap-3">
@@ -200,20 +349,22 @@ export function DeFiSimulator({
               <strong>Risk Level:</strong> {getRiskDescription(selectedPool.risk)}
             </p>
             <p className="text-sm text-blue-800 mt-1">
-              This is a simulated environment for learning. In real DeFi, you would earn actual rewards but also face impermanent loss and smart contract risks.
+              When the {baseToken} price moves, arbitrageurs rebalance the pool: you end up with more of the
+              token that fell and less of the one that rose. That shortfall versus just holding is impermanent loss.
+              Fees only make providing liquidity worthwhile if they outweigh it.
             </p>
           </div>
         </div>
       </div>
 
-      {/* User Position or Deposit Form */}
-      {!userPosition ? (
-        <div className="bg-white rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
-          <h3 className="text-xl font-bold text-gray-900 mb-6">Deposit into Pool</h3>
+      {/* Deposit Form */}
+      <div className="bg-white rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
+        <h3 className="text-xl font-bold text-gray-900 mb-6">Add Liquidity</h3>
 
-          <div className="mb-6">
+        <div className="grid md:grid-cols-2 gap-4 mb-6">
+          <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Deposit Amount (HBAR)
+              {baseToken} Amount
             </label>
             <input
               type="number"
@@ -225,90 +376,212 @@ export function DeFiSimulator({
               className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-[#0084C7] focus:outline-none transition-colors text-lg"
             />
           </div>
-
-          {/* Expected Returns */}
-          {depositAmount > 0 && (
-            <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-2xl p-6 mb-6">
-              <h4 className="font-semibold text-gray-900 mb-4">Expected Returns</h4>
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-700">Daily:</span>
-                  <span className="font-bold text-green-600">
-                    +{calculateRewards(depositAmount, selectedPool.apy, 1).toFixed(6)} ℏ
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-700">Weekly:</span>
-                  <span className="font-bold text-green-600">
-                    +{calculateRewards(depositAmount, selectedPool.apy, 7).toFixed(6)} ℏ
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-700">Monthly:</span>
-                  <span className="font-bold text-green-600">
-                    +{calculateRewards(depositAmount, selectedPool.apy, 30).toFixed(4)} ℏ
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-700">Yearly:</span>
-                  <span className="font-bold text-green-600 text-lg">
-                    +{calculateRewards(depositAmount, selectedPool.apy, 365).toFixed(4)} ℏ
-                  </span>
-                </div>
-              </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {quoteToken} Amount (matched at current price)
+            </label>
+            <div className="w-full px-4 py-3 rounded-xl bg-gray-50 border-2 border-gray-100 text-lg text-gray-900">
+              {getPairedDepositAmount(depositAmount, currentPrice).toFixed(6)}
             </div>
-          )}
+          </div>
+        </div>
 
-          <Button
-            onClick={handleDeposit}
-            disabled={isDepositing || depositAmount <= 0}
-            className="w-full py-6 bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-2xl text-lg font-semibold shadow-[0_4px_16px_rgba(0,132,199,0.3)] hover:shadow-[0_6px_24px_rgba(0,132,199,0.4)] transition-all disabled:opacity-50"
-          >
-            {isDepositing ? 'Depositing...' : 'Deposit into Pool'}
-          </Button>
+        <p className="text-sm text-gray-500 mb-6">
+          Pools accept both tokens in their current ratio. Total deposit value:{' '}
+          <strong>{formatTokenValue(depositAmount * currentPrice * 2, quoteToken)}</strong>
+        </p>
+
+        <Button
+          onClick={handleDeposit}
+          disabled={isDepositing || depositAmount <= 0 || day >= SIMULATION_DAYS}
+          className="w-full py-6 bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-2xl text-lg font-semibold shadow-[0_4px_16px_rgba(0,132,199,0.3)] hover:shadow-[0_6px_24px_rgba(0,132,199,0.4)] transition-all disabled:opacity-50"
+        >
+          {isDepositing ? 'Depositing...' : `Deposit ${baseToken} + ${quoteToken}`}
+        </Button>
+      </div>
+
+      {/* Open Positions */}
+      {positions.map((position) => (
+        <PositionCard
+          key={position.id}
+          position={position}
+          pool={selectedPool}
+          pricePath={pricePath}
+          day={day}
+          onWithdraw={() => handleWithdraw(position)}
+        />
+      ))}
+
+      {/* Closed Positions */}
+      {closedPositions.length > 0 && (
+        <div className="bg-white rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">Closed Positions</h3>
+          <div className="space-y-2">
+            {closedPositions.map(({ position, report }) => (
+              <div key={position.id} className="flex flex-wrap items-center justify-between gap-2 bg-gray-50 rounded-xl px-4 py-3 text-sm">
+                <span className="text-gray-700">
+                  Day {position.openedOnDay} → {report.day} · price {report.priceChangePercent >= 0 ? '+' : ''}
+                  {report.priceChangePercent.toFixed(1)}%
+                </span>
+                <span className="text-gray-600">
+                  Fees {formatTokenValue(report.feesEarned, quoteToken)} · IL {report.impermanentLossPercent.toFixed(2)}%
+                </span>
+                <span className={`font-semibold ${report.netVsHold >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {report.netVsHold >= 0 ? '+' : ''}{formatTokenValue(report.netVsHold, quoteToken)} vs holding
+                </span>
+              </div>
+            ))}
+          </div>
         </div>
-      ) : (
-        <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
-          <div className="flex items-center gap-3 mb-6">
-            {showSuccess && <CheckCircle className="w-8 h-8 text-green-600" />}
+      )}
+    </div>
+  );
+}
+
+interface PositionCardProps {
+  position: LPPosition;
+  pool: LiquidityPool;
+  pricePath: number[];
+  day: number;
+  onWithdraw: () => void;
+}
+
+/**
+ * One open LP position: current holdings, fees vs impermanent loss, and
+ * LP value against holding over time
+ */
+function PositionCard({ position, pool, pricePath, day, onWithdraw }: PositionCardProps) {
+  const { baseToken, quoteToken } = pool;
+  const report = evaluateLPPosition(position, pool, pricePath, day);
+  const history = getLPPositionHistory(position, pool, pricePath, day).map((entry) => ({
+    day: entry.day,
+    lp: entry.lpValue + entry.feesEarned,
+    hold: entry.holdValue,
+  }));
+  const isWinning = report.netVsHold >= 0;
+
+  return (
+    <div
+      className={`rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08)] ${
+        isWinning ? 'bg-gradient-to-br from-green-50 to-emerald-50' : 'bg-gradient-to-br from-red-50 to-orange-50'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          {isWinning ? (
+            <CheckCircle className="w-8 h-8 text-green-600" />
+          ) : (
+            <TrendingDown className="w-8 h-8 text-red-600" />
+          )}
+          <div>
             <h3 className="text-2xl font-bold text-gray-900">Your Position</h3>
+            <p className="text-sm text-gray-600">
+              Opened day {position.openedOnDay} at {formatTokenValue(position.entryPrice, quoteToken)} per {baseToken}
+            </p>
           </div>
+        </div>
+      </div>
 
-          <div className="space-y-4 mb-6">
-            <div className="flex items-center justify-between py-3 border-b border-green-200">
-              <span className="text-gray-700">Deposited Amount:</span>
-              <span className="font-bold text-gray-900">{userPosition.amount.toFixed(4)} ℏ</span>
-            </div>
-            <div className="flex items-center justify-between py-3 border-b border-green-200">
-              <span className="text-gray-700">Current Rewards:</span>
-              <span className="font-bold text-green-600 flex items-center gap-2">
-                <TrendingUp className="w-4 h-4" />
-                +{liveRewards.toFixed(6)} ℏ
-              </span>
-            </div>
-            <div className="flex items-center justify-between py-3 bg-white rounded-xl px-4">
-              <span className="font-semibold text-gray-900">Total Value:</span>
-              <span className="font-bold text-[#0084C7] text-xl">
-                {(userPosition.amount + liveRewards).toFixed(6)} ℏ
-              </span>
-            </div>
+      <div className="grid md:grid-cols-2 gap-6 mb-6">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between py-2 border-b border-gray-200">
+            <span className="text-gray-700">Deposited:</span>
+            <span className="font-semibold text-gray-900 text-right">
+              {formatTokenValue(position.baseAmount, baseToken)}
+              <br />
+              {formatTokenValue(position.quoteAmount, quoteToken)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between py-2 border-b border-gray-200">
+            <span className="text-gray-700">In the pool now:</span>
+            <span className="font-semibold text-gray-900 text-right">
+              {formatTokenValue(report.lpBaseAmount, baseToken)}
+              <br />
+              {formatTokenValue(report.lpQuoteAmount, quoteToken)}
+            </span>
           </div>
+          <div className="flex items-center justify-between py-2 border-b border-gray-200">
+            <span className="text-gray-700">Price change:</span>
+            <span className={`font-semibold ${report.priceChangePercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {report.priceChangePercent >= 0 ? '+' : ''}{report.priceChangePercent.toFixed(2)}%
+            </span>
+          </div>
+        </div>
 
-          <div className="bg-white rounded-2xl p-4 mb-6">
-            <p className="text-sm text-gray-600">
-              💡 <strong>Tip:</strong> Rewards accumulate every second based on the pool's APY. In a real DeFi protocol, rewards would be distributed through smart contracts.
-            </p>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between py-2 border-b border-gray-200">
+            <span className="text-gray-700">If you had held:</span>
+            <span className="font-semibold text-gray-900">{formatTokenValue(report.holdValue, quoteToken)}</span>
+          </div>
+          <div className="flex items-center justify-between py-2 border-b border-gray-200">
+            <span className="text-gray-700">LP value (no fees):</span>
+            <span className="font-semibold text-gray-900">{formatTokenValue(report.lpValue, quoteToken)}</span>
+          </div>
+          <div className="flex items-center justify-between py-2 border-b border-gray-200">
+            <span className="text-gray-700">Impermanent loss:</span>
+            <span className="font-semibold text-red-600">
+              {formatTokenValue(report.impermanentLoss, quoteToken)} ({report.impermanentLossPercent.toFixed(2)}%)
+            </span>
+          </div>
+          <div className="flex items-center justify-between py-2 border-b border-gray-200">
+            <span className="text-gray-700">Fees earned:</span>
+            <span className="font-semibold text-green-600 flex items-center gap-1">
+              <TrendingUp className="w-4 h-4" />
+              +{formatTokenValue(report.feesEarned, quoteToken)}
+            </span>
           </div>
+          <div className="flex items-center justify-between py-3 bg-white rounded-xl px-4">
+            <span className="font-semibold text-gray-900">LP vs holding:</span>
+            <span className={`font-bold text-xl ${isWinning ? 'text-green-600' : 'text-red-600'}`}>
+              {isWinning ? '+' : ''}{formatTokenValue(report.netVsHold, quoteToken)}
+            </span>
+          </div>
+        </div>
+      </div>
 
-          <Button
-            onClick={handleWithdraw}
-            variant="outline"
-            className="w-full py-6 rounded-2xl text-lg font-semibold"
-          >
-            Withdraw All
-          </Button>
+      {history.length > 1 && (
+        <div className="bg-white rounded-2xl p-4 mb-6">
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={history} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="day" tick={{ fontSize: 12 }} />
+                <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} width={60} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [
+                    formatTokenValue(value, quoteToken),
+                    name === 'lp' ? 'LP + fees' : 'Hold',
+                  ]}
+                  labelFormatter={(label) => `Day ${label}`}
+                />
+                <Line type="monotone" dataKey="lp" stroke="#0084C7" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="hold" stroke="#9ca3af" strokeWidth={2} strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-500 text-center mt-2">
+            <span className="text-[#0084C7] font-semibold">Blue</span>: LP position + fees ·{' '}
+            <span className="text-gray-500 font-semibold">Dashed</span>: simply holding
+          </p>
         </div>
       )}
+
+      <div className="bg-white rounded-2xl p-4 mb-6">
+        <p className="text-sm text-gray-600">
+          💡 <strong>Tip:</strong>{' '}
+          {isWinning
+            ? 'Fees are currently covering the impermanent loss. Bigger price moves in either direction will eat into that margin.'
+            : 'The price moved far enough that impermanent loss outweighs the fees. If the price returns to your entry, the loss disappears.'}
+        </p>
+      </div>
+
+      <Button
+        onClick={onWithdraw}
+        variant="outline"
+        className="w-full py-6 rounded-2xl text-lg font-semibold"
+      >
+        Remove Liquidity
+      </Button>
     </div>
   );
 }
@@ -7,13 +7,16 @@
  * WOW Factor: Actual blockchain consensus with sub-second finality!
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { Send, MessageSquare, Clock, CheckCircle, Loader2, ExternalLink, Users, Zap, Trophy, Sparkles } from 'lucide-react';
 import { Card } from '../../ui/card';
 import { Button } from '../../ui/button';
 import { toast } from 'sonner';
 import { submitTopicMessageClientSide, MESSAGE_BOARD_TOPIC_ID } from '../../../lib/hedera/hcs-service';
+import { refreshTopic } from '../../../lib/hedera/hcs-subscription';
+import { useRecordTransaction } from '../../../hooks/useTransactions';
+import { useTopicMessages } from '../../../hooks/useTopicMessages';
 
 interface HCSMessageBoardProps {
   onInteract?: () => void;
@@ -30,12 +33,13 @@ interface Message {
 }
 
 export const HCSMessageBoard: React.FC<HCSMessageBoardProps> = ({ onInteract }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const recordTransaction = useRecordTransaction();
+  const { messages: topicMessages, status: topicStatus } = useTopicMessages(MESSAGE_BOARD_TOPIC_ID);
+  const [sentMessages, setSentMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [username, setUsername] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasInteracted, setHasInteracted] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [firstMessageData, setFirstMessageData] = useState<{
     transactionId: string;
@@ -44,45 +48,29 @@ export const HCSMessageBoard: React.FC<HCSMessageBoardProps> = ({ onInteract })
   } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const isConnected = topicStatus !== 'connecting';
+
+  // Live feed from the topic, plus our own messages until the feed has them
+  const messages = useMemo<Message[]>(() => {
+    const live: Message[] = topicMessages.map((message) => ({
+      ...message,
+      // HashScan finds transactions by consensus timestamp too
+      transactionId: message.consensusTimestamp,
+    }));
+    const liveSequences = new Set(live.map((message) => message.sequenceNumber));
+    const pending = sentMessages.filter((message) =>
+      message.sequenceNumber
+        ? !liveSequences.has(message.sequenceNumber)
+        : !live.some((candidate) => candidate.author === message.author && candidate.content === message.content)
+    );
+    return [...live, ...pending];
+  }, [topicMessages, sentMessages]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Simulate connecting to HCS (in real implementation, use Mirror Node API)
-  useEffect(() => {
-    // Simulate connection delay
-    setTimeout(() => {
-      setIsConnected(true);
-      // Load recent messages from HCS topic via Mirror Node API
-      loadRecentMessages();
-    }, 1000);
-  }, []);
-
-  const loadRecentMessages = async () => {
-    // TODO: In production, fetch from Mirror Node API
-    // For now, load some sample messages to demonstrate
-    const sampleMessages: Message[] = [
-      {
-        id: '1',
-        content: 'Welcome to the Web3versity HCS Message Board!',
-        author: 'System',
-        timestamp: Date.now() - 3600000,
-        sequenceNumber: 1,
-        consensusTimestamp: new Date(Date.now() - 3600000).toISOString()
-      },
-      {
-        id: '2',
-        content: 'This is powered by Hedera Consensus Service 🚀',
-        author: 'Admin',
-        timestamp: Date.now() - 1800000,
-        sequenceNumber: 2,
-        consensusTimestamp: new Date(Date.now() - 1800000).toISOString()
-      }
-    ];
-    setMessages(sampleMessages);
-  };
-
   const handleSubmitMessage = async () => {
     if (!newMessage.trim() || !username.trim()) {
       toast.error('Please fill in all fields');
@@ -103,6 +91,13 @@ export const HCSMessageBoard: React.FC<HCSMessageBoardProps> = ({ onInteract })
         throw new Error(result.error || 'HCS submission failed');
       }
 
+      recordTransaction({
+        transactionId: result.transactionId || '',
+        transactionType: 'hcs_submit',
+        toAccount: MESSAGE_BOARD_TOPIC_ID,
+        memo: newMessage.slice(0, 100),
+      });
+
       // Show success modal for first message only
       // DON'T call onInteract yet - wait until user dismisses the modal
       if (!hasInteracted) {
@@ -124,7 +119,7 @@ export const HCSMessageBoard: React.FC<HCSMessageBoardProps> = ({ onInteract })
         ? (typeof result.sequenceNumber === 'object'
             ? Number(result.sequenceNumber)
             : result.sequenceNumber)
-        : messages.length + 1;
+        : undefined;
 
       const message: Message = {
         id: Date.now().toString(),
@@ -136,8 +131,9 @@ export const HCSMessageBoard: React.FC<HCSMessageBoardProps> = ({ onInteract })
         transactionId: result.transactionId || 'pending'
       };
 
-      setMessages(prev => [...prev, message]);
+      setSentMessages(prev => [...prev, message]);
       setNewMessage('');
+      refreshTopic(MESSAGE_BOARD_TOPIC_ID).catch(() => {});
 
       toast.success('✅ Message signed and submitted!', {
         description: `Transaction: ${result.transactionId}`
@@ -330,7 +326,7 @@ export const HCSMessageBoard: React.FC<HCSMessageBoardProps> = ({ onInteract })
                 {isConnected ? (
                   <>
                     <CheckCircle className="w-4 h-4" />
-                    <span>Connected to HCS</span>
+                    <span>{topicStatus === 'streaming' ? 'Live from HCS' : 'Connected to HCS'}</span>
                   </>
                 ) : (
                   <>
@@ -0,0 +1,592 @@
+/**
+ * HCS Topic Workshop - Learner-Owned Consensus Topics
+ *
+ * Students create their own HCS topic (optionally locked with a submit key),
+ * post structured JSON messages validated against a schema such as a
+ * supply-chain event or an attendance record, and verify any message's
+ * sequence and running hash against the mirror node.
+ *
+ * The lesson counts as done once the student has verified a message.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import {
+  Plus, Lock, Unlock, Send, ShieldCheck, ShieldAlert, Loader2, Hash,
+  CheckCircle, XCircle, ExternalLink, Layers, Radio,
+} from 'lucide-react';
+import { Card } from '../../ui/card';
+import { Button } from '../../ui/button';
+import { toast } from 'sonner';
+import { useWallet } from '../../../contexts/WalletContext';
+import { useRecordTransaction } from '../../../hooks/useTransactions';
+import { useTopicMessages } from '../../../hooks/useTopicMessages';
+import { useCreateLearnerTopic, useLearnerTopics } from '../../../hooks/useHcsTopics';
+import { refreshTopic } from '../../../lib/hedera/hcs-subscription';
+import {
+  canSubmitToTopic,
+  submitLearnerTopicMessage,
+  verifyTopicMessage,
+  type MessageVerification,
+} from '../../../lib/hedera/hcs-topics';
+import {
+  HCS_MESSAGE_SCHEMAS,
+  MAX_HCS_MESSAGE_BYTES,
+  coerceFormValues,
+  encodeSchemaMessage,
+  getMessageSchema,
+  parseSchemaMessage,
+  validateSchemaData,
+  type SchemaField,
+} from '../../../lib/hedera/hcs-schemas';
+import type { TopicMessage } from '../../../lib/hedera/hcs-service';
+
+interface HCSTopicWorkshopProps {
+  onInteract?: () => void;
+  defaultSchemaId?: string;
+}
+
+const FREE_TEXT = '';
+
+const inputClassName =
+  'w-full px-4 py-3 border-2 border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0084C7] dark:bg-gray-800 dark:text-white';
+
+export const HCSTopicWorkshop: React.FC<HCSTopicWorkshopProps> = ({ onInteract, defaultSchemaId }) => {
+  const { user } = useWallet();
+  const recordTransaction = useRecordTransaction();
+  const { data: topics = [], isLoading: topicsLoading } = useLearnerTopics(user?.id);
+  const createTopic = useCreateLearnerTopic();
+
+  // New topic form
+  const [memo, setMemo] = useState('');
+  const [newSchemaId, setNewSchemaId] = useState(defaultSchemaId ?? HCS_MESSAGE_SCHEMAS[0].id);
+  const [withSubmitKey, setWithSubmitKey] = useState(true);
+
+  // Selected topic
+  const [selectedTopicId, setSelectedTopicId] = useState<string | undefined>();
+  const selectedTopic = topics.find((topic) => topic.topic_id === selectedTopicId);
+  const schema = getMessageSchema(selectedTopic?.schema_id);
+  const { messages, status } = useTopicMessages(selectedTopic?.topic_id);
+
+  // Message form
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [freeText, setFreeText] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Verification
+  const [verifyingSequence, setVerifyingSequence] = useState<number | null>(null);
+  const [verifications, setVerifications] = useState<Record<number, MessageVerification>>({});
+  const [hasInteracted, setHasInteracted] = useState(false);
+
+  // Open the newest topic by default
+  useEffect(() => {
+    if (!selectedTopicId && topics.length > 0) {
+      setSelectedTopicId(topics[0].topic_id);
+    }
+  }, [topics, selectedTopicId]);
+
+  // Start each topic with a clean form
+  useEffect(() => {
+    setValues({});
+    setFreeText('');
+    setFieldErrors({});
+    setVerifications({});
+  }, [selectedTopicId]);
+
+  const encodedMessage = useMemo(() => {
+    if (!schema) return freeText;
+    return JSON.stringify({ schema: schema.id, version: schema.version, data: coerceFormValues(schema, values) });
+  }, [schema, values, freeText]);
+  const messageBytes = new TextEncoder().encode(encodedMessage).length;
+
+  const handleCreateTopic = () => {
+    if (!user) {
+      toast.error('Connect your wallet to create a topic');
+      return;
+    }
+
+    createTopic.mutate(
+      {
+        userId: user.id,
+        memo: memo.trim(),
+        schemaId: newSchemaId || null,
+        withSubmitKey,
+      },
+      {
+        onSuccess: (topic) => {
+          setMemo('');
+          setSelectedTopicId(topic.topic_id);
+        },
+      }
+    );
+  };
+
+  const handleSubmitMessage = async () => {
+    if (!selectedTopic) return;
+
+    let message: string;
+    if (schema) {
+      const data = coerceFormValues(schema, values);
+      const errors = validateSchemaData(schema, data);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length > 0) {
+        toast.error('Please fix the highlighted fields');
+        return;
+      }
+      message = encodeSchemaMessage(schema, data);
+    } else {
+      message = freeText.trim();
+      if (!message) return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await submitLearnerTopicMessage(selectedTopic, message);
+
+      if (!result.success) {
+        throw new Error(result.error || 'HCS submission failed');
+      }
+
+      recordTransaction({
+        transactionId: result.transactionId || '',
+        transactionType: 'hcs_submit',
+        toAccount: selectedTopic.topic_id,
+        memo: schema ? schema.name : message.slice(0, 100),
+      });
+
+      setValues({});
+      setFreeText('');
+      refreshTopic(selectedTopic.topic_id).catch(() => {});
+
+      toast.success(`✅ Message #${result.sequenceNumber ?? '?'} reached consensus`, {
+        description: 'Verify it below once it shows up in the feed',
+      });
+    } catch (error) {
+      console.error('❌ Failed to submit message:', error);
+      toast.error('Failed to submit message', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (message: TopicMessage) => {
+    if (!selectedTopic) return;
+
+    setVerifyingSequence(message.sequenceNumber);
+    const verification = await verifyTopicMessage(selectedTopic.topic_id, message.sequenceNumber);
+    setVerifications((prev) => ({ ...prev, [message.sequenceNumber]: verification }));
+    setVerifyingSequence(null);
+
+    if (verification.sequenceValid && verification.runningHashValid) {
+      toast.success(`Message #${message.sequenceNumber} verified`);
+      if (!hasInteracted) {
+        setHasInteracted(true);
+        onInteract?.();
+      }
+    } else {
+      toast.error(`Message #${message.sequenceNumber} did not verify`, {
+        description: verification.error,
+      });
+    }
+  };
+
+  const renderField = (field: SchemaField) => {
+    const value = values[field.name] ?? '';
+    const onChange = (next: string) => setValues((prev) => ({ ...prev, [field.name]: next }));
+
+    return (
+      <div key={field.name} className="space-y-1">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {field.label}
+          {field.required && <span className="text-red-500"> *</span>}
+        </label>
+        {field.type === 'enum' ? (
+          <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClassName}
+            disabled={isSubmitting}
+          >
+            <option value="">Select…</option>
+            {field.options?.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type={field.type === 'number' ? 'number' : field.type === 'datetime' ? 'datetime-local' : 'text'}
+            value={value}
+            placeholder={field.placeholder}
+            maxLength={field.maxLength}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClassName}
+            disabled={isSubmitting}
+          />
+        )}
+        {fieldErrors[field.name] && (
+          <p className="text-xs text-red-600">{fieldErrors[field.name]}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderMessage = (message: TopicMessage) => {
+    const parsed = schema ? parseSchemaMessage(message.content, schema) : null;
+    const verification = verifications[message.sequenceNumber];
+
+    return (
+      <motion.div
+        key={message.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        transition={{ duration: 0.3 }}
+        className="p-4 bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-850 rounded-xl space-y-3"
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-full font-semibold">
+              #{message.sequenceNumber}
+            </span>
+            <span className="font-mono">{message.consensusTimestamp}</span>
+            {parsed && (
+              parsed.message && parsed.errors.length === 0 ? (
+                <span className="px-2 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded-full">
+                  Valid {schema?.name}
+                </span>
+              ) : (
+                <span
+                  className="px-2 py-0.5 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-full"
+                  title={parsed.errors.join('\n')}
+                >
+                  Doesn't match schema
+                </span>
+              )
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleVerify(message)}
+            disabled={verifyingSequence !== null}
+          >
+            {verifyingSequence === message.sequenceNumber ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <ShieldCheck className="w-4 h-4 mr-1" />
+            )}
+            Verify
+          </Button>
+        </div>
+
+        {parsed?.message ? (
+          <dl className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {Object.entries(parsed.message.data).map(([key, value]) => (
+              <div key={key} className="flex gap-2 min-w-0">
+                <dt className="text-gray-500 flex-shrink-0">
+                  {schema?.fields.find((field) => field.name === key)?.label ?? key}:
+                </dt>
+                <dd className="font-medium text-gray-900 dark:text-gray-100 truncate">{String(value)}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-gray-700 dark:text-gray-300 break-words font-mono text-sm">{message.content}</p>
+        )}
+
+        {verification && (
+          <div
+            className={`p-3 rounded-lg text-xs space-y-1 ${
+              verification.sequenceValid && verification.runningHashValid
+                ? 'bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-800'
+                : 'bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              {verification.sequenceValid ? (
+                <CheckCircle className="w-4 h-4 text-green-600" />
+              ) : (
+                <XCircle className="w-4 h-4 text-red-600" />
+              )}
+              <span>
+                {verification.sequenceNumber > 1
+                  ? `Follows #${verification.sequenceNumber - 1} (${verification.previousConsensusTimestamp ?? 'not found'})`
+                  : 'First message on the topic'}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {verification.runningHashValid ? (
+                <CheckCircle className="w-4 h-4 text-green-600" />
+              ) : (
+                <XCircle className="w-4 h-4 text-red-600" />
+              )}
+              <span>Running hash {verification.runningHashValid ? 'matches' : 'does not match'}</span>
+            </div>
+            {verification.runningHash && (
+              <p className="font-mono break-all text-gray-600 dark:text-gray-400">
+                Mirror node: {verification.runningHash}
+              </p>
+            )}
+            {verification.computedRunningHash && (
+              <p className="font-mono break-all text-gray-600 dark:text-gray-400">
+                Recomputed: {verification.computedRunningHash}
+              </p>
+            )}
+            {verification.error && <p className="text-red-600">{verification.error}</p>}
+          </div>
+        )}
+      </motion.div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6 space-y-6">
+      {/* Header */}
+      <Card className="p-6 md:p-8 bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white">
+        <div className="flex items-start gap-4">
+          <div className="w-14 h-14 md:w-16 md:h-16 bg-white/20 rounded-2xl flex items-center justify-center backdrop-blur-sm flex-shrink-0">
+            <Layers className="w-7 h-7 md:w-8 md:h-8" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl md:text-3xl font-bold mb-2">HCS Topic Workshop</h2>
+            <p className="text-white/90 text-sm md:text-base">
+              Create your own consensus topic, post structured messages and verify them yourself
+            </p>
+          </div>
+        </div>
+      </Card>
+
+      {!user ? (
+        <Card className="p-6 text-center bg-white dark:bg-gray-900">
+          <p className="text-gray-700 dark:text-gray-300">Connect your wallet to create your own HCS topics.</p>
+        </Card>
+      ) : (
+        <>
+          {/* Create Topic */}
+          <Card className="p-4 md:p-6 bg-white dark:bg-gray-900 space-y-4">
+            <h3 className="text-lg md:text-xl font-bold flex items-center gap-2">
+              <Plus className="w-5 h-5 md:w-6 md:h-6 text-[#0084C7]" />
+              Create a Topic
+            </h3>
+            <div className="grid md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                placeholder="Topic memo (e.g. Coffee batch tracking)"
+                value={memo}
+                maxLength={100}
+                onChange={(e) => setMemo(e.target.value)}
+                className={inputClassName}
+                disabled={createTopic.isPending}
+              />
+              <select
+                value={newSchemaId}
+                onChange={(e) => setNewSchemaId(e.target.value)}
+                className={inputClassName}
+                disabled={createTopic.isPending}
+              >
+                {HCS_MESSAGE_SCHEMAS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.emoji} {option.name}
+                  </option>
+                ))}
+                <option value={FREE_TEXT}>💬 Free text</option>
+              </select>
+            </div>
+            <label className="flex items-start gap-3 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={withSubmitKey}
+                onChange={(e) => setWithSubmitKey(e.target.checked)}
+                className="mt-1"
+                disabled={createTopic.isPending}
+              />
+              <span>
+                <span className="font-semibold">Require a submit key</span>
+                <span className="block text-gray-600 dark:text-gray-400">
+                  A key generated in this browser must sign every message. Without it, anyone can post to your topic.
+                </span>
+              </span>
+            </label>
+            <Button
+              onClick={handleCreateTopic}
+              disabled={createTopic.isPending}
+              className="w-full py-6 bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-xl hover:shadow-lg transition-all text-base font-semibold"
+            >
+              {createTopic.isPending ? (
+                <>
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                  Creating topic on Hedera...
+                </>
+              ) : (
+                <>
+                  <Plus className="w-5 h-5 mr-2" />
+                  Create Topic
+                </>
+              )}
+            </Button>
+          </Card>
+
+          {/* Your Topics */}
+          <Card className="p-4 md:p-6 bg-white dark:bg-gray-900 space-y-3">
+            <h3 className="text-lg md:text-xl font-bold">Your Topics</h3>
+            {topicsLoading ? (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading topics...
+              </div>
+            ) : topics.length === 0 ? (
+              <p className="text-sm text-gray-500">No topics yet. Create one above to get started.</p>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-3">
+                {topics.map((topic) => {
+                  const topicSchema = getMessageSchema(topic.schema_id);
+                  const isSelected = topic.topic_id === selectedTopicId;
+                  return (
+                    <button
+                      key={topic.id}
+                      onClick={() => setSelectedTopicId(topic.topic_id)}
+                      className={`text-left p-4 rounded-xl border-2 transition-colors ${
+                        isSelected
+                          ? 'border-[#0084C7] bg-blue-50 dark:bg-blue-950/20'
+                          : 'border-gray-200 dark:border-gray-700 hover:border-[#0084C7]/50'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono font-semibold">{topic.topic_id}</span>
+                        {topic.submit_public_key ? (
+                          <Lock className="w-4 h-4 text-amber-600" />
+                        ) : (
+                          <Unlock className="w-4 h-4 text-gray-400" />
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                        {topicSchema ? `${topicSchema.emoji} ${topicSchema.name}` : '💬 Free text'}
+                        {topic.memo && ` · ${topic.memo}`}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </Card>
+
+          {/* Selected Topic */}
+          {selectedTopic && (
+            <Card className="p-4 md:p-6 bg-white dark:bg-gray-900 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-lg md:text-xl font-bold flex items-center gap-2">
+                  <Hash className="w-5 h-5 md:w-6 md:h-6 text-[#0084C7]" />
+                  {selectedTopic.topic_id}
+                </h3>
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="flex items-center gap-1 text-gray-500">
+                    {status === 'connecting' ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Radio className="w-4 h-4 text-green-600" />
+                    )}
+                    {status === 'streaming' ? 'Live' : status === 'polling' ? 'Polling' : 'Connecting'}
+                  </span>
+                  <a
+                    href={`https://hashscan.io/testnet/topic/${selectedTopic.topic_id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-[#0084C7] hover:underline"
+                  >
+                    HashScan
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                </div>
+              </div>
+
+              {/* Message Form */}
+              {canSubmitToTopic(selectedTopic) ? (
+                <div className="space-y-3 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl">
+                  {schema ? (
+                    <>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {schema.emoji} {schema.description}
+                      </p>
+                      <div className="grid md:grid-cols-2 gap-3">{schema.fields.map(renderField)}</div>
+                    </>
+                  ) : (
+                    <textarea
+                      placeholder="Type your message..."
+                      value={freeText}
+                      onChange={(e) => setFreeText(e.target.value)}
+                      className={`${inputClassName} resize-none`}
+                      rows={3}
+                      disabled={isSubmitting}
+                    />
+                  )}
+                  <details className="text-xs">
+                    <summary className="cursor-pointer text-gray-500">
+                      Message bytes: {messageBytes} / {MAX_HCS_MESSAGE_BYTES}
+                    </summary>
+                    <pre className="mt-2 p-3 bg-gray-900 text-green-400 rounded-lg overflow-x-auto whitespace-pre-wrap break-all">
+                      {encodedMessage}
+                    </pre>
+                  </details>
+                  <Button
+                    onClick={handleSubmitMessage}
+                    disabled={isSubmitting || messageBytes > MAX_HCS_MESSAGE_BYTES || (!schema && !freeText.trim())}
+                    className="w-full py-6 bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-xl hover:shadow-lg transition-all text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                        Submitting to HCS...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="w-5 h-5 mr-2" />
+                        {selectedTopic.submit_public_key ? 'Sign & Submit' : 'Submit'}
+                      </>
+                    )}
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-start gap-3 p-4 bg-amber-50 dark:bg-amber-950/20 rounded-xl border border-amber-200 dark:border-amber-800 text-sm">
+                  <ShieldAlert className="w-5 h-5 text-amber-600 flex-shrink-0" />
+                  <p>
+                    This topic's submit key is on the device it was created on. Without it, the network rejects
+                    new messages – that's the submit key doing its job. You can still read and verify messages here.
+                  </p>
+                </div>
+              )}
+
+              {/* Message Feed */}
+              <div className="space-y-3 max-h-[500px] overflow-y-auto pr-2">
+                {messages.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-6">No messages on this topic yet.</p>
+                ) : (
+                  <AnimatePresence>
+                    {messages.slice().reverse().map(renderMessage)}
+                  </AnimatePresence>
+                )}
+              </div>
+            </Card>
+          )}
+        </>
+      )}
+
+      {/* How Verification Works */}
+      <Card className="p-4 md:p-6 bg-gradient-to-br from-purple-50 to-pink-50 dark:from-purple-950/20 dark:to-pink-950/20">
+        <h4 className="font-bold mb-3 flex items-center gap-2">
+          <span className="text-xl md:text-2xl">🔗</span>
+          <span className="text-sm md:text-base">How Verification Works</span>
+        </h4>
+        <ul className="space-y-1 text-xs md:text-sm text-gray-700 dark:text-gray-300 list-disc list-inside">
+          <li>Every message gets the next sequence number on its topic, with no gaps</li>
+          <li>Its running hash is SHA-384 of the previous running hash plus this message and its consensus details</li>
+          <li>Recomputing it proves the message was not altered or reordered after consensus</li>
+          <li>Changing any earlier message would change every running hash after it</li>
+        </ul>
+      </Card>
+    </div>
+  );
+};
@@ -15,6 +15,7 @@ import { Card } from '../../ui/card';
 import { Button } from '../../ui/button';
 import { toast } from 'sonner';
 import { mintNFTClientSide } from '../../../lib/hedera/hts-service';
+import { useRecordTransaction } from '../../../hooks/useTransactions';
 
 interface NFTMinterStudioProps {
   onInteract?: () => void;
@@ -41,6 +42,7 @@ const CATEGORIES = [
 ];
 
 export const NFTMinterStudio: React.FC<NFTMinterStudioProps> = ({ onInteract }) => {
+  const recordTransaction = useRecordTransaction();
   const [step, setStep] = useState<'select' | 'customize' | 'mint' | 'success'>('select');
   const [selectedImage, setSelectedImage] = useState<typeof PRESET_IMAGES[0] | null>(null);
   const [metadata, setMetadata] = useState<NFTMetadata>({
@@ -125,6 +127,13 @@ export const NFTMinterStudio: React.FC<NFTMinterStudioProps> = ({ onInteract })
       };
 
       setMintedNFT(mintedData);
+
+      recordTransaction({
+        transactionId: result.transactionId,
+        transactionType: 'nft_mint_practice',
+        toAccount: result.tokenId,
+        memo: `${metadata.name} #${result.serialNumber}`,
+      });
       setStep('success');
 
       // Only call onInteract AFTER successful minting
@@ -1,41 +1,73 @@
 /**
- * Smart Contract Playground - Deploy & Interact with Solidity Contracts on Hedera
+ * Smart Contract Playground - Write, Deploy & Interact with Solidity Contracts on Hedera
  *
  * WOW Factor: Students deploy real smart contracts to Hedera testnet!
- * No setup required, one-click deployment and interaction.
+ * Start from a template or write your own (multiple files supported), see
+ * compiler errors on the right lines, inspect the ABI, and call every
+ * function through a UI generated from that ABI.
+ *
+ * Contracts run on a local in-browser EVM by default - free, instant and
+ * offline - and are promoted to testnet once they work.
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import {
   Code, Play, Rocket, CheckCircle, ExternalLink, Zap,
-  FileCode, Activity, Loader2, Copy, Check, Terminal, Trophy, Sparkles
+  FileCode, Activity, Loader2, Copy, Check, Terminal, Trophy, Sparkles,
+  Hammer, Braces, RotateCcw, AlertTriangle, Laptop, Globe, Fuel
 } from 'lucide-react';
 import { Card } from '../../ui/card';
 import { Button } from '../../ui/button';
 import { toast } from 'sonner';
-import { deployContractClientSide, executeContractClientSide, queryContractClientSide } from '../../../lib/hedera/contracts-service';
+import {
+  compileContractClientSide,
+  deployContractClientSide,
+  executeContractClientSide,
+  queryContractClientSide,
+  type CompileContractResult,
+  type CompiledContract,
+  type ContractLog,
+  type DeployContractResult,
+  type SolidityFile,
+} from '../../../lib/hedera/contracts-service';
+import {
+  abiToContractFunctions,
+  decodeEventLog,
+  decodeFunctionResult,
+  encodeConstructorArgs,
+  encodeFunctionCall,
+  formatAbiParameters,
+  getConstructorInputs,
+  getFunctionSignature,
+  getInputPlaceholder,
+  type ContractFunction,
+  type ContractAbi,
+} from '../../../lib/hedera/contract-abi';
+import { getLocalEvm } from '../../../lib/hedera/local-evm';
+import { useRecordTransaction } from '../../../hooks/useTransactions';
+import { SolidityEditor } from './SolidityEditor';
 
 interface SmartContractPlaygroundProps {
   onInteract?: () => void;
 }
 
+type ExecutionMode = 'local' | 'testnet';
+
+interface FunctionRunResult {
+  value: string;
+  gasUsed?: number;
+  gasCharged?: number;
+  events: string[];
+}
+
 interface Contract {
   id: string;
   name: string;
   description: string;
   icon: string;
-  code: string;
-  functions: ContractFunction[];
-}
-
-interface ContractFunction {
-  name: string;
-  description: string;
-  inputs: { name: string; type: string; placeholder?: string }[];
-  outputs?: string;
-  isPayable?: boolean;
-  readonly?: boolean; // For view/pure functions
+  contractName: string; // Contract to deploy by default
+  files: SolidityFile[];
 }
 
 const SAMPLE_CONTRACTS: Contract[] = [
@@ -44,51 +76,46 @@ const SAMPLE_CONTRACTS: Contract[] = [
     name: 'Simple Counter',
     description: 'A basic counter contract to increment/decrement a number',
     icon: '🔢',
-    code: `// SPDX-License-Identifier: MIT
+    contractName: 'SimpleCounter',
+    files: [
+      {
+        name: 'SimpleCounter.sol',
+        content: `// SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
 contract SimpleCounter {
     uint256 public count;
 
+    /// @notice Add 1 to the counter
     function increment() public {
         count += 1;
     }
 
+    /// @notice Subtract 1 from the counter
     function decrement() public {
         require(count > 0, "Count is zero");
         count -= 1;
     }
 
+    /// @notice Get the current count value
     function getCount() public view returns (uint256) {
         return count;
     }
-}`,
-    functions: [
-      {
-        name: 'increment',
-        description: 'Add 1 to the counter',
-        inputs: []
-      },
-      {
-        name: 'decrement',
-        description: 'Subtract 1 from the counter',
-        inputs: []
+}
+`,
       },
-      {
-        name: 'getCount',
-        description: 'Get the current count value',
-        inputs: [],
-        outputs: 'uint256',
-        readonly: true
-      }
-    ]
+    ],
   },
   {
     id: 'storage',
     name: 'Message Storage',
     description: 'Store and retrieve text messages on the blockchain',
     icon: '💾',
-    code: `// SPDX-License-Identifier: MIT
+    contractName: 'MessageStorage',
+    files: [
+      {
+        name: 'MessageStorage.sol',
+        content: `// SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
 contract MessageStorage {
@@ -99,35 +126,30 @@ contract MessageStorage {
         owner = msg.sender;
     }
 
+    /// @notice Store a new message
     function setMessage(string memory _message) public {
         message = _message;
     }
 
+    /// @notice Retrieve the stored message
     function getMessage() public view returns (string memory) {
         return message;
     }
-}`,
-    functions: [
-      {
-        name: 'setMessage',
-        description: 'Store a new message',
-        inputs: [{ name: '_message', type: 'string', placeholder: 'Hello from Hedera!' }]
+}
+`,
       },
-      {
-        name: 'getMessage',
-        description: 'Retrieve the stored message',
-        inputs: [],
-        outputs: 'string',
-        readonly: true
-      }
-    ]
+    ],
   },
   {
     id: 'voting',
     name: 'Simple Voting',
     description: 'A basic voting contract for yes/no decisions',
     icon: '🗳️',
-    code: `// SPDX-License-Identifier: MIT
+    contractName: 'SimpleVoting',
+    files: [
+      {
+        name: 'SimpleVoting.sol',
+        content: `// SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
 contract SimpleVoting {
@@ -135,87 +157,340 @@ contract SimpleVoting {
     uint256 public noVotes;
     mapping(address => bool) public hasVoted;
 
+    /// @notice Cast a YES vote
     function voteYes() public {
         require(!hasVoted[msg.sender], "Already voted");
         yesVotes += 1;
         hasVoted[msg.sender] = true;
     }
 
+    /// @notice Cast a NO vote
     function voteNo() public {
         require(!hasVoted[msg.sender], "Already voted");
         noVotes += 1;
         hasVoted[msg.sender] = true;
     }
 
+    /// @notice Get current vote counts
     function getResults() public view returns (uint256, uint256) {
         return (yesVotes, noVotes);
     }
-}`,
-    functions: [
-      {
-        name: 'voteYes',
-        description: 'Cast a YES vote',
-        inputs: []
+}
+`,
       },
+    ],
+  },
+  {
+    id: 'custom',
+    name: 'Write Your Own',
+    description: 'Start from a two-file project and build anything you like',
+    icon: '✍️',
+    contractName: 'Greeter',
+    files: [
       {
-        name: 'voteNo',
-        description: 'Cast a NO vote',
-        inputs: []
+        name: 'Greeter.sol',
+        content: `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./Ownable.sol";
+
+contract Greeter is Ownable {
+    string public greeting;
+
+    event GreetingChanged(string greeting);
+
+    constructor(string memory _greeting) {
+        greeting = _greeting;
+    }
+
+    /// @notice Change the greeting (owner only)
+    function setGreeting(string memory _greeting) public onlyOwner {
+        greeting = _greeting;
+        emit GreetingChanged(_greeting);
+    }
+
+    /// @notice Greet someone by name
+    function greet(string memory name) public view returns (string memory) {
+        return string.concat(greeting, ", ", name, "!");
+    }
+}
+`,
       },
       {
-        name: 'getResults',
-        description: 'Get current vote counts',
-        inputs: [],
-        outputs: '(uint256, uint256)',
-        readonly: true
-      }
-    ]
-  }
+        name: 'Ownable.sol',
+        content: `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+abstract contract Ownable {
+    address public owner;
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not the owner");
+        _;
+    }
+}
+`,
+      },
+    ],
+  },
 ];
 
+const snapshotOf = (files: SolidityFile[]) => JSON.stringify(files);
+
+/** Events as "Name(arg=value, ...)", falling back to raw topics */
+function describeLogs(abi: ContractAbi, logs: ContractLog[] = []): string[] {
+  return logs.map((log) => {
+    const event = decodeEventLog(abi, log.topics, log.data);
+    if (!event) return `${log.contractId || log.address}: ${log.topics[0] || 'anonymous'} ${log.data}`;
+    return `${event.name}(${event.args.map((arg) => `${arg.name || arg.type}=${arg.value}`).join(', ')})`;
+  });
+}
+
+/**
+ * Contract to deploy from a compile result
+ *
+ * Keeps the current choice when it still compiles, otherwise falls back to
+ * the template's contract, then to the last deployable contract.
+ */
+function pickTargetContract(
+  result: CompileContractResult,
+  current: string,
+  preferred: string
+): CompiledContract | undefined {
+  const deployable = result.contracts.filter((contract) => contract.bytecode.length > 0);
+  return (
+    deployable.find((contract) => contract.name === current) ??
+    deployable.find((contract) => contract.name === preferred) ??
+    deployable[deployable.length - 1]
+  );
+}
+
 export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = ({ onInteract }) => {
+  const recordTransaction = useRecordTransaction();
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
+  const [files, setFiles] = useState<SolidityFile[]>([]);
+  const [activeFile, setActiveFile] = useState('');
+  const [isCompiling, setIsCompiling] = useState(false);
+  const [compileResult, setCompileResult] = useState<CompileContractResult | null>(null);
+  const [compiledSnapshot, setCompiledSnapshot] = useState<string | null>(null);
+  const [targetContractName, setTargetContractName] = useState('');
+  const [constructorInputs, setConstructorInputs] = useState<string[]>([]);
+  const [showAbiJson, setShowAbiJson] = useState(false);
+  const [executionMode, setExecutionMode] = useState<ExecutionMode>('local');
   const [isDeploying, setIsDeploying] = useState(false);
+  const [deployedMode, setDeployedMode] = useState<ExecutionMode>('local');
   const [deployedAddress, setDeployedAddress] = useState<string | null>(null);
+  const [deployedEvmAddress, setDeployedEvmAddress] = useState<string | null>(null);
+  const [deployedContract, setDeployedContract] = useState<CompiledContract | null>(null);
+  const [deployedFiles, setDeployedFiles] = useState<SolidityFile[]>([]);
+  const [deployedConstructorData, setDeployedConstructorData] = useState('');
   const [transactionId, setTransactionId] = useState<string | null>(null);
-  const [functionResults, setFunctionResults] = useState<Record<string, any>>({});
+  const [functionResults, setFunctionResults] = useState<Record<string, FunctionRunResult>>({});
   const [functionInputs, setFunctionInputs] = useState<Record<string, string[]>>({});
   const [executingFunction, setExecutingFunction] = useState<string | null>(null);
   const [hasInteracted, setHasInteracted] = useState(false);
   const [copiedCode, setCopiedCode] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
 
-  const handleSelectContract = (contract: Contract) => {
-    setSelectedContract(contract);
+  const snapshot = snapshotOf(files);
+  const isCompileStale = compiledSnapshot !== snapshot;
+  const diagnostics = compileResult?.diagnostics || [];
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'warning').length;
+  const deployableContracts = (compileResult?.contracts || []).filter((contract) => contract.bytecode.length > 0);
+  const targetContract = deployableContracts.find((contract) => contract.name === targetContractName);
+  const constructorParams = targetContract ? getConstructorInputs(targetContract.abi) : [];
+
+  const deployedFunctions = useMemo(
+    () => (deployedContract ? abiToContractFunctions(deployedContract.abi, deployedContract.userdoc) : []),
+    [deployedContract]
+  );
+
+  const clearDeployment = () => {
     setDeployedAddress(null);
+    setDeployedEvmAddress(null);
+    setDeployedContract(null);
+    setDeployedFiles([]);
+    setDeployedConstructorData('');
     setTransactionId(null);
     setFunctionResults({});
     setFunctionInputs({});
     setShowSuccessModal(false);
+  };
+
+  const handleSelectContract = (contract: Contract) => {
+    setSelectedContract(contract);
+    setFiles(contract.files);
+    setActiveFile(contract.files[0].name);
+    setCompileResult(null);
+    setCompiledSnapshot(null);
+    setTargetContractName(contract.contractName);
+    setConstructorInputs([]);
+    clearDeployment();
     // Don't call onInteract here - only after successful deployment
   };
 
+  const handleModeChange = (mode: ExecutionMode) => {
+    setExecutionMode(mode);
+    // A contract only exists where it was deployed
+    if (deployedAddress && deployedMode !== mode) clearDeployment();
+  };
+
+  const handleResetLocalEvm = () => {
+    getLocalEvm().reset();
+    if (deployedMode === 'local') clearDeployment();
+    toast.success('Local EVM reset', { description: 'All local contracts and their state were cleared' });
+  };
+
+  const handleResetFiles = () => {
+    if (!selectedContract) return;
+    setFiles(selectedContract.files);
+    setActiveFile(selectedContract.files[0].name);
+  };
+
+  /**
+   * Compile the current files
+   *
+   * @returns The result and the contract to deploy, or null if the compiler
+   *          could not be reached
+   */
+  const handleCompile = async (): Promise<{ result: CompileContractResult; target?: CompiledContract } | null> => {
+    if (!selectedContract) return null;
+
+    setIsCompiling(true);
+    const compiling = snapshot;
+
+    try {
+      const result = await compileContractClientSide(files);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Compilation failed');
+      }
+
+      const target = pickTargetContract(result, targetContractName, selectedContract.contractName);
+      setCompileResult(result);
+      setCompiledSnapshot(compiling);
+      if (target) setTargetContractName(target.name);
+
+      const errors = result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+      if (errors.length > 0) {
+        toast.error(`${errors.length} compile error${errors.length === 1 ? '' : 's'}`, {
+          description: 'Click an error below the editor to jump to its line',
+        });
+      } else if (!target) {
+        toast.error('Nothing to deploy', {
+          description: 'Interfaces and abstract contracts cannot be deployed on their own',
+        });
+      }
+
+      return { result, target };
+
+    } catch (error) {
+      console.error('❌ Compile error:', error);
+      toast.error('Compilation failed', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    } finally {
+      setIsCompiling(false);
+    }
+  };
+
   const handleDeploy = async () => {
     if (!selectedContract) return;
 
-    setIsDeploying(true);
+    // Always deploy exactly what was last compiled
+    let target = targetContract;
+    let errors = errorCount;
+    if (isCompileStale || !compileResult) {
+      const compiled = await handleCompile();
+      if (!compiled) return;
+      target = compiled.target;
+      errors = compiled.result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+    }
 
+    if (errors > 0) {
+      toast.error('Fix the compile errors before deploying');
+      return;
+    }
+    if (!target) return;
+
+    let constructorData: string;
     try {
-      // Call client-side contract deployment (prompts wallet signature)
-      const result = await deployContractClientSide({
-        contractName: selectedContract.name,
-        solidityCode: selectedContract.code,
-        constructorParams: [],
+      constructorData = encodeConstructorArgs(target.abi, constructorInputs);
+    } catch (error) {
+      toast.error('Invalid constructor arguments', {
+        description: error instanceof Error ? error.message : 'Unknown error'
       });
+      return;
+    }
+
+    await deployTo(executionMode, target, files, constructorData);
+  };
+
+  /**
+   * Deploy the contract that runs locally to testnet, unchanged
+   */
+  const handlePromote = async () => {
+    if (!deployedContract || deployedMode !== 'local') return;
+    await deployTo('testnet', deployedContract, deployedFiles, deployedConstructorData);
+  };
+
+  const deployTo = async (
+    mode: ExecutionMode,
+    target: CompiledContract,
+    sourceFiles: SolidityFile[],
+    constructorData: string
+  ) => {
+    setIsDeploying(true);
+
+    try {
+      let result: DeployContractResult;
+      if (mode === 'local') {
+        result = await getLocalEvm().deploy({ contract: target, constructorData });
+      } else {
+        // Call client-side contract deployment (prompts wallet signature)
+        result = await deployContractClientSide({
+          contractName: target.name,
+          files: sourceFiles,
+          constructorData,
+        });
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Deployment failed');
       }
 
-      console.log('✅ Contract deployed:', result);
+      console.log(`✅ Contract deployed (${mode}):`, result);
 
+      setExecutionMode(mode);
+      setDeployedMode(mode);
       setDeployedAddress(result.contractId || '');
+      setDeployedEvmAddress(result.evmAddress || null);
+      setDeployedContract(target);
+      setDeployedFiles(sourceFiles);
+      setDeployedConstructorData(constructorData);
       setTransactionId(result.transactionId || '');
+      setFunctionResults({});
+      setFunctionInputs({});
+
+      if (mode === 'local') {
+        toast.success('Deployed to the local EVM', {
+          description: `${target.name} is at ${result.contractId} (${result.gasUsed?.toLocaleString()} gas). Nothing was spent.`
+        });
+        return;
+      }
+
+      recordTransaction({
+        transactionId: result.transactionId || '',
+        transactionType: 'contract_deploy',
+        toAccount: result.contractId,
+        memo: `Deployed ${target.name}`,
+      });
       setShowSuccessModal(true); // Show success modal
 
       // DON'T call onInteract here - wait until user executes a function
@@ -236,36 +511,37 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
   };
 
   const handleExecuteFunction = async (func: ContractFunction) => {
-    if (!deployedAddress) return;
+    if (!deployedAddress || !deployedContract) return;
 
-    setExecutingFunction(func.name);
+    setExecutingFunction(func.signature);
 
     try {
-      console.log(`🎯 Executing function: ${func.name}`);
+      console.log(`🎯 Executing function: ${func.signature}`);
 
-      // Build function parameters from inputs
+      // Encode the call from the ABI (throws on input that doesn't fit a type)
+      const rawValues = func.inputs.map((_, i) => functionInputs[func.signature]?.[i] || '');
+      const functionData = encodeFunctionCall(deployedContract.abi, func.signature, rawValues);
       const functionParams = func.inputs.map((input, i) => ({
         type: input.type,
-        value: functionInputs[func.name]?.[i] || '',
+        value: rawValues[i],
       }));
 
       // For readonly functions (view/pure), use query instead of execute
       const isReadonly = func.readonly || false;
 
-      const apiResult = isReadonly
-        ? await queryContractClientSide({
-            contractId: deployedAddress,
-            functionName: func.name,
-            functionParams,
-            outputType: func.outputs, // Pass output type for proper decoding
-            gas: 300000,
-          })
-        : await executeContractClientSide({
-            contractId: deployedAddress,
-            functionName: func.name,
-            functionParams,
-            gas: 300000,
-          });
+      const params = {
+        contractId: deployedAddress,
+        functionName: func.name,
+        functionParams,
+        functionData,
+        gas: 300000,
+      };
+      const isLocal = deployedMode === 'local';
+      const localEvm = getLocalEvm();
+
+      const apiResult = isLocal
+        ? await (isReadonly ? localEvm.query(params) : localEvm.execute(params))
+        : await (isReadonly ? queryContractClientSide(params) : executeContractClientSide(params));
 
       if (!apiResult.success) {
         throw new Error(apiResult.error || 'Execution failed');
@@ -273,22 +549,39 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
 
       console.log(`✅ Function ${isReadonly ? 'queried' : 'executed'}:`, apiResult);
 
+      // Queries are free and not recorded on-chain; local calls never are
+      if (!isReadonly && !isLocal) {
+        recordTransaction({
+          transactionId: apiResult.transactionId || '',
+          transactionType: 'contract_call',
+          toAccount: deployedAddress,
+          memo: `${func.name}()`,
+        });
+      }
+
       // Parse result for display
       let displayResult;
-      if (func.outputs && apiResult.result !== undefined) {
-        // For readonly functions, result should already be decoded
-        displayResult = apiResult.result;
+      if (isReadonly && func.outputs && apiResult.resultData) {
+        displayResult = decodeFunctionResult(deployedContract.abi, func.signature, apiResult.resultData);
       } else if (!isReadonly) {
         displayResult = `Transaction ID: ${apiResult.transactionId}`;
       } else {
         displayResult = 'Success';
       }
 
-      setFunctionResults(prev => ({ ...prev, [func.name]: displayResult }));
+      setFunctionResults(prev => ({
+        ...prev,
+        [func.signature]: {
+          value: displayResult,
+          gasUsed: apiResult.gasUsed,
+          gasCharged: apiResult.gasCharged,
+          events: describeLogs(deployedContract.abi, apiResult.logs),
+        },
+      }));
 
       // NOW call onInteract after successful function execution
-      // This completes the lesson only AFTER user interacts with deployed contract
-      if (!hasInteracted) {
+      // This completes the lesson only AFTER user interacts with a testnet contract
+      if (!isLocal && !hasInteracted) {
         setHasInteracted(true);
         onInteract?.();
       }
@@ -308,14 +601,22 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
   };
 
   const copyCode = () => {
-    if (selectedContract) {
-      navigator.clipboard.writeText(selectedContract.code);
+    const file = files.find((candidate) => candidate.name === activeFile);
+    if (file) {
+      navigator.clipboard.writeText(file.content);
       setCopiedCode(true);
       setTimeout(() => setCopiedCode(false), 2000);
       toast.success('Code copied to clipboard!');
     }
   };
 
+  const copyAbi = () => {
+    if (targetContract) {
+      navigator.clipboard.writeText(JSON.stringify(targetContract.abi, null, 2));
+      toast.success('ABI copied to clipboard!');
+    }
+  };
+
   const viewOnHashScan = () => {
     if (deployedAddress) {
       window.open(`https://hashscan.io/testnet/contract/${deployedAddress}`, '_blank');
@@ -324,7 +625,7 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
 
   // Success Modal Component
   const SuccessModal = () => {
-    if (!showSuccessModal || !selectedContract || !deployedAddress) return null;
+    if (!showSuccessModal || !selectedContract || !deployedContract || !deployedAddress) return null;
 
     return (
       <AnimatePresence>
@@ -379,7 +680,7 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
                 <div className="text-3xl">{selectedContract.icon}</div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm text-gray-600 dark:text-gray-400">Contract Name</p>
-                  <p className="font-bold text-gray-900 dark:text-white">{selectedContract.name}</p>
+                  <p className="font-bold text-gray-900 dark:text-white">{deployedContract.name}</p>
                 </div>
               </div>
 
@@ -451,7 +752,7 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
             <div className="flex-1 min-w-0">
               <h2 className="text-2xl md:text-3xl font-bold mb-2">Smart Contract Playground</h2>
               <p className="text-white/90 text-sm md:text-base mb-3">
-                Deploy and interact with real Solidity smart contracts on Hedera
+                Write, deploy and interact with real Solidity smart contracts on Hedera
               </p>
               <div className="flex flex-wrap gap-2 text-xs md:text-sm">
                 <div className="px-3 py-1.5 bg-white/20 rounded-full backdrop-blur-sm">
@@ -468,7 +769,7 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
           </div>
         </Card>
 
-        <div className="grid md:grid-cols-3 gap-6">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
           {SAMPLE_CONTRACTS.map((contract) => (
             <motion.div
               key={contract.id}
@@ -497,7 +798,9 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
             <div className="space-y-2 text-sm">
               <p className="font-semibold">What You'll Learn:</p>
               <ul className="list-disc list-inside space-y-1 text-gray-700 dark:text-gray-300">
-                <li>Deploy real Solidity smart contracts to Hedera</li>
+                <li>Write Solidity and fix compiler errors before deploying</li>
+                <li>Iterate on a local EVM, then promote to Hedera testnet</li>
+                <li>Read a contract's ABI and call it from a generated UI</li>
                 <li>Call contract functions and read state</li>
                 <li>Understand gas costs and transaction flow</li>
                 <li>View contracts on HashScan explorer</li>
@@ -510,6 +813,9 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
   }
 
   // Contract Interaction View
+  const canDeploy = !deployedAddress || deployedMode !== executionMode || snapshotOf(deployedFiles) !== snapshot;
+  const canPromote = deployedMode === 'local' && !!deployedContract;
+
   return (
     <div className="w-full max-w-6xl mx-auto p-4 md:p-6 space-y-6">
       <Button onClick={() => setSelectedContract(null)} variant="outline" className="mb-4">
@@ -518,6 +824,41 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
 
       {/* Contract Header */}
       <Card className="p-6 md:p-8 bg-gradient-to-br from-purple-500 to-indigo-600 text-white">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <div className="inline-flex rounded-lg bg-white/15 p-1">
+            <button
+              onClick={() => handleModeChange('local')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                executionMode === 'local' ? 'bg-white text-purple-600' : 'text-white/90 hover:bg-white/10'
+              }`}
+            >
+              <Laptop className="w-4 h-4" />
+              Local EVM
+            </button>
+            <button
+              onClick={() => handleModeChange('testnet')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                executionMode === 'testnet' ? 'bg-white text-purple-600' : 'text-white/90 hover:bg-white/10'
+              }`}
+            >
+              <Globe className="w-4 h-4" />
+              Hedera Testnet
+            </button>
+          </div>
+          <div className="flex items-center gap-3 text-xs text-white/80">
+            <span>
+              {executionMode === 'local'
+                ? 'Runs in your browser - free, instant, nothing leaves this page'
+                : 'Real transactions, signed by your wallet'}
+            </span>
+            {executionMode === 'local' && (
+              <button onClick={handleResetLocalEvm} className="flex items-center gap-1 hover:underline">
+                <RotateCcw className="w-3 h-3" />
+                Reset local chain
+              </button>
+            )}
+          </div>
+        </div>
         <div className="flex items-start justify-between gap-4">
           <div className="flex items-start gap-4 flex-1 min-w-0">
             <div className="text-5xl md:text-6xl flex-shrink-0">{selectedContract.icon}</div>
@@ -526,85 +867,299 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
               <p className="text-white/90 mb-4">{selectedContract.description}</p>
               {deployedAddress && (
                 <div className="space-y-2">
-                  <div className="flex items-center gap-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
                     <CheckCircle className="w-4 h-4" />
-                    <span>Deployed at: <span className="font-mono">{deployedAddress}</span></span>
+                    <span>
+                      {deployedContract?.name} deployed at: <span className="font-mono">{deployedAddress}</span>
+                    </span>
+                    {deployedMode === 'local' && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-white/20">Local EVM</span>
+                    )}
                   </div>
-                  <button
-                    onClick={viewOnHashScan}
-                    className="flex items-center gap-2 text-sm hover:underline"
-                  >
-                    <ExternalLink className="w-4 h-4" />
-                    View on HashScan
-                  </button>
+                  {deployedEvmAddress && (
+                    <p className="text-xs text-white/80 font-mono break-all">EVM address: {deployedEvmAddress}</p>
+                  )}
+                  {deployedMode === 'testnet' && (
+                    <button
+                      onClick={viewOnHashScan}
+                      className="flex items-center gap-2 text-sm hover:underline"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      View on HashScan
+                    </button>
+                  )}
                 </div>
               )}
             </div>
           </div>
-          {!deployedAddress && (
-            <Button
-              onClick={handleDeploy}
-              disabled={isDeploying}
-              className="flex-shrink-0 px-6 py-6 bg-white text-purple-600 hover:bg-gray-100 rounded-xl font-bold"
-            >
-              {isDeploying ? (
-                <>
-                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                  Deploying...
-                </>
-              ) : (
-                <>
-                  <Rocket className="w-5 h-5 mr-2" />
-                  Deploy Contract
-                </>
-              )}
-            </Button>
-          )}
+          <div className="flex flex-col gap-2 flex-shrink-0">
+            {canDeploy && (
+              <Button
+                onClick={handleDeploy}
+                disabled={isDeploying || isCompiling}
+                className="flex-shrink-0 px-6 py-6 bg-white text-purple-600 hover:bg-gray-100 rounded-xl font-bold"
+              >
+                {isDeploying || isCompiling ? (
+                  <>
+                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    {isCompiling ? 'Compiling...' : 'Deploying...'}
+                  </>
+                ) : (
+                  <>
+                    <Rocket className="w-5 h-5 mr-2" />
+                    {deployedAddress && deployedMode === executionMode
+                      ? 'Deploy New Version'
+                      : executionMode === 'local' ? 'Deploy Locally' : 'Deploy to Testnet'}
+                  </>
+                )}
+              </Button>
+            )}
+            {canPromote && (
+              <Button
+                onClick={handlePromote}
+                disabled={isDeploying || isCompiling}
+                variant="outline"
+                className="px-6 py-3 bg-transparent border-white text-white hover:bg-white/10 rounded-xl font-bold"
+              >
+                <Globe className="w-4 h-4 mr-2" />
+                Promote to Testnet
+              </Button>
+            )}
+          </div>
         </div>
       </Card>
 
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Contract Code */}
-        <Card className="p-6">
-          <div className="flex items-center justify-between mb-4">
+        <Card className="p-6 gap-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
             <h4 className="font-bold flex items-center gap-2">
               <FileCode className="w-5 h-5 text-indigo-600" />
               Contract Code
             </h4>
-            <Button
-              onClick={copyCode}
-              variant="outline"
-              size="sm"
-              className="flex items-center gap-2"
-            >
-              {copiedCode ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-              {copiedCode ? 'Copied!' : 'Copy'}
-            </Button>
-          </div>
-          <div className="bg-gray-900 text-green-400 p-4 rounded-lg overflow-x-auto text-xs md:text-sm font-mono max-h-96 overflow-y-auto">
-            <pre>{selectedContract.code}</pre>
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={handleResetFiles}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Reset
+              </Button>
+              <Button
+                onClick={copyCode}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                {copiedCode ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copiedCode ? 'Copied!' : 'Copy'}
+              </Button>
+              <Button
+                onClick={handleCompile}
+                disabled={isCompiling}
+                size="sm"
+                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                {isCompiling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Hammer className="w-4 h-4" />}
+                Compile
+              </Button>
+            </div>
           </div>
+
+          <SolidityEditor
+            files={files}
+            activeFile={activeFile}
+            diagnostics={diagnostics}
+            onFilesChange={setFiles}
+            onActiveFileChange={setActiveFile}
+          />
+
+          {compileResult && (
+            <div className="flex items-center gap-2 text-xs">
+              {errorCount > 0 ? (
+                <span className="text-red-600 dark:text-red-400 font-semibold">
+                  {errorCount} error{errorCount === 1 ? '' : 's'}
+                </span>
+              ) : (
+                <span className="flex items-center gap-1 text-green-600 dark:text-green-400 font-semibold">
+                  <CheckCircle className="w-3.5 h-3.5" />
+                  Compiled
+                </span>
+              )}
+              {warningCount > 0 && (
+                <span className="text-yellow-700 dark:text-yellow-400">
+                  · {warningCount} warning{warningCount === 1 ? '' : 's'}
+                </span>
+              )}
+              {isCompileStale && (
+                <span className="text-gray-500">· Code changed since last compile</span>
+              )}
+            </div>
+          )}
         </Card>
 
-        {/* Contract Functions */}
-        <Card className="p-6">
-          <h4 className="font-bold mb-4 flex items-center gap-2">
-            <Terminal className="w-5 h-5 text-indigo-600" />
-            Contract Functions
-          </h4>
+        {/* Compiler Output */}
+        <Card className="p-6 gap-4">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="font-bold flex items-center gap-2">
+              <Braces className="w-5 h-5 text-indigo-600" />
+              ABI
+            </h4>
+            {targetContract && (
+              <div className="flex items-center gap-2">
+                <Button onClick={() => setShowAbiJson(!showAbiJson)} variant="outline" size="sm">
+                  {showAbiJson ? 'Summary' : 'JSON'}
+                </Button>
+                <Button onClick={copyAbi} variant="outline" size="sm" className="flex items-center gap-2">
+                  <Copy className="w-4 h-4" />
+                  Copy
+                </Button>
+              </div>
+            )}
+          </div>
 
-          {!deployedAddress ? (
+          {!targetContract ? (
             <div className="text-center py-12 text-gray-500">
-              <Activity className="w-12 h-12 mx-auto mb-3 opacity-50" />
-              <p>Deploy the contract first to interact with functions</p>
+              {errorCount > 0 ? (
+                <>
+                  <AlertTriangle className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                  <p>Fix the compile errors to see the ABI</p>
+                </>
+              ) : (
+                <>
+                  <Hammer className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                  <p>Compile the contract to see its ABI - the interface other programs use to call it</p>
+                </>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
-              {selectedContract.functions.map((func, index) => (
-                <Card key={index} className="p-4 bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900">
+              {deployableContracts.length > 1 && (
+                <label className="block text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">Contract to deploy</span>
+                  <select
+                    value={targetContract.name}
+                    onChange={(e) => {
+                      setTargetContractName(e.target.value);
+                      setConstructorInputs([]);
+                    }}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+                  >
+                    {deployableContracts.map((contract) => (
+                      <option key={`${contract.file}:${contract.name}`} value={contract.name}>
+                        {contract.name} ({contract.file})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              {showAbiJson ? (
+                <div className="bg-gray-900 text-green-400 p-4 rounded-lg overflow-auto text-xs font-mono max-h-80">
+                  <pre>{JSON.stringify(targetContract.abi, null, 2)}</pre>
+                </div>
+              ) : (
+                <div className="space-y-1 max-h-80 overflow-y-auto">
+                  {targetContract.abi.map((entry, index) => (
+                    <div
+                      key={index}
+                      className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-900/50 rounded-lg text-xs"
+                    >
+                      <span className="font-mono break-all">
+                        {entry.type === 'function'
+                          ? getFunctionSignature(entry)
+                          : entry.type === 'event' || entry.type === 'error'
+                            ? `${entry.type} ${getFunctionSignature(entry)}`
+                            : `${entry.type}(${(entry.inputs || []).map((input) => input.type).join(',')})`}
+                        {entry.outputs && entry.outputs.length > 0 && (
+                          <span className="text-gray-500"> → {formatAbiParameters(entry.outputs)}</span>
+                        )}
+                      </span>
+                      {entry.stateMutability && (
+                        <span
+                          className={`flex-shrink-0 px-2 py-0.5 rounded-full font-semibold ${
+                            entry.stateMutability === 'view' || entry.stateMutability === 'pure'
+                              ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+                              : entry.stateMutability === 'payable'
+                                ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300'
+                                : 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300'
+                          }`}
+                        >
+                          {entry.stateMutability}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {constructorParams.length > 0 && canDeploy && (
+                <div className="space-y-2">
+                  <p className="text-sm font-semibold">Constructor arguments</p>
+                  {constructorParams.map((param, i) => (
+                    <input
+                      key={i}
+                      type="text"
+                      placeholder={getInputPlaceholder(param)}
+                      value={constructorInputs[i] || ''}
+                      onChange={(e) => {
+                        setConstructorInputs(prev => [
+                          ...prev.slice(0, i),
+                          e.target.value,
+                          ...prev.slice(i + 1)
+                        ]);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Contract Functions - generated from the deployed contract's ABI */}
+      <Card className="p-6">
+        <h4 className="font-bold flex items-center gap-2">
+          <Terminal className="w-5 h-5 text-indigo-600" />
+          Contract Functions
+        </h4>
+
+        {!deployedAddress ? (
+          <div className="text-center py-12 text-gray-500">
+            <Activity className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>Deploy the contract first to interact with functions</p>
+          </div>
+        ) : deployedFunctions.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <p>This contract has no public functions</p>
+          </div>
+        ) : (
+          <>
+            {deployedMode === 'local' && !hasInteracted && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                These calls run on the local EVM. Promote the contract to testnet and call it there to complete this practical.
+              </p>
+            )}
+            <div className="grid md:grid-cols-2 gap-4">
+              {deployedFunctions.map((func) => (
+                <Card key={func.signature} className="p-4 gap-0 bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900">
                   <div className="mb-3">
-                    <h5 className="font-bold text-sm md:text-base mb-1">{func.name}()</h5>
-                    <p className="text-xs text-gray-600 dark:text-gray-400">{func.description}</p>
+                    <div className="flex items-center gap-2 mb-1">
+                      <h5 className="font-bold text-sm md:text-base font-mono break-all">{func.signature}</h5>
+                      {func.readonly && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">
+                          read
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      {func.description}
+                      {func.outputs && <span className="font-mono"> · returns {func.outputs}</span>}
+                    </p>
                   </div>
 
                   {func.inputs.length > 0 && (
@@ -613,15 +1168,15 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
                         <input
                           key={i}
                           type="text"
-                          placeholder={input.placeholder || `${input.name} (${input.type})`}
-                          value={functionInputs[func.name]?.[i] || ''}
+                          placeholder={getInputPlaceholder(input)}
+                          value={functionInputs[func.signature]?.[i] || ''}
                           onChange={(e) => {
                             setFunctionInputs(prev => ({
                               ...prev,
-                              [func.name]: [
-                                ...(prev[func.name] || []).slice(0, i),
+                              [func.signature]: [
+                                ...(prev[func.signature] || []).slice(0, i),
                                 e.target.value,
-                                ...(prev[func.name] || []).slice(i + 1)
+                                ...(prev[func.signature] || []).slice(i + 1)
                               ]
                             }));
                           }}
@@ -633,11 +1188,11 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
 
                   <Button
                     onClick={() => handleExecuteFunction(func)}
-                    disabled={executingFunction === func.name}
+                    disabled={executingFunction === func.signature}
                     className="w-full py-3 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white rounded-lg disabled:opacity-50"
                     size="sm"
                   >
-                    {executingFunction === func.name ? (
+                    {executingFunction === func.signature ? (
                       <>
                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                         Executing...
@@ -645,29 +1200,47 @@ export const SmartContractPlayground: React.FC<SmartContractPlaygroundProps> = (
                     ) : (
                       <>
                         <Play className="w-4 h-4 mr-2" />
-                        Execute
+                        {func.readonly ? 'Query' : 'Execute'}
                       </>
                     )}
                   </Button>
 
-                  {functionResults[func.name] !== undefined && (
+                  {functionResults[func.signature] !== undefined && (
                     <motion.div
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       className="mt-3 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg"
                     >
                       <p className="text-xs font-semibold text-green-800 dark:text-green-300 mb-1">Result:</p>
-                      <p className="text-sm font-mono text-green-700 dark:text-green-400">
-                        {String(functionResults[func.name])}
+                      <p className="text-sm font-mono text-green-700 dark:text-green-400 break-all">
+                        {functionResults[func.signature].value}
                       </p>
+                      {functionResults[func.signature].gasUsed !== undefined && (
+                        <p className="flex items-center gap-1 mt-2 text-xs text-green-800 dark:text-green-300">
+                          <Fuel className="w-3 h-3" />
+                          {functionResults[func.signature].gasUsed!.toLocaleString()} gas used
+                          {functionResults[func.signature].gasCharged !== undefined &&
+                            ` · ${functionResults[func.signature].gasCharged!.toLocaleString()} charged`}
+                        </p>
+                      )}
+                      {functionResults[func.signature].events.length > 0 && (
+                        <div className="mt-2">
+                          <p className="text-xs font-semibold text-green-800 dark:text-green-300">Events:</p>
+                          {functionResults[func.signature].events.map((event, index) => (
+                            <p key={index} className="text-xs font-mono text-green-700 dark:text-green-400 break-all">
+                              {event}
+                            </p>
+                          ))}
+                        </div>
+                      )}
                     </motion.div>
                   )}
                 </Card>
               ))}
             </div>
-          )}
-        </Card>
-      </div>
+          </>
+        )}
+      </Card>
 
       {/* Info Cards */}
       <div className="grid md:grid-cols-2 gap-6">
@@ -0,0 +1,309 @@
+/**
+ * Solidity Editor - Multi-file code editor with compiler diagnostics
+ *
+ * Plain textarea with a line-number gutter. Lines with compiler errors or
+ * warnings are highlighted, and clicking a diagnostic jumps to its line.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FilePlus, Info, X, XCircle } from 'lucide-react';
+import type { CompilerDiagnostic, SolidityFile } from '../../../lib/hedera/contracts-service';
+
+interface SolidityEditorProps {
+  files: SolidityFile[];
+  activeFile: string;
+  diagnostics: CompilerDiagnostic[];
+  onFilesChange: (files: SolidityFile[]) => void;
+  onActiveFileChange: (name: string) => void;
+}
+
+const LINE_HEIGHT = 20; // px, matches leading-5
+const FILE_NAME_REGEX = /^[A-Za-z0-9_][A-Za-z0-9_./-]{0,63}\.sol$/;
+const MAX_FILES = 10;
+
+const SEVERITY_STYLES: Record<CompilerDiagnostic['severity'], { line: string; marker: string; text: string }> = {
+  error: { line: 'bg-red-500/20', marker: 'bg-red-500', text: 'text-red-600 dark:text-red-400' },
+  warning: { line: 'bg-yellow-500/15', marker: 'bg-yellow-500', text: 'text-yellow-700 dark:text-yellow-400' },
+  info: { line: 'bg-blue-500/10', marker: 'bg-blue-500', text: 'text-blue-600 dark:text-blue-400' },
+};
+
+const SEVERITY_ORDER: CompilerDiagnostic['severity'][] = ['error', 'warning', 'info'];
+
+/** Character offset of a 1-based line and column */
+function getOffset(content: string, line: number, column: number): number {
+  const lines = content.split('\n');
+  let offset = 0;
+  for (let i = 0; i < Math.min(line - 1, lines.length); i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset + Math.max(column - 1, 0);
+}
+
+export const SolidityEditor: React.FC<SolidityEditorProps> = ({
+  files,
+  activeFile,
+  diagnostics,
+  onFilesChange,
+  onActiveFileChange,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [newFileName, setNewFileName] = useState<string | null>(null);
+  const [pendingJump, setPendingJump] = useState<{ line: number; column: number } | null>(null);
+
+  const file = files.find((candidate) => candidate.name === activeFile) ?? files[0];
+  const lineCount = file ? file.content.split('\n').length : 1;
+
+  // Most severe diagnostic per line of the open file
+  const lineSeverity = useMemo(() => {
+    const byLine = new Map<number, CompilerDiagnostic[]>();
+    diagnostics
+      .filter((diagnostic) => diagnostic.file === file?.name && diagnostic.line !== null)
+      .forEach((diagnostic) => {
+        const endLine = Math.max(diagnostic.endLine ?? diagnostic.line!, diagnostic.line!);
+        for (let line = diagnostic.line!; line <= endLine; line++) {
+          byLine.set(line, [...(byLine.get(line) || []), diagnostic]);
+        }
+      });
+    return byLine;
+  }, [diagnostics, file?.name]);
+
+  const sortedDiagnostics = useMemo(
+    () =>
+      [...diagnostics].sort(
+        (a, b) =>
+          SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+          (a.file || '').localeCompare(b.file || '') ||
+          (a.line ?? 0) - (b.line ?? 0)
+      ),
+    [diagnostics]
+  );
+
+  // Jump once the target file is showing
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!pendingJump || !textarea || !file) return;
+
+    const offset = getOffset(file.content, pendingJump.line, pendingJump.column);
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+    textarea.scrollTop = Math.max((pendingJump.line - 3) * LINE_HEIGHT, 0);
+    syncScroll();
+    setPendingJump(null);
+  }, [pendingJump, file]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+    if (highlightRef.current) {
+      highlightRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`;
+    }
+  };
+
+  const updateContent = (content: string) => {
+    onFilesChange(files.map((candidate) => (candidate.name === file.name ? { ...candidate, content } : candidate)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd, value } = textarea;
+    updateContent(value.slice(0, selectionStart) + '    ' + value.slice(selectionEnd));
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 4, selectionStart + 4));
+  };
+
+  const handleAddFile = () => {
+    const name = (newFileName || '').trim();
+    const fileName = name.endsWith('.sol') ? name : `${name}.sol`;
+
+    if (!FILE_NAME_REGEX.test(fileName)) return;
+    if (files.some((candidate) => candidate.name === fileName)) return;
+
+    const contractName = fileName.replace(/^.*\//, '').replace(/\.sol$/, '').replace(/[^A-Za-z0-9_]/g, '');
+    onFilesChange([
+      ...files,
+      {
+        name: fileName,
+        content: `// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract ${contractName || 'MyContract'} {\n}\n`,
+      },
+    ]);
+    onActiveFileChange(fileName);
+    setNewFileName(null);
+  };
+
+  const handleRemoveFile = (name: string) => {
+    const remaining = files.filter((candidate) => candidate.name !== name);
+    onFilesChange(remaining);
+    if (name === activeFile) onActiveFileChange(remaining[0].name);
+  };
+
+  const jumpTo = (diagnostic: CompilerDiagnostic) => {
+    if (!diagnostic.file || diagnostic.line === null) return;
+    onActiveFileChange(diagnostic.file);
+    setPendingJump({ line: diagnostic.line, column: diagnostic.column ?? 1 });
+  };
+
+  if (!file) return null;
+
+  const countFor = (name: string, severity: CompilerDiagnostic['severity']) =>
+    diagnostics.filter((diagnostic) => diagnostic.file === name && diagnostic.severity === severity).length;
+
+  return (
+    <div className="space-y-3">
+      {/* File Tabs */}
+      <div className="flex flex-wrap items-center gap-1">
+        {files.map((candidate) => {
+          const errors = countFor(candidate.name, 'error');
+          const warnings = countFor(candidate.name, 'warning');
+
+          return (
+            <div
+              key={candidate.name}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-t-lg text-xs font-mono border-b-2 ${
+                candidate.name === file.name
+                  ? 'border-indigo-500 bg-gray-900 text-white'
+                  : 'border-transparent bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+              }`}
+            >
+              <button type="button" onClick={() => onActiveFileChange(candidate.name)}>
+                {candidate.name}
+              </button>
+              {errors > 0 && <span className="text-red-500 font-bold">{errors}</span>}
+              {errors === 0 && warnings > 0 && <span className="text-yellow-500 font-bold">{warnings}</span>}
+              {files.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => handleRemoveFile(candidate.name)}
+                  className="ml-1 opacity-60 hover:opacity-100"
+                  aria-label={`Remove ${candidate.name}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        {newFileName === null ? (
+          files.length < MAX_FILES && (
+            <button
+              type="button"
+              onClick={() => setNewFileName('')}
+              className="flex items-center gap-1 px-2 py-1.5 text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <FilePlus className="w-3.5 h-3.5" />
+              New file
+            </button>
+          )
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAddFile();
+            }}
+            className="flex items-center gap-1"
+          >
+            <input
+              autoFocus
+              value={newFileName}
+              onChange={(e) => setNewFileName(e.target.value)}
+              onBlur={() => !newFileName && setNewFileName(null)}
+              onKeyDown={(e) => e.key === 'Escape' && setNewFileName(null)}
+              placeholder="Ownable.sol"
+              className="w-32 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-xs font-mono dark:bg-gray-700 dark:text-white"
+            />
+          </form>
+        )}
+      </div>
+
+      {/* Code Area */}
+      <div className="relative flex bg-gray-900 rounded-lg overflow-hidden font-mono text-xs md:text-sm leading-5 h-96">
+        <div
+          ref={gutterRef}
+          className="flex-shrink-0 w-12 py-3 overflow-hidden text-right select-none text-gray-500 bg-black/30"
+        >
+          {Array.from({ length: lineCount }, (_, index) => {
+            const line = index + 1;
+            const lineDiagnostics = lineSeverity.get(line);
+            const severity = lineDiagnostics && SEVERITY_ORDER.find((s) => lineDiagnostics.some((d) => d.severity === s));
+
+            return (
+              <div
+                key={line}
+                className="relative pr-2"
+                style={{ height: LINE_HEIGHT }}
+                title={lineDiagnostics?.map((diagnostic) => diagnostic.message).join('\n')}
+              >
+                {severity && (
+                  <span className={`absolute left-1.5 top-1.5 w-2 h-2 rounded-full ${SEVERITY_STYLES[severity].marker}`} />
+                )}
+                {line}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="relative flex-1 overflow-hidden">
+          {/* Line highlights, kept under the textarea */}
+          <div ref={highlightRef} className="absolute inset-x-0 top-0 py-3 pointer-events-none">
+            {Array.from({ length: lineCount }, (_, index) => {
+              const lineDiagnostics = lineSeverity.get(index + 1);
+              const severity = lineDiagnostics && SEVERITY_ORDER.find((s) => lineDiagnostics.some((d) => d.severity === s));
+              return (
+                <div
+                  key={index}
+                  className={severity ? SEVERITY_STYLES[severity].line : undefined}
+                  style={{ height: LINE_HEIGHT }}
+                />
+              );
+            })}
+          </div>
+
+          <textarea
+            ref={textareaRef}
+            value={file.content}
+            onChange={(e) => updateContent(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={syncScroll}
+            spellCheck={false}
+            wrap="off"
+            className="relative w-full h-full p-3 bg-transparent text-green-400 caret-white resize-none outline-none whitespace-pre overflow-auto"
+            aria-label={`Editing ${file.name}`}
+          />
+        </div>
+      </div>
+
+      {/* Diagnostics */}
+      {sortedDiagnostics.length > 0 && (
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+          {sortedDiagnostics.map((diagnostic, index) => {
+            const Icon = diagnostic.severity === 'error' ? XCircle : diagnostic.severity === 'warning' ? AlertTriangle : Info;
+
+            return (
+              <button
+                key={index}
+                type="button"
+                onClick={() => jumpTo(diagnostic)}
+                disabled={diagnostic.line === null}
+                className="w-full flex items-start gap-2 px-3 py-2 text-left text-xs hover:bg-gray-50 dark:hover:bg-gray-800 disabled:cursor-default"
+              >
+                <Icon className={`w-4 h-4 flex-shrink-0 mt-0.5 ${SEVERITY_STYLES[diagnostic.severity].text}`} />
+                <div className="min-w-0">
+                  <p className="font-mono text-gray-500 dark:text-gray-400">
+                    {diagnostic.file ? `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}` : diagnostic.type}
+                    {diagnostic.errorCode && ` · ${diagnostic.type} ${diagnostic.errorCode}`}
+                  </p>
+                  <p className="text-gray-800 dark:text-gray-200">{diagnostic.message}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -47,7 +47,6 @@ interface CaseQuestion {
 }
 
 const HASHSCAN_BASE = 'https://hashscan.io/testnet';
-const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com/api/v1';
 
 const CASES: Case[] = [
   {
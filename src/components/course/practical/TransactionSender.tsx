@@ -6,6 +6,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
 import { Button } from '../../ui/button';
 import { Send, AlertCircle, CheckCircle, ExternalLink, Loader2 } from 'lucide-react';
 import { sendHBAR, estimateTransactionFee, getDynamicTransactionFee, formatTransactionId } from '../../../lib/hedera/transactions';
@@ -54,6 +55,7 @@ export function TransactionSender({
   showAdvancedOptions = true,
 }: TransactionSenderProps) {
   const { user, account, accountId, balance } = useWallet();
+  const { courseId } = useParams<{ courseId: string }>();
   const [recipient, setRecipient] = useState(defaultRecipient);
   const [amount, setAmount] = useState(defaultAmount);
   const [memo, setMemo] = useState(defaultMemo);
@@ -131,7 +133,8 @@ export function TransactionSender({
         recipient,
         amount,
         memo || undefined,
-        user.id
+        user.id,
+        courseId
       );
 
       setTransactionResult(result);
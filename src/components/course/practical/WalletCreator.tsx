@@ -16,6 +16,8 @@ import {
 import { Card } from '../../ui/card';
 import { Button } from '../../ui/button';
 import { toast } from 'sonner';
+import { useRecordTransaction } from '../../../hooks/useTransactions';
+import { getMirrorNode } from '../../../lib/hedera/mirror-node';
 
 interface WalletCreatorProps {
   onInteract?: () => void;
@@ -29,10 +31,10 @@ interface WalletData {
   balance: number;
 }
 
-const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com/api/v1';
 const HASHSCAN_URL = 'https://hashscan.io/testnet';
 
 export const WalletCreator: React.FC<WalletCreatorProps> = ({ onInteract }) => {
+  const recordTransaction = useRecordTransaction();
   const [step, setStep] = useState<'intro' | 'generating' | 'created' | 'funded'>('intro');
   const [wallet, setWallet] = useState<WalletData | null>(null);
   const [showPrivateKey, setShowPrivateKey] = useState(false);
@@ -111,6 +113,14 @@ export const WalletCreator: React.FC<WalletCreatorProps> = ({ onInteract }) => {
 
       console.log('✅ Account created:', result);
 
+      recordTransaction({
+        transactionId: result.transactionId,
+        transactionType: 'account_create',
+        amountHbar: result.balance || 1,
+        toAccount: result.accountId,
+        memo: 'Practice wallet',
+      });
+
       const newWallet: WalletData = {
         accountId: result.accountId,
         publicKey: publicKeyHex.substring(0, 66), // First 66 chars for display
@@ -175,8 +185,8 @@ export const WalletCreator: React.FC<WalletCreatorProps> = ({ onInteract }) => {
 
       // Query Mirror Node to verify the new balance
       try {
-        const accountResponse = await fetch(`${MIRROR_NODE_URL}/accounts/${wallet.accountId}`);
-        const accountData = await accountResponse.json();
+        const accountData = await getMirrorNode().getAccount(wallet.accountId, { ttlMs: 0 });
+        if (!accountData) throw new Error(`Account ${wallet.accountId} not indexed yet`);
         const newBalance = accountData.balance.balance / 100000000; // Convert tinybars to HBAR
 
         setWallet(prev => prev ? { ...prev, balance: newBalance } : null);
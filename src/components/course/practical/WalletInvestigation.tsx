@@ -17,6 +17,7 @@ import {
 import { Card } from '../../ui/card';
 import { Button } from '../../ui/button';
 import { toast } from 'sonner';
+import { decodeMirrorBase64, getMirrorNode } from '../../../lib/hedera/mirror-node';
 
 interface WalletInvestigationProps {
   onInteract?: () => void;
@@ -45,7 +46,6 @@ interface Transaction {
   consensusTimestamp: string;
 }
 
-const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com/api/v1';
 const HASHSCAN_URL = 'https://hashscan.io/testnet';
 
 // Demo accounts for investigation practice
@@ -92,25 +92,17 @@ export const WalletInvestigation: React.FC<WalletInvestigationProps> = ({
 
     try {
       // Fetch account info from Mirror Node
-      const accountResponse = await fetch(`${MIRROR_NODE_URL}/accounts/${accountId}`);
-
-      if (!accountResponse.ok) {
-        if (accountResponse.status === 404) {
-          toast.error('Account not found on testnet');
-        } else {
-          toast.error('Failed to fetch account data');
-        }
+      const mirrorNode = getMirrorNode();
+      const accountJson = await mirrorNode.getAccount(accountId);
+
+      if (!accountJson) {
+        toast.error('Account not found on testnet');
         setIsLoading(false);
         return;
       }
 
-      const accountJson = await accountResponse.json();
-
       // Fetch transactions
-      const transactionsResponse = await fetch(
-        `${MIRROR_NODE_URL}/transactions?account.id=${accountId}&limit=25&order=desc`
-      );
-      const transactionsJson = await transactionsResponse.json();
+      const mirrorTransactions = await mirrorNode.getTransactions({ accountId, limit: 25 });
 
       // Process account data
       const balance = accountJson.balance?.balance || 0;
@@ -124,16 +116,16 @@ export const WalletInvestigation: React.FC<WalletInvestigationProps> = ({
           tokens: [], // Would be populated from tokens endpoint
         },
         createdAt: accountJson.created_timestamp || 'Unknown',
-        transactionCount: transactionsJson.transactions?.length || 0,
+        transactionCount: mirrorTransactions.length,
       };
 
       // Process transactions
-      const processedTransactions: Transaction[] = (transactionsJson.transactions || []).map((tx: any) => {
+      const processedTransactions: Transaction[] = mirrorTransactions.map((tx) => {
         const transfers = tx.transfers || [];
-        const userTransfer = transfers.find((t: any) => t.account === accountId);
-        const otherTransfer = transfers.find((t: any) => t.account !== accountId);
+        const userTransfer = transfers.find((t) => t.account === accountId);
+        const otherTransfer = transfers.find((t) => t.account !== accountId);
 
-        const isSent = userTransfer?.amount < 0;
+        const isSent = (userTransfer?.amount ?? 0) < 0;
         const amount = Math.abs(userTransfer?.amount || 0) / 100000000;
 
         return {
@@ -142,8 +134,8 @@ export const WalletInvestigation: React.FC<WalletInvestigationProps> = ({
           amount,
           from: isSent ? accountId : (otherTransfer?.account || 'Unknown'),
           to: isSent ? (otherTransfer?.account || 'Unknown') : accountId,
-          timestamp: new Date(tx.consensus_timestamp * 1000).toLocaleString(),
-          memo: tx.memo_base64 ? atob(tx.memo_base64) : undefined,
+          timestamp: new Date(parseFloat(tx.consensus_timestamp) * 1000).toLocaleString(),
+          memo: tx.memo_base64 ? decodeMirrorBase64(tx.memo_base64) : undefined,
           consensusTimestamp: tx.consensus_timestamp,
         };
       });
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Compass, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { CourseCard } from '../CourseCard';
+import { useCourseRecommendations } from '../../hooks/useAI';
+import { useEnroll } from '../../hooks/useEnrollment';
+import { adaptCourseForComponent } from '../../lib/adapters/courseAdapter';
+
+interface RecommendedCoursesProps {
+  userId: string;
+}
+
+export function RecommendedCourses({ userId }: RecommendedCoursesProps) {
+  const navigate = useNavigate();
+  const { data, isLoading } = useCourseRecommendations(userId);
+  const { enroll } = useEnroll();
+  const [enrollingCourseId, setEnrollingCourseId] = useState<string | null>(null);
+
+  // Candidates already have their prerequisites met, so enroll directly
+  const handleEnroll = async (courseId: string) => {
+    setEnrollingCourseId(courseId);
+    try {
+      const result = await enroll(userId, courseId);
+      if (result.success) {
+        toast.success('Enrolled successfully!');
+        navigate(`/courses/${courseId}`);
+      } else {
+        toast.error(result.error || 'Enrollment failed');
+      }
+    } catch (error) {
+      console.error('Enrollment error:', error);
+      toast.error('Failed to enroll in course');
+    } finally {
+      setEnrollingCourseId(null);
+    }
+  };
+
+  if (!isLoading && (!data || data.recommendations.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mb-12">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-white rounded-2xl flex items-center justify-center shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
+            <Compass className="w-5 h-5 text-[#0084C7]" />
+          </div>
+          <h2>Recommended Next</h2>
+        </div>
+        {data?.source === 'ai' && (
+          <span className="flex items-center gap-1.5 text-sm text-[#0084C7] bg-white rounded-full px-3 py-1 shadow-[0_2px_8px_rgba(0,0,0,0.06)]">
+            <Sparkles className="w-4 h-4" />
+            AI picks
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-3xl p-12 text-center shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)]">
+          <p className="text-gray-600">Finding your next course...</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {data!.recommendations.map((recommendation) => (
+            <div key={recommendation.courseId} className="flex flex-col gap-3">
+              <CourseCard
+                course={adaptCourseForComponent(recommendation.course)}
+                onEnroll={handleEnroll}
+                isEnrolling={enrollingCourseId === recommendation.courseId}
+              />
+              <p className="text-sm text-gray-600 px-2">{recommendation.reasoning}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
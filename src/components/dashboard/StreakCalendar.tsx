@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { format, startOfWeek } from 'date-fns';
-import { Flame, Loader2 } from 'lucide-react';
+import { Flame, Loader2, Brain } from 'lucide-react';
 import { useLearningStreak } from '../../hooks/useStats';
 
 interface StreakCalendarProps {
@@ -8,8 +9,9 @@ interface StreakCalendarProps {
 }
 
 export function StreakCalendar({ userId }: StreakCalendarProps) {
+  const navigate = useNavigate();
   const { data: streakData, isLoading, error } = useLearningStreak(userId);
-  const [hoveredDay, setHoveredDay] = useState<{ date: string; count: number } | null>(null);
+  const [hoveredDay, setHoveredDay] = useState<{ date: string; count: number; reviews: number } | null>(null);
 
   if (isLoading) {
     return (
@@ -27,7 +29,7 @@ export function StreakCalendar({ userId }: StreakCalendarProps) {
     );
   }
 
-  const { currentStreak, longestStreak, streakHistory } = streakData;
+  const { currentStreak, longestStreak, reviewsDueToday, streakHistory } = streakData;
 
   // Get intensity color based on activity count
   const getIntensityColor = (activitiesCount: number): string => {
@@ -76,11 +78,25 @@ export function StreakCalendar({ userId }: StreakCalendarProps) {
         </div>
       </div>
 
+      {/* Reviews Due */}
+      <button
+        onClick={() => navigate('/review')}
+        className="w-full flex items-center justify-between gap-3 bg-gradient-to-br from-purple-50 to-purple-100 rounded-2xl p-4 shadow-[inset_0_2px_8px_rgba(0,0,0,0.05)] hover:from-purple-100 hover:to-purple-200 transition-all text-left"
+      >
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-purple-400 to-purple-500 rounded-full flex items-center justify-center shadow-[inset_-1px_-1px_4px_rgba(0,0,0,0.2)]">
+            <Brain className="w-5 h-5 text-white" />
+          </div>
+          <span className="text-sm text-gray-600">Reviews due today</span>
+        </div>
+        <span className="text-2xl font-bold text-purple-600">{reviewsDueToday}</span>
+      </button>
+
       {/* Calendar Heatmap */}
       <div className="bg-white rounded-2xl p-6 shadow-[0_4px_16px_rgba(0,0,0,0.06),inset_-2px_-2px_8px_rgba(0,0,0,0.02),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
         <div className="mb-4">
           <h4 className="text-sm font-medium text-gray-900 mb-1">Last 30 Days</h4>
-          <p className="text-xs text-gray-500">Your learning activity</p>
+          <p className="text-xs text-gray-500">Lessons completed and questions reviewed</p>
         </div>
 
         {/* Day names */}
@@ -107,17 +123,20 @@ export function StreakCalendar({ userId }: StreakCalendarProps) {
               {/* Days */}
               {week.map((day, dayIndex) => {
                 const isToday = day.date === new Date().toISOString().split('T')[0];
+                const totalCount = day.activitiesCount + day.reviewsCount;
 
                 return (
                   <div
                     key={dayIndex}
                     className="flex-1 aspect-square relative"
-                    onMouseEnter={() => setHoveredDay({ date: day.date, count: day.activitiesCount })}
+                    onMouseEnter={() =>
+                      setHoveredDay({ date: day.date, count: day.activitiesCount, reviews: day.reviewsCount })
+                    }
                     onMouseLeave={() => setHoveredDay(null)}
                   >
                     <div
                       className={`w-full h-full rounded-lg ${getIntensityColor(
-                        day.activitiesCount
+                        totalCount
                       )} transition-all hover:scale-110 hover:shadow-md ${
                         isToday ? 'ring-2 ring-[#0084C7] ring-offset-1' : ''
                       }`}
@@ -133,11 +152,18 @@ export function StreakCalendar({ userId }: StreakCalendarProps) {
             <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-full mb-2 z-10 pointer-events-none">
               <div className="bg-gray-900 text-white text-xs rounded-lg px-3 py-2 shadow-lg whitespace-nowrap">
                 <div className="font-medium">{format(new Date(hoveredDay.date), 'MMM d, yyyy')}</div>
-                <div className="text-gray-300">
-                  {hoveredDay.count === 0
-                    ? 'No activity'
-                    : `${hoveredDay.count} ${hoveredDay.count === 1 ? 'activity' : 'activities'}`}
-                </div>
+                {(hoveredDay.count > 0 || hoveredDay.reviews === 0) && (
+                  <div className="text-gray-300">
+                    {hoveredDay.count === 0
+                      ? 'No activity'
+                      : `${hoveredDay.count} ${hoveredDay.count === 1 ? 'activity' : 'activities'}`}
+                  </div>
+                )}
+                {hoveredDay.reviews > 0 && (
+                  <div className="text-gray-300">
+                    {hoveredDay.reviews} {hoveredDay.reviews === 1 ? 'review' : 'reviews'}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { X, Loader2, Send } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useCourses } from '../../hooks/useCourses';
+import { useCreateDiscussion } from '../../hooks/useCommunity';
+import type { DiscussionCategory } from '../../lib/supabase/types';
+
+interface NewDiscussionModalProps {
+  isOpen: boolean;
+  authorId: string;
+  onClose: () => void;
+  onCreated?: (discussionId: string) => void;
+}
+
+const CATEGORIES: { value: DiscussionCategory; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'course_question', label: 'Course Question' },
+  { value: 'help', label: 'Help' },
+  { value: 'showcase', label: 'Showcase' },
+];
+
+export function NewDiscussionModal({ isOpen, authorId, onClose, onCreated }: NewDiscussionModalProps) {
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [category, setCategory] = useState<DiscussionCategory>('general');
+  const [courseId, setCourseId] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+
+  const { courses } = useCourses({ enabled: isOpen });
+  const createDiscussion = useCreateDiscussion();
+
+  if (!isOpen) return null;
+
+  const canSubmit = title.trim().length >= 5 && content.trim().length >= 10 && !createDiscussion.isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    try {
+      const discussion = await createDiscussion.mutateAsync({
+        authorId,
+        title,
+        content,
+        category,
+        courseId: courseId || null,
+        tags: tagsInput.split(','),
+      });
+
+      setTitle('');
+      setContent('');
+      setTagsInput('');
+      setCourseId('');
+      setCategory('general');
+      onCreated?.(discussion.id);
+      onClose();
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-3xl max-w-2xl w-full max-h-[90vh] overflow-auto p-6 shadow-[0_24px_64px_rgba(0,0,0,0.2)]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2>New Discussion</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-gray-700 mb-2">Title</label>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+              placeholder="What do you want to discuss?"
+              className="w-full px-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20"
+            />
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-700 mb-2">Category</label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as DiscussionCategory)}
+                className="w-full px-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20"
+              >
+                {CATEGORIES.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 mb-2">Related course (optional)</label>
+              <select
+                value={courseId}
+                onChange={(e) => setCourseId(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20"
+              >
+                <option value="">None</option>
+                {courses.map((course) => (
+                  <option key={course.id} value={course.id}>{course.title}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-700 mb-2">Details</label>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={6}
+              placeholder="Describe your question or idea. Include code or error messages if relevant."
+              className="w-full px-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20 resize-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-700 mb-2">Tags (comma separated, up to 5)</label>
+            <input
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              placeholder="hts, tokens, wallet"
+              className="w-full px-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="outline" onClick={onClose} className="rounded-full px-6">
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={!canSubmit}
+            className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white hover:from-[#0074b7] hover:to-[#0098d8] rounded-full px-6 shadow-[0_4px_16px_rgba(0,132,199,0.3)]"
+          >
+            {createDiscussion.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4 mr-2" />
+            )}
+            Post Discussion
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,156 +1,85 @@
 import React, { useState } from 'react';
-import { Play, RotateCcw, Download, Code, Terminal } from 'lucide-react';
+import { Play, RotateCcw, Code, Terminal, Network, Loader2 } from 'lucide-react';
 import { Button } from '../ui/button';
+import { runInSandbox, type SandboxRunResult } from '../../lib/sandbox/js-sandbox';
+import {
+  createMockHederaModule,
+  createMockNetworkState,
+  formatTinybars,
+  MOCK_HEDERA_MODULE_NAME,
+  type MockNetworkState,
+} from '../../lib/sandbox/mock-hedera-sdk';
+import { PLAYGROUND_EXAMPLES, type PlaygroundExample } from '../../lib/sandbox/playground-examples';
 
-export function CodePlayground() {
-  const [code, setCode] = useState(`// Welcome to the Hedera Code Playground!
-// Try running this code to create an account
-
-const { Client, AccountCreateTransaction, Hbar, PrivateKey } = require("@hashgraph/sdk");
+const PLAYGROUND_TIMEOUT_MS = 5000;
 
-async function createAccount() {
-  // Note: This is testnet code
-  const client = Client.forTestnet();
-  
-  // Set operator (would use environment variables in production)
-  const operatorId = "0.0.123456";
-  const operatorKey = PrivateKey.generate();
-  
-  client.setOperator(operatorId, operatorKey);
-  
-  // Generate new key pair
-  const newAccountPrivateKey = PrivateKey.generate();
-  const newAccountPublicKey = newAccountPrivateKey.publicKey;
-  
-  // Create new account
-  const transaction = await new AccountCreateTransaction()
-    .setKey(newAccountPublicKey)
-    .setInitialBalance(new Hbar(10))
-    .execute(client);
-  
-  const receipt = await transaction.getReceipt(client);
-  const newAccountId = receipt.accountId;
-  
-  console.log("Success! New account ID:", newAccountId.toString());
-  console.log("Account balance: 10 HBAR");
-  
-  return newAccountId;
-}
+const LOG_COLORS: Record<string, string> = {
+  log: 'text-gray-800',
+  info: 'text-[#0084C7]',
+  warn: 'text-amber-600',
+  error: 'text-red-600',
+};
 
-createAccount();`);
-  
-  const [output, setOutput] = useState('');
+export function CodePlayground() {
+  const [code, setCode] = useState(PLAYGROUND_EXAMPLES[0].code);
+  const [activeExample, setActiveExample] = useState<PlaygroundExample>(PLAYGROUND_EXAMPLES[0]);
+  const [result, setResult] = useState<SandboxRunResult | null>(null);
+  const [network, setNetwork] = useState<MockNetworkState>(createMockNetworkState);
   const [isRunning, setIsRunning] = useState(false);
-  const [activeTab, setActiveTab] = useState<'code' | 'output'>('code');
+  const [activeTab, setActiveTab] = useState<'code' | 'output' | 'network'>('code');
 
-  const examples = [
-    {
-      name: 'Create Account',
-      code: `// Example: Create a new Hedera account
-const newAccountId = "0.0.789012";
-console.log("Created account:", newAccountId);
-console.log("Initial balance: 10 HBAR");`
-    },
-    {
-      name: 'Transfer HBAR',
-      code: `// Example: Transfer HBAR between accounts
-const sender = "0.0.123456";
-const receiver = "0.0.789012";
-const amount = 5;
-
-console.log(\`Transferring \${amount} HBAR\`);
-console.log(\`From: \${sender}\`);
-console.log(\`To: \${receiver}\`);
-console.log("Transaction successful!");
-console.log("Transaction ID: 0.0.123456@1697673600.123456789");`
-    },
-    {
-      name: 'Create Token',
-      code: `// Example: Create a fungible token
-const tokenName = "MyToken";
-const tokenSymbol = "MTK";
-const initialSupply = 1000000;
-
-console.log(\`Creating token: \${tokenName} (\${tokenSymbol})\`);
-console.log(\`Initial supply: \${initialSupply}\`);
-console.log("Token created successfully!");
-console.log("Token ID: 0.0.999888");`
-    }
-  ];
-
-  const handleRun = () => {
+  const handleRun = async () => {
+    if (isRunning) return;
     setIsRunning(true);
     setActiveTab('output');
-    
-    // Simulate code execution
-    setTimeout(() => {
-      try {
-        // Capture console.log outputs
-        const logs: string[] = [];
-        const originalLog = console.log;
-        console.log = (...args: any[]) => {
-          logs.push(args.map(arg => String(arg)).join(' '));
-        };
 
-        // Execute the code safely (in real implementation, this would be sandboxed)
-        // For demo, we'll just simulate output
-        if (code.includes('createAccount')) {
-          logs.push('Success! New account ID: 0.0.123456789');
-          logs.push('Account balance: 10 HBAR');
-        } else if (code.includes('Transfer')) {
-          logs.push('Transferring 5 HBAR');
-          logs.push('From: 0.0.123456');
-          logs.push('To: 0.0.789012');
-          logs.push('Transaction successful!');
-          logs.push('Transaction ID: 0.0.123456@1697673600.123456789');
-        } else if (code.includes('Token')) {
-          logs.push('Creating token: MyToken (MTK)');
-          logs.push('Initial supply: 1000000');
-          logs.push('Token created successfully!');
-          logs.push('Token ID: 0.0.999888');
-        } else {
-          // Try to evaluate simple console.log statements
-          const logMatches = code.match(/console\.log\([^)]+\)/g);
-          if (logMatches) {
-            logMatches.forEach(match => {
-              const content = match.match(/console\.log\(["']?([^"')]+)["']?\)/);
-              if (content && content[1]) {
-                logs.push(content[1]);
-              }
-            });
-          } else {
-            logs.push('Code executed successfully!');
-          }
-        }
+    const run = await runInSandbox(code, {
+      timeoutMs: PLAYGROUND_TIMEOUT_MS,
+      modules: [createMockHederaModule(network)],
+    });
 
-        console.log = originalLog;
-        setOutput(logs.join('\n'));
-      } catch (error) {
-        setOutput(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-      setIsRunning(false);
-    }, 1000);
+    const nextNetwork = run.moduleStates[MOCK_HEDERA_MODULE_NAME] as MockNetworkState | undefined;
+    if (nextNetwork) {
+      setNetwork(nextNetwork);
+    }
+    setResult(run);
+    setIsRunning(false);
   };
 
   const handleReset = () => {
-    setCode(examples[0].code);
-    setOutput('');
+    setCode(activeExample.code);
+    setResult(null);
     setActiveTab('code');
   };
 
-  const loadExample = (example: typeof examples[0]) => {
+  const handleResetNetwork = () => {
+    setNetwork(createMockNetworkState());
+    setResult(null);
+  };
+
+  const loadExample = (example: PlaygroundExample) => {
+    setActiveExample(example);
     setCode(example.code);
-    setOutput('');
+    setResult(null);
     setActiveTab('code');
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+      e.preventDefault();
+      handleRun();
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe] py-12">
       <div className="container mx-auto px-4">
         {/* Header */}
         <div className="mb-8">
           <h1 className="mb-2">Code Playground</h1>
-          <p className="text-gray-600">Write and test Hedera code in your browser</p>
+          <p className="text-gray-600">
+            Write and run Hedera SDK code against a simulated network in your browser
+          </p>
         </div>
 
         <div className="grid lg:grid-cols-4 gap-6">
@@ -162,13 +91,16 @@ console.log("Token ID: 0.0.999888");`
                 Examples
               </h3>
               <div className="space-y-2">
-                {examples.map((example, index) => (
+                {PLAYGROUND_EXAMPLES.map((example) => (
                   <button
-                    key={index}
+                    key={example.id}
                     onClick={() => loadExample(example)}
-                    className="w-full text-left px-4 py-3 rounded-xl bg-gray-50 hover:bg-[#0084C7]/10 transition-all text-sm shadow-[inset_0_2px_4px_rgba(0,0,0,0.05)] hover:shadow-[0_4px_12px_rgba(0,132,199,0.15)]"
+                    className={`w-full text-left px-4 py-3 rounded-xl transition-all text-sm shadow-[inset_0_2px_4px_rgba(0,0,0,0.05)] hover:shadow-[0_4px_12px_rgba(0,132,199,0.15)] ${
+                      activeExample.id === example.id ? 'bg-[#0084C7]/10' : 'bg-gray-50 hover:bg-[#0084C7]/10'
+                    }`}
                   >
-                    {example.name}
+                    <div>{example.name}</div>
+                    <div className="text-xs text-gray-500 mt-0.5">{example.description}</div>
                   </button>
                 ))}
               </div>
@@ -180,10 +112,6 @@ console.log("Token ID: 0.0.999888");`
                     <span>Run Code</span>
                     <code className="bg-gray-100 px-2 py-1 rounded">Ctrl+Enter</code>
                   </div>
-                  <div className="flex justify-between">
-                    <span>Reset</span>
-                    <code className="bg-gray-100 px-2 py-1 rounded">Ctrl+R</code>
-                  </div>
                 </div>
               </div>
             </div>
@@ -217,6 +145,17 @@ console.log("Token ID: 0.0.999888");`
                     <Terminal className="w-4 h-4 inline mr-2" />
                     Output
                   </button>
+                  <button
+                    onClick={() => setActiveTab('network')}
+                    className={`px-4 py-2 rounded-xl transition-all ${
+                      activeTab === 'network'
+                        ? 'bg-white text-[#0084C7] shadow-[0_4px_12px_rgba(0,0,0,0.08),inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]'
+                        : 'text-gray-600 hover:bg-white/50'
+                    }`}
+                  >
+                    <Network className="w-4 h-4 inline mr-2" />
+                    Network
+                  </button>
                 </div>
 
                 <div className="flex gap-2">
@@ -234,7 +173,11 @@ console.log("Token ID: 0.0.999888");`
                     className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white hover:from-[#0074b7] hover:to-[#0098d8] rounded-xl px-6 shadow-[0_4px_16px_rgba(0,132,199,0.3),inset_-2px_-2px_8px_rgba(0,0,0,0.1),inset_2px_2px_8px_rgba(255,255,255,0.2)]"
                     size="sm"
                   >
-                    <Play className="w-4 h-4 mr-2" />
+                    {isRunning ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4 mr-2" />
+                    )}
                     {isRunning ? 'Running...' : 'Run Code'}
                   </Button>
                 </div>
@@ -246,16 +189,30 @@ console.log("Token ID: 0.0.999888");`
                   <textarea
                     value={code}
                     onChange={(e) => setCode(e.target.value)}
+                    onKeyDown={handleKeyDown}
                     className="w-full h-full p-6 font-mono text-sm bg-gray-50 border-0 focus:outline-none resize-none"
                     spellCheck={false}
                     placeholder="Write your code here..."
                   />
-                ) : (
+                ) : activeTab === 'output' ? (
                   <div className="p-6">
-                    {output ? (
-                      <pre className="font-mono text-sm text-gray-800 whitespace-pre-wrap">
-                        {output}
-                      </pre>
+                    {result ? (
+                      <div className="font-mono text-sm space-y-1">
+                        {result.logs.map((entry, index) => (
+                          <pre key={index} className={`whitespace-pre-wrap ${LOG_COLORS[entry.level]}`}>
+                            {entry.text}
+                          </pre>
+                        ))}
+                        {result.error && (
+                          <pre className="whitespace-pre-wrap text-red-600">{result.error}</pre>
+                        )}
+                        {result.logs.length === 0 && !result.error && (
+                          <p className="text-gray-500">Code ran without printing anything.</p>
+                        )}
+                        <p className="text-xs text-gray-400 pt-4">
+                          {result.error ? 'Failed' : 'Finished'} in {result.durationMs}ms
+                        </p>
+                      </div>
                     ) : (
                       <div className="text-center text-gray-400 mt-20">
                         <Terminal className="w-16 h-16 mx-auto mb-4 opacity-50" />
@@ -263,6 +220,8 @@ console.log("Token ID: 0.0.999888");`
                       </div>
                     )}
                   </div>
+                ) : (
+                  <NetworkPanel network={network} onReset={handleResetNetwork} />
                 )}
               </div>
             </div>
@@ -271,18 +230,18 @@ console.log("Token ID: 0.0.999888");`
             <div className="grid md:grid-cols-3 gap-4 mt-6">
               <InfoCard
                 emoji="⚡"
-                title="Fast Execution"
-                description="Run code instantly in your browser"
+                title="Real SDK Calls"
+                description="Your code runs against the @hashgraph/sdk API"
               />
               <InfoCard
                 emoji="🔒"
                 title="Safe Sandbox"
-                description="Isolated environment for testing"
+                description="Isolated worker with no network access"
               />
               <InfoCard
                 emoji="🌐"
-                title="Testnet Ready"
-                description="Connect to Hedera testnet"
+                title="Simulated Network"
+                description="Accounts, tokens and topics persist between runs"
               />
             </div>
           </div>
@@ -292,6 +251,110 @@ console.log("Token ID: 0.0.999888");`
   );
 }
 
+function NetworkPanel({ network, onReset }: { network: MockNetworkState; onReset: () => void }) {
+  const accounts = Object.entries(network.accounts);
+  const tokens = Object.entries(network.tokens);
+  const topics = Object.entries(network.topics);
+
+  return (
+    <div className="p-6 space-y-6 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="text-gray-600">
+          State of the simulated network. Operator accounts are funded with 1,000 ℏ on first use.
+        </p>
+        <Button
+          onClick={onReset}
+          className="bg-gray-200 text-gray-700 hover:bg-gray-300 rounded-xl px-4 shadow-[inset_0_2px_4px_rgba(0,0,0,0.05)]"
+          size="sm"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset Network
+        </Button>
+      </div>
+
+      {accounts.length === 0 ? (
+        <div className="text-center text-gray-400 mt-16">
+          <Network className="w-16 h-16 mx-auto mb-4 opacity-50" />
+          <p>The network is empty. Run some code to create accounts.</p>
+        </div>
+      ) : (
+        <>
+          <NetworkSection title={`Accounts (${accounts.length})`}>
+            {accounts.map(([accountId, account]) => (
+              <div key={accountId} className="flex justify-between gap-4 py-2">
+                <span className="font-mono">
+                  {accountId}
+                  {account.isOperator && <span className="ml-2 text-xs text-[#0084C7]">operator</span>}
+                </span>
+                <span className="text-right">
+                  {formatTinybars(account.balance)}
+                  {Object.entries(account.tokens).map(([tokenId, amount]) => (
+                    <span key={tokenId} className="block text-xs text-gray-500">
+                      {amount} × {network.tokens[tokenId]?.symbol || tokenId}
+                    </span>
+                  ))}
+                </span>
+              </div>
+            ))}
+          </NetworkSection>
+
+          {tokens.length > 0 && (
+            <NetworkSection title={`Tokens (${tokens.length})`}>
+              {tokens.map(([tokenId, token]) => (
+                <div key={tokenId} className="flex justify-between gap-4 py-2">
+                  <span className="font-mono">{tokenId}</span>
+                  <span>
+                    {token.name} ({token.symbol}) · supply {token.totalSupply} · treasury {token.treasury}
+                  </span>
+                </div>
+              ))}
+            </NetworkSection>
+          )}
+
+          {topics.length > 0 && (
+            <NetworkSection title={`Topics (${topics.length})`}>
+              {topics.map(([topicId, topic]) => (
+                <div key={topicId} className="flex justify-between gap-4 py-2">
+                  <span className="font-mono">{topicId}</span>
+                  <span>
+                    {topic.sequenceNumber} message{topic.sequenceNumber === 1 ? '' : 's'}
+                    {topic.memo && ` · ${topic.memo}`}
+                  </span>
+                </div>
+              ))}
+            </NetworkSection>
+          )}
+
+          <NetworkSection title="Recent Transactions">
+            {network.transactions.map((tx) => (
+              <div key={tx.transactionId} className="flex justify-between gap-4 py-2">
+                <span className="font-mono text-xs break-all">{tx.transactionId}</span>
+                <span className="text-right whitespace-nowrap">
+                  {tx.type}{' '}
+                  <span className={tx.status === 'SUCCESS' ? 'text-green-600' : 'text-red-600'}>
+                    {tx.status}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </NetworkSection>
+        </>
+      )}
+    </div>
+  );
+}
+
+function NetworkSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-gray-700 mb-2">{title}</h4>
+      <div className="bg-gray-50 rounded-2xl px-4 divide-y divide-gray-200 shadow-[inset_0_2px_4px_rgba(0,0,0,0.05)]">
+        {children}
+      </div>
+    </div>
+  );
+}
+
 function InfoCard({ emoji, title, description }: { emoji: string; title: string; description: string }) {
   return (
     <div className="bg-white rounded-2xl p-4 shadow-[0_4px_16px_rgba(0,0,0,0.06),inset_0_1px_0_rgba(255,255,255,0.9)]">
@@ -1,15 +1,119 @@
-import React, { useState } from 'react';
-import { Discussion } from '../../lib/mockData';
-import { MessageSquare, ThumbsUp, Send, Users } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  MessageSquare,
+  ThumbsUp,
+  ThumbsDown,
+  Send,
+  Users,
+  Pin,
+  Lock,
+  Unlock,
+  CheckCircle2,
+  CornerDownRight,
+  Search,
+  Loader2,
+} from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '../ui/button';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  useDiscussions,
+  useDiscussion,
+  useDiscussionReplies,
+  useUserVotes,
+  useCommunityStats,
+  useTopContributors,
+  useCreateReply,
+  useCastVote,
+  useToggleSolution,
+  useModerateDiscussion,
+} from '../../hooks/useCommunity';
+import {
+  buildReplyTree,
+  recordDiscussionView,
+  type DiscussionSort,
+  type ThreadedReply,
+  type UserVoteMap,
+} from '../../lib/api/community';
+import { NewDiscussionModal } from '../modals/NewDiscussionModal';
+import { UsernameLink } from '../profile/UsernameLink';
+import type { DiscussionCategory, DiscussionWithAuthor, VoteType } from '../../lib/supabase/types';
 
-interface CommunityProps {
-  discussions: Discussion[];
+const CATEGORY_FILTERS: { value: DiscussionCategory | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'general', label: 'General' },
+  { value: 'course_question', label: 'Course Questions' },
+  { value: 'help', label: 'Help' },
+  { value: 'showcase', label: 'Showcase' },
+];
+
+const SORT_OPTIONS: { value: DiscussionSort; label: string }[] = [
+  { value: 'recent', label: 'Recent' },
+  { value: 'popular', label: 'Popular' },
+  { value: 'unanswered', label: 'Unanswered' },
+];
+
+function timeAgo(timestamp: string): string {
+  return formatDistanceToNow(new Date(timestamp), { addSuffix: true });
 }
 
-export function Community({ discussions }: CommunityProps) {
-  const [selectedDiscussion, setSelectedDiscussion] = useState<Discussion | null>(null);
-  const [replyText, setReplyText] = useState('');
+export function Community() {
+  const { user, isAuthenticated } = useAuth();
+  const isAdmin = !!user?.is_admin;
+
+  const [category, setCategory] = useState<DiscussionCategory | 'all'>('all');
+  const [sort, setSort] = useState<DiscussionSort>('recent');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showNewDiscussion, setShowNewDiscussion] = useState(false);
+
+  // Debounce search input
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { data: discussions = [], isLoading } = useDiscussions({
+    category: category === 'all' ? undefined : category,
+    search: search || undefined,
+    sort,
+  });
+  const { data: stats } = useCommunityStats();
+  const { data: contributors = [] } = useTopContributors(5);
+  const { data: userVotes = {} } = useUserVotes(user?.id);
+  const castVote = useCastVote(user?.id);
+
+  // Fall back to a direct fetch when the selected thread is outside the current filter
+  const listedDiscussion = discussions.find((d) => d.id === selectedId);
+  const { data: fetchedDiscussion } = useDiscussion(
+    selectedId && !listedDiscussion ? selectedId : undefined
+  );
+  const selectedDiscussion = listedDiscussion || fetchedDiscussion || null;
+
+  const openDiscussion = (discussionId: string) => {
+    setSelectedId(discussionId);
+    if (isAuthenticated) {
+      recordDiscussionView(discussionId);
+    }
+  };
+
+  const handleNewDiscussion = () => {
+    if (!isAuthenticated) {
+      toast.error('Please connect your wallet to start a discussion');
+      return;
+    }
+    setShowNewDiscussion(true);
+  };
+
+  const handleVote = (voteType: VoteType, target: { discussionId?: string; replyId?: string }, threadId: string) => {
+    if (!isAuthenticated) {
+      toast.error('Please connect your wallet to vote');
+      return;
+    }
+    castVote.mutate({ ...target, voteType, threadId });
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe] py-12">
@@ -32,21 +136,74 @@ export function Community({ discussions }: CommunityProps) {
           <div className="lg:col-span-2">
             <div className="bg-white rounded-3xl p-6 shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)]">
               <div className="flex items-center justify-between mb-6">
-                <h2>Recent Discussions</h2>
-                <Button className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white hover:from-[#0074b7] hover:to-[#0098d8] rounded-full px-6 shadow-[0_4px_16px_rgba(0,132,199,0.3),inset_-2px_-2px_8px_rgba(0,0,0,0.1),inset_2px_2px_8px_rgba(255,255,255,0.2)]">
+                <h2>Discussions</h2>
+                <Button
+                  onClick={handleNewDiscussion}
+                  className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white hover:from-[#0074b7] hover:to-[#0098d8] rounded-full px-6 shadow-[0_4px_16px_rgba(0,132,199,0.3),inset_-2px_-2px_8px_rgba(0,0,0,0.1),inset_2px_2px_8px_rgba(255,255,255,0.2)]"
+                >
                   New Discussion
                 </Button>
               </div>
 
-              <div className="space-y-4">
-                {discussions.map((discussion) => (
-                  <DiscussionCard
-                    key={discussion.id}
-                    discussion={discussion}
-                    onClick={() => setSelectedDiscussion(discussion)}
-                    isSelected={selectedDiscussion?.id === discussion.id}
+              {/* Filters */}
+              <div className="space-y-3 mb-6">
+                <div className="relative">
+                  <Search className="w-4 h-4 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
+                  <input
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Search discussions..."
+                    className="w-full pl-10 pr-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20"
                   />
-                ))}
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-2">
+                    {CATEGORY_FILTERS.map((filter) => (
+                      <button
+                        key={filter.value}
+                        onClick={() => setCategory(filter.value)}
+                        className={`px-4 py-1.5 rounded-full text-sm transition-all ${
+                          category === filter.value
+                            ? 'bg-[#0084C7] text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {filter.label}
+                      </button>
+                    ))}
+                  </div>
+                  <select
+                    value={sort}
+                    onChange={(e) => setSort(e.target.value as DiscussionSort)}
+                    className="px-3 py-1.5 bg-gray-50 rounded-full text-sm border-0 focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20"
+                  >
+                    {SORT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {isLoading ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="w-8 h-8 text-[#0084C7] animate-spin" />
+                  </div>
+                ) : discussions.length === 0 ? (
+                  <div className="text-center py-12 text-gray-600">
+                    <MessageSquare className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                    <p>No discussions yet. Start the conversation!</p>
+                  </div>
+                ) : (
+                  discussions.map((discussion) => (
+                    <DiscussionCard
+                      key={discussion.id}
+                      discussion={discussion}
+                      onClick={() => openDiscussion(discussion.id)}
+                      isSelected={selectedId === discussion.id}
+                    />
+                  ))
+                )}
               </div>
             </div>
           </div>
@@ -57,9 +214,9 @@ export function Community({ discussions }: CommunityProps) {
             <div className="bg-white rounded-3xl p-6 shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)]">
               <h3 className="mb-4">Community Stats</h3>
               <div className="space-y-4">
-                <StatItem label="Active Members" value="2,847" />
-                <StatItem label="Total Discussions" value="1,234" />
-                <StatItem label="Questions Answered" value="3,567" />
+                <StatItem label="Active Members" value={(stats?.active_members ?? 0).toLocaleString()} />
+                <StatItem label="Total Discussions" value={(stats?.total_discussions ?? 0).toLocaleString()} />
+                <StatItem label="Questions Answered" value={(stats?.questions_answered ?? 0).toLocaleString()} />
               </div>
             </div>
 
@@ -67,9 +224,19 @@ export function Community({ discussions }: CommunityProps) {
             <div className="bg-white rounded-3xl p-6 shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)]">
               <h3 className="mb-4">Top Contributors</h3>
               <div className="space-y-3">
-                <ContributorItem avatar="🥷" name="BlockchainNinja" answers={234} />
-                <ContributorItem avatar="👑" name="CryptoQueen" answers={189} />
-                <ContributorItem avatar="🧙‍♂️" name="HashMaster" answers={156} />
+                {contributors.length === 0 ? (
+                  <p className="text-sm text-gray-600">No contributors yet</p>
+                ) : (
+                  contributors.map((contributor) => (
+                    <ContributorItem
+                      key={contributor.user_id}
+                      avatar={contributor.avatar_emoji}
+                      name={contributor.username}
+                      answers={contributor.answer_count}
+                      solutions={contributor.solution_count}
+                    />
+                  ))
+                )}
               </div>
             </div>
 
@@ -100,88 +267,220 @@ export function Community({ discussions }: CommunityProps) {
 
         {/* Discussion Detail Modal */}
         {selectedDiscussion && (
-          <div 
-            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
-            onClick={() => setSelectedDiscussion(null)}
-          >
-            <div 
-              className="bg-white rounded-3xl max-w-3xl w-full max-h-[90vh] overflow-auto shadow-[0_24px_64px_rgba(0,0,0,0.2)]"
-              onClick={(e) => e.stopPropagation()}
-            >
-              {/* Header */}
-              <div className="sticky top-0 bg-white border-b border-gray-200 p-6 rounded-t-3xl">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
-                      <span className="text-2xl">{selectedDiscussion.authorAvatar}</span>
-                    </div>
-                    <div>
-                      <div className="text-gray-900">{selectedDiscussion.author}</div>
-                      <div className="text-sm text-gray-600">{selectedDiscussion.timestamp}</div>
-                    </div>
-                  </div>
+          <DiscussionDetail
+            discussion={selectedDiscussion}
+            userId={user?.id}
+            isAdmin={isAdmin}
+            userVotes={userVotes}
+            onVote={handleVote}
+            onClose={() => setSelectedId(null)}
+          />
+        )}
+
+        {user && (
+          <NewDiscussionModal
+            isOpen={showNewDiscussion}
+            authorId={user.id}
+            onClose={() => setShowNewDiscussion(false)}
+            onCreated={(id) => setSelectedId(id)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DiscussionDetail({
+  discussion,
+  userId,
+  isAdmin,
+  userVotes,
+  onVote,
+  onClose,
+}: {
+  discussion: DiscussionWithAuthor;
+  userId: string | undefined;
+  isAdmin: boolean;
+  userVotes: UserVoteMap;
+  onVote: (voteType: VoteType, target: { discussionId?: string; replyId?: string }, threadId: string) => void;
+  onClose: () => void;
+}) {
+  const [replyText, setReplyText] = useState('');
+  const [replyingTo, setReplyingTo] = useState<ThreadedReply | null>(null);
+
+  const { data: replies = [], isLoading } = useDiscussionReplies(discussion.id);
+  const createReply = useCreateReply();
+  const toggleSolution = useToggleSolution(userId);
+  const moderate = useModerateDiscussion(userId);
+
+  const replyTree = useMemo(() => buildReplyTree(replies), [replies]);
+  const canMarkSolution = !!userId && (userId === discussion.author_id || isAdmin);
+
+  const handlePostReply = async () => {
+    if (!userId) {
+      toast.error('Please connect your wallet to reply');
+      return;
+    }
+    if (!replyText.trim()) return;
+
+    try {
+      await createReply.mutateAsync({
+        authorId: userId,
+        discussionId: discussion.id,
+        content: replyText,
+        parentReplyId: replyingTo?.id,
+      });
+      setReplyText('');
+      setReplyingTo(null);
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl max-w-3xl w-full max-h-[90vh] overflow-auto shadow-[0_24px_64px_rgba(0,0,0,0.2)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-6 rounded-t-3xl z-10">
+          <div className="flex items-start justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
+                <span className="text-2xl">{discussion.author?.avatar_emoji || '👤'}</span>
+              </div>
+              <div>
+                <UsernameLink username={discussion.author?.username} className="block text-gray-900" />
+                <div className="text-sm text-gray-600">{timeAgo(discussion.created_at)}</div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isAdmin && (
+                <>
                   <button
-                    onClick={() => setSelectedDiscussion(null)}
-                    className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-colors"
+                    onClick={() => moderate.mutate({ discussionId: discussion.id, isPinned: !discussion.is_pinned })}
+                    title={discussion.is_pinned ? 'Unpin' : 'Pin'}
+                    className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${
+                      discussion.is_pinned ? 'bg-[#0084C7] text-white' : 'bg-gray-100 hover:bg-gray-200'
+                    }`}
                   >
-                    ✕
+                    <Pin className="w-4 h-4" />
                   </button>
-                </div>
-                <h2 className="mb-2">{selectedDiscussion.title}</h2>
-                <p className="text-gray-700">{selectedDiscussion.content}</p>
-              </div>
+                  <button
+                    onClick={() => moderate.mutate({ discussionId: discussion.id, isLocked: !discussion.is_locked })}
+                    title={discussion.is_locked ? 'Unlock' : 'Lock'}
+                    className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${
+                      discussion.is_locked ? 'bg-orange-500 text-white' : 'bg-gray-100 hover:bg-gray-200'
+                    }`}
+                  >
+                    {discussion.is_locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                  </button>
+                </>
+              )}
+              <button
+                onClick={onClose}
+                className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+          <h2 className="mb-2">{discussion.title}</h2>
+          <p className="text-gray-700 whitespace-pre-wrap">{discussion.content}</p>
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <VoteButtons
+              score={discussion.upvote_count}
+              userVote={userVotes[discussion.id]}
+              onVote={(voteType) => onVote(voteType, { discussionId: discussion.id }, discussion.id)}
+            />
+            <DiscussionBadges discussion={discussion} />
+          </div>
+        </div>
 
-              {/* Replies */}
-              <div className="p-6">
-                <h3 className="mb-4">{selectedDiscussion.replies} Replies</h3>
-                <div className="space-y-4 mb-6">
-                  <ReplyItem
-                    avatar="💻"
-                    author="SmartDev"
-                    time="1 hour ago"
-                    content="You need to associate the token with your account first using the Token Associate transaction. Here's a code example..."
-                    upvotes={8}
-                  />
-                  <ReplyItem
-                    avatar="🎓"
-                    author="HelpfulMentor"
-                    time="45 minutes ago"
-                    content="Also make sure you have enough HBAR in your account to cover the transaction fee!"
-                    upvotes={3}
-                  />
-                </div>
+        {/* Replies */}
+        <div className="p-6">
+          <h3 className="mb-4">{discussion.reply_count} Replies</h3>
+          <div className="space-y-4 mb-6">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 text-[#0084C7] animate-spin" />
+              </div>
+            ) : replyTree.length === 0 ? (
+              <p className="text-gray-600">No replies yet. Be the first to help!</p>
+            ) : (
+              replyTree.map((reply) => (
+                <ReplyItem
+                  key={reply.id}
+                  reply={reply}
+                  userVotes={userVotes}
+                  canMarkSolution={canMarkSolution}
+                  canReply={!discussion.is_locked}
+                  onVote={(voteType, replyId) => onVote(voteType, { replyId }, discussion.id)}
+                  onToggleSolution={(replyId) => toggleSolution.mutate({ replyId, discussionId: discussion.id })}
+                  onReply={setReplyingTo}
+                />
+              ))
+            )}
+          </div>
 
-                {/* Reply Input */}
-                <div className="border-t border-gray-200 pt-6">
-                  <textarea
-                    value={replyText}
-                    onChange={(e) => setReplyText(e.target.value)}
-                    placeholder="Write your reply..."
-                    className="w-full px-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:shadow-[inset_0_2px_8px_rgba(0,132,199,0.15)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20 transition-all resize-none"
-                    rows={4}
-                  />
-                  <div className="flex justify-end mt-4">
-                    <Button className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white hover:from-[#0074b7] hover:to-[#0098d8] rounded-full px-6 shadow-[0_4px_16px_rgba(0,132,199,0.3),inset_-2px_-2px_8px_rgba(0,0,0,0.1),inset_2px_2px_8px_rgba(255,255,255,0.2)]">
-                      <Send className="w-4 h-4 mr-2" />
-                      Post Reply
-                    </Button>
-                  </div>
+          {/* Reply Input */}
+          {discussion.is_locked ? (
+            <div className="border-t border-gray-200 pt-6 flex items-center gap-2 text-gray-600">
+              <Lock className="w-4 h-4" />
+              <span>This discussion is locked. New replies are disabled.</span>
+            </div>
+          ) : (
+            <div className="border-t border-gray-200 pt-6">
+              {replyingTo && (
+                <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+                  <span className="flex items-center gap-1">
+                    <CornerDownRight className="w-4 h-4" />
+                    Replying to {replyingTo.author?.username || 'reply'}
+                  </span>
+                  <button onClick={() => setReplyingTo(null)} className="hover:text-[#0084C7]">
+                    Cancel
+                  </button>
                 </div>
+              )}
+              <textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                placeholder="Write your reply..."
+                className="w-full px-4 py-3 bg-gray-50 rounded-2xl border-0 shadow-[inset_0_2px_8px_rgba(0,0,0,0.06)] focus:shadow-[inset_0_2px_8px_rgba(0,132,199,0.15)] focus:outline-none focus:ring-2 focus:ring-[#0084C7]/20 transition-all resize-none"
+                rows={4}
+              />
+              <div className="flex justify-end mt-4">
+                <Button
+                  onClick={handlePostReply}
+                  disabled={!replyText.trim() || createReply.isPending}
+                  className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white hover:from-[#0074b7] hover:to-[#0098d8] rounded-full px-6 shadow-[0_4px_16px_rgba(0,132,199,0.3),inset_-2px_-2px_8px_rgba(0,0,0,0.1),inset_2px_2px_8px_rgba(255,255,255,0.2)]"
+                >
+                  {createReply.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 mr-2" />
+                  )}
+                  Post Reply
+                </Button>
               </div>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
     </div>
   );
 }
 
-function DiscussionCard({ 
-  discussion, 
-  onClick, 
-  isSelected 
-}: { 
-  discussion: Discussion; 
+function DiscussionCard({
+  discussion,
+  onClick,
+  isSelected
+}: {
+  discussion: DiscussionWithAuthor;
   onClick: () => void;
   isSelected: boolean;
 }) {
@@ -189,30 +488,36 @@ function DiscussionCard({
     <button
       onClick={onClick}
       className={`w-full text-left p-6 rounded-2xl transition-all ${
-        isSelected 
-          ? 'bg-[#0084C7]/5 shadow-[inset_0_2px_8px_rgba(0,132,199,0.15)]' 
+        isSelected
+          ? 'bg-[#0084C7]/5 shadow-[inset_0_2px_8px_rgba(0,132,199,0.15)]'
           : 'bg-gray-50 hover:bg-gray-100 shadow-[inset_0_2px_4px_rgba(0,0,0,0.05)]'
       }`}
     >
       <div className="flex items-start gap-4">
         <div className="w-10 h-10 bg-white rounded-full flex items-center justify-center flex-shrink-0 shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
-          <span className="text-xl">{discussion.authorAvatar}</span>
+          <span className="text-xl">{discussion.author?.avatar_emoji || '👤'}</span>
         </div>
         <div className="flex-1 min-w-0">
-          <h4 className="mb-1 line-clamp-2">{discussion.title}</h4>
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            {discussion.is_pinned && <Pin className="w-4 h-4 text-[#0084C7]" />}
+            <h4 className="line-clamp-2">{discussion.title}</h4>
+          </div>
           <p className="text-sm text-gray-600 mb-3 line-clamp-2">{discussion.content}</p>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <DiscussionBadges discussion={discussion} />
+          </div>
           <div className="flex items-center gap-4 text-sm text-gray-500">
-            <span>{discussion.author}</span>
+            <UsernameLink username={discussion.author?.username} />
             <span>•</span>
-            <span>{discussion.timestamp}</span>
+            <span>{timeAgo(discussion.last_activity_at)}</span>
             <span>•</span>
             <div className="flex items-center gap-1">
               <MessageSquare className="w-4 h-4" />
-              <span>{discussion.replies}</span>
+              <span>{discussion.reply_count}</span>
             </div>
             <div className="flex items-center gap-1">
               <ThumbsUp className="w-4 h-4" />
-              <span>{discussion.upvotes}</span>
+              <span>{discussion.upvote_count}</span>
             </div>
           </div>
         </div>
@@ -221,24 +526,145 @@ function DiscussionCard({
   );
 }
 
-function ReplyItem({ avatar, author, time, content, upvotes }: { avatar: string; author: string; time: string; content: string; upvotes: number }) {
+function DiscussionBadges({ discussion }: { discussion: DiscussionWithAuthor }) {
+  const categoryLabel = CATEGORY_FILTERS.find((c) => c.value === discussion.category)?.label;
+
   return (
-    <div className="flex gap-4">
-      <div className="w-10 h-10 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center flex-shrink-0 shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
-        <span className="text-xl">{avatar}</span>
-      </div>
-      <div className="flex-1">
-        <div className="flex items-center gap-2 mb-2">
-          <span className="text-gray-900">{author}</span>
-          <span className="text-sm text-gray-500">•</span>
-          <span className="text-sm text-gray-500">{time}</span>
+    <>
+      {categoryLabel && (
+        <span className="px-2 py-0.5 rounded-full text-xs bg-[#0084C7]/10 text-[#0084C7]">{categoryLabel}</span>
+      )}
+      {discussion.is_solved && (
+        <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700 flex items-center gap-1">
+          <CheckCircle2 className="w-3 h-3" />
+          Solved
+        </span>
+      )}
+      {discussion.is_locked && (
+        <span className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-700 flex items-center gap-1">
+          <Lock className="w-3 h-3" />
+          Locked
+        </span>
+      )}
+      {discussion.tags?.map((tag) => (
+        <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-200 text-gray-700">#{tag}</span>
+      ))}
+    </>
+  );
+}
+
+function VoteButtons({
+  score,
+  userVote,
+  onVote,
+}: {
+  score: number;
+  userVote: VoteType | undefined;
+  onVote: (voteType: VoteType) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      <button
+        onClick={() => onVote('upvote')}
+        className={`flex items-center gap-1 transition-colors ${
+          userVote === 'upvote' ? 'text-[#0084C7]' : 'hover:text-[#0084C7]'
+        }`}
+      >
+        <ThumbsUp className="w-4 h-4" />
+      </button>
+      <span>{score}</span>
+      <button
+        onClick={() => onVote('downvote')}
+        className={`flex items-center gap-1 transition-colors ${
+          userVote === 'downvote' ? 'text-red-500' : 'hover:text-red-500'
+        }`}
+      >
+        <ThumbsDown className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+function ReplyItem({
+  reply,
+  userVotes,
+  canMarkSolution,
+  canReply,
+  onVote,
+  onToggleSolution,
+  onReply,
+}: {
+  reply: ThreadedReply;
+  userVotes: UserVoteMap;
+  canMarkSolution: boolean;
+  canReply: boolean;
+  onVote: (voteType: VoteType, replyId: string) => void;
+  onToggleSolution: (replyId: string) => void;
+  onReply: (reply: ThreadedReply) => void;
+}) {
+  return (
+    <div>
+      <div className={`flex gap-4 ${reply.is_solution ? 'p-4 rounded-2xl bg-green-50 shadow-[inset_0_2px_8px_rgba(16,185,129,0.15)]' : ''}`}>
+        <div className="w-10 h-10 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center flex-shrink-0 shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
+          <span className="text-xl">{reply.author?.avatar_emoji || '👤'}</span>
+        </div>
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-2">
+            <UsernameLink username={reply.author?.username} className="text-gray-900" />
+            <span className="text-sm text-gray-500">•</span>
+            <span className="text-sm text-gray-500">{timeAgo(reply.created_at)}</span>
+            {reply.is_solution && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700 flex items-center gap-1">
+                <CheckCircle2 className="w-3 h-3" />
+                Solution
+              </span>
+            )}
+          </div>
+          <p className="text-gray-700 mb-3 whitespace-pre-wrap">{reply.content}</p>
+          <div className="flex items-center gap-4 text-sm text-gray-600">
+            <VoteButtons
+              score={reply.upvote_count}
+              userVote={userVotes[reply.id]}
+              onVote={(voteType) => onVote(voteType, reply.id)}
+            />
+            {canReply && (
+              <button
+                onClick={() => onReply(reply)}
+                className="flex items-center gap-1 hover:text-[#0084C7] transition-colors"
+              >
+                <CornerDownRight className="w-4 h-4" />
+                Reply
+              </button>
+            )}
+            {canMarkSolution && (
+              <button
+                onClick={() => onToggleSolution(reply.id)}
+                className="flex items-center gap-1 hover:text-green-600 transition-colors"
+              >
+                <CheckCircle2 className="w-4 h-4" />
+                {reply.is_solution ? 'Unmark solution' : 'Mark as solution'}
+              </button>
+            )}
+          </div>
         </div>
-        <p className="text-gray-700 mb-3">{content}</p>
-        <button className="flex items-center gap-2 text-sm text-gray-600 hover:text-[#0084C7] transition-colors">
-          <ThumbsUp className="w-4 h-4" />
-          <span>{upvotes}</span>
-        </button>
       </div>
+
+      {reply.children.length > 0 && (
+        <div className="ml-8 mt-4 pl-4 border-l-2 border-gray-100 space-y-4">
+          {reply.children.map((child) => (
+            <ReplyItem
+              key={child.id}
+              reply={child}
+              userVotes={userVotes}
+              canMarkSolution={canMarkSolution}
+              canReply={canReply}
+              onVote={onVote}
+              onToggleSolution={onToggleSolution}
+              onReply={onReply}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -252,15 +678,17 @@ function StatItem({ label, value }: { label: string; value: string }) {
   );
 }
 
-function ContributorItem({ avatar, name, answers }: { avatar: string; name: string; answers: number }) {
+function ContributorItem({ avatar, name, answers, solutions }: { avatar: string; name: string; answers: number; solutions: number }) {
   return (
     <div className="flex items-center gap-3">
       <div className="w-8 h-8 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
         <span>{avatar}</span>
       </div>
       <div className="flex-1">
-        <div className="text-sm text-gray-900">{name}</div>
-        <div className="text-xs text-gray-600">{answers} answers</div>
+        <UsernameLink username={name} className="block text-sm text-gray-900" />
+        <div className="text-xs text-gray-600">
+          {answers} answers{solutions > 0 ? ` • ${solutions} solutions` : ''}
+        </div>
       </div>
     </div>
   );
@@ -1,11 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { LessonViewer } from '../course/LessonViewer';
+import { CourseReviews } from '../course/CourseReviews';
+import { TutorDrawer } from '../course/TutorDrawer';
 import { Button } from '../ui/button';
 import { ArrowLeft, CheckCircle, Lock, Award } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
-import { useCompletedLessons, useCompleteLesson, useCourseProgress, useUpdateCurrentLesson } from '../../hooks/useLessonProgress';
+import {
+  useCompletedLessons,
+  useCompleteLesson,
+  useCourseProgress,
+  useStartLessonSession,
+  useUpdateCurrentLesson,
+} from '../../hooks/useLessonProgress';
 import { useLessons } from '../../hooks/useLessons';
+import { useQueueQuizMistakes } from '../../hooks/useReviewQueue';
 import { XPNotification } from '../XPNotification';
 import { LevelUpModal } from '../LevelUpModal';
 import { BadgeEarnedModal } from '../BadgeEarnedModal';
@@ -36,6 +45,8 @@ export function CourseViewer() {
   const { complete, isCompleting } = useCompleteLesson();
   const { progress: courseProgress } = useCourseProgress(user?.id, courseId || '');
   const { updateLesson } = useUpdateCurrentLesson();
+  const { startSession } = useStartLessonSession();
+  const queueQuizMistakes = useQueueQuizMistakes();
 
   // Local state for completed lessons (sync with database)
   const [completedLessons, setCompletedLessons] = useState<Set<string>>(new Set());
@@ -94,6 +105,11 @@ export function CourseViewer() {
     if (isInitialized && user?.id && course && courseProgress && lessons[currentLessonIndex]) {
       // Only update if user is actually enrolled (courseProgress exists)
       updateLesson(user.id, course.id, lessons[currentLessonIndex].id);
+
+      // Starts the server-side clock used for the minimum time-on-lesson check
+      if (!completedLessons.has(lessons[currentLessonIndex].id)) {
+        startSession(lessons[currentLessonIndex].id);
+      }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentLessonIndex, user?.id, course?.id, isInitialized]);
@@ -156,7 +172,7 @@ export function CourseViewer() {
   const progress = (completedLessons.size / lessons.length) * 100;
   const allCompleted = completedLessons.size === lessons.length;
 
-  const handleLessonComplete = async (score?: number) => {
+  const handleLessonComplete = async (_score?: number, answers?: (number | null)[]) => {
     if (!user?.id || !currentLesson) {
       toast.error('Please connect your wallet to save progress');
       return;
@@ -203,11 +219,11 @@ export function CourseViewer() {
       console.log('[CourseViewer] Starting lesson completion (background):', {
         lessonId: currentLesson.id,
         courseId: course.id,
-        score
       });
 
       // Save to database in background (don't block UI)
-      const result = await complete(user.id, currentLesson.id, course.id, score);
+      // Scores are re-graded on the server, so only quiz answers are sent
+      const result = await complete(user.id, currentLesson.id, course.id, answers);
 
       console.log('[CourseViewer] Completion result:', result);
 
@@ -492,15 +508,45 @@ export function CourseViewer() {
               <LessonViewer
                 lesson={currentLesson}
                 onComplete={handleLessonComplete}
+                onQuizAttempt={(answers) => {
+                  if (user?.id) {
+                    queueQuizMistakes.mutate({ userId: user.id, lessonId: currentLesson.id, answers });
+                  }
+                }}
                 isCompleted={completedLessons.has(currentLesson.id)}
                 isCompleting={isCompleting}
                 courseId={courseId}
               />
             )}
+
+            {/* Ratings & Reviews */}
+            <div className="mt-8">
+              <CourseReviews
+                courseId={course.id}
+                userId={user?.id}
+                averageRating={course.rating}
+                totalRatings={course.totalRatings}
+                progressPercentage={Math.round(progress)}
+              />
+            </div>
           </div>
         </div>
       </div>
 
+      {/* AI Tutor */}
+      <TutorDrawer
+        courseId={course.id}
+        courseTitle={course.title}
+        lesson={currentLesson}
+        userId={user?.id}
+        progress={{
+          completedLessons: completedLessons.size,
+          totalLessons: lessons.length,
+          currentLessonNumber: currentLessonIndex + 1,
+          currentLessonCompleted: completedLessons.has(currentLesson.id),
+        }}
+      />
+
       {/* XP Notification */}
       {xpNotification && (
         <XPNotification
@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { CourseCard } from '../CourseCard';
-import { Flame, TrendingUp, Award, BookOpen, Trophy, BarChart3, Activity, Star, Plus } from 'lucide-react';
+import { Flame, TrendingUp, Award, BookOpen, Trophy, BarChart3, Activity, Star, Plus, Brain } from 'lucide-react';
 import { useUserEnrollments, useCompletedCourses } from '../../hooks/useEnrollment';
 import { adaptCourseForComponent } from '../../lib/adapters/courseAdapter';
 import { useUserStats, useLeaderboardPosition } from '../../hooks/useStats';
+import { useReviewSummary } from '../../hooks/useReviewQueue';
 import { ActivityFeed } from '../dashboard/ActivityFeed';
 import { StreakCalendar } from '../dashboard/StreakCalendar';
 import { ProgressChart } from '../dashboard/ProgressChart';
 import { MyCourses } from '../dashboard/MyCourses';
+import { RecommendedCourses } from '../dashboard/RecommendedCourses';
 import { useWallet } from '../../contexts/WalletContext';
 
 export function Dashboard() {
@@ -21,6 +23,7 @@ export function Dashboard() {
   const { data: leaderboardPos } = useLeaderboardPosition(user?.id);
   const { enrollments: allEnrollments, isLoading: enrollmentsLoading } = useUserEnrollments(user?.id);
   const { enrollments: completed } = useCompletedCourses(user?.id);
+  const { data: reviewSummary } = useReviewSummary(user?.id);
 
   // Filter in-progress courses (not completed)
   const inProgress = allEnrollments.filter(e => !e.completed_at);
@@ -232,6 +235,36 @@ export function Dashboard() {
               />
             </div>
 
+            {/* Daily Review */}
+            {reviewSummary && reviewSummary.totalItems > 0 && (
+              <div className="mb-12 bg-white rounded-3xl p-6 shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)] flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="w-14 h-14 bg-gradient-to-br from-purple-100 to-purple-200 rounded-2xl flex items-center justify-center shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
+                  <Brain className="w-7 h-7 text-purple-600" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="mb-1">
+                    {reviewSummary.dueToday > 0
+                      ? `${reviewSummary.dueToday} ${reviewSummary.dueToday === 1 ? 'question' : 'questions'} to review today`
+                      : 'Review done for today'}
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    {reviewSummary.reviewedToday > 0
+                      ? `${reviewSummary.reviewedToday} reviewed today · `
+                      : ''}
+                    {reviewSummary.totalItems} in your review queue
+                  </p>
+                </div>
+                {reviewSummary.dueToday > 0 && (
+                  <button
+                    onClick={() => navigate('/review')}
+                    className="bg-gradient-to-r from-purple-500 to-purple-600 text-white px-6 py-3 rounded-full shadow-[0_4px_16px_rgba(147,51,234,0.3)] hover:shadow-[0_6px_24px_rgba(147,51,234,0.4)] transition-all"
+                  >
+                    Start Review
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Continue Learning */}
             <div className="mb-12">
               <div className="flex items-center gap-3 mb-6">
@@ -279,6 +312,9 @@ export function Dashboard() {
               )}
             </div>
 
+            {/* Recommended Next */}
+            <RecommendedCourses userId={user.id} />
+
             {/* Completed Courses */}
             {completed && completed.length > 0 && (
               <div className="mb-12">
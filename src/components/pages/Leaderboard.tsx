@@ -13,6 +13,7 @@
 import { useState, useEffect } from 'react';
 import { Trophy, TrendingUp, Flame, Medal, Users, Award, RefreshCw, Crown } from 'lucide-react';
 import { LeaderboardPodium } from '../LeaderboardPodium';
+import { UsernameLink } from '../profile/UsernameLink';
 import {
   getLeaderboard,
   getUserRank,
@@ -341,9 +342,10 @@ function LeaderboardRow({ entry, compact = false }: { entry: LeaderboardEntry; c
         {/* User Info */}
         <div className="flex-1">
           <div className="flex items-center gap-2">
-            <p className={`font-bold text-gray-900 ${compact ? 'text-sm' : 'text-base'}`}>
-              {entry.username}
-            </p>
+            <UsernameLink
+              username={entry.username}
+              className={`font-bold text-gray-900 ${compact ? 'text-sm' : 'text-base'}`}
+            />
             {entry.is_current_user && (
               <span className="px-2 py-0.5 bg-blue-600 text-white text-xs font-bold rounded-full">
                 YOU
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 import { Award, TrendingUp, Flame, Calendar, Edit2, Check, X, Eye, EyeOff, Wallet, BookOpen, Trophy, Target, Lock, Download, ChevronDown, ChevronUp, Mail } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
@@ -11,27 +11,21 @@ import { useUpdateUserProfile } from '../../hooks/useUser';
 import { ProgressChart } from '../dashboard/ProgressChart';
 import { StreakCalendar } from '../dashboard/StreakCalendar';
 import { CertificatesGallery } from '../profile/CertificatesGallery';
+import { BadgeNftClaim } from '../profile/BadgeNftClaim';
 import { CourseCompleteModal } from '../CourseCompleteModal';
 
+/**
+ * The signed-in learner's own, editable profile
+ * Other learners' profiles are rendered by PublicProfile.
+ */
 export function Profile() {
-  const { username: urlUsername } = useParams<{ username: string }>();
-  const navigate = useNavigate();
   const { user, refreshUser } = useWallet();
 
-  // Use URL username if provided, otherwise use current user
-  const isOwnProfile = !urlUsername || urlUsername === user?.username;
   const { data: stats, isLoading: statsLoading } = useUserStats(user?.id);
   const { enrollments: completedCourses, isLoading: coursesLoading } = useCompletedCourses(user?.id);
   const { data: allBadges, isLoading: badgesLoading } = useUserBadgesWithStatus(user?.id);
   const updateProfile = useUpdateUserProfile();
 
-  // Redirect to own profile if viewing someone else's profile (in useEffect to avoid render warning)
-  useEffect(() => {
-    if (user && !isOwnProfile) {
-      navigate(`/profile/${user.username}`, { replace: true });
-    }
-  }, [user, isOwnProfile, navigate]);
-
   if (!user) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe] py-12">
@@ -44,11 +38,6 @@ export function Profile() {
     );
   }
 
-  // If viewing someone else's profile, show loading while redirect happens
-  if (!isOwnProfile) {
-    return null;
-  }
-
   const [isEditingUsername, setIsEditingUsername] = useState(false);
   const [editedUsername, setEditedUsername] = useState(user.username || '');
   const [isEditingAvatar, setIsEditingAvatar] = useState(false);
@@ -147,6 +136,21 @@ export function Profile() {
     setIsEditingEmail(false);
   };
 
+  const handleTogglePublic = async () => {
+    const profilePublic = !user.profile_public;
+    const result = await updateProfile.mutateAsync({
+      userId: user.id,
+      updates: { profile_public: profilePublic }
+    });
+
+    if (result.success) {
+      toast.success(profilePublic ? 'Your profile is now public' : 'Your profile is now private');
+      if (refreshUser) refreshUser();
+    } else {
+      toast.error(result.error || 'Failed to update profile visibility');
+    }
+  };
+
   const earnedBadgesCount = allBadges?.filter(b => b.earned).length || 0;
   const lockedBadgesCount = allBadges?.filter(b => !b.earned).length || 0;
 
@@ -248,6 +252,24 @@ export function Profile() {
               {/* Member Since */}
               <p className="text-gray-600 mb-2">Member since {memberSince}</p>
 
+              {/* Profile Visibility */}
+              <div className="flex items-center justify-center md:justify-start gap-3 mb-2 text-sm">
+                <button
+                  onClick={handleTogglePublic}
+                  disabled={updateProfile.isPending}
+                  className="flex items-center gap-1 px-3 py-1 bg-[#0084C7]/10 text-[#0084C7] rounded-xl hover:bg-[#0084C7]/20 transition-colors disabled:opacity-50"
+                  title={user.profile_public ? 'Anyone can see your profile' : 'Only you can see your profile'}
+                >
+                  {user.profile_public ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                  {user.profile_public ? 'Public profile' : 'Private profile'}
+                </button>
+                {user.profile_public && (
+                  <Link to={`/profile/${user.username}?preview=public`} className="text-gray-500 hover:text-[#0084C7] underline">
+                    Preview
+                  </Link>
+                )}
+              </div>
+
               {/* Email with Edit */}
               <div className="flex items-center justify-center md:justify-start gap-2 mb-4">
                 {isEditingEmail ? (
@@ -519,7 +541,7 @@ export function Profile() {
   );
 }
 
-function StatBadge({ icon, label, value, color }: { icon: React.ReactNode; label: string; value: string; color: 'blue' | 'yellow' | 'orange' | 'purple' }) {
+export function StatBadge({ icon, label, value, color }: { icon: React.ReactNode; label: string; value: string; color: 'blue' | 'yellow' | 'orange' | 'purple' }) {
   const colorClasses = {
     blue: 'from-[#0084C7]/10 to-[#00a8e8]/20 text-[#0084C7]',
     yellow: 'from-yellow-100 to-yellow-200 text-yellow-600',
@@ -613,6 +635,14 @@ function BadgeCard({ badge, earned }: { badge: any; earned: boolean }) {
           <p className="text-xs text-center text-gray-500">
             {format(new Date(badge.earned_at), 'MMM d, yyyy')}
           </p>
+          <div className="flex justify-center mt-2">
+            <BadgeNftClaim
+              achievementId={badge.id}
+              tokenId={badge.nft_token_id}
+              serialNumber={badge.nft_serial_number}
+              status={badge.nft_status}
+            />
+          </div>
         </div>
       ) : !earned && (
         <div className="pt-2 md:pt-3 border-t border-gray-200">
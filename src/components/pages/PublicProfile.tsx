@@ -0,0 +1,277 @@
+import React from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Award, TrendingUp, Flame, Trophy, MapPin, ShieldCheck, UserX, Loader2, ExternalLink } from 'lucide-react';
+import { useWallet } from '../../contexts/WalletContext';
+import { usePublicProfile } from '../../hooks/useUser';
+import { Profile, StatBadge } from './Profile';
+
+const RARITY_STYLES: Record<string, string> = {
+  common: 'from-gray-50 to-gray-100 border-gray-200 text-gray-700',
+  rare: 'from-blue-50 to-blue-100 border-blue-200 text-blue-700',
+  epic: 'from-purple-50 to-purple-100 border-purple-200 text-purple-700',
+  legendary: 'from-amber-50 to-amber-100 border-amber-200 text-amber-700',
+};
+
+const SECTION_CLASS =
+  'bg-white rounded-3xl p-6 md:p-8 mb-6 md:mb-8 shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)]';
+
+/**
+ * /profile/:username
+ * Shows the learner's own editable Profile when the username is theirs,
+ * otherwise the read-only public view (guests included). ?preview=public
+ * lets learners see their own page the way others do.
+ */
+export function PublicProfile() {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user } = useWallet();
+
+  const isOwnProfile = !!user && user.username === username && searchParams.get('preview') !== 'public';
+  const { data: profile, isLoading } = usePublicProfile(username, !isOwnProfile);
+
+  if (isOwnProfile) {
+    return <Profile />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe]">
+        <Loader2 className="w-8 h-8 text-[#0084C7] animate-spin" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <ProfileMessage
+        icon={<UserX className="w-10 h-10 text-gray-400" />}
+        title="Learner not found"
+        message={`No one goes by "${username}" on Web3Versity.`}
+        onBack={() => navigate('/leaderboard')}
+      />
+    );
+  }
+
+  if (!profile.profile_public) {
+    return (
+      <ProfileMessage
+        icon={<span className="text-5xl">{profile.avatar_emoji || '👤'}</span>}
+        title={profile.username}
+        message="This learner keeps their profile private."
+        onBack={() => navigate('/leaderboard')}
+      />
+    );
+  }
+
+  const badges = profile.badges || [];
+  const completedCourses = profile.completed_courses || [];
+  const certificates = profile.certificates || [];
+  const memberSince = profile.created_at ? format(new Date(profile.created_at), 'MMMM yyyy') : 'Recently';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe] py-6 md:py-12">
+      <div className="container mx-auto px-4 max-w-6xl">
+        {/* Profile Header */}
+        <div className={SECTION_CLASS}>
+          <div className="flex flex-col md:flex-row items-center gap-8">
+            <div className="w-32 h-32 bg-gradient-to-br from-[#0084C7]/20 to-[#00a8e8]/20 rounded-full flex items-center justify-center shadow-[0_8px_32px_rgba(0,132,199,0.2),inset_-4px_-4px_16px_rgba(0,0,0,0.05),inset_4px_4px_16px_rgba(255,255,255,0.9)]">
+              <span className="text-6xl">{profile.avatar_emoji || '👤'}</span>
+            </div>
+
+            <div className="flex-1 text-center md:text-left">
+              <h1 className="mb-2">{profile.username}</h1>
+              <p className="text-gray-600 mb-2">Member since {memberSince}</p>
+              {profile.location && (
+                <p className="flex items-center justify-center md:justify-start gap-1 text-sm text-gray-600 mb-2">
+                  <MapPin className="w-4 h-4" />
+                  {profile.location}
+                </p>
+              )}
+              {profile.bio && <p className="text-gray-700 mb-4 max-w-2xl">{profile.bio}</p>}
+
+              <div className="flex flex-wrap gap-6 justify-center md:justify-start">
+                <StatBadge
+                  icon={<TrendingUp className="w-5 h-5" />}
+                  label="Level"
+                  value={(profile.current_level || 1).toString()}
+                  color="blue"
+                />
+                <StatBadge
+                  icon={<Award className="w-5 h-5" />}
+                  label="Total XP"
+                  value={(profile.total_xp || 0).toLocaleString()}
+                  color="yellow"
+                />
+                <StatBadge
+                  icon={<Flame className="w-5 h-5" />}
+                  label="Streak"
+                  value={`${profile.current_streak || 0} days`}
+                  color="orange"
+                />
+                <StatBadge
+                  icon={<Trophy className="w-5 h-5" />}
+                  label="Courses"
+                  value={completedCourses.length.toString()}
+                  color="purple"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Verified NFT Certificates */}
+        <div className={SECTION_CLASS}>
+          <SectionHeader
+            icon={<ShieldCheck className="w-6 h-6 text-orange-600" />}
+            iconBg="from-yellow-100 to-orange-200"
+            title="NFT Certificates"
+          />
+          {certificates.length === 0 ? (
+            <p className="text-gray-600">No certificates claimed yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {certificates.map((certificate) => (
+                <Link
+                  key={certificate.certificate_number}
+                  to={`/verify?cert=${encodeURIComponent(certificate.certificate_number)}`}
+                  className="block bg-gradient-to-br from-yellow-50 to-orange-50 rounded-2xl p-5 border-2 border-orange-100 hover:shadow-[0_8px_24px_rgba(0,0,0,0.12)] hover:-translate-y-1 transition-all"
+                >
+                  <h3 className="font-semibold text-gray-900 mb-1 line-clamp-2">
+                    {certificate.course_title || 'Course Certificate'}
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Issued {format(new Date(certificate.minted_at), 'MMM d, yyyy')}
+                  </p>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span className="font-mono">{certificate.certificate_number}</span>
+                    <span className="flex items-center gap-1 text-green-700">
+                      <ShieldCheck className="w-3 h-3" />
+                      Verify
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono mt-1">
+                    {certificate.token_id} #{certificate.serial_number}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Completed Courses */}
+        <div className={SECTION_CLASS}>
+          <SectionHeader
+            icon={<Trophy className="w-6 h-6 text-green-600" />}
+            iconBg="from-green-100 to-green-200"
+            title="Completed Courses"
+          />
+          {completedCourses.length === 0 ? (
+            <p className="text-gray-600">No courses completed yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {completedCourses.map((course) => (
+                <div
+                  key={course.id}
+                  className="flex items-center gap-4 bg-gray-50 rounded-2xl p-4 shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.03),inset_2px_2px_8px_rgba(255,255,255,0.9)]"
+                >
+                  <span className="text-3xl">{course.thumbnail_emoji}</span>
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-gray-900 line-clamp-1">{course.title}</h3>
+                    <p className="text-sm text-gray-600 capitalize">
+                      {course.difficulty} · {format(new Date(course.completed_at), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Badges */}
+        <div className={SECTION_CLASS}>
+          <SectionHeader
+            icon={<Award className="w-6 h-6 text-purple-600" />}
+            iconBg="from-purple-100 to-purple-200"
+            title="Badges"
+          />
+          {badges.length === 0 ? (
+            <p className="text-gray-600">No badges earned yet.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
+              {badges.map((badge) => (
+                <div
+                  key={badge.id}
+                  className={`bg-gradient-to-br ${RARITY_STYLES[badge.rarity] || RARITY_STYLES.common} border-2 rounded-2xl p-4 text-center`}
+                  title={badge.description}
+                >
+                  <div className="text-4xl mb-2">{badge.icon_emoji}</div>
+                  <h4 className="font-bold text-sm line-clamp-1">{badge.name}</h4>
+                  <p className="text-xs uppercase tracking-wide opacity-80">{badge.rarity}</p>
+                  <p className="text-xs text-gray-500 mt-2">{format(new Date(badge.earned_at), 'MMM d, yyyy')}</p>
+                  {badge.nft_token_id && badge.nft_serial_number && (
+                    <a
+                      href={`https://hashscan.io/testnet/token/${badge.nft_token_id}/${badge.nft_serial_number}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs font-semibold text-purple-700 hover:underline mt-1"
+                    >
+                      NFT #{badge.nft_serial_number}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SectionHeader({ icon, iconBg, title }: { icon: React.ReactNode; iconBg: string; title: string }) {
+  return (
+    <div className="flex items-center gap-3 mb-6">
+      <div
+        className={`w-12 h-12 bg-gradient-to-br ${iconBg} rounded-2xl flex items-center justify-center shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]`}
+      >
+        {icon}
+      </div>
+      <h2 className="text-2xl font-bold text-gray-900 mb-0">{title}</h2>
+    </div>
+  );
+}
+
+function ProfileMessage({
+  icon,
+  title,
+  message,
+  onBack,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  message: string;
+  onBack: () => void;
+}) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe] py-12">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <div className="bg-white rounded-3xl p-12 text-center shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
+          <div className="w-20 h-20 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-4 shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
+            {icon}
+          </div>
+          <h2 className="mb-2">{title}</h2>
+          <p className="text-gray-600 mb-6">{message}</p>
+          <button
+            onClick={onBack}
+            className="px-6 py-3 bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-full shadow-[0_4px_16px_rgba(0,132,199,0.3)]"
+          >
+            Back to Leaderboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Brain, CheckCircle, XCircle, Sparkles, Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useWallet } from '../../contexts/WalletContext';
+import {
+  useDueReviewItems,
+  useRecordReview,
+  useGenerateReviewVariants,
+} from '../../hooks/useReviewQueue';
+import { useIsAIEnabled } from '../../hooks/useAI';
+import { REVIEW_QUALITY, type ReviewItemWithContext } from '../../lib/api/review-queue';
+
+const RATING_BUTTONS = [
+  { label: 'Hard', quality: REVIEW_QUALITY.hard, className: 'bg-orange-50 text-orange-700 hover:bg-orange-100' },
+  { label: 'Good', quality: REVIEW_QUALITY.good, className: 'bg-green-50 text-green-700 hover:bg-green-100' },
+  { label: 'Easy', quality: REVIEW_QUALITY.easy, className: 'bg-blue-50 text-blue-700 hover:bg-blue-100' },
+];
+
+export function Review() {
+  const navigate = useNavigate();
+  const { user } = useWallet();
+  const aiEnabled = useIsAIEnabled();
+
+  const { data: dueItems, isLoading } = useDueReviewItems(user?.id);
+  const recordReview = useRecordReview();
+  const generateVariants = useGenerateReviewVariants();
+
+  // The session works from a snapshot so answered cards don't disappear mid-review
+  const [queue, setQueue] = useState<ReviewItemWithContext[] | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [checked, setChecked] = useState(false);
+  const [results, setResults] = useState({ correct: 0, missed: 0 });
+  const [variantParents, setVariantParents] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (dueItems && queue === null) {
+      setQueue(dueItems);
+    }
+  }, [dueItems, queue]);
+
+  if (isLoading || queue === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe]">
+        <Loader2 className="w-8 h-8 text-[#0084C7] animate-spin" />
+      </div>
+    );
+  }
+
+  const item = queue[currentIndex];
+  const isFinished = currentIndex >= queue.length;
+  const isCorrect = item && selectedAnswer === item.question.correctAnswer;
+
+  const handleCheck = () => {
+    if (selectedAnswer === null) return;
+    setChecked(true);
+    setResults((prev) => (isCorrect ? { ...prev, correct: prev.correct + 1 } : { ...prev, missed: prev.missed + 1 }));
+  };
+
+  const handleRate = (quality: number) => {
+    if (!user?.id || !item) return;
+    recordReview.mutate({ userId: user.id, itemId: item.id, quality });
+    setCurrentIndex(currentIndex + 1);
+    setSelectedAnswer(null);
+    setChecked(false);
+  };
+
+  const handleGenerateVariants = async () => {
+    if (!user?.id || !item) return;
+    try {
+      const variants = await generateVariants.mutateAsync({ userId: user.id, item });
+      setVariantParents((prev) => new Set(prev).add(item.id));
+      // Practice the new questions at the end of this session
+      setQueue((prev) => [
+        ...(prev || []),
+        ...variants.map((variant) => ({ ...variant, lesson: item.lesson, course: item.course })),
+      ]);
+    } catch {
+      // Error toast is shown by the mutation hook
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#f0f9ff] via-[#e0f2fe] to-[#dbeafe] py-12">
+      <div className="container mx-auto px-4 max-w-3xl">
+        <Button
+          onClick={() => navigate('/dashboard')}
+          className="mb-6 bg-white text-[#0084C7] hover:bg-gray-50 rounded-full px-6 shadow-[0_4px_16px_rgba(0,0,0,0.08),inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Dashboard
+        </Button>
+
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-12 h-12 bg-gradient-to-br from-purple-100 to-purple-200 rounded-2xl flex items-center justify-center shadow-[inset_-2px_-2px_8px_rgba(0,0,0,0.05),inset_2px_2px_8px_rgba(255,255,255,0.9)]">
+            <Brain className="w-6 h-6 text-purple-600" />
+          </div>
+          <div>
+            <h1 className="mb-0">Daily Review</h1>
+            <p className="text-gray-600">Questions you missed come back until they stick</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-3xl p-8 shadow-[0_8px_32px_rgba(0,0,0,0.08),inset_0_1px_0_rgba(255,255,255,0.9)]">
+          {queue.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="text-5xl mb-4">🎉</div>
+              <h2 className="mb-2">All caught up!</h2>
+              <p className="text-gray-600 mb-6">
+                Nothing to review today. Questions you miss in quizzes will show up here.
+              </p>
+              <Button
+                onClick={() => navigate('/courses')}
+                className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-full px-8 shadow-[0_4px_16px_rgba(0,132,199,0.3)]"
+              >
+                Browse Courses
+              </Button>
+            </div>
+          ) : isFinished ? (
+            <div className="text-center py-8">
+              <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+              <h2 className="mb-2">Review complete</h2>
+              <p className="text-gray-600 mb-6">
+                {results.correct} remembered · {results.missed} to practice again tomorrow
+              </p>
+              <Button
+                onClick={() => navigate('/dashboard')}
+                className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white rounded-full px-8 shadow-[0_4px_16px_rgba(0,132,199,0.3)]"
+              >
+                Back to Dashboard
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Progress */}
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  {item.course?.thumbnail_emoji} {item.course?.title} · {item.lesson?.title}
+                </span>
+                <span>
+                  {currentIndex + 1} / {queue.length}
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden shadow-[inset_0_2px_4px_rgba(0,0,0,0.1)]">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-400 to-purple-500 rounded-full transition-all duration-500"
+                  style={{ width: `${(currentIndex / queue.length) * 100}%` }}
+                />
+              </div>
+
+              {/* Question */}
+              <div className="bg-gradient-to-br from-[#0084C7]/5 to-[#00a8e8]/10 rounded-3xl p-6 shadow-[inset_0_2px_8px_rgba(0,132,199,0.1)]">
+                {item.source === 'ai_variant' && (
+                  <span className="inline-flex items-center gap-1 text-xs text-purple-700 bg-purple-100 rounded-full px-2 py-0.5 mb-3">
+                    <Sparkles className="w-3 h-3" />
+                    Practice variation
+                  </span>
+                )}
+                <h3 className="text-xl mb-5">{item.question.question}</h3>
+                <div className="space-y-3">
+                  {item.question.options.map((option, index) => {
+                    const isSelected = selectedAnswer === index;
+                    const isThisCorrect = index === item.question.correctAnswer;
+
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => !checked && setSelectedAnswer(index)}
+                        disabled={checked}
+                        className={`w-full text-left p-4 rounded-2xl transition-all flex items-center gap-3 ${
+                          checked
+                            ? isThisCorrect
+                              ? 'bg-green-100 border-2 border-green-500'
+                              : isSelected
+                              ? 'bg-red-100 border-2 border-red-500'
+                              : 'bg-gray-50'
+                            : isSelected
+                            ? 'bg-[#0084C7]/10 border-2 border-[#0084C7]'
+                            : 'bg-white hover:bg-gray-50 shadow-[0_4px_16px_rgba(0,0,0,0.06)]'
+                        }`}
+                      >
+                        {checked && isThisCorrect && <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />}
+                        {checked && !isThisCorrect && isSelected && <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />}
+                        {!checked && <span className="text-gray-500 w-5">{String.fromCharCode(65 + index)}</span>}
+                        <span className="text-gray-800">{option}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Explanation */}
+              {checked && (
+                <div className={`rounded-3xl p-5 ${isCorrect ? 'bg-green-50' : 'bg-orange-50'}`}>
+                  <h4 className={`mb-1 ${isCorrect ? 'text-green-900' : 'text-orange-900'}`}>
+                    {isCorrect ? 'Correct!' : 'Not quite right'}
+                  </h4>
+                  <p className={isCorrect ? 'text-green-800' : 'text-orange-800'}>{item.question.explanation}</p>
+                </div>
+              )}
+
+              {/* Actions */}
+              {!checked ? (
+                <Button
+                  onClick={handleCheck}
+                  disabled={selectedAnswer === null}
+                  className="w-full py-6 rounded-2xl bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white disabled:from-gray-200 disabled:to-gray-200 disabled:text-gray-500"
+                >
+                  Check Answer
+                </Button>
+              ) : isCorrect ? (
+                <div>
+                  <p className="text-sm text-gray-600 mb-2 text-center">How hard was that to remember?</p>
+                  <div className="grid grid-cols-3 gap-3">
+                    {RATING_BUTTONS.map((button) => (
+                      <button
+                        key={button.label}
+                        onClick={() => handleRate(button.quality)}
+                        className={`py-3 rounded-2xl transition-colors ${button.className}`}
+                      >
+                        {button.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-col sm:flex-row gap-3">
+                  {aiEnabled && item.source === 'quiz' && !variantParents.has(item.id) && (
+                    <Button
+                      onClick={handleGenerateVariants}
+                      disabled={generateVariants.isPending}
+                      className="flex-1 py-6 rounded-2xl bg-purple-50 text-purple-700 hover:bg-purple-100"
+                    >
+                      {generateVariants.isPending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Sparkles className="w-4 h-4 mr-2" />
+                      )}
+                      Practice a variation
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => handleRate(REVIEW_QUALITY.forgot)}
+                    disabled={generateVariants.isPending}
+                    className="flex-1 py-6 rounded-2xl bg-gradient-to-r from-[#0084C7] to-[#00a8e8] text-white"
+                  >
+                    Continue
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
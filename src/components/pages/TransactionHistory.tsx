@@ -2,36 +2,49 @@
  * Transaction History Page
  *
  * Displays user's blockchain transaction history with filtering and search capabilities.
- * Shows all HBAR transactions sent/received by the user.
+ * Shows faucet drips, practice transfers, NFT mints and other on-chain actions,
+ * settles pending rows from the mirror node and exports the list as CSV.
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useWallet } from '../../contexts/WalletContext';
-import { getTransactionHistory, formatTransactionId, TransactionHistoryItem } from '../../lib/hedera/transactions';
-import { useQuery } from '@tanstack/react-query';
+import {
+  formatTransactionId,
+  transactionsToCsv,
+  TransactionHistoryItem,
+  TRANSACTION_TYPE_LABELS,
+} from '../../lib/hedera/transactions';
+import { useTransactionHistory, useTransactionReconciliation } from '../../hooks/useTransactions';
+import type { TransactionStatus, TransactionType } from '../../lib/supabase/types';
 import { Button } from '../ui/button';
-import { ExternalLink, Search, Filter, ArrowUpRight, ArrowDownLeft, Clock, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { ExternalLink, Search, Download, ArrowUpRight, ArrowDownLeft, Clock, CheckCircle, XCircle, Loader2 } from 'lucide-react';
 import { TransactionDetailsModal } from '../TransactionDetailsModal';
 
-type TransactionType = 'all' | 'send' | 'receive' | 'faucet';
-type StatusFilter = 'all' | 'success' | 'failed' | 'pending';
+type TypeFilter = 'all' | TransactionType;
+type StatusFilter = 'all' | TransactionStatus;
 
 export function TransactionHistory() {
-  const { user, accountId } = useWallet();
+  const { user, account, accountId } = useWallet();
   const [searchQuery, setSearchQuery] = useState('');
-  const [typeFilter, setTypeFilter] = useState<TransactionType>('all');
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
   const [selectedTransaction, setSelectedTransaction] = useState<TransactionHistoryItem | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
 
   // Fetch transaction history
-  const { data: transactions = [], isLoading, error } = useQuery({
-    queryKey: ['transactionHistory', user?.id],
-    queryFn: () => getTransactionHistory(user?.id || '', 100),
-    enabled: !!user?.id,
-    refetchInterval: 30000, // Refresh every 30 seconds
-  });
+  const { data: transactions = [], isLoading, error } = useTransactionHistory(user?.id);
+
+  // Settle pending transactions and confirm results with the mirror node
+  useTransactionReconciliation(user?.id, transactions);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery, typeFilter, statusFilter, dateFrom, dateTo]);
 
   // Filter and search transactions
   const filteredTransactions = useMemo(() => {
@@ -39,21 +52,18 @@ export function TransactionHistory() {
 
     // Search filter
     if (searchQuery) {
+      const query = searchQuery.toLowerCase();
       filtered = filtered.filter(tx =>
-        tx.transaction_id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        tx.from_account.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        tx.to_account.toLowerCase().includes(searchQuery.toLowerCase())
+        tx.transaction_id.toLowerCase().includes(query) ||
+        tx.from_account.toLowerCase().includes(query) ||
+        tx.to_account.toLowerCase().includes(query) ||
+        (tx.course_title || '').toLowerCase().includes(query)
       );
     }
 
     // Type filter
     if (typeFilter !== 'all') {
-      filtered = filtered.filter(tx => {
-        if (typeFilter === 'send') return tx.from_account === accountId;
-        if (typeFilter === 'receive') return tx.to_account === accountId;
-        if (typeFilter === 'faucet') return tx.memo?.includes('faucet');
-        return true;
-      });
+      filtered = filtered.filter(tx => tx.transaction_type === typeFilter);
     }
 
     // Status filter
@@ -61,8 +71,18 @@ export function TransactionHistory() {
       filtered = filtered.filter(tx => tx.status === statusFilter);
     }
 
+    // Date range filter (inclusive, local days)
+    if (dateFrom) {
+      const from = new Date(`${dateFrom}T00:00:00`);
+      filtered = filtered.filter(tx => new Date(tx.created_at) >= from);
+    }
+    if (dateTo) {
+      const to = new Date(`${dateTo}T23:59:59.999`);
+      filtered = filtered.filter(tx => new Date(tx.created_at) <= to);
+    }
+
     return filtered;
-  }, [transactions, searchQuery, typeFilter, statusFilter, accountId]);
+  }, [transactions, searchQuery, typeFilter, statusFilter, dateFrom, dateTo]);
 
   // Pagination
   const totalPages = Math.ceil(filteredTransactions.length / itemsPerPage);
@@ -71,8 +91,22 @@ export function TransactionHistory() {
     currentPage * itemsPerPage
   );
 
+  const ownAccounts = [account, accountId].filter(Boolean).map(a => a!.toLowerCase());
+
   const getTransactionType = (tx: TransactionHistoryItem): 'send' | 'receive' => {
-    return tx.from_account === accountId ? 'send' : 'receive';
+    return ownAccounts.includes(tx.from_account.toLowerCase()) ? 'send' : 'receive';
+  };
+
+  const handleExportCsv = () => {
+    const blob = new Blob([transactionsToCsv(filteredTransactions)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `web3versity-transactions-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   const getStatusIcon = (status: string) => {
@@ -117,7 +151,7 @@ export function TransactionHistory() {
         {/* Header */}
         <div className="bg-gradient-to-r from-[#0084C7] to-[#00a8e8] rounded-3xl p-8 mb-8 text-white shadow-[0_8px_32px_rgba(0,132,199,0.3)]">
           <h1 className="text-3xl font-bold mb-2">Transaction History</h1>
-          <p className="text-white/90">View all your blockchain transactions on Hedera Testnet</p>
+          <p className="text-white/90">Faucet drips, practice transfers, NFT mints and more on Hedera Testnet</p>
         </div>
 
         {/* Filters and Search */}
@@ -141,13 +175,13 @@ export function TransactionHistory() {
             <div>
               <select
                 value={typeFilter}
-                onChange={(e) => setTypeFilter(e.target.value as TransactionType)}
+                onChange={(e) => setTypeFilter(e.target.value as TypeFilter)}
                 className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-[#0084C7] focus:outline-none transition-colors"
               >
                 <option value="all">All Types</option>
-                <option value="send">Sent</option>
-                <option value="receive">Received</option>
-                <option value="faucet">Faucet</option>
+                {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map(type => (
+                  <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>
+                ))}
               </select>
             </div>
 
@@ -166,6 +200,48 @@ export function TransactionHistory() {
             </div>
           </div>
 
+          {/* Date Range + Export */}
+          <div className="mt-4 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <label htmlFor="tx-date-from">From</label>
+              <input
+                id="tx-date-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-[#0084C7] focus:outline-none transition-colors"
+              />
+              <label htmlFor="tx-date-to">To</label>
+              <input
+                id="tx-date-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-[#0084C7] focus:outline-none transition-colors"
+              />
+              {(dateFrom || dateTo) && (
+                <button
+                  onClick={() => { setDateFrom(''); setDateTo(''); }}
+                  className="text-[#0084C7] hover:underline"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+
+            <Button
+              onClick={handleExportCsv}
+              disabled={filteredTransactions.length === 0}
+              variant="outline"
+              className="rounded-full md:ml-auto"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+
           {/* Results count */}
           <div className="mt-4 text-sm text-gray-600">
             Showing {paginatedTransactions.length} of {filteredTransactions.length} transactions
@@ -198,6 +274,7 @@ export function TransactionHistory() {
                       <th className="text-left py-3 px-4 font-semibold text-gray-700">Type</th>
                       <th className="text-right py-3 px-4 font-semibold text-gray-700">Amount</th>
                       <th className="text-left py-3 px-4 font-semibold text-gray-700">From/To</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Course</th>
                       <th className="text-center py-3 px-4 font-semibold text-gray-700">Status</th>
                       <th className="text-left py-3 px-4 font-semibold text-gray-700">Transaction ID</th>
                       <th className="text-center py-3 px-4 font-semibold text-gray-700">Actions</th>
@@ -223,7 +300,7 @@ export function TransactionHistory() {
                                 <ArrowDownLeft className="w-4 h-4 text-green-500" />
                               )}
                               <span className={`text-sm font-medium ${type === 'send' ? 'text-red-600' : 'text-green-600'}`}>
-                                {type === 'send' ? 'Send' : 'Receive'}
+                                {TRANSACTION_TYPE_LABELS[tx.transaction_type] || (type === 'send' ? 'Send' : 'Receive')}
                               </span>
                             </div>
                           </td>
@@ -235,6 +312,19 @@ export function TransactionHistory() {
                               {type === 'send' ? tx.to_account : tx.from_account}
                             </span>
                           </td>
+                          <td className="py-4 px-4">
+                            {tx.related_course_id ? (
+                              <Link
+                                to={`/courses/${tx.related_course_id}`}
+                                onClick={(e) => e.stopPropagation()}
+                                className="text-sm text-[#0084C7] hover:underline"
+                              >
+                                {tx.course_title || tx.related_course_id}
+                              </Link>
+                            ) : (
+                              <span className="text-sm text-gray-400">—</span>
+                            )}
+                          </td>
                           <td className="py-4 px-4">
                             <div className="flex items-center justify-center gap-2">
                               {getStatusIcon(tx.status)}
@@ -284,7 +374,7 @@ export function TransactionHistory() {
                             <ArrowDownLeft className="w-4 h-4 text-green-500" />
                           )}
                           <span className={`font-medium ${type === 'send' ? 'text-red-600' : 'text-green-600'}`}>
-                            {type === 'send' ? 'Send' : 'Receive'}
+                            {TRANSACTION_TYPE_LABELS[tx.transaction_type] || (type === 'send' ? 'Send' : 'Receive')}
                           </span>
                         </div>
                         <span className={`font-bold ${type === 'send' ? 'text-red-600' : 'text-green-600'}`}>
@@ -297,6 +387,15 @@ export function TransactionHistory() {
                           {type === 'send' ? 'To: ' : 'From: '}
                           {type === 'send' ? tx.to_account : tx.from_account}
                         </div>
+                        {tx.related_course_id && (
+                          <Link
+                            to={`/courses/${tx.related_course_id}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="block text-[#0084C7] hover:underline"
+                          >
+                            {tx.course_title || tx.related_course_id}
+                          </Link>
+                        )}
                         <div className="flex items-center gap-2">
                           {getStatusIcon(tx.status)}
                           <span className="capitalize">{tx.status}</span>
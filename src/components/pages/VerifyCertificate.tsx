@@ -10,11 +10,63 @@
  * - Student and course details
  * - Blockchain verification status
  * - Platform signature validation
+ * - Revoked/superseded status and the certificate's history, backed by
+ *   signed attestations on HCS
+ *
+ * Batch mode verifies a CSV of certificates at once (see BatchVerification).
  */
 
-import { useState } from 'react';
-import { Shield, CheckCircle, XCircle, ExternalLink, Award, User, Calendar, Hash, AlertTriangle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Shield, CheckCircle, XCircle, ExternalLink, Award, User, Calendar, Hash, AlertTriangle, Ban, RefreshCw, History } from 'lucide-react';
 import { fetchCertificateSVG, fetchCertificateSVGFromIPFS, getCertificateByNumber } from '../../lib/api/certificates';
+import { BatchVerification } from '../verify/BatchVerification';
+
+interface AttestationLink {
+  topicId: string;
+  sequenceNumber: number;
+  hashScanUrl: string;
+}
+
+interface CertificateLifecycle {
+  status: 'active' | 'revoked' | 'superseded';
+  reason?: string;
+  revokedAt?: string;
+  supersededBy?: {
+    certificateNumber: string;
+    serialNumber: number;
+  };
+  attestation?: AttestationLink & {
+    found: boolean;
+    signatureValid: boolean;
+    signedByPlatform: boolean;
+  } | null;
+}
+
+interface CertificateHistoryEntry {
+  type: 'issued' | 'revoked' | 'reissued';
+  certificateNumber: string;
+  serialNumber: number;
+  at: string;
+  current?: boolean;
+  reason?: string;
+  replacement?: string;
+  attestation?: AttestationLink;
+}
+
+const HISTORY_LABELS: Record<CertificateHistoryEntry['type'], string> = {
+  issued: 'Issued',
+  revoked: 'Revoked',
+  reissued: 'Reissued',
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
 
 interface VerificationResult {
   valid: boolean;
@@ -49,12 +101,16 @@ interface VerificationResult {
     modifiedTimestamp: string;
   };
   metadata?: any;
+  lifecycle?: CertificateLifecycle;
+  history?: CertificateHistoryEntry[];
   hashScanUrl?: string;
   error?: string;
 }
 
 export default function VerifyCertificate() {
-  const [certificateNumber, setCertificateNumber] = useState('');
+  const [searchParams] = useSearchParams();
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [certificateNumber, setCertificateNumber] = useState(searchParams.get('cert') || '');
   const [verifying, setVerifying] = useState(false);
   const [result, setResult] = useState<VerificationResult | null>(null);
   const [svgImage, setSvgImage] = useState<string | null>(null);
@@ -150,8 +206,8 @@ export default function VerifyCertificate() {
       const data = await response.json();
       setResult(data);
 
-      // If valid, fetch SVG image with fallback strategy
-      if (data.valid) {
+      // Revoked and superseded certificates are still shown, marked as such
+      if (data.certificate) {
         await fetchCertificateImage(
           numToVerify,
           data.certificate?.imageHfsFileId,
@@ -169,6 +225,17 @@ export default function VerifyCertificate() {
     }
   };
 
+  // Links from public profiles pass ?cert=W3V-YYYY-NNNNN
+  useEffect(() => {
+    const linkedCertificate = searchParams.get('cert');
+    if (linkedCertificate) {
+      setMode('single');
+      setCertificateNumber(linkedCertificate);
+      handleVerify(linkedCertificate);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams]);
+
   const downloadCertificate = () => {
     if (!svgImage || !result?.certificate) return;
 
@@ -197,48 +264,113 @@ export default function VerifyCertificate() {
           </p>
         </div>
 
-        {/* Verification Input */}
-        <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Certificate Number
-          </label>
-          <div className="flex gap-3">
-            <input
-              type="text"
-              value={certificateNumber}
-              onChange={(e) => setCertificateNumber(e.target.value)}
-              placeholder="W3V-2025-00001"
-              className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              onKeyDown={(e) => e.key === 'Enter' && handleVerify()}
-            />
-            <button
-              onClick={() => handleVerify()}
-              disabled={verifying || !certificateNumber.trim()}
-              className="px-8 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-all disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2"
-            >
-              {verifying ? (
-                <>
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  Verifying...
-                </>
-              ) : (
-                <>
-                  <Shield className="w-5 h-5" />
-                  Verify
-                </>
-              )}
-            </button>
+        {/* Mode */}
+        <div className="flex justify-center mb-8">
+          <div className="bg-white rounded-2xl p-2 shadow-sm inline-flex gap-2">
+            {(['single', 'batch'] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`px-6 py-2.5 rounded-xl font-medium transition-all ${
+                  mode === value ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                {value === 'single' ? 'Single Certificate' : 'Batch (CSV)'}
+              </button>
+            ))}
           </div>
-          <p className="mt-2 text-sm text-gray-500">
-            Enter the certificate number (e.g., W3V-2025-00001) to verify its authenticity
-          </p>
         </div>
 
+        {mode === 'batch' && <BatchVerification />}
+
+        {/* Verification Input */}
+        {mode === 'single' && (
+          <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Certificate Number
+            </label>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={certificateNumber}
+                onChange={(e) => setCertificateNumber(e.target.value)}
+                placeholder="W3V-2025-00001"
+                className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                onKeyDown={(e) => e.key === 'Enter' && handleVerify()}
+              />
+              <button
+                onClick={() => handleVerify()}
+                disabled={verifying || !certificateNumber.trim()}
+                className="px-8 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-all disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {verifying ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  <>
+                    <Shield className="w-5 h-5" />
+                    Verify
+                  </>
+                )}
+              </button>
+            </div>
+            <p className="mt-2 text-sm text-gray-500">
+              Enter the certificate number (e.g., W3V-2025-00001) to verify its authenticity
+            </p>
+          </div>
+        )}
+
         {/* Verification Result */}
-        {result && (
+        {mode === 'single' && result && (
           <div className="space-y-6">
             {/* Status Banner */}
-            {result.valid ? (
+            {result.lifecycle?.status === 'revoked' ? (
+              <div className="bg-gradient-to-r from-red-50 to-orange-50 rounded-2xl p-6 border-2 border-red-200">
+                <div className="flex items-center gap-3">
+                  <Ban className="w-8 h-8 text-red-600" />
+                  <div>
+                    <h2 className="text-2xl font-bold text-red-900">Certificate Revoked</h2>
+                    <p className="text-red-700">
+                      This certificate was issued by Web3Versity but is no longer valid
+                      {result.lifecycle.revokedAt && ` (revoked ${formatDate(result.lifecycle.revokedAt)})`}
+                    </p>
+                  </div>
+                </div>
+                {result.lifecycle.reason && (
+                  <p className="mt-4 text-red-800">
+                    <span className="font-semibold">Reason:</span> {result.lifecycle.reason}
+                  </p>
+                )}
+                <AttestationStatus attestation={result.lifecycle.attestation} />
+              </div>
+            ) : result.lifecycle?.status === 'superseded' ? (
+              <div className="bg-gradient-to-r from-amber-50 to-yellow-50 rounded-2xl p-6 border-2 border-amber-200">
+                <div className="flex items-center gap-3">
+                  <RefreshCw className="w-8 h-8 text-amber-600" />
+                  <div>
+                    <h2 className="text-2xl font-bold text-amber-900">Certificate Superseded</h2>
+                    <p className="text-amber-700">This certificate has been reissued and replaced by a newer one</p>
+                  </div>
+                </div>
+                {result.lifecycle.reason && (
+                  <p className="mt-4 text-amber-800">
+                    <span className="font-semibold">Reason:</span> {result.lifecycle.reason}
+                  </p>
+                )}
+                {result.lifecycle.supersededBy && (
+                  <Link
+                    to={`/verify?cert=${result.lifecycle.supersededBy.certificateNumber}`}
+                    className="mt-4 inline-flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-all"
+                  >
+                    <Shield className="w-4 h-4" />
+                    Verify {result.lifecycle.supersededBy.certificateNumber} (serial #{result.lifecycle.supersededBy.serialNumber})
+                  </Link>
+                )}
+                <AttestationStatus attestation={result.lifecycle.attestation} />
+              </div>
+            ) : result.valid ? (
               <div className="bg-gradient-to-r from-green-50 to-emerald-50 rounded-2xl p-6 border-2 border-green-200">
                 <div className="flex items-center gap-3 mb-4">
                   <CheckCircle className="w-8 h-8 text-green-600" />
@@ -278,7 +410,7 @@ export default function VerifyCertificate() {
             )}
 
             {/* Certificate Details */}
-            {result.valid && result.certificate && (
+            {result.certificate && (
               <>
                 {/* SVG Image */}
                 {svgImage && (
@@ -300,9 +432,11 @@ export default function VerifyCertificate() {
                         Download SVG
                       </button>
                     </div>
-                    <div
-                      className="border-4 border-gray-200 rounded-xl overflow-hidden"
-                      dangerouslySetInnerHTML={{ __html: svgImage }}
+                    {/* Rendered as an image so nothing in the SVG can run */}
+                    <img
+                      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgImage)}`}
+                      alt={`Certificate ${result.certificate.certificateNumber}`}
+                      className="w-full border-4 border-gray-200 rounded-xl"
                     />
                   </div>
                 )}
@@ -357,13 +491,7 @@ export default function VerifyCertificate() {
                         <span className="text-sm font-medium">Completion Date</span>
                       </div>
                       <p className="text-lg font-semibold text-gray-900">
-                        {result.completionDate
-                          ? new Date(result.completionDate).toLocaleDateString('en-US', {
-                              year: 'numeric',
-                              month: 'long',
-                              day: 'numeric',
-                            })
-                          : 'N/A'}
+                        {result.completionDate ? formatDate(result.completionDate) : 'N/A'}
                       </p>
                     </div>
 
@@ -412,13 +540,64 @@ export default function VerifyCertificate() {
                     </a>
                   )}
                 </div>
+
+                {/* History */}
+                {result.history && result.history.length > 1 && (
+                  <div className="bg-white rounded-2xl shadow-xl p-8">
+                    <h3 className="text-xl font-bold text-gray-900 mb-6 flex items-center gap-2">
+                      <History className="w-5 h-5" />
+                      Certificate History
+                    </h3>
+                    <ol className="space-y-4 border-l-2 border-gray-200 ml-2">
+                      {result.history.map((entry, index) => (
+                        <li key={index} className="pl-6 relative">
+                          <span
+                            className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ${
+                              entry.type === 'revoked'
+                                ? 'bg-red-500'
+                                : entry.type === 'reissued'
+                                ? 'bg-amber-500'
+                                : 'bg-blue-500'
+                            }`}
+                          />
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="font-semibold text-gray-900">{HISTORY_LABELS[entry.type]}</span>
+                            <Link
+                              to={`/verify?cert=${entry.certificateNumber}`}
+                              className={`font-mono ${entry.current ? 'text-gray-900' : 'text-blue-600 hover:underline'}`}
+                            >
+                              {entry.certificateNumber}
+                            </Link>
+                            <span className="text-gray-500">serial #{entry.serialNumber}</span>
+                            <span className="text-gray-500">· {formatDate(entry.at)}</span>
+                          </div>
+                          {entry.reason && <p className="text-sm text-gray-700 mt-1">{entry.reason}</p>}
+                          {entry.replacement && (
+                            <p className="text-sm text-gray-500 mt-1">Replaced by {entry.replacement}</p>
+                          )}
+                          {entry.attestation && (
+                            <a
+                              href={entry.attestation.hashScanUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-600 hover:underline inline-flex items-center gap-1 mt-1"
+                            >
+                              HCS attestation {entry.attestation.topicId} #{entry.attestation.sequenceNumber}
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
               </>
             )}
           </div>
         )}
 
         {/* Info Box */}
-        {!result && (
+        {mode === 'single' && !result && (
           <div className="bg-blue-50 rounded-xl p-6 border border-blue-200">
             <h3 className="font-semibold text-blue-900 mb-2">How to Verify</h3>
             <ul className="text-sm text-blue-800 space-y-1">
@@ -426,6 +605,7 @@ export default function VerifyCertificate() {
               <li>• Click "Verify" to check the Hedera blockchain</li>
               <li>• View the certificate SVG image and details</li>
               <li>• Confirmation includes blockchain verification and platform signature validation</li>
+              <li>• Verifying several candidates? Switch to batch mode and upload a CSV</li>
             </ul>
           </div>
         )}
@@ -433,3 +613,38 @@ export default function VerifyCertificate() {
     </div>
   );
 }
+
+/**
+ * Whether the status change is backed by a platform-signed HCS message
+ */
+function AttestationStatus({ attestation }: { attestation?: CertificateLifecycle['attestation'] }) {
+  if (!attestation) return null;
+
+  const verified = attestation.signatureValid && attestation.signedByPlatform;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+      {verified ? (
+        <CheckCircle className="w-4 h-4 text-green-600" />
+      ) : (
+        <AlertTriangle className="w-4 h-4 text-yellow-600" />
+      )}
+      <span className="text-gray-700">
+        {verified
+          ? 'Signed attestation by Web3Versity on Hedera Consensus Service'
+          : attestation.found
+          ? 'Attestation signature could not be verified'
+          : 'Attestation not yet available on the mirror node'}
+      </span>
+      <a
+        href={attestation.hashScanUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-600 hover:underline inline-flex items-center gap-1"
+      >
+        {attestation.topicId} #{attestation.sequenceNumber}
+        <ExternalLink className="w-3 h-3" />
+      </a>
+    </div>
+  );
+}
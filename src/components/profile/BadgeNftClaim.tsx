@@ -0,0 +1,74 @@
+/**
+ * Badge NFT Claim Component
+ *
+ * Opt-in "claim on-chain" for an earned badge. Shows the NFT serial once the
+ * badge is in the learner's wallet, and a claim button until then.
+ */
+
+import { ExternalLink, Loader2, Sparkles } from 'lucide-react';
+import { useWallet } from '../../contexts/WalletContext';
+import { useClaimBadgeNft } from '../../hooks/useBadges';
+import type { BadgeNftStatus } from '../../lib/supabase/types';
+
+interface BadgeNftClaimProps {
+  achievementId: string;
+  tokenId?: string | null;
+  serialNumber?: number | null;
+  status?: BadgeNftStatus | null;
+  size?: 'sm' | 'md';
+}
+
+export function BadgeNftClaim({ achievementId, tokenId, serialNumber, status, size = 'sm' }: BadgeNftClaimProps) {
+  const { user, account, connected, connect } = useWallet();
+  const claimBadge = useClaimBadgeNft();
+
+  // Freshly claimed badges show up before the badge list refetches
+  const claimed = claimBadge.data;
+  const nftTokenId = claimed?.tokenId || tokenId;
+  const nftSerial = claimed?.serialNumber || serialNumber;
+  const inWallet = claimed?.status === 'transferred' || status === 'transferred';
+
+  const textSize = size === 'sm' ? 'text-xs' : 'text-sm';
+
+  if (inWallet && nftTokenId && nftSerial) {
+    return (
+      <a
+        href={`https://hashscan.io/testnet/token/${nftTokenId}/${nftSerial}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`inline-flex items-center gap-1 ${textSize} font-semibold text-purple-700 hover:underline`}
+      >
+        NFT #{nftSerial}
+        <ExternalLink className="w-3 h-3" />
+      </a>
+    );
+  }
+
+  const handleClaim = () => {
+    if (!connected || !account || !user) {
+      connect();
+      return;
+    }
+    claimBadge.mutate({ userId: user.id, achievementId, account });
+  };
+
+  return (
+    <button
+      onClick={handleClaim}
+      disabled={claimBadge.isPending}
+      className={`inline-flex items-center justify-center gap-1 px-3 py-1.5 rounded-full ${textSize} font-semibold bg-gradient-to-r from-purple-500 to-indigo-500 text-white hover:from-purple-600 hover:to-indigo-600 disabled:opacity-60 transition-colors`}
+    >
+      {claimBadge.isPending ? (
+        <>
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Minting...
+        </>
+      ) : (
+        <>
+          <Sparkles className="w-3 h-3" />
+          {!connected ? 'Connect wallet to claim' : status === 'minted' ? 'Finish claim' : 'Claim on-chain'}
+        </>
+      )}
+    </button>
+  );
+}
@@ -3,11 +3,19 @@
  *
  * Displays user's NFT certificates in a grid layout
  * Shows SVG previews, course names, and completion dates
+ * Certificates can be downloaded as SVG or as a signed Open Badge
  */
 
 import { useState, useEffect } from 'react';
-import { Award, ExternalLink, Download, Eye, Loader2 } from 'lucide-react';
-import { getUserCertificates, fetchCertificateSVG, fetchCertificateSVGFromIPFS, type Certificate } from '../../lib/api/certificates';
+import { Award, ExternalLink, Download, Eye, Loader2, BadgeCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  getUserCertificates,
+  fetchCertificateSVG,
+  fetchCertificateSVGFromIPFS,
+  exportCertificateCredential,
+  type Certificate,
+} from '../../lib/api/certificates';
 import { useAuth } from '../../hooks/useAuth';
 
 export function CertificatesGallery() {
@@ -17,6 +25,7 @@ export function CertificatesGallery() {
   const [selectedCert, setSelectedCert] = useState<Certificate | null>(null);
   const [svgData, setSvgData] = useState<Record<string, string>>({});
   const [loadingSvg, setLoadingSvg] = useState<Record<string, boolean>>({});
+  const [exportingId, setExportingId] = useState<string | null>(null);
 
   useEffect(() => {
     if (user?.id) {
@@ -95,6 +104,29 @@ export function CertificatesGallery() {
     URL.revokeObjectURL(url);
   };
 
+  const downloadCredential = async (cert: Certificate) => {
+    setExportingId(cert.id);
+    try {
+      const result = await exportCertificateCredential(cert.id);
+      if (!result.success || !result.credential) {
+        toast.error('Failed to export Open Badge', { description: result.error });
+        return;
+      }
+
+      const blob = new Blob([JSON.stringify(result.credential, null, 2)], { type: 'application/ld+json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${cert.certificate_number}.credential.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } finally {
+      setExportingId(null);
+    }
+  };
+
   const openCertificate = (cert: Certificate) => {
     // Load SVG if not already loaded
     if (!svgData[cert.id]) {
@@ -137,10 +169,10 @@ export function CertificatesGallery() {
             {/* Preview - Fixed width container */}
             <div className="bg-gradient-to-br from-blue-50 to-purple-50 relative overflow-hidden flex items-center justify-center p-4">
               {svgData[cert.id] ? (
-                <div
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgData[cert.id])}`}
+                  alt={`Certificate ${cert.certificate_number}`}
                   className="w-full max-w-[340px] mx-auto transform group-hover:scale-105 transition-transform duration-300"
-                  style={{ maxHeight: 'none' }}
-                  dangerouslySetInnerHTML={{ __html: svgData[cert.id] }}
                 />
               ) : loadingSvg[cert.id] ? (
                 <div className="w-full max-w-[340px] aspect-[10/7] flex items-center justify-center">
@@ -236,9 +268,10 @@ export function CertificatesGallery() {
 
               {/* SVG */}
               {svgData[selectedCert.id] ? (
-                <div
-                  className="border-4 border-gray-200 rounded-xl overflow-hidden mb-6"
-                  dangerouslySetInnerHTML={{ __html: svgData[selectedCert.id] }}
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgData[selectedCert.id])}`}
+                  alt={`Certificate ${selectedCert.certificate_number}`}
+                  className="w-full border-4 border-gray-200 rounded-xl mb-6"
                 />
               ) : loadingSvg[selectedCert.id] ? (
                 <div className="aspect-[10/7] bg-gray-50 rounded-xl flex items-center justify-center mb-6">
@@ -260,6 +293,19 @@ export function CertificatesGallery() {
                   <Download className="w-5 h-5" />
                   Download Certificate
                 </button>
+                <button
+                  onClick={() => downloadCredential(selectedCert)}
+                  disabled={exportingId === selectedCert.id}
+                  title="Signed Open Badges 3.0 credential for LinkedIn and job portals"
+                  className="flex-1 py-3 bg-purple-600 text-white rounded-xl font-semibold hover:bg-purple-700 transition-all disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {exportingId === selectedCert.id ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <BadgeCheck className="w-5 h-5" />
+                  )}
+                  Download Open Badge
+                </button>
                 <a
                   href={`https://hashscan.io/testnet/token/${selectedCert.token_id}/${selectedCert.serial_number}`}
                   target="_blank"
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+interface UsernameLinkProps {
+  username: string | null | undefined;
+  className?: string;
+  fallback?: string;
+}
+
+/**
+ * Username that links to the learner's public profile
+ * Stops propagation so it can sit inside clickable cards and rows.
+ */
+export function UsernameLink({ username, className = '', fallback = 'Deleted user' }: UsernameLinkProps) {
+  if (!username) {
+    return <span className={className}>{fallback}</span>;
+  }
+
+  return (
+    <Link
+      to={`/profile/${encodeURIComponent(username)}`}
+      onClick={(e) => e.stopPropagation()}
+      className={`hover:text-[#0084C7] hover:underline ${className}`}
+    >
+      {username}
+    </Link>
+  );
+}
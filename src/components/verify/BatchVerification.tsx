@@ -0,0 +1,339 @@
+/**
+ * Batch Certificate Verification
+ *
+ * Verifies a CSV of certificate numbers or token/serial pairs at once and
+ * offers the results as a platform-signed report (a Verifiable Credential)
+ * and as CSV. Saved reports can be loaded again to check their signature.
+ */
+
+import { useState } from 'react';
+import { Upload, FileCheck, Download, CheckCircle, XCircle, AlertTriangle, ExternalLink, Shield } from 'lucide-react';
+import {
+  MAX_BATCH_VERIFICATION_ROWS,
+  batchResultsToCsv,
+  parseVerificationCsv,
+  verifyCertificatesBatch,
+  verifySignedReport,
+  type BatchVerificationResult,
+  type BatchVerificationRow,
+  type ReportVerificationResult,
+} from '../../lib/api/certificates';
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-50 text-green-700',
+  revoked: 'bg-red-50 text-red-700',
+  superseded: 'bg-amber-50 text-amber-700',
+};
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function BatchVerification() {
+  const [csvText, setCsvText] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [results, setResults] = useState<BatchVerificationResult[] | null>(null);
+  const [report, setReport] = useState<Record<string, unknown> | null>(null);
+  const [reportCheck, setReportCheck] = useState<ReportVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { rows, skipped } = parseVerificationCsv(csvText);
+  const tooMany = rows.length > MAX_BATCH_VERIFICATION_ROWS;
+
+  const reset = () => {
+    setResults(null);
+    setReport(null);
+    setReportCheck(null);
+    setError(null);
+  };
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+    reset();
+  };
+
+  const handleVerify = async (toVerify: BatchVerificationRow[]) => {
+    if (toVerify.length === 0 || tooMany) return;
+
+    setVerifying(true);
+    reset();
+
+    const response = await verifyCertificatesBatch(toVerify);
+    if (response.success) {
+      setResults(response.results || []);
+      setReport(response.report || null);
+    } else {
+      setError(response.error || 'Batch verification failed');
+    }
+
+    setVerifying(false);
+  };
+
+  // A previously downloaded report: check its signature and show what it recorded
+  const handleReportFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+
+    try {
+      const saved = JSON.parse(await file.text());
+      const savedResults = saved?.credentialSubject?.results;
+      if (!Array.isArray(savedResults)) {
+        setError('This file is not a Web3Versity verification report');
+        return;
+      }
+
+      setVerifying(true);
+      setReportCheck(await verifySignedReport(saved));
+      setResults(savedResults);
+      setReport(saved);
+    } catch {
+      setError('Could not read the report file');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const checkedAt = (report?.credentialSubject as { checkedAt?: string } | undefined)?.checkedAt;
+  const validCount = results?.filter((result) => result.valid).length ?? 0;
+  const fileDate = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-6">
+      {/* CSV Input */}
+      <div className="bg-white rounded-2xl shadow-xl p-8 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Certificates to verify (CSV)
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <label className="px-4 py-2 border border-gray-300 rounded-xl text-sm text-gray-700 hover:bg-gray-50 cursor-pointer flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              Upload CSV
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  handleCsvFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <label className="px-4 py-2 border border-gray-300 rounded-xl text-sm text-gray-700 hover:bg-gray-50 cursor-pointer flex items-center gap-2">
+              <FileCheck className="w-4 h-4" />
+              Check a saved report
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  handleReportFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        </div>
+
+        <textarea
+          value={csvText}
+          onChange={(e) => setCsvText(e.target.value)}
+          rows={6}
+          placeholder={'candidate,certificate_number\nJane Doe,W3V-2025-00001\nJohn Smith,0.0.123456/42'}
+          className="w-full px-4 py-3 border border-gray-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className={`text-sm ${tooMany ? 'text-red-600' : 'text-gray-500'}`}>
+            {tooMany
+              ? `${rows.length} rows - a batch can contain at most ${MAX_BATCH_VERIFICATION_ROWS}`
+              : `${rows.length} certificate${rows.length === 1 ? '' : 's'} to verify`}
+            {skipped.length > 0 && (
+              <span className="text-amber-600">
+                {' '}· skipping line{skipped.length === 1 ? '' : 's'} {skipped.slice(0, 10).join(', ')}
+                {skipped.length > 10 && '…'} (no certificate number or token/serial)
+              </span>
+            )}
+          </p>
+          <button
+            onClick={() => handleVerify(rows)}
+            disabled={verifying || rows.length === 0 || tooMany}
+            className="px-8 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-all disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {verifying ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              <>
+                <Shield className="w-5 h-5" />
+                Verify All
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 rounded-2xl p-6 border-2 border-red-200 flex items-center gap-3 text-red-800">
+          <XCircle className="w-6 h-6 text-red-600" />
+          {error}
+        </div>
+      )}
+
+      {/* Saved Report Check */}
+      {reportCheck && (
+        <div
+          className={`rounded-2xl p-6 border-2 flex items-start gap-3 ${
+            reportCheck.valid ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+          }`}
+        >
+          {reportCheck.valid ? (
+            <CheckCircle className="w-6 h-6 text-green-600 shrink-0" />
+          ) : (
+            <XCircle className="w-6 h-6 text-red-600 shrink-0" />
+          )}
+          <div>
+            <p className="font-semibold">
+              {reportCheck.valid ? 'Authentic report signed by Web3Versity' : 'This report could not be authenticated'}
+            </p>
+            <p className="text-sm mt-1">
+              {reportCheck.valid
+                ? 'It has not been altered since it was issued. It shows what was found at the time of the check; verify again for the current status.'
+                : reportCheck.error}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {results && (
+        <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">
+                {validCount} of {results.length} valid
+              </h3>
+              {checkedAt && <p className="text-sm text-gray-500">Checked {new Date(checkedAt).toLocaleString()}</p>}
+            </div>
+            {!reportCheck && (
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => report && downloadFile(JSON.stringify(report, null, 2), `w3v-verification-${fileDate}.json`, 'application/json')}
+                  disabled={!report}
+                  title={report ? undefined : 'Report signing is not configured'}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm hover:bg-blue-700 transition-colors disabled:bg-gray-300 flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  Signed report
+                </button>
+                <button
+                  onClick={() => downloadFile(batchResultsToCsv(results), `w3v-verification-${fileDate}.csv`, 'text/csv')}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl text-sm hover:bg-gray-50 transition-colors flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  CSV
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">Reference</th>
+                  <th className="py-2 pr-3 font-medium">Certificate</th>
+                  <th className="py-2 pr-3 font-medium">Holder</th>
+                  <th className="py-2 pr-3 font-medium">Course</th>
+                  <th className="py-2 pr-3 font-medium">Completed</th>
+                  <th className="py-2 pr-3 font-medium">Signature</th>
+                  <th className="py-2 pr-3 font-medium">On-chain owner</th>
+                  <th className="py-2 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {results.map((result) => (
+                  <tr key={result.row} className="align-top">
+                    <td className="py-3 pr-3 text-gray-900">{result.reference || '—'}</td>
+                    <td className="py-3 pr-3 font-mono">
+                      {result.verificationUrl ? (
+                        <a
+                          href={result.verificationUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline inline-flex items-center gap-1"
+                        >
+                          {result.certificateNumber}
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      ) : (
+                        <span className="text-gray-500">{result.query}</span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-3">
+                      <div className="text-gray-900">{result.holder?.name || '—'}</div>
+                      {result.holder?.hederaAccountId && (
+                        <div className="text-xs text-gray-500 font-mono">{result.holder.hederaAccountId}</div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-3 text-gray-700">{result.course || '—'}</td>
+                    <td className="py-3 pr-3 text-gray-700 whitespace-nowrap">
+                      {result.completionDate ? new Date(result.completionDate).toLocaleDateString() : '—'}
+                    </td>
+                    <td className="py-3 pr-3">
+                      {result.found &&
+                        (result.signatureValid ? (
+                          <CheckCircle className="w-4 h-4 text-green-600" />
+                        ) : (
+                          <XCircle className="w-4 h-4 text-red-600" />
+                        ))}
+                    </td>
+                    <td className="py-3 pr-3">
+                      {result.onChain?.found && (
+                        <div className="flex items-center gap-1.5 font-mono text-xs">
+                          {result.onChain.ownedByHolder ? (
+                            <CheckCircle className="w-4 h-4 text-green-600" />
+                          ) : (
+                            <span title="The NFT is not held by the certificate's holder">
+                              <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                            </span>
+                          )}
+                          {result.onChain.owner}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      {result.valid ? (
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES.active}`}>Valid</span>
+                      ) : result.status && result.status !== 'active' ? (
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[result.status]}`}>
+                          {result.status === 'revoked' ? 'Revoked' : 'Superseded'}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">Invalid</span>
+                      )}
+                      {(result.error || result.revocationReason) && (
+                        <p className="text-xs text-gray-500 mt-1">{result.revocationReason || result.error}</p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
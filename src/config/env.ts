@@ -20,6 +20,8 @@ interface EnvironmentVariables {
   HEDERA_NETWORK: 'testnet' | 'mainnet';
   HEDERA_TESTNET_RPC: string;
   HEDERA_CHAIN_ID: number;
+  MIRROR_NODE_URL: string; // Mirror node REST base, without /api/v1
+  USE_FAKE_MIRROR_NODE: boolean; // Serve mirror node reads from the in-memory fake
 
   // Hedera Operator Account (for server-side operations)
   HEDERA_OPERATOR_ID: string;
@@ -28,6 +30,10 @@ interface EnvironmentVariables {
   // NFT Certificate Configuration
   NFT_COLLECTION_TOKEN_ID?: string;
 
+  // Wallet Configuration
+  WALLETCONNECT_PROJECT_ID?: string; // Enables HashConnect (HashPack, Blade, Kabila)
+  ENABLE_MOCK_WALLET: boolean; // Offers the in-memory mock wallet (always on in development)
+
   // Application Configuration
   APP_NAME: string;
   APP_URL: string;
@@ -172,6 +178,15 @@ function loadEnvironmentVariables(): EnvironmentVariables {
 
   const hederaChainId = parseIntEnvVar('HEDERA_CHAIN_ID', 296);
 
+  const mirrorNodeUrl = getOptionalEnvVar(
+    'MIRROR_NODE_URL',
+    hederaNetwork === 'testnet'
+      ? 'https://testnet.mirrornode.hedera.com'
+      : 'https://mainnet-public.mirrornode.hedera.com'
+  ).replace(/\/+$/, '');
+
+  const useFakeMirrorNode = parseBooleanEnvVar('USE_FAKE_MIRROR_NODE', false);
+
   // Hedera Operator Account
   const hederaOperatorId = getRequiredEnvVar('HEDERA_OPERATOR_ID');
   validateHederaAccountId(hederaOperatorId);
@@ -182,6 +197,10 @@ function loadEnvironmentVariables(): EnvironmentVariables {
   // NFT Certificate Configuration (optional)
   const nftCollectionTokenId = getEnvVar('NFT_COLLECTION_TOKEN_ID');
 
+  // Wallet Configuration (optional)
+  const walletConnectProjectId = getEnvVar('WALLETCONNECT_PROJECT_ID');
+  const enableMockWallet = parseBooleanEnvVar('ENABLE_MOCK_WALLET', false);
+
   // Application Configuration
   const appName = getOptionalEnvVar('APP_NAME', 'Web3Versity');
   const appUrl = getOptionalEnvVar('APP_URL', 'http://localhost:3000');
@@ -204,9 +223,13 @@ function loadEnvironmentVariables(): EnvironmentVariables {
     HEDERA_NETWORK: hederaNetwork,
     HEDERA_TESTNET_RPC: hederaTestnetRpc,
     HEDERA_CHAIN_ID: hederaChainId,
+    MIRROR_NODE_URL: mirrorNodeUrl,
+    USE_FAKE_MIRROR_NODE: useFakeMirrorNode,
     HEDERA_OPERATOR_ID: hederaOperatorId,
     HEDERA_OPERATOR_EVM: hederaOperatorEvm,
     NFT_COLLECTION_TOKEN_ID: nftCollectionTokenId,
+    WALLETCONNECT_PROJECT_ID: walletConnectProjectId,
+    ENABLE_MOCK_WALLET: enableMockWallet,
     APP_NAME: appName,
     APP_URL: appUrl,
     ENABLE_ANALYTICS: enableAnalytics,
@@ -274,6 +297,7 @@ export const devUtils = {
       'Hedera Network': env.HEDERA_NETWORK,
       'Hedera RPC': env.HEDERA_TESTNET_RPC,
       'Hedera Chain ID': env.HEDERA_CHAIN_ID,
+      'Mirror Node': env.USE_FAKE_MIRROR_NODE ? 'in-memory fake' : env.MIRROR_NODE_URL,
       'Operator ID': env.HEDERA_OPERATOR_ID,
       'Operator EVM': env.HEDERA_OPERATOR_EVM,
       'App Name': env.APP_NAME,
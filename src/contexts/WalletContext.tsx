@@ -1,13 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { BrowserProvider } from 'ethers';
 import {
-  connectWallet as connectMetamask,
+  connectWallet as connectAdapter,
   disconnectWallet,
-  getBalance,
-  listenToAccountChanges,
-  listenToChainChanges,
   parseMetamaskError,
 } from '@/lib/hederaUtils';
+import { getActiveWalletAdapter } from '@/lib/wallets';
+import type { WalletAdapterId } from '@/lib/wallets';
 import {
   requestWalletSignature,
   authenticateWithSignature,
@@ -31,7 +29,7 @@ interface WalletState {
 }
 
 interface WalletContextType extends WalletState {
-  connect: () => Promise<void>;
+  connect: (adapterId?: WalletAdapterId) => Promise<void>;
   disconnect: () => Promise<void>;
   refreshBalance: () => Promise<void>;
   refreshUser: () => Promise<void>;
@@ -55,26 +53,22 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
   });
 
   // Connect wallet with signature-based authentication
-  const connect = useCallback(async () => {
+  const connect = useCallback(async (adapterId?: WalletAdapterId) => {
     setState(prev => ({ ...prev, loading: true, error: null, authLoading: true, authError: null }));
 
     try {
-      // 1. Connect Metamask wallet
-      const walletResult = await connectMetamask();
+      // 1. Connect the chosen wallet (or the one used last time)
+      const walletResult = await connectAdapter(adapterId);
       console.log('✅ Wallet connected:', walletResult.evmAddress);
 
-      // 2. Create ethers provider for signing
-      if (!window.ethereum) {
-        throw new Error('No Ethereum provider found');
-      }
-
-      const provider = new BrowserProvider(window.ethereum);
+      // 2. Signing goes through the same adapter
+      const adapter = getActiveWalletAdapter();
 
       // 3. Request signature from user
       console.log('🖊️ Requesting wallet signature...');
-      const { signature, message } = await requestWalletSignature(
+      const { signature, message, signatureType } = await requestWalletSignature(
         walletResult.evmAddress,
-        provider
+        adapter
       );
       console.log('✅ Signature obtained');
 
@@ -84,7 +78,8 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
         walletResult.evmAddress,
         signature,
         message,
-        walletResult.accountId
+        walletResult.accountId,
+        signatureType
       );
       console.log('✅ Backend authentication successful');
 
@@ -109,7 +104,7 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
       console.log('  ⏰ Session expires at:', sessionData.session?.expires_at);
 
       // 6. Fetch balance
-      const balance = await getBalance(walletResult.evmAddress);
+      const balance = await adapter.getBalance(walletResult.evmAddress);
 
       // 7. Update state with all data
       setState({
@@ -152,6 +147,9 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     await supabase.auth.signOut();
 
     // Disconnect wallet
+    await getActiveWalletAdapter().disconnect().catch((error) => {
+      console.warn('⚠️ Wallet disconnect failed:', error);
+    });
     disconnectWallet();
 
     // Reset state
@@ -177,7 +175,7 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     if (!state.account) return;
 
     try {
-      const balance = await getBalance(state.account);
+      const balance = await getActiveWalletAdapter().getBalance(state.account);
       setState(prev => ({ ...prev, balance }));
     } catch (error) {
       console.error('Failed to refresh balance:', error);
@@ -257,19 +255,17 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
           return;
         }
 
-        // Check if wallet is still connected
-        if (window.ethereum) {
-          const accounts = await window.ethereum.request({
-            method: 'eth_accounts',
-          }) as string[];
-
-          if (!accounts || accounts.length === 0 || accounts[0].toLowerCase() !== walletAddress.toLowerCase()) {
-            console.warn('⚠️ Wallet not connected, signing out');
-            await supabase.auth.signOut();
-            return;
-          }
-        } else {
-          console.warn('⚠️ No Ethereum provider found');
+        // Check if the wallet used last time is still connected
+        const adapter = getActiveWalletAdapter();
+        if (!adapter.isAvailable()) {
+          console.warn(`⚠️ ${adapter.name} is not available`);
+          return;
+        }
+
+        const connectedAddress = await adapter.getConnectedAddress();
+        if (!connectedAddress || connectedAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+          console.warn('⚠️ Wallet not connected, signing out');
+          await supabase.auth.signOut();
           return;
         }
 
@@ -287,7 +283,7 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
         }
 
         // Fetch balance
-        const balance = await getBalance(walletAddress);
+        const balance = await adapter.getBalance(walletAddress);
 
         // Restore state
         setState({
@@ -350,9 +346,10 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
 
   // Listen to account changes
   useEffect(() => {
-    if (typeof window === 'undefined' || !window.ethereum || !state.connected) return;
+    const adapter = getActiveWalletAdapter();
+    if (typeof window === 'undefined' || !adapter.onAccountsChanged || !adapter.isAvailable() || !state.connected) return;
 
-    const cleanup = listenToAccountChanges(async (accounts: string[]) => {
+    const cleanup = adapter.onAccountsChanged(async (accounts: string[]) => {
       if (accounts.length === 0) {
         console.log('⚠️ Wallet disconnected');
         await disconnect();
@@ -368,10 +365,10 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
 
   // Listen to chain changes
   useEffect(() => {
-    if (typeof window === 'undefined' || !window.ethereum || !state.connected) return;
+    const adapter = getActiveWalletAdapter();
+    if (typeof window === 'undefined' || !adapter.onChainChanged || !adapter.isAvailable() || !state.connected) return;
 
-    const cleanup = listenToChainChanges(async (chainIdHex: string) => {
-      const chainId = parseInt(chainIdHex, 16);
+    const cleanup = adapter.onChainChanged(async (chainId: number) => {
       const isHederaTestnet = chainId === 296;
 
       console.log(`🌐 Network changed to Chain ID ${chainId}`);
@@ -17,10 +17,10 @@ import {
   generateCourse,
   generateQuiz,
   chatWithTutor,
-  getRecommendations,
   getAIQuota,
   createChatSession,
   getChatHistory,
+  getCourseChatSession,
   provideFeedback,
   isAIEnabled,
   type CoursePrompt,
@@ -35,6 +35,7 @@ import {
   AuthenticationError,
   ValidationError,
 } from '../lib/ai/ai-service';
+import { getCourseRecommendations, type RecommendationResult } from '../lib/api/recommendations';
 import { useAuth } from './useAuth';
 
 // ============================================================================
@@ -47,6 +48,7 @@ export const aiKeys = {
   recommendations: (userId: string) => [...aiKeys.all, 'recommendations', userId] as const,
   chatSession: (sessionId: string) => [...aiKeys.all, 'chat', sessionId] as const,
   chatHistory: (sessionId: string) => [...aiKeys.chatSession(sessionId), 'history'] as const,
+  courseSession: (courseId: string) => [...aiKeys.all, 'course-session', courseId] as const,
 };
 
 // ============================================================================
@@ -167,8 +169,16 @@ export function useCreateChatSession(): UseMutationResult<
   Error,
   { courseId?: string; lessonId?: string }
 > {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: ({ courseId, lessonId }) => createChatSession(courseId, lessonId),
+    onSuccess: (sessionId, variables) => {
+      // Remember the new session so the course picks it up on return
+      if (variables.courseId) {
+        queryClient.setQueryData(aiKeys.courseSession(variables.courseId), sessionId);
+      }
+    },
     onError: (error: Error) => {
       toast.error('Failed to create chat session', {
         description: error.message,
@@ -177,6 +187,25 @@ export function useCreateChatSession(): UseMutationResult<
   });
 }
 
+/**
+ * Hook to fetch the user's existing tutor session for a course
+ *
+ * @param courseId - Course ID
+ * @returns Session ID, or null if no conversation exists yet
+ */
+export function useCourseChatSession(
+  courseId: string | undefined
+): UseQueryResult<string | null, Error> {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: aiKeys.courseSession(courseId || ''),
+    queryFn: () => getCourseChatSession(courseId!),
+    enabled: !!courseId && !!user && isAIEnabled(),
+    staleTime: Infinity, // Only changes when we create a session
+  });
+}
+
 /**
  * Hook to fetch chat history for a session
  *
@@ -216,12 +245,16 @@ export function useChatWithTutor(
 
   return useMutation({
     mutationFn: ({ message, context }) => chatWithTutor(message, context),
-    onSuccess: () => {
-      // Refetch chat history to show new messages
-      queryClient.invalidateQueries({ queryKey: aiKeys.chatHistory(sessionId) });
+    onSuccess: (_, variables) => {
+      // Refetch chat history to show new messages (the session may have been created just now)
+      queryClient.invalidateQueries({
+        queryKey: aiKeys.chatHistory(variables.context?.sessionId || sessionId),
+      });
+      queryClient.invalidateQueries({ queryKey: aiKeys.quota('chat') });
     },
     onError: (error: Error) => {
       if (error instanceof RateLimitError) {
+        queryClient.invalidateQueries({ queryKey: aiKeys.quota('chat') });
         toast.error('Too many messages', {
           description: 'You can send 20 messages per hour. Please slow down.',
         });
@@ -236,16 +269,26 @@ export function useChatWithTutor(
 
 /**
  * Hook to provide feedback on AI response
+ *
+ * @param sessionId - Optional session whose history shows the rating
  */
-export function useProvideFeedback(): UseMutationResult<
+export function useProvideFeedback(
+  sessionId?: string
+): UseMutationResult<
   void,
   Error,
   { messageId: string; helpful: boolean; feedback?: string }
 > {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: ({ messageId, helpful, feedback }) =>
       provideFeedback(messageId, helpful, feedback),
     onSuccess: (_, variables) => {
+      if (sessionId) {
+        queryClient.invalidateQueries({ queryKey: aiKeys.chatHistory(sessionId) });
+      }
+
       const emoji = variables.helpful ? '👍' : '👎';
       toast.success(`Feedback received ${emoji}`, {
         description: 'Thank you for helping us improve!',
@@ -266,16 +309,19 @@ export function useProvideFeedback(): UseMutationResult<
 /**
  * Hook to fetch personalized course recommendations
  *
+ * Falls back to rule-based ranking when AI is disabled or out of quota,
+ * so this works for every signed-in learner.
+ *
  * @param userId - User ID to fetch recommendations for
  */
 export function useCourseRecommendations(
   userId: string | undefined
-): UseQueryResult<CourseRecommendation[], Error> {
+): UseQueryResult<RecommendationResult, Error> {
   return useQuery({
     queryKey: aiKeys.recommendations(userId || ''),
-    queryFn: () => getRecommendations(userId!),
-    enabled: !!userId && isAIEnabled(),
-    staleTime: 1000 * 60 * 60 * 24, // 24 hours (recommendations don't change often)
+    queryFn: () => getCourseRecommendations(userId!),
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 60, // 1 hour (each AI ranking uses recommendation quota)
     refetchOnWindowFocus: false,
   });
 }
@@ -2,8 +2,11 @@
  * React Query hooks for badges/achievements
  */
 
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import {
+  claimBadgeNft,
+  getBadgeCollectionTokenId,
   getAllBadges,
   getUserEarnedBadges,
   getUserBadgesWithStatus,
@@ -11,10 +14,13 @@ import {
   getBadgesByRarity,
   getBadgeById,
   hasUserEarnedBadge,
+  type BadgeNft,
   type BadgeWithEarnedStatus,
   type EarnedBadge
 } from '../lib/api/badges';
+import { associateToken, isTokenAssociated } from '../lib/hederaUtils';
 import type { Achievement } from '../lib/supabase/types';
+import { transactionKeys } from './useTransactions';
 
 // ============================================================================
 // Query Keys
@@ -126,3 +132,60 @@ export function useHasEarnedBadge(userId: string | undefined, badgeId: string |
     gcTime: 5 * 60 * 1000, // 5 minutes
   });
 }
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+export interface ClaimBadgeNftParams {
+  userId: string;
+  achievementId: string;
+  account: string; // Connected wallet, which must associate the collection
+}
+
+/**
+ * Claim an earned badge as an NFT
+ *
+ * Associates the badge's collection with the wallet first when needed, so
+ * the minted NFT can be transferred straight away.
+ */
+export function useClaimBadgeNft() {
+  const queryClient = useQueryClient();
+
+  return useMutation<BadgeNft, Error, ClaimBadgeNftParams>({
+    mutationFn: async ({ achievementId, account }) => {
+      const { tokenId } = await getBadgeCollectionTokenId(achievementId);
+
+      if (!(await isTokenAssociated(tokenId, account))) {
+        const association = await associateToken(tokenId);
+        if (association.status !== 'success') {
+          throw new Error(`Token association failed. Associate ${tokenId} with your wallet and try again.`);
+        }
+      }
+
+      const result = await claimBadgeNft(achievementId);
+      if (!result.success || !result.badge) {
+        throw new Error(result.error || 'Failed to claim badge');
+      }
+      if (result.associationRequired) {
+        throw new Error(result.warning || `Associate ${result.badge.tokenId} with your wallet and try again.`);
+      }
+
+      return result.badge;
+    },
+    onSuccess: (badge, variables) => {
+      queryClient.invalidateQueries({ queryKey: badgeKeys.user(variables.userId) });
+      queryClient.invalidateQueries({ queryKey: transactionKeys.history(variables.userId) });
+      toast.success(`Badge minted as NFT #${badge.serialNumber}`, {
+        description: `Token ${badge.tokenId} is now in your wallet`,
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to claim badge NFT', {
+        description: error.message.includes('User rejected') || error.message.includes('User denied')
+          ? 'Transaction cancelled. Please try again.'
+          : error.message,
+      });
+    },
+  });
+}
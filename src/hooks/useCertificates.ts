@@ -0,0 +1,182 @@
+/**
+ * React Query hooks for NFT certificate administration and certificate templates
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getCertificatesForAdmin,
+  revokeCertificate,
+  reissueCertificate,
+  type AdminCertificateFilters,
+  type Certificate,
+  type CertificateAdminResult,
+} from '../lib/api/certificates';
+import {
+  getCertificateTemplates,
+  getCertificateTemplateAssignments,
+  saveCertificateTemplate,
+  deleteCertificateTemplate,
+  assignCertificateTemplate,
+  type AssignTemplateInput,
+  type SaveTemplateInput,
+} from '../lib/api/certificate-templates';
+import type { CertificateTemplate, CertificateTemplateAssignment } from '../lib/supabase/types';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const certificateKeys = {
+  all: ['certificates'] as const,
+  admin: (filters: AdminCertificateFilters) => [...certificateKeys.all, 'admin', filters] as const,
+  templates: () => [...certificateKeys.all, 'templates'] as const,
+  templateAssignments: () => [...certificateKeys.templates(), 'assignments'] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Certificates for the admin dashboard
+ */
+export function useCertificatesForAdmin(filters: AdminCertificateFilters = {}) {
+  return useQuery<Certificate[], Error>({
+    queryKey: certificateKeys.admin(filters),
+    queryFn: () => getCertificatesForAdmin(filters),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * All certificate templates
+ */
+export function useCertificateTemplates() {
+  return useQuery<CertificateTemplate[], Error>({
+    queryKey: certificateKeys.templates(),
+    queryFn: getCertificateTemplates,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Course and track template assignments
+ */
+export function useCertificateTemplateAssignments() {
+  return useQuery<CertificateTemplateAssignment[], Error>({
+    queryKey: certificateKeys.templateAssignments(),
+    queryFn: getCertificateTemplateAssignments,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Revoke a certificate
+ */
+export function useRevokeCertificate() {
+  const queryClient = useQueryClient();
+
+  return useMutation<CertificateAdminResult, Error, { certificateId: string; reason: string }>({
+    mutationFn: async ({ certificateId, reason }) => {
+      const result = await revokeCertificate(certificateId, reason);
+      if (!result.success) throw new Error(result.error || 'Failed to revoke certificate');
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all });
+      toast.success(`Certificate ${result.certificate?.certificateNumber} revoked`, {
+        description: `Attested on HCS topic ${result.attestation?.topicId}`,
+      });
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to revoke certificate');
+    },
+  });
+}
+
+/**
+ * Reissue a certificate, superseding the original
+ */
+export function useReissueCertificate() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    CertificateAdminResult,
+    Error,
+    { certificateId: string; reason: string; holderName?: string }
+  >({
+    mutationFn: async ({ certificateId, reason, holderName }) => {
+      const result = await reissueCertificate(certificateId, reason, holderName);
+      if (!result.success) throw new Error(result.error || 'Failed to reissue certificate');
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all });
+      toast.success(`Certificate reissued as ${result.replacement?.certificateNumber}`, {
+        description: `Serial #${result.replacement?.serialNumber} supersedes ${result.certificate?.certificateNumber}`,
+      });
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to reissue certificate');
+    },
+  });
+}
+
+/**
+ * Create or update a certificate template
+ */
+export function useSaveCertificateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation<string, Error, SaveTemplateInput>({
+    mutationFn: saveCertificateTemplate,
+    onSuccess: (_templateId, variables) => {
+      queryClient.invalidateQueries({ queryKey: certificateKeys.templates() });
+      toast.success(variables.templateId ? 'Template saved' : 'Template created');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save template');
+    },
+  });
+}
+
+/**
+ * Delete a certificate template
+ */
+export function useDeleteCertificateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, { templateId: string }>({
+    mutationFn: ({ templateId }) => deleteCertificateTemplate(templateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: certificateKeys.templates() });
+      toast.success('Template deleted');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete template');
+    },
+  });
+}
+
+/**
+ * Assign a template to a course or track
+ */
+export function useAssignCertificateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, AssignTemplateInput>({
+    mutationFn: assignCertificateTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: certificateKeys.templateAssignments() });
+      toast.success('Template assignment updated');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to assign template');
+    },
+  });
+}
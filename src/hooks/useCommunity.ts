@@ -0,0 +1,237 @@
+/**
+ * React Query hooks for community discussions
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getDiscussions,
+  getDiscussionById,
+  getDiscussionReplies,
+  createDiscussion,
+  createReply,
+  castVote,
+  getUserVotes,
+  toggleReplySolution,
+  moderateDiscussion,
+  getCommunityStats,
+  getTopContributors,
+  type CommunityDiscussionFilters,
+  type CreateDiscussionInput,
+  type CreateReplyInput,
+  type CommunityStats,
+  type TopContributor,
+  type UserVoteMap,
+  type VoteResult,
+} from '../lib/api/community';
+import type { DiscussionWithAuthor, ReplyWithAuthor, VoteType } from '../lib/supabase/types';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const communityKeys = {
+  all: ['community'] as const,
+  discussions: () => [...communityKeys.all, 'discussions'] as const,
+  discussionList: (filters: CommunityDiscussionFilters) =>
+    [...communityKeys.discussions(), 'list', filters] as const,
+  discussion: (id: string) => [...communityKeys.discussions(), 'detail', id] as const,
+  replies: (discussionId: string) => [...communityKeys.all, 'replies', discussionId] as const,
+  votes: (userId: string) => [...communityKeys.all, 'votes', userId] as const,
+  stats: () => [...communityKeys.all, 'stats'] as const,
+  contributors: () => [...communityKeys.all, 'contributors'] as const,
+  topContributors: (limit: number) => [...communityKeys.contributors(), limit] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch discussions list
+ */
+export function useDiscussions(filters: CommunityDiscussionFilters = {}) {
+  return useQuery<DiscussionWithAuthor[], Error>({
+    queryKey: communityKeys.discussionList(filters),
+    queryFn: () => getDiscussions(filters),
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Fetch a single discussion
+ */
+export function useDiscussion(discussionId: string | undefined) {
+  return useQuery<DiscussionWithAuthor | null, Error>({
+    queryKey: communityKeys.discussion(discussionId || ''),
+    queryFn: () => getDiscussionById(discussionId!),
+    enabled: !!discussionId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * Fetch replies for a discussion
+ */
+export function useDiscussionReplies(discussionId: string | undefined) {
+  return useQuery<ReplyWithAuthor[], Error>({
+    queryKey: communityKeys.replies(discussionId || ''),
+    queryFn: () => getDiscussionReplies(discussionId!),
+    enabled: !!discussionId,
+    staleTime: 15 * 1000, // 15 seconds
+  });
+}
+
+/**
+ * Fetch the current user's votes
+ */
+export function useUserVotes(userId: string | undefined) {
+  return useQuery<UserVoteMap, Error>({
+    queryKey: communityKeys.votes(userId || ''),
+    queryFn: () => getUserVotes(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Fetch live community stats
+ */
+export function useCommunityStats() {
+  return useQuery<CommunityStats, Error>({
+    queryKey: communityKeys.stats(),
+    queryFn: getCommunityStats,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+/**
+ * Fetch top contributors
+ */
+export function useTopContributors(limit: number = 5) {
+  return useQuery<TopContributor[], Error>({
+    queryKey: communityKeys.topContributors(limit),
+    queryFn: () => getTopContributors(limit),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Create a discussion thread
+ */
+export function useCreateDiscussion() {
+  const queryClient = useQueryClient();
+
+  return useMutation<DiscussionWithAuthor, Error, CreateDiscussionInput>({
+    mutationFn: createDiscussion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: communityKeys.discussions() });
+      queryClient.invalidateQueries({ queryKey: communityKeys.stats() });
+      toast.success('Discussion posted');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to post discussion');
+    },
+  });
+}
+
+/**
+ * Post a reply
+ */
+export function useCreateReply() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ReplyWithAuthor, Error, CreateReplyInput>({
+    mutationFn: createReply,
+    onSuccess: (_reply, variables) => {
+      queryClient.invalidateQueries({ queryKey: communityKeys.replies(variables.discussionId) });
+      queryClient.invalidateQueries({ queryKey: communityKeys.discussions() });
+      queryClient.invalidateQueries({ queryKey: communityKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: communityKeys.contributors() });
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to post reply');
+    },
+  });
+}
+
+/**
+ * Vote on a discussion or reply
+ */
+export function useCastVote(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    VoteResult,
+    Error,
+    { discussionId?: string; replyId?: string; voteType: VoteType; threadId: string }
+  >({
+    mutationFn: ({ discussionId, replyId, voteType }) => {
+      if (!userId) throw new Error('Connect your wallet to vote');
+      return castVote(replyId ? { replyId } : { discussionId: discussionId! }, voteType);
+    },
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: communityKeys.votes(userId || '') });
+      queryClient.invalidateQueries({ queryKey: communityKeys.discussions() });
+      if (variables.replyId) {
+        queryClient.invalidateQueries({ queryKey: communityKeys.replies(variables.threadId) });
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to record vote');
+    },
+  });
+}
+
+/**
+ * Mark or unmark a reply as the solution
+ */
+export function useToggleSolution(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<boolean, Error, { replyId: string; discussionId: string }>({
+    mutationFn: ({ replyId }) => {
+      if (!userId) throw new Error('Connect your wallet to mark a solution');
+      return toggleReplySolution(replyId);
+    },
+    onSuccess: (isSolution, variables) => {
+      queryClient.invalidateQueries({ queryKey: communityKeys.replies(variables.discussionId) });
+      queryClient.invalidateQueries({ queryKey: communityKeys.discussions() });
+      queryClient.invalidateQueries({ queryKey: communityKeys.stats() });
+      toast.success(isSolution ? 'Marked as solution' : 'Solution unmarked');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update solution');
+    },
+  });
+}
+
+/**
+ * Pin/lock a discussion (admins only)
+ */
+export function useModerateDiscussion(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, { discussionId: string; isPinned?: boolean; isLocked?: boolean }>({
+    mutationFn: ({ discussionId, isPinned, isLocked }) => {
+      if (!userId) throw new Error('Not authenticated');
+      return moderateDiscussion(discussionId, { isPinned, isLocked });
+    },
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: communityKeys.discussions() });
+      if (variables.isPinned !== undefined) {
+        toast.success(variables.isPinned ? 'Discussion pinned' : 'Discussion unpinned');
+      } else if (variables.isLocked !== undefined) {
+        toast.success(variables.isLocked ? 'Discussion locked' : 'Discussion unlocked');
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update discussion');
+    },
+  });
+}
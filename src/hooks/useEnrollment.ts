@@ -26,6 +26,7 @@ import {
   updateCurrentLesson,
 } from '../lib/api/enrollment';
 import { courseKeys } from './useCourses';
+import { aiKeys } from './useAI';
 
 // ============================================================================
 // Query Keys
@@ -330,6 +331,11 @@ export function useEnroll(): UseEnrollResult {
         queryClient.invalidateQueries({
           queryKey: courseKeys.detail(variables.courseId)
         });
+
+        // The course is no longer a recommendation candidate
+        queryClient.invalidateQueries({
+          queryKey: aiKeys.recommendations(variables.userId)
+        });
       }
     },
   });
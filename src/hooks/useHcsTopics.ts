@@ -0,0 +1,73 @@
+/**
+ * React Query hooks for learner-owned HCS topics
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  createLearnerTopic,
+  getLearnerTopics,
+  type CreateTopicParams,
+} from '../lib/hedera/hcs-topics';
+import type { HcsTopic } from '../lib/supabase/types';
+import { useRecordTransaction } from './useTransactions';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const hcsTopicKeys = {
+  all: ['hcs-topics'] as const,
+  user: (userId: string) => [...hcsTopicKeys.all, userId] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch the topics a learner created
+ */
+export function useLearnerTopics(userId: string | undefined) {
+  return useQuery<HcsTopic[], Error>({
+    queryKey: hcsTopicKeys.user(userId || ''),
+    queryFn: () => getLearnerTopics(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Create a topic and record it in the transactions ledger
+ */
+export function useCreateLearnerTopic() {
+  const queryClient = useQueryClient();
+  const recordTransaction = useRecordTransaction();
+
+  return useMutation<HcsTopic, Error, CreateTopicParams & { userId: string }>({
+    mutationFn: createLearnerTopic,
+    onSuccess: (topic, variables) => {
+      queryClient.invalidateQueries({ queryKey: hcsTopicKeys.user(variables.userId) });
+      recordTransaction({
+        transactionId: topic.transaction_id || '',
+        transactionType: 'hcs_topic_create',
+        toAccount: topic.topic_id,
+        memo: topic.memo || undefined,
+      });
+      toast.success(`Topic ${topic.topic_id} created`, {
+        description: topic.submit_public_key
+          ? 'Only this browser holds the submit key'
+          : 'Anyone can post to this topic',
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to create topic', {
+        description: error.message,
+      });
+    },
+  });
+}
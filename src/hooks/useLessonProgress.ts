@@ -12,6 +12,7 @@ import {
   getCourseProgress,
   getCompletedLessons,
   updateCurrentLesson,
+  startLessonSession,
   type LessonCompleteResult,
   type CourseProgressData,
 } from '../lib/api/progress';
@@ -160,8 +161,7 @@ export interface UseCompleteLessonResult {
     userId: string,
     lessonId: string,
     courseId: string,
-    score?: number,
-    timeSpentSeconds?: number
+    answers?: (number | null)[]
   ) => Promise<LessonCompleteResult>;
   isCompleting: boolean;
   isSuccess: boolean;
@@ -170,7 +170,7 @@ export interface UseCompleteLessonResult {
 }
 
 /**
- * Mark a lesson as complete with optimistic updates
+ * Mark a lesson as complete (graded and awarded server-side)
  *
  * @returns Mutation functions and state
  */
@@ -182,15 +182,13 @@ export function useCompleteLesson(): UseCompleteLessonResult {
       userId,
       lessonId,
       courseId,
-      score,
-      timeSpentSeconds,
+      answers,
     }: {
       userId: string;
       lessonId: string;
       courseId: string;
-      score?: number;
-      timeSpentSeconds?: number;
-    }) => markLessonComplete(userId, lessonId, courseId, score, timeSpentSeconds),
+      answers?: (number | null)[];
+    }) => markLessonComplete(userId, lessonId, courseId, answers),
     onSuccess: (result, variables) => {
       if (result.success) {
         // Invalidate relevant queries
@@ -214,8 +212,8 @@ export function useCompleteLesson(): UseCompleteLessonResult {
   });
 
   return {
-    complete: (userId, lessonId, courseId, score, timeSpentSeconds) =>
-      mutation.mutateAsync({ userId, lessonId, courseId, score, timeSpentSeconds }),
+    complete: (userId, lessonId, courseId, answers) =>
+      mutation.mutateAsync({ userId, lessonId, courseId, answers }),
     isCompleting: mutation.isPending,
     isSuccess: mutation.isSuccess,
     isError: mutation.isError,
@@ -259,3 +257,22 @@ export function useUpdateCurrentLesson(): UseUpdateCurrentLessonResult {
     isUpdating: mutation.isPending,
   };
 }
+
+// ============================================================================
+// Start Lesson Session Mutation Hook
+// ============================================================================
+
+/**
+ * Record that the user opened a lesson (starts the server-side time-on-lesson clock)
+ *
+ * @returns Mutation function
+ */
+export function useStartLessonSession(): { startSession: (lessonId: string) => Promise<void> } {
+  const mutation = useMutation({
+    mutationFn: (lessonId: string) => startLessonSession(lessonId),
+  });
+
+  return {
+    startSession: (lessonId) => mutation.mutateAsync(lessonId),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * React Query hooks for the spaced-repetition review queue
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getDueReviewItems,
+  getReviewSummary,
+  queueQuizMistakes,
+  recordReview,
+  generateReviewVariants,
+  type ReviewItemWithContext,
+  type ReviewSummary,
+} from '../lib/api/review-queue';
+import type { ReviewItem } from '../lib/supabase/types';
+import { RateLimitError } from '../lib/ai/ai-service';
+import { statsKeys } from './useStats';
+import { aiKeys } from './useAI';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const reviewQueueKeys = {
+  all: ['review-queue'] as const,
+  user: (userId: string) => [...reviewQueueKeys.all, userId] as const,
+  due: (userId: string) => [...reviewQueueKeys.user(userId), 'due'] as const,
+  summary: (userId: string) => [...reviewQueueKeys.user(userId), 'summary'] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch review items due today
+ * Not refetched on focus so the list doesn't reshuffle mid-session.
+ */
+export function useDueReviewItems(userId: string | undefined) {
+  return useQuery<ReviewItemWithContext[], Error>({
+    queryKey: reviewQueueKeys.due(userId || ''),
+    queryFn: () => getDueReviewItems(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Fetch due/reviewed counts for the dashboard
+ */
+export function useReviewSummary(userId: string | undefined) {
+  return useQuery<ReviewSummary, Error>({
+    queryKey: reviewQueueKeys.summary(userId || ''),
+    queryFn: () => getReviewSummary(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Queue the questions missed in a quiz attempt
+ */
+export function useQueueQuizMistakes() {
+  const queryClient = useQueryClient();
+
+  return useMutation<number, Error, { userId: string; lessonId: string; answers: (number | null)[] }>({
+    mutationFn: ({ lessonId, answers }) => queueQuizMistakes(lessonId, answers),
+    onSuccess: (queued, variables) => {
+      if (queued === 0) return;
+      queryClient.invalidateQueries({ queryKey: reviewQueueKeys.user(variables.userId) });
+      toast.info(`${queued} ${queued === 1 ? 'question' : 'questions'} added to your review queue`, {
+        description: "We'll bring them back from tomorrow so they stick.",
+      });
+    },
+    onError: (error) => {
+      // Not worth interrupting the quiz for
+      console.error('Failed to queue quiz mistakes:', error);
+    },
+  });
+}
+
+/**
+ * Record a review answer
+ * The due list is left alone; the review session works from its own snapshot.
+ */
+export function useRecordReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ReviewItem, Error, { userId: string; itemId: string; quality: number }>({
+    mutationFn: ({ itemId, quality }) => recordReview(itemId, quality),
+    onSuccess: (_item, variables) => {
+      queryClient.invalidateQueries({ queryKey: reviewQueueKeys.summary(variables.userId) });
+      queryClient.invalidateQueries({ queryKey: statsKeys.streak(variables.userId) });
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save review');
+    },
+  });
+}
+
+/**
+ * Generate AI practice variants of a missed question
+ */
+export function useGenerateReviewVariants() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ReviewItem[], Error, { userId: string; item: ReviewItem }>({
+    mutationFn: ({ item }) => generateReviewVariants(item),
+    onSuccess: (variants, variables) => {
+      queryClient.invalidateQueries({ queryKey: reviewQueueKeys.summary(variables.userId) });
+      queryClient.invalidateQueries({ queryKey: aiKeys.quota('quiz') });
+      toast.success(
+        variants.length > 0
+          ? `${variants.length} practice ${variants.length === 1 ? 'question' : 'questions'} added`
+          : 'No usable practice questions were generated'
+      );
+    },
+    onError: (error) => {
+      if (error instanceof RateLimitError) {
+        toast.error('Rate limit exceeded', {
+          description: 'You can generate 5 practice sets per hour. Please try again later.',
+        });
+      } else {
+        toast.error('Failed to generate practice questions', {
+          description: error.message,
+        });
+      }
+    },
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * React Query hooks for course ratings and reviews
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getCourseReviews,
+  getUserCourseReview,
+  getRatingBreakdown,
+  canReviewCourse,
+  submitCourseReview,
+  deleteCourseReview,
+  getReviewsForModeration,
+  moderateCourseReview,
+  type ModerationReview,
+  type ModerationReviewFilters,
+  type RatingBreakdown,
+  type SubmitReviewInput,
+} from '../lib/api/reviews';
+import type { CourseReview, CourseReviewWithAuthor } from '../lib/supabase/types';
+import { courseKeys } from './useCourses';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const reviewKeys = {
+  all: ['reviews'] as const,
+  course: (courseId: string) => [...reviewKeys.all, 'course', courseId] as const,
+  list: (courseId: string) => [...reviewKeys.course(courseId), 'list'] as const,
+  breakdown: (courseId: string) => [...reviewKeys.course(courseId), 'breakdown'] as const,
+  mine: (courseId: string, userId: string) => [...reviewKeys.course(courseId), 'mine', userId] as const,
+  eligibility: (courseId: string, userId: string) =>
+    [...reviewKeys.course(courseId), 'eligibility', userId] as const,
+  moderation: (filters: ModerationReviewFilters) => [...reviewKeys.all, 'moderation', filters] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch visible reviews for a course
+ */
+export function useCourseReviews(courseId: string | undefined) {
+  return useQuery<CourseReviewWithAuthor[], Error>({
+    queryKey: reviewKeys.list(courseId || ''),
+    queryFn: () => getCourseReviews(courseId!),
+    enabled: !!courseId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Fetch the star distribution for a course
+ */
+export function useRatingBreakdown(courseId: string | undefined) {
+  return useQuery<RatingBreakdown, Error>({
+    queryKey: reviewKeys.breakdown(courseId || ''),
+    queryFn: () => getRatingBreakdown(courseId!),
+    enabled: !!courseId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Fetch the current user's review for a course
+ */
+export function useMyCourseReview(courseId: string | undefined, userId: string | undefined) {
+  return useQuery<CourseReview | null, Error>({
+    queryKey: reviewKeys.mine(courseId || '', userId || ''),
+    queryFn: () => getUserCourseReview(userId!, courseId!),
+    enabled: !!courseId && !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Check whether the current user may review a course
+ * Re-checked when progress changes so the form appears once the threshold is hit.
+ */
+export function useCanReviewCourse(
+  courseId: string | undefined,
+  userId: string | undefined,
+  progressPercentage?: number
+) {
+  return useQuery<boolean, Error>({
+    queryKey: [...reviewKeys.eligibility(courseId || '', userId || ''), progressPercentage ?? null],
+    queryFn: () => canReviewCourse(userId!, courseId!),
+    enabled: !!courseId && !!userId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Fetch reviews for the admin moderation queue
+ */
+export function useReviewsForModeration(filters: ModerationReviewFilters = {}) {
+  return useQuery<ModerationReview[], Error>({
+    queryKey: reviewKeys.moderation(filters),
+    queryFn: () => getReviewsForModeration(filters),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Create or update the current user's review
+ */
+export function useSubmitReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation<CourseReview, Error, SubmitReviewInput & { isEdit?: boolean }>({
+    mutationFn: ({ isEdit: _isEdit, ...input }) => submitCourseReview(input),
+    onSuccess: (_review, variables) => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.course(variables.courseId) });
+      // average_rating / total_ratings changed on the course row
+      queryClient.invalidateQueries({ queryKey: courseKeys.all });
+      toast.success(variables.isEdit ? 'Review updated' : 'Thanks for your review!');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save review');
+    },
+  });
+}
+
+/**
+ * Delete the current user's review
+ */
+export function useDeleteReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, { courseId: string }>({
+    mutationFn: ({ courseId }) => deleteCourseReview(courseId),
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.course(variables.courseId) });
+      queryClient.invalidateQueries({ queryKey: courseKeys.all });
+      toast.success('Review deleted');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete review');
+    },
+  });
+}
+
+/**
+ * Hide or restore a review (admin only)
+ */
+export function useModerateReview(adminId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, { reviewId: string; isHidden: boolean; reason?: string }>({
+    mutationFn: ({ reviewId, isHidden, reason }) => {
+      if (!adminId) throw new Error('Admin access required');
+      return moderateCourseReview(reviewId, isHidden, reason);
+    },
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+      queryClient.invalidateQueries({ queryKey: courseKeys.all });
+      toast.success(variables.isHidden ? 'Review hidden' : 'Review restored');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to moderate review');
+    },
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Live messages of an HCS topic
+ *
+ * Components on the same topic share one subscription (see
+ * lib/hedera/hcs-subscription), so opening several message boards does not
+ * multiply mirror node traffic.
+ */
+
+import { useEffect, useState } from 'react';
+import type { TopicMessage } from '../lib/hedera/hcs-service';
+import { subscribeToTopic, type TopicSubscriptionStatus } from '../lib/hedera/hcs-subscription';
+
+/**
+ * Subscribe to a topic for as long as the component is mounted
+ *
+ * @param topicId - HCS topic ID (no subscription while undefined)
+ * @returns Messages in sequence order and the subscription status
+ */
+export function useTopicMessages(topicId: string | undefined) {
+  const [messages, setMessages] = useState<TopicMessage[]>([]);
+  const [status, setStatus] = useState<TopicSubscriptionStatus>('connecting');
+
+  useEffect(() => {
+    setMessages([]);
+    setStatus('connecting');
+    if (!topicId) return;
+
+    return subscribeToTopic(
+      topicId,
+      (incoming) => {
+        setMessages((prev) => {
+          const known = new Set(prev.map((message) => message.sequenceNumber));
+          const fresh = incoming.filter((message) => !known.has(message.sequenceNumber));
+          return fresh.length > 0 ? [...prev, ...fresh] : prev;
+        });
+      },
+      { onStatusChange: setStatus }
+    );
+  }, [topicId]);
+
+  return { messages, status };
+}
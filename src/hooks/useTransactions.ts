@@ -0,0 +1,102 @@
+/**
+ * React Query hooks for the learner's blockchain transaction history
+ */
+
+import { useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  getTransactionHistory,
+  recordTransaction,
+  isReconcileOverdue,
+  reconcileTransactions,
+  type RecordTransactionParams,
+  type TransactionHistoryItem,
+} from '../lib/hedera/transactions';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const transactionKeys = {
+  all: ['transactions'] as const,
+  history: (userId: string) => [...transactionKeys.all, 'history', userId] as const,
+  reconcile: (userId: string, ids: string[]) => [...transactionKeys.all, 'reconcile', userId, ids] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch the user's most recent transactions
+ */
+export function useTransactionHistory(userId: string | undefined, limit: number = 500) {
+  return useQuery<TransactionHistoryItem[], Error>({
+    queryKey: transactionKeys.history(userId || ''),
+    queryFn: () => getTransactionHistory(userId!, limit),
+    enabled: !!userId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * Reconcile transactions with the mirror node while they are on screen
+ *
+ * Settles pending rows (polling every 10 seconds while any are recent
+ * enough to still turn up) and confirms status and consensus timestamp of
+ * rows not yet reconciled; refetches the history as soon as anything changes.
+ */
+export function useTransactionReconciliation(
+  userId: string | undefined,
+  transactions: TransactionHistoryItem[]
+) {
+  const queryClient = useQueryClient();
+  const unreconciled = transactions.filter((tx) => tx.status === 'pending' || !tx.reconciled_at);
+  const unreconciledIds = unreconciled.map((tx) => tx.id);
+  const hasPending = unreconciled.some((tx) => tx.status === 'pending' && !isReconcileOverdue(tx));
+
+  return useQuery<number, Error>({
+    queryKey: transactionKeys.reconcile(userId || '', unreconciledIds),
+    queryFn: async () => {
+      const changed = await reconcileTransactions(unreconciled);
+
+      if (changed > 0) {
+        queryClient.invalidateQueries({ queryKey: transactionKeys.history(userId!) });
+      }
+
+      return changed;
+    },
+    enabled: !!userId && unreconciledIds.length > 0,
+    staleTime: Infinity, // Settled rows drop out of the key once refetched
+    refetchInterval: hasPending ? 10 * 1000 : false, // 10 seconds while pending
+  });
+}
+
+// ============================================================================
+// Ledger Hooks
+// ============================================================================
+
+/**
+ * Record on-chain practical actions for the connected learner
+ *
+ * Fills in the user and, inside a course, the course ID from the route.
+ * Does nothing for guests.
+ */
+export function useRecordTransaction() {
+  const queryClient = useQueryClient();
+  const { user } = useWallet();
+  const { courseId } = useParams<{ courseId: string }>();
+
+  return useCallback(
+    async (params: Omit<RecordTransactionParams, 'relatedCourseId'>) => {
+      if (!user || !params.transactionId) return null;
+
+      const id = await recordTransaction({ ...params, relatedCourseId: courseId || null });
+      queryClient.invalidateQueries({ queryKey: transactionKeys.history(user.id) });
+      return id;
+    },
+    [user, courseId, queryClient]
+  );
+}
@@ -2,8 +2,39 @@
  * React Query hooks for user profile management
  */
 
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { updateUserProfile, type UpdateUserProfileInput, type UpdateUserProfileResult } from '../lib/api/users';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getPublicProfile,
+  updateUserProfile,
+  type UpdateUserProfileInput,
+  type UpdateUserProfileResult,
+} from '../lib/api/users';
+import type { PublicProfile } from '../lib/supabase/types';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const userKeys = {
+  all: ['user'] as const,
+  publicProfile: (username: string) => [...userKeys.all, 'public', username] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch the public profile for /profile/:username
+ */
+export function usePublicProfile(username: string | undefined, enabled = true) {
+  return useQuery<PublicProfile | null, Error>({
+    queryKey: userKeys.publicProfile(username || ''),
+    queryFn: () => getPublicProfile(username!),
+    enabled: !!username && enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
 
 // ============================================================================
 // Mutation Hooks
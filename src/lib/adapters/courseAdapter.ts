@@ -21,6 +21,7 @@ export interface ComponentCourse {
   estimatedHours: number;
   enrollmentCount: number;
   rating: number;
+  totalRatings: number;
   thumbnail: string;
   lessons: number;
   prerequisites: string[];
@@ -44,6 +45,7 @@ export function adaptCourseForComponent(dbCourse: DBCourse): ComponentCourse {
     estimatedHours: dbCourse.estimated_hours,
     enrollmentCount: dbCourse.enrollment_count,
     rating: dbCourse.average_rating,
+    totalRatings: dbCourse.total_ratings,
     thumbnail: dbCourse.thumbnail_emoji,
     lessons: dbCourse.total_lessons,
     prerequisites: [], // Will be populated separately if needed
@@ -28,16 +28,30 @@ export interface CoursePrompt {
 }
 
 export interface ChatContext {
+  sessionId?: string; // Messages are stored against this session
   courseId?: string;
+  courseTitle?: string;
   lessonId?: string;
+  lessonTitle?: string;
+  lessonType?: string;
+  lessonContent?: string; // Plain-text summary, see summarizeLessonForTutor
+  progress?: ChatProgress;
   conversationHistory?: ChatMessage[];
 }
 
+export interface ChatProgress {
+  completedLessons: number;
+  totalLessons: number;
+  currentLessonNumber: number;
+  currentLessonCompleted: boolean;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   createdAt: string;
+  helpful?: boolean | null;
 }
 
 export interface ChatResponse {
@@ -53,6 +67,27 @@ export interface CourseRecommendation {
   prerequisitesMet: string[];
 }
 
+/**
+ * Learner signals sent with a recommendation request
+ *
+ * Built by buildRecommendationProfile() in lib/api/recommendations.ts; the
+ * model may only pick from `candidates`.
+ */
+export interface RecommendationProfile {
+  preferredTrack: 'explorer' | 'developer' | null;
+  completedCourses: Array<{ id: string; title: string; track: string; difficulty: string }>;
+  inProgressCourses: Array<{ id: string; title: string }>;
+  weakSpots: Array<{ courseId: string; courseTitle: string; averageScore: number }>;
+  candidates: Array<{
+    id: string;
+    title: string;
+    track: string;
+    difficulty: string;
+    category: string;
+    prerequisitesMet: string[];
+  }>;
+}
+
 export interface QuizContent {
   questions: Array<{
     question: string;
@@ -360,19 +395,25 @@ export async function chatWithTutor(
  * Get personalized course recommendations for user
  *
  * @param userId - User ID to generate recommendations for
+ * @param profile - Learner signals and the courses the learner can take next
  * @returns Array of recommended courses with reasoning
  *
  * @throws {RateLimitError} If user has exceeded rate limit (5/hour)
  */
 export async function getRecommendations(
-  userId: string
+  userId: string,
+  profile: RecommendationProfile
 ): Promise<CourseRecommendation[]> {
   if (!userId) {
     throw new ValidationError('User ID is required');
   }
 
+  if (profile.candidates.length === 0) {
+    throw new ValidationError('No candidate courses to recommend');
+  }
+
   const requestBody = {
-    prompt: { userId }, // ✅ Raw JSON, not stringified
+    prompt: { userId, ...profile }, // ✅ Raw JSON, not stringified
     type: 'recommendation',
   };
 
@@ -485,9 +526,101 @@ export async function getChatHistory(
     role: msg.role,
     content: msg.content,
     createdAt: msg.created_at,
+    helpful: msg.helpful ?? null,
   }));
 }
 
+/**
+ * Get the user's most recent active chat session for a course
+ *
+ * Tutor conversations are kept per course so learners can pick up where they
+ * left off when they return to a course.
+ *
+ * @param courseId - Course to find a session for
+ * @returns Session ID, or null if the user has not chatted about this course
+ */
+export async function getCourseChatSession(courseId: string): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new AuthenticationError();
+  }
+
+  const userId = session.user.user_metadata?.user_id;
+  if (!userId) {
+    throw new AuthenticationError('User ID not found in session');
+  }
+
+  const { data, error } = await supabase
+    .from('ai_chat_sessions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('course_id', courseId)
+    .eq('is_active', true)
+    .order('last_message_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new AIServiceError('Failed to fetch chat session', 'SESSION_FETCH_FAILED');
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * Build the plain-text lesson summary sent to the tutor as context
+ *
+ * Quiz answers are left out so the tutor can give hints without giving the
+ * answer away.
+ *
+ * @param lessonType - Lesson type from the lessons table
+ * @param content - Lesson content JSON
+ * @param maxLength - Maximum characters to include
+ */
+export function summarizeLessonForTutor(
+  lessonType: string,
+  content: any,
+  maxLength: number = 4000
+): string {
+  if (!content) return '';
+
+  const parts: string[] = [];
+
+  switch (lessonType) {
+    case 'text':
+      (content.sections || []).forEach((section: any) => {
+        if (section.heading) parts.push(`## ${section.heading}`);
+        if (section.text) parts.push(section.text);
+        if (Array.isArray(section.list)) {
+          section.list.forEach((item: string) => parts.push(`- ${item.replace(/\*\*/g, '')}`));
+        }
+      });
+      break;
+    case 'quiz':
+      (content.questions || []).forEach((question: any, index: number) => {
+        parts.push(`Q${index + 1}: ${question.question}`);
+        (question.options || []).forEach((option: string, optionIndex: number) => {
+          parts.push(`  ${String.fromCharCode(65 + optionIndex)}) ${option}`);
+        });
+      });
+      break;
+    case 'practical':
+      if (content.title) parts.push(content.title);
+      if (content.description) parts.push(content.description);
+      if (content.objective) parts.push(`Objective: ${content.objective}`);
+      (content.steps || []).forEach((step: string, index: number) => parts.push(`${index + 1}. ${step}`));
+      break;
+    default:
+      if (content.type) parts.push(`Interactive: ${content.type}`);
+      if (content.explanation) parts.push(content.explanation);
+      if (content.analogy) parts.push(content.analogy);
+  }
+
+  const summary = parts.join('\n');
+  return summary.length > maxLength ? `${summary.slice(0, maxLength)}…` : summary;
+}
+
 /**
  * Provide feedback on AI tutor response
  *
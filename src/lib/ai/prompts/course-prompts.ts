@@ -264,7 +264,7 @@ Interactive coding with tests:
 // TODO: Send 5 HBAR to recipient
 \`\`\`
 - **solution**: Complete working code
-- **tests**: Automated checks (e.g., "balance should increase")
+- **tests**: Automated checks; each "assertion" is a JavaScript expression evaluated against the learner's code and compared to "expected" (e.g., \`{ "assertion": "add(2, 3)", "expected": 5 }\`)
 - **hints**: Step-by-step guidance
 - **references**: Links to Hedera docs
 
@@ -313,6 +313,10 @@ Real hands-on exercises on Hedera TESTNET.
     - For: Advanced transaction analysis, flow tracing
     - Example: "Solve the blockchain mystery challenge"
 
+11. **"hcs_topics"** - HCS Topic Workshop
+    - For: Creating topics, submit keys, structured messages, verifying running hashes
+    - Example: "Track a coffee batch on your own HCS topic"
+
 **IMPORTANT**: Do NOT create custom interactiveType values. Use EXACTLY these strings from the list above.
 
 ### QUIZ Lessons
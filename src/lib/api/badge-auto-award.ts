@@ -216,36 +216,8 @@ async function awardBadgeToUser(userId: string, achievement: Achievement): Promi
       };
     }
 
-    // Award XP bonus
+    // The badge's XP bonus is awarded by a database trigger on user_achievements
     const xpReward = achievement.xp_reward || 50;
-    try {
-      await supabase.rpc('award_xp', {
-        p_user_id: userId,
-        p_xp_amount: xpReward
-      });
-    } catch (xpError) {
-      console.warn('[awardBadgeToUser] Failed to award XP, using fallback:', xpError);
-
-      // Fallback: Direct update
-      const { data: currentUser } = await supabase
-        .from('users')
-        .select('total_xp')
-        .eq('id', userId)
-        .maybeSingle();
-
-      if (currentUser) {
-        const newTotalXP = currentUser.total_xp + xpReward;
-        const calculatedLevel = Math.min(Math.floor(Math.sqrt(newTotalXP / 100)), 100);
-
-        await supabase
-          .from('users')
-          .update({
-            total_xp: newTotalXP,
-            current_level: calculatedLevel
-          })
-          .eq('id', userId);
-      }
-    }
 
     // Increment badges_earned counter
     const { data: currentUserData } = await supabase
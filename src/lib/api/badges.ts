@@ -4,7 +4,7 @@
  */
 
 import { supabase } from '../supabase/client';
-import type { Achievement, UserAchievement } from '../supabase/types';
+import type { Achievement, BadgeNftStatus, BadgeRarity, UserAchievement } from '../supabase/types';
 
 // ============================================================================
 // Types
@@ -14,17 +14,40 @@ export interface BadgeWithEarnedStatus extends Achievement {
   earned: boolean;
   earned_at?: string;
   nft_token_id?: string | null;
+  nft_serial_number?: number | null;
   nft_minted_at?: string | null;
+  nft_status?: BadgeNftStatus | null;
 }
 
 export interface EarnedBadge extends Achievement {
   earned_at: string;
   nft_token_id: string | null;
+  nft_serial_number: number | null;
   nft_minted_at: string | null;
   nft_transaction_id: string | null;
+  nft_status: BadgeNftStatus | null;
   user_achievement_id: string;
 }
 
+export interface BadgeNft {
+  achievementId: string;
+  tokenId: string;
+  serialNumber: number;
+  metadataUri: string;
+  mintTransactionId: string;
+  transferTransactionId?: string;
+  hashScanUrl: string;
+  status: BadgeNftStatus;
+}
+
+export interface ClaimBadgeNftResult {
+  success: boolean;
+  badge?: BadgeNft;
+  warning?: string;
+  associationRequired?: boolean; // Minted, but the wallet hasn't associated the collection yet
+  error?: string;
+}
+
 // ============================================================================
 // Badge Functions
 // ============================================================================
@@ -60,8 +83,10 @@ export async function getUserEarnedBadges(userId: string): Promise<EarnedBadge[]
         id,
         earned_at,
         nft_token_id,
+        nft_serial_number,
         nft_minted_at,
         nft_transaction_id,
+        nft_status,
         achievements:achievement_id (
           id,
           name,
@@ -90,8 +115,10 @@ export async function getUserEarnedBadges(userId: string): Promise<EarnedBadge[]
         ...achievement,
         earned_at: ua.earned_at,
         nft_token_id: ua.nft_token_id,
+        nft_serial_number: ua.nft_serial_number,
         nft_minted_at: ua.nft_minted_at,
         nft_transaction_id: ua.nft_transaction_id,
+        nft_status: ua.nft_status,
         user_achievement_id: ua.id
       };
     });
@@ -129,7 +156,9 @@ export async function getUserBadgesWithStatus(userId: string): Promise<BadgeWith
         earned,
         earned_at: earnedDetails?.earned_at,
         nft_token_id: earnedDetails?.nft_token_id,
-        nft_minted_at: earnedDetails?.nft_minted_at
+        nft_serial_number: earnedDetails?.nft_serial_number,
+        nft_minted_at: earnedDetails?.nft_minted_at,
+        nft_status: earnedDetails?.nft_status
       };
     });
 
@@ -232,3 +261,82 @@ export async function hasUserEarnedBadge(userId: string, badgeId: string): Promi
     return false;
   }
 }
+
+// ============================================================================
+// Badge NFTs
+// ============================================================================
+
+/**
+ * Call the mint-badge Edge Function as the signed-in learner
+ */
+async function invokeMintBadge(body: Record<string, unknown>): Promise<{ ok: boolean; result: any }> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    return {
+      ok: false,
+      result: { error: 'Authentication required. Please connect your wallet first.' },
+    };
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mint-badge`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  return { ok: response.ok, result: await response.json() };
+}
+
+/**
+ * Token ID of the NFT collection a badge is minted into
+ *
+ * There is one collection per rarity. The wallet must associate it before
+ * the badge can be transferred.
+ */
+export async function getBadgeCollectionTokenId(achievementId: string): Promise<{ tokenId: string; rarity: BadgeRarity }> {
+  const { ok, result } = await invokeMintBadge({ action: 'collection', achievementId });
+
+  if (!ok) {
+    throw new Error(result.error || 'Failed to get badge collection');
+  }
+
+  return { tokenId: result.tokenId, rarity: result.rarity };
+}
+
+/**
+ * Mint an earned badge as an NFT and transfer it to the learner's wallet
+ *
+ * Safe to retry: a badge that was minted but not transferred is transferred,
+ * not minted again.
+ */
+export async function claimBadgeNft(achievementId: string): Promise<ClaimBadgeNftResult> {
+  try {
+    console.log('🏅 Claiming badge NFT:', achievementId);
+
+    const { ok, result } = await invokeMintBadge({ action: 'claim', achievementId });
+
+    if (!ok) {
+      console.error('❌ Badge claim failed:', result.error);
+      return {
+        success: false,
+        error: result.error || 'Failed to claim badge',
+      };
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Badge claim error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
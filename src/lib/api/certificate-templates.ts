@@ -0,0 +1,122 @@
+/**
+ * Certificate Templates API
+ * Functions for admin-managed certificate layouts and their course/track assignments
+ */
+
+import { supabase } from '../supabase/client';
+import type { CertificateTemplate, CertificateTemplateAssignment, CourseTrack } from '../supabase/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SaveTemplateInput {
+  templateId?: string | null; // Omit to create
+  name: string;
+  description?: string | null;
+  svgTemplate: string;
+  isDefault?: boolean;
+}
+
+export interface AssignTemplateInput {
+  templateId: string | null; // null clears the assignment
+  courseId?: string;
+  track?: CourseTrack;
+}
+
+// ============================================================================
+// Template Functions
+// ============================================================================
+
+/**
+ * Get all certificate templates, default first
+ */
+export async function getCertificateTemplates(): Promise<CertificateTemplate[]> {
+  try {
+    const { data, error } = await supabase
+      .from('certificate_templates')
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching certificate templates:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get which template each course and track is assigned
+ */
+export async function getCertificateTemplateAssignments(): Promise<CertificateTemplateAssignment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('certificate_template_assignments')
+      .select('*');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching certificate template assignments:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create or update a template (admins only)
+ *
+ * @returns The template ID
+ */
+export async function saveCertificateTemplate(input: SaveTemplateInput): Promise<string> {
+  try {
+    const { data, error } = await supabase.rpc('save_certificate_template', {
+      p_template_id: input.templateId ?? null,
+      p_name: input.name,
+      p_description: input.description ?? null,
+      p_svg_template: input.svgTemplate,
+      p_is_default: input.isDefault ?? false,
+    });
+
+    if (error) throw error;
+    return data as string;
+  } catch (error) {
+    console.error('Error saving certificate template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a template and its assignments (admins only)
+ */
+export async function deleteCertificateTemplate(templateId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('delete_certificate_template', {
+      p_template_id: templateId,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting certificate template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Assign a template to a course or a track, or clear the assignment (admins only)
+ */
+export async function assignCertificateTemplate(input: AssignTemplateInput): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('assign_certificate_template', {
+      p_template_id: input.templateId,
+      p_course_id: input.courseId ?? null,
+      p_track: input.track ?? null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error assigning certificate template:', error);
+    throw error;
+  }
+}
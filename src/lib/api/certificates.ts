@@ -4,7 +4,9 @@
  * Client-side API for claiming and managing NFT certificates
  */
 
-import { supabase } from '../supabase/client';
+import { supabase, ilikeAnyFilter } from '../supabase/client';
+import { getMirrorNode } from '../hedera/mirror-node';
+import type { NFTCertificateStatus } from '../supabase/types';
 
 export interface Certificate {
   id: string;
@@ -37,9 +39,14 @@ export interface Certificate {
   };
   mint_transaction_id: string;
   transfer_transaction_id?: string;
-  status: 'minting' | 'minted' | 'transferred' | 'failed';
+  status: NFTCertificateStatus;
   minted_at: string;
   transferred_at?: string;
+  // Revocation and reissue
+  revoked_at?: string | null;
+  revocation_reason?: string | null;
+  supersedes?: string | null;
+  superseded_by?: string | null;
   // Join fields
   courses?: { title: string };
   users?: { username: string };
@@ -69,6 +76,41 @@ export interface ClaimCertificateResult {
   };
 }
 
+export interface AdminCertificateFilters {
+  status?: 'active' | 'revoked' | 'superseded';
+  search?: string; // Certificate number or course title
+  limit?: number;
+}
+
+export interface CertificateAdminResult {
+  success: boolean;
+  certificate?: {
+    id: string;
+    certificateNumber: string;
+    status: NFTCertificateStatus;
+  };
+  replacement?: {
+    id: string;
+    certificateNumber: string;
+    tokenId: string;
+    serialNumber: number;
+    status: NFTCertificateStatus;
+  } | null;
+  attestation?: {
+    topicId: string;
+    sequenceNumber: number;
+    transactionId: string;
+  };
+  error?: string;
+}
+
+export interface ExportCredentialResult {
+  success: boolean;
+  // Open Badges 3.0 credential with an eddsa-jcs-2022 proof
+  credential?: Record<string, unknown>;
+  error?: string;
+}
+
 export interface CertificateEligibility {
   eligible: boolean;
   reason?: string;
@@ -245,6 +287,155 @@ export async function getCertificateByNumber(
   }
 }
 
+/**
+ * Export a certificate as a signed Open Badges 3.0 / Verifiable Credential
+ *
+ * The credential names the Hedera token ID and serial as evidence and can be
+ * verified by anyone against the issuer's published key.
+ */
+export async function exportCertificateCredential(certificateId: string): Promise<ExportCredentialResult> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required. Please connect your wallet first.',
+      };
+    }
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-credential`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ certificateId }),
+      }
+    );
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('❌ Credential export failed:', result.error);
+      return { success: false, error: result.error || 'Failed to export credential' };
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Credential export error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
+
+// ============================================================================
+// Admin: Revocation and Reissue
+// ============================================================================
+
+/**
+ * Certificates for the admin dashboard, newest first
+ */
+export async function getCertificatesForAdmin(
+  filters: AdminCertificateFilters = {}
+): Promise<Certificate[]> {
+  try {
+    let query = supabase
+      .from('nft_certificates')
+      .select(`
+        *,
+        courses (title),
+        users (username)
+      `);
+
+    if (filters.status === 'active') {
+      query = query.in('status', ['minted', 'transferred']);
+    } else if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.search) {
+      query = query.or(ilikeAnyFilter(['certificate_number', 'course_title'], filters.search));
+    }
+
+    const { data, error } = await query
+      .order('issued_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching certificates for admin:', error);
+    throw error;
+  }
+}
+
+async function invokeCertificateAdmin(body: Record<string, unknown>): Promise<CertificateAdminResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    return {
+      success: false,
+      error: 'Authentication required. Please connect your wallet first.',
+    };
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/certificate-admin`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error('❌ Certificate admin action failed:', result.error);
+    return { success: false, error: result.error || 'Certificate admin action failed' };
+  }
+
+  return result;
+}
+
+/**
+ * Revoke a certificate (admins only)
+ *
+ * Recorded on the certificate and as a signed attestation on HCS.
+ */
+export async function revokeCertificate(
+  certificateId: string,
+  reason: string
+): Promise<CertificateAdminResult> {
+  return invokeCertificateAdmin({ action: 'revoke', certificateId, reason });
+}
+
+/**
+ * Reissue a certificate (admins only), e.g. after a name change
+ *
+ * Mints a replacement in the same collection and marks the original
+ * superseded by it.
+ *
+ * @param holderName - Name on the new certificate; defaults to the learner's current username
+ */
+export async function reissueCertificate(
+  certificateId: string,
+  reason: string,
+  holderName?: string
+): Promise<CertificateAdminResult> {
+  return invokeCertificateAdmin({ action: 'reissue', certificateId, reason, holderName });
+}
+
 /**
  * Log certificate verification
  */
@@ -270,17 +461,9 @@ export async function logCertificateVerification(
  */
 export async function fetchFromHFSMirror(
   fileId: string,
-  network: 'testnet' | 'mainnet' = 'testnet',
   maxRetries: number = 5,
   initialDelay: number = 2000
 ): Promise<Uint8Array> {
-  const mirrorNodeUrl =
-    network === 'testnet'
-      ? 'https://testnet.mirrornode.hedera.com'
-      : 'https://mainnet.mirrornode.hedera.com';
-
-  const url = `${mirrorNodeUrl}/api/v1/files/${fileId}`;
-
   let lastError: Error | null = null;
   let delay = initialDelay;
 
@@ -289,11 +472,9 @@ export async function fetchFromHFSMirror(
     try {
       console.log(`Fetching HFS file ${fileId} (attempt ${attempt + 1}/${maxRetries})...`);
 
-      const response = await fetch(url);
-
-      if (response.ok) {
-        const data = await response.json();
+      const data = await getMirrorNode().getFile(fileId, { ttlMs: 0 });
 
+      if (data) {
         // Decode base64 file_data
         const base64 = data.file_data;
         const binaryString = atob(base64);
@@ -307,15 +488,14 @@ export async function fetchFromHFSMirror(
       }
 
       // If 404, the file might not be indexed yet - retry
-      if (response.status === 404 && attempt < maxRetries - 1) {
+      if (attempt < maxRetries - 1) {
         console.log(`⏳ File ${fileId} not found yet, waiting ${delay}ms before retry...`);
         await new Promise(resolve => setTimeout(resolve, delay));
         delay *= 2; // Exponential backoff
         continue;
       }
 
-      // Other errors
-      lastError = new Error(`Failed to fetch file ${fileId}: ${response.status} ${response.statusText}`);
+      lastError = new Error(`File ${fileId} not found on the mirror node`);
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Network error');
 
@@ -336,7 +516,7 @@ export async function fetchFromHFSMirror(
  */
 export async function fetchCertificateSVG(imageHfsFileId: string): Promise<string> {
   try {
-    const svgBytes = await fetchFromHFSMirror(imageHfsFileId, 'testnet');
+    const svgBytes = await fetchFromHFSMirror(imageHfsFileId);
     return new TextDecoder().decode(svgBytes);
   } catch (error) {
     console.error('Error fetching certificate SVG:', error);
@@ -349,7 +529,7 @@ export async function fetchCertificateSVG(imageHfsFileId: string): Promise<strin
  */
 export async function fetchCertificateMetadata(metadataHfsFileId: string): Promise<any> {
   try {
-    const metadataBytes = await fetchFromHFSMirror(metadataHfsFileId, 'testnet');
+    const metadataBytes = await fetchFromHFSMirror(metadataHfsFileId);
     const metadataString = new TextDecoder().decode(metadataBytes);
     return JSON.parse(metadataString);
   } catch (error) {
@@ -380,3 +560,288 @@ export async function fetchCertificateSVGFromIPFS(ipfsHash: string): Promise<str
     throw error;
   }
 }
+
+// ============================================================================
+// Batch Verification
+// ============================================================================
+
+export const MAX_BATCH_VERIFICATION_ROWS = 100;
+
+export interface BatchVerificationRow {
+  line: number; // Line in the uploaded CSV
+  reference?: string; // e.g. the candidate's name
+  certificateNumber?: string;
+  tokenId?: string;
+  serialNumber?: number;
+}
+
+export interface BatchVerificationResult {
+  row: number;
+  reference?: string;
+  query?: string;
+  found: boolean;
+  valid: boolean;
+  status?: 'active' | 'revoked' | 'superseded';
+  certificateNumber?: string;
+  tokenId?: string;
+  serialNumber?: number;
+  holder?: {
+    name?: string;
+    hederaAccountId?: string | null;
+  };
+  course?: string;
+  completionDate?: string;
+  issuedAt?: string;
+  signatureValid?: boolean;
+  onChain?: {
+    found: boolean;
+    owner: string | null;
+    ownedByHolder: boolean;
+  };
+  revocationReason?: string;
+  verificationUrl?: string;
+  error?: string;
+}
+
+export interface BatchVerificationResponse {
+  success: boolean;
+  results?: BatchVerificationResult[];
+  // Verifiable Credential with an eddsa-jcs-2022 proof; null when signing isn't configured
+  report?: Record<string, unknown> | null;
+  error?: string;
+}
+
+export interface ReportVerificationResult {
+  valid: boolean;
+  proofValid: boolean;
+  issuedByPlatform: boolean;
+  error?: string;
+}
+
+const CSV_HEADER_FIELDS: Record<string, keyof Omit<BatchVerificationRow, 'line'>> = {
+  certificatenumber: 'certificateNumber',
+  certificate: 'certificateNumber',
+  cert: 'certificateNumber',
+  tokenid: 'tokenId',
+  token: 'tokenId',
+  serialnumber: 'serialNumber',
+  serial: 'serialNumber',
+  reference: 'reference',
+  candidate: 'reference',
+  name: 'reference',
+  email: 'reference',
+};
+
+const CERTIFICATE_NUMBER_PATTERN = /^W3V-\d{4}-\d+$/i;
+const TOKEN_ID_PATTERN = /^\d+\.\d+\.\d+$/;
+// 0.0.123/45, 0.0.123#45 or 0.0.123-45
+const TOKEN_SERIAL_PATTERN = /^(\d+\.\d+\.\d+)[/#-](\d+)$/;
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Read certificates to verify from a CSV
+ *
+ * With a header row, columns are matched by name (certificate_number,
+ * token_id, serial_number, and reference/candidate/name/email). Without one,
+ * each row is searched for a certificate number, a token ID followed by a
+ * serial, or a combined "0.0.123/45"; any other text is kept as the reference.
+ *
+ * @returns Recognised rows, and the line numbers that weren't
+ */
+export function parseVerificationCsv(text: string): { rows: BatchVerificationRow[]; skipped: number[] } {
+  const rows: BatchVerificationRow[] = [];
+  const skipped: number[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  const headerCells = splitCsvLine(lines[0] || '').map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ''));
+  const header = headerCells.some((cell) => CSV_HEADER_FIELDS[cell])
+    ? headerCells.map((cell) => CSV_HEADER_FIELDS[cell])
+    : null;
+
+  lines.forEach((line, index) => {
+    if ((header && index === 0) || !line.trim()) return;
+
+    const cells = splitCsvLine(line);
+    const row: BatchVerificationRow = { line: index + 1 };
+
+    if (header) {
+      cells.forEach((cell, column) => {
+        const field = header[column];
+        if (!field || !cell) return;
+        if (field === 'serialNumber') row.serialNumber = Number(cell);
+        else if (field === 'reference') row.reference = row.reference ? `${row.reference} ${cell}` : cell;
+        else row[field] = cell;
+      });
+    } else {
+      const references: string[] = [];
+      cells.forEach((cell, column) => {
+        const tokenSerial = cell.match(TOKEN_SERIAL_PATTERN);
+        if (CERTIFICATE_NUMBER_PATTERN.test(cell)) {
+          row.certificateNumber = cell;
+        } else if (tokenSerial) {
+          row.tokenId = tokenSerial[1];
+          row.serialNumber = Number(tokenSerial[2]);
+        } else if (TOKEN_ID_PATTERN.test(cell) && /^\d+$/.test(cells[column + 1] || '')) {
+          row.tokenId = cell;
+        } else if (row.tokenId && row.serialNumber === undefined && /^\d+$/.test(cell)) {
+          row.serialNumber = Number(cell);
+        } else if (cell) {
+          references.push(cell);
+        }
+      });
+      if (references.length > 0) row.reference = references.join(' ');
+    }
+
+    const hasCertificateNumber = !!row.certificateNumber && CERTIFICATE_NUMBER_PATTERN.test(row.certificateNumber);
+    const hasTokenSerial = !!row.tokenId && TOKEN_ID_PATTERN.test(row.tokenId)
+      && Number.isInteger(row.serialNumber) && (row.serialNumber as number) > 0;
+
+    if (hasCertificateNumber || hasTokenSerial) {
+      rows.push(row);
+    } else {
+      skipped.push(index + 1);
+    }
+  });
+
+  return { rows, skipped };
+}
+
+/**
+ * Verify up to MAX_BATCH_VERIFICATION_ROWS certificates at once
+ *
+ * Results come back in the order of `rows`, along with a report signed by the
+ * platform that can be kept and checked later.
+ */
+export async function verifyCertificatesBatch(rows: BatchVerificationRow[]): Promise<BatchVerificationResponse> {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/verify-certificate`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        },
+        body: JSON.stringify({
+          action: 'batch',
+          rows: rows.map(({ line: _line, ...row }) => row),
+        }),
+      }
+    );
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('❌ Batch verification failed:', result.error);
+      return { success: false, error: result.error || 'Batch verification failed' };
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Batch verification error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
+
+/**
+ * Check the signature on a previously downloaded verification report
+ */
+export async function verifySignedReport(report: unknown): Promise<ReportVerificationResult> {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-credential`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        },
+        body: JSON.stringify({ action: 'verify', credential: report }),
+      }
+    );
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      return { valid: false, proofValid: false, issuedByPlatform: false, error: result.error || 'Verification failed' };
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Report verification error:', error);
+    return {
+      valid: false,
+      proofValid: false,
+      issuedByPlatform: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
+
+/**
+ * Batch results as CSV, for spreadsheets (the signed report is the JSON)
+ */
+export function batchResultsToCsv(results: BatchVerificationResult[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = [
+    'reference', 'query', 'valid', 'status', 'certificate_number', 'holder', 'hedera_account',
+    'course', 'completion_date', 'signature_valid', 'on_chain', 'on_chain_owner', 'owned_by_holder', 'error',
+  ];
+
+  const lines = results.map((result) => [
+    result.reference,
+    result.query,
+    result.valid,
+    result.status,
+    result.certificateNumber,
+    result.holder?.name,
+    result.holder?.hederaAccountId,
+    result.course,
+    result.completionDate,
+    result.signatureValid,
+    result.onChain?.found,
+    result.onChain?.owner,
+    result.onChain?.ownedByHolder,
+    result.error,
+  ].map(escape).join(','));
+
+  return [header.join(','), ...lines].join('\n');
+}
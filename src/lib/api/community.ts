@@ -0,0 +1,423 @@
+/**
+ * Community API
+ * Functions for discussion threads, replies, votes and community stats
+ */
+
+import { supabase, ilikeAnyFilter } from '../supabase/client';
+import type {
+  DiscussionCategory,
+  DiscussionWithAuthor,
+  ReplyWithAuthor,
+  VoteType,
+} from '../supabase/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiscussionSort = 'recent' | 'popular' | 'unanswered';
+
+export interface CommunityDiscussionFilters {
+  category?: DiscussionCategory;
+  courseId?: string;
+  search?: string;
+  sort?: DiscussionSort;
+  limit?: number;
+}
+
+export interface CreateDiscussionInput {
+  authorId: string;
+  title: string;
+  content: string;
+  category: DiscussionCategory;
+  tags?: string[];
+  courseId?: string | null;
+}
+
+export interface CreateReplyInput {
+  authorId: string;
+  discussionId: string;
+  content: string;
+  parentReplyId?: string | null;
+}
+
+export interface ThreadedReply extends ReplyWithAuthor {
+  children: ThreadedReply[];
+}
+
+export interface VoteResult {
+  score: number;
+  userVote: VoteType | null;
+}
+
+/** Map of discussion/reply ID to the current user's vote */
+export type UserVoteMap = Record<string, VoteType>;
+
+export interface CommunityStats {
+  active_members: number;
+  total_discussions: number;
+  total_replies: number;
+  questions_answered: number;
+}
+
+export interface TopContributor {
+  user_id: string;
+  username: string;
+  avatar_emoji: string;
+  answer_count: number;
+  solution_count: number;
+}
+
+const AUTHOR_SELECT = 'author:users!author_id (id, username, avatar_emoji)';
+
+// ============================================================================
+// Discussion Functions
+// ============================================================================
+
+/**
+ * Get discussions with author details
+ * Pinned threads always come first, followed by the requested sort order.
+ */
+export async function getDiscussions(
+  filters: CommunityDiscussionFilters = {}
+): Promise<DiscussionWithAuthor[]> {
+  try {
+    let query = supabase
+      .from('discussions')
+      .select(`*, ${AUTHOR_SELECT}`);
+
+    if (filters.category) {
+      query = query.eq('category', filters.category);
+    }
+
+    if (filters.courseId) {
+      query = query.eq('course_id', filters.courseId);
+    }
+
+    if (filters.search) {
+      query = query.or(ilikeAnyFilter(['title', 'content'], filters.search));
+    }
+
+    if (filters.sort === 'unanswered') {
+      query = query.eq('is_solved', false).eq('reply_count', 0);
+    }
+
+    query = query.order('is_pinned', { ascending: false });
+
+    if (filters.sort === 'popular') {
+      query = query.order('upvote_count', { ascending: false });
+    }
+
+    query = query
+      .order('last_activity_at', { ascending: false })
+      .limit(filters.limit || 50);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as DiscussionWithAuthor[];
+  } catch (error) {
+    console.error('Error fetching discussions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single discussion with author details
+ */
+export async function getDiscussionById(discussionId: string): Promise<DiscussionWithAuthor | null> {
+  try {
+    const { data, error } = await supabase
+      .from('discussions')
+      .select(`*, ${AUTHOR_SELECT}`)
+      .eq('id', discussionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as DiscussionWithAuthor | null;
+  } catch (error) {
+    console.error('Error fetching discussion:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a new discussion thread
+ */
+export async function createDiscussion(input: CreateDiscussionInput): Promise<DiscussionWithAuthor> {
+  const title = input.title.trim();
+  const content = input.content.trim();
+
+  if (!title || !content) {
+    throw new Error('Title and content are required');
+  }
+
+  const tags = (input.tags || [])
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag, index, all) => tag.length > 0 && all.indexOf(tag) === index)
+    .slice(0, 5);
+
+  try {
+    const { data, error } = await supabase
+      .from('discussions')
+      .insert({
+        author_id: input.authorId,
+        course_id: input.courseId || null,
+        title,
+        content,
+        category: input.category,
+        tags: tags.length > 0 ? tags : null,
+      })
+      .select(`*, ${AUTHOR_SELECT}`)
+      .single();
+
+    if (error) throw error;
+    return data as DiscussionWithAuthor;
+  } catch (error) {
+    console.error('Error creating discussion:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a view of a discussion (fire-and-forget, signed-in users only;
+ * the database counts each user once)
+ */
+export async function recordDiscussionView(discussionId: string): Promise<void> {
+  const { error } = await supabase.rpc('increment_discussion_views', {
+    p_discussion_id: discussionId,
+  });
+
+  if (error) {
+    console.warn('Failed to record discussion view:', error);
+  }
+}
+
+/**
+ * Pin/unpin or lock/unlock a discussion (admins only, enforced in the database)
+ */
+export async function moderateDiscussion(
+  discussionId: string,
+  updates: { isPinned?: boolean; isLocked?: boolean }
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('moderate_discussion', {
+      p_discussion_id: discussionId,
+      p_is_pinned: updates.isPinned ?? null,
+      p_is_locked: updates.isLocked ?? null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error moderating discussion:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Reply Functions
+// ============================================================================
+
+/**
+ * Get all replies for a discussion as a flat, chronological list
+ */
+export async function getDiscussionReplies(discussionId: string): Promise<ReplyWithAuthor[]> {
+  try {
+    const { data, error } = await supabase
+      .from('replies')
+      .select(`*, ${AUTHOR_SELECT}`)
+      .eq('discussion_id', discussionId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as ReplyWithAuthor[];
+  } catch (error) {
+    console.error('Error fetching replies:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build a reply tree from a flat list using parent_reply_id.
+ * The accepted solution is lifted to the top of the root level.
+ */
+export function buildReplyTree(replies: ReplyWithAuthor[]): ThreadedReply[] {
+  const nodes = new Map<string, ThreadedReply>();
+  replies.forEach((reply) => nodes.set(reply.id, { ...reply, children: [] }));
+
+  const roots: ThreadedReply[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent_reply_id ? nodes.get(node.parent_reply_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots.sort((a, b) => Number(b.is_solution) - Number(a.is_solution));
+}
+
+/**
+ * Post a reply (optionally nested under another reply)
+ */
+export async function createReply(input: CreateReplyInput): Promise<ReplyWithAuthor> {
+  const content = input.content.trim();
+
+  if (!content) {
+    throw new Error('Reply cannot be empty');
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('replies')
+      .insert({
+        discussion_id: input.discussionId,
+        author_id: input.authorId,
+        parent_reply_id: input.parentReplyId || null,
+        content,
+        is_solution: false,
+        upvote_count: 0,
+      })
+      .select(`*, ${AUTHOR_SELECT}`)
+      .single();
+
+    if (error) {
+      // RLS rejects replies to locked threads
+      if (error.code === '42501') {
+        throw new Error('This discussion is locked');
+      }
+      throw error;
+    }
+
+    return data as ReplyWithAuthor;
+  } catch (error) {
+    console.error('Error creating reply:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mark (or unmark) a reply as the accepted solution
+ *
+ * @returns true if the reply is now the solution, false if it was unmarked
+ */
+export async function toggleReplySolution(replyId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('toggle_reply_solution', {
+      p_reply_id: replyId,
+    });
+
+    if (error) throw error;
+    return !!data;
+  } catch (error) {
+    console.error('Error toggling reply solution:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Vote Functions
+// ============================================================================
+
+/**
+ * Cast a vote on a discussion or reply.
+ * Repeating the same vote removes it; the opposite vote replaces it.
+ */
+export async function castVote(
+  target: { discussionId: string } | { replyId: string },
+  voteType: VoteType
+): Promise<VoteResult> {
+  try {
+    const { data, error } = await supabase.rpc('cast_discussion_vote', {
+      p_vote_type: voteType,
+      p_discussion_id: 'discussionId' in target ? target.discussionId : null,
+      p_reply_id: 'replyId' in target ? target.replyId : null,
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      score: row?.score ?? 0,
+      userVote: row?.user_vote ?? null,
+    };
+  } catch (error) {
+    console.error('Error casting vote:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the current user's votes, keyed by discussion or reply ID
+ */
+export async function getUserVotes(userId: string): Promise<UserVoteMap> {
+  try {
+    const { data, error } = await supabase
+      .from('discussion_votes')
+      .select('discussion_id, reply_id, vote_type')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    const votes: UserVoteMap = {};
+    (data || []).forEach((vote: any) => {
+      const key = vote.discussion_id || vote.reply_id;
+      if (key) votes[key] = vote.vote_type;
+    });
+    return votes;
+  } catch (error) {
+    console.error('Error fetching user votes:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Stats Functions
+// ============================================================================
+
+/**
+ * Get live community statistics
+ */
+export async function getCommunityStats(): Promise<CommunityStats> {
+  try {
+    const { data, error } = await supabase.rpc('get_community_stats');
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      active_members: row?.active_members ?? 0,
+      total_discussions: row?.total_discussions ?? 0,
+      total_replies: row?.total_replies ?? 0,
+      questions_answered: row?.questions_answered ?? 0,
+    };
+  } catch (error) {
+    console.error('Error fetching community stats:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get top community contributors ranked by accepted solutions and replies
+ */
+export async function getTopContributors(limit: number = 5): Promise<TopContributor[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_top_contributors', {
+      entry_limit: limit,
+    });
+
+    if (error) throw error;
+
+    return (data || []).map((entry: any) => ({
+      user_id: entry.user_id,
+      username: entry.username,
+      avatar_emoji: entry.avatar_emoji || '👤',
+      answer_count: entry.answer_count,
+      solution_count: entry.solution_count,
+    }));
+  } catch (error) {
+    console.error('Error fetching top contributors:', error);
+    throw error;
+  }
+}
@@ -1,18 +1,12 @@
 /**
  * Progress & Lesson Completion API
  *
- * Handles lesson completion tracking, XP calculation, and progress updates.
- * Implements idempotent operations and proper XP reward logic.
+ * Handles lesson completion tracking and progress updates.
+ * Completion and XP are awarded server-side by the complete-lesson edge function.
  */
 
 import { supabase } from '../supabase/client';
-import type {
-  LessonCompletion,
-  LessonCompletionInsert,
-  UserProgress,
-  Lesson,
-  LessonType,
-} from '../supabase/types';
+import type { LessonCompletion } from '../supabase/types';
 import { checkAndAwardBadges, type BadgeAwardResult } from './badge-auto-award';
 
 // ============================================================================
@@ -27,6 +21,10 @@ export interface LessonCompleteResult {
   leveledUp?: boolean;
   courseComplete: boolean;
   badgesEarned?: BadgeAwardResult[];
+  /** Server-graded quiz score */
+  scorePercentage?: number;
+  /** Set when the lesson was completed too quickly */
+  retryAfterSeconds?: number;
   error?: string;
 }
 
@@ -39,355 +37,104 @@ export interface CourseProgressData {
 }
 
 // ============================================================================
-// XP Calculation
+// Lesson Completion Functions
 // ============================================================================
 
 /**
- * Calculate XP based on lesson type and quiz score
+ * Record that the signed-in user opened a lesson
  *
- * Business Rules:
- * - Text lesson: 10 XP
- * - Interactive lesson: 10 XP
- * - Quiz (70-99%): 20 XP
- * - Quiz (100%): 30 XP (bonus for perfect score)
- * - Practical lesson: 50 XP
+ * The start time is taken from the database clock and is what the
+ * complete-lesson edge function uses to enforce minimum time on a lesson.
+ * Only the first call per lesson counts, so it is safe to call on every visit.
  *
- * @param lessonType - Type of lesson
- * @param score - Quiz score percentage (0-100)
- * @returns XP amount
+ * @param lessonId - Lesson ID
  */
-function calculateLessonXP(lessonType: LessonType, score?: number): number {
-  switch (lessonType) {
-    case 'text':
-      return 10;
-    case 'interactive':
-      return 10;
-    case 'quiz':
-      if (score === undefined) return 0; // Quiz needs score
-      if (score < 70) return 0; // Failed quiz, no XP
-      if (score === 100) return 30; // Perfect score bonus
-      return 20; // Passing score
-    case 'practical':
-      return 50;
-    default:
-      return 0;
+export async function startLessonSession(lessonId: string): Promise<void> {
+  const { error } = await supabase.rpc('start_lesson_session', {
+    p_lesson_id: lessonId,
+  });
+
+  if (error) {
+    console.warn('Failed to start lesson session:', error);
   }
 }
 
-// ============================================================================
-// Lesson Completion Functions
-// ============================================================================
-
 /**
  * Mark a lesson as complete and award XP
  *
- * This function is IDEMPOTENT - completing the same lesson twice won't
- * award XP again. It will return the original completion data.
- *
- * Steps:
- * 1. Check if already completed (return existing data)
- * 2. Get lesson details to determine XP
- * 3. Insert into lesson_completions
- * 4. Award XP using database function
- * 5. Update user_progress (percentage, current_lesson)
- * 6. Check if course is complete
- * 7. Award course completion bonus if complete
+ * Completion is server-authoritative: the complete-lesson edge function
+ * re-grades quiz answers, checks time on lesson and awards lesson XP plus the
+ * course completion bonus in one transaction (XP rules live in
+ * calculate_lesson_xp() in migration 023). Completing the same lesson twice
+ * awards nothing.
  *
- * @param userId - User UUID
+ * @param userId - User UUID (must match the signed-in session)
  * @param lessonId - Lesson ID
  * @param courseId - Course ID
- * @param score - Quiz score percentage (optional)
- * @param timeSpentSeconds - Time spent on lesson (optional)
+ * @param answers - Selected option index per question (quiz lessons only)
  * @returns Completion result with XP and level info
  */
 export async function markLessonComplete(
   userId: string,
   lessonId: string,
   courseId: string,
-  score?: number,
-  timeSpentSeconds?: number
+  answers?: (number | null)[]
 ): Promise<LessonCompleteResult> {
-  try {
-    console.log('[markLessonComplete] Starting:', { userId, lessonId, courseId, score });
-
-    // Step 1: Check if already completed (idempotent)
-    const { data: existing, error: existingError } = await supabase
-      .from('lesson_completions')
-      .select('xp_earned')
-      .eq('user_id', userId)
-      .eq('lesson_id', lessonId)
-      .maybeSingle();
-
-    if (existingError) {
-      console.error('[markLessonComplete] Error checking existing completion:', existingError);
-    }
-
-    if (existing) {
-      console.log('[markLessonComplete] Lesson already completed, returning cached result');
-      // Already completed, return without awarding XP again
-      const { data: currentProgress } = await supabase
-        .from('user_progress')
-        .select('progress_percentage')
-        .eq('user_id', userId)
-        .eq('course_id', courseId)
-        .maybeSingle();
-
-      const { data: userData } = await supabase
-        .from('users')
-        .select('current_level')
-        .eq('id', userId)
-        .maybeSingle();
+  const failure = (error: string, extra: Partial<LessonCompleteResult> = {}): LessonCompleteResult => ({
+    success: false,
+    xpEarned: 0,
+    newLevel: 1,
+    courseComplete: false,
+    error,
+    ...extra,
+  });
 
-      return {
-        success: true,
-        xpEarned: 0, // No XP for duplicate completion
-        newLevel: userData?.current_level || 1,
-        courseComplete: (currentProgress?.progress_percentage || 0) === 100,
-      };
-    }
-
-    // Step 2: Get lesson details and validate it belongs to this course
-    const { data: lesson, error: lessonError } = await supabase
-      .from('lessons')
-      .select('lesson_type, completion_xp, perfect_score_xp, course_id')
-      .eq('id', lessonId)
-      .maybeSingle();
-
-    if (lessonError || !lesson) {
-      console.error('[markLessonComplete] Error fetching lesson:', lessonError);
-      return {
-        success: false,
-        xpEarned: 0,
-        newLevel: 1,
-        courseComplete: false,
-        error: 'Lesson not found',
-      };
-    }
-
-    // Validate lesson belongs to the specified course
-    const lessonCourseId = (lesson as any).course_id;
-    if (lessonCourseId !== courseId) {
-      console.error(`[markLessonComplete] Lesson ${lessonId} does not belong to course ${courseId}, it belongs to ${lessonCourseId}`);
-      return {
-        success: false,
-        xpEarned: 0,
-        newLevel: 1,
-        courseComplete: false,
-        error: 'Lesson does not belong to this course',
-      };
-    }
-
-    // Calculate XP based on lesson type and score
-    const xpEarned = calculateLessonXP(lesson.lesson_type, score);
-
-    // For quizzes, check minimum passing score
-    if (lesson.lesson_type === 'quiz' && (score === undefined || score < 70)) {
-      return {
-        success: false,
-        xpEarned: 0,
-        newLevel: 1,
-        courseComplete: false,
-        error: 'Quiz score below 70% - not marked as complete',
-      };
-    }
-
-    // Step 3: Insert into lesson_completions
-    const completionData: LessonCompletionInsert = {
-      user_id: userId,
-      lesson_id: lessonId,
-      course_id: courseId,
-      completed_at: new Date().toISOString(),
-      time_spent_seconds: timeSpentSeconds || null,
-      score_percentage: score || null,
-      attempts: 1,
-      xp_earned: xpEarned,
-    };
-
-    console.log('[markLessonComplete] Inserting lesson completion:', completionData);
-    const { error: insertError } = await supabase
-      .from('lesson_completions')
-      .insert(completionData);
-
-    if (insertError) {
-      console.error('[markLessonComplete] Error inserting lesson completion:', insertError);
-      return {
-        success: false,
-        xpEarned: 0,
-        newLevel: 1,
-        courseComplete: false,
-        error: `Failed to save completion: ${insertError.message}`,
-      };
-    }
-    console.log('[markLessonComplete] Lesson completion inserted successfully');
-
-    // Step 3.5: Increment lessons_completed counter
-    console.log('[markLessonComplete] Incrementing lessons_completed counter');
-    const { error: counterError } = await supabase.rpc('increment_lessons_completed', {
-      p_user_id: userId
-    });
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
 
-    if (counterError) {
-      console.warn('[markLessonComplete] Failed to update lessons counter:', counterError);
-      // Non-fatal - continue with rest of flow
+    if (!session) {
+      return failure('Authentication required. Please connect your wallet first.');
     }
 
-    // Step 4: Award XP and update level (track old level for level-up detection)
-    let oldLevel = 1;
-    let newLevel = 1;
-
-    // Get current level before XP award
-    const { data: preXPUser } = await supabase
-      .from('users')
-      .select('current_level')
-      .eq('id', userId)
-      .maybeSingle();
-
-    oldLevel = preXPUser?.current_level || 1;
-
-    if (xpEarned > 0) {
-      try {
-        // Try using award_xp function first
-        const { error: xpError } = await supabase.rpc('award_xp', {
-          p_user_id: userId,
-          p_xp_amount: xpEarned,
-        });
-
-        if (xpError) {
-          console.warn('award_xp function failed, using direct update:', xpError);
-
-          // Fallback: Direct SQL update
-          const { data: currentUser } = await supabase
-            .from('users')
-            .select('total_xp')
-            .eq('id', userId)
-            .maybeSingle();
-
-          if (currentUser) {
-            const newTotalXP = currentUser.total_xp + xpEarned;
-            const calculatedLevel = Math.min(Math.floor(Math.sqrt(newTotalXP / 100)), 100);
-
-            // Get current lessons_completed count
-            const { data: userData } = await supabase
-              .from('users')
-              .select('lessons_completed')
-              .eq('id', userId)
-              .maybeSingle();
-
-            await supabase
-              .from('users')
-              .update({
-                total_xp: newTotalXP,
-                current_level: calculatedLevel,
-                lessons_completed: (userData?.lessons_completed || 0) + 1,
-              })
-              .eq('id', userId);
-
-            newLevel = calculatedLevel;
-          }
-        } else {
-          // Get updated level after award_xp
-          const { data: userData } = await supabase
-            .from('users')
-            .select('current_level')
-            .eq('id', userId)
-            .maybeSingle();
-
-          newLevel = userData?.current_level || 1;
-        }
-      } catch (err) {
-        console.error('Error in XP award process:', err);
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/complete-lesson`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ lessonId, courseId, answers }),
       }
-    }
+    );
 
-    // Step 5: Wait for database trigger to update progress
-    // The update_course_progress() trigger automatically:
-    // - Counts completed lessons from lesson_completions table
-    // - Updates user_progress (lessons_completed, progress_percentage, completed_at)
-    // - Increments users.courses_completed when course completes
-    console.log('[markLessonComplete] Waiting for database trigger to update progress...');
+    const result = await response.json();
 
-    // Small delay to ensure trigger completes (triggers run asynchronously)
-    await new Promise(resolve => setTimeout(resolve, 300));
-
-    // Step 6: Fetch the UPDATED progress (after trigger ran)
-    const { data: updatedProgress, error: progressError } = await supabase
-      .from('user_progress')
-      .select('lessons_completed, total_lessons, progress_percentage, completed_at')
-      .eq('user_id', userId)
-      .eq('course_id', courseId)
-      .maybeSingle();
-
-    if (progressError) {
-      console.error('[markLessonComplete] Error fetching updated progress:', progressError);
-      return {
-        success: false,
-        xpEarned: 0,
-        newLevel: 1,
-        courseComplete: false,
-        error: 'Failed to fetch updated progress',
-      };
+    if (!response.ok || !result.success) {
+      console.error('[markLessonComplete] Completion rejected:', result.error);
+      return failure(result.error || 'Failed to save completion', {
+        scorePercentage: result.scorePercentage ?? undefined,
+        retryAfterSeconds: result.retryAfterSeconds,
+      });
     }
 
-    if (!updatedProgress) {
-      console.error('[markLessonComplete] No user_progress record found! User may not be enrolled.');
+    if (result.alreadyCompleted) {
       return {
-        success: false,
-        xpEarned: 0,
-        newLevel: 1,
-        courseComplete: false,
-        error: 'User not enrolled in course. Please enroll first.',
+        success: true,
+        xpEarned: 0, // No XP for duplicate completion
+        newLevel: result.newLevel,
+        courseComplete: result.courseComplete,
       };
     }
 
-    console.log('[markLessonComplete] Updated progress after trigger:', updatedProgress);
-
-    // Step 7: Check if course was just completed by the trigger
-    // Course is complete when lessons_completed reaches total_lessons
-    const courseComplete = updatedProgress.lessons_completed >= updatedProgress.total_lessons;
-
-    // Step 8: Award course completion bonus (only on the FINAL lesson)
-    // The trigger sets completed_at when course completes, so check if it's recent
-    if (courseComplete && updatedProgress.completed_at) {
-      const completedTime = new Date(updatedProgress.completed_at).getTime();
-      const now = Date.now();
-      const justCompleted = now - completedTime < 5000; // Within last 5 seconds
-
-      if (justCompleted) {
-        console.log('[markLessonComplete] Course just completed! Awarding bonus XP');
-
-        // Award 100 XP bonus
-        try {
-          const { error: bonusError } = await supabase.rpc('award_xp', {
-            p_user_id: userId,
-            p_xp_amount: 100,
-          });
-
-          if (bonusError) {
-            console.warn('Bonus XP award failed:', bonusError);
-          } else {
-            // Get updated level after bonus
-            const { data: updatedUser } = await supabase
-              .from('users')
-              .select('current_level')
-              .eq('id', userId)
-              .maybeSingle();
-
-            newLevel = updatedUser?.current_level || newLevel;
-          }
-        } catch (err) {
-          console.error('Error awarding bonus XP:', err);
-        }
-      }
-    }
-
-    // Step 9: Check and award badges
-    console.log('[markLessonComplete] Checking for badge awards...');
+    // Check and award badges (badges can cause level-ups too)
+    let newLevel: number = result.newLevel;
     const badgesEarned = await checkAndAwardBadges(userId);
 
     if (badgesEarned.length > 0) {
       console.log(`[markLessonComplete] ✨ Awarded ${badgesEarned.length} badge(s):`, badgesEarned.map(b => b.badgeName));
 
-      // Update level after badge XP (badges can cause level-ups too)
       const { data: postBadgeUser } = await supabase
         .from('users')
         .select('current_level')
@@ -399,36 +146,19 @@ export async function markLessonComplete(
       }
     }
 
-    const totalXpEarned = xpEarned + (courseComplete ? 100 : 0);
-    const leveledUp = newLevel > oldLevel;
-
-    console.log('[markLessonComplete] Success!', {
-      xpEarned: totalXpEarned,
-      oldLevel,
-      newLevel,
-      leveledUp,
-      courseComplete,
-      badgesEarned: badgesEarned.length
-    });
-
     return {
       success: true,
-      xpEarned: totalXpEarned,
-      oldLevel,
+      xpEarned: result.xpEarned,
+      oldLevel: result.oldLevel,
       newLevel,
-      leveledUp,
-      courseComplete,
+      leveledUp: newLevel > result.oldLevel,
+      courseComplete: result.courseComplete,
+      scorePercentage: result.scorePercentage ?? undefined,
       badgesEarned: badgesEarned.length > 0 ? badgesEarned : undefined,
     };
   } catch (error) {
     console.error('Unexpected error marking lesson complete:', error);
-    return {
-      success: false,
-      xpEarned: 0,
-      newLevel: 1,
-      courseComplete: false,
-      error: 'An unexpected error occurred',
-    };
+    return failure('An unexpected error occurred');
   }
 }
 
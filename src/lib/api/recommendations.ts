@@ -0,0 +1,302 @@
+/**
+ * Course Recommendations API
+ *
+ * Ranks unenrolled courses for the "Recommended next" section of the dashboard.
+ *
+ * Features:
+ * - Learner profile from completed courses, prerequisites and quiz scores
+ * - AI-ranked recommendations when AI is enabled and quota remains
+ * - Deterministic rule-based ranking as a fallback
+ */
+
+import { supabase } from '../supabase/client';
+import type { Course, CourseDifficulty } from '../supabase/types';
+import {
+  getAIQuota,
+  getRecommendations,
+  isAIEnabled,
+  type CourseRecommendation,
+  type RecommendationProfile,
+} from '../ai/ai-service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RecommendedCourse extends CourseRecommendation {
+  course: Course;
+}
+
+export interface RecommendationResult {
+  recommendations: RecommendedCourse[];
+  source: 'ai' | 'rules';
+}
+
+/**
+ * Everything needed to rank courses, with the AI profile derived from it
+ */
+export interface LearnerSnapshot {
+  profile: RecommendationProfile;
+  courses: Map<string, Course>;
+  completedIds: Set<string>;
+  prerequisitesByCourse: Map<string, string[]>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Average quiz score (%) below which a course counts as a weak spot */
+export const WEAK_SPOT_THRESHOLD = 70;
+
+const DIFFICULTY_RANK: Record<CourseDifficulty, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+};
+
+// ============================================================================
+// Learner Profile
+// ============================================================================
+
+/**
+ * Collect the learner signals used to rank courses
+ *
+ * @param userId - User ID
+ * @returns Learner snapshot; `profile.candidates` are unenrolled courses whose prerequisites are met
+ */
+export async function buildRecommendationProfile(userId: string): Promise<LearnerSnapshot> {
+  try {
+    const [coursesResult, progressResult, prerequisitesResult, scoresResult] = await Promise.all([
+      supabase.from('courses').select('*').eq('is_published', true).eq('is_coming_soon', false),
+      supabase.from('user_progress').select('course_id, completed_at').eq('user_id', userId),
+      supabase.from('course_prerequisites').select('course_id, prerequisite_course_id'),
+      supabase
+        .from('lesson_completions')
+        .select('course_id, score_percentage')
+        .eq('user_id', userId)
+        .not('score_percentage', 'is', null),
+    ]);
+
+    const firstError =
+      coursesResult.error || progressResult.error || prerequisitesResult.error || scoresResult.error;
+    if (firstError) throw firstError;
+
+    const courses = new Map<string, Course>(
+      ((coursesResult.data || []) as Course[]).map((course) => [course.id, course])
+    );
+
+    const enrolledIds = new Set<string>();
+    const completedIds = new Set<string>();
+    (progressResult.data || []).forEach((row: any) => {
+      enrolledIds.add(row.course_id);
+      if (row.completed_at) completedIds.add(row.course_id);
+    });
+
+    const prerequisitesByCourse = new Map<string, string[]>();
+    (prerequisitesResult.data || []).forEach((row: any) => {
+      const list = prerequisitesByCourse.get(row.course_id) || [];
+      list.push(row.prerequisite_course_id);
+      prerequisitesByCourse.set(row.course_id, list);
+    });
+
+    // Average quiz score per course
+    const scoreTotals = new Map<string, { sum: number; count: number }>();
+    (scoresResult.data || []).forEach((row: any) => {
+      const total = scoreTotals.get(row.course_id) || { sum: 0, count: 0 };
+      total.sum += row.score_percentage;
+      total.count += 1;
+      scoreTotals.set(row.course_id, total);
+    });
+
+    const weakSpots = Array.from(scoreTotals.entries())
+      .map(([courseId, { sum, count }]) => ({
+        courseId,
+        courseTitle: courses.get(courseId)?.title || courseId,
+        averageScore: Math.round(sum / count),
+      }))
+      .filter((spot) => spot.averageScore < WEAK_SPOT_THRESHOLD)
+      .sort((a, b) => a.averageScore - b.averageScore);
+
+    // Preferred track = the track the learner has enrolled in most
+    const trackCounts = { explorer: 0, developer: 0 };
+    enrolledIds.forEach((id) => {
+      const course = courses.get(id);
+      if (course) trackCounts[course.track] += 1;
+    });
+    const preferredTrack =
+      trackCounts.explorer === 0 && trackCounts.developer === 0
+        ? null
+        : trackCounts.developer > trackCounts.explorer
+        ? 'developer'
+        : 'explorer';
+
+    const candidates = Array.from(courses.values())
+      .filter((course) => !enrolledIds.has(course.id))
+      .filter((course) => (prerequisitesByCourse.get(course.id) || []).every((id) => completedIds.has(id)))
+      .map((course) => ({
+        id: course.id,
+        title: course.title,
+        track: course.track,
+        difficulty: course.difficulty,
+        category: course.category,
+        prerequisitesMet: prerequisitesByCourse.get(course.id) || [],
+      }));
+
+    const profile: RecommendationProfile = {
+      preferredTrack,
+      completedCourses: Array.from(completedIds)
+        .map((id) => courses.get(id))
+        .filter((course): course is Course => !!course)
+        .map((course) => ({
+          id: course.id,
+          title: course.title,
+          track: course.track,
+          difficulty: course.difficulty,
+        })),
+      inProgressCourses: Array.from(enrolledIds)
+        .filter((id) => !completedIds.has(id))
+        .map((id) => ({ id, title: courses.get(id)?.title || id })),
+      weakSpots,
+      candidates,
+    };
+
+    return { profile, courses, completedIds, prerequisitesByCourse };
+  } catch (error) {
+    console.error('Error building recommendation profile:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Rule-Based Ranking
+// ============================================================================
+
+/**
+ * Rank candidate courses without AI
+ *
+ * Deterministic: the same learner data always produces the same order.
+ *
+ * @param snapshot - Learner snapshot from buildRecommendationProfile()
+ * @param limit - Maximum number of recommendations
+ */
+export function rankCoursesForLearner(snapshot: LearnerSnapshot, limit: number = 3): RecommendedCourse[] {
+  const { profile, courses } = snapshot;
+
+  // Highest difficulty completed per track
+  const levelByTrack = new Map<string, number>();
+  profile.completedCourses.forEach((completed) => {
+    const rank = DIFFICULTY_RANK[completed.difficulty as CourseDifficulty] ?? 0;
+    levelByTrack.set(completed.track, Math.max(levelByTrack.get(completed.track) ?? -1, rank));
+  });
+
+  const weakCourses = profile.weakSpots
+    .map((spot) => courses.get(spot.courseId))
+    .filter((course): course is Course => !!course);
+
+  return profile.candidates
+    .map((candidate) => {
+      const course = courses.get(candidate.id)!;
+      const reasons: string[] = [];
+      let score = 40;
+
+      // Track fit
+      if (profile.preferredTrack && course.track === profile.preferredTrack) {
+        score += 15;
+        reasons.push(`continues your ${course.track} track`);
+      }
+
+      // Difficulty: the next step up is ideal, skipping a level is not
+      const level = levelByTrack.get(course.track) ?? -1;
+      const step = DIFFICULTY_RANK[course.difficulty] - level;
+      if (step === 1) {
+        score += 20;
+        reasons.push(level < 0 ? 'a good place to start' : `the next step up to ${course.difficulty}`);
+      } else if (step === 0) {
+        score += 10;
+      } else if (step > 1) {
+        score -= 15 * (step - 1);
+      }
+
+      // Builds directly on completed courses
+      if (candidate.prerequisitesMet.length > 0) {
+        score += 15;
+        const titles = candidate.prerequisitesMet.map((id) => courses.get(id)?.title || id);
+        reasons.push(`builds on ${titles.join(' and ')}`);
+      }
+
+      // Quiz weak spots: reinforce the topic before moving on to harder material
+      const weakMatch = weakCourses.find((weak) => weak.category === course.category);
+      if (weakMatch) {
+        if (DIFFICULTY_RANK[course.difficulty] <= DIFFICULTY_RANK[weakMatch.difficulty]) {
+          score += 15;
+          reasons.push(`reinforces ${course.category}, where your quiz scores were lower`);
+        } else {
+          score -= 10;
+        }
+      }
+
+      // Well-rated courses break ties
+      score += Math.round((course.average_rating || 0) * 2);
+
+      const reasoning =
+        reasons.length > 0
+          ? `${reasons[0].charAt(0).toUpperCase()}${reasons[0].slice(1)}${reasons.length > 1 ? `, and ${reasons.slice(1).join(', ')}` : ''}.`
+          : `Explore ${course.category} next.`;
+
+      return {
+        courseId: course.id,
+        course,
+        reasoning,
+        confidenceScore: Math.max(0, Math.min(100, score)),
+        prerequisitesMet: candidate.prerequisitesMet,
+      };
+    })
+    .sort((a, b) => b.confidenceScore - a.confidenceScore || a.courseId.localeCompare(b.courseId))
+    .slice(0, limit);
+}
+
+// ============================================================================
+// Recommendations
+// ============================================================================
+
+/**
+ * Get "Recommended next" courses for a learner
+ *
+ * Uses AI ranking when AI is enabled and the hourly quota isn't used up,
+ * otherwise (or if the AI call fails) falls back to rankCoursesForLearner().
+ *
+ * @param userId - User ID
+ * @param limit - Maximum number of recommendations
+ */
+export async function getCourseRecommendations(
+  userId: string,
+  limit: number = 3
+): Promise<RecommendationResult> {
+  const snapshot = await buildRecommendationProfile(userId);
+
+  if (snapshot.profile.candidates.length === 0) {
+    return { recommendations: [], source: 'rules' };
+  }
+
+  if (isAIEnabled()) {
+    try {
+      const quota = await getAIQuota('recommendation');
+
+      if (quota.remaining > 0) {
+        const aiRecommendations = (await getRecommendations(userId, snapshot.profile))
+          .filter((rec) => snapshot.profile.candidates.some((c) => c.id === rec.courseId))
+          .slice(0, limit)
+          .map((rec) => ({ ...rec, course: snapshot.courses.get(rec.courseId)! }));
+
+        if (aiRecommendations.length > 0) {
+          return { recommendations: aiRecommendations, source: 'ai' };
+        }
+      }
+    } catch (error) {
+      console.warn('AI recommendations unavailable, using rule-based ranking:', error);
+    }
+  }
+
+  return { recommendations: rankCoursesForLearner(snapshot, limit), source: 'rules' };
+}
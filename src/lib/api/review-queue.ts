@@ -0,0 +1,209 @@
+/**
+ * Review Queue API
+ * Spaced-repetition review of missed quiz questions (SM-2 scheduling runs in the database)
+ */
+
+import { supabase } from '../supabase/client';
+import type { CourseDifficulty, ReviewItem, ReviewQuestion } from '../supabase/types';
+import { generateQuiz, summarizeLessonForTutor } from '../ai/ai-service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReviewItemWithContext extends ReviewItem {
+  lesson?: { id: string; title: string };
+  course?: { id: string; title: string; thumbnail_emoji: string };
+}
+
+export interface ReviewSummary {
+  dueToday: number;
+  reviewedToday: number;
+  totalItems: number;
+}
+
+/** SM-2 answer quality sent to record_review */
+export const REVIEW_QUALITY = {
+  forgot: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+} as const;
+
+/** AI variants generated per missed question */
+export const VARIANTS_PER_ITEM = 2;
+
+const CONTEXT_SELECT =
+  'lesson:lessons!lesson_id (id, title), course:courses!course_id (id, title, thumbnail_emoji)';
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// ============================================================================
+// Queue Functions
+// ============================================================================
+
+/**
+ * Queue the questions a learner missed in a quiz attempt
+ *
+ * Grading happens server-side against the stored quiz.
+ *
+ * @returns Number of questions queued
+ */
+export async function queueQuizMistakes(
+  lessonId: string,
+  answers: (number | null)[]
+): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('queue_quiz_mistakes', {
+      p_lesson_id: lessonId,
+      p_answers: answers,
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  } catch (error) {
+    console.error('Error queueing quiz mistakes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get review items due today (or overdue), oldest due first
+ */
+export async function getDueReviewItems(
+  userId: string,
+  limit = 20
+): Promise<ReviewItemWithContext[]> {
+  try {
+    const { data, error } = await supabase
+      .from('review_items')
+      .select(`*, ${CONTEXT_SELECT}`)
+      .eq('user_id', userId)
+      .lte('due_date', today())
+      .order('due_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as ReviewItemWithContext[];
+  } catch (error) {
+    console.error('Error fetching due review items:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get review counts for the dashboard
+ */
+export async function getReviewSummary(userId: string): Promise<ReviewSummary> {
+  try {
+    const [dueResult, totalResult, reviewedResult] = await Promise.all([
+      supabase
+        .from('review_items')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .lte('due_date', today()),
+      supabase
+        .from('review_items')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId),
+      supabase
+        .from('review_log')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('reviewed_at', `${today()}T00:00:00.000Z`),
+    ]);
+
+    const firstError = dueResult.error || totalResult.error || reviewedResult.error;
+    if (firstError) throw firstError;
+
+    return {
+      dueToday: dueResult.count || 0,
+      totalItems: totalResult.count || 0,
+      reviewedToday: reviewedResult.count || 0,
+    };
+  } catch (error) {
+    console.error('Error fetching review summary:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record an answer to a review item and reschedule it
+ *
+ * @param quality - SM-2 quality (see REVIEW_QUALITY)
+ * @returns The rescheduled item
+ */
+export async function recordReview(
+  itemId: string,
+  quality: number
+): Promise<ReviewItem> {
+  try {
+    const { data, error } = await supabase.rpc('record_review', {
+      p_item_id: itemId,
+      p_quality: quality,
+    });
+
+    if (error) throw error;
+    return data as ReviewItem;
+  } catch (error) {
+    console.error('Error recording review:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// AI Variants
+// ============================================================================
+
+/**
+ * Generate AI variants of a missed question and add them to the queue (due today)
+ *
+ * The lesson summary gives the model enough material to ask about the same
+ * concept in a different way.
+ *
+ * @returns The new variant items
+ */
+export async function generateReviewVariants(
+  item: ReviewItem
+): Promise<ReviewItem[]> {
+  try {
+    const [lessonResult, courseResult] = await Promise.all([
+      supabase.from('lessons').select('lesson_type, content').eq('id', item.lesson_id).single(),
+      supabase.from('courses').select('difficulty').eq('id', item.course_id).single(),
+    ]);
+
+    if (lessonResult.error) throw lessonResult.error;
+
+    const { question, options, correctAnswer, explanation } = item.question;
+    const lessonContent = [
+      `Write ${VARIANTS_PER_ITEM} NEW questions that test the same concept as this question the learner got wrong.`,
+      'Do not reuse its wording or options.',
+      '',
+      `Question: ${question}`,
+      `Correct answer: ${options[correctAnswer]}`,
+      `Explanation: ${explanation}`,
+      '',
+      'Lesson material:',
+      summarizeLessonForTutor(lessonResult.data.lesson_type, lessonResult.data.content, 3000),
+    ].join('\n');
+
+    const difficulty = (courseResult.data?.difficulty as CourseDifficulty) || 'beginner';
+    const quiz = await generateQuiz(lessonContent, difficulty);
+
+    const questions: ReviewQuestion[] = (quiz.questions || []).slice(0, VARIANTS_PER_ITEM);
+
+    const { data, error } = await supabase.rpc('add_review_variants', {
+      p_parent_item_id: item.id,
+      p_questions: questions,
+    });
+
+    if (error) throw error;
+    return (data || []) as ReviewItem[];
+  } catch (error) {
+    console.error('Error generating review variants:', error);
+    throw error;
+  }
+}
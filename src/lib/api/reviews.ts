@@ -0,0 +1,227 @@
+/**
+ * Course Reviews API
+ * Functions for learner ratings, written reviews and review moderation
+ */
+
+import { supabase } from '../supabase/client';
+import type { CourseReview, CourseReviewWithAuthor } from '../supabase/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SubmitReviewInput {
+  courseId: string;
+  rating: number;
+  reviewText?: string | null;
+}
+
+/** Number of visible reviews per star value (1-5) */
+export type RatingBreakdown = Record<1 | 2 | 3 | 4 | 5, number>;
+
+export interface ModerationReviewFilters {
+  hiddenOnly?: boolean;
+  maxRating?: number;
+  limit?: number;
+}
+
+export interface ModerationReview extends CourseReviewWithAuthor {
+  course?: { id: string; title: string; thumbnail_emoji: string };
+}
+
+/** Progress percentage at which a learner may review a course */
+export const REVIEW_PROGRESS_THRESHOLD = 50;
+
+export const MAX_REVIEW_LENGTH = 2000;
+
+const AUTHOR_SELECT = 'author:users!user_id (id, username, avatar_emoji)';
+
+// ============================================================================
+// Review Functions
+// ============================================================================
+
+/**
+ * Get visible reviews for a course, newest first
+ */
+export async function getCourseReviews(
+  courseId: string,
+  limit = 20
+): Promise<CourseReviewWithAuthor[]> {
+  try {
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .select(`*, ${AUTHOR_SELECT}`)
+      .eq('course_id', courseId)
+      .eq('is_hidden', false)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as CourseReviewWithAuthor[];
+  } catch (error) {
+    console.error('Error fetching course reviews:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the user's own review for a course (including a hidden one)
+ */
+export async function getUserCourseReview(
+  userId: string,
+  courseId: string
+): Promise<CourseReview | null> {
+  try {
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as CourseReview | null;
+  } catch (error) {
+    console.error('Error fetching user review:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the count of visible reviews per star value
+ */
+export async function getRatingBreakdown(courseId: string): Promise<RatingBreakdown> {
+  try {
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .select('rating')
+      .eq('course_id', courseId)
+      .eq('is_hidden', false);
+
+    if (error) throw error;
+
+    const breakdown: RatingBreakdown = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    (data || []).forEach(({ rating }) => {
+      breakdown[rating as keyof RatingBreakdown] += 1;
+    });
+    return breakdown;
+  } catch (error) {
+    console.error('Error fetching rating breakdown:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check whether a user has progressed far enough to review a course
+ */
+export async function canReviewCourse(userId: string, courseId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('can_review_course', {
+      p_user_id: userId,
+      p_course_id: courseId,
+    });
+
+    if (error) throw error;
+    return !!data;
+  } catch (error) {
+    console.error('Error checking review eligibility:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create or update the signed-in user's review
+ * Eligibility and rating bounds are enforced by upsert_course_review.
+ */
+export async function submitCourseReview(input: SubmitReviewInput): Promise<CourseReview> {
+  try {
+    const { data, error } = await supabase.rpc('upsert_course_review', {
+      p_course_id: input.courseId,
+      p_rating: input.rating,
+      p_review_text: input.reviewText?.trim() || null,
+    });
+
+    if (error) throw error;
+    return data as CourseReview;
+  } catch (error) {
+    console.error('Error submitting review:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete the signed-in user's review
+ */
+export async function deleteCourseReview(courseId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('delete_course_review', {
+      p_course_id: courseId,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting review:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Moderation Functions
+// ============================================================================
+
+/**
+ * Get reviews for the admin moderation queue
+ * Written reviews only; low ratings and hidden reviews can be filtered.
+ */
+export async function getReviewsForModeration(
+  filters: ModerationReviewFilters = {}
+): Promise<ModerationReview[]> {
+  try {
+    let query = supabase
+      .from('course_reviews')
+      .select(`*, ${AUTHOR_SELECT}, course:courses!course_id (id, title, thumbnail_emoji)`)
+      .not('review_text', 'is', null);
+
+    if (filters.hiddenOnly) {
+      query = query.eq('is_hidden', true);
+    }
+
+    if (filters.maxRating) {
+      query = query.lte('rating', filters.maxRating);
+    }
+
+    query = query
+      .order('updated_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as ModerationReview[];
+  } catch (error) {
+    console.error('Error fetching reviews for moderation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Hide or restore a review (admin only)
+ */
+export async function moderateCourseReview(
+  reviewId: string,
+  isHidden: boolean,
+  reason?: string
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('moderate_course_review', {
+      p_review_id: reviewId,
+      p_is_hidden: isHidden,
+      p_reason: reason ?? null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error moderating review:', error);
+    throw error;
+  }
+}
@@ -67,10 +67,12 @@ export interface Activity {
 export interface StreakData {
   currentStreak: number;
   longestStreak: number;
+  reviewsDueToday: number;
   streakHistory: Array<{
     date: string;
     hasActivity: boolean;
     activitiesCount: number;
+    reviewsCount: number;
   }>;
 }
 
@@ -459,6 +461,7 @@ export async function getLearningStreak(userId: string): Promise<StreakData> {
       return {
         currentStreak: 0,
         longestStreak: 0,
+        reviewsDueToday: 0,
         streakHistory: []
       };
     }
@@ -467,15 +470,30 @@ export async function getLearningStreak(userId: string): Promise<StreakData> {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-    const { data: activities } = await supabase
-      .from('lesson_completions')
-      .select('completed_at')
-      .eq('user_id', userId)
-      .gte('completed_at', thirtyDaysAgo.toISOString());
+    const todayStr = new Date().toISOString().split('T')[0];
+
+    const [{ data: activities }, { data: reviews }, { count: reviewsDueToday }] = await Promise.all([
+      supabase
+        .from('lesson_completions')
+        .select('completed_at')
+        .eq('user_id', userId)
+        .gte('completed_at', thirtyDaysAgo.toISOString()),
+      supabase
+        .from('review_log')
+        .select('reviewed_at')
+        .eq('user_id', userId)
+        .gte('reviewed_at', thirtyDaysAgo.toISOString()),
+      supabase
+        .from('review_items')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .lte('due_date', todayStr),
+    ]);
 
     // Build streak history
     const streakHistory: StreakData['streakHistory'] = [];
     const activityByDate = new Map<string, number>();
+    const reviewsByDate = new Map<string, number>();
 
     // Count activities per day
     activities?.forEach(activity => {
@@ -483,6 +501,12 @@ export async function getLearningStreak(userId: string): Promise<StreakData> {
       activityByDate.set(date, (activityByDate.get(date) || 0) + 1);
     });
 
+    // Count review answers per day
+    reviews?.forEach(review => {
+      const date = new Date(review.reviewed_at).toISOString().split('T')[0];
+      reviewsByDate.set(date, (reviewsByDate.get(date) || 0) + 1);
+    });
+
     // Generate last 30 days
     for (let i = 29; i >= 0; i--) {
       const date = new Date();
@@ -491,14 +515,16 @@ export async function getLearningStreak(userId: string): Promise<StreakData> {
 
       streakHistory.push({
         date: dateStr,
-        hasActivity: activityByDate.has(dateStr),
-        activitiesCount: activityByDate.get(dateStr) || 0
+        hasActivity: activityByDate.has(dateStr) || reviewsByDate.has(dateStr),
+        activitiesCount: activityByDate.get(dateStr) || 0,
+        reviewsCount: reviewsByDate.get(dateStr) || 0
       });
     }
 
     return {
       currentStreak: user.current_streak,
       longestStreak: user.longest_streak,
+      reviewsDueToday: reviewsDueToday || 0,
       streakHistory
     };
   } catch (error) {
@@ -506,6 +532,7 @@ export async function getLearningStreak(userId: string): Promise<StreakData> {
     return {
       currentStreak: 0,
       longestStreak: 0,
+      reviewsDueToday: 0,
       streakHistory: []
     };
   }
@@ -4,7 +4,7 @@
  */
 
 import { supabase } from '../supabase/client';
-import type { User } from '../supabase/types';
+import type { PublicProfile, User } from '../supabase/types';
 
 // ============================================================================
 // Types
@@ -157,3 +157,25 @@ export async function isUsernameAvailable(username: string, excludeUserId?: stri
     return false;
   }
 }
+
+/**
+ * Get the public profile for a username
+ *
+ * Privacy is enforced by get_public_profile: private profiles come back with
+ * only username and avatar (profile_public: false).
+ *
+ * @returns null if no user has this username
+ */
+export async function getPublicProfile(username: string): Promise<PublicProfile | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_public_profile', {
+      p_username: username,
+    });
+
+    if (error) throw error;
+    return (data as PublicProfile) ?? null;
+  } catch (error) {
+    console.error('Error fetching public profile:', error);
+    throw error;
+  }
+}
@@ -160,6 +160,8 @@ export async function authenticateWithWallet(
       last_login_at: new Date().toISOString(),
       is_active: true,
       is_verified: false,
+      is_admin: false,
+      is_educator: false,
       profile_public: true,
       show_on_leaderboard: true,
     };
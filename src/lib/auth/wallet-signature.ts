@@ -4,43 +4,92 @@
  * Handles message signing and verification for wallet-based authentication
  */
 
-import { BrowserProvider } from 'ethers'
+import { getAddress } from 'ethers'
+import type { WalletAdapter, WalletSignatureType } from '@/lib/wallets'
 
 /**
- * Generate authentication message for signing
+ * Nonce issued by the auth-nonce Edge Function
+ * Single-use and short-lived; wallet-login rejects it once used or expired.
  */
-export function generateAuthMessage(walletAddress: string): string {
-  const timestamp = Date.now()
-  const nonce = Math.random().toString(36).substring(7)
+export interface AuthNonce {
+  nonce: string
+  issuedAt: string
+  expirationTime: string
+}
+
+function getSupabaseConfig(): { supabaseUrl: string; supabaseAnonKey: string } {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
+  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase configuration missing')
+  }
+
+  return { supabaseUrl, supabaseAnonKey }
+}
 
-  return `Welcome to Web3Versity!
+/**
+ * Request a sign-in nonce for this wallet, chain and domain
+ */
+export async function requestAuthNonce(walletAddress: string, chainId: number): Promise<AuthNonce> {
+  const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig()
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/auth-nonce`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': supabaseAnonKey,
+      'Authorization': `Bearer ${supabaseAnonKey}`, // Required for Supabase Edge Function gateway
+    },
+    body: JSON.stringify({
+      walletAddress,
+      chainId,
+      domain: window.location.host,
+    }),
+  })
 
-Sign this message to authenticate your wallet.
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || `Failed to start sign-in: ${response.status}`)
+  }
 
-This request will not trigger a blockchain transaction or cost any gas fees.
+  return response.json()
+}
 
-Wallet: ${walletAddress}
-Timestamp: ${timestamp}
-Nonce: ${nonce}`
+/**
+ * Generate a Sign-In with Ethereum (EIP-4361) message for signing
+ */
+export function generateAuthMessage(walletAddress: string, chainId: number, authNonce: AuthNonce): string {
+  return `${window.location.host} wants you to sign in with your Ethereum account:
+${getAddress(walletAddress)}
+
+Sign in to Web3Versity. This request will not trigger a blockchain transaction or cost any gas fees.
+
+URI: ${window.location.origin}
+Version: 1
+Chain ID: ${chainId}
+Nonce: ${authNonce.nonce}
+Issued At: ${authNonce.issuedAt}
+Expiration Time: ${authNonce.expirationTime}`
 }
 
 /**
  * Request wallet signature from user
+ * Fetches a fresh nonce first, so every sign-in needs a new signature.
  */
 export async function requestWalletSignature(
   walletAddress: string,
-  provider: BrowserProvider
-): Promise<{ signature: string; message: string }> {
-  const message = generateAuthMessage(walletAddress)
+  adapter: WalletAdapter
+): Promise<{ signature: string; message: string; signatureType: WalletSignatureType }> {
+  const chainId = await adapter.getChainId()
+  const authNonce = await requestAuthNonce(walletAddress, chainId)
+  const message = generateAuthMessage(walletAddress, chainId, authNonce)
 
   try {
-    // Get signer from provider
-    const signer = await provider.getSigner()
-
-    // Request signature
-    const signature = await signer.signMessage(message)
+    // Request signature from the connected wallet
+    const { signature, signatureType } = await adapter.signMessage(message)
 
-    return { signature, message }
+    return { signature, message, signatureType }
   } catch (error: any) {
     console.error('Signature request failed:', error)
 
@@ -59,19 +108,15 @@ export async function authenticateWithSignature(
   walletAddress: string,
   signature: string,
   message: string,
-  hederaAccountId?: string
+  hederaAccountId?: string,
+  signatureType: WalletSignatureType = 'evm'
 ): Promise<{
   access_token: string
   refresh_token: string
   expires_in: number
   user: any
 }> {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
-  if (!supabaseUrl || !supabaseAnonKey) {
-    throw new Error('Supabase configuration missing')
-  }
+  const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig()
 
   // Call wallet-login Edge Function
   // IMPORTANT: Must send anon key as Authorization header (Supabase gateway requirement)
@@ -87,6 +132,7 @@ export async function authenticateWithSignature(
       signature,
       message,
       hederaAccountId,
+      signatureType,
     }),
   })
 
@@ -90,6 +90,23 @@ export const PRACTICAL_TYPES: PracticalType[] = [
     ],
     tags: ['hcs', 'consensus', 'messaging', 'testnet']
   },
+  {
+    id: 'hcs_topics',
+    name: 'HCS Topic Workshop',
+    description: 'Create a personal HCS topic with an optional submit key, post JSON messages validated against a schema (supply chain, attendance, credentials) and verify their sequence and running hash.',
+    emoji: '🧾',
+    requiresTestnet: true,
+    difficulty: 'advanced',
+    estimatedMinutes: 15,
+    component: 'HCSTopicWorkshop',
+    warning: 'Topic creation and message fees are paid by the platform operator. Submit keys are stored in the student\'s browser, so topics locked with a key can only be posted to from that device.',
+    prerequisites: [
+      'Connected wallet',
+      'Completed the HCS Message Board lesson',
+      'Understanding of hashing'
+    ],
+    tags: ['hcs', 'consensus', 'topics', 'verification', 'testnet']
+  },
   {
     id: 'nft_minting',
     name: 'NFT Minter Studio',
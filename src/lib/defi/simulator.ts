@@ -3,6 +3,12 @@
  *
  * Educational simulator for demonstrating DeFi concepts like liquidity pools,
  * staking, and yield farming without using real funds.
+ *
+ * LP positions follow constant-product (x·y=k) pool math: a deposit buys a
+ * share of liquidity L, and as the price p moves the position holds
+ * L/√p base tokens and L·√p quote tokens. Comparing that against simply
+ * holding the deposited tokens gives impermanent loss, which trading fees
+ * may or may not make up for.
  */
 
 export interface LiquidityPool {
@@ -15,13 +21,42 @@ export interface LiquidityPool {
   protocol: string;
   icon: string;
   description: string;
+  baseToken: string; // Token whose price moves in the simulation
+  quoteToken: string; // Token prices and values are expressed in
+  initialPrice: number; // Base token price in quote tokens on day 0
+  dailyVolatility: number; // Standard deviation of daily log returns
+}
+
+export type PriceScenario = 'random' | 'sideways' | 'rally' | 'crash' | 'round-trip';
+
+export interface PricePathOptions {
+  scenario: PriceScenario;
+  days: number;
+  seed?: number; // Only used by the random scenario
 }
 
-export interface UserPosition {
+export interface LPPosition {
+  id: string;
   poolId: string;
-  amount: number;
-  depositedAt: Date;
-  rewards: number;
+  openedOnDay: number;
+  baseAmount: number;
+  quoteAmount: number;
+  entryPrice: number;
+  liquidity: number; // L = √(base · quote) at entry
+}
+
+export interface PositionReport {
+  day: number;
+  price: number;
+  priceChangePercent: number;
+  lpBaseAmount: number;
+  lpQuoteAmount: number;
+  lpValue: number; // Excluding fees, in quote tokens
+  holdValue: number; // Value of the original deposit if never pooled
+  feesEarned: number; // In quote tokens
+  impermanentLoss: number; // lpValue - holdValue (≤ 0)
+  impermanentLossPercent: number;
+  netVsHold: number; // lpValue + fees - holdValue
 }
 
 // Mock liquidity pools
@@ -36,6 +71,10 @@ export const MOCK_POOLS: LiquidityPool[] = [
     protocol: 'SaucerSwap',
     icon: '💧',
     description: 'Stable liquidity pool for HBAR and USDC trading with low impermanent loss risk.',
+    baseToken: 'HBAR',
+    quoteToken: 'USDC',
+    initialPrice: 0.08,
+    dailyVolatility: 0.04,
   },
   {
     id: 'hbar-sauce',
@@ -47,6 +86,10 @@ export const MOCK_POOLS: LiquidityPool[] = [
     protocol: 'SaucerSwap',
     icon: '🌶️',
     description: 'High-yield pool with moderate risk. SAUCE is the native token of SaucerSwap.',
+    baseToken: 'SAUCE',
+    quoteToken: 'HBAR',
+    initialPrice: 0.15,
+    dailyVolatility: 0.07,
   },
   {
     id: 'sauce-usdc',
@@ -58,6 +101,10 @@ export const MOCK_POOLS: LiquidityPool[] = [
     protocol: 'SaucerSwap',
     icon: '💰',
     description: 'Balanced pool offering good yields with manageable risk.',
+    baseToken: 'SAUCE',
+    quoteToken: 'USDC',
+    initialPrice: 0.012,
+    dailyVolatility: 0.07,
   },
   {
     id: 'hbar-hbarx',
@@ -69,6 +116,10 @@ export const MOCK_POOLS: LiquidityPool[] = [
     protocol: 'Stader',
     icon: '🔒',
     description: 'Liquid staking pool with very low risk. HBARX is staked HBAR.',
+    baseToken: 'HBARX',
+    quoteToken: 'HBAR',
+    initialPrice: 1.06,
+    dailyVolatility: 0.004,
   },
   {
     id: 'pack-usdc',
@@ -80,6 +131,10 @@ export const MOCK_POOLS: LiquidityPool[] = [
     protocol: 'HashPack DEX',
     icon: '📦',
     description: 'High-risk, high-reward pool for experienced DeFi users.',
+    baseToken: 'PACK',
+    quoteToken: 'USDC',
+    initialPrice: 0.005,
+    dailyVolatility: 0.12,
   },
 ];
 
@@ -168,54 +223,188 @@ export function formatTVL(tvl: number): string {
 }
 
 /**
- * Simulate depositing into a pool
+ * Get pool by ID
+ */
+export function getPoolById(poolId: string): LiquidityPool | undefined {
+  return MOCK_POOLS.find(p => p.id === poolId);
+}
+
+// ============================================================================
+// Price Paths
+// ============================================================================
+
+/**
+ * Deterministic PRNG (mulberry32) so a seed always replays the same path
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample via Box-Muller
+ */
+function sampleNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Price multiplier relative to day 0 for the scripted scenarios
+ * (t runs from 0 at the start to 1 at the end of the path)
+ */
+function getScenarioMultiplier(scenario: Exclude<PriceScenario, 'random'>, t: number): number {
+  switch (scenario) {
+    case 'sideways':
+      return 1 + 0.1 * Math.sin(t * Math.PI * 6);
+    case 'rally':
+      return 1 + 2 * t; // 3x by the end
+    case 'crash':
+      return 1 - 0.7 * Math.sqrt(t); // -70%, fastest at the start
+    case 'round-trip':
+      return 1 + 1.5 * Math.sin(t * Math.PI); // Up 2.5x, then back to the start
+  }
+}
+
+/**
+ * Build a daily price path for a pool's base token
+ *
+ * @returns Prices for day 0 through `days` (inclusive)
  */
-export function simulateDeposit(
-  poolId: string,
-  amount: number
-): UserPosition {
+export function createPricePath(pool: LiquidityPool, options: PricePathOptions): number[] {
+  const prices = [pool.initialPrice];
+
+  if (options.scenario === 'random') {
+    const random = createRandom(options.seed ?? 1);
+    const sigma = pool.dailyVolatility;
+    for (let day = 1; day <= options.days; day++) {
+      // Geometric Brownian motion with zero drift
+      const logReturn = sigma * sampleNormal(random) - (sigma * sigma) / 2;
+      prices.push(prices[day - 1] * Math.exp(logReturn));
+    }
+    return prices;
+  }
+
+  for (let day = 1; day <= options.days; day++) {
+    prices.push(pool.initialPrice * getScenarioMultiplier(options.scenario, day / options.days));
+  }
+  return prices;
+}
+
+// ============================================================================
+// Liquidity Positions
+// ============================================================================
+
+/**
+ * Quote tokens needed alongside a base deposit at the current price
+ * Pools only accept deposits in the current reserve ratio.
+ */
+export function getPairedDepositAmount(baseAmount: number, price: number): number {
+  return baseAmount * price;
+}
+
+/**
+ * Open a two-sided LP position
+ */
+export function openLPPosition(
+  pool: LiquidityPool,
+  baseAmount: number,
+  price: number,
+  day: number
+): LPPosition {
+  const quoteAmount = getPairedDepositAmount(baseAmount, price);
+
   return {
-    poolId,
-    amount,
-    depositedAt: new Date(),
-    rewards: 0,
+    id: `${pool.id}-${day}-${Date.now()}`,
+    poolId: pool.id,
+    openedOnDay: day,
+    baseAmount,
+    quoteAmount,
+    entryPrice: price,
+    liquidity: Math.sqrt(baseAmount * quoteAmount),
   };
 }
 
 /**
- * Simulate withdrawing from a pool
+ * Value of a position's pooled tokens (without fees) at a price
  */
-export function simulateWithdraw(position: UserPosition): {
-  principal: number;
-  rewards: number;
-  total: number;
-} {
-  const daysElapsed = Math.max(
-    (new Date().getTime() - position.depositedAt.getTime()) / (1000 * 60 * 60 * 24),
-    0.001 // Minimum to avoid division by zero
-  );
+function getLPHoldings(position: LPPosition, price: number): { base: number; quote: number } {
+  const sqrtPrice = Math.sqrt(price);
+  return {
+    base: position.liquidity / sqrtPrice,
+    quote: position.liquidity * sqrtPrice,
+  };
+}
 
-  const pool = MOCK_POOLS.find(p => p.id === position.poolId);
-  if (!pool) {
-    return {
-      principal: position.amount,
-      rewards: 0,
-      total: position.amount,
-    };
+/**
+ * Report a position's value on a given day of the price path
+ *
+ * Fees accrue daily on the position's current value at the pool's APY. They
+ * are paid out rather than reinvested, so they do not change the liquidity.
+ */
+export function evaluateLPPosition(
+  position: LPPosition,
+  pool: LiquidityPool,
+  pricePath: number[],
+  day: number
+): PositionReport {
+  const currentDay = Math.min(Math.max(day, position.openedOnDay), pricePath.length - 1);
+  const price = pricePath[currentDay];
+  const dailyFeeRate = pool.apy / 365 / 100;
+
+  let feesEarned = 0;
+  for (let d = position.openedOnDay + 1; d <= currentDay; d++) {
+    const holdings = getLPHoldings(position, pricePath[d]);
+    feesEarned += (holdings.base * pricePath[d] + holdings.quote) * dailyFeeRate;
   }
 
-  const rewards = calculateRewards(position.amount, pool.apy, daysElapsed);
+  const holdings = getLPHoldings(position, price);
+  const lpValue = holdings.base * price + holdings.quote;
+  const holdValue = position.baseAmount * price + position.quoteAmount;
+  const impermanentLoss = lpValue - holdValue;
 
   return {
-    principal: position.amount,
-    rewards: rewards,
-    total: position.amount + rewards,
+    day: currentDay,
+    price,
+    priceChangePercent: (price / position.entryPrice - 1) * 100,
+    lpBaseAmount: holdings.base,
+    lpQuoteAmount: holdings.quote,
+    lpValue,
+    holdValue,
+    feesEarned,
+    impermanentLoss,
+    impermanentLossPercent: holdValue > 0 ? (impermanentLoss / holdValue) * 100 : 0,
+    netVsHold: lpValue + feesEarned - holdValue,
   };
 }
 
 /**
- * Get pool by ID
+ * Daily reports from the day a position was opened up to `day`
  */
-export function getPoolById(poolId: string): LiquidityPool | undefined {
-  return MOCK_POOLS.find(p => p.id === poolId);
+export function getLPPositionHistory(
+  position: LPPosition,
+  pool: LiquidityPool,
+  pricePath: number[],
+  day: number
+): PositionReport[] {
+  const reports: PositionReport[] = [];
+  for (let d = position.openedOnDay; d <= Math.min(day, pricePath.length - 1); d++) {
+    reports.push(evaluateLPPosition(position, pool, pricePath, d));
+  }
+  return reports;
+}
+
+/**
+ * Format a token amount with its symbol
+ */
+export function formatTokenValue(amount: number, symbol: string): string {
+  const decimals = Math.abs(amount) >= 100 ? 2 : Math.abs(amount) >= 1 ? 4 : 6;
+  return `${amount.toFixed(decimals)} ${symbol}`;
 }
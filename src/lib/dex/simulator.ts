@@ -3,14 +3,49 @@
  *
  * Educational simulator for demonstrating token swaps and DEX mechanics
  * without using real funds.
+ *
+ * Prices come from constant-product (x·y=k) liquidity pools, the same model
+ * used by SaucerSwap V1 and Uniswap V2. Every swap changes the pool reserves,
+ * so the next quote sees the moved price. Pairs without a direct pool are
+ * routed through HBAR.
  */
 
 export interface Token {
   symbol: string;
   name: string;
   icon: string;
-  balance: number; // User's simulated balance
-  usdPrice: number;
+  balance: number; // User's starting simulated balance
+  usdPrice: number; // Price used to seed the pools
+}
+
+export interface AmmPool {
+  id: string;
+  tokenA: string;
+  tokenB: string;
+  reserveA: number;
+  reserveB: number;
+  feePercent: number; // LP fee kept in the pool, e.g. 0.3
+}
+
+export interface DexState {
+  pools: AmmPool[];
+  balances: Record<string, number>;
+  swapCount: number;
+}
+
+export interface SwapHop {
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  fee: number; // In tokenIn units
+  reserveInBefore: number;
+  reserveOutBefore: number;
+  reserveInAfter: number;
+  reserveOutAfter: number;
+  priceBefore: number; // tokenOut per tokenIn
+  priceAfter: number;
 }
 
 export interface SwapQuote {
@@ -18,12 +53,30 @@ export interface SwapQuote {
   toToken: Token;
   fromAmount: number;
   toAmount: number;
-  exchangeRate: number;
-  priceImpact: number;
-  fee: number;
+  exchangeRate: number; // Effective rate actually received
+  spotPrice: number; // Marginal rate before the swap
+  spotPriceAfter: number; // Marginal rate after the swap
+  priceImpact: number; // Percent
+  fee: number; // Total LP fees, expressed in fromToken units
   minimumReceived: number;
+  route: string[];
+  hops: SwapHop[];
+}
+
+export interface SwapResult {
+  success: boolean;
+  fromAmount: number;
+  toAmount: number;
+  actualRate: number;
+  message: string;
+  state: DexState;
 }
 
+export const DEFAULT_FEE_PERCENT = 0.3;
+
+/** Routing token for pairs without a direct pool */
+export const ROUTING_TOKEN = 'HBAR';
+
 // Mock tokens available on Hedera DEXes
 export const MOCK_TOKENS: Token[] = [
   {
@@ -70,167 +123,345 @@ export const MOCK_TOKENS: Token[] = [
   },
 ];
 
-// Mock exchange rates (in practice, these come from liquidity pools)
-const EXCHANGE_RATES: Record<string, Record<string, number>> = {
-  HBAR: {
-    USDC: 0.08,
-    SAUCE: 6.67,
-    HBARX: 0.94,
-    PACK: 16.0,
-    HST: 40.0,
-  },
-  USDC: {
-    HBAR: 12.5,
-    SAUCE: 83.33,
-    HBARX: 11.76,
-    PACK: 200.0,
-    HST: 500.0,
-  },
-  SAUCE: {
-    HBAR: 0.15,
-    USDC: 0.012,
-    HBARX: 0.141,
-    PACK: 2.4,
-    HST: 6.0,
-  },
-  HBARX: {
-    HBAR: 1.06,
-    USDC: 0.085,
-    SAUCE: 7.08,
-    PACK: 17.0,
-    HST: 42.5,
-  },
-  PACK: {
-    HBAR: 0.0625,
-    USDC: 0.005,
-    SAUCE: 0.417,
-    HBARX: 0.059,
-    HST: 2.5,
-  },
-  HST: {
-    HBAR: 0.025,
-    USDC: 0.002,
-    SAUCE: 0.167,
-    HBARX: 0.024,
-    PACK: 0.4,
-  },
-};
+// Pool depth in USD. Kept small so learner-sized swaps visibly move the price.
+const POOL_SEEDS: { tokenA: string; tokenB: string; liquidityUSD: number }[] = [
+  { tokenA: 'HBAR', tokenB: 'USDC', liquidityUSD: 5000 },
+  { tokenA: 'HBAR', tokenB: 'SAUCE', liquidityUSD: 1500 },
+  { tokenA: 'HBAR', tokenB: 'HBARX', liquidityUSD: 3000 },
+  { tokenA: 'HBAR', tokenB: 'PACK', liquidityUSD: 400 },
+  { tokenA: 'HBAR', tokenB: 'HST', liquidityUSD: 150 },
+  { tokenA: 'SAUCE', tokenB: 'USDC', liquidityUSD: 800 },
+];
+
+// ============================================================================
+// Pool State
+// ============================================================================
 
 /**
- * Get exchange rate between two tokens
+ * Create a fresh DEX with pools seeded at the tokens' reference prices
  */
-export function getExchangeRate(fromSymbol: string, toSymbol: string): number {
-  if (fromSymbol === toSymbol) return 1;
-  return EXCHANGE_RATES[fromSymbol]?.[toSymbol] || 0;
+export function createDexState(): DexState {
+  const pools = POOL_SEEDS.map(({ tokenA, tokenB, liquidityUSD }) => {
+    const priceA = getTokenBySymbol(tokenA)!.usdPrice;
+    const priceB = getTokenBySymbol(tokenB)!.usdPrice;
+
+    return {
+      id: `${tokenA}-${tokenB}`,
+      tokenA,
+      tokenB,
+      reserveA: liquidityUSD / 2 / priceA,
+      reserveB: liquidityUSD / 2 / priceB,
+      feePercent: DEFAULT_FEE_PERCENT,
+    };
+  });
+
+  const balances: Record<string, number> = {};
+  MOCK_TOKENS.forEach((token) => {
+    balances[token.symbol] = token.balance;
+  });
+
+  return { pools, balances, swapCount: 0 };
 }
 
+// Pool state lives for the lifetime of the page so that swaps made in one
+// lesson step are still reflected when the swapper is shown again
+let sessionState: DexState | null = null;
+
 /**
- * Calculate price impact based on swap size
- * Larger swaps have higher price impact
+ * Get the DEX state for the current session
  */
-export function calculatePriceImpact(
-  fromAmount: number,
-  fromToken: Token,
-  toToken: Token
+export function getDexSession(): DexState {
+  if (!sessionState) {
+    sessionState = createDexState();
+  }
+  return sessionState;
+}
+
+/**
+ * Store the DEX state for the current session
+ */
+export function setDexSession(state: DexState): void {
+  sessionState = state;
+}
+
+/**
+ * Restore the pools and balances to their starting values
+ */
+export function resetDexSession(): DexState {
+  sessionState = createDexState();
+  return sessionState;
+}
+
+/**
+ * Find the pool for a token pair, in either direction
+ */
+export function findPool(state: DexState, tokenX: string, tokenY: string): AmmPool | undefined {
+  return state.pools.find(
+    (pool) =>
+      (pool.tokenA === tokenX && pool.tokenB === tokenY) ||
+      (pool.tokenA === tokenY && pool.tokenB === tokenX)
+  );
+}
+
+/**
+ * Reserves of a pool oriented as (tokenIn, tokenOut)
+ */
+function getOrientedReserves(pool: AmmPool, tokenIn: string): [number, number] {
+  return pool.tokenA === tokenIn
+    ? [pool.reserveA, pool.reserveB]
+    : [pool.reserveB, pool.reserveA];
+}
+
+/**
+ * Constant product invariant k = x · y
+ */
+export function getPoolInvariant(pool: AmmPool): number {
+  return pool.reserveA * pool.reserveB;
+}
+
+/**
+ * Find a swap route: a direct pool, or two hops through HBAR
+ *
+ * @returns Token symbols along the route, or null when the pair can't be traded
+ */
+export function findRoute(state: DexState, fromSymbol: string, toSymbol: string): string[] | null {
+  if (fromSymbol === toSymbol) return null;
+
+  if (findPool(state, fromSymbol, toSymbol)) {
+    return [fromSymbol, toSymbol];
+  }
+
+  if (
+    fromSymbol !== ROUTING_TOKEN &&
+    toSymbol !== ROUTING_TOKEN &&
+    findPool(state, fromSymbol, ROUTING_TOKEN) &&
+    findPool(state, ROUTING_TOKEN, toSymbol)
+  ) {
+    return [fromSymbol, ROUTING_TOKEN, toSymbol];
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * Output amount for a single pool swap
+ * The fee is taken from the input and stays in the pool for LPs:
+ *   out = reserveOut · inAfterFee / (reserveIn + inAfterFee)
+ */
+export function getAmountOut(
+  amountIn: number,
+  reserveIn: number,
+  reserveOut: number,
+  feePercent: number = DEFAULT_FEE_PERCENT
 ): number {
-  // Simulate price impact (in real DEX, this depends on liquidity depth)
-  const swapSizeUSD = fromAmount * fromToken.usdPrice;
-
-  // Small swaps (<$10): minimal impact
-  if (swapSizeUSD < 10) return 0.1;
-  // Medium swaps ($10-100): moderate impact
-  if (swapSizeUSD < 100) return 0.5;
-  // Large swaps (>$100): higher impact
-  return 1.0 + (swapSizeUSD - 100) / 1000;
+  if (amountIn <= 0 || reserveIn <= 0 || reserveOut <= 0) return 0;
+
+  const amountInAfterFee = amountIn * (1 - feePercent / 100);
+  return (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
 }
 
 /**
- * Calculate swap fee (typically 0.3% on most DEXes)
+ * Marginal price of fromSymbol in toSymbol along the best route
  */
-export function calculateSwapFee(fromAmount: number, feePercent: number = 0.3): number {
-  return fromAmount * (feePercent / 100);
+export function getSpotPrice(state: DexState, fromSymbol: string, toSymbol: string): number {
+  if (fromSymbol === toSymbol) return 1;
+
+  const route = findRoute(state, fromSymbol, toSymbol);
+  if (!route) return 0;
+
+  let price = 1;
+  for (let i = 0; i < route.length - 1; i++) {
+    const pool = findPool(state, route[i], route[i + 1])!;
+    const [reserveIn, reserveOut] = getOrientedReserves(pool, route[i]);
+    price *= reserveOut / reserveIn;
+  }
+  return price;
 }
 
 /**
- * Get swap quote
+ * USD price implied by the pools (USDC is treated as $1)
+ */
+export function getTokenUsdPrice(state: DexState, symbol: string): number {
+  if (symbol === 'USDC') return 1;
+  return getSpotPrice(state, symbol, 'USDC') || getTokenBySymbol(symbol)?.usdPrice || 0;
+}
+
+/**
+ * Walk a route and compute each hop without modifying state
+ */
+function simulateRoute(state: DexState, route: string[], amountIn: number): SwapHop[] {
+  const hops: SwapHop[] = [];
+  let hopAmountIn = amountIn;
+
+  for (let i = 0; i < route.length - 1; i++) {
+    const tokenIn = route[i];
+    const tokenOut = route[i + 1];
+    const pool = findPool(state, tokenIn, tokenOut)!;
+    const [reserveIn, reserveOut] = getOrientedReserves(pool, tokenIn);
+
+    const amountOut = getAmountOut(hopAmountIn, reserveIn, reserveOut, pool.feePercent);
+    const reserveInAfter = reserveIn + hopAmountIn;
+    const reserveOutAfter = reserveOut - amountOut;
+
+    hops.push({
+      poolId: pool.id,
+      tokenIn,
+      tokenOut,
+      amountIn: hopAmountIn,
+      amountOut,
+      fee: hopAmountIn * (pool.feePercent / 100),
+      reserveInBefore: reserveIn,
+      reserveOutBefore: reserveOut,
+      reserveInAfter,
+      reserveOutAfter,
+      priceBefore: reserveOut / reserveIn,
+      priceAfter: reserveOutAfter / reserveInAfter,
+    });
+
+    hopAmountIn = amountOut;
+  }
+
+  return hops;
+}
+
+/**
+ * Get swap quote from the current pool reserves
+ *
+ * @returns null when no route exists between the tokens
  */
 export function getSwapQuote(
+  state: DexState,
   fromToken: Token,
   toToken: Token,
   fromAmount: number,
   slippageTolerance: number = 0.5
-): SwapQuote {
+): SwapQuote | null {
+  const route = findRoute(state, fromToken.symbol, toToken.symbol);
+  if (!route) return null;
+
+  const spotPrice = getSpotPrice(state, fromToken.symbol, toToken.symbol);
+
   if (fromAmount <= 0) {
     return {
       fromToken,
       toToken,
       fromAmount: 0,
       toAmount: 0,
-      exchangeRate: 0,
+      exchangeRate: spotPrice,
+      spotPrice,
+      spotPriceAfter: spotPrice,
       priceImpact: 0,
       fee: 0,
       minimumReceived: 0,
+      route,
+      hops: [],
     };
   }
 
-  const exchangeRate = getExchangeRate(fromToken.symbol, toToken.symbol);
-  const priceImpact = calculatePriceImpact(fromAmount, fromToken, toToken);
-  const fee = calculateSwapFee(fromAmount);
+  const hops = simulateRoute(state, route, fromAmount);
+  const toAmount = hops[hops.length - 1].amountOut;
 
-  // Calculate output amount considering price impact
-  const baseAmount = (fromAmount - fee) * exchangeRate;
-  const priceImpactAmount = baseAmount * (priceImpact / 100);
-  const toAmount = baseAmount - priceImpactAmount;
+  // Price impact excludes fees: compare against the output at the
+  // unchanged spot price with the same fees deducted
+  const feeMultiplier = hops.reduce((acc, hop) => acc * (1 - hop.fee / hop.amountIn), 1);
+  const idealAmount = fromAmount * feeMultiplier * spotPrice;
+  const priceImpact = idealAmount > 0 ? (1 - toAmount / idealAmount) * 100 : 0;
 
-  // Minimum received considering slippage
-  const minimumReceived = toAmount * (1 - slippageTolerance / 100);
+  const spotPriceAfter = hops.reduce((acc, hop) => acc * hop.priceAfter, 1);
 
   return {
     fromToken,
     toToken,
     fromAmount,
     toAmount,
-    exchangeRate,
+    exchangeRate: toAmount / fromAmount,
+    spotPrice,
+    spotPriceAfter,
     priceImpact,
-    fee,
-    minimumReceived,
+    fee: fromAmount * (1 - feeMultiplier),
+    minimumReceived: toAmount * (1 - slippageTolerance / 100),
+    route,
+    hops,
   };
 }
 
+// ============================================================================
+// Execution
+// ============================================================================
+
 /**
  * Execute swap (simulation)
+ *
+ * The swap is re-priced against the given state, so if the pools moved since
+ * the quote was taken the minimum received check can fail, just like on-chain.
+ * State is never mutated; the updated pools and balances are returned.
  */
-export function executeSwap(quote: SwapQuote): {
-  success: boolean;
-  fromAmount: number;
-  toAmount: number;
-  actualRate: number;
-  message: string;
-} {
-  // Simulate execution with slight slippage (random between 0-0.3%)
-  const executionSlippage = Math.random() * 0.3;
-  const actualToAmount = quote.toAmount * (1 - executionSlippage / 100);
+export function executeSwap(state: DexState, quote: SwapQuote): SwapResult {
+  const fail = (message: string): SwapResult => ({
+    success: false,
+    fromAmount: quote.fromAmount,
+    toAmount: 0,
+    actualRate: 0,
+    message,
+    state,
+  });
 
-  // Check if amount falls within minimum received
-  if (actualToAmount < quote.minimumReceived) {
-    return {
-      success: false,
-      fromAmount: quote.fromAmount,
-      toAmount: 0,
-      actualRate: 0,
-      message: 'Swap failed: Price moved beyond slippage tolerance',
-    };
+  const fromSymbol = quote.fromToken.symbol;
+  const toSymbol = quote.toToken.symbol;
+
+  if (quote.fromAmount <= 0) {
+    return fail('Swap failed: Amount must be greater than zero');
+  }
+
+  if ((state.balances[fromSymbol] ?? 0) < quote.fromAmount) {
+    return fail(`Swap failed: Insufficient ${fromSymbol} balance`);
+  }
+
+  const route = findRoute(state, fromSymbol, toSymbol);
+  if (!route) {
+    return fail(`Swap failed: No liquidity route from ${fromSymbol} to ${toSymbol}`);
   }
 
+  const hops = simulateRoute(state, route, quote.fromAmount);
+  const toAmount = hops[hops.length - 1].amountOut;
+
+  if (toAmount < quote.minimumReceived) {
+    return fail('Swap failed: Price moved beyond slippage tolerance');
+  }
+
+  const pools = state.pools.map((pool) => {
+    const hop = hops.find((h) => h.poolId === pool.id);
+    if (!hop) return pool;
+
+    return pool.tokenA === hop.tokenIn
+      ? { ...pool, reserveA: hop.reserveInAfter, reserveB: hop.reserveOutAfter }
+      : { ...pool, reserveA: hop.reserveOutAfter, reserveB: hop.reserveInAfter };
+  });
+
+  const balances = {
+    ...state.balances,
+    [fromSymbol]: state.balances[fromSymbol] - quote.fromAmount,
+    [toSymbol]: (state.balances[toSymbol] ?? 0) + toAmount,
+  };
+
   return {
     success: true,
     fromAmount: quote.fromAmount,
-    toAmount: actualToAmount,
-    actualRate: actualToAmount / quote.fromAmount,
+    toAmount,
+    actualRate: toAmount / quote.fromAmount,
     message: 'Swap executed successfully',
+    state: { pools, balances, swapCount: state.swapCount + 1 },
   };
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
 /**
  * Get token by symbol
  */
@@ -245,6 +476,16 @@ export function formatTokenAmount(amount: number, decimals: number = 4): string
   return amount.toFixed(decimals);
 }
 
+/**
+ * Format a pool reserve compactly (e.g. 31.25K)
+ */
+export function formatReserve(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
 /**
  * Format USD value
  */
@@ -15,6 +15,7 @@ import {
 } from '@hashgraph/sdk';
 import { generateCertificateSVG, svgToBytes, validateSVGSize } from './certificate-svg-template';
 import { generatePlatformSignature } from './signature';
+import { getMirrorNode } from './mirror-node';
 
 export interface CertificateMetadata {
   name: string;
@@ -102,30 +103,17 @@ export async function uploadToHFS(
  * Fetch file contents from HFS via Mirror Node REST API
  *
  * @param fileId - HFS file ID (e.g., "0.0.12345")
- * @param network - "testnet" or "mainnet"
  * @returns File contents as Uint8Array
  */
-export async function fetchFromHFSMirror(
-  fileId: string,
-  network: 'testnet' | 'mainnet' = 'testnet'
-): Promise<Uint8Array> {
-  const mirrorNodeUrl =
-    network === 'testnet'
-      ? 'https://testnet.mirrornode.hedera.com'
-      : 'https://mainnet-public.mirrornode.hedera.com';
-
-  const url = `${mirrorNodeUrl}/api/v1/files/${fileId}`;
-
+export async function fetchFromHFSMirror(fileId: string): Promise<Uint8Array> {
   console.log(`📥 Fetching file from HFS mirror: ${fileId}`);
 
-  const response = await fetch(url);
+  const data = await getMirrorNode().getFile(fileId);
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch HFS file: ${response.statusText}`);
+  if (!data) {
+    throw new Error(`Failed to fetch HFS file: ${fileId} not found`);
   }
 
-  const data = await response.json();
-
   // Mirror node returns file contents as base64
   if (data.file_data) {
     const base64 = data.file_data;
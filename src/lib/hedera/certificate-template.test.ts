@@ -0,0 +1,89 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import * as appTemplate from './certificate-template';
+import * as edgeTemplate from '../../../supabase/functions/mint-certificate/_shared/certificate-template';
+
+const APP_PATH = new URL('./certificate-template.ts', import.meta.url);
+const EDGE_PATH = new URL('../../../supabase/functions/mint-certificate/_shared/certificate-template.ts', import.meta.url);
+
+const wrap = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${body}</svg>`;
+
+test('the edge function copy matches the app copy below the header comment', () => {
+  const body = (path: URL) => {
+    const source = readFileSync(path, 'utf8');
+    return source.slice(source.indexOf('*/'));
+  };
+
+  assert.equal(body(EDGE_PATH), body(APP_PATH));
+});
+
+for (const [name, { sanitizeCertificateSvg, DEFAULT_CERTIFICATE_TEMPLATE }] of [
+  ['app', appTemplate],
+  ['edge function', edgeTemplate],
+] as const) {
+  describe(`sanitizeCertificateSvg (${name})`, () => {
+    test('leaves the default template untouched', () => {
+      assert.deepEqual(sanitizeCertificateSvg(DEFAULT_CERTIFICATE_TEMPLATE).removed, []);
+    });
+
+    test('drops <script> with its content', () => {
+      const { svg, removed } = sanitizeCertificateSvg(wrap('<script>alert(1)</script><rect width="10"/>'));
+
+      assert.doesNotMatch(svg, /script|alert/);
+      assert.match(svg, /<rect width="10"\/>/);
+      assert.deepEqual(removed, ['<script>']);
+    });
+
+    test('strips event handler attributes', () => {
+      const { svg, removed } = sanitizeCertificateSvg(
+        '<svg onload="alert(1)"><rect ONCLICK="alert(2)" onmouseover=alert(3) width="10"/></svg>'
+      );
+
+      assert.equal(svg, '<svg><rect width="10"/></svg>');
+      assert.deepEqual(removed, ['onload', 'ONCLICK', 'onmouseover']);
+    });
+
+    test('strips javascript: links', () => {
+      const { svg } = sanitizeCertificateSvg(wrap('<use href="javascript:alert(1)"/><use xlink:href=" JavaScript:alert(1)"/>'));
+
+      assert.doesNotMatch(svg, /javascript/i);
+      assert.match(svg, /<use\/><use\/>/);
+    });
+
+    test('strips entity-encoded javascript: links', () => {
+      const { svg } = sanitizeCertificateSvg(
+        wrap('<use href="&#106;avascript:alert(1)"/><use href="&#x6A;ava&#x73;cript:alert(1)"/><use href="java&#9;script:alert(1)"/>')
+      );
+
+      assert.doesNotMatch(svg, /script|alert/i);
+      assert.equal(svg.match(/<use\/>/g)?.length, 3);
+    });
+
+    test('keeps in-document references and drops external url(...)', () => {
+      const { svg, removed } = sanitizeCertificateSvg(
+        wrap('<rect fill="url(#gold)" filter="url(\'https://evil.example/f.svg#x\')" clip-path="url(//evil.example/c)"/>')
+      );
+
+      assert.match(svg, /<rect fill="url\(#gold\)"\/>/);
+      assert.equal(removed.length, 2);
+    });
+
+    test('drops nested disallowed elements and everything inside them', () => {
+      const { svg, removed } = sanitizeCertificateSvg(
+        wrap('<foreignObject><div><a href="#"><script>alert(1)</script>click</a></div></foreignObject><text>kept</text>')
+      );
+
+      assert.equal(svg, wrap('<text>kept</text>'));
+      assert.deepEqual(removed, ['<foreignObject>']);
+    });
+
+    test('does not let a closing tag inside a dropped element end it early', () => {
+      const { svg } = sanitizeCertificateSvg(
+        wrap('<style><style></style>rect { fill: url(https://evil.example) }</style><rect/>')
+      );
+
+      assert.equal(svg, wrap('<rect/>'));
+    });
+  });
+}
@@ -0,0 +1,541 @@
+/**
+ * Certificate Template Renderer
+ *
+ * Fills admin-designed SVG certificate templates. A template is plain SVG
+ * with {{placeholders}}:
+ *
+ *   {{learner_name}} {{course_name}} {{completion_date}} {{certificate_number}}
+ *   {{track}} {{difficulty}} {{signature}} {{verification_url}}
+ *   {{qr_code}} - QR code for the verification page (100×100 at the origin)
+ *   {{ribbon}}  - Track/difficulty ribbon (200×36 at the origin)
+ *
+ * A <text> element with data-wrap="<width>" is wrapped onto several lines
+ * (centred on its y) instead of overflowing. If it needs more than
+ * data-max-lines lines (default 2) its font shrinks, down to
+ * data-min-font-size (default 60% of font-size).
+ *
+ * Templates are sanitized against an allowlist of SVG elements and
+ * attributes before they are filled, so scripts and event handlers never
+ * reach a minted certificate.
+ *
+ * Keep in sync with supabase/functions/mint-certificate/_shared/certificate-template.ts
+ */
+
+export interface CertificateTemplateData {
+  userName: string;
+  courseName: string;
+  completionDate: string; // ISO 8601
+  certificateNumber: string;
+  verificationUrl: string;
+  platformSignature: string;
+  track?: string;
+  difficulty?: string;
+  qrCode: string; // SVG markup
+}
+
+export const TEMPLATE_PLACEHOLDERS = [
+  'learner_name',
+  'course_name',
+  'completion_date',
+  'certificate_number',
+  'track',
+  'difficulty',
+  'signature',
+  'verification_url',
+  'qr_code',
+  'ribbon',
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+const REQUIRED_PLACEHOLDERS: TemplatePlaceholder[] = ['learner_name', 'course_name', 'certificate_number'];
+
+const RIBBON_COLORS: Record<string, string> = {
+  beginner: '#10b981',
+  intermediate: '#f59e0b',
+  advanced: '#ef4444',
+};
+
+const FONT_SANS = "'Noto Sans','Noto Sans CJK SC',Arial,sans-serif";
+const FONT_SERIF = "'Noto Serif','Noto Serif CJK SC',Georgia,serif";
+
+/**
+ * Built-in layout, used when no template is assigned
+ */
+export const DEFAULT_CERTIFICATE_TEMPLATE = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1000 700" width="1000" height="700">
+<defs>
+<linearGradient id="g1" x1="0%" y1="0%" x2="100%" y2="100%">
+<stop offset="0%" stop-color="#1e3a8a"/>
+<stop offset="100%" stop-color="#3b82f6"/>
+</linearGradient>
+<linearGradient id="g2" x1="0%" y1="0%" x2="100%" y2="0%">
+<stop offset="0%" stop-color="#fbbf24"/>
+<stop offset="100%" stop-color="#f97316"/>
+</linearGradient>
+</defs>
+<rect width="1000" height="700" fill="url(#g1)"/>
+<rect x="40" y="40" width="920" height="620" fill="#fefefe" opacity="0.95"/>
+<rect x="50" y="50" width="900" height="600" fill="none" stroke="url(#g2)" stroke-width="4"/>
+<g transform="translate(740,70)">{{ribbon}}</g>
+<g transform="translate(500,110)">
+<circle r="50" fill="url(#g2)" opacity="0.9"/>
+<text y="18" font-family="serif" font-size="54" font-weight="bold" fill="#fff" text-anchor="middle">★</text>
+</g>
+<text x="500" y="205" font-family="${FONT_SERIF}" font-size="32" font-weight="bold" fill="#1e3a8a" text-anchor="middle">CERTIFICATE OF COMPLETION</text>
+<text x="500" y="245" font-family="${FONT_SANS}" font-size="18" fill="#6b7280" text-anchor="middle">This certifies that</text>
+<text x="500" y="300" font-family="${FONT_SERIF}" font-size="36" font-weight="bold" fill="#1e3a8a" text-anchor="middle" data-wrap="760">{{learner_name}}</text>
+<rect x="300" y="335" width="400" height="2" fill="url(#g2)"/>
+<text x="500" y="370" font-family="${FONT_SANS}" font-size="18" fill="#6b7280" text-anchor="middle">has successfully completed</text>
+<text x="500" y="418" font-family="${FONT_SANS}" font-size="28" font-weight="bold" fill="#374151" text-anchor="middle" data-wrap="640">{{course_name}}</text>
+<text x="500" y="480" font-family="${FONT_SANS}" font-size="16" fill="#9ca3af" text-anchor="middle">Completion Date: {{completion_date}}</text>
+<text x="500" y="508" font-family="monospace" font-size="14" fill="#9ca3af" text-anchor="middle">Certificate #{{certificate_number}}</text>
+<text x="100" y="580" font-family="Arial,sans-serif" font-size="12" fill="#6b7280">Issued by Web3Versity</text>
+<text x="100" y="600" font-family="Arial,sans-serif" font-size="12" fill="#6b7280">Powered by Hedera</text>
+<text x="900" y="520" font-family="Arial,sans-serif" font-size="10" fill="#6b7280" text-anchor="end">Scan to Verify:</text>
+<g transform="translate(800,530)">{{qr_code}}</g>
+<text x="900" y="640" font-family="monospace" font-size="8" fill="#d1d5db" text-anchor="end" opacity="0.5">Sig: {{signature}}</text>
+</svg>`;
+
+// ============================================================================
+// Text Measurement
+// ============================================================================
+
+// Approximate advance widths in em; exact metrics depend on the viewer's fonts
+function charWidth(char: string, monospace: boolean): number {
+  const code = char.codePointAt(0) ?? 0;
+
+  // Combining marks (Latin accents, Arabic harakat, Indic signs)
+  if (
+    (code >= 0x0300 && code <= 0x036f) ||
+    (code >= 0x064b && code <= 0x065f) ||
+    (code >= 0x0900 && code <= 0x0903) ||
+    (code >= 0x093a && code <= 0x094f) ||
+    code === 0x200d
+  ) {
+    return 0;
+  }
+
+  // CJK, Hangul, Kana, full-width forms and emoji
+  if (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    code >= 0x1f300
+  ) {
+    return 1;
+  }
+
+  if (monospace) return 0.6;
+  if (/\s/.test(char)) return 0.28;
+  if (/[il.,:;!|'`ijtfr()[\]]/.test(char)) return 0.32;
+  if (/[A-Z@%&MWmw]/.test(char)) return 0.7;
+  return 0.56;
+}
+
+function measureText(text: string, fontSize: number, bold: boolean, monospace: boolean): number {
+  let width = 0;
+  for (const char of Array.from(text)) {
+    width += charWidth(char, monospace);
+  }
+  return width * fontSize * (bold ? 1.06 : 1);
+}
+
+function segment(text: string, granularity: 'word' | 'grapheme'): string[] {
+  const Segmenter = (Intl as any).Segmenter;
+  if (!Segmenter) {
+    return granularity === 'word' ? text.split(/(\s+)/).filter(Boolean) : Array.from(text);
+  }
+
+  const segments: string[] = Array.from(new Segmenter(undefined, { granularity }).segment(text), (s: any) => s.segment);
+  if (granularity === 'grapheme') return segments;
+
+  // Keep closing punctuation and hyphens with the word before them, so a
+  // line never starts with one
+  const words: string[] = [];
+  for (const word of segments) {
+    if (words.length > 0 && /^[\p{Pd}\p{Pe}\p{Pf}\p{Po}]+$/u.test(word) && !/\s$/.test(words[words.length - 1])) {
+      words[words.length - 1] += word;
+    } else {
+      words.push(word);
+    }
+  }
+  return words;
+}
+
+/**
+ * Break text into lines no wider than maxWidth
+ *
+ * Breaks between words, which also works for scripts without spaces (CJK,
+ * Thai) where Intl.Segmenter is available; a word that is wider than a line
+ * on its own is broken between characters.
+ */
+export function wrapText(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of segment(text.trim(), 'word')) {
+    if (measure(line + word) <= maxWidth) {
+      line += word;
+      continue;
+    }
+
+    if (line.trim()) lines.push(line.trim());
+    line = '';
+    if (!word.trim()) continue;
+
+    if (measure(word) <= maxWidth) {
+      line = word;
+      continue;
+    }
+
+    for (const grapheme of segment(word, 'grapheme')) {
+      if (line && measure(line + grapheme) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += grapheme;
+    }
+  }
+
+  if (line.trim()) lines.push(line.trim());
+  return lines;
+}
+
+// ============================================================================
+// Sanitizing
+// ============================================================================
+
+// Everything else (script, style, foreignObject, a, animate, set...) is
+// dropped along with its content
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc',
+  'rect', 'circle', 'ellipse', 'line', 'path', 'polygon', 'polyline',
+  'text', 'tspan', 'textPath', 'image',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker',
+  'filter', 'feBlend', 'feColorMatrix', 'feComposite', 'feDropShadow', 'feFlood',
+  'feGaussianBlur', 'feMerge', 'feMergeNode', 'feOffset',
+]);
+
+// No event handlers and no style (it can pull in external resources)
+const ALLOWED_ATTRIBUTES = new Set([
+  'xmlns', 'xmlns:xlink', 'xml:space', 'version', 'id', 'class',
+  'viewBox', 'preserveAspectRatio', 'width', 'height', 'x', 'y', 'x1', 'y1', 'x2', 'y2',
+  'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'd', 'points', 'transform', 'href', 'xlink:href',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-miterlimit',
+  'opacity', 'color', 'display', 'visibility', 'paint-order', 'vector-effect',
+  'shape-rendering', 'text-rendering', 'image-rendering',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'font-variant',
+  'letter-spacing', 'word-spacing', 'text-anchor', 'text-decoration', 'dominant-baseline',
+  'alignment-baseline', 'baseline-shift', 'direction', 'writing-mode',
+  'dx', 'dy', 'rotate', 'textLength', 'lengthAdjust', 'startOffset',
+  'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform', 'spreadMethod',
+  'patternUnits', 'patternContentUnits', 'patternTransform',
+  'clip-path', 'clip-rule', 'clipPathUnits', 'mask', 'maskUnits', 'maskContentUnits',
+  'marker-start', 'marker-mid', 'marker-end', 'markerWidth', 'markerHeight', 'markerUnits',
+  'refX', 'refY', 'orient',
+  'filter', 'filterUnits', 'primitiveUnits', 'in', 'in2', 'result', 'mode', 'operator',
+  'k1', 'k2', 'k3', 'k4', 'type', 'values', 'stdDeviation', 'flood-color', 'flood-opacity',
+  'data-wrap', 'data-max-lines', 'data-min-font-size',
+]);
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>?|<\/\s*([A-Za-z][\w:.-]*)\s*>|<([A-Za-z][\w:.-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return named[entity.toLowerCase()] ?? match;
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+  });
+}
+
+/**
+ * Whether a (decoded) attribute value is safe on an allowed attribute
+ *
+ * Links may only point inside the document, or at an embedded raster image.
+ */
+function isSafeAttributeValue(element: string, name: string, value: string): boolean {
+  const compact = value.replace(/[\s\u0000-\u001f]+/g, '').toLowerCase();
+
+  if (name === 'href' || name === 'xlink:href') {
+    return /^#[\w.:-]+$/.test(compact) ||
+      (element === 'image' && /^data:image\/(?:png|jpe?g|gif|webp);base64,[a-z0-9+/=]+$/.test(compact));
+  }
+
+  // url(...) references (fill, clip-path, filter...) stay inside the document
+  return !/url\((?!['"]?#)/.test(compact) && !/(?:java|vb)script:/.test(compact);
+}
+
+/**
+ * Rebuild an SVG from allowed elements and attributes only
+ *
+ * Comments, doctypes and processing instructions are dropped, attribute
+ * values are re-quoted and stray markup in text is escaped.
+ *
+ * @returns The sanitized SVG and what was removed (for error messages)
+ */
+export function sanitizeCertificateSvg(svg: string): { svg: string; removed: string[] } {
+  const removed = new Set<string>();
+  const open: string[] = [];
+  let output = '';
+  let skipDepth = 0;
+  let last = 0;
+
+  const escapeText = (text: string) =>
+    text
+      .replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);)/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+
+  for (const match of svg.matchAll(TOKEN_PATTERN)) {
+    const [token, closeName, openName, attributes = '', selfClosing] = match;
+
+    if (skipDepth === 0) {
+      const text = svg.slice(last, match.index);
+      if (text.includes('<')) removed.add('malformed tags');
+      output += escapeText(text);
+    }
+    last = match.index! + token.length;
+
+    if (closeName) {
+      if (skipDepth > 0) {
+        skipDepth--;
+      } else if (open[open.length - 1] === closeName) {
+        open.pop();
+        output += `</${closeName}>`;
+      }
+      continue;
+    }
+
+    if (!openName) {
+      continue; // Comment, CDATA, doctype or processing instruction
+    }
+
+    if (skipDepth > 0 || !ALLOWED_ELEMENTS.has(openName)) {
+      if (skipDepth === 0) removed.add(`<${openName}>`);
+      if (!selfClosing) skipDepth++;
+      continue;
+    }
+
+    let attrs = '';
+    for (const [, name, doubleQuoted, singleQuoted, unquoted] of attributes.matchAll(ATTRIBUTE_PATTERN)) {
+      const value = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+
+      if (!ALLOWED_ATTRIBUTES.has(name)) {
+        removed.add(name);
+      } else if (!isSafeAttributeValue(openName, name, value)) {
+        removed.add(`${name}="${value.length > 24 ? `${value.substring(0, 24)}…` : value}"`);
+      } else {
+        attrs += ` ${name}="${escapeXml(value)}"`;
+      }
+    }
+
+    if (selfClosing) {
+      output += `<${openName}${attrs}/>`;
+    } else {
+      open.push(openName);
+      output += `<${openName}${attrs}>`;
+    }
+  }
+
+  if (skipDepth === 0) {
+    const text = svg.slice(last);
+    if (text.includes('<')) removed.add('malformed tags');
+    output += escapeText(text);
+  }
+  while (open.length > 0) {
+    output += `</${open.pop()}>`;
+  }
+
+  return { svg: output, removed: Array.from(removed) };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isRtl(text: string): boolean {
+  // Hebrew, Arabic, Syriac, Thaana, N'Ko and their presentation forms
+  return /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/.test(text);
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+}
+
+function setAttribute(attributes: string, name: string, value: string): string {
+  const pattern = new RegExp(`\\s${name}="[^"]*"`);
+  return pattern.test(attributes)
+    ? attributes.replace(pattern, ` ${name}="${value}"`)
+    : `${attributes} ${name}="${value}"`;
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+function renderRibbon(track?: string, difficulty?: string): string {
+  const label = [track, difficulty].filter(Boolean).join(' · ').toUpperCase();
+  if (!label) return '';
+
+  const color = RIBBON_COLORS[difficulty ?? ''] ?? '#0084C7';
+  return `<rect width="200" height="36" rx="18" fill="${color}"/>` +
+    `<text x="100" y="24" font-family="Arial,sans-serif" font-size="14" font-weight="bold" fill="#fff" text-anchor="middle">${escapeXml(label)}</text>`;
+}
+
+/**
+ * Wrap, shrink and mirror one <text> element around its substituted content
+ */
+function layoutText(attributes: string, content: string): string {
+  const wrapWidth = Number(getAttribute(attributes, 'data-wrap'));
+  const maxLines = Number(getAttribute(attributes, 'data-max-lines')) || 2;
+  const baseSize = Number(getAttribute(attributes, 'font-size')) || 16;
+  const minSize = Number(getAttribute(attributes, 'data-min-font-size')) || baseSize * 0.6;
+  const bold = /bold|[6-9]00/.test(getAttribute(attributes, 'font-weight') ?? '');
+  const monospace = /mono/.test(getAttribute(attributes, 'font-family') ?? '');
+
+  let attrs = attributes.replace(/\sdata-[a-z-]+="[^"]*"/g, '');
+  if (isRtl(content)) {
+    attrs = setAttribute(attrs, 'direction', 'rtl');
+  }
+
+  if (!wrapWidth) {
+    return `<text${attrs}>${escapeXml(content)}</text>`;
+  }
+
+  let fontSize = baseSize;
+  let lines = wrapText(content, wrapWidth, (t) => measureText(t, fontSize, bold, monospace));
+
+  while (lines.length > maxLines && fontSize > minSize) {
+    fontSize = Math.max(minSize, fontSize - 2);
+    lines = wrapText(content, wrapWidth, (t) => measureText(t, fontSize, bold, monospace));
+  }
+
+  // Last resort for absurdly long text: keep what fits
+  if (lines.length > maxLines) {
+    lines = lines.slice(0, maxLines);
+    const last = Array.from(lines[maxLines - 1]);
+    while (last.length > 1 && measureText(last.join('') + '…', fontSize, bold, monospace) > wrapWidth) {
+      last.pop();
+    }
+    lines[maxLines - 1] = last.join('') + '…';
+  }
+
+  attrs = setAttribute(attrs, 'font-size', round(fontSize));
+
+  if (lines.length === 1) {
+    return `<text${attrs}>${escapeXml(lines[0])}</text>`;
+  }
+
+  const x = getAttribute(attrs, 'x') ?? '0';
+  const y = Number(getAttribute(attrs, 'y') ?? 0);
+  const lineHeight = fontSize * 1.2;
+  const firstY = y - ((lines.length - 1) * lineHeight) / 2;
+
+  const tspans = lines
+    .map((line, i) => `<tspan x="${x}" y="${round(firstY + i * lineHeight)}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<text${attrs}>${tspans}</text>`;
+}
+
+/**
+ * Fill a certificate template
+ *
+ * @returns SVG string
+ */
+export function renderCertificateTemplate(template: string, data: CertificateTemplateData): string {
+  const formattedDate = new Date(data.completionDate).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  const text: Record<string, string> = {
+    learner_name: data.userName,
+    course_name: data.courseName,
+    completion_date: formattedDate,
+    certificate_number: data.certificateNumber,
+    track: data.track ?? '',
+    difficulty: data.difficulty ?? '',
+    signature: `${data.platformSignature.substring(0, 16)}...`,
+    verification_url: data.verificationUrl,
+  };
+
+  const markup: Record<string, string> = {
+    qr_code: data.qrCode,
+    ribbon: renderRibbon(data.track, data.difficulty),
+  };
+
+  const fillText = (value: string) =>
+    value.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, name) => text[name] ?? match);
+
+  // Text elements that are plain text + placeholders get laid out as a whole
+  const laidOut = sanitizeCertificateSvg(template).svg.replace(
+    /<text(\s[^>]*)?>([^<]*\{\{[^<]*)<\/text>/g,
+    (_match, attributes = '', content) => layoutText(attributes, fillText(content))
+  );
+
+  return laidOut
+    .replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, name) =>
+      name in markup ? markup[name] : name in text ? escapeXml(text[name]) : match
+    )
+    .replace(/\n\s*/g, ''); // Remove whitespace for optimization
+}
+
+/**
+ * Problems that stop a template from being saved
+ *
+ * @returns Error messages; empty if the template is usable
+ */
+export function validateCertificateTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  if (!/^\s*<svg[\s>]/.test(template) || !/<\/svg>\s*$/.test(template)) {
+    errors.push('Template must be a single <svg> element');
+  }
+
+  // Links may only point inside the template; images are embedded as data: URIs
+  const { removed } = sanitizeCertificateSvg(template);
+  if (removed.length > 0) {
+    errors.push(`Not allowed in templates: ${removed.join(', ')}`);
+  }
+
+  const used = new Set(Array.from(template.matchAll(/\{\{\s*([a-z_]+)\s*\}\}/g), (m) => m[1]));
+  for (const name of used) {
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      errors.push(`Unknown placeholder {{${name}}}`);
+    }
+  }
+  for (const name of REQUIRED_PLACEHOLDERS) {
+    if (!used.has(name)) {
+      errors.push(`Missing required placeholder {{${name}}}`);
+    }
+  }
+
+  if (typeof DOMParser !== 'undefined' && errors.length === 0) {
+    const doc = new DOMParser().parseFromString(template, 'image/svg+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      errors.push('Template is not well-formed SVG');
+    }
+  }
+
+  return errors;
+}
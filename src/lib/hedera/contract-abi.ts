@@ -0,0 +1,345 @@
+/**
+ * Contract ABI Helpers
+ *
+ * Turns a compiled contract's ABI into the function list the playground
+ * renders, and converts form input (always strings) to and from ABI-encoded
+ * call data.
+ *
+ * Address inputs accept Hedera IDs (0.0.1234) as well as 0x addresses; IDs
+ * are converted to their long-zero EVM address.
+ */
+
+import { AccountId } from '@hashgraph/sdk';
+import { Interface, Result } from 'ethers';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParameter[]; // tuples
+  indexed?: boolean; // event parameters
+}
+
+export interface AbiEntry {
+  type: 'function' | 'constructor' | 'event' | 'error' | 'fallback' | 'receive';
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: 'pure' | 'view' | 'nonpayable' | 'payable';
+  anonymous?: boolean;
+}
+
+export type ContractAbi = AbiEntry[];
+
+/** NatSpec user documentation (`/// @notice ...`) as emitted by solc */
+export interface ContractUserDoc {
+  notice?: string;
+  methods?: Record<string, { notice?: string }>;
+}
+
+export interface ContractFunction {
+  name: string;
+  signature: string; // e.g. setMessage(string) - unique even when overloaded
+  description: string;
+  inputs: AbiParameter[];
+  outputs?: string; // e.g. "uint256" or "(uint256, uint256)"
+  isPayable?: boolean;
+  readonly?: boolean; // For view/pure functions
+}
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+/** Canonical type of a parameter, expanding tuples */
+function canonicalType(param: AbiParameter): string {
+  if (!param.type.startsWith('tuple')) return param.type;
+  const components = (param.components || []).map(canonicalType).join(',');
+  return `(${components})${param.type.slice('tuple'.length)}`;
+}
+
+export function getFunctionSignature(entry: Pick<AbiEntry, 'name' | 'inputs'>): string {
+  return `${entry.name}(${(entry.inputs || []).map(canonicalType).join(',')})`;
+}
+
+/**
+ * Display form of a parameter list
+ *
+ * @returns "uint256" for a single value, "(uint256, uint256)" otherwise
+ */
+export function formatAbiParameters(params: AbiParameter[]): string {
+  const types = params.map(canonicalType);
+  return types.length === 1 ? types[0] : `(${types.join(', ')})`;
+}
+
+// ============================================================================
+// ABI -> UI
+// ============================================================================
+
+function describeFunction(entry: AbiEntry): string {
+  switch (entry.stateMutability) {
+    case 'view':
+      return 'Reads contract state (free query)';
+    case 'pure':
+      return 'Computes a value without reading state (free query)';
+    case 'payable':
+      return 'Changes contract state and can receive HBAR';
+    default:
+      return 'Changes contract state (transaction)';
+  }
+}
+
+/**
+ * Build the playground's function list from an ABI
+ *
+ * Descriptions come from `/// @notice` comments when the contract has them.
+ * Read-only functions are listed after the ones that change state.
+ */
+export function abiToContractFunctions(abi: ContractAbi, userdoc?: ContractUserDoc): ContractFunction[] {
+  const functions = abi
+    .filter((entry) => entry.type === 'function' && entry.name)
+    .map((entry): ContractFunction => {
+      const signature = getFunctionSignature(entry);
+      const readonly = entry.stateMutability === 'view' || entry.stateMutability === 'pure';
+
+      return {
+        name: entry.name!,
+        signature,
+        description: userdoc?.methods?.[signature]?.notice || describeFunction(entry),
+        inputs: entry.inputs || [],
+        outputs: entry.outputs && entry.outputs.length > 0 ? formatAbiParameters(entry.outputs) : undefined,
+        isPayable: entry.stateMutability === 'payable',
+        readonly,
+      };
+    });
+
+  return [...functions.filter((func) => !func.readonly), ...functions.filter((func) => func.readonly)];
+}
+
+export function getConstructorInputs(abi: ContractAbi): AbiParameter[] {
+  return abi.find((entry) => entry.type === 'constructor')?.inputs || [];
+}
+
+/**
+ * Example value shown in an empty input
+ */
+export function getInputPlaceholder(param: AbiParameter): string {
+  const label = param.name ? `${param.name} (${canonicalType(param)})` : canonicalType(param);
+
+  if (param.type.endsWith(']') || param.type.startsWith('tuple')) return `${label} - JSON, e.g. [1, 2]`;
+  if (param.type === 'address') return `${label} - 0.0.1234 or 0x...`;
+  if (param.type === 'bool') return `${label} - true or false`;
+  if (param.type.startsWith('bytes')) return `${label} - 0x...`;
+  return label;
+}
+
+// ============================================================================
+// Input Parsing
+// ============================================================================
+
+const HEDERA_ID_REGEX = /^\d+\.\d+\.\d+$/;
+
+function coerceValue(param: AbiParameter, value: unknown, label: string): unknown {
+  const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch) {
+    if (!Array.isArray(value)) throw new Error(`${label} must be a JSON array`);
+    if (arrayMatch[2] && value.length !== Number(arrayMatch[2])) {
+      throw new Error(`${label} must have exactly ${arrayMatch[2]} items`);
+    }
+    const element = { ...param, type: arrayMatch[1] };
+    return value.map((item, index) => coerceValue(element, item, `${label}[${index}]`));
+  }
+
+  if (param.type === 'tuple') {
+    const components = param.components || [];
+    if (Array.isArray(value)) {
+      return components.map((component, index) => coerceValue(component, value[index], `${label}.${component.name || index}`));
+    }
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      return components.map((component) => coerceValue(component, record[component.name], `${label}.${component.name}`));
+    }
+    throw new Error(`${label} must be a JSON array or object`);
+  }
+
+  const text = typeof value === 'string' ? value.trim() : value;
+
+  if (param.type === 'bool') {
+    if (text === true || text === 'true' || text === '1') return true;
+    if (text === false || text === 'false' || text === '0') return false;
+    throw new Error(`${label} must be true or false`);
+  }
+
+  if (/^u?int\d*$/.test(param.type)) {
+    try {
+      return BigInt(text as string | number);
+    } catch {
+      throw new Error(`${label} must be a whole number`);
+    }
+  }
+
+  if (param.type === 'address') {
+    if (typeof text === 'string' && HEDERA_ID_REGEX.test(text)) {
+      return `0x${AccountId.fromString(text).toSolidityAddress()}`;
+    }
+    if (typeof text !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(text)) {
+      throw new Error(`${label} must be a Hedera ID (0.0.1234) or a 0x address`);
+    }
+    // Skip checksum validation; learners often paste lowercase addresses
+    return text.toLowerCase();
+  }
+
+  if (param.type.startsWith('bytes')) {
+    if (typeof text !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(text)) {
+      throw new Error(`${label} must be hex bytes starting with 0x`);
+    }
+    return text;
+  }
+
+  if (param.type === 'string') {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  return text;
+}
+
+/**
+ * Convert one form input to the value ethers expects for its ABI type
+ *
+ * Arrays and tuples are entered as JSON.
+ *
+ * @throws Error naming the input if the value doesn't fit the type
+ */
+export function parseAbiInput(param: AbiParameter, raw: string): unknown {
+  const label = param.name || param.type;
+
+  if (param.type.endsWith(']') || param.type.startsWith('tuple')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error(`${label} must be valid JSON`);
+    }
+    return coerceValue(param, parsed, label);
+  }
+
+  return coerceValue(param, raw, label);
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * ABI-encode a function call, selector included
+ *
+ * @param abi - Contract ABI
+ * @param signature - Function signature (see getFunctionSignature)
+ * @param rawValues - Form input, one string per parameter
+ * @returns 0x-prefixed call data
+ */
+export function encodeFunctionCall(abi: ContractAbi, signature: string, rawValues: string[]): string {
+  const contractInterface = new Interface(abi);
+  const fragment = contractInterface.getFunction(signature);
+  if (!fragment) throw new Error(`Function ${signature} is not in the ABI`);
+
+  const inputs = abi.find((entry) => entry.type === 'function' && getFunctionSignature(entry) === signature)?.inputs || [];
+  const values = inputs.map((param, index) => parseAbiInput(param, rawValues[index] ?? ''));
+
+  return contractInterface.encodeFunctionData(fragment, values);
+}
+
+/**
+ * ABI-encode constructor arguments
+ *
+ * @returns 0x-prefixed arguments, or an empty string without a constructor
+ */
+export function encodeConstructorArgs(abi: ContractAbi, rawValues: string[]): string {
+  const inputs = getConstructorInputs(abi);
+  if (inputs.length === 0) return '';
+
+  const values = inputs.map((param, index) => parseAbiInput(param, rawValues[index] ?? ''));
+  return new Interface(abi).encodeDeploy(values);
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+function formatValue(value: unknown): string {
+  if (value instanceof Result || Array.isArray(value)) {
+    return `[${Array.from(value as unknown[]).map(formatValue).join(', ')}]`;
+  }
+  if (typeof value === 'bigint') return value.toString();
+  return String(value);
+}
+
+/**
+ * Decode a function's return data for display
+ *
+ * @returns "42" for a single value, "(1, 2)" for several
+ */
+export function decodeFunctionResult(abi: ContractAbi, signature: string, data: string): string {
+  const contractInterface = new Interface(abi);
+  const fragment = contractInterface.getFunction(signature);
+  if (!fragment) throw new Error(`Function ${signature} is not in the ABI`);
+
+  const decoded = Array.from(contractInterface.decodeFunctionResult(fragment, data));
+  if (decoded.length === 1) return formatValue(decoded[0]);
+  return `(${decoded.map(formatValue).join(', ')})`;
+}
+
+export interface DecodedEvent {
+  name: string;
+  signature: string; // e.g. GreetingChanged(string)
+  args: Array<{ name: string; type: string; value: string }>;
+}
+
+/**
+ * Decode an event log emitted by a contract with this ABI
+ *
+ * @returns The event, or null if the log doesn't match any event in the ABI
+ */
+export function decodeEventLog(abi: ContractAbi, topics: string[], data: string): DecodedEvent | null {
+  try {
+    const parsed = new Interface(abi).parseLog({ topics, data });
+    if (!parsed) return null;
+
+    return {
+      name: parsed.name,
+      signature: parsed.signature,
+      args: parsed.fragment.inputs.map((input, index) => ({
+        name: input.name,
+        type: input.type,
+        value: formatValue(parsed.args[index]),
+      })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reason a call reverted, from its return data
+ *
+ * Understands `require(cond, "reason")`, panics (overflow, division by zero,
+ * ...) and custom errors declared in the ABI.
+ */
+export function decodeRevertReason(abi: ContractAbi, data: string): string | null {
+  if (!data || data === '0x') return null;
+
+  try {
+    const parsed = new Interface(abi).parseError(data);
+    if (!parsed) return null;
+
+    if (parsed.name === 'Error') return String(parsed.args[0]);
+    if (parsed.name === 'Panic') return `Panic code 0x${BigInt(parsed.args[0]).toString(16)}`;
+    return `${parsed.name}(${Array.from(parsed.args).map(formatValue).join(', ')})`;
+  } catch {
+    return null;
+  }
+}
@@ -12,6 +12,8 @@ import {
   ContractCallQuery,
   ContractFunctionParameters,
 } from '@hashgraph/sdk';
+import { getMirrorNode, type MirrorContractResult } from './mirror-node';
+import type { ContractAbi, ContractUserDoc } from './contract-abi';
 
 // Extend window type for Ethereum provider
 declare global {
@@ -22,17 +24,61 @@ declare global {
 
 const HEDERA_TESTNET_RPC = 'https://testnet.hashio.io/api';
 
+export interface SolidityFile {
+  name: string; // e.g. Counter.sol
+  content: string;
+}
+
+export interface CompilerDiagnostic {
+  severity: 'error' | 'warning' | 'info';
+  type: string; // e.g. ParserError, TypeError, Warning
+  errorCode?: string;
+  message: string;
+  formattedMessage?: string;
+  file: string | null;
+  line: number | null; // 1-based
+  column: number | null; // 1-based
+  endLine: number | null;
+  endColumn: number | null;
+}
+
+export interface CompiledContract {
+  name: string;
+  file: string;
+  abi: ContractAbi;
+  bytecode: string; // hex, empty for interfaces and abstract contracts
+  userdoc?: ContractUserDoc;
+}
+
+export interface CompileContractResult {
+  success: boolean;
+  contracts: CompiledContract[];
+  diagnostics: CompilerDiagnostic[];
+  error?: string;
+}
+
 export interface DeployContractParams {
-  contractName: string;
-  solidityCode: string;
-  constructorParams?: any[];
+  contractName: string; // Contract to deploy, as declared in the sources
+  files: SolidityFile[];
+  constructorData?: string; // ABI-encoded constructor arguments (see encodeConstructorArgs)
+}
+
+export interface ContractLog {
+  address: string; // EVM address of the emitting contract
+  contractId?: string;
+  topics: string[];
+  data: string;
 }
 
 export interface DeployContractResult {
   success: boolean;
   contractId?: string;
+  evmAddress?: string;
   transactionId?: string;
   hashScanUrl?: string;
+  gasUsed?: number;
+  gasCharged?: number; // Hedera charges at least 80% of the gas limit
+  logs?: ContractLog[];
   error?: string;
 }
 
@@ -40,6 +86,7 @@ export interface ExecuteContractParams {
   contractId: string;
   functionName: string;
   functionParams?: Array<{ type: string; value: any }>;
+  functionData?: string; // ABI-encoded call data (see encodeFunctionCall); replaces functionParams
   gas?: number;
   outputType?: string; // For readonly functions - helps with decoding
 }
@@ -48,9 +95,68 @@ export interface ExecuteContractResult {
   success: boolean;
   transactionId?: string;
   result?: any;
+  resultData?: string; // Raw return data of functionData queries
+  gasUsed?: number;
+  gasCharged?: number; // Hedera charges at least 80% of the gas limit
+  logs?: ContractLog[];
   error?: string;
 }
 
+function toSourceMap(files: SolidityFile[]): Record<string, string> {
+  return Object.fromEntries(files.map((file) => [file.name, file.content]));
+}
+
+/**
+ * Compile Solidity files - NO wallet signature needed
+ *
+ * Compiler errors don't fail the call: they come back as diagnostics with
+ * file, line and column so they can be shown next to the code.
+ *
+ * @param files - Solidity files; they may import each other by path
+ * @returns Compiled contracts (ABI + bytecode) and diagnostics
+ */
+export async function compileContractClientSide(files: SolidityFile[]): Promise<CompileContractResult> {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/contract-deploy`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        },
+        body: JSON.stringify({
+          action: 'compile',
+          sources: toSourceMap(files),
+        }),
+      }
+    );
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Compilation failed');
+    }
+
+    return {
+      success: true,
+      contracts: result.contracts || [],
+      diagnostics: result.diagnostics || [],
+    };
+
+  } catch (error: any) {
+    console.error('❌ Contract compilation failed:', error);
+
+    return {
+      success: false,
+      contracts: [],
+      diagnostics: [],
+      error: error.message || 'Failed to compile contract',
+    };
+  }
+}
+
 /**
  * Deploy a smart contract using REAL Hedera testnet transactions
  *
@@ -104,13 +210,16 @@ export async function deployContractClientSide(
 
     console.log('✅ Wallet connected:', accounts[0]);
 
+    const codeLength = params.files.reduce((sum, file) => sum + file.content.length, 0);
+
     console.log('📝 Contract details:', {
       name: params.contractName,
-      codeLength: params.solidityCode.length,
+      files: params.files.map((file) => file.name),
+      codeLength,
     });
 
     // Request wallet signature to prove ownership
-    const authMessage = `Deploy Smart Contract\nName: ${params.contractName}\nCode Length: ${params.solidityCode.length} chars\nTimestamp: ${new Date().toISOString()}`;
+    const authMessage = `Deploy Smart Contract\nName: ${params.contractName}\nFiles: ${params.files.length}\nCode Length: ${codeLength} chars\nTimestamp: ${new Date().toISOString()}`;
 
     // Convert string to hex for wallet signing (browser-compatible)
     const encoder = new TextEncoder();
@@ -154,8 +263,8 @@ export async function deployContractClientSide(
         body: JSON.stringify({
           action: 'deploy',
           contractName: params.contractName,
-          solidityCode: params.solidityCode,
-          constructorParams: params.constructorParams || [],
+          sources: toSourceMap(params.files),
+          constructorData: params.constructorData || undefined,
           walletAddress: accounts[0],
           walletSignature: walletSignature,
         }),
@@ -179,12 +288,9 @@ export async function deployContractClientSide(
     await new Promise(resolve => setTimeout(resolve, 2000));
 
     try {
-      const mirrorResponse = await fetch(
-        `https://testnet.mirrornode.hedera.com/api/v1/contracts/${result.contractId}`
-      );
+      const contractData = await getMirrorNode().getContract(result.contractId, { ttlMs: 0 });
 
-      if (mirrorResponse.ok) {
-        const contractData = await mirrorResponse.json();
+      if (contractData) {
         console.log('✅ Mirror Node verification successful:', contractData);
       }
     } catch (mirrorError) {
@@ -215,13 +321,6 @@ export async function deployContractClientSide(
       };
     }
 
-    if (error.message?.includes('not supported')) {
-      return {
-        success: false,
-        error: error.message + '. Please use one of the pre-compiled contract templates.',
-      };
-    }
-
     return {
       success: false,
       error: error.message || 'Failed to deploy contract',
@@ -327,6 +426,7 @@ export async function executeContractClientSide(
           contractId: params.contractId,
           functionName: params.functionName,
           functionParams: params.functionParams || [],
+          functionData: params.functionData,
           gas: params.gas || 100000,
           walletAddress: accounts[0],
           walletSignature: walletSignature,
@@ -344,22 +444,19 @@ export async function executeContractClientSide(
     console.log('Transaction ID:', result.transactionId);
     console.log('Result:', result.result);
 
-    // Verify on Mirror Node (optional - skip if it fails)
+    // Verify on Mirror Node (optional - skip if it fails); its contract
+    // result also carries the gas used and emitted events
     console.log('🔍 Verifying on Hedera Mirror Node...');
     await new Promise(resolve => setTimeout(resolve, 2000));
 
+    let contractResult: MirrorContractResult | null = null;
     try {
-      // Mirror Node expects transaction ID with @ replaced by -
-      const txIdForMirror = result.transactionId.replace('@', '-');
-      const mirrorResponse = await fetch(
-        `https://testnet.mirrornode.hedera.com/api/v1/transactions/${txIdForMirror}`
-      );
-
-      if (mirrorResponse.ok) {
-        const txData = await mirrorResponse.json();
-        console.log('✅ Mirror Node verification successful:', txData);
+      contractResult = await getMirrorNode().getContractResult(result.transactionId, { ttlMs: 0 });
+
+      if (contractResult) {
+        console.log('✅ Mirror Node verification successful:', contractResult);
       } else {
-        console.log(`ℹ️ Mirror Node returned ${mirrorResponse.status} (this is OK - transaction was successful)`);
+        console.log('ℹ️ Mirror Node has not indexed the transaction yet (this is OK - transaction was successful)');
       }
     } catch (mirrorError) {
       console.log('ℹ️ Skipping Mirror Node verification (transaction was still successful)');
@@ -369,6 +466,13 @@ export async function executeContractClientSide(
       success: true,
       transactionId: result.transactionId,
       result: result.result,
+      gasUsed: contractResult?.gas_used ?? undefined,
+      logs: contractResult?.logs?.map((log) => ({
+        address: log.address,
+        contractId: log.contract_id,
+        topics: log.topics,
+        data: log.data,
+      })),
     };
 
   } catch (error: any) {
@@ -424,6 +528,7 @@ export async function queryContractClientSide(
           contractId: params.contractId,
           functionName: params.functionName,
           functionParams: params.functionParams || [],
+          functionData: params.functionData,
           gas: params.gas || 100000,
           outputType: params.outputType, // Pass output type for decoding
         }),
@@ -442,6 +547,7 @@ export async function queryContractClientSide(
     return {
       success: true,
       result: result.result,
+      resultData: result.resultData,
     };
 
   } catch (error: any) {
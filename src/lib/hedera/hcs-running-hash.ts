@@ -0,0 +1,100 @@
+/**
+ * HCS Running Hash
+ *
+ * Every message on a topic carries a running hash that chains it to all the
+ * messages before it. Given two consecutive messages, anyone can recompute
+ * the second hash and confirm the message was ordered right after the first
+ * and has not been altered since.
+ *
+ * Version 3 (the current one) is SHA-384 over, big-endian:
+ *   previous running hash (48 zero bytes before the first message)
+ *   version (int64)
+ *   payer shard, realm, num (int64 each)
+ *   topic shard, realm, num (int64 each)
+ *   consensus seconds (int64), consensus nanos (int32)
+ *   sequence number (int64)
+ *   SHA-384 of the message contents
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunningHashInput {
+  previousRunningHash: Uint8Array;
+  payerAccountId: string;
+  topicId: string;
+  consensusTimestamp: string; // seconds.nanos
+  sequenceNumber: number;
+  message: Uint8Array;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const RUNNING_HASH_VERSION = 3;
+export const RUNNING_HASH_BYTES = 48;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha384(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-384', bytes));
+}
+
+function parseEntityId(id: string): [bigint, bigint, bigint] {
+  const parts = id.split('.');
+  if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    throw new Error(`Invalid entity ID: ${id}`);
+  }
+  return [BigInt(parts[0]), BigInt(parts[1]), BigInt(parts[2])];
+}
+
+// ============================================================================
+// Running Hash
+// ============================================================================
+
+/**
+ * Compute a version 3 running hash
+ *
+ * @returns The 48-byte running hash the network assigns to this message
+ */
+export async function computeRunningHash(input: RunningHashInput): Promise<Uint8Array> {
+  if (input.previousRunningHash.length !== RUNNING_HASH_BYTES) {
+    throw new Error(`Running hash must be ${RUNNING_HASH_BYTES} bytes`);
+  }
+
+  const [seconds, nanos = '0'] = input.consensusTimestamp.split('.');
+  const longs = [
+    BigInt(RUNNING_HASH_VERSION),
+    ...parseEntityId(input.payerAccountId),
+    ...parseEntityId(input.topicId),
+    BigInt(seconds),
+  ];
+
+  // 8 longs + nanos (int32) + sequence number (int64)
+  const fields = new DataView(new ArrayBuffer(longs.length * 8 + 4 + 8));
+  longs.forEach((value, index) => fields.setBigInt64(index * 8, value));
+  fields.setInt32(longs.length * 8, Number(nanos.padEnd(9, '0')));
+  fields.setBigInt64(longs.length * 8 + 4, BigInt(input.sequenceNumber));
+
+  const messageHash = await sha384(input.message);
+  const preimage = new Uint8Array(RUNNING_HASH_BYTES + fields.byteLength + messageHash.length);
+  preimage.set(input.previousRunningHash, 0);
+  preimage.set(new Uint8Array(fields.buffer), RUNNING_HASH_BYTES);
+  preimage.set(messageHash, RUNNING_HASH_BYTES + fields.byteLength);
+
+  return sha384(preimage);
+}
@@ -0,0 +1,285 @@
+/**
+ * HCS Message Schemas
+ *
+ * Structured JSON messages for the HCS workshop. HCS itself accepts any
+ * bytes, so it is up to the applications reading a topic to agree on a
+ * format; these schemas mirror the use cases in HCSUseCaseExplorer.
+ *
+ * Messages are posted as an envelope:
+ *   { "schema": "supply-chain-event", "version": 1, "data": { ... } }
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SchemaFieldType = 'string' | 'number' | 'datetime' | 'enum';
+
+export interface SchemaField {
+  name: string;
+  label: string;
+  type: SchemaFieldType;
+  required?: boolean;
+  options?: string[]; // enum values
+  maxLength?: number; // strings
+  min?: number; // numbers
+  max?: number;
+  placeholder?: string;
+}
+
+export interface HcsMessageSchema {
+  id: string;
+  name: string;
+  emoji: string;
+  description: string;
+  version: number;
+  fields: SchemaField[];
+}
+
+export interface SchemaMessage {
+  schema: string;
+  version: number;
+  data: Record<string, unknown>;
+}
+
+export interface ParsedSchemaMessage {
+  message: SchemaMessage | null;
+  errors: string[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Largest message that fits in a single HCS chunk */
+export const MAX_HCS_MESSAGE_BYTES = 1024;
+
+export const HCS_MESSAGE_SCHEMAS: HcsMessageSchema[] = [
+  {
+    id: 'supply-chain-event',
+    name: 'Supply Chain Event',
+    emoji: '☕',
+    description: 'One step in a product\'s journey from farm to shelf',
+    version: 1,
+    fields: [
+      { name: 'batchId', label: 'Batch ID', type: 'string', required: true, maxLength: 40, placeholder: 'COFFEE-2025-0042' },
+      { name: 'stage', label: 'Stage', type: 'enum', required: true, options: ['harvested', 'processed', 'shipped', 'received', 'sold'] },
+      { name: 'location', label: 'Location', type: 'string', required: true, maxLength: 80, placeholder: 'Sidama, Ethiopia' },
+      { name: 'handler', label: 'Handled by', type: 'string', required: true, maxLength: 60, placeholder: 'Sidama Farmers Cooperative' },
+      { name: 'temperatureC', label: 'Temperature (°C)', type: 'number', min: -50, max: 80 },
+      { name: 'occurredAt', label: 'Occurred at', type: 'datetime' },
+    ],
+  },
+  {
+    id: 'attendance-record',
+    name: 'Attendance Record',
+    emoji: '🙋',
+    description: 'Proof that someone attended a class, meeting or event',
+    version: 1,
+    fields: [
+      { name: 'eventId', label: 'Event ID', type: 'string', required: true, maxLength: 40, placeholder: 'HEDERA-101-WEEK-3' },
+      { name: 'attendee', label: 'Attendee', type: 'string', required: true, maxLength: 60, placeholder: 'student-1234' },
+      { name: 'status', label: 'Status', type: 'enum', required: true, options: ['present', 'late', 'absent', 'excused'] },
+      { name: 'checkedInAt', label: 'Checked in at', type: 'datetime' },
+    ],
+  },
+  {
+    id: 'credential-issued',
+    name: 'Credential Issued',
+    emoji: '🎓',
+    description: 'A degree, diploma or license issued to a holder',
+    version: 1,
+    fields: [
+      { name: 'credentialId', label: 'Credential ID', type: 'string', required: true, maxLength: 40, placeholder: 'BSC-CS-2025-0789' },
+      { name: 'credentialType', label: 'Type', type: 'enum', required: true, options: ['degree', 'diploma', 'certificate', 'license'] },
+      { name: 'holder', label: 'Holder', type: 'string', required: true, maxLength: 60, placeholder: 'Jane Doe' },
+      { name: 'issuer', label: 'Issuer', type: 'string', required: true, maxLength: 80, placeholder: 'State University' },
+      { name: 'issuedOn', label: 'Issued on', type: 'datetime', required: true },
+    ],
+  },
+  {
+    id: 'vote-cast',
+    name: 'Vote Cast',
+    emoji: '🗳️',
+    description: 'An anonymous ballot, identified only by a voter commitment',
+    version: 1,
+    fields: [
+      { name: 'electionId', label: 'Election ID', type: 'string', required: true, maxLength: 40, placeholder: 'CLUB-BOARD-2025' },
+      { name: 'choice', label: 'Choice', type: 'string', required: true, maxLength: 60, placeholder: 'Candidate A' },
+      { name: 'voterCommitment', label: 'Voter commitment', type: 'string', required: true, maxLength: 96, placeholder: 'Hash of voter ID + secret' },
+    ],
+  },
+  {
+    id: 'audit-entry',
+    name: 'Audit Entry',
+    emoji: '📊',
+    description: 'A tamper-evident record of who did what, and when',
+    version: 1,
+    fields: [
+      { name: 'actor', label: 'Actor', type: 'string', required: true, maxLength: 60, placeholder: 'accounts-payable-bot' },
+      { name: 'action', label: 'Action', type: 'enum', required: true, options: ['create', 'update', 'delete', 'approve', 'reject'] },
+      { name: 'resource', label: 'Resource', type: 'string', required: true, maxLength: 80, placeholder: 'invoice/INV-2025-118' },
+      { name: 'amount', label: 'Amount', type: 'number', min: 0 },
+      { name: 'reference', label: 'Reference', type: 'string', maxLength: 120 },
+    ],
+  },
+];
+
+// ============================================================================
+// Schema Lookup
+// ============================================================================
+
+export function getMessageSchema(schemaId: string | null | undefined): HcsMessageSchema | undefined {
+  return HCS_MESSAGE_SCHEMAS.find((schema) => schema.id === schemaId);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateField(field: SchemaField, value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return field.required ? `${field.label} is required` : null;
+  }
+
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${field.label} must be text`;
+      if (field.maxLength && value.length > field.maxLength) {
+        return `${field.label} must be ${field.maxLength} characters or less`;
+      }
+      return null;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${field.label} must be a number`;
+      if (field.min !== undefined && value < field.min) return `${field.label} must be at least ${field.min}`;
+      if (field.max !== undefined && value > field.max) return `${field.label} must be at most ${field.max}`;
+      return null;
+
+    case 'datetime':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        return `${field.label} must be a date and time`;
+      }
+      return null;
+
+    case 'enum':
+      if (!field.options?.includes(value as string)) {
+        return `${field.label} must be one of: ${field.options?.join(', ')}`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Validate message data against a schema
+ *
+ * @returns Errors keyed by field name (empty when valid)
+ */
+export function validateSchemaData(
+  schema: HcsMessageSchema,
+  data: Record<string, unknown>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  schema.fields.forEach((field) => {
+    const error = validateField(field, data[field.name]);
+    if (error) errors[field.name] = error;
+  });
+
+  Object.keys(data)
+    .filter((key) => !schema.fields.some((field) => field.name === key))
+    .forEach((key) => {
+      errors[key] = `Unknown field: ${key}`;
+    });
+
+  return errors;
+}
+
+/**
+ * Turn form input (all strings) into typed message data
+ *
+ * Empty fields are left out; values that don't parse are kept as strings so
+ * validateSchemaData reports them.
+ */
+export function coerceFormValues(
+  schema: HcsMessageSchema,
+  values: Record<string, string>
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  schema.fields.forEach((field) => {
+    const raw = values[field.name]?.trim();
+    if (!raw) return;
+
+    if (field.type === 'number') {
+      const parsed = Number(raw);
+      data[field.name] = Number.isFinite(parsed) ? parsed : raw;
+    } else if (field.type === 'datetime') {
+      const parsed = Date.parse(raw);
+      data[field.name] = Number.isNaN(parsed) ? raw : new Date(parsed).toISOString();
+    } else {
+      data[field.name] = raw;
+    }
+  });
+
+  return data;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Wrap data in a schema envelope, ready to submit
+ *
+ * @throws Error if the data is invalid or too large for one HCS chunk
+ */
+export function encodeSchemaMessage(schema: HcsMessageSchema, data: Record<string, unknown>): string {
+  const errors = Object.values(validateSchemaData(schema, data));
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const message: SchemaMessage = { schema: schema.id, version: schema.version, data };
+  const encoded = JSON.stringify(message);
+
+  if (new TextEncoder().encode(encoded).length > MAX_HCS_MESSAGE_BYTES) {
+    throw new Error(`Message must be ${MAX_HCS_MESSAGE_BYTES} bytes or less`);
+  }
+
+  return encoded;
+}
+
+/**
+ * Read a message posted to a schema topic
+ *
+ * Anyone can post to a topic without a submit key, so messages are checked
+ * on the way in as well as on the way out.
+ *
+ * @param content - Decoded message contents
+ * @param schema - Schema the topic expects
+ */
+export function parseSchemaMessage(content: string, schema: HcsMessageSchema): ParsedSchemaMessage {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { message: null, errors: ['Not JSON'] };
+  }
+
+  const envelope = parsed as Partial<SchemaMessage> | null;
+  if (!envelope || typeof envelope !== 'object' || typeof envelope.data !== 'object' || !envelope.data) {
+    return { message: null, errors: ['Missing schema envelope'] };
+  }
+  if (envelope.schema !== schema.id) {
+    return { message: null, errors: [`Expected schema ${schema.id}, got ${envelope.schema ?? 'none'}`] };
+  }
+
+  const message: SchemaMessage = {
+    schema: envelope.schema,
+    version: Number(envelope.version) || 1,
+    data: envelope.data as Record<string, unknown>,
+  };
+
+  return { message, errors: Object.values(validateSchemaData(schema, message.data)) };
+}
@@ -13,6 +13,8 @@ import {
   PrivateKey,
   Transaction,
 } from '@hashgraph/sdk';
+import { decodeMirrorBase64, getMirrorNode } from './mirror-node';
+import type { MirrorTopic, MirrorTopicMessage } from './mirror-node';
 
 // Extend window type for Ethereum provider
 declare global {
@@ -21,7 +23,6 @@ declare global {
   }
 }
 
-const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com/api/v1';
 const HEDERA_TESTNET_RPC = 'https://testnet.hashio.io/api';
 
 // Public HCS Topic ID for Web3versity Message Board
@@ -236,14 +237,8 @@ export async function submitTopicMessageClientSide(
     await new Promise(resolve => setTimeout(resolve, 2000));
 
     try {
-      const mirrorResponse = await fetch(
-        `${MIRROR_NODE_URL}/topics/${params.topicId}/messages?limit=5&order=desc`
-      );
-
-      if (mirrorResponse.ok) {
-        const mirrorData = await mirrorResponse.json();
-        console.log('✅ Mirror Node verification:', mirrorData.messages?.length || 0, 'recent messages found');
-      }
+      const recentMessages = await getMirrorNode().getTopicMessages(params.topicId, { limit: 5, ttlMs: 0 });
+      console.log('✅ Mirror Node verification:', recentMessages.length, 'recent messages found');
     } catch (mirrorError) {
       console.warn('⚠️ Could not verify on mirror node:', mirrorError);
     }
@@ -279,6 +274,39 @@ export async function submitTopicMessageClientSide(
   }
 }
 
+/**
+ * Convert a mirror node topic message to the board's message format
+ *
+ * Messages posted by the board are JSON ({ username, message }); anything
+ * else is shown as-is from an anonymous author.
+ */
+export function toTopicMessage(msg: MirrorTopicMessage): TopicMessage {
+  // Decode base64 message content
+  const content = decodeMirrorBase64(msg.message);
+
+  // Try to parse JSON format: { username, message }
+  let author = 'Anonymous';
+  let messageText = content;
+
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed.username) author = parsed.username;
+    if (parsed.message) messageText = parsed.message;
+  } catch (e) {
+    // If not JSON, use content as-is
+  }
+
+  return {
+    id: `${msg.consensus_timestamp}-${msg.sequence_number}`,
+    content: messageText,
+    author,
+    timestamp: parseFloat(msg.consensus_timestamp) * 1000, // Convert to milliseconds
+    sequenceNumber: msg.sequence_number,
+    consensusTimestamp: msg.consensus_timestamp,
+    transactionId: msg.payer_account_id, // Approximation
+  };
+}
+
 /**
  * Get messages from an HCS topic via Mirror Node API
  *
@@ -291,51 +319,9 @@ export async function getTopicMessages(
   limit: number = 25
 ): Promise<TopicMessage[]> {
   try {
-    const response = await fetch(
-      `${MIRROR_NODE_URL}/topics/${topicId}/messages?limit=${limit}&order=desc`
-    );
+    const mirrorMessages = await getMirrorNode().getTopicMessages(topicId, { limit });
 
-    if (!response.ok) {
-      console.error(`Failed to fetch topic messages: ${response.status}`);
-      return [];
-    }
-
-    const data = await response.json();
-
-    // Transform Mirror Node response to our format
-    const messages: TopicMessage[] = (data.messages || []).map((msg: any) => {
-      // Decode base64 message content
-      let content = '';
-      try {
-        content = msg.message ? atob(msg.message) : '';
-      } catch (e) {
-        content = msg.message || '';
-      }
-
-      // Try to parse JSON format: { username, message }
-      let author = 'Anonymous';
-      let messageText = content;
-
-      try {
-        const parsed = JSON.parse(content);
-        if (parsed.username) author = parsed.username;
-        if (parsed.message) messageText = parsed.message;
-      } catch (e) {
-        // If not JSON, use content as-is
-      }
-
-      return {
-        id: `${msg.consensus_timestamp}-${msg.sequence_number}`,
-        content: messageText,
-        author,
-        timestamp: parseFloat(msg.consensus_timestamp) * 1000, // Convert to milliseconds
-        sequenceNumber: msg.sequence_number,
-        consensusTimestamp: msg.consensus_timestamp,
-        transactionId: msg.payer_account_id, // Approximation
-      };
-    });
-
-    return messages;
+    return mirrorMessages.map(toTopicMessage);
 
   } catch (error) {
     console.error('Error fetching topic messages:', error);
@@ -349,16 +335,14 @@ export async function getTopicMessages(
  * @param topicId - HCS topic ID
  * @returns Topic info or null if not found
  */
-export async function getTopicInfo(topicId: string): Promise<any | null> {
+export async function getTopicInfo(topicId: string): Promise<MirrorTopic | null> {
   try {
-    const response = await fetch(`${MIRROR_NODE_URL}/topics/${topicId}`);
+    const data = await getMirrorNode().getTopic(topicId);
 
-    if (!response.ok) {
-      console.error(`Failed to fetch topic info: ${response.status}`);
-      return null;
+    if (!data) {
+      console.error(`Topic ${topicId} not found on Mirror Node`);
     }
 
-    const data = await response.json();
     return data;
 
   } catch (error) {
@@ -367,65 +351,6 @@ export async function getTopicInfo(topicId: string): Promise<any | null> {
   }
 }
 
-/**
- * Subscribe to topic messages with polling
- *
- * This creates a simple polling mechanism to check for new messages.
- * Returns a cleanup function to stop polling.
- *
- * @param topicId - HCS topic ID
- * @param onMessage - Callback when new messages arrive
- * @param intervalMs - Polling interval in milliseconds (default: 5000)
- * @returns Cleanup function to stop polling
- */
-export function subscribeToTopic(
-  topicId: string,
-  onMessage: (messages: TopicMessage[]) => void,
-  intervalMs: number = 5000
-): () => void {
-  let lastSequenceNumber = 0;
-  let isPolling = true;
-
-  const poll = async () => {
-    if (!isPolling) return;
-
-    try {
-      const messages = await getTopicMessages(topicId, 10);
-
-      // Filter for new messages only
-      const newMessages = messages.filter(
-        msg => msg.sequenceNumber > lastSequenceNumber
-      );
-
-      if (newMessages.length > 0) {
-        // Update last sequence number
-        lastSequenceNumber = Math.max(
-          ...newMessages.map(msg => msg.sequenceNumber)
-        );
-
-        // Call callback with new messages
-        onMessage(newMessages);
-      }
-
-    } catch (error) {
-      console.error('Error polling topic messages:', error);
-    }
-
-    // Schedule next poll
-    if (isPolling) {
-      setTimeout(poll, intervalMs);
-    }
-  };
-
-  // Start polling
-  poll();
-
-  // Return cleanup function
-  return () => {
-    isPolling = false;
-  };
-}
-
 /**
  * Check if HCS Edge Function is available
  */
@@ -0,0 +1,401 @@
+/**
+ * HCS Topic Subscriptions
+ *
+ * Live topic messages for the HCS practicals. Each topic has one shared
+ * subscription no matter how many components listen to it:
+ *
+ * 1. Catch up from the mirror node REST API, paging through `links.next`
+ *    from the last consensus timestamp seen (recent history on first load)
+ * 2. Stream new messages with the SDK's TopicMessageQuery from that timestamp
+ * 3. If streaming is unavailable (or drops), poll the REST API instead and
+ *    retry streaming later
+ *
+ * Messages are delivered in sequence order exactly once per listener; a
+ * streamed message that arrives after a gap in sequence numbers is held back
+ * and catch-ups are retried until the gap is filled.
+ *
+ * Usage:
+ *   const unsubscribe = subscribeToTopic(topicId, (messages) => { ... });
+ */
+
+import {
+  Client,
+  Timestamp,
+  TopicMessageQuery,
+  type SubscriptionHandle,
+  type TopicMessage as SdkTopicMessage,
+} from '@hashgraph/sdk';
+import { env } from '@/config';
+import { getMirrorNode } from './mirror-node';
+import type { MirrorTopicMessage } from './mirror-node';
+import { toTopicMessage, type TopicMessage } from './hcs-service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TopicSubscriptionStatus = 'connecting' | 'streaming' | 'polling';
+
+export interface TopicSubscriptionOptions {
+  onStatusChange?: (status: TopicSubscriptionStatus) => void;
+}
+
+interface SharedTopicSubscription {
+  topicId: string;
+  listeners: Set<(messages: TopicMessage[]) => void>;
+  statusListeners: Set<(status: TopicSubscriptionStatus) => void>;
+  status: TopicSubscriptionStatus;
+  history: TopicMessage[];
+  held: Map<number, TopicMessage>; // Streamed messages waiting on a gap, by sequence number
+  lastSequenceNumber: number;
+  lastTimestamp: string | null;
+  stream: SubscriptionHandle | null;
+  pollTimer: ReturnType<typeof setTimeout> | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  gapTimer: ReturnType<typeof setTimeout> | null;
+  catchingUp: Promise<void> | null;
+  closed: boolean;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const INITIAL_HISTORY = 50; // Messages loaded when a topic is first opened
+const MAX_HISTORY = 200; // Messages replayed to components that join later
+const CATCH_UP_PAGE = 100;
+const POLL_INTERVAL_MS = 5000;
+const STREAM_RETRY_MS = 30000;
+const GAP_RETRY_MS = 2000; // The REST API can lag the stream by a few seconds
+
+const subscriptions = new Map<string, SharedTopicSubscription>();
+
+let streamClient: Client | null = null;
+let streamingUnavailable = env.USE_FAKE_MIRROR_NODE;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Streamed messages in the mirror node REST shape, so both paths share toTopicMessage
+ */
+function fromSdkMessage(topicId: string, message: SdkTopicMessage): MirrorTopicMessage {
+  return {
+    topic_id: topicId,
+    consensus_timestamp: message.consensusTimestamp.toString(),
+    sequence_number: Number(message.sequenceNumber),
+    message: toBase64(message.contents),
+    payer_account_id: message.initialTransactionId?.accountId?.toString() ?? '',
+    running_hash: toBase64(message.runningHash),
+    running_hash_version: 3,
+    chunk_info: null,
+  };
+}
+
+function toSdkTimestamp(consensusTimestamp: string | null): Timestamp {
+  if (!consensusTimestamp) return new Timestamp(0, 0);
+  const [seconds, nanos = '0'] = consensusTimestamp.split('.');
+  return new Timestamp(Number(seconds), Number(nanos.padEnd(9, '0')));
+}
+
+function getStreamClient(): Client {
+  if (!streamClient) {
+    // Mirror node subscriptions are free, so no operator is needed
+    streamClient = Client.forName(env.HEDERA_NETWORK);
+  }
+  return streamClient;
+}
+
+function setStatus(sub: SharedTopicSubscription, status: TopicSubscriptionStatus): void {
+  if (sub.status === status) return;
+  sub.status = status;
+  sub.statusListeners.forEach((listener) => listener(status));
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * Pass on messages newer than the last one delivered, in sequence order
+ */
+function deliver(sub: SharedTopicSubscription, messages: TopicMessage[]): void {
+  const fresh = messages
+    .filter((message) => message.sequenceNumber > sub.lastSequenceNumber)
+    .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+    .filter((message, index, sorted) => index === 0 || message.sequenceNumber !== sorted[index - 1].sequenceNumber);
+
+  if (fresh.length === 0 || sub.closed) return;
+
+  const last = fresh[fresh.length - 1];
+  sub.lastSequenceNumber = last.sequenceNumber;
+  sub.lastTimestamp = last.consensusTimestamp;
+  sub.history = sub.history.concat(fresh).slice(-MAX_HISTORY);
+
+  sub.listeners.forEach((listener) => listener(fresh));
+}
+
+/**
+ * Pass on held messages that now follow on from the last one delivered
+ */
+function releaseHeld(sub: SharedTopicSubscription): void {
+  const ready: TopicMessage[] = [];
+  let next = sub.lastSequenceNumber + 1;
+
+  for (const sequenceNumber of Array.from(sub.held.keys()).sort((a, b) => a - b)) {
+    if (sequenceNumber > next) break;
+    if (sequenceNumber === next) {
+      ready.push(sub.held.get(sequenceNumber)!);
+      next++;
+    }
+    // Earlier ones already came in with a catch-up
+    sub.held.delete(sequenceNumber);
+  }
+
+  deliver(sub, ready);
+}
+
+/**
+ * Catch up until the held messages can be delivered, retrying while the
+ * REST API does not have the missing ones yet
+ */
+function fillGap(sub: SharedTopicSubscription): void {
+  if (sub.gapTimer || sub.closed) return;
+
+  catchUp(sub)
+    .catch((error) => console.error('Error catching up topic messages:', error))
+    .then(() => {
+      if (sub.held.size > 0 && !sub.gapTimer && !sub.closed) {
+        sub.gapTimer = setTimeout(() => {
+          sub.gapTimer = null;
+          fillGap(sub);
+        }, GAP_RETRY_MS);
+      }
+    });
+}
+
+/**
+ * Fetch everything after the last consensus timestamp from the REST API
+ *
+ * Concurrent calls share one catch-up.
+ */
+function catchUp(sub: SharedTopicSubscription): Promise<void> {
+  if (!sub.catchingUp) {
+    sub.catchingUp = (async () => {
+      const mirrorNode = getMirrorNode();
+
+      if (!sub.lastTimestamp) {
+        const recent = await mirrorNode.getTopicMessages(sub.topicId, {
+          limit: INITIAL_HISTORY,
+          order: 'desc',
+          ttlMs: 0,
+        });
+        deliver(sub, recent.map(toTopicMessage));
+        if (!sub.lastTimestamp) return;
+      }
+
+      // Page forward until the mirror node has nothing newer
+      let page: MirrorTopicMessage[];
+      do {
+        page = await mirrorNode.getTopicMessages(sub.topicId, {
+          timestampGt: sub.lastTimestamp!,
+          limit: CATCH_UP_PAGE,
+          order: 'asc',
+          ttlMs: 0,
+        });
+        deliver(sub, page.map(toTopicMessage));
+      } while (page.length === CATCH_UP_PAGE && !sub.closed);
+
+      releaseHeld(sub);
+    })().finally(() => {
+      sub.catchingUp = null;
+    });
+  }
+  return sub.catchingUp;
+}
+
+// ============================================================================
+// Streaming and Polling
+// ============================================================================
+
+function stopTimers(sub: SharedTopicSubscription): void {
+  if (sub.pollTimer) clearTimeout(sub.pollTimer);
+  if (sub.retryTimer) clearTimeout(sub.retryTimer);
+  sub.pollTimer = null;
+  sub.retryTimer = null;
+}
+
+function startPolling(sub: SharedTopicSubscription): void {
+  if (sub.closed) return;
+  setStatus(sub, 'polling');
+
+  if (!sub.pollTimer) {
+    const poll = async () => {
+      try {
+        await catchUp(sub);
+      } catch (error) {
+        console.error('Error polling topic messages:', error);
+      }
+      if (!sub.closed && sub.pollTimer) {
+        sub.pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+    sub.pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+  }
+
+  if (!streamingUnavailable && !sub.retryTimer) {
+    sub.retryTimer = setTimeout(() => {
+      sub.retryTimer = null;
+      catchUp(sub).then(
+        () => startStream(sub),
+        () => startPolling(sub)
+      );
+    }, STREAM_RETRY_MS);
+  }
+}
+
+function startStream(sub: SharedTopicSubscription): void {
+  if (sub.closed) return;
+  if (streamingUnavailable) {
+    startPolling(sub);
+    return;
+  }
+
+  try {
+    sub.stream = new TopicMessageQuery()
+      .setTopicId(sub.topicId)
+      .setStartTime(toSdkTimestamp(sub.lastTimestamp))
+      .subscribe(
+        getStreamClient(),
+        (_message, error) => {
+          console.warn(`⚠️ HCS stream for ${sub.topicId} dropped, polling instead:`, error);
+          sub.stream?.unsubscribe();
+          sub.stream = null;
+          startPolling(sub);
+        },
+        (message) => {
+          const topicMessage = toTopicMessage(fromSdkMessage(sub.topicId, message));
+          if (topicMessage.sequenceNumber > sub.lastSequenceNumber + 1 && sub.lastSequenceNumber > 0) {
+            // Missed something between catch-up and the stream: hold this one until the gap is filled
+            sub.held.set(topicMessage.sequenceNumber, topicMessage);
+            fillGap(sub);
+            return;
+          }
+          deliver(sub, [topicMessage]);
+          releaseHeld(sub);
+        }
+      );
+
+    stopTimers(sub);
+    setStatus(sub, 'streaming');
+  } catch (error) {
+    // e.g. no gRPC transport in this environment
+    console.warn('⚠️ HCS streaming unavailable, polling the mirror node instead:', error);
+    streamingUnavailable = true;
+    sub.stream = null;
+    startPolling(sub);
+  }
+}
+
+function close(sub: SharedTopicSubscription): void {
+  sub.closed = true;
+  sub.stream?.unsubscribe();
+  sub.stream = null;
+  stopTimers(sub);
+  if (sub.gapTimer) clearTimeout(sub.gapTimer);
+  sub.gapTimer = null;
+  sub.held.clear();
+  subscriptions.delete(sub.topicId);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Subscribe to messages on an HCS topic
+ *
+ * The listener first receives the messages already loaded for the topic,
+ * then each batch of new ones as they reach consensus.
+ *
+ * @param topicId - HCS topic ID
+ * @param onMessages - Called with new messages in sequence order
+ * @param options - Optional status listener (connecting/streaming/polling)
+ * @returns Cleanup function to unsubscribe
+ */
+export function subscribeToTopic(
+  topicId: string,
+  onMessages: (messages: TopicMessage[]) => void,
+  options: TopicSubscriptionOptions = {}
+): () => void {
+  let sub = subscriptions.get(topicId);
+
+  if (!sub) {
+    const created: SharedTopicSubscription = {
+      topicId,
+      listeners: new Set(),
+      statusListeners: new Set(),
+      status: 'connecting',
+      history: [],
+      held: new Map(),
+      lastSequenceNumber: 0,
+      lastTimestamp: null,
+      stream: null,
+      pollTimer: null,
+      retryTimer: null,
+      gapTimer: null,
+      catchingUp: null,
+      closed: false,
+    };
+    subscriptions.set(topicId, created);
+    sub = created;
+
+    catchUp(created).then(
+      () => startStream(created),
+      (error) => {
+        // Streaming from an unknown position would replay the whole topic
+        console.error('Error loading topic messages:', error);
+        startPolling(created);
+      }
+    );
+  }
+
+  const shared = sub;
+  shared.listeners.add(onMessages);
+  if (options.onStatusChange) {
+    shared.statusListeners.add(options.onStatusChange);
+    options.onStatusChange(shared.status);
+  }
+
+  if (shared.history.length > 0) {
+    onMessages(shared.history.slice());
+  }
+
+  return () => {
+    shared.listeners.delete(onMessages);
+    if (options.onStatusChange) {
+      shared.statusListeners.delete(options.onStatusChange);
+    }
+    if (shared.listeners.size === 0) {
+      close(shared);
+    }
+  };
+}
+
+/**
+ * Fetch anything new on a topic right away (e.g. after submitting a message)
+ * instead of waiting for the stream or the next poll
+ */
+export function refreshTopic(topicId: string): Promise<void> {
+  const sub = subscriptions.get(topicId);
+  return sub ? catchUp(sub) : Promise.resolve();
+}
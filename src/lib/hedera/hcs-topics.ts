@@ -0,0 +1,323 @@
+/**
+ * Learner-Owned HCS Topics
+ *
+ * Topics learners create in the HCS workshop. The platform operator pays for
+ * creating topics and submitting messages (see the hcs-submit Edge Function),
+ * but a topic can be restricted with a submit key that is generated in the
+ * browser and never leaves it: messages to such a topic are signed locally
+ * and only countersigned by the operator as payer.
+ *
+ * With VITE_USE_FAKE_MIRROR_NODE set, topics and messages go straight into
+ * the in-memory mirror node instead of testnet.
+ */
+
+import {
+  AccountId,
+  PrivateKey,
+  TopicMessageSubmitTransaction,
+  TransactionId,
+} from '@hashgraph/sdk';
+import { env } from '@/config';
+import { supabase } from '../supabase/client';
+import type { HcsTopic } from '../supabase/types';
+import { getMirrorNode } from './mirror-node';
+import { getFakeMirrorNode } from './mirror-node-fake';
+import type { SubmitMessageResult } from './hcs-service';
+import {
+  RUNNING_HASH_BYTES,
+  RUNNING_HASH_VERSION,
+  base64ToBytes,
+  bytesToHex,
+  computeRunningHash,
+} from './hcs-running-hash';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CreateTopicParams {
+  memo: string;
+  schemaId: string | null;
+  withSubmitKey: boolean;
+}
+
+export interface MessageVerification {
+  topicId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string | null;
+  previousConsensusTimestamp: string | null;
+  runningHash: string | null; // hex, as reported by the mirror node
+  computedRunningHash: string | null; // hex, recomputed locally
+  sequenceValid: boolean;
+  runningHashValid: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const SUBMIT_KEY_PREFIX = 'hcsSubmitKey:';
+
+// Submissions signed in the browser are frozen for a single node
+const SUBMIT_NODE_ACCOUNT_ID = new AccountId(3);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Submit key of a topic, if it was created on this device
+ */
+function getSubmitKey(topicId: string): PrivateKey | null {
+  const stored = localStorage.getItem(SUBMIT_KEY_PREFIX + topicId);
+  return stored ? PrivateKey.fromStringDer(stored) : null;
+}
+
+/**
+ * Whether this device can post to a topic
+ */
+export function canSubmitToTopic(topic: Pick<HcsTopic, 'topic_id' | 'submit_public_key'>): boolean {
+  return !topic.submit_public_key || localStorage.getItem(SUBMIT_KEY_PREFIX + topic.topic_id) !== null;
+}
+
+/** Consensus timestamp (seconds.nanos) as nanoseconds, without float rounding */
+function toNanos(consensusTimestamp: string): bigint {
+  const [seconds, nanos = '0'] = consensusTimestamp.split('.');
+  return BigInt(seconds) * 1000000000n + BigInt(nanos.padEnd(9, '0'));
+}
+
+async function invokeHcsSubmit(body: Record<string, unknown>): Promise<SubmitMessageResult & { topicId?: string }> {
+  const { data, error } = await supabase.functions.invoke('hcs-submit', { body });
+
+  if (error) {
+    throw new Error(error.message || 'HCS request failed');
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'HCS request failed');
+  }
+
+  return data;
+}
+
+// ============================================================================
+// Topics
+// ============================================================================
+
+/**
+ * Get the topics a learner created, newest first
+ */
+export async function getLearnerTopics(userId: string): Promise<HcsTopic[]> {
+  try {
+    const { data, error } = await supabase
+      .from('hcs_topics')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching HCS topics:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a topic for a learner
+ *
+ * With a submit key, only this browser can post to the topic: the private
+ * key is kept in localStorage and only its public half is sent anywhere.
+ *
+ * @returns The registered topic
+ */
+export async function createLearnerTopic(params: CreateTopicParams): Promise<HcsTopic> {
+  const submitKey = params.withSubmitKey ? PrivateKey.generateED25519() : null;
+  const submitPublicKey = submitKey ? submitKey.publicKey.toStringDer() : null;
+
+  let topicId: string;
+  let transactionId: string;
+
+  if (env.USE_FAKE_MIRROR_NODE) {
+    const topic = getFakeMirrorNode().createTopic({
+      memo: params.memo,
+      submit_key: submitKey ? { _type: 'ED25519', key: submitKey.publicKey.toStringRaw() } : null,
+    });
+    topicId = topic.topic_id;
+    transactionId = `${env.HEDERA_OPERATOR_ID}@${topic.created_timestamp}`;
+  } else {
+    const result = await invokeHcsSubmit({
+      action: 'create-topic',
+      memo: params.memo,
+      submitKey: submitPublicKey,
+    });
+    topicId = result.topicId!;
+    transactionId = result.transactionId!;
+  }
+
+  // Keep the key before anything else can fail, or the topic is lost for good
+  if (submitKey) {
+    localStorage.setItem(SUBMIT_KEY_PREFIX + topicId, submitKey.toStringDer());
+  }
+
+  const { data, error } = await supabase.rpc('register_hcs_topic', {
+    p_topic_id: topicId,
+    p_memo: params.memo,
+    p_schema_id: params.schemaId,
+    p_submit_public_key: submitPublicKey,
+    p_transaction_id: transactionId,
+  });
+
+  if (error) {
+    console.error('Error registering HCS topic:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Post a message to a learner topic
+ *
+ * Topics with a submit key need the key stored on this device; the message
+ * is signed here and the operator only adds its payer signature.
+ *
+ * @param topic - Topic to post to
+ * @param message - Message contents (e.g. from encodeSchemaMessage)
+ * @returns Submit result with the real transaction ID and sequence number
+ */
+export async function submitLearnerTopicMessage(
+  topic: Pick<HcsTopic, 'topic_id' | 'submit_public_key'>,
+  message: string
+): Promise<SubmitMessageResult> {
+  try {
+    const submitKey = topic.submit_public_key ? getSubmitKey(topic.topic_id) : null;
+
+    if (topic.submit_public_key && !submitKey) {
+      throw new Error('The submit key for this topic is not on this device');
+    }
+
+    if (env.USE_FAKE_MIRROR_NODE) {
+      const posted = getFakeMirrorNode().submitTopicMessage(topic.topic_id, message, env.HEDERA_OPERATOR_ID);
+      return {
+        success: true,
+        transactionId: `${env.HEDERA_OPERATOR_ID}@${posted.consensus_timestamp}`,
+        consensusTimestamp: posted.consensus_timestamp,
+        sequenceNumber: posted.sequence_number,
+      };
+    }
+
+    if (!submitKey) {
+      return await invokeHcsSubmit({ topicId: topic.topic_id, rawMessage: message });
+    }
+
+    const transaction = await new TopicMessageSubmitTransaction()
+      .setTopicId(topic.topic_id)
+      .setMessage(message)
+      .setTransactionId(TransactionId.generate(env.HEDERA_OPERATOR_ID))
+      .setNodeAccountIds([SUBMIT_NODE_ACCOUNT_ID])
+      .freeze()
+      .sign(submitKey);
+
+    return await invokeHcsSubmit({
+      action: 'submit-signed',
+      topicId: topic.topic_id,
+      transactionBytes: toBase64(transaction.toBytes()),
+    });
+  } catch (error) {
+    console.error('Error submitting message to learner topic:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to submit message',
+    };
+  }
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify a message's place on its topic
+ *
+ * Fetches the message and the one before it from the mirror node, checks
+ * that their sequence numbers and consensus timestamps follow on, and
+ * recomputes the running hash from the previous hash and the message.
+ *
+ * @param topicId - HCS topic ID
+ * @param sequenceNumber - Sequence number of the message to verify
+ */
+export async function verifyTopicMessage(topicId: string, sequenceNumber: number): Promise<MessageVerification> {
+  const verification: MessageVerification = {
+    topicId,
+    sequenceNumber,
+    consensusTimestamp: null,
+    previousConsensusTimestamp: null,
+    runningHash: null,
+    computedRunningHash: null,
+    sequenceValid: false,
+    runningHashValid: false,
+  };
+
+  try {
+    const fetched = await getMirrorNode().getTopicMessages(topicId, {
+      sequenceNumberGt: Math.max(sequenceNumber - 2, 0),
+      limit: 2,
+      order: 'asc',
+      ttlMs: 0,
+    });
+    const message = fetched.find((candidate) => candidate.sequence_number === sequenceNumber);
+    const previous = fetched.find((candidate) => candidate.sequence_number === sequenceNumber - 1);
+
+    if (!message) {
+      return { ...verification, error: `Message #${sequenceNumber} not found on the mirror node` };
+    }
+
+    verification.consensusTimestamp = message.consensus_timestamp;
+    verification.runningHash = bytesToHex(base64ToBytes(message.running_hash));
+
+    if (sequenceNumber > 1 && !previous) {
+      return { ...verification, error: `Message #${sequenceNumber - 1} not found on the mirror node` };
+    }
+
+    verification.previousConsensusTimestamp = previous?.consensus_timestamp ?? null;
+    verification.sequenceValid =
+      !previous || toNanos(previous.consensus_timestamp) < toNanos(message.consensus_timestamp);
+
+    if (message.running_hash_version !== RUNNING_HASH_VERSION) {
+      return { ...verification, error: `Running hash version ${message.running_hash_version} is not supported` };
+    }
+
+    const computed = await computeRunningHash({
+      previousRunningHash: previous ? base64ToBytes(previous.running_hash) : new Uint8Array(RUNNING_HASH_BYTES),
+      payerAccountId: message.payer_account_id,
+      topicId,
+      consensusTimestamp: message.consensus_timestamp,
+      sequenceNumber,
+      message: base64ToBytes(message.message),
+    });
+
+    verification.computedRunningHash = bytesToHex(computed);
+    verification.runningHashValid = verification.computedRunningHash === verification.runningHash;
+
+    return verification;
+  } catch (error) {
+    console.error('Error verifying topic message:', error);
+    return {
+      ...verification,
+      error: error instanceof Error ? error.message : 'Verification failed',
+    };
+  }
+}
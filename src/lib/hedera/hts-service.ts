@@ -14,6 +14,8 @@ import {
   TokenSupplyType,
   PrivateKey,
 } from '@hashgraph/sdk';
+import { getMirrorNode } from './mirror-node';
+import type { MirrorNft } from './mirror-node';
 
 // Extend window type for Ethereum provider
 declare global {
@@ -22,7 +24,6 @@ declare global {
   }
 }
 
-const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com/api/v1';
 const HEDERA_TESTNET_RPC = 'https://testnet.hashio.io/api';
 
 export interface CreateCollectionParams {
@@ -276,12 +277,9 @@ export async function mintNFTClientSide(params: MintNFTParams): Promise<MintResu
     await new Promise(resolve => setTimeout(resolve, 2000));
 
     try {
-      const mirrorResponse = await fetch(
-        `https://testnet.mirrornode.hedera.com/api/v1/tokens/${result.tokenId}/nfts/${result.serialNumber}`
-      );
+      const nftData = await getMirrorNode().getNft(result.tokenId, result.serialNumber, { ttlMs: 0 });
 
-      if (mirrorResponse.ok) {
-        const nftData = await mirrorResponse.json();
+      if (nftData) {
         console.log('✅ Mirror Node verification successful:', nftData);
       }
     } catch (mirrorError) {
@@ -340,15 +338,13 @@ export async function mintNFTClientSide(params: MintNFTParams): Promise<MintResu
  */
 export async function getTokenInfo(tokenId: string): Promise<TokenInfo | null> {
   try {
-    const response = await fetch(`${MIRROR_NODE_URL}/tokens/${tokenId}`);
+    const data = await getMirrorNode().getToken(tokenId);
 
-    if (!response.ok) {
-      console.error(`Failed to fetch token info: ${response.status}`);
+    if (!data) {
+      console.error(`Token ${tokenId} not found on Mirror Node`);
       return null;
     }
 
-    const data = await response.json();
-
     return {
       tokenId: data.token_id,
       name: data.name,
@@ -374,18 +370,14 @@ export async function getTokenInfo(tokenId: string): Promise<TokenInfo | null> {
 export async function getNFTDetails(
   tokenId: string,
   serialNumber: number
-): Promise<any | null> {
+): Promise<MirrorNft | null> {
   try {
-    const response = await fetch(
-      `${MIRROR_NODE_URL}/tokens/${tokenId}/nfts/${serialNumber}`
-    );
+    const data = await getMirrorNode().getNft(tokenId, serialNumber);
 
-    if (!response.ok) {
-      console.error(`Failed to fetch NFT details: ${response.status}`);
-      return null;
+    if (!data) {
+      console.error(`NFT ${tokenId} #${serialNumber} not found on Mirror Node`);
     }
 
-    const data = await response.json();
     return data;
   } catch (error) {
     console.error('Error fetching NFT details:', error);
@@ -399,19 +391,9 @@ export async function getNFTDetails(
  * @param accountId - Hedera account ID
  * @returns Array of NFTs or empty array
  */
-export async function getAccountNFTs(accountId: string): Promise<any[]> {
+export async function getAccountNFTs(accountId: string): Promise<MirrorNft[]> {
   try {
-    const response = await fetch(
-      `${MIRROR_NODE_URL}/accounts/${accountId}/nfts?limit=100`
-    );
-
-    if (!response.ok) {
-      console.error(`Failed to fetch account NFTs: ${response.status}`);
-      return [];
-    }
-
-    const data = await response.json();
-    return data.nfts || [];
+    return await getMirrorNode().getAccountNfts(accountId, { limit: 100 });
   } catch (error) {
     console.error('Error fetching account NFTs:', error);
     return [];
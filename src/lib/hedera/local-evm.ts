@@ -0,0 +1,464 @@
+/**
+ * Local EVM
+ *
+ * An in-browser EVM for the smart contract playground. It runs the same
+ * compiled bytecode as testnet, for free, instantly and offline, so
+ * learners can iterate before promoting a contract to testnet.
+ *
+ * It mimics what a contract sees on Hedera:
+ * - Contracts get entity IDs (0.0.N) and the matching long-zero EVM address
+ *   (0x000...0N), so `address(this)` and 0.0.N inputs line up
+ * - msg.sender is the platform operator, who pays for testnet calls too
+ * - Gas is charged at no less than 80% of the gas limit, and a single
+ *   transaction can use at most 15M gas
+ * - Queries run against current state and never change it
+ *
+ * Contracts created by other contracts get the next entity ID but keep the
+ * address the EVM gave them. State lives in memory until reset() or reload.
+ */
+
+import { createEVM, type EVM, type EVMRunCallOpts, type ExecResult } from '@ethereumjs/evm';
+import { Common, Hardfork, Mainnet } from '@ethereumjs/common';
+import {
+  Account,
+  bytesToHex,
+  createAddressFromString,
+  createZeroAddress,
+  hexToBytes,
+  type Address,
+} from '@ethereumjs/util';
+import { ContractId } from '@hashgraph/sdk';
+import { env } from '@/config';
+import type {
+  CompiledContract,
+  ContractLog,
+  DeployContractResult,
+  ExecuteContractParams,
+  ExecuteContractResult,
+} from './contracts-service';
+import { decodeRevertReason } from './contract-abi';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LocalDeployParams {
+  contract: CompiledContract;
+  constructorData?: string; // ABI-encoded constructor arguments (see encodeConstructorArgs)
+  gas?: number;
+}
+
+export interface LocalContract {
+  contractId: string;
+  evmAddress: string;
+  name: string;
+  abi: CompiledContract['abi'];
+  createdTimestamp: string; // seconds.nanos
+}
+
+export interface LocalEvm {
+  readonly payerAccountId: string;
+
+  deploy(params: LocalDeployParams): Promise<DeployContractResult>;
+  /** State-changing call, like ContractExecuteTransaction */
+  execute(params: ExecuteContractParams): Promise<ExecuteContractResult>;
+  /** Read-only call, like ContractCallQuery; state changes are discarded */
+  query(params: ExecuteContractParams): Promise<ExecuteContractResult>;
+
+  /** Look up a contract by ID (0.0.N) or EVM address */
+  getContract(idOrAddress: string): LocalContract | null;
+  getContracts(): LocalContract[];
+  reset(): void;
+}
+
+export interface LocalEvmOptions {
+  payerAccountId?: string;
+  firstEntityNum?: number;
+}
+
+type LocalBlock = NonNullable<EVMRunCallOpts['block']>;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MAX_GAS_PER_TRANSACTION = 15_000_000;
+const DEFAULT_DEPLOY_GAS = 3_000_000;
+const DEFAULT_CALL_GAS = 300_000;
+const MIN_CHARGED_GAS_RATIO = 0.8; // HIP-185
+const MAX_CONTRACT_SIZE = 24_576; // EIP-170
+const PAYER_BALANCE = 10n ** 30n;
+
+// Intrinsic gas, as on Ethereum
+const TX_BASE_GAS = 21_000;
+const TX_CREATE_GAS = 32_000;
+const CALLDATA_ZERO_BYTE_GAS = 4;
+const CALLDATA_NONZERO_BYTE_GAS = 16;
+const CODE_DEPOSIT_GAS_PER_BYTE = 200;
+
+const DEFAULT_FIRST_ENTITY_NUM = 9_000_000;
+
+// ============================================================================
+// Address Mapping
+// ============================================================================
+
+/**
+ * Long-zero EVM address of a Hedera entity (0.0.1234 -> 0x00...04d2)
+ */
+export function contractIdToEvmAddress(contractId: string): string {
+  return `0x${ContractId.fromString(contractId).toSolidityAddress()}`;
+}
+
+/**
+ * Hedera entity ID of a long-zero EVM address
+ *
+ * @returns null for addresses that aren't long-zero (e.g. ECDSA aliases)
+ */
+export function evmAddressToContractId(evmAddress: string): string | null {
+  const clean = evmAddress.toLowerCase().replace(/^0x/, '');
+  if (!/^[0-9a-f]{40}$/.test(clean) || !clean.startsWith('000000000000000000000000')) {
+    return null;
+  }
+  return ContractId.fromSolidityAddress(clean).toString();
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function intrinsicGas(data: Uint8Array, isCreate: boolean): number {
+  let gas = TX_BASE_GAS + (isCreate ? TX_CREATE_GAS : 0);
+  data.forEach((byte) => {
+    gas += byte === 0 ? CALLDATA_ZERO_BYTE_GAS : CALLDATA_NONZERO_BYTE_GAS;
+  });
+  return gas;
+}
+
+function chargedGas(gasUsed: number, gasLimit: number): number {
+  return Math.max(gasUsed, Math.floor(gasLimit * MIN_CHARGED_GAS_RATIO));
+}
+
+function checkGas(gas: number): void {
+  if (!Number.isInteger(gas) || gas <= 0) {
+    throw new Error('Gas must be a positive whole number');
+  }
+  if (gas > MAX_GAS_PER_TRANSACTION) {
+    throw new Error(`Gas limit must be ${MAX_GAS_PER_TRANSACTION.toLocaleString()} or less`);
+  }
+}
+
+// ============================================================================
+// Local EVM
+// ============================================================================
+
+/**
+ * Create a local EVM
+ *
+ * The EVM itself is created on first use.
+ */
+export function createLocalEvm(options: LocalEvmOptions = {}): LocalEvm {
+  const payerAccountId = options.payerAccountId ?? env.HEDERA_OPERATOR_ID;
+  const payer = createAddressFromString(contractIdToEvmAddress(payerAccountId));
+  const firstEntityNum = options.firstEntityNum ?? DEFAULT_FIRST_ENTITY_NUM;
+
+  let evmPromise: Promise<EVM> | null = null;
+  let contracts = new Map<string, LocalContract>(); // by lowercase EVM address
+  let nextEntityNum = firstEntityNum;
+  let blockNumber = 0n;
+  let lastTimestampNanos = 0n;
+  let createdAddresses: string[] = []; // CREATE/CREATE2 during the current transaction
+
+  function getEvm(): Promise<EVM> {
+    if (!evmPromise) {
+      evmPromise = (async () => {
+        // Matches the evmVersion contracts are compiled for (london) or later
+        const evm = await createEVM({ common: new Common({ chain: Mainnet, hardfork: Hardfork.Shanghai }) });
+        await evm.stateManager.putAccount(payer, new Account(0n, PAYER_BALANCE));
+        evm.events.on('newContract', (event) => {
+          createdAddresses.push(event.address.toString());
+        });
+        return evm;
+      })();
+      evmPromise.catch(() => {
+        evmPromise = null;
+      });
+    }
+    return evmPromise;
+  }
+
+  /** Consensus-style timestamp, strictly increasing */
+  function nextTimestamp(): string {
+    const now = BigInt(Date.now()) * 1_000_000n;
+    lastTimestampNanos = now > lastTimestampNanos ? now : lastTimestampNanos + 1n;
+    const seconds = lastTimestampNanos / 1_000_000_000n;
+    const nanos = lastTimestampNanos % 1_000_000_000n;
+    return `${seconds}.${nanos.toString().padStart(9, '0')}`;
+  }
+
+  function nextBlock(timestamp: string): LocalBlock {
+    blockNumber += 1n;
+    return {
+      header: {
+        number: blockNumber,
+        coinbase: createZeroAddress(),
+        timestamp: BigInt(timestamp.split('.')[0]),
+        difficulty: 0n,
+        prevRandao: new Uint8Array(32),
+        gasLimit: BigInt(MAX_GAS_PER_TRANSACTION),
+        getBlobGasPrice: () => undefined,
+      },
+    };
+  }
+
+  function registerContract(evmAddress: string, name: string, abi: LocalContract['abi'], timestamp: string): LocalContract {
+    const contract: LocalContract = {
+      contractId: `0.0.${nextEntityNum++}`,
+      evmAddress: evmAddress.toLowerCase(),
+      name,
+      abi,
+      createdTimestamp: timestamp,
+    };
+    contracts.set(contract.evmAddress, contract);
+    return contract;
+  }
+
+  /**
+   * Give contracts deployed by a committed transaction (factories) entity IDs
+   */
+  async function registerCreatedContracts(evm: EVM, creator: string, timestamp: string): Promise<void> {
+    for (const address of createdAddresses) {
+      if (contracts.has(address)) continue;
+      const code = await evm.stateManager.getCode(createAddressFromString(address));
+      if (code.length > 0) {
+        registerContract(address, `Created by ${creator}`, [], timestamp);
+      }
+    }
+    createdAddresses = [];
+  }
+
+  function resolveAddress(idOrAddress: string): Address {
+    const contract = getContract(idOrAddress);
+    if (!contract) {
+      throw new Error(`Contract ${idOrAddress} is not deployed on the local EVM`);
+    }
+    return createAddressFromString(contract.evmAddress);
+  }
+
+  function toLogs(result: ExecResult): ContractLog[] {
+    return (result.logs || []).map(([address, topics, data]) => {
+      const evmAddress = bytesToHex(address);
+      return {
+        address: evmAddress,
+        contractId: contracts.get(evmAddress)?.contractId,
+        topics: topics.map((topic) => bytesToHex(topic)),
+        data: bytesToHex(data),
+      };
+    });
+  }
+
+  function failure(result: ExecResult, abi: LocalContract['abi'], gasUsed: number, gasLimit: number) {
+    const returnData = bytesToHex(result.returnValue);
+    const reason = decodeRevertReason(abi, returnData);
+    const error = result.exceptionError?.error || 'execution failed';
+
+    return {
+      success: false,
+      resultData: returnData,
+      gasUsed,
+      gasCharged: chargedGas(gasUsed, gasLimit),
+      error: reason ? `Reverted: ${reason}` : `Contract ${error === 'revert' ? 'reverted' : error}`,
+    };
+  }
+
+  async function call(params: ExecuteContractParams, persist: boolean): Promise<ExecuteContractResult> {
+    try {
+      if (!params.functionData) {
+        throw new Error('The local EVM needs ABI-encoded function data');
+      }
+
+      const gasLimit = params.gas || DEFAULT_CALL_GAS;
+      checkGas(gasLimit);
+
+      const evm = await getEvm();
+      const to = resolveAddress(params.contractId);
+      const target = contracts.get(to.toString())!;
+      const data = hexToBytes(params.functionData as `0x${string}`);
+      const timestamp = nextTimestamp();
+
+      createdAddresses = [];
+      await evm.journal.checkpoint();
+      let result;
+      try {
+        result = await evm.runCall({
+          caller: payer,
+          origin: payer,
+          to,
+          data,
+          gasLimit: BigInt(gasLimit),
+          block: nextBlock(timestamp),
+        });
+      } catch (error) {
+        await evm.journal.revert();
+        throw error;
+      }
+
+      const execResult = result.execResult;
+      const gasUsed = Number(execResult.executionGasUsed) + intrinsicGas(data, false);
+
+      if (!persist || execResult.exceptionError) {
+        await evm.journal.revert();
+      } else {
+        await evm.journal.commit();
+        await registerCreatedContracts(evm, target.name, timestamp);
+      }
+
+      if (execResult.exceptionError) {
+        return failure(execResult, target.abi, gasUsed, gasLimit);
+      }
+
+      return {
+        success: true,
+        transactionId: persist ? `${payerAccountId}@${timestamp}` : undefined,
+        result: persist ? 'SUCCESS' : undefined,
+        resultData: bytesToHex(execResult.returnValue),
+        gasUsed,
+        gasCharged: persist ? chargedGas(gasUsed, gasLimit) : undefined,
+        logs: persist ? toLogs(execResult) : [],
+      };
+
+    } catch (error) {
+      console.error('Local EVM call failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Local EVM call failed',
+      };
+    }
+  }
+
+  function getContract(idOrAddress: string): LocalContract | null {
+    const evmAddress = idOrAddress.startsWith('0x')
+      ? idOrAddress.toLowerCase()
+      : contractIdToEvmAddress(idOrAddress);
+    return contracts.get(evmAddress) ?? null;
+  }
+
+  return {
+    payerAccountId,
+
+    async deploy(params) {
+      try {
+        if (!params.contract.bytecode) {
+          throw new Error(`${params.contract.name} has no bytecode (is it abstract or an interface?)`);
+        }
+
+        const gasLimit = params.gas || DEFAULT_DEPLOY_GAS;
+        checkGas(gasLimit);
+
+        const evm = await getEvm();
+        const initCode = hexToBytes(
+          `0x${params.contract.bytecode}${(params.constructorData || '').replace(/^0x/, '')}` as `0x${string}`
+        );
+
+        // Reserve the entity number up front, as the network does
+        const contractId = `0.0.${nextEntityNum}`;
+        const evmAddress = contractIdToEvmAddress(contractId);
+        const address = createAddressFromString(evmAddress);
+        const timestamp = nextTimestamp();
+
+        createdAddresses = [];
+        await evm.journal.checkpoint();
+        let execResult: ExecResult;
+        try {
+          await evm.stateManager.putAccount(address, new Account(1n, 0n));
+          execResult = await evm.runCode({
+            code: initCode,
+            caller: payer,
+            origin: payer,
+            to: address,
+            gasLimit: BigInt(gasLimit),
+            block: nextBlock(timestamp),
+          });
+        } catch (error) {
+          await evm.journal.revert();
+          throw error;
+        }
+
+        const runtimeCode = execResult.returnValue;
+        const gasUsed =
+          Number(execResult.executionGasUsed) +
+          intrinsicGas(initCode, true) +
+          runtimeCode.length * CODE_DEPOSIT_GAS_PER_BYTE;
+
+        if (execResult.exceptionError) {
+          await evm.journal.revert();
+          return failure(execResult, params.contract.abi, gasUsed, gasLimit);
+        }
+        if (runtimeCode.length > MAX_CONTRACT_SIZE) {
+          await evm.journal.revert();
+          throw new Error(`Contract is ${runtimeCode.length} bytes; the limit is ${MAX_CONTRACT_SIZE}`);
+        }
+        if (gasUsed > gasLimit) {
+          await evm.journal.revert();
+          throw new Error(`Out of gas: deploying needs ${gasUsed.toLocaleString()} gas`);
+        }
+
+        await evm.stateManager.putCode(address, runtimeCode);
+        await evm.journal.commit();
+
+        const contract = registerContract(evmAddress, params.contract.name, params.contract.abi, timestamp);
+        await registerCreatedContracts(evm, params.contract.name, timestamp);
+
+        return {
+          success: true,
+          contractId: contract.contractId,
+          evmAddress: contract.evmAddress,
+          transactionId: `${payerAccountId}@${timestamp}`,
+          gasUsed,
+          gasCharged: chargedGas(gasUsed, gasLimit),
+          logs: toLogs(execResult),
+        };
+
+      } catch (error) {
+        console.error('Local EVM deployment failed:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Local EVM deployment failed',
+        };
+      }
+    },
+
+    execute(params) {
+      return call(params, true);
+    },
+
+    query(params) {
+      return call(params, false);
+    },
+
+    getContract,
+
+    getContracts() {
+      return Array.from(contracts.values());
+    },
+
+    reset() {
+      evmPromise = null;
+      contracts = new Map();
+      nextEntityNum = firstEntityNum;
+      blockNumber = 0n;
+    },
+  };
+}
+
+// ============================================================================
+// Shared Instance
+// ============================================================================
+
+let sharedLocalEvm: LocalEvm | null = null;
+
+export function getLocalEvm(): LocalEvm {
+  if (!sharedLocalEvm) {
+    sharedLocalEvm = createLocalEvm();
+  }
+  return sharedLocalEvm;
+}
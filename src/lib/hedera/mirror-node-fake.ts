@@ -0,0 +1,692 @@
+/**
+ * In-Memory Mirror Node
+ *
+ * A fake of the mirror node REST API for offline development and tests. It
+ * plugs into the mirror node client as its transport, so callers exercise
+ * the same caching, pagination (`links.next`) and retry code they use
+ * against the real network.
+ *
+ * The shared instance is seeded with a demo account, topic, token, contract
+ * and a few blocks; tests can build their own with createFakeMirrorNode()
+ * and plug it in with setMirrorNode(createMirrorNodeClient({ transport })).
+ */
+
+import type {
+  MirrorAccount,
+  MirrorBlock,
+  MirrorContract,
+  MirrorContractResult,
+  MirrorFile,
+  MirrorNft,
+  MirrorNodeTransport,
+  MirrorToken,
+  MirrorTokenRelationship,
+  MirrorTopic,
+  MirrorTopicMessage,
+  MirrorTransaction,
+  MirrorTransfer,
+} from './mirror-node';
+import { toMirrorTransactionId } from './mirror-node';
+import { RUNNING_HASH_BYTES, base64ToBytes, computeRunningHash } from './hcs-running-hash';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FakeMirrorNode {
+  transport: MirrorNodeTransport;
+
+  addAccount(account?: Partial<MirrorAccount>): MirrorAccount;
+  addTransaction(transaction: Partial<MirrorTransaction> & { payer?: string }): MirrorTransaction;
+  /** Hedera transaction IDs may be given as 0.0.x@seconds.nanos */
+  transferHbar(
+    from: string,
+    to: string,
+    tinybars: number,
+    options?: { memo?: string; transactionId?: string }
+  ): MirrorTransaction;
+
+  createTopic(topic?: Partial<MirrorTopic>): MirrorTopic;
+  /** running_hash is computed (for real) before the next request is served */
+  submitTopicMessage(topicId: string, message: string, payer?: string): MirrorTopicMessage;
+
+  addToken(token?: Partial<MirrorToken>): MirrorToken;
+  associateToken(accountId: string, tokenId: string): MirrorTokenRelationship;
+  mintNft(tokenId: string, metadata: string, owner?: string): MirrorNft;
+
+  addContract(contract?: Partial<MirrorContract>): MirrorContract;
+  addContractResult(result: Partial<MirrorContractResult> & { transaction_id?: string }): MirrorContractResult;
+
+  addBlock(block?: Partial<MirrorBlock>): MirrorBlock;
+  addFile(fileId: string, contents: string | Uint8Array): MirrorFile;
+
+  /** Answer the next `count` requests with 429 Too Many Requests */
+  rateLimit(count: number): void;
+  reset(): void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+function toBase64(value: string | Uint8Array): string {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compare entity IDs (0.0.x), timestamps (seconds.nanos) and plain numbers
+ */
+function compareCursor(a: string | number, b: string | number): number {
+  const left = String(a).split('.').map(Number);
+  const right = String(b).split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Apply mirror-node style operator filters (e.g. gt:1700000000.000000001)
+ */
+function matchesOperators(value: string | number, filters: string[]): boolean {
+  return filters.every((filter) => {
+    const [operator, operand] = filter.includes(':') ? filter.split(/:(.*)/s) : ['eq', filter];
+    const diff = compareCursor(value, operand);
+    switch (operator) {
+      case 'gt': return diff > 0;
+      case 'gte': return diff >= 0;
+      case 'lt': return diff < 0;
+      case 'lte': return diff <= 0;
+      case 'ne': return diff !== 0;
+      default: return diff === 0;
+    }
+  });
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function notFound(): Response {
+  return json({ _status: { messages: [{ message: 'Not found' }] } }, 404);
+}
+
+// ============================================================================
+// Fake
+// ============================================================================
+
+export function createFakeMirrorNode(): FakeMirrorNode {
+  let accounts: MirrorAccount[] = [];
+  let transactions: MirrorTransaction[] = [];
+  let topics: MirrorTopic[] = [];
+  let messages: MirrorTopicMessage[] = [];
+  let tokens: MirrorToken[] = [];
+  let relationships: (MirrorTokenRelationship & { account_id: string })[] = [];
+  let nfts: MirrorNft[] = [];
+  let contracts: MirrorContract[] = [];
+  let contractResults: (MirrorContractResult & { transaction_id?: string })[] = [];
+  let blocks: MirrorBlock[] = [];
+  let files: MirrorFile[] = [];
+  let nextEntityNum = 5000000;
+  let lastTimestamp = 0n;
+  let rateLimitedRequests = 0;
+  let unhashedMessages: MirrorTopicMessage[] = [];
+
+  const nextEntityId = () => `0.0.${nextEntityNum++}`;
+
+  /** Strictly increasing consensus timestamps (seconds.nanos) */
+  const nextTimestamp = () => {
+    const now = BigInt(Date.now()) * 1000000n;
+    lastTimestamp = now > lastTimestamp ? now : lastTimestamp + 1n;
+    const seconds = lastTimestamp / 1000000000n;
+    const nanos = (lastTimestamp % 1000000000n).toString().padStart(9, '0');
+    return `${seconds}.${nanos}`;
+  };
+
+  const findAccount = (id: string) => {
+    const key = id.toLowerCase();
+    return accounts.find(
+      (account) => account.account === id || account.evm_address === key || account.alias === id
+    );
+  };
+
+  /**
+   * One page of a list endpoint, with a links.next cursor when more remain
+   */
+  function page<T>(
+    url: URL,
+    key: string,
+    items: T[],
+    cursorParam: string,
+    cursorOf: (item: T) => string | number
+  ): Response {
+    const params = url.searchParams;
+    const order = params.get('order') === 'asc' ? 'asc' : 'desc';
+    const limit = Math.min(Number(params.get('limit')) || PAGE_SIZE, MAX_PAGE_SIZE);
+    const cursorFilters = params.getAll(cursorParam);
+
+    const matching = items
+      .filter((item) => matchesOperators(cursorOf(item), cursorFilters))
+      .sort((a, b) => compareCursor(cursorOf(a), cursorOf(b)) * (order === 'asc' ? 1 : -1));
+
+    const results = matching.slice(0, limit);
+    let next: string | null = null;
+
+    if (matching.length > limit) {
+      const nextParams = new URLSearchParams(params);
+      const boundary = order === 'asc' ? 'gt' : 'lt';
+      // Keep the caller's bounds on the other side, replace the paging one
+      nextParams.delete(cursorParam);
+      cursorFilters
+        .filter((filter) => !filter.startsWith(boundary))
+        .forEach((filter) => nextParams.append(cursorParam, filter));
+      nextParams.append(cursorParam, `${boundary}:${cursorOf(results[results.length - 1])}`);
+      next = `${url.pathname}?${nextParams.toString()}`;
+    }
+
+    return json({ [key]: results, links: { next } });
+  }
+
+  function route(url: URL): Response {
+    const segments = url.pathname.replace(/^.*\/api\/v1\//, '').split('/').filter(Boolean);
+    const [resource, id, sub, subId] = segments;
+    const params = url.searchParams;
+
+    switch (resource) {
+      case 'accounts': {
+        const account = id ? findAccount(decodeURIComponent(id)) : undefined;
+        if (!account) return notFound();
+
+        if (sub === 'tokens') {
+          return page(
+            url,
+            'tokens',
+            relationships
+              .filter((rel) => rel.account_id === account.account)
+              .map(({ account_id, ...rel }) => rel),
+            'token.id',
+            (rel) => rel.token_id
+          );
+        }
+        if (sub === 'nfts') {
+          const tokenFilters = params.getAll('token.id');
+          return page(
+            url,
+            'nfts',
+            nfts.filter(
+              (nft) => nft.account_id === account.account && matchesOperators(nft.token_id, tokenFilters)
+            ),
+            'serialnumber',
+            (nft) => nft.serial_number
+          );
+        }
+        return json(account);
+      }
+
+      case 'transactions': {
+        if (id) {
+          const matching = transactions.filter(
+            (tx) => tx.transaction_id === decodeURIComponent(id) || tx.transaction_hash === id
+          );
+          return matching.length ? json({ transactions: matching }) : notFound();
+        }
+
+        const accountId = params.get('account.id');
+        const account = accountId ? findAccount(accountId) : undefined;
+        const type = params.get('transactiontype')?.toUpperCase();
+        const result = params.get('result');
+
+        return page(
+          url,
+          'transactions',
+          transactions.filter(
+            (tx) =>
+              (!accountId || (account !== undefined &&
+                tx.transfers.some((transfer) => transfer.account === account.account))) &&
+              (!type || tx.name === type) &&
+              (!result || (result === 'success') === (tx.result === 'SUCCESS'))
+          ),
+          'timestamp',
+          (tx) => tx.consensus_timestamp
+        );
+      }
+
+      case 'topics': {
+        const topic = topics.find((candidate) => candidate.topic_id === id);
+        if (!topic) return notFound();
+
+        if (sub === 'messages') {
+          const topicMessages = messages.filter((message) => message.topic_id === id);
+          if (subId) {
+            const message = topicMessages.find((candidate) => candidate.sequence_number === Number(subId));
+            return message ? json(message) : notFound();
+          }
+
+          const sequenceFilters = params.getAll('sequencenumber');
+          return page(
+            url,
+            'messages',
+            topicMessages.filter((message) => matchesOperators(message.sequence_number, sequenceFilters)),
+            'timestamp',
+            (message) => message.consensus_timestamp
+          );
+        }
+        return json(topic);
+      }
+
+      case 'tokens': {
+        const token = tokens.find((candidate) => candidate.token_id === id);
+        if (!token) return notFound();
+
+        if (sub === 'nfts') {
+          const tokenNfts = nfts.filter((nft) => nft.token_id === id);
+          if (subId) {
+            const nft = tokenNfts.find((candidate) => candidate.serial_number === Number(subId));
+            return nft ? json(nft) : notFound();
+          }
+
+          const owner = params.get('account.id');
+          return page(
+            url,
+            'nfts',
+            tokenNfts.filter((nft) => !owner || nft.account_id === owner),
+            'serialnumber',
+            (nft) => nft.serial_number
+          );
+        }
+        return json(token);
+      }
+
+      case 'contracts': {
+        if (id === 'results' && sub) {
+          const key = decodeURIComponent(sub);
+          const result = contractResults.find(
+            (candidate) => candidate.hash === key || candidate.transaction_id === key
+          );
+          if (!result) return notFound();
+          const { transaction_id, ...body } = result;
+          return json(body);
+        }
+
+        const key = id ? decodeURIComponent(id).toLowerCase() : '';
+        const contract = contracts.find(
+          (candidate) => candidate.contract_id === key || candidate.evm_address === key
+        );
+        return contract ? json(contract) : notFound();
+      }
+
+      case 'blocks': {
+        if (id) {
+          const block = blocks.find((candidate) => candidate.hash === id || String(candidate.number) === id);
+          return block ? json(block) : notFound();
+        }
+        return page(url, 'blocks', blocks, 'block.number', (block) => block.number);
+      }
+
+      case 'files': {
+        const file = files.find((candidate) => candidate.file_id === id);
+        return file ? json(file) : notFound();
+      }
+
+      default:
+        return notFound();
+    }
+  }
+
+  /**
+   * Fill in real running hashes (WebCrypto is async, submitTopicMessage is not)
+   */
+  async function hashMessages(): Promise<void> {
+    while (unhashedMessages.length > 0) {
+      const message = unhashedMessages.shift()!;
+      const previous = messages.find(
+        (candidate) =>
+          candidate.topic_id === message.topic_id && candidate.sequence_number === message.sequence_number - 1
+      );
+      const runningHash = await computeRunningHash({
+        previousRunningHash: previous ? base64ToBytes(previous.running_hash) : new Uint8Array(RUNNING_HASH_BYTES),
+        payerAccountId: message.payer_account_id,
+        topicId: message.topic_id,
+        consensusTimestamp: message.consensus_timestamp,
+        sequenceNumber: message.sequence_number,
+        message: base64ToBytes(message.message),
+      });
+      message.running_hash = toBase64(runningHash);
+    }
+  }
+
+  const fake: FakeMirrorNode = {
+    async transport(url) {
+      if (rateLimitedRequests > 0) {
+        rateLimitedRequests--;
+        return new Response(null, { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '0' } });
+      }
+      await hashMessages();
+      return route(new URL(url, 'http://localhost'));
+    },
+
+    addAccount(partial = {}) {
+      const account: MirrorAccount = {
+        account: nextEntityId(),
+        alias: null,
+        evm_address: `0x${randomHex(20)}`,
+        balance: { balance: 0, timestamp: nextTimestamp(), tokens: [] },
+        created_timestamp: nextTimestamp(),
+        deleted: false,
+        key: { _type: 'ECDSA_SECP256K1', key: randomHex(33) },
+        memo: '',
+        max_automatic_token_associations: 0,
+        ethereum_nonce: 0,
+        receiver_sig_required: false,
+        ...partial,
+      };
+      if (account.evm_address) account.evm_address = account.evm_address.toLowerCase();
+      accounts.push(account);
+      return account;
+    },
+
+    addTransaction({ payer, ...partial }) {
+      const payerId = payer || partial.transfers?.find((transfer) => transfer.amount < 0)?.account || '0.0.2';
+      const consensusTimestamp = partial.consensus_timestamp || nextTimestamp();
+      const validStart = consensusTimestamp.replace(/\.(\d+)$/, (_, nanos) => `.${String(Math.max(Number(nanos) - 1, 0)).padStart(9, '0')}`);
+
+      const transaction: MirrorTransaction = {
+        transaction_id: `${payerId}-${validStart.replace('.', '-')}`,
+        transaction_hash: toBase64(randomHex(24)),
+        consensus_timestamp: consensusTimestamp,
+        valid_start_timestamp: validStart,
+        name: 'CRYPTOTRANSFER',
+        result: 'SUCCESS',
+        charged_tx_fee: 100000,
+        max_fee: '200000000',
+        memo_base64: null,
+        node: '0.0.3',
+        entity_id: null,
+        scheduled: false,
+        nonce: 0,
+        transfers: [],
+        ...partial,
+      };
+      transactions.push(transaction);
+      return transaction;
+    },
+
+    transferHbar(from, to, tinybars, { memo, transactionId } = {}) {
+      const sender = findAccount(from) || fake.addAccount(from.startsWith('0x') ? { evm_address: from } : { account: from });
+      const receiver = findAccount(to) || fake.addAccount(to.startsWith('0x') ? { evm_address: to } : { account: to });
+
+      sender.balance.balance -= tinybars;
+      receiver.balance.balance += tinybars;
+
+      const transfers: MirrorTransfer[] = [
+        { account: sender.account, amount: -tinybars },
+        { account: receiver.account, amount: tinybars },
+      ];
+      return fake.addTransaction({
+        payer: sender.account,
+        transfers,
+        memo_base64: memo ? toBase64(memo) : null,
+        ...(transactionId && { transaction_id: toMirrorTransactionId(transactionId) }),
+      });
+    },
+
+    createTopic(partial = {}) {
+      const topic: MirrorTopic = {
+        topic_id: nextEntityId(),
+        memo: '',
+        admin_key: null,
+        submit_key: null,
+        auto_renew_account: null,
+        auto_renew_period: 7776000,
+        created_timestamp: nextTimestamp(),
+        deleted: false,
+        timestamp: { from: nextTimestamp(), to: null },
+        ...partial,
+      };
+      topics.push(topic);
+      fake.addTransaction({ name: 'CONSENSUSCREATETOPIC', entity_id: topic.topic_id, consensus_timestamp: topic.created_timestamp });
+      return topic;
+    },
+
+    submitTopicMessage(topicId, message, payer = '0.0.2') {
+      const sequenceNumber = messages.filter((candidate) => candidate.topic_id === topicId).length + 1;
+      const topicMessage: MirrorTopicMessage = {
+        topic_id: topicId,
+        consensus_timestamp: nextTimestamp(),
+        sequence_number: sequenceNumber,
+        message: toBase64(message),
+        payer_account_id: payer,
+        running_hash: '', // Filled in before the next request
+        running_hash_version: 3,
+        chunk_info: null,
+      };
+      messages.push(topicMessage);
+      unhashedMessages.push(topicMessage);
+      fake.addTransaction({
+        payer,
+        name: 'CONSENSUSSUBMITMESSAGE',
+        entity_id: topicId,
+        consensus_timestamp: topicMessage.consensus_timestamp,
+      });
+      return topicMessage;
+    },
+
+    addToken(partial = {}) {
+      const token: MirrorToken = {
+        token_id: nextEntityId(),
+        name: 'Practice Token',
+        symbol: 'PRAC',
+        type: 'NON_FUNGIBLE_UNIQUE',
+        decimals: '0',
+        total_supply: '0',
+        max_supply: '0',
+        supply_type: 'INFINITE',
+        treasury_account_id: '0.0.2',
+        memo: '',
+        created_timestamp: nextTimestamp(),
+        deleted: false,
+        admin_key: null,
+        supply_key: null,
+        ...partial,
+      };
+      tokens.push(token);
+      return token;
+    },
+
+    associateToken(accountId, tokenId) {
+      const account = findAccount(accountId) || fake.addAccount({ account: accountId });
+      const existing = relationships.find((rel) => rel.account_id === account.account && rel.token_id === tokenId);
+      if (existing) {
+        const { account_id, ...rel } = existing;
+        return rel;
+      }
+
+      const relationship = {
+        account_id: account.account,
+        token_id: tokenId,
+        balance: 0,
+        automatic_association: false,
+        created_timestamp: nextTimestamp(),
+        freeze_status: 'NOT_APPLICABLE' as const,
+        kyc_status: 'NOT_APPLICABLE' as const,
+      };
+      relationships.push(relationship);
+      const { account_id, ...rel } = relationship;
+      return rel;
+    },
+
+    mintNft(tokenId, metadata, owner) {
+      const token = tokens.find((candidate) => candidate.token_id === tokenId);
+      if (!token) {
+        throw new Error(`Unknown token: ${tokenId}`);
+      }
+
+      const serialNumber = nfts.filter((nft) => nft.token_id === tokenId).length + 1;
+      token.total_supply = String(serialNumber);
+
+      const timestamp = nextTimestamp();
+      const nft: MirrorNft = {
+        token_id: tokenId,
+        serial_number: serialNumber,
+        account_id: owner ? (findAccount(owner)?.account ?? owner) : token.treasury_account_id,
+        metadata: toBase64(metadata),
+        created_timestamp: timestamp,
+        modified_timestamp: timestamp,
+        deleted: false,
+        spender: null,
+      };
+      nfts.push(nft);
+      fake.addTransaction({ name: 'TOKENMINT', entity_id: tokenId, consensus_timestamp: timestamp });
+      return nft;
+    },
+
+    addContract(partial = {}) {
+      const contract: MirrorContract = {
+        contract_id: nextEntityId(),
+        evm_address: `0x${randomHex(20)}`,
+        admin_key: null,
+        auto_renew_account: null,
+        created_timestamp: nextTimestamp(),
+        deleted: false,
+        file_id: null,
+        memo: '',
+        ...partial,
+      };
+      contract.evm_address = contract.evm_address.toLowerCase();
+      contracts.push(contract);
+      return contract;
+    },
+
+    addContractResult(partial) {
+      const contract = contracts.find((candidate) => candidate.contract_id === partial.contract_id);
+      const result = {
+        contract_id: contract?.contract_id ?? '0.0.0',
+        address: contract?.evm_address ?? `0x${'0'.repeat(40)}`,
+        from: `0x${randomHex(20)}`,
+        to: contract?.evm_address ?? null,
+        hash: `0x${randomHex(32)}`,
+        result: 'SUCCESS',
+        status: '0x1',
+        error_message: null,
+        function_parameters: '0x',
+        call_result: '0x',
+        gas_limit: 300000,
+        gas_used: 21000,
+        timestamp: nextTimestamp(),
+        block_number: blocks.length ? blocks[blocks.length - 1].number : 0,
+        block_hash: blocks.length ? blocks[blocks.length - 1].hash : `0x${'0'.repeat(96)}`,
+        logs: [],
+        ...partial,
+      };
+      contractResults.push(result);
+      const { transaction_id, ...body } = result;
+      return body;
+    },
+
+    addBlock(partial = {}) {
+      const previous = blocks[blocks.length - 1];
+      const from = nextTimestamp();
+      const block: MirrorBlock = {
+        number: previous ? previous.number + 1 : 0,
+        hash: `0x${randomHex(48)}`,
+        previous_hash: previous?.hash ?? `0x${'0'.repeat(96)}`,
+        name: `${from.replace('.', '_')}.rcd.gz`,
+        count: 0,
+        gas_used: 0,
+        size: 0,
+        hapi_version: '0.54.0',
+        logs_bloom: '0x',
+        timestamp: { from, to: nextTimestamp() },
+        ...partial,
+      };
+      blocks.push(block);
+      return block;
+    },
+
+    addFile(fileId, contents) {
+      const file: MirrorFile = { file_id: fileId, file_data: toBase64(contents) };
+      files = files.filter((candidate) => candidate.file_id !== fileId).concat(file);
+      return file;
+    },
+
+    rateLimit(count) {
+      rateLimitedRequests = count;
+    },
+
+    reset() {
+      accounts = [];
+      transactions = [];
+      topics = [];
+      messages = [];
+      unhashedMessages = [];
+      tokens = [];
+      relationships = [];
+      nfts = [];
+      contracts = [];
+      contractResults = [];
+      blocks = [];
+      files = [];
+      rateLimitedRequests = 0;
+    },
+  };
+
+  return fake;
+}
+
+// ============================================================================
+// Shared Fake
+// ============================================================================
+
+let sharedFake: FakeMirrorNode | null = null;
+
+/**
+ * Demo data for the practical components: a funded account with some
+ * history, a topic with messages, an NFT collection and a contract
+ */
+function seed(fake: FakeMirrorNode): void {
+  for (let i = 0; i < 3; i++) fake.addBlock();
+
+  const treasury = fake.addAccount({ account: '0.0.2', evm_address: null });
+  treasury.balance.balance = 5_000_000_000_000_000;
+
+  const learner = fake.addAccount({ memo: 'Web3Versity demo account' });
+  fake.transferHbar(treasury.account, learner.account, 100_00000000, { memo: 'Faucet' });
+  fake.transferHbar(learner.account, treasury.account, 5_00000000, { memo: 'Practice transfer' });
+
+  const topic = fake.createTopic({ memo: 'Web3Versity message board' });
+  fake.submitTopicMessage(topic.topic_id, JSON.stringify({ username: 'Satoshi', message: 'Hello, Hedera!' }), learner.account);
+  fake.submitTopicMessage(topic.topic_id, JSON.stringify({ username: 'Ada', message: 'Consensus in seconds 🚀' }), learner.account);
+
+  const token = fake.addToken({ name: 'Web3Versity Practice NFT', symbol: 'W3VP', treasury_account_id: treasury.account });
+  fake.associateToken(learner.account, token.token_id);
+  fake.mintNft(token.token_id, JSON.stringify({ name: 'Practice NFT #1' }), learner.account);
+
+  const contract = fake.addContract({ memo: 'HelloHedera' });
+  fake.addContractResult({ contract_id: contract.contract_id });
+}
+
+export function getFakeMirrorNode(): FakeMirrorNode {
+  if (!sharedFake) {
+    sharedFake = createFakeMirrorNode();
+    seed(sharedFake);
+  }
+  return sharedFake;
+}
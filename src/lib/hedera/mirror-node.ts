@@ -0,0 +1,661 @@
+/**
+ * Hedera Mirror Node Client
+ *
+ * Typed access to the mirror node REST API (accounts, transactions, topics,
+ * tokens, NFTs, contracts, blocks) for the network selected in config.
+ *
+ * Features:
+ * - Short-lived response cache, shared by every caller (requests in flight
+ *   are shared too, so components mounting together make one request)
+ * - Backoff and retry when the mirror node rate-limits (429) or is briefly
+ *   unavailable (5xx), honoring Retry-After
+ * - List endpoints follow the `links.next` cursor until `limit` items are
+ *   collected, so limits above the mirror node's page size of 100 work
+ * - Pluggable transport: setting VITE_USE_FAKE_MIRROR_NODE (or calling
+ *   setMirrorNode) serves every read from the in-memory fake in
+ *   ./mirror-node-fake, so practical components work offline
+ *
+ * Usage:
+ *   import { getMirrorNode } from '@/lib/hedera/mirror-node';
+ *   const account = await getMirrorNode().getAccount('0.0.12345');
+ */
+
+import { env } from '@/config';
+import { getFakeMirrorNode } from './mirror-node-fake';
+
+// ============================================================================
+// Response Types
+// ============================================================================
+
+export interface MirrorLinks {
+  next: string | null;
+}
+
+export interface MirrorTimestampRange {
+  from: string;
+  to: string | null;
+}
+
+export interface MirrorKey {
+  _type: 'ED25519' | 'ECDSA_SECP256K1' | 'ProtobufEncoded';
+  key: string;
+}
+
+export interface MirrorTokenBalance {
+  token_id: string;
+  balance: number;
+}
+
+export interface MirrorAccount {
+  account: string;
+  alias: string | null;
+  evm_address: string | null;
+  balance: {
+    balance: number; // tinybars
+    timestamp: string;
+    tokens: MirrorTokenBalance[];
+  };
+  created_timestamp: string | null;
+  deleted: boolean;
+  key: MirrorKey | null;
+  memo: string;
+  max_automatic_token_associations: number;
+  ethereum_nonce: number;
+  receiver_sig_required: boolean | null;
+}
+
+export interface MirrorTransfer {
+  account: string;
+  amount: number; // tinybars
+  is_approval?: boolean;
+}
+
+export interface MirrorTokenTransfer {
+  token_id: string;
+  account: string;
+  amount: number;
+  is_approval?: boolean;
+}
+
+export interface MirrorNftTransfer {
+  token_id: string;
+  serial_number: number;
+  sender_account_id: string | null;
+  receiver_account_id: string | null;
+  is_approval?: boolean;
+}
+
+export interface MirrorTransaction {
+  transaction_id: string;
+  transaction_hash: string;
+  consensus_timestamp: string;
+  valid_start_timestamp: string;
+  name: string; // e.g. CRYPTOTRANSFER, CONSENSUSSUBMITMESSAGE
+  result: string; // e.g. SUCCESS, INSUFFICIENT_PAYER_BALANCE
+  charged_tx_fee: number;
+  max_fee: string;
+  memo_base64: string | null;
+  node: string | null;
+  entity_id: string | null;
+  scheduled: boolean;
+  nonce: number;
+  transfers: MirrorTransfer[];
+  token_transfers?: MirrorTokenTransfer[];
+  nft_transfers?: MirrorNftTransfer[];
+}
+
+export interface MirrorTopic {
+  topic_id: string;
+  memo: string;
+  admin_key: MirrorKey | null;
+  submit_key: MirrorKey | null;
+  auto_renew_account: string | null;
+  auto_renew_period: number | null;
+  created_timestamp: string;
+  deleted: boolean;
+  timestamp: MirrorTimestampRange;
+}
+
+export interface MirrorTopicMessage {
+  topic_id: string;
+  consensus_timestamp: string;
+  sequence_number: number;
+  message: string; // base64
+  payer_account_id: string;
+  running_hash: string; // base64
+  running_hash_version: number;
+  chunk_info: {
+    number: number;
+    total: number;
+    initial_transaction_id: { account_id: string; transaction_valid_start: string; nonce: number };
+  } | null;
+}
+
+export type MirrorTokenType = 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE';
+
+export interface MirrorToken {
+  token_id: string;
+  name: string;
+  symbol: string;
+  type: MirrorTokenType;
+  decimals: string;
+  total_supply: string;
+  max_supply: string;
+  supply_type: 'FINITE' | 'INFINITE';
+  treasury_account_id: string;
+  memo: string;
+  created_timestamp: string;
+  deleted: boolean;
+  admin_key: MirrorKey | null;
+  supply_key: MirrorKey | null;
+}
+
+export interface MirrorTokenRelationship {
+  token_id: string;
+  balance: number;
+  automatic_association: boolean;
+  created_timestamp: string;
+  freeze_status: 'FROZEN' | 'UNFROZEN' | 'NOT_APPLICABLE';
+  kyc_status: 'GRANTED' | 'REVOKED' | 'NOT_APPLICABLE';
+}
+
+export interface MirrorNft {
+  token_id: string;
+  serial_number: number;
+  account_id: string | null;
+  metadata: string; // base64
+  created_timestamp: string;
+  modified_timestamp: string;
+  deleted: boolean;
+  spender: string | null;
+}
+
+export interface MirrorContract {
+  contract_id: string;
+  evm_address: string;
+  admin_key: MirrorKey | null;
+  auto_renew_account: string | null;
+  created_timestamp: string;
+  deleted: boolean;
+  file_id: string | null;
+  memo: string;
+  bytecode?: string;
+  runtime_bytecode?: string;
+}
+
+export interface MirrorContractLog {
+  address: string;
+  contract_id: string;
+  data: string;
+  index: number;
+  topics: string[];
+}
+
+export interface MirrorContractResult {
+  contract_id: string;
+  address: string;
+  from: string;
+  to: string | null;
+  hash: string;
+  result: string; // e.g. SUCCESS, CONTRACT_REVERT_EXECUTED
+  status: string; // 0x1 on success
+  error_message: string | null;
+  function_parameters: string;
+  call_result: string | null;
+  gas_limit: number;
+  gas_used: number | null;
+  timestamp: string;
+  block_number: number;
+  block_hash: string;
+  logs?: MirrorContractLog[];
+}
+
+export interface MirrorBlock {
+  number: number;
+  hash: string;
+  previous_hash: string;
+  name: string;
+  count: number; // transactions in the block
+  gas_used: number;
+  size: number;
+  hapi_version: string;
+  logs_bloom: string;
+  timestamp: MirrorTimestampRange;
+}
+
+export interface MirrorFile {
+  file_id: string;
+  file_data: string; // base64
+}
+
+// ============================================================================
+// Client Types
+// ============================================================================
+
+export type MirrorOrder = 'asc' | 'desc';
+
+/**
+ * fetch-compatible function the client sends requests through
+ */
+export type MirrorNodeTransport = (url: string) => Promise<Response>;
+
+export interface MirrorNodeClientOptions {
+  baseUrl?: string; // Without /api/v1 (defaults to env.MIRROR_NODE_URL)
+  transport?: MirrorNodeTransport;
+  cacheTtlMs?: number;
+  maxRetries?: number;
+}
+
+export interface MirrorRequestOptions {
+  /** How long the response may be served from cache (0 = always refetch) */
+  ttlMs?: number;
+}
+
+export interface MirrorListOptions extends MirrorRequestOptions {
+  /** Total items to return; pages are followed until reached */
+  limit?: number;
+  order?: MirrorOrder;
+}
+
+export interface MirrorTransactionQuery extends MirrorListOptions {
+  accountId?: string;
+  transactionType?: string;
+  result?: 'success' | 'fail';
+  /** Only transactions after this consensus timestamp */
+  timestampGt?: string;
+}
+
+export interface MirrorTopicMessageQuery extends MirrorListOptions {
+  sequenceNumberGt?: number;
+  timestampGt?: string;
+}
+
+export interface MirrorNodeClient {
+  readonly baseUrl: string;
+
+  /** GET a path under /api/v1; null when the mirror node returns 404 */
+  get<T>(path: string, options?: MirrorRequestOptions): Promise<T | null>;
+  /** Items of a list endpoint, following links.next page by page */
+  paginate<T>(path: string, key: string, options?: MirrorRequestOptions): AsyncGenerator<T>;
+  /** Collect up to `limit` items of a list endpoint */
+  list<T>(path: string, key: string, limit: number, options?: MirrorRequestOptions): Promise<T[]>;
+
+  getAccount(idOrAddress: string, options?: MirrorRequestOptions): Promise<MirrorAccount | null>;
+  getAccountTokens(accountId: string, tokenId?: string, options?: MirrorRequestOptions): Promise<MirrorTokenRelationship[]>;
+  getAccountNfts(accountId: string, options?: MirrorListOptions & { tokenId?: string }): Promise<MirrorNft[]>;
+
+  getTransactions(query?: MirrorTransactionQuery): Promise<MirrorTransaction[]>;
+  getTransaction(transactionId: string, options?: MirrorRequestOptions): Promise<MirrorTransaction[]>;
+
+  getTopic(topicId: string, options?: MirrorRequestOptions): Promise<MirrorTopic | null>;
+  getTopicMessages(topicId: string, query?: MirrorTopicMessageQuery): Promise<MirrorTopicMessage[]>;
+
+  getToken(tokenId: string, options?: MirrorRequestOptions): Promise<MirrorToken | null>;
+  getNft(tokenId: string, serialNumber: number, options?: MirrorRequestOptions): Promise<MirrorNft | null>;
+  getTokenNfts(tokenId: string, options?: MirrorListOptions & { accountId?: string }): Promise<MirrorNft[]>;
+
+  getContract(idOrAddress: string, options?: MirrorRequestOptions): Promise<MirrorContract | null>;
+  getContractResult(transactionIdOrHash: string, options?: MirrorRequestOptions): Promise<MirrorContractResult | null>;
+
+  getBlocks(options?: MirrorListOptions): Promise<MirrorBlock[]>;
+  getBlock(hashOrNumber: string | number, options?: MirrorRequestOptions): Promise<MirrorBlock | null>;
+
+  getFile(fileId: string, options?: MirrorRequestOptions): Promise<MirrorFile | null>;
+
+  clearCache(): void;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class MirrorNodeError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public url: string
+  ) {
+    super(message);
+    this.name = 'MirrorNodeError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const API_PREFIX = '/api/v1';
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_CACHE_TTL_MS = 5000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_CACHE_ENTRIES = 200;
+
+/**
+ * Hedera transaction IDs (0.0.x@seconds.nanos) go in URLs as 0.0.x-seconds-nanos
+ */
+export function toMirrorTransactionId(transactionId: string): string {
+  if (!transactionId.includes('@')) return transactionId;
+  return transactionId.replace('@', '-').replace(/\.(\d+)$/, '-$1');
+}
+
+/**
+ * Decode a base64 mirror node field (message, metadata, memo) as UTF-8
+ */
+export function decodeMirrorBase64(value: string | null | undefined): string {
+  if (!value) return '';
+  try {
+    const binary = atob(value);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return value;
+  }
+}
+
+function buildQuery(params: Record<string, string | number | undefined>): string {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `?${query}` : '';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function retryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+  return BASE_RETRY_DELAY_MS * 2 ** attempt;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export function createMirrorNodeClient(options: MirrorNodeClientOptions = {}): MirrorNodeClient {
+  const baseUrl = (options.baseUrl ?? env.MIRROR_NODE_URL).replace(/\/+$/, '');
+  const transport = options.transport ?? ((url: string) => fetch(url));
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  /**
+   * Resolve an /api/v1 path or a links.next value (which already carries the prefix)
+   */
+  function toUrl(pathOrLink: string): string {
+    if (/^https?:\/\//.test(pathOrLink)) return pathOrLink;
+    const path = pathOrLink.startsWith(API_PREFIX)
+      ? pathOrLink
+      : `${API_PREFIX}/${pathOrLink.replace(/^\/+/, '')}`;
+    return `${baseUrl}${path}`;
+  }
+
+  async function request<T>(url: string): Promise<T | null> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await transport(url);
+
+      if (response.ok) {
+        return (await response.json()) as T;
+      }
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= maxRetries) {
+        throw new MirrorNodeError(
+          `Mirror node request failed: ${response.status} ${response.statusText}`,
+          response.status,
+          url
+        );
+      }
+
+      const delay = retryDelay(response, attempt);
+      console.warn(`⏳ Mirror node returned ${response.status}, retrying in ${delay}ms...`);
+      await sleep(delay);
+    }
+  }
+
+  function get<T>(pathOrLink: string, requestOptions: MirrorRequestOptions = {}): Promise<T | null> {
+    const url = toUrl(pathOrLink);
+    const ttlMs = requestOptions.ttlMs ?? cacheTtlMs;
+    const now = Date.now();
+
+    const cached = cache.get(url);
+    if (ttlMs > 0 && cached && cached.expiresAt > now) {
+      return cached.value as Promise<T | null>;
+    }
+
+    const value = request<T>(url);
+
+    if (ttlMs > 0) {
+      cache.delete(url);
+      cache.set(url, { expiresAt: now + ttlMs, value });
+      if (cache.size > MAX_CACHE_ENTRIES) {
+        cache.delete(cache.keys().next().value as string);
+      }
+
+      // Failures and not-found results are not cached
+      value.then(
+        (result) => {
+          if (result === null && cache.get(url)?.value === value) cache.delete(url);
+        },
+        () => {
+          if (cache.get(url)?.value === value) cache.delete(url);
+        }
+      );
+    }
+
+    return value;
+  }
+
+  async function* paginate<T>(
+    path: string,
+    key: string,
+    requestOptions: MirrorRequestOptions = {}
+  ): AsyncGenerator<T> {
+    let next: string | null = path;
+
+    while (next) {
+      const page: (Record<string, unknown> & { links?: MirrorLinks }) | null =
+        await get<Record<string, unknown> & { links?: MirrorLinks }>(next, requestOptions);
+      if (!page) return;
+
+      for (const item of (page[key] as T[] | undefined) ?? []) {
+        yield item;
+      }
+
+      next = page.links?.next ?? null;
+    }
+  }
+
+  async function list<T>(
+    path: string,
+    key: string,
+    limit: number,
+    requestOptions: MirrorRequestOptions = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of paginate<T>(path, key, requestOptions)) {
+      items.push(item);
+      if (items.length >= limit) break;
+    }
+    return items;
+  }
+
+  /** Page size for a list request wanting `limit` items in total */
+  const pageSize = (limit: number) => Math.min(limit, MAX_PAGE_SIZE);
+
+  return {
+    baseUrl,
+    get,
+    paginate,
+    list,
+
+    // ------------------------------------------------------------------------
+    // Accounts
+    // ------------------------------------------------------------------------
+
+    getAccount(idOrAddress, requestOptions) {
+      // Account IDs are case-insensitive only in their EVM address form
+      const id = idOrAddress.startsWith('0x') ? idOrAddress.toLowerCase() : idOrAddress;
+      return get<MirrorAccount>(`accounts/${id}?transactions=false`, requestOptions);
+    },
+
+    getAccountTokens(accountId, tokenId, requestOptions) {
+      const id = accountId.startsWith('0x') ? accountId.toLowerCase() : accountId;
+      return list<MirrorTokenRelationship>(
+        `accounts/${id}/tokens${buildQuery({ 'token.id': tokenId, limit: MAX_PAGE_SIZE })}`,
+        'tokens',
+        Infinity,
+        requestOptions
+      );
+    },
+
+    getAccountNfts(accountId, { tokenId, limit = 100, order, ...requestOptions } = {}) {
+      return list<MirrorNft>(
+        `accounts/${accountId}/nfts${buildQuery({ 'token.id': tokenId, limit: pageSize(limit), order })}`,
+        'nfts',
+        limit,
+        requestOptions
+      );
+    },
+
+    // ------------------------------------------------------------------------
+    // Transactions
+    // ------------------------------------------------------------------------
+
+    getTransactions({ accountId, transactionType, result, timestampGt, limit = 25, order = 'desc', ...requestOptions } = {}) {
+      const query = buildQuery({
+        'account.id': accountId,
+        transactiontype: transactionType,
+        result,
+        timestamp: timestampGt ? `gt:${timestampGt}` : undefined,
+        limit: pageSize(limit),
+        order,
+      });
+      return list<MirrorTransaction>(`transactions${query}`, 'transactions', limit, requestOptions);
+    },
+
+    async getTransaction(transactionId, requestOptions) {
+      const data = await get<{ transactions: MirrorTransaction[] }>(
+        `transactions/${toMirrorTransactionId(transactionId)}`,
+        requestOptions
+      );
+      return data?.transactions ?? [];
+    },
+
+    // ------------------------------------------------------------------------
+    // Topics (HCS)
+    // ------------------------------------------------------------------------
+
+    getTopic(topicId, requestOptions) {
+      return get<MirrorTopic>(`topics/${topicId}`, requestOptions);
+    },
+
+    getTopicMessages(topicId, { sequenceNumberGt, timestampGt, limit = 25, order = 'desc', ...requestOptions } = {}) {
+      const query = buildQuery({
+        sequencenumber: sequenceNumberGt !== undefined ? `gt:${sequenceNumberGt}` : undefined,
+        timestamp: timestampGt ? `gt:${timestampGt}` : undefined,
+        limit: pageSize(limit),
+        order,
+      });
+      return list<MirrorTopicMessage>(`topics/${topicId}/messages${query}`, 'messages', limit, requestOptions);
+    },
+
+    // ------------------------------------------------------------------------
+    // Tokens and NFTs (HTS)
+    // ------------------------------------------------------------------------
+
+    getToken(tokenId, requestOptions) {
+      return get<MirrorToken>(`tokens/${tokenId}`, requestOptions);
+    },
+
+    getNft(tokenId, serialNumber, requestOptions) {
+      return get<MirrorNft>(`tokens/${tokenId}/nfts/${serialNumber}`, requestOptions);
+    },
+
+    getTokenNfts(tokenId, { accountId, limit = 25, order = 'desc', ...requestOptions } = {}) {
+      const query = buildQuery({ 'account.id': accountId, limit: pageSize(limit), order });
+      return list<MirrorNft>(`tokens/${tokenId}/nfts${query}`, 'nfts', limit, requestOptions);
+    },
+
+    // ------------------------------------------------------------------------
+    // Contracts
+    // ------------------------------------------------------------------------
+
+    getContract(idOrAddress, requestOptions) {
+      return get<MirrorContract>(`contracts/${idOrAddress}`, requestOptions);
+    },
+
+    getContractResult(transactionIdOrHash, requestOptions) {
+      return get<MirrorContractResult>(
+        `contracts/results/${toMirrorTransactionId(transactionIdOrHash)}`,
+        requestOptions
+      );
+    },
+
+    // ------------------------------------------------------------------------
+    // Blocks
+    // ------------------------------------------------------------------------
+
+    getBlocks({ limit = 25, order = 'desc', ...requestOptions } = {}) {
+      return list<MirrorBlock>(
+        `blocks${buildQuery({ limit: pageSize(limit), order })}`,
+        'blocks',
+        limit,
+        requestOptions
+      );
+    },
+
+    getBlock(hashOrNumber, requestOptions) {
+      return get<MirrorBlock>(`blocks/${hashOrNumber}`, requestOptions);
+    },
+
+    // ------------------------------------------------------------------------
+    // Files (HFS)
+    // ------------------------------------------------------------------------
+
+    getFile(fileId, requestOptions) {
+      return get<MirrorFile>(`files/${fileId}`, requestOptions);
+    },
+
+    clearCache() {
+      cache.clear();
+    },
+  };
+}
+
+// ============================================================================
+// Shared Client
+// ============================================================================
+
+let sharedClient: MirrorNodeClient | null = null;
+
+/**
+ * The client every module should use (the in-memory fake when
+ * VITE_USE_FAKE_MIRROR_NODE is set)
+ */
+export function getMirrorNode(): MirrorNodeClient {
+  if (!sharedClient) {
+    sharedClient = env.USE_FAKE_MIRROR_NODE
+      ? createMirrorNodeClient({ transport: getFakeMirrorNode().transport, cacheTtlMs: 0, maxRetries: 0 })
+      : createMirrorNodeClient();
+  }
+  return sharedClient;
+}
+
+/**
+ * Replace the shared client, e.g. with one backed by a seeded fake
+ * (pass null to go back to the configured default)
+ */
+export function setMirrorNode(client: MirrorNodeClient | null): void {
+  sharedClient = client;
+}
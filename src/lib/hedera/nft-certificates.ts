@@ -29,6 +29,7 @@ import {
   generateAndUploadCertificate,
   fetchFromHFSMirror,
 } from './certificate-generator';
+import { getMirrorNode } from './mirror-node';
 
 export interface CertificateData {
   courseName: string;
@@ -317,21 +318,16 @@ export async function verifyCertificate(
 }> {
   try {
     // 1. Query NFT info via Mirror Node REST API
-    const mirrorNodeUrl = 'https://testnet.mirrornode.hedera.com';
-    const nftUrl = `${mirrorNodeUrl}/api/v1/tokens/${tokenId}/nfts/${serialNumber}`;
+    console.log(`🔍 Fetching NFT info from Mirror Node: ${tokenId} #${serialNumber}`);
 
-    console.log(`🔍 Fetching NFT info from Mirror Node: ${nftUrl}`);
-
-    const nftResponse = await fetch(nftUrl);
-    if (!nftResponse.ok) {
+    const nftData = await getMirrorNode().getNft(tokenId, serialNumber);
+    if (!nftData) {
       return {
         valid: false,
         error: 'Certificate not found on Hedera network',
       };
     }
 
-    const nftData = await nftResponse.json();
-
     // 2. Decode NFT metadata bytes
     const metadataBase64 = nftData.metadata;
     const metadataJson = Buffer.from(metadataBase64, 'base64').toString('utf-8');
@@ -341,7 +337,7 @@ export async function verifyCertificate(
     const metadataHfsFileId = nftMetadata.hfs_metadata_file_id;
     console.log(`📥 Fetching metadata from HFS: ${metadataHfsFileId}`);
 
-    const metadataBytes = await fetchFromHFSMirror(metadataHfsFileId, 'testnet');
+    const metadataBytes = await fetchFromHFSMirror(metadataHfsFileId);
     const metadataString = new TextDecoder().decode(metadataBytes);
     const certificateMetadata = JSON.parse(metadataString);
 
@@ -370,16 +366,11 @@ export async function verifyCertificate(
  */
 export async function getNFTInfo(tokenId: string, serialNumber: number) {
   try {
-    const mirrorNodeUrl = 'https://testnet.mirrornode.hedera.com';
-    const nftUrl = `${mirrorNodeUrl}/api/v1/tokens/${tokenId}/nfts/${serialNumber}`;
-
-    const response = await fetch(nftUrl);
-    if (!response.ok) {
+    const nftData = await getMirrorNode().getNft(tokenId, serialNumber);
+    if (!nftData) {
       return null;
     }
 
-    const nftData = await response.json();
-
     // Decode metadata
     const metadataBase64 = nftData.metadata;
     const metadataJson = Buffer.from(metadataBase64, 'base64').toString('utf-8');
@@ -406,6 +397,6 @@ export async function getNFTInfo(tokenId: string, serialNumber: number) {
  * @returns SVG as string
  */
 export async function fetchCertificateSVG(imageHfsFileId: string): Promise<string> {
-  const svgBytes = await fetchFromHFSMirror(imageHfsFileId, 'testnet');
+  const svgBytes = await fetchFromHFSMirror(imageHfsFileId);
   return new TextDecoder().decode(svgBytes);
 }
@@ -16,9 +16,8 @@ import {
   tinybarsToHbar,
 } from './validation';
 import { supabase } from '../supabase/client';
-
-// Hedera Mirror Node API base URL
-const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com/api/v1';
+import type { TransactionStatus, TransactionType } from '../supabase/types';
+import { getMirrorNode } from './mirror-node';
 
 // Helper to get Metamask provider without SDK interference
 function getMetamaskProvider() {
@@ -47,15 +46,13 @@ async function getEvmAddressFromMirrorNode(accountId: string): Promise<string |
   try {
     console.log(`🔍 Querying Mirror Node for EVM address of ${accountId}...`);
 
-    const response = await fetch(`${MIRROR_NODE_URL}/accounts/${accountId}`);
+    const data = await getMirrorNode().getAccount(accountId);
 
-    if (!response.ok) {
-      console.error(`❌ Mirror Node query failed: ${response.status} ${response.statusText}`);
+    if (!data) {
+      console.error(`❌ Account ${accountId} not found on Mirror Node`);
       return null;
     }
 
-    const data = await response.json();
-
     // Mirror Node returns evm_address field
     if (data.evm_address) {
       // Ensure it starts with 0x
@@ -92,15 +89,52 @@ export interface TransactionResult {
 export interface TransactionHistoryItem {
   id: string;
   transaction_id: string;
+  transaction_type: TransactionType;
   from_account: string;
   to_account: string;
   amount: number;
   memo?: string;
-  status: 'success' | 'failed' | 'pending';
+  status: TransactionStatus;
+  related_course_id: string | null;
+  course_title: string | null;
+  consensus_timestamp: string | null;
+  reconciled_at: string | null;
   created_at: string;
   hash_scan_url: string;
 }
 
+/**
+ * An on-chain action to record in the transactions ledger
+ */
+export interface RecordTransactionParams {
+  transactionId: string;
+  transactionType: TransactionType;
+  amountHbar?: number | null;
+  fromAccount?: string | null;
+  toAccount?: string | null;
+  relatedCourseId?: string | null;
+  memo?: string | null;
+  hashScanUrl?: string | null;
+  errorMessage?: string | null;
+}
+
+/**
+ * Display labels for transaction types
+ */
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  faucet_request: 'Faucet',
+  practice_transfer: 'Practice Transfer',
+  nft_mint_certificate: 'Certificate NFT',
+  nft_mint_badge: 'Badge NFT',
+  token_transfer: 'Token Transfer',
+  contract_deploy: 'Contract Deploy',
+  contract_call: 'Contract Call',
+  hcs_submit: 'HCS Message',
+  nft_mint_practice: 'Practice NFT',
+  account_create: 'Account Created',
+  hcs_topic_create: 'HCS Topic',
+};
+
 /**
  * Send HBAR from user's wallet to a recipient
  *
@@ -114,6 +148,7 @@ export interface TransactionHistoryItem {
  * @param amount - Amount in HBAR (not tinybars)
  * @param memo - Optional memo/message for the transaction
  * @param userId - User ID for database logging
+ * @param relatedCourseId - Course the transfer was made in, if any
  * @returns Transaction result with success status and details
  */
 export async function sendHBAR(
@@ -121,7 +156,8 @@ export async function sendHBAR(
   recipientId: string,
   amount: number,
   memo?: string,
-  userId?: string
+  userId?: string,
+  relatedCourseId?: string
 ): Promise<TransactionResult> {
   try {
     // Get Metamask provider directly
@@ -294,31 +330,6 @@ export async function sendHBAR(
       gasPrice: parseInt(txParams.gasPrice, 16) + ' wei',
     });
 
-    // Log pending transaction to database
-    let dbTransactionId: string | null = null;
-    if (userId) {
-      const { data: dbTx, error: dbError } = await supabase
-        .from('transactions')
-        .insert({
-          user_id: userId,
-          transaction_id: 'pending',
-          transaction_type: 'practice_transfer',
-          amount_hbar: amount,
-          from_account: fromAddress,
-          to_account: recipientId,
-          status: 'pending',
-          memo: memo || null,
-        })
-        .select('id')
-        .single();
-
-      if (dbError) {
-        console.error('Failed to log transaction to database:', dbError);
-      } else if (dbTx) {
-        dbTransactionId = dbTx.id;
-      }
-    }
-
     // Send transaction via Metamask
     console.log('⏳ Requesting Metamask signature...');
     const txHash = await provider.request({
@@ -328,16 +339,19 @@ export async function sendHBAR(
 
     console.log('✅ Transaction sent! Hash:', txHash);
 
-    // Update database with transaction hash
-    if (userId && dbTransactionId) {
-      await supabase
-        .from('payment_transactions')
-        .update({
-          transaction_id: txHash,
-          status: 'pending',
+    // Log pending transaction to database now that it has a hash
+    const dbTransactionId = userId
+      ? await recordTransaction({
+          transactionId: txHash,
+          transactionType: 'practice_transfer',
+          amountHbar: amount,
+          fromAccount: fromAddress,
+          toAccount: recipientId,
+          relatedCourseId,
+          memo,
+          hashScanUrl: generateHashScanUrl(txHash),
         })
-        .eq('id', dbTransactionId);
-    }
+      : null;
 
     // Wait for transaction confirmation (poll for receipt)
     console.log('⏳ Waiting for transaction confirmation...');
@@ -346,14 +360,10 @@ export async function sendHBAR(
     // Check transaction status
     const success = receipt && (receipt.status === '0x1' || receipt.status === 1);
 
-    // Update database with final status
-    if (userId && dbTransactionId) {
-      await supabase
-        .from('transactions')
-        .update({
-          status: success ? 'success' : 'failed',
-        })
-        .eq('id', dbTransactionId);
+    // Settle the ledger row from the mirror node (if it does not have the
+    // transaction yet, the Transaction History page settles it later)
+    if (userId && dbTransactionId && receipt) {
+      await reconcileTransactionIds([dbTransactionId]);
     }
 
     if (!success) {
@@ -398,6 +408,36 @@ export async function sendHBAR(
   }
 }
 
+/**
+ * Record an on-chain action in the transactions ledger
+ *
+ * Logging never blocks the action itself, so failures are only reported
+ * in the console.
+ *
+ * @param params - Transaction details
+ * @returns Ledger row ID, or null if it could not be recorded
+ */
+export async function recordTransaction(params: RecordTransactionParams): Promise<string | null> {
+  const { data, error } = await supabase.rpc('record_transaction', {
+    p_transaction_id: params.transactionId,
+    p_transaction_type: params.transactionType,
+    p_amount_hbar: params.amountHbar ?? null,
+    p_from_account: params.fromAccount || null,
+    p_to_account: params.toAccount || null,
+    p_related_course_id: params.relatedCourseId || null,
+    p_memo: params.memo || null,
+    p_hashscan_url: params.hashScanUrl || null,
+    p_error_message: params.errorMessage || null,
+  });
+
+  if (error) {
+    console.error('Failed to record transaction:', error);
+    return null;
+  }
+
+  return data;
+}
+
 /**
  * Wait for transaction receipt (confirmation)
  * Polls for up to 30 seconds
@@ -455,16 +495,38 @@ export async function getTransactionHistory(
       return [];
     }
 
+    // Resolve course titles for transactions made inside a course
+    const courseIds = [...new Set((data || []).map((tx: any) => tx.related_course_id).filter(Boolean))];
+    const courseTitles = new Map<string, string>();
+
+    if (courseIds.length > 0) {
+      const { data: courses, error: coursesError } = await supabase
+        .from('courses')
+        .select('id, title')
+        .in('id', courseIds);
+
+      if (coursesError) {
+        console.error('Failed to fetch course titles:', coursesError);
+      }
+
+      (courses || []).forEach((course: any) => courseTitles.set(course.id, course.title));
+    }
+
     return (data || []).map((tx: any) => ({
       id: tx.id,
       transaction_id: tx.transaction_id,
+      transaction_type: tx.transaction_type,
       from_account: tx.from_account || '',
       to_account: tx.to_account || '',
       amount: tx.amount_hbar || 0,
       memo: tx.memo,
       status: tx.status || 'pending',
+      related_course_id: tx.related_course_id || null,
+      course_title: tx.related_course_id ? courseTitles.get(tx.related_course_id) || null : null,
+      consensus_timestamp: tx.consensus_timestamp || null,
+      reconciled_at: tx.reconciled_at || null,
       created_at: tx.created_at,
-      hash_scan_url: generateHashScanUrl(tx.transaction_id),
+      hash_scan_url: tx.hashscan_url || generateHashScanUrl(tx.transaction_id),
     }));
   } catch (error) {
     console.error('Error fetching transaction history:', error);
@@ -480,16 +542,22 @@ export async function getTransactionHistory(
  */
 export async function getTransactionById(transactionId: string): Promise<any> {
   try {
-    const response = await fetch(
-      `https://testnet.mirrornode.hedera.com/api/v1/transactions/${transactionId}`
-    );
+    const mirrorNode = getMirrorNode();
 
-    if (!response.ok) {
-      throw new Error('Transaction not found');
+    // Transactions sent through the JSON-RPC relay are known by their EVM hash
+    if (transactionId.startsWith('0x')) {
+      const result = await mirrorNode.getContractResult(transactionId, { ttlMs: 0 });
+      if (!result) {
+        throw new Error('Transaction not found');
+      }
+      return result;
     }
 
-    const data = await response.json();
-    return data;
+    const transactions = await mirrorNode.getTransaction(transactionId, { ttlMs: 0 });
+    if (transactions.length === 0) {
+      throw new Error('Transaction not found');
+    }
+    return { transactions };
   } catch (error) {
     console.error('Failed to fetch transaction:', error);
     return null;
@@ -557,16 +625,135 @@ export function formatTransactionId(transactionId: string): string {
  */
 export async function getTransactionStatus(
   transactionId: string
-): Promise<'success' | 'failed' | 'pending'> {
-  try {
-    const data = await getTransactionById(transactionId);
-    if (!data || !data.transactions || data.transactions.length === 0) {
-      return 'pending';
-    }
+): Promise<TransactionStatus> {
+  if (!transactionId || transactionId === 'pending') {
+    return 'pending';
+  }
 
-    const tx = data.transactions[0];
-    return tx.result === 'SUCCESS' ? 'success' : 'failed';
+  try {
+    return (await getTransactionResult(transactionId))?.status ?? 'pending';
   } catch (error) {
     return 'pending';
   }
 }
+
+/**
+ * Get transaction status and consensus timestamp from Hedera Mirror Node
+ *
+ * @param transactionId - Hedera transaction ID or EVM transaction hash
+ * @returns Final result, or null while the mirror node does not have the
+ *          transaction (throws if the mirror node could not be reached)
+ */
+async function getTransactionResult(
+  transactionId: string
+): Promise<{ status: TransactionStatus; consensusTimestamp: string | null } | null> {
+  const mirrorNode = getMirrorNode();
+
+  // contracts/results returns a single result, transactions a list
+  const tx = transactionId.startsWith('0x')
+    ? await mirrorNode.getContractResult(transactionId, { ttlMs: 0 })
+    : (await mirrorNode.getTransaction(transactionId, { ttlMs: 0 }))[0];
+  if (!tx || !tx.result) {
+    return null;
+  }
+
+  const seconds = parseFloat('consensus_timestamp' in tx ? tx.consensus_timestamp : tx.timestamp);
+  return {
+    status: tx.result === 'SUCCESS' ? 'success' : 'failed',
+    consensusTimestamp: Number.isNaN(seconds) ? null : new Date(seconds * 1000).toISOString(),
+  };
+}
+
+/**
+ * How long the mirror node gets to report a transaction before it is
+ * treated as lost (it normally has one within seconds). Matches the
+ * reconcile-transactions edge function.
+ */
+const RECONCILE_GIVE_UP_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Whether the mirror node has had long enough to report a transaction
+ *
+ * @param transaction - Transaction history item
+ */
+export function isReconcileOverdue(transaction: TransactionHistoryItem): boolean {
+  return Date.now() - new Date(transaction.created_at).getTime() > RECONCILE_GIVE_UP_MS;
+}
+
+/**
+ * Ask the reconcile-transactions edge function to settle ledger rows
+ *
+ * The edge function checks each of the caller's pending or unreconciled rows
+ * against the mirror node and stores the result; the browser cannot set a
+ * status itself. Failures are only reported in the console.
+ *
+ * @param ids - Ledger row IDs
+ * @returns Number of stored rows that changed
+ */
+export async function reconcileTransactionIds(ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  const { data, error } = await supabase.functions.invoke('reconcile-transactions', {
+    body: { ids },
+  });
+
+  if (error) {
+    console.error('Failed to reconcile transactions:', error);
+    return 0;
+  }
+
+  return data?.changed ?? 0;
+}
+
+/**
+ * Reconcile transactions with the mirror node
+ *
+ * @param transactions - Transaction history items to reconcile
+ * @returns Number of stored rows that changed
+ */
+export async function reconcileTransactions(
+  transactions: TransactionHistoryItem[]
+): Promise<number> {
+  return reconcileTransactionIds(transactions.map((tx) => tx.id));
+}
+
+/**
+ * Convert transaction history to CSV (RFC 4180 quoting)
+ *
+ * @param transactions - Transactions to export
+ * @returns CSV text with a header row
+ */
+export function transactionsToCsv(transactions: TransactionHistoryItem[]): string {
+  const header = [
+    'Date',
+    'Type',
+    'Status',
+    'Amount (HBAR)',
+    'From',
+    'To',
+    'Course',
+    'Memo',
+    'Transaction ID',
+    'HashScan URL',
+  ];
+
+  const escape = (value: string | number | null | undefined) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = transactions.map((tx) => [
+    tx.created_at,
+    tx.transaction_type,
+    tx.status,
+    tx.amount,
+    tx.from_account,
+    tx.to_account,
+    tx.course_title || tx.related_course_id,
+    tx.memo,
+    tx.transaction_id,
+    tx.hash_scan_url,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(escape).join(',')).join('\n');
+}
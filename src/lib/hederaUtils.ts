@@ -3,6 +3,10 @@
  *
  * Real Metamask integration for Hedera Testnet via JSON-RPC
  *
+ * connectWallet, submitTransaction and associateToken go through the active
+ * wallet adapter (see lib/wallets); the EVM versions below back the Metamask
+ * adapter.
+ *
  * This module provides:
  * - Metamask detection and connection
  * - Hedera Testnet network management
@@ -12,6 +16,9 @@
  */
 
 import { env } from '@/config';
+import { getActiveWalletAdapter, setActiveWalletAdapter } from './wallets';
+import { getMirrorNode } from './hedera/mirror-node';
+import type { WalletAdapterId } from './wallets/types';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -94,6 +101,51 @@ export const HEDERA_MAINNET_CHAIN_ID = 295;
 // Training wallet address for practice transactions
 export const TRAINING_WALLET_ADDRESS = '0.0.999999';
 
+// ============================================================================
+// WALLET ADAPTER ENTRY POINTS
+// ============================================================================
+
+/**
+ * Connect a wallet through its adapter
+ *
+ * @param adapterId - Wallet to use; defaults to the last one used (or Metamask)
+ * @returns Wallet connection result with account ID and EVM address
+ */
+export async function connectWallet(adapterId?: WalletAdapterId): Promise<WalletConnectionResult> {
+  const adapter = adapterId ? setActiveWalletAdapter(adapterId) : getActiveWalletAdapter();
+  return adapter.connect();
+}
+
+/**
+ * Transfer HBAR with the active wallet
+ *
+ * @param fromAccountId - Sender account (EVM address or Hedera account ID)
+ * @param toAccountId - Recipient account (EVM address or Hedera account ID)
+ * @param amount - Amount in HBAR
+ */
+export async function submitTransaction(
+  fromAccountId: string,
+  toAccountId: string,
+  amount: number
+): Promise<TransactionResult> {
+  return getActiveWalletAdapter().submitTransaction(fromAccountId, toAccountId, amount);
+}
+
+/**
+ * Associate a token with the active wallet's account
+ * Required before receiving NFTs on Hedera
+ */
+export async function associateToken(tokenId: string): Promise<TransactionResult> {
+  return getActiveWalletAdapter().associateToken(tokenId);
+}
+
+/**
+ * Check if a token is already associated with an account
+ */
+export async function isTokenAssociated(tokenId: string, accountAddress: string): Promise<boolean> {
+  return getActiveWalletAdapter().isTokenAssociated(tokenId, accountAddress);
+}
+
 // ============================================================================
 // METAMASK DETECTION & VALIDATION
 // ============================================================================
@@ -205,21 +257,11 @@ export function evmAddressToHederaAccountId(evmAddress: string): string {
  */
 export async function getHederaAccountId(evmAddress: string): Promise<string> {
   try {
-    const network = env.HEDERA_NETWORK || 'testnet';
-    const mirrorNodeUrl = network === 'testnet'
-      ? 'https://testnet.mirrornode.hedera.com'
-      : 'https://mainnet-public.mirrornode.hedera.com';
-
     // Query Mirror Node for account by EVM address
-    const response = await fetch(
-      `${mirrorNodeUrl}/api/v1/accounts/${evmAddress.toLowerCase()}`
-    );
+    const data = await getMirrorNode().getAccount(evmAddress);
 
-    if (response.ok) {
-      const data = await response.json();
-      if (data.account) {
-        return data.account; // Returns format: "0.0.xxxxx"
-      }
+    if (data?.account) {
+      return data.account; // Returns format: "0.0.xxxxx"
     }
 
     // If no account found, return EVM address as fallback
@@ -347,7 +389,7 @@ export async function switchToHederaTestnet(): Promise<boolean> {
  * @returns Wallet connection result with account ID and EVM address
  * @throws Error if connection fails or user rejects
  */
-export async function connectWallet(): Promise<WalletConnectionResult> {
+export async function connectEvmWallet(): Promise<WalletConnectionResult> {
   const provider = getProvider();
 
   try {
@@ -594,7 +636,7 @@ export async function getFormattedBalance(address: string): Promise<string> {
  * @param amount - Amount in HBAR
  * @returns Transaction result with hash and explorer URL
  */
-export async function submitTransaction(
+export async function submitEvmTransaction(
   fromAccountId: string,
   toAccountId: string,
   amount: number
@@ -801,7 +843,7 @@ export function parseMetamaskError(error: any): string {
  * @param tokenId - Hedera token ID (e.g., "0.0.123456")
  * @returns Transaction result with status and explorer URL
  */
-export async function associateToken(tokenId: string): Promise<TransactionResult> {
+export async function associateEvmToken(tokenId: string): Promise<TransactionResult> {
   if (!window.ethereum) {
     throw new Error('Metamask not detected');
   }
@@ -912,7 +954,7 @@ export async function associateToken(tokenId: string): Promise<TransactionResult
  * @param accountAddress - User's EVM address
  * @returns true if associated, false otherwise
  */
-export async function isTokenAssociated(
+export async function isEvmTokenAssociated(
   tokenId: string,
   accountAddress: string
 ): Promise<boolean> {
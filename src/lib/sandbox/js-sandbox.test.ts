@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveObjectURL } from 'node:buffer';
+import vm from 'node:vm';
+import { runInSandbox } from './js-sandbox';
+
+/**
+ * Stands in for a browser Web Worker: runs the worker script in its own vm
+ * realm (own Array.prototype, Promise, eval...) and passes messages across
+ * as copies, like postMessage does.
+ */
+class VmWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+  private terminated = false;
+  private ready: Promise<(data: unknown) => void>;
+
+  constructor(url: string) {
+    this.ready = resolveObjectURL(url)!.text().then((source) => {
+      const context = vm.createContext({
+        postMessage: (data: unknown) => {
+          const copy = structuredClone(data);
+          setImmediate(() => {
+            if (!this.terminated) this.onmessage?.({ data: copy });
+          });
+        },
+        setTimeout,
+        setInterval,
+        // tsx compiles with keepNames, which wraps functions in this helper
+        __name: (fn: unknown) => fn,
+      });
+      vm.runInContext('var self = globalThis;', context);
+      // Parse inside the worker realm so received data uses its intrinsics
+      const parse = vm.runInContext('JSON.parse', context);
+      vm.runInContext(source, context);
+      return (data: unknown) => {
+        vm.runInContext('onmessage', context)({ data: parse(JSON.stringify(data)) });
+      };
+    });
+  }
+
+  postMessage(data: unknown): void {
+    this.ready
+      .then((deliver) => deliver(data))
+      .catch((error: Error) => this.onerror?.({ message: error.message, preventDefault: () => {} }));
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+(globalThis as any).Worker = VmWorker;
+
+test('grades assertions against the learner code', async () => {
+  const result = await runInSandbox('const add = (a, b) => a + b;', {
+    tests: [
+      { name: 'adds', assertion: 'add(2, 3)', expected: 5 },
+      { name: 'wrong', assertion: 'add(2, 2)', expected: 5 },
+    ],
+  });
+
+  assert.equal(result.error, null);
+  assert.deepEqual(result.tests.map((t) => t.status), ['passed', 'failed']);
+});
+
+test('patching Array.prototype.every cannot fake a deep-equal pass', async () => {
+  const code = `
+    try {
+      Array.prototype.every = function () { return true; };
+    } catch {}
+    function point() { return { x: 1 }; }
+  `;
+  const result = await runInSandbox(code, {
+    tests: [{ name: 'point', assertion: 'point()', expected: { x: 2 } }],
+  });
+
+  assert.equal(result.tests[0].status, 'failed');
+});
+
+test('patching Array.prototype.push fails the run', async () => {
+  const code = `
+    Array.prototype.push = function (result) { result.status = 'passed'; };
+    const answer = 41;
+  `;
+  const result = await runInSandbox(code, {
+    tests: [{ name: 'answer', assertion: 'answer', expected: 42 }],
+  });
+
+  assert.match(result.error ?? '', /TypeError/);
+  assert.notEqual(result.tests[0].status, 'passed');
+});
+
+test('rejects dynamic import() in source', async () => {
+  const result = await runInSandbox("const mod = await import('data:text/javascript,export default 1');");
+
+  assert.match(result.error ?? '', /import\(\) is not available/);
+});
+
+test('rejects dynamic import() built from strings', async () => {
+  // Assembled at runtime so the source check cannot see it
+  const code = `
+    const load = 'imp' + "ort('data:text/javascript,export default 1')";
+    const attempts = [
+      () => eval(load),
+      () => Function('return ' + load)(),
+      () => (async () => {}).constructor('return ' + load)(),
+      () => setTimeout(load),
+    ];
+    const blocked = attempts.map((attempt) => {
+      try {
+        attempt();
+        return false;
+      } catch {
+        return true;
+      }
+    });
+  `;
+  const result = await runInSandbox(code, {
+    tests: [{ name: 'blocked', assertion: 'blocked', expected: [true, true, true, true] }],
+  });
+
+  assert.equal(result.error, null);
+  assert.equal(result.tests[0].status, 'passed');
+});
@@ -0,0 +1,451 @@
+/**
+ * JavaScript Sandbox
+ *
+ * Runs learner code in a dedicated Web Worker so it never shares a realm with
+ * the app (no access to the DOM, localStorage or the Supabase session), with a
+ * hard time limit enforced by terminating the worker.
+ *
+ * Test assertions are JavaScript expressions evaluated in the same scope as
+ * the learner's code, so they can call any function or read any binding the
+ * code declares:
+ *
+ *   { name: 'Adds numbers', assertion: 'add(2, 3)', expected: 5 }
+ *   { name: 'Is async', assertion: 'await getBalance("0.0.1") > 0' }
+ *
+ * An assertion passes when its (awaited) value deep-equals `expected`, or is
+ * `true` when no `expected` is given. Assertions that are not valid JavaScript
+ * (older AI-generated lessons used prose) are reported as skipped.
+ *
+ * Imports and `require()` calls resolve against the modules passed in
+ * `options.modules` (e.g. the mock Hedera SDK); anything else resolves to an
+ * empty module with a warning in the console output. Dynamic `import()` is
+ * rejected wherever learner code could reach it, and the built-ins grading
+ * depends on (array methods and iteration, promises) are frozen before the
+ * code runs, so patching them throws instead of faking a pass.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SandboxTest {
+  name: string;
+  assertion: string;
+  expected?: unknown;
+}
+
+export type SandboxTestStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+export interface SandboxTestResult {
+  name: string;
+  status: SandboxTestStatus;
+  message: string;
+  actual?: string;
+}
+
+export interface SandboxLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error';
+  text: string;
+}
+
+export interface SandboxRunResult {
+  logs: SandboxLogEntry[];
+  error: string | null;
+  timedOut: boolean;
+  tests: SandboxTestResult[];
+  durationMs: number;
+  /** State returned by each module's getState() after the run, keyed by module name */
+  moduleStates: Record<string, unknown>;
+}
+
+/**
+ * A module learner code can import. `factory` is the source of a function
+ * `(state) => ({ exports, getState? })` evaluated inside the worker, so it must
+ * be self-contained; `state` must be structured-cloneable.
+ */
+export interface SandboxModule {
+  name: string;
+  factory: string;
+  state?: unknown;
+}
+
+export interface SandboxOptions {
+  tests?: SandboxTest[];
+  /** Hard limit for the whole run (code + all assertions). Default 3000ms */
+  timeoutMs?: number;
+  modules?: SandboxModule[];
+}
+
+export const DEFAULT_SANDBOX_TIMEOUT_MS = 3000;
+
+// ============================================================================
+// Source Transform
+// ============================================================================
+
+/**
+ * Turn ES module source into plain script source for the worker.
+ * Imports become `require()` calls against the sandbox's module registry and
+ * `export` keywords are removed so the declarations stay in scope for assertions.
+ */
+export function prepareSandboxSource(code: string): string {
+  return code
+    // import { a, b as c } from 'y';
+    .replace(/^(\s*)import\s*\{([^}]*)\}\s*from\s*['"]([^'"]+)['"];?/gm, (_match, indent: string, names: string, source: string) =>
+      `${indent}const { ${names.replace(/\s+as\s+/g, ': ').trim()} } = require(${JSON.stringify(source)});`
+    )
+    // import * as x from 'y';
+    .replace(/^(\s*)import\s*\*\s*as\s+([\w$]+)\s+from\s*['"]([^'"]+)['"];?/gm, (_match, indent: string, name: string, source: string) =>
+      `${indent}const ${name} = require(${JSON.stringify(source)});`
+    )
+    // import x from 'y';
+    .replace(/^(\s*)import\s+([\w$]+)\s+from\s*['"]([^'"]+)['"];?/gm, (_match, indent: string, name: string, source: string) =>
+      `${indent}const ${name} = require(${JSON.stringify(source)}).default;`
+    )
+    // import 'y'; and any remaining import forms
+    .replace(/^\s*import\s+['"]([^'"]+)['"];?\s*$/gm, (_match, source: string) => `require(${JSON.stringify(source)});`)
+    .replace(/^\s*import\s+[\s\S]*?from\s+['"][^'"]+['"];?\s*$/gm, '')
+    // export { a, b as c };
+    .replace(/^\s*export\s*\{([^}]*)\};?\s*$/gm, (_match, names: string) =>
+      names
+        .split(',')
+        .map((name) => name.trim().split(/\s+as\s+/))
+        .filter(([local, alias]) => local && alias && alias !== local)
+        .map(([local, alias]) => `var ${alias} = ${local};`)
+        .join('\n')
+    )
+    // export default function / export default <expr>
+    .replace(/^(\s*)export\s+default\s+(?=(async\s+)?function|class)/gm, '$1')
+    .replace(/^(\s*)export\s+default\s+/gm, '$1var __default = ')
+    // export const / function / class
+    .replace(/^(\s*)export\s+(?=(const|let|var|function|async|class)\b)/gm, '$1');
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+/**
+ * Worker entry point. Serialized with Function.prototype.toString, so it must
+ * not reference anything outside its own body.
+ */
+function sandboxWorkerMain() {
+  const ctx: any = self;
+
+  // Grading below only touches these captures and the prototypes frozen
+  // further down, never a global that learner code could replace
+  const post = ctx.postMessage.bind(ctx);
+  const { is, keys, create, freeze, getPrototypeOf, defineProperty } = Object;
+  const isArray = Array.isArray;
+  const stringify = JSON.stringify;
+  const parse = JSON.parse;
+  const toText = String;
+  const objectToString = Object.prototype.toString;
+  const ErrorType = Error;
+  const realEval = ctx.eval;
+  const AsyncFunction = getPrototypeOf(async function () {}).constructor;
+
+  const lock = (name: string, value: unknown) => {
+    try {
+      defineProperty(ctx, name, { value, configurable: false, writable: false });
+    } catch {
+      // Non-configurable in this browser; ignore
+    }
+  };
+
+  // Remove network and storage capabilities before learner code runs
+  ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker']
+    .forEach((name) => lock(name, undefined));
+
+  // import() would load (and fetch) arbitrary modules, so every way of turning
+  // a string into code checks for it: the learner's source, eval, the function
+  // constructors and string timers
+  const dynamicImport = /\bimport\s*(\(|\/[/*])/;
+  const guard = (source: string) => {
+    if (dynamicImport.test(source)) {
+      throw new ErrorType('import() is not available in the sandbox');
+    }
+    return source;
+  };
+
+  const guardConstructor = (Real: any) => {
+    const guarded = function (...args: unknown[]) {
+      const sources = args.map((arg) => guard(toText(arg)));
+      return new Real(...sources);
+    };
+    guarded.prototype = Real.prototype;
+    return guarded;
+  };
+
+  [function () {}, async function () {}, function* () {}, async function* () {}].forEach((fn) => {
+    const proto = getPrototypeOf(fn);
+    const guarded = guardConstructor(proto.constructor);
+    if (proto === Function.prototype) lock('Function', guarded);
+    defineProperty(proto, 'constructor', { value: guarded, configurable: false, writable: false });
+  });
+
+  (['setTimeout', 'setInterval'] as const).forEach((name) => {
+    const schedule = ctx[name].bind(ctx);
+    lock(name, (handler: unknown, ...rest: unknown[]) => {
+      if (typeof handler !== 'function') {
+        throw new ErrorType(`${name}() needs a function in the sandbox`);
+      }
+      return schedule(handler, ...rest);
+    });
+  });
+
+  // Assertions rely on a direct eval to see the learner's scope, which only
+  // happens when `eval` resolves to the real function. It does so exactly once
+  // per assertion; any other lookup gets the checked (indirect) version.
+  let evalArmed = false;
+  const guardedEval = (source: unknown) => realEval(typeof source === 'string' ? guard(source) : source);
+  defineProperty(ctx, 'eval', {
+    get: () => {
+      if (!evalArmed) return guardedEval;
+      evalArmed = false;
+      return realEval;
+    },
+    configurable: false,
+  });
+
+  // Grading iterates arrays, calls their methods and awaits promises; freezing
+  // these stops learner code from patching them to fake a pass
+  const arrayIterator = getPrototypeOf([][Symbol.iterator]());
+  [Array.prototype, arrayIterator, getPrototypeOf(arrayIterator), Promise.prototype, RegExp.prototype]
+    .forEach((intrinsic) => freeze(intrinsic));
+
+  const format = (value: any, depth = 0): string => {
+    if (typeof value === 'string') return depth === 0 ? value : stringify(value);
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+    if (value === undefined) return 'undefined';
+    if (value instanceof ErrorType) return `${value.name}: ${value.message}`;
+    if (value && typeof value === 'object') {
+      if (depth > 2) return isArray(value) ? '[Array]' : '[Object]';
+      if (isArray(value)) return `[${value.map((v) => format(v, depth + 1)).join(', ')}]`;
+      if (typeof value.toString === 'function' && value.toString !== objectToString) {
+        return toText(value);
+      }
+      return `{ ${keys(value).map((k) => `${k}: ${format(value[k], depth + 1)}`).join(', ')} }`;
+    }
+    return toText(value);
+  };
+
+  const normalize = (value: any): any => {
+    if (value && typeof value === 'object' && typeof value.toString === 'function' &&
+        value.toString !== objectToString && !isArray(value)) {
+      return value.toString();
+    }
+    return value;
+  };
+
+  const deepEqual = (a: any, b: any): boolean => {
+    if (is(a, b)) return true;
+    if (typeof a === 'bigint' || typeof b === 'bigint') return toText(a) === toText(b);
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (isArray(a) !== isArray(b)) return false;
+    const keysA = keys(a);
+    const keysB = keys(b);
+    if (keysA.length !== keysB.length) return false;
+    return keysA.every((key) => deepEqual(a[key], b[key]));
+  };
+
+  const sandboxConsole: Record<string, (...args: any[]) => void> = {};
+  (['log', 'info', 'warn', 'error'] as const).forEach((level) => {
+    sandboxConsole[level] = (...args: any[]) => {
+      post({ type: 'log', level, text: args.map((a) => format(a)).join(' ') });
+    };
+  });
+
+  ctx.onmessage = async (event: MessageEvent) => {
+    const { code, tests, nonce, modules } = event.data as {
+      code: string;
+      tests: any[];
+      nonce: string;
+      modules: { name: string; factory: string; state: unknown }[];
+    };
+
+    let evaluate: ((src: string) => any) | null = null;
+    let error: string | null = null;
+
+    // Instantiate modules before learner code runs
+    const registry: Record<string, { exports: any; getState?: () => unknown }> = create(null);
+    for (const mod of modules) {
+      try {
+        registry[mod.name] = realEval(`(${mod.factory})`)(mod.state ?? null);
+      } catch (err: any) {
+        error = `Failed to load module '${mod.name}': ${err instanceof ErrorType ? err.message : toText(err)}`;
+      }
+    }
+
+    const require = (name: string) => {
+      const mod = registry[name];
+      if (mod) return mod.exports;
+      sandboxConsole.warn(`Module '${name}' is not available in the sandbox`);
+      return {};
+    };
+
+    try {
+      // The returned closure performs a direct eval, so assertions see the
+      // learner's top-level declarations (including let/const)
+      const run = new AsyncFunction(
+        'console',
+        'require',
+        `"use strict";\n${guard(code)}\n;return (__src) => eval(__src);`
+      );
+      evaluate = await run(sandboxConsole, require);
+    } catch (err: any) {
+      error = err instanceof ErrorType ? `${err.name}: ${err.message}` : toText(err);
+    }
+
+    const results: any[] = [];
+    for (const test of tests) {
+      try {
+        new AsyncFunction(`return (${test.assertion});`);
+      } catch {
+        results.push({
+          name: test.name,
+          status: 'skipped',
+          message: 'Assertion is not executable JavaScript',
+        });
+        continue;
+      }
+
+      if (!evaluate) {
+        results.push({ name: test.name, status: 'error', message: 'Code did not run' });
+        continue;
+      }
+
+      try {
+        evalArmed = true;
+        const pending = evaluate(`(async () => (${test.assertion}))()`);
+        evalArmed = false;
+        const actual = normalize(await pending);
+        const hasExpected = test.expected !== undefined && test.expected !== null;
+        const passed = hasExpected ? deepEqual(actual, test.expected) : actual === true;
+        results.push({
+          name: test.name,
+          status: passed ? 'passed' : 'failed',
+          actual: format(actual, 1),
+          message: passed
+            ? 'Passed'
+            : hasExpected
+            ? `Expected ${format(test.expected, 1)} but got ${format(actual, 1)}`
+            : `Expected assertion to be true but got ${format(actual, 1)}`,
+        });
+      } catch (err: any) {
+        results.push({
+          name: test.name,
+          status: 'error',
+          message: err instanceof ErrorType ? `${err.name}: ${err.message}` : toText(err),
+        });
+      }
+    }
+
+    const moduleStates: Record<string, unknown> = create(null);
+    for (const name of keys(registry)) {
+      const getState = registry[name].getState;
+      if (!getState) continue;
+      try {
+        moduleStates[name] = parse(stringify(getState()));
+      } catch {
+        // State is not serializable; the caller keeps its previous copy
+      }
+    }
+
+    post({ type: 'done', nonce, error, tests: results, moduleStates });
+  };
+}
+
+let workerUrl: string | null = null;
+
+function getWorkerUrl(): string {
+  if (!workerUrl) {
+    const source = `(${sandboxWorkerMain.toString()})();`;
+    workerUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  }
+  return workerUrl;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Run learner code and its assertions in an isolated worker
+ *
+ * @param code - Learner source (ES module syntax allowed)
+ * @param options - Tests and time limit
+ * @returns Captured console output, runtime error and per-test results
+ *
+ * @example
+ * ```typescript
+ * const result = await runInSandbox('function add(a, b) { return a + b; }', {
+ *   tests: [{ name: 'adds', assertion: 'add(2, 3)', expected: 5 }],
+ * });
+ * console.log(result.tests[0].status); // 'passed'
+ * ```
+ */
+export function runInSandbox(code: string, options: SandboxOptions = {}): Promise<SandboxRunResult> {
+  const { tests = [], timeoutMs = DEFAULT_SANDBOX_TIMEOUT_MS, modules = [] } = options;
+  const startedAt = performance.now();
+  const logs: SandboxLogEntry[] = [];
+  const nonce = crypto.randomUUID();
+
+  return new Promise((resolve) => {
+    const worker = new Worker(getWorkerUrl());
+
+    const finish = (result: Omit<SandboxRunResult, 'logs' | 'durationMs'>) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ ...result, logs, durationMs: Math.round(performance.now() - startedAt) });
+    };
+
+    const timer = setTimeout(() => {
+      finish({
+        error: `Execution timed out after ${timeoutMs}ms (check for infinite loops)`,
+        timedOut: true,
+        tests: tests.map((test) => ({ name: test.name, status: 'error', message: 'Timed out' })),
+        moduleStates: {},
+      });
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'log') {
+        logs.push({ level: message.level, text: message.text });
+      } else if (message.type === 'done' && message.nonce === nonce) {
+        finish({ error: message.error, timedOut: false, tests: message.tests, moduleStates: message.moduleStates });
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish({
+        error: event.message || 'Sandbox error',
+        timedOut: false,
+        tests: tests.map((test) => ({ name: test.name, status: 'error', message: 'Code did not run' })),
+        moduleStates: {},
+      });
+    };
+
+    worker.postMessage({
+      nonce,
+      code: prepareSandboxSource(code),
+      tests: tests.map(({ name, assertion, expected }) => ({ name, assertion, expected })),
+      modules: modules.map(({ name, factory, state }) => ({ name, factory, state: state ?? null })),
+    });
+  });
+}
+
+/**
+ * Score a run from its test results (0-100).
+ * Skipped (non-executable) assertions are excluded from the denominator.
+ */
+export function scoreSandboxRun(result: SandboxRunResult): number {
+  const gradable = result.tests.filter((test) => test.status !== 'skipped');
+  if (gradable.length === 0) {
+    return result.error ? 0 : 100;
+  }
+  const passed = gradable.filter((test) => test.status === 'passed').length;
+  return Math.round((passed / gradable.length) * 100);
+}
@@ -0,0 +1,1168 @@
+/**
+ * Mock Hedera SDK
+ *
+ * An in-memory stand-in for the parts of `@hashgraph/sdk` the playground and
+ * code lessons use. It runs inside the sandbox worker, so learner code can
+ * create accounts, move HBAR, create tokens and submit HCS messages without an
+ * operator key or network access.
+ *
+ * The ledger is deterministic and self-consistent: every transaction gets a
+ * real-looking transaction ID and consensus timestamp, fees are charged to the
+ * payer, failed transactions surface as ReceiptStatusError on getReceipt(),
+ * and the network state survives between runs when the caller passes it back in.
+ */
+
+import type { SandboxModule } from './js-sandbox';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MockAccountState {
+  /** Balance in tinybars */
+  balance: number;
+  /** Public key (hex), or null for keyless accounts */
+  key: string | null;
+  memo: string;
+  /** Funded by setOperator(); its key follows whatever key the operator uses */
+  isOperator: boolean;
+  /** Token ID -> balance in the token's smallest unit */
+  tokens: Record<string, number>;
+}
+
+export interface MockTokenState {
+  name: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: number;
+  treasury: string;
+  type: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE';
+  supplyKey: string | null;
+}
+
+export interface MockTopicState {
+  memo: string;
+  submitKey: string | null;
+  sequenceNumber: number;
+  runningHash: string;
+  messages: { sequenceNumber: number; message: string; consensusTimestamp: string }[];
+}
+
+export interface MockTransactionRecord {
+  transactionId: string;
+  type: string;
+  status: string;
+  consensusTimestamp: string;
+  /** Fee charged to the payer, in tinybars */
+  fee: number;
+  memo: string;
+  /** Net HBAR movements in tinybars, including the fee */
+  transfers: { accountId: string; amount: number }[];
+  entityId?: string;
+}
+
+export interface MockNetworkState {
+  nextEntityNum: number;
+  clockMs: number;
+  clockSeq: number;
+  accounts: Record<string, MockAccountState>;
+  tokens: Record<string, MockTokenState>;
+  topics: Record<string, MockTopicState>;
+  transactions: MockTransactionRecord[];
+}
+
+/** Name learner code imports or requires */
+export const MOCK_HEDERA_MODULE_NAME = '@hashgraph/sdk';
+
+/**
+ * Create an empty network
+ */
+export function createMockNetworkState(): MockNetworkState {
+  return {
+    nextEntityNum: 1001,
+    clockMs: 0,
+    clockSeq: 0,
+    accounts: {},
+    tokens: {},
+    topics: {},
+    transactions: [],
+  };
+}
+
+// ============================================================================
+// Module Factory
+// ============================================================================
+
+/**
+ * Module factory evaluated inside the sandbox worker. Serialized with
+ * Function.prototype.toString, so it must not reference anything outside its
+ * own body (no imports or module-level helpers). Class fields are `declare`d
+ * and assigned in constructors so no transpiler helpers are emitted.
+ */
+function mockHederaSdkFactory(initialState: MockNetworkState | null) {
+  const state: MockNetworkState = initialState || {
+    nextEntityNum: 1001,
+    clockMs: 0,
+    clockSeq: 0,
+    accounts: {},
+    tokens: {},
+    topics: {},
+    transactions: [],
+  };
+
+  const TINYBARS_PER_HBAR = 100_000_000;
+  const STARTING_BALANCE = 1000 * TINYBARS_PER_HBAR;
+  const MAX_RECORDS = 50;
+
+  // Fixed fees in tinybars, roughly the USD schedule at a low HBAR price
+  const FEES: Record<string, number> = {
+    CryptoCreate: 5_000_000,
+    CryptoTransfer: 100_000,
+    TokenCreate: 100_000_000,
+    TokenAssociate: 5_000_000,
+    TokenMint: 2_000_000,
+    ConsensusCreateTopic: 1_000_000,
+    ConsensusSubmitMessage: 10_000,
+  };
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  const randomHex = (bytes: number): string => {
+    const buffer = new Uint8Array(bytes);
+    crypto.getRandomValues(buffer);
+    return Array.from(buffer, (b) => b.toString(16).padStart(2, '0')).join('');
+  };
+
+  // Deterministic stand-in for SHA-384 (FNV-1a over several seeds)
+  const mockHash = (input: string, bytes: number): string => {
+    let out = '';
+    for (let seed = 0; out.length < bytes * 2; seed++) {
+      let hash = 0x811c9dc5 ^ seed;
+      for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+      out += hash.toString(16).padStart(8, '0');
+    }
+    return out.slice(0, bytes * 2);
+  };
+
+  const nextTimestamp = (): { seconds: number; nanos: number } => {
+    const now = Date.now();
+    if (now > state.clockMs) {
+      state.clockMs = now;
+      state.clockSeq = 0;
+    } else {
+      state.clockSeq += 1;
+    }
+    return {
+      seconds: Math.floor(state.clockMs / 1000),
+      nanos: (state.clockMs % 1000) * 1_000_000 + state.clockSeq,
+    };
+  };
+
+  const formatTimestamp = (ts: { seconds: number; nanos: number }) =>
+    `${ts.seconds}.${String(ts.nanos).padStart(9, '0')}`;
+
+  const nextEntityId = () => `0.0.${state.nextEntityNum++}`;
+
+  const entityString = (value: any, label: string): string => {
+    if (value === undefined || value === null) {
+      throw new Error(`${label} is required`);
+    }
+    const text = typeof value === 'string' ? value : String(value);
+    if (!/^\d+\.\d+\.\d+$/.test(text)) {
+      throw new Error(`Invalid ${label}: ${text}`);
+    }
+    return text;
+  };
+
+  const toTinybars = (amount: any): number => {
+    if (amount instanceof Hbar) return amount.toTinybars();
+    const value = Number(amount);
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid HBAR amount: ${String(amount)}`);
+    }
+    return Math.round(value * TINYBARS_PER_HBAR);
+  };
+
+  const publicKeyString = (key: any): string | null => {
+    if (!key) return null;
+    if (key instanceof PrivateKey) return key.publicKey.toStringRaw();
+    if (key instanceof PublicKey) return key.toStringRaw();
+    return String(key);
+  };
+
+  // --------------------------------------------------------------------------
+  // Values
+  // --------------------------------------------------------------------------
+
+  class Status {
+    declare _code: string;
+    constructor(code: string) {
+      this._code = code;
+    }
+    toString() {
+      return this._code;
+    }
+    static _of(code: string): Status {
+      return (Status as any)[codeToName(code)] || new Status(code);
+    }
+  }
+
+  const codeToName = (code: string) =>
+    code.toLowerCase().replace(/(^|_)([a-z])/g, (_m, _s, c: string) => c.toUpperCase());
+
+  [
+    'SUCCESS',
+    'INSUFFICIENT_PAYER_BALANCE',
+    'INSUFFICIENT_ACCOUNT_BALANCE',
+    'INVALID_ACCOUNT_ID',
+    'INVALID_SIGNATURE',
+    'INVALID_ACCOUNT_AMOUNTS',
+    'INVALID_TOKEN_ID',
+    'INVALID_TOPIC_ID',
+    'INVALID_TOPIC_MESSAGE',
+    'MISSING_TOKEN_NAME',
+    'MISSING_TOKEN_SYMBOL',
+    'INVALID_TREASURY_ACCOUNT_FOR_TOKEN',
+    'INVALID_TOKEN_INITIAL_SUPPLY',
+    'INVALID_TOKEN_DECIMALS',
+    'TOKEN_NOT_ASSOCIATED_TO_ACCOUNT',
+    'TOKEN_ALREADY_ASSOCIATED_TO_ACCOUNT',
+    'INSUFFICIENT_TOKEN_BALANCE',
+    'TOKEN_HAS_NO_SUPPLY_KEY',
+    'KEY_REQUIRED',
+  ].forEach((code) => {
+    (Status as any)[codeToName(code)] = new Status(code);
+  });
+
+  class Hbar {
+    declare _tinybars: number;
+    constructor(amount: number | string) {
+      this._tinybars = Math.round(Number(amount) * TINYBARS_PER_HBAR);
+    }
+    static fromTinybars(tinybars: number | string) {
+      const hbar = new Hbar(0);
+      hbar._tinybars = Math.round(Number(tinybars));
+      return hbar;
+    }
+    static from(amount: number | string) {
+      return new Hbar(amount);
+    }
+    toTinybars() {
+      return this._tinybars;
+    }
+    toBigNumber() {
+      return this._tinybars / TINYBARS_PER_HBAR;
+    }
+    negated() {
+      return Hbar.fromTinybars(-this._tinybars);
+    }
+    isNegative() {
+      return this._tinybars < 0;
+    }
+    toString() {
+      return `${this._tinybars / TINYBARS_PER_HBAR} ℏ`;
+    }
+  }
+
+  class EntityId {
+    declare shard: number;
+    declare realm: number;
+    declare num: number;
+    constructor(shardOrNum: number, realm?: number, num?: number) {
+      if (realm === undefined) {
+        this.shard = 0;
+        this.realm = 0;
+        this.num = Number(shardOrNum);
+      } else {
+        this.shard = Number(shardOrNum);
+        this.realm = Number(realm);
+        this.num = Number(num);
+      }
+    }
+    static fromString(this: any, text: string) {
+      const [shard, realm, num] = entityString(text, 'entity ID').split('.').map(Number);
+      return new this(shard, realm, num);
+    }
+    equals(other: any) {
+      return String(other) === this.toString();
+    }
+    toString() {
+      return `${this.shard}.${this.realm}.${this.num}`;
+    }
+  }
+
+  class AccountId extends EntityId {}
+  class TokenId extends EntityId {}
+  class TopicId extends EntityId {}
+
+  class PublicKey {
+    declare _raw: string;
+    constructor(raw: string) {
+      this._raw = raw;
+    }
+    static fromString(text: string) {
+      return new PublicKey(text.replace(/^302a300506032b6570032100/, ''));
+    }
+    toStringRaw() {
+      return this._raw;
+    }
+    toStringDer() {
+      return `302a300506032b6570032100${this._raw}`;
+    }
+    toString() {
+      return this.toStringDer();
+    }
+    equals(other: any) {
+      return other instanceof PublicKey && other._raw === this._raw;
+    }
+  }
+
+  class PrivateKey {
+    declare _raw: string;
+    constructor(raw: string) {
+      this._raw = raw;
+    }
+    static generate() {
+      return new PrivateKey(randomHex(32));
+    }
+    static generateED25519() {
+      return PrivateKey.generate();
+    }
+    static generateECDSA() {
+      return PrivateKey.generate();
+    }
+    static async generateAsync() {
+      return PrivateKey.generate();
+    }
+    static fromString(text: string) {
+      const raw = String(text).replace(/^0x/, '').replace(/^302e020100300506032b657004220420/, '');
+      if (!/^[0-9a-fA-F]{64}$/.test(raw)) {
+        throw new Error('invalid private key length');
+      }
+      return new PrivateKey(raw.toLowerCase());
+    }
+    static fromStringED25519(text: string) {
+      return PrivateKey.fromString(text);
+    }
+    static fromStringECDSA(text: string) {
+      return PrivateKey.fromString(text);
+    }
+    static fromStringDer(text: string) {
+      return PrivateKey.fromString(text);
+    }
+    get publicKey() {
+      return new PublicKey(mockHash(`public:${this._raw}`, 32));
+    }
+    sign(message: Uint8Array | string) {
+      const text = typeof message === 'string' ? message : Array.from(message).join(',');
+      return mockHash(`${this._raw}:${text}`, 64);
+    }
+    toStringRaw() {
+      return this._raw;
+    }
+    toStringDer() {
+      return `302e020100300506032b657004220420${this._raw}`;
+    }
+    toString() {
+      return this.toStringDer();
+    }
+  }
+
+  class TransactionId {
+    declare accountId: AccountId;
+    declare validStart: { seconds: number; nanos: number };
+    constructor(accountId: AccountId, validStart: { seconds: number; nanos: number }) {
+      this.accountId = accountId;
+      this.validStart = validStart;
+    }
+    static generate(accountId: AccountId | string) {
+      const id = typeof accountId === 'string' ? AccountId.fromString(accountId) : accountId;
+      return new TransactionId(id, nextTimestamp());
+    }
+    toString() {
+      return `${this.accountId.toString()}@${formatTimestamp(this.validStart)}`;
+    }
+  }
+
+  class ReceiptStatusError extends Error {
+    declare status: Status;
+    declare transactionId: TransactionId;
+    declare transactionReceipt: TransactionReceipt;
+    constructor(receipt: TransactionReceipt, transactionId: TransactionId) {
+      super(`receipt for transaction ${transactionId.toString()} contained error status ${receipt.status.toString()}`);
+      this.name = 'ReceiptStatusError';
+      this.status = receipt.status;
+      this.transactionId = transactionId;
+      this.transactionReceipt = receipt;
+    }
+  }
+
+  class TransactionReceipt {
+    declare status: Status;
+    declare accountId: AccountId | null;
+    declare tokenId: TokenId | null;
+    declare topicId: TopicId | null;
+    declare topicSequenceNumber: number | null;
+    declare topicRunningHash: string | null;
+    declare totalSupply: number | null;
+    declare serials: number[];
+    constructor(fields: Partial<TransactionReceipt> & { status: Status }) {
+      this.status = fields.status;
+      this.accountId = fields.accountId || null;
+      this.tokenId = fields.tokenId || null;
+      this.topicId = fields.topicId || null;
+      this.topicSequenceNumber = fields.topicSequenceNumber ?? null;
+      this.topicRunningHash = fields.topicRunningHash ?? null;
+      this.totalSupply = fields.totalSupply ?? null;
+      this.serials = fields.serials || [];
+    }
+  }
+
+  class TransactionRecord {
+    declare transactionId: TransactionId;
+    declare receipt: TransactionReceipt;
+    declare consensusTimestamp: string;
+    declare transactionFee: Hbar;
+    declare transactionMemo: string;
+    declare transfers: { accountId: AccountId; amount: Hbar }[];
+    constructor(record: MockTransactionRecord, transactionId: TransactionId, receipt: TransactionReceipt) {
+      this.transactionId = transactionId;
+      this.receipt = receipt;
+      this.consensusTimestamp = record.consensusTimestamp;
+      this.transactionFee = Hbar.fromTinybars(record.fee);
+      this.transactionMemo = record.memo;
+      this.transfers = record.transfers.map((t) => ({
+        accountId: AccountId.fromString(t.accountId),
+        amount: Hbar.fromTinybars(t.amount),
+      }));
+    }
+  }
+
+  class TransactionResponse {
+    declare transactionId: TransactionId;
+    declare _receipt: TransactionReceipt;
+    declare _record: MockTransactionRecord;
+    constructor(transactionId: TransactionId, receipt: TransactionReceipt, record: MockTransactionRecord) {
+      this.transactionId = transactionId;
+      this._receipt = receipt;
+      this._record = record;
+    }
+    async getReceipt(_client?: Client) {
+      if (this._receipt.status.toString() !== 'SUCCESS') {
+        throw new ReceiptStatusError(this._receipt, this.transactionId);
+      }
+      return this._receipt;
+    }
+    async getRecord(client?: Client) {
+      const receipt = await this.getReceipt(client);
+      return new TransactionRecord(this._record, this.transactionId, receipt);
+    }
+    toString() {
+      return this.transactionId.toString();
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Client
+  // --------------------------------------------------------------------------
+
+  class Client {
+    declare network: string;
+    declare _operatorAccountId: AccountId | null;
+    declare _operatorKey: PrivateKey | null;
+    constructor(network: string) {
+      this.network = network;
+      this._operatorAccountId = null;
+      this._operatorKey = null;
+    }
+    static forTestnet() {
+      return new Client('testnet');
+    }
+    static forMainnet() {
+      return new Client('mainnet');
+    }
+    static forPreviewnet() {
+      return new Client('previewnet');
+    }
+    static forName(name: string) {
+      return new Client(name);
+    }
+    static forLocalNode() {
+      return new Client('local-node');
+    }
+    setOperator(accountId: AccountId | string, privateKey: PrivateKey | string) {
+      const id = typeof accountId === 'string' ? AccountId.fromString(accountId) : accountId;
+      const key = typeof privateKey === 'string' ? PrivateKey.fromString(privateKey) : privateKey;
+      this._operatorAccountId = id;
+      this._operatorKey = key;
+
+      // Operators are trusted in the playground: fund them on first use and
+      // let later runs re-key them with a freshly generated key
+      const existing = state.accounts[id.toString()];
+      if (!existing) {
+        state.accounts[id.toString()] = {
+          balance: STARTING_BALANCE,
+          key: key.publicKey.toStringRaw(),
+          memo: 'playground operator',
+          isOperator: true,
+          tokens: {},
+        };
+      } else if (existing.isOperator) {
+        existing.key = key.publicKey.toStringRaw();
+      }
+      return this;
+    }
+    get operatorAccountId() {
+      return this._operatorAccountId;
+    }
+    get operatorPublicKey() {
+      return this._operatorKey ? this._operatorKey.publicKey : null;
+    }
+    setDefaultMaxTransactionFee() {
+      return this;
+    }
+    setRequestTimeout() {
+      return this;
+    }
+    close() {
+      // Nothing to release
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Transactions
+  // --------------------------------------------------------------------------
+
+  type ApplyContext = {
+    payer: string;
+    signers: string[];
+    timestamp: string;
+    record: MockTransactionRecord;
+  };
+
+  class TransactionFailure {
+    declare code: string;
+    constructor(code: string) {
+      this.code = code;
+    }
+  }
+
+  const fail = (code: string): never => {
+    throw new TransactionFailure(code);
+  };
+
+  const requireAccount = (id: string): MockAccountState =>
+    state.accounts[id] || fail('INVALID_ACCOUNT_ID');
+
+  const requireSignature = (ctx: ApplyContext, key: string | null) => {
+    if (key && !ctx.signers.includes(key)) fail('INVALID_SIGNATURE');
+  };
+
+  const moveHbar = (record: MockTransactionRecord, accountId: string, amount: number) => {
+    state.accounts[accountId].balance += amount;
+    const existing = record.transfers.find((t) => t.accountId === accountId);
+    if (existing) {
+      existing.amount += amount;
+    } else {
+      record.transfers.push({ accountId, amount });
+    }
+  };
+
+  class Transaction {
+    declare _type: string;
+    declare _memo: string;
+    declare _signers: string[];
+    declare _transactionId: TransactionId | null;
+    constructor(type: string) {
+      this._type = type;
+      this._memo = '';
+      this._signers = [];
+      this._transactionId = null;
+    }
+    setTransactionMemo(memo: string) {
+      this._memo = String(memo);
+      return this;
+    }
+    setMaxTransactionFee() {
+      return this;
+    }
+    setTransactionId(transactionId: TransactionId) {
+      this._transactionId = transactionId;
+      return this;
+    }
+    get transactionId() {
+      return this._transactionId;
+    }
+    freezeWith(client: Client) {
+      if (!this._transactionId && client && client.operatorAccountId) {
+        this._transactionId = TransactionId.generate(client.operatorAccountId);
+      }
+      return this;
+    }
+    freeze() {
+      return this;
+    }
+    async sign(privateKey: PrivateKey) {
+      this._signers.push(privateKey.publicKey.toStringRaw());
+      return this;
+    }
+    async signWithOperator(client: Client) {
+      if (client._operatorKey) this._signers.push(client._operatorKey.publicKey.toStringRaw());
+      return this;
+    }
+    _apply(_ctx: ApplyContext): Partial<TransactionReceipt> {
+      return {};
+    }
+    async execute(client: Client) {
+      if (!client || !(client instanceof Client)) {
+        throw new Error('execute() requires a Client');
+      }
+      if (!client.operatorAccountId || !client._operatorKey) {
+        throw new Error('`client` must have an `operator` or `transactionId` must be set');
+      }
+
+      const transactionId = this._transactionId || TransactionId.generate(client.operatorAccountId);
+      const payer = transactionId.accountId.toString();
+      const payerAccount = state.accounts[payer];
+      const fee = FEES[this._type] || 0;
+
+      // Precheck failures throw immediately, like the real SDK
+      if (!payerAccount) {
+        throw new Error(`transaction ${transactionId.toString()} failed precheck with status INVALID_ACCOUNT_ID`);
+      }
+      if (payerAccount.key && payerAccount.key !== client._operatorKey.publicKey.toStringRaw()) {
+        throw new Error(`transaction ${transactionId.toString()} failed precheck with status INVALID_SIGNATURE`);
+      }
+      if (payerAccount.balance < fee) {
+        throw new Error(`transaction ${transactionId.toString()} failed precheck with status INSUFFICIENT_PAYER_BALANCE`);
+      }
+
+      const record: MockTransactionRecord = {
+        transactionId: transactionId.toString(),
+        type: this._type,
+        status: 'SUCCESS',
+        consensusTimestamp: formatTimestamp(nextTimestamp()),
+        fee,
+        memo: this._memo,
+        transfers: [],
+      };
+
+      moveHbar(record, payer, -fee);
+
+      const ctx: ApplyContext = {
+        payer,
+        signers: [client._operatorKey.publicKey.toStringRaw(), ...this._signers],
+        timestamp: record.consensusTimestamp,
+        record,
+      };
+
+      // Apply against a snapshot so a failed transaction leaves no partial effects
+      const snapshot = JSON.stringify({ accounts: state.accounts, tokens: state.tokens, topics: state.topics });
+      let fields: Partial<TransactionReceipt> = {};
+      try {
+        fields = this._apply(ctx);
+      } catch (err) {
+        if (!(err instanceof TransactionFailure)) throw err;
+        const restored = JSON.parse(snapshot);
+        state.accounts = restored.accounts;
+        state.tokens = restored.tokens;
+        state.topics = restored.topics;
+        record.status = err.code;
+        record.transfers = [{ accountId: payer, amount: -fee }];
+        fields = {};
+      }
+
+      const entity = fields.accountId || fields.tokenId || fields.topicId;
+      if (entity) record.entityId = entity.toString();
+
+      state.transactions.unshift(record);
+      state.transactions.length = Math.min(state.transactions.length, MAX_RECORDS);
+
+      const receipt = new TransactionReceipt({ ...fields, status: Status._of(record.status) });
+      return new TransactionResponse(transactionId, receipt, record);
+    }
+  }
+
+  class AccountCreateTransaction extends Transaction {
+    declare _key: string | null;
+    declare _initialBalance: number;
+    declare _accountMemo: string;
+    constructor() {
+      super('CryptoCreate');
+      this._key = null;
+      this._initialBalance = 0;
+      this._accountMemo = '';
+    }
+    setKey(key: PrivateKey | PublicKey) {
+      this._key = publicKeyString(key);
+      return this;
+    }
+    setKeyWithoutAlias(key: PrivateKey | PublicKey) {
+      return this.setKey(key);
+    }
+    setInitialBalance(amount: Hbar | number) {
+      this._initialBalance = toTinybars(amount);
+      return this;
+    }
+    setAccountMemo(memo: string) {
+      this._accountMemo = String(memo);
+      return this;
+    }
+    setMaxAutomaticTokenAssociations() {
+      return this;
+    }
+    _apply(ctx: ApplyContext) {
+      if (!this._key) fail('KEY_REQUIRED');
+      if (this._initialBalance < 0) fail('INVALID_ACCOUNT_AMOUNTS');
+      if (state.accounts[ctx.payer].balance < this._initialBalance) fail('INSUFFICIENT_PAYER_BALANCE');
+
+      const accountId = nextEntityId();
+      state.accounts[accountId] = {
+        balance: 0,
+        key: this._key,
+        memo: this._accountMemo,
+        isOperator: false,
+        tokens: {},
+      };
+      moveHbar(ctx.record, ctx.payer, -this._initialBalance);
+      moveHbar(ctx.record, accountId, this._initialBalance);
+      return { accountId: AccountId.fromString(accountId) };
+    }
+  }
+
+  class TransferTransaction extends Transaction {
+    declare _hbarTransfers: { accountId: string; amount: number }[];
+    declare _tokenTransfers: { tokenId: string; accountId: string; amount: number }[];
+    constructor() {
+      super('CryptoTransfer');
+      this._hbarTransfers = [];
+      this._tokenTransfers = [];
+    }
+    addHbarTransfer(accountId: AccountId | string, amount: Hbar | number) {
+      this._hbarTransfers.push({ accountId: entityString(accountId, 'account ID'), amount: toTinybars(amount) });
+      return this;
+    }
+    addTokenTransfer(tokenId: TokenId | string, accountId: AccountId | string, amount: number) {
+      this._tokenTransfers.push({
+        tokenId: entityString(tokenId, 'token ID'),
+        accountId: entityString(accountId, 'account ID'),
+        amount: Math.round(Number(amount)),
+      });
+      return this;
+    }
+    get hbarTransfers() {
+      const map = new Map<string, Hbar>();
+      this._hbarTransfers.forEach((t) => map.set(t.accountId, Hbar.fromTinybars(t.amount)));
+      return map;
+    }
+    _apply(ctx: ApplyContext) {
+      if (this._hbarTransfers.length === 0 && this._tokenTransfers.length === 0) fail('INVALID_ACCOUNT_AMOUNTS');
+
+      const hbarSum = this._hbarTransfers.reduce((sum, t) => sum + t.amount, 0);
+      if (hbarSum !== 0) fail('INVALID_ACCOUNT_AMOUNTS');
+
+      for (const transfer of this._hbarTransfers) {
+        const account = requireAccount(transfer.accountId);
+        if (transfer.amount < 0) {
+          requireSignature(ctx, account.key);
+          if (account.balance + transfer.amount < 0) fail('INSUFFICIENT_ACCOUNT_BALANCE');
+        }
+      }
+
+      const tokenSums: Record<string, number> = {};
+      for (const transfer of this._tokenTransfers) {
+        if (!state.tokens[transfer.tokenId]) fail('INVALID_TOKEN_ID');
+        const account = requireAccount(transfer.accountId);
+        if (!(transfer.tokenId in account.tokens)) fail('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT');
+        if (transfer.amount < 0) {
+          requireSignature(ctx, account.key);
+          if (account.tokens[transfer.tokenId] + transfer.amount < 0) fail('INSUFFICIENT_TOKEN_BALANCE');
+        }
+        tokenSums[transfer.tokenId] = (tokenSums[transfer.tokenId] || 0) + transfer.amount;
+      }
+      if (Object.values(tokenSums).some((sum) => sum !== 0)) fail('INVALID_ACCOUNT_AMOUNTS');
+
+      this._hbarTransfers.forEach((t) => moveHbar(ctx.record, t.accountId, t.amount));
+      this._tokenTransfers.forEach((t) => {
+        state.accounts[t.accountId].tokens[t.tokenId] += t.amount;
+      });
+      return {};
+    }
+  }
+
+  class TokenCreateTransaction extends Transaction {
+    declare _name: string;
+    declare _symbol: string;
+    declare _decimals: number;
+    declare _initialSupply: number;
+    declare _treasury: string | null;
+    declare _tokenType: string;
+    declare _supplyKey: string | null;
+    declare _adminKey: string | null;
+    constructor() {
+      super('TokenCreate');
+      this._name = '';
+      this._symbol = '';
+      this._decimals = 0;
+      this._initialSupply = 0;
+      this._treasury = null;
+      this._tokenType = 'FUNGIBLE_COMMON';
+      this._supplyKey = null;
+      this._adminKey = null;
+    }
+    setTokenName(name: string) {
+      this._name = String(name);
+      return this;
+    }
+    setTokenSymbol(symbol: string) {
+      this._symbol = String(symbol);
+      return this;
+    }
+    setDecimals(decimals: number) {
+      this._decimals = Number(decimals);
+      return this;
+    }
+    setInitialSupply(supply: number) {
+      this._initialSupply = Number(supply);
+      return this;
+    }
+    setTreasuryAccountId(accountId: AccountId | string) {
+      this._treasury = entityString(accountId, 'treasury account ID');
+      return this;
+    }
+    setTokenType(type: any) {
+      this._tokenType = String(type);
+      return this;
+    }
+    setAdminKey(key: PrivateKey | PublicKey) {
+      this._adminKey = publicKeyString(key);
+      return this;
+    }
+    setSupplyKey(key: PrivateKey | PublicKey) {
+      this._supplyKey = publicKeyString(key);
+      return this;
+    }
+    setSupplyType() {
+      return this;
+    }
+    setMaxSupply() {
+      return this;
+    }
+    setTokenMemo() {
+      return this;
+    }
+    setFreezeDefault() {
+      return this;
+    }
+    _apply(ctx: ApplyContext) {
+      if (!this._name) fail('MISSING_TOKEN_NAME');
+      if (!this._symbol) fail('MISSING_TOKEN_SYMBOL');
+      if (!this._treasury || !state.accounts[this._treasury]) fail('INVALID_TREASURY_ACCOUNT_FOR_TOKEN');
+      if (!Number.isInteger(this._decimals) || this._decimals < 0) fail('INVALID_TOKEN_DECIMALS');
+      if (!Number.isInteger(this._initialSupply) || this._initialSupply < 0) fail('INVALID_TOKEN_INITIAL_SUPPLY');
+      if (this._tokenType === 'NON_FUNGIBLE_UNIQUE' && (this._initialSupply !== 0 || this._decimals !== 0)) {
+        fail('INVALID_TOKEN_INITIAL_SUPPLY');
+      }
+
+      const treasury = state.accounts[this._treasury!];
+      requireSignature(ctx, treasury.key);
+      if (this._adminKey) requireSignature(ctx, this._adminKey);
+
+      const tokenId = nextEntityId();
+      state.tokens[tokenId] = {
+        name: this._name,
+        symbol: this._symbol,
+        decimals: this._decimals,
+        totalSupply: this._initialSupply,
+        treasury: this._treasury!,
+        type: this._tokenType === 'NON_FUNGIBLE_UNIQUE' ? 'NON_FUNGIBLE_UNIQUE' : 'FUNGIBLE_COMMON',
+        supplyKey: this._supplyKey,
+      };
+      treasury.tokens[tokenId] = this._initialSupply;
+      return { tokenId: TokenId.fromString(tokenId), totalSupply: this._initialSupply };
+    }
+  }
+
+  class TokenAssociateTransaction extends Transaction {
+    declare _accountId: string | null;
+    declare _tokenIds: string[];
+    constructor() {
+      super('TokenAssociate');
+      this._accountId = null;
+      this._tokenIds = [];
+    }
+    setAccountId(accountId: AccountId | string) {
+      this._accountId = entityString(accountId, 'account ID');
+      return this;
+    }
+    setTokenIds(tokenIds: (TokenId | string)[]) {
+      this._tokenIds = tokenIds.map((id) => entityString(id, 'token ID'));
+      return this;
+    }
+    _apply(ctx: ApplyContext) {
+      const account = requireAccount(this._accountId || '');
+      requireSignature(ctx, account.key);
+      for (const tokenId of this._tokenIds) {
+        if (!state.tokens[tokenId]) fail('INVALID_TOKEN_ID');
+        if (tokenId in account.tokens) fail('TOKEN_ALREADY_ASSOCIATED_TO_ACCOUNT');
+        account.tokens[tokenId] = 0;
+      }
+      return {};
+    }
+  }
+
+  class TokenMintTransaction extends Transaction {
+    declare _tokenId: string | null;
+    declare _amount: number;
+    declare _metadata: string[];
+    constructor() {
+      super('TokenMint');
+      this._tokenId = null;
+      this._amount = 0;
+      this._metadata = [];
+    }
+    setTokenId(tokenId: TokenId | string) {
+      this._tokenId = entityString(tokenId, 'token ID');
+      return this;
+    }
+    setAmount(amount: number) {
+      this._amount = Math.round(Number(amount));
+      return this;
+    }
+    setMetadata(metadata: (Uint8Array | string)[]) {
+      this._metadata = metadata.map((m) => (typeof m === 'string' ? m : new TextDecoder().decode(m)));
+      return this;
+    }
+    addMetadata(metadata: Uint8Array | string) {
+      this._metadata.push(typeof metadata === 'string' ? metadata : new TextDecoder().decode(metadata));
+      return this;
+    }
+    _apply(ctx: ApplyContext) {
+      const token = state.tokens[this._tokenId || ''] || fail('INVALID_TOKEN_ID');
+      if (!token.supplyKey) fail('TOKEN_HAS_NO_SUPPLY_KEY');
+      requireSignature(ctx, token.supplyKey);
+
+      const minted = token.type === 'NON_FUNGIBLE_UNIQUE' ? this._metadata.length : this._amount;
+      if (minted <= 0) fail('INVALID_TOKEN_INITIAL_SUPPLY');
+
+      const firstSerial = token.totalSupply + 1;
+      token.totalSupply += minted;
+      state.accounts[token.treasury].tokens[this._tokenId!] += minted;
+
+      const serials = token.type === 'NON_FUNGIBLE_UNIQUE'
+        ? this._metadata.map((_m, i) => firstSerial + i)
+        : [];
+      return { totalSupply: token.totalSupply, serials };
+    }
+  }
+
+  class TopicCreateTransaction extends Transaction {
+    declare _topicMemo: string;
+    declare _submitKey: string | null;
+    constructor() {
+      super('ConsensusCreateTopic');
+      this._topicMemo = '';
+      this._submitKey = null;
+    }
+    setTopicMemo(memo: string) {
+      this._topicMemo = String(memo);
+      return this;
+    }
+    setSubmitKey(key: PrivateKey | PublicKey) {
+      this._submitKey = publicKeyString(key);
+      return this;
+    }
+    setAdminKey() {
+      return this;
+    }
+    _apply(_ctx: ApplyContext) {
+      const topicId = nextEntityId();
+      state.topics[topicId] = {
+        memo: this._topicMemo,
+        submitKey: this._submitKey,
+        sequenceNumber: 0,
+        runningHash: '0'.repeat(96),
+        messages: [],
+      };
+      return { topicId: TopicId.fromString(topicId) };
+    }
+  }
+
+  class TopicMessageSubmitTransaction extends Transaction {
+    declare _topicId: string | null;
+    declare _message: string;
+    constructor() {
+      super('ConsensusSubmitMessage');
+      this._topicId = null;
+      this._message = '';
+    }
+    setTopicId(topicId: TopicId | string) {
+      this._topicId = entityString(topicId, 'topic ID');
+      return this;
+    }
+    setMessage(message: Uint8Array | string) {
+      this._message = typeof message === 'string' ? message : new TextDecoder().decode(message);
+      return this;
+    }
+    _apply(ctx: ApplyContext) {
+      const topic = state.topics[this._topicId || ''] || fail('INVALID_TOPIC_ID');
+      if (!this._message) fail('INVALID_TOPIC_MESSAGE');
+      requireSignature(ctx, topic.submitKey);
+
+      topic.sequenceNumber += 1;
+      topic.runningHash = mockHash(
+        `${topic.runningHash}:${this._topicId}:${topic.sequenceNumber}:${ctx.timestamp}:${this._message}`,
+        48
+      );
+      topic.messages.push({
+        sequenceNumber: topic.sequenceNumber,
+        message: this._message,
+        consensusTimestamp: ctx.timestamp,
+      });
+      if (topic.messages.length > MAX_RECORDS) topic.messages.shift();
+      return {
+        topicId: TopicId.fromString(this._topicId!),
+        topicSequenceNumber: topic.sequenceNumber,
+        topicRunningHash: topic.runningHash,
+      };
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  class AccountBalance {
+    declare hbars: Hbar;
+    declare tokens: Map<string, number>;
+    constructor(account: MockAccountState) {
+      this.hbars = Hbar.fromTinybars(account.balance);
+      this.tokens = new Map(Object.entries(account.tokens));
+    }
+    toString() {
+      return JSON.stringify({
+        hbars: this.hbars.toString(),
+        tokens: Object.fromEntries(this.tokens),
+      });
+    }
+  }
+
+  class AccountBalanceQuery {
+    declare _accountId: string | null;
+    constructor() {
+      this._accountId = null;
+    }
+    setAccountId(accountId: AccountId | string) {
+      this._accountId = entityString(accountId, 'account ID');
+      return this;
+    }
+    async execute(_client: Client) {
+      const account = state.accounts[this._accountId || ''];
+      if (!account) {
+        throw new Error('failed precheck with status INVALID_ACCOUNT_ID');
+      }
+      return new AccountBalance(account);
+    }
+  }
+
+  class AccountInfoQuery {
+    declare _accountId: string | null;
+    constructor() {
+      this._accountId = null;
+    }
+    setAccountId(accountId: AccountId | string) {
+      this._accountId = entityString(accountId, 'account ID');
+      return this;
+    }
+    async execute(_client: Client) {
+      const account = state.accounts[this._accountId || ''];
+      if (!account) {
+        throw new Error('failed precheck with status INVALID_ACCOUNT_ID');
+      }
+      return {
+        accountId: AccountId.fromString(this._accountId!),
+        balance: Hbar.fromTinybars(account.balance),
+        key: account.key ? new PublicKey(account.key) : null,
+        accountMemo: account.memo,
+      };
+    }
+  }
+
+  const TokenType = {
+    FungibleCommon: 'FUNGIBLE_COMMON',
+    NonFungibleUnique: 'NON_FUNGIBLE_UNIQUE',
+  };
+
+  const TokenSupplyType = {
+    Infinite: 'INFINITE',
+    Finite: 'FINITE',
+  };
+
+  const sdk = {
+    Client,
+    AccountId,
+    TokenId,
+    TopicId,
+    PrivateKey,
+    PublicKey,
+    Hbar,
+    Status,
+    TransactionId,
+    TransactionReceipt,
+    TransactionResponse,
+    ReceiptStatusError,
+    AccountCreateTransaction,
+    TransferTransaction,
+    TokenCreateTransaction,
+    TokenAssociateTransaction,
+    TokenMintTransaction,
+    TopicCreateTransaction,
+    TopicMessageSubmitTransaction,
+    AccountBalanceQuery,
+    AccountInfoQuery,
+    TokenType,
+    TokenSupplyType,
+  };
+
+  return {
+    exports: { ...sdk, default: sdk },
+    getState: () => state,
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the sandbox module for `@hashgraph/sdk`
+ *
+ * @param state - Network state from a previous run, to keep balances and
+ *   entity IDs across runs. Omit to start from an empty network.
+ *
+ * @example
+ * ```typescript
+ * const result = await runInSandbox(code, { modules: [createMockHederaModule(network)] });
+ * setNetwork(result.moduleStates[MOCK_HEDERA_MODULE_NAME] as MockNetworkState);
+ * ```
+ */
+export function createMockHederaModule(state?: MockNetworkState): SandboxModule {
+  return {
+    name: MOCK_HEDERA_MODULE_NAME,
+    factory: mockHederaSdkFactory.toString(),
+    state: state ?? null,
+  };
+}
+
+/**
+ * Format a tinybar amount as HBAR for display
+ */
+export function formatTinybars(tinybars: number): string {
+  return `${(tinybars / 100_000_000).toLocaleString(undefined, { maximumFractionDigits: 8 })} ℏ`;
+}
+
@@ -0,0 +1,239 @@
+/**
+ * Code Playground Templates
+ *
+ * Loadable starting points for the Code Playground. Each one runs as-is
+ * against the mock Hedera SDK, and later templates build on accounts and
+ * balances left behind by earlier runs.
+ */
+
+export interface PlaygroundExample {
+  id: string;
+  name: string;
+  description: string;
+  code: string;
+}
+
+const OPERATOR_SETUP = `// The playground network funds any operator account on first use,
+// so no real keys are needed here
+const operatorId = "0.0.2";
+const operatorKey = PrivateKey.generate();
+const client = Client.forTestnet().setOperator(operatorId, operatorKey);`;
+
+export const PLAYGROUND_EXAMPLES: PlaygroundExample[] = [
+  {
+    id: 'create-account',
+    name: 'Create Account',
+    description: 'Generate a key pair and open a funded account',
+    code: `const { Client, AccountCreateTransaction, Hbar, PrivateKey } = require("@hashgraph/sdk");
+
+${OPERATOR_SETUP}
+
+async function createAccount() {
+  // Generate new key pair
+  const newAccountPrivateKey = PrivateKey.generate();
+  const newAccountPublicKey = newAccountPrivateKey.publicKey;
+
+  // Create new account with 10 HBAR
+  const response = await new AccountCreateTransaction()
+    .setKey(newAccountPublicKey)
+    .setInitialBalance(new Hbar(10))
+    .execute(client);
+
+  const receipt = await response.getReceipt(client);
+  const newAccountId = receipt.accountId;
+
+  console.log("Transaction ID:", response.transactionId.toString());
+  console.log("Status:", receipt.status.toString());
+  console.log("New account ID:", newAccountId.toString());
+
+  return newAccountId;
+}
+
+await createAccount();`,
+  },
+  {
+    id: 'transfer-hbar',
+    name: 'Transfer HBAR',
+    description: 'Move HBAR and check both balances',
+    code: `const {
+  Client,
+  AccountCreateTransaction,
+  AccountBalanceQuery,
+  TransferTransaction,
+  Hbar,
+  PrivateKey,
+} = require("@hashgraph/sdk");
+
+${OPERATOR_SETUP}
+
+// Create a receiver to send HBAR to
+const receiverKey = PrivateKey.generate();
+const createReceipt = await (
+  await new AccountCreateTransaction()
+    .setKey(receiverKey.publicKey)
+    .execute(client)
+).getReceipt(client);
+const receiverId = createReceipt.accountId;
+
+// Debits and credits must sum to zero
+const transfer = await new TransferTransaction()
+  .addHbarTransfer(operatorId, new Hbar(-5))
+  .addHbarTransfer(receiverId, new Hbar(5))
+  .setTransactionMemo("Playground transfer")
+  .execute(client);
+
+const receipt = await transfer.getReceipt(client);
+console.log("Transfer status:", receipt.status.toString());
+console.log("Transaction ID:", transfer.transactionId.toString());
+
+const record = await transfer.getRecord(client);
+console.log("Fee paid:", record.transactionFee.toString());
+
+for (const accountId of [operatorId, receiverId]) {
+  const balance = await new AccountBalanceQuery().setAccountId(accountId).execute(client);
+  console.log(\`\${accountId.toString()} balance:\`, balance.hbars.toString());
+}`,
+  },
+  {
+    id: 'signed-transfer',
+    name: 'Sign as Another Account',
+    description: 'Spend from an account that is not the operator',
+    code: `const {
+  Client,
+  AccountCreateTransaction,
+  TransferTransaction,
+  Hbar,
+  PrivateKey,
+} = require("@hashgraph/sdk");
+
+${OPERATOR_SETUP}
+
+const aliceKey = PrivateKey.generate();
+const aliceId = (
+  await (
+    await new AccountCreateTransaction()
+      .setKey(aliceKey.publicKey)
+      .setInitialBalance(new Hbar(20))
+      .execute(client)
+  ).getReceipt(client)
+).accountId;
+
+// Without Alice's signature the network rejects the debit
+try {
+  const unsigned = await new TransferTransaction()
+    .addHbarTransfer(aliceId, new Hbar(-3))
+    .addHbarTransfer(operatorId, new Hbar(3))
+    .execute(client);
+  await unsigned.getReceipt(client);
+} catch (error) {
+  console.warn("Unsigned transfer failed:", error.status.toString());
+}
+
+// Freeze, sign with Alice's key, then submit
+const transaction = new TransferTransaction()
+  .addHbarTransfer(aliceId, new Hbar(-3))
+  .addHbarTransfer(operatorId, new Hbar(3))
+  .freezeWith(client);
+
+const signed = await transaction.sign(aliceKey);
+const receipt = await (await signed.execute(client)).getReceipt(client);
+console.log("Signed transfer status:", receipt.status.toString());`,
+  },
+  {
+    id: 'submit-hcs-message',
+    name: 'Submit HCS Message',
+    description: 'Create a topic and publish ordered messages',
+    code: `const {
+  Client,
+  TopicCreateTransaction,
+  TopicMessageSubmitTransaction,
+  PrivateKey,
+} = require("@hashgraph/sdk");
+
+${OPERATOR_SETUP}
+
+// Create a public topic (no submit key)
+const topicReceipt = await (
+  await new TopicCreateTransaction()
+    .setTopicMemo("Playground topic")
+    .execute(client)
+).getReceipt(client);
+const topicId = topicReceipt.topicId;
+console.log("Topic ID:", topicId.toString());
+
+// Every message gets the next sequence number and a new running hash
+for (const text of ["Hello Hedera", "Consensus is ordered", "Goodbye"]) {
+  const response = await new TopicMessageSubmitTransaction()
+    .setTopicId(topicId)
+    .setMessage(text)
+    .execute(client);
+
+  const receipt = await response.getReceipt(client);
+  console.log(
+    \`#\${receipt.topicSequenceNumber}\`,
+    text,
+    "-> running hash",
+    receipt.topicRunningHash.slice(0, 16) + "..."
+  );
+}`,
+  },
+  {
+    id: 'create-token',
+    name: 'Create Token',
+    description: 'Issue a fungible token and send some to a friend',
+    code: `const {
+  Client,
+  AccountCreateTransaction,
+  AccountBalanceQuery,
+  TokenAssociateTransaction,
+  TokenCreateTransaction,
+  TokenType,
+  TransferTransaction,
+  Hbar,
+  PrivateKey,
+} = require("@hashgraph/sdk");
+
+${OPERATOR_SETUP}
+
+// Create a fungible token with the operator as treasury
+const tokenReceipt = await (
+  await new TokenCreateTransaction()
+    .setTokenName("MyToken")
+    .setTokenSymbol("MTK")
+    .setTokenType(TokenType.FungibleCommon)
+    .setDecimals(2)
+    .setInitialSupply(1000000)
+    .setTreasuryAccountId(operatorId)
+    .execute(client)
+).getReceipt(client);
+const tokenId = tokenReceipt.tokenId;
+console.log("Token ID:", tokenId.toString());
+
+// The receiver must associate the token before it can hold it
+const friendKey = PrivateKey.generate();
+const friendId = (
+  await (
+    await new AccountCreateTransaction()
+      .setKey(friendKey.publicKey)
+      .setInitialBalance(new Hbar(5))
+      .execute(client)
+  ).getReceipt(client)
+).accountId;
+
+const associate = await new TokenAssociateTransaction()
+  .setAccountId(friendId)
+  .setTokenIds([tokenId])
+  .freezeWith(client)
+  .sign(friendKey);
+await (await associate.execute(client)).getReceipt(client);
+
+const transfer = await new TransferTransaction()
+  .addTokenTransfer(tokenId, operatorId, -2500)
+  .addTokenTransfer(tokenId, friendId, 2500)
+  .execute(client);
+console.log("Token transfer:", (await transfer.getReceipt(client)).status.toString());
+
+const balance = await new AccountBalanceQuery().setAccountId(friendId).execute(client);
+console.log("Friend holds:", balance.tokens.get(tokenId.toString()), "units (25.00 MTK)");`,
+  },
+];
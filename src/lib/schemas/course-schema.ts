@@ -160,8 +160,8 @@ export const CodeEditorLessonContentSchema = z.object({
   tests: z.array(
     z.object({
       name: z.string(), // Test name (e.g., "Should return correct balance")
-      assertion: z.string(), // What to test
-      expected: z.any(), // Expected result
+      assertion: z.string(), // JS expression evaluated against the learner's code (e.g. "add(2, 3)")
+      expected: z.any(), // Value the assertion must deep-equal (omit when the assertion is boolean)
     })
   ).min(1).max(5), // 1-5 automated tests
   hints: z.array(z.string()).min(2).max(5), // Step-by-step hints
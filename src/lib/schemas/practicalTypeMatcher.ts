@@ -60,6 +60,18 @@ const PRACTICAL_TYPE_ALIASES: Record<string, string[]> = {
     'topic_message',
   ],
 
+  // HCS topic workshop variations
+  hcs_topics: [
+    'hcs_topics',
+    'hcs_topic',
+    'create_topic',
+    'topic_creation',
+    'hcs_workshop',
+    'topic_workshop',
+    'hcs_verification',
+    'message_verification',
+  ],
+
   // DeFi variations
   defi: [
     'defi',
@@ -25,9 +25,6 @@ import type {
   UserAchievement,
   UserStreak,
   LeaderboardCache,
-  Discussion,
-  DiscussionFilters,
-  Reply,
   DiscussionVote,
   FaucetRequest,
   Transaction,
@@ -409,42 +406,6 @@ export async function getUserLessonCompletions(
   }
 }
 
-/**
- * Mark a lesson as completed
- *
- * @param userId - The user's UUID
- * @param lessonId - The lesson UUID
- * @param courseId - The course ID
- * @param score - Optional quiz score (0-100)
- * @returns The created completion record
- */
-export async function completLesson(
-  userId: UUID,
-  lessonId: UUID,
-  courseId: string,
-  score?: number
-): Promise<LessonCompletion> {
-  try {
-    const { data, error } = await table('lesson_completions')
-      .insert({
-        user_id: userId,
-        lesson_id: lessonId,
-        course_id: courseId,
-        score: score || null,
-        completed_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-    if (!data) throw new Error('Failed to complete lesson');
-
-    return data;
-  } catch (error) {
-    throw handleSupabaseError(error);
-  }
-}
-
 // ============================================================================
 // ACHIEVEMENT OPERATIONS
 // ============================================================================
@@ -518,61 +479,6 @@ export async function getUserStreak(userId: UUID): Promise<UserStreak | null> {
   }
 }
 
-// ============================================================================
-// DISCUSSION OPERATIONS
-// ============================================================================
-
-/**
- * Get discussions with optional filtering
- *
- * @param filters - Optional filters (courseId, search, sortBy)
- * @returns Array of discussion records
- */
-export async function getDiscussions(filters?: DiscussionFilters): Promise<Discussion[]> {
-  try {
-    let query = table('discussions').select('*');
-
-    if (filters?.courseId) {
-      query = query.eq('course_id', filters.courseId);
-    }
-
-    if (filters?.search) {
-      query = query.or(`title.ilike.%${filters.search}%,content.ilike.%${filters.search}%`);
-    }
-
-    // Default sort by created_at descending
-    const sortBy = filters?.sortBy || 'created_at';
-    query = query.order(sortBy, { ascending: false });
-
-    const { data, error } = await query;
-
-    if (error) throw error;
-    return data || [];
-  } catch (error) {
-    throw handleSupabaseError(error);
-  }
-}
-
-/**
- * Get replies for a discussion
- *
- * @param discussionId - The discussion UUID
- * @returns Array of reply records
- */
-export async function getDiscussionReplies(discussionId: UUID): Promise<Reply[]> {
-  try {
-    const { data, error } = await table('replies')
-      .select('*')
-      .eq('discussion_id', discussionId)
-      .order('created_at', { ascending: true });
-
-    if (error) throw error;
-    return data || [];
-  } catch (error) {
-    throw handleSupabaseError(error);
-  }
-}
-
 // ============================================================================
 // FAUCET OPERATIONS
 // ============================================================================
@@ -81,6 +81,22 @@ export function table<T extends keyof Database['public']['Tables']>(tableName: T
   return supabase.from(tableName);
 }
 
+/**
+ * PostgREST `or()` filter matching a search term in any of the columns
+ *
+ * The term is double-quoted, so commas, dots and parentheses typed by a user
+ * are matched literally instead of changing the filter.
+ *
+ * @example
+ * ```typescript
+ * query.or(ilikeAnyFilter(['title', 'content'], search));
+ * ```
+ */
+export function ilikeAnyFilter(columns: string[], term: string): string {
+  const quoted = `"%${term.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}%"`;
+  return columns.map((column) => `${column}.ilike.${quoted}`).join(',');
+}
+
 /**
  * Check if Supabase client is properly initialized
  */
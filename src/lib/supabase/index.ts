@@ -8,7 +8,7 @@
  */
 
 // Export the client and helper functions
-export { supabase, table, getSession, getCurrentUser, signOut, query, checkConnection, supabaseUtils } from './client';
+export { supabase, table, ilikeAnyFilter, getSession, getCurrentUser, signOut, query, checkConnection, supabaseUtils } from './client';
 
 // Export all types
 export type * from './types';
@@ -54,7 +54,6 @@ export {
 
   // Lesson completion operations
   getUserLessonCompletions,
-  completLesson,
 
   // Achievement operations
   getAchievements,
@@ -63,10 +62,6 @@ export {
   // Streak operations
   getUserStreak,
 
-  // Discussion operations
-  getDiscussions,
-  getDiscussionReplies,
-
   // Faucet operations
   getUserFaucetRequests,
   getLastFaucetRequest,
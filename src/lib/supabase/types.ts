@@ -28,6 +28,7 @@ export type CourseTrack = 'explorer' | 'developer';
 export type CourseDifficulty = 'beginner' | 'intermediate' | 'advanced';
 export type LessonType = 'text' | 'interactive' | 'quiz' | 'practical';
 export type BadgeRarity = 'common' | 'rare' | 'epic' | 'legendary';
+export type BadgeNftStatus = 'claiming' | 'minted' | 'transferred'; // minted = still in the treasury
 export type DiscussionCategory = 'general' | 'course_question' | 'help' | 'showcase';
 export type VoteType = 'upvote' | 'downvote';
 export type TransactionStatus = 'pending' | 'success' | 'failed';
@@ -36,7 +37,13 @@ export type TransactionType =
   | 'practice_transfer'
   | 'nft_mint_certificate'
   | 'nft_mint_badge'
-  | 'token_transfer';
+  | 'token_transfer'
+  | 'contract_deploy'
+  | 'contract_call'
+  | 'hcs_submit'
+  | 'nft_mint_practice'
+  | 'account_create'
+  | 'hcs_topic_create';
 
 // ============================================================================
 // Table: users
@@ -77,6 +84,10 @@ export interface User {
   is_active: boolean;
   is_verified: boolean;
 
+  // Roles
+  is_admin: boolean;
+  is_educator: boolean;
+
   // Privacy Settings
   profile_public: boolean;
   show_on_leaderboard: boolean;
@@ -291,16 +302,34 @@ export interface UserAchievement {
   // Earning Details
   earned_at: Timestamp;
 
-  // NFT Info
+  // NFT Info (set by the mint-badge Edge Function)
   nft_token_id: string | null;
+  nft_serial_number: number | null;
   nft_minted_at: Timestamp | null;
   nft_transaction_id: string | null;
+  nft_metadata_uri: string | null;
+  nft_status: BadgeNftStatus | null;
+  nft_claim_started_at: Timestamp | null;
 
   // Metadata
   created_at: Timestamp;
 }
 
-export type UserAchievementInsert = Omit<UserAchievement, 'id' | 'created_at'>;
+export type UserAchievementInsert = Omit<
+  UserAchievement,
+  'id' | 'created_at' | 'nft_serial_number' | 'nft_metadata_uri' | 'nft_status' | 'nft_claim_started_at'
+>;
+
+// ============================================================================
+// Table: badge_nft_collections
+// ============================================================================
+
+export interface BadgeNftCollection {
+  rarity: BadgeRarity; // One collection per rarity
+  token_id: string;
+  creation_transaction_id: string | null;
+  created_at: Timestamp;
+}
 
 // ============================================================================
 // Table: user_streaks
@@ -428,6 +457,81 @@ export interface DiscussionVote {
 
 export type DiscussionVoteInsert = Omit<DiscussionVote, 'id' | 'created_at'>;
 
+// ============================================================================
+// Table: course_reviews
+// ============================================================================
+
+export interface CourseReview {
+  id: UUID;
+  course_id: string;
+  user_id: UUID;
+
+  // Review
+  rating: number; // 1-5
+  review_text: string | null;
+
+  // Moderation
+  is_hidden: boolean;
+  hidden_reason: string | null;
+  hidden_by: UUID | null;
+  hidden_at: Timestamp | null;
+
+  // Metadata
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+// ============================================================================
+// Table: review_items
+// ============================================================================
+
+export type ReviewItemSource = 'quiz' | 'ai_variant';
+
+export interface ReviewQuestion {
+  question: string;
+  options: string[];
+  correctAnswer: number;
+  explanation: string;
+}
+
+export interface ReviewItem {
+  id: UUID;
+  user_id: UUID;
+  course_id: string;
+  lesson_id: string;
+
+  // Card
+  item_key: string;
+  source: ReviewItemSource;
+  parent_item_id: UUID | null;
+  question_index: number;
+  question: ReviewQuestion;
+
+  // SM-2 State
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date: string; // DATE type
+  last_reviewed_at: Timestamp | null;
+
+  // Metadata
+  created_at: Timestamp;
+}
+
+// ============================================================================
+// Table: review_log
+// ============================================================================
+
+export interface ReviewLogEntry {
+  id: UUID;
+  item_id: UUID;
+  user_id: UUID;
+  quality: number; // 0-5
+  interval_days: number;
+  reviewed_at: Timestamp;
+}
+
 // ============================================================================
 // Table: faucet_requests
 // ============================================================================
@@ -487,6 +591,7 @@ export interface Transaction {
   consensus_timestamp: Timestamp | null;
   memo: string | null;
   hashscan_url: string | null;
+  reconciled_at: Timestamp | null; // Confirmed against the mirror node
 
   // Error Info
   error_message: string | null;
@@ -496,9 +601,34 @@ export interface Transaction {
   updated_at: Timestamp;
 }
 
-export type TransactionInsert = Omit<Transaction, 'id' | 'created_at' | 'updated_at'>;
+export type TransactionInsert = Omit<Transaction, 'id' | 'reconciled_at' | 'created_at' | 'updated_at'>;
 export type TransactionUpdate = Partial<Omit<Transaction, 'id' | 'transaction_id' | 'created_at'>>;
 
+// ============================================================================
+// Table: hcs_topics
+// ============================================================================
+
+export interface HcsTopic {
+  id: UUID;
+  user_id: UUID;
+
+  // Topic
+  topic_id: string;
+  memo: string;
+
+  // Message schema (null for free text)
+  schema_id: string | null;
+
+  // DER-encoded public submit key (null when anyone may submit)
+  submit_public_key: string | null;
+
+  // Creation transaction
+  transaction_id: string | null;
+
+  // Metadata
+  created_at: Timestamp;
+}
+
 // ============================================================================
 // Table: nft_certificates
 // ============================================================================
@@ -528,12 +658,72 @@ export interface NFTCertificate {
   // Verification
   verification_code: string;
 
+  // Lifecycle
+  status: NFTCertificateStatus;
+  revoked_at: Timestamp | null;
+  revoked_by: UUID | null;
+  revocation_reason: string | null;
+  supersedes: UUID | null; // The certificate this one reissues
+  superseded_by: UUID | null; // Its reissue
+
   // Metadata
   created_at: Timestamp;
 }
 
+export type NFTCertificateStatus = 'minting' | 'minted' | 'transferred' | 'failed' | 'revoked' | 'superseded';
+
 export type NFTCertificateInsert = Omit<NFTCertificate, 'id' | 'created_at'>;
 
+// ============================================================================
+// Table: certificate_events
+// ============================================================================
+
+export type CertificateEventType = 'revoked' | 'reissued';
+
+export interface CertificateEvent {
+  id: UUID;
+  certificate_id: UUID;
+  event_type: CertificateEventType;
+  reason: string;
+  actor_id: UUID | null;
+  related_certificate_id: UUID | null; // The replacement, for reissues
+
+  // Signed attestation on HCS
+  hcs_topic_id: string | null;
+  hcs_sequence_number: number | null;
+  hcs_transaction_id: string | null;
+
+  created_at: Timestamp;
+}
+
+// ============================================================================
+// Table: certificate_templates
+// ============================================================================
+
+export interface CertificateTemplate {
+  id: UUID;
+  name: string;
+  description: string | null;
+  svg_template: string; // SVG with {{placeholders}}
+  is_default: boolean;
+  created_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+// ============================================================================
+// Table: certificate_template_assignments
+// ============================================================================
+
+export interface CertificateTemplateAssignment {
+  id: UUID;
+  template_id: UUID;
+  // Exactly one of these
+  course_id: string | null;
+  track: CourseTrack | null;
+  created_at: Timestamp;
+}
+
 // ============================================================================
 // Table: platform_settings
 // ============================================================================
@@ -593,6 +783,43 @@ export interface ReplyWithAuthor extends Reply {
   author?: Pick<User, 'id' | 'username' | 'avatar_emoji'>;
 }
 
+/**
+ * Course review with author details
+ */
+export interface CourseReviewWithAuthor extends CourseReview {
+  author?: Pick<User, 'id' | 'username' | 'avatar_emoji'>;
+}
+
+/**
+ * Profile shown at /profile/:username (get_public_profile)
+ * Private profiles only carry username and avatar.
+ */
+export interface PublicProfile {
+  username: string;
+  avatar_emoji: string;
+  profile_public: boolean;
+  bio?: string | null;
+  location?: string | null;
+  current_level?: number;
+  total_xp?: number;
+  current_streak?: number;
+  created_at?: Timestamp;
+  badges?: (Pick<Achievement, 'id' | 'name' | 'description' | 'icon_emoji' | 'rarity'> & {
+    earned_at: Timestamp;
+    nft_token_id: string | null; // Only for badges in the learner's wallet
+    nft_serial_number: number | null;
+  })[];
+  completed_courses?: (Pick<Course, 'id' | 'title' | 'thumbnail_emoji' | 'track' | 'difficulty'> & { completed_at: Timestamp })[];
+  certificates?: {
+    certificate_number: string;
+    course_id: string;
+    course_title: string | null;
+    token_id: string;
+    serial_number: number;
+    minted_at: Timestamp;
+  }[];
+}
+
 /**
  * Leaderboard entry for display
  */
@@ -686,6 +913,11 @@ export interface Database {
         Insert: UserAchievementInsert;
         Update: never;
       };
+      badge_nft_collections: {
+        Row: BadgeNftCollection;
+        Insert: never;
+        Update: never;
+      };
       user_streaks: {
         Row: UserStreak;
         Insert: UserStreakInsert;
@@ -711,6 +943,21 @@ export interface Database {
         Insert: DiscussionVoteInsert;
         Update: never;
       };
+      course_reviews: {
+        Row: CourseReview;
+        Insert: never;
+        Update: never;
+      };
+      review_items: {
+        Row: ReviewItem;
+        Insert: never;
+        Update: never;
+      };
+      review_log: {
+        Row: ReviewLogEntry;
+        Insert: never;
+        Update: never;
+      };
       faucet_requests: {
         Row: FaucetRequest;
         Insert: FaucetRequestInsert;
@@ -721,11 +968,31 @@ export interface Database {
         Insert: TransactionInsert;
         Update: TransactionUpdate;
       };
+      hcs_topics: {
+        Row: HcsTopic;
+        Insert: never;
+        Update: never;
+      };
       nft_certificates: {
         Row: NFTCertificate;
         Insert: NFTCertificateInsert;
         Update: never;
       };
+      certificate_events: {
+        Row: CertificateEvent;
+        Insert: never;
+        Update: never;
+      };
+      certificate_templates: {
+        Row: CertificateTemplate;
+        Insert: never;
+        Update: never;
+      };
+      certificate_template_assignments: {
+        Row: CertificateTemplateAssignment;
+        Insert: never;
+        Update: never;
+      };
       platform_settings: {
         Row: PlatformSetting;
         Insert: Omit<PlatformSetting, 'id' | 'created_at' | 'updated_at'>;
@@ -752,6 +1019,58 @@ export interface Database {
         Args: Record<string, never>;
         Returns: void;
       };
+      start_lesson_session: {
+        Args: { p_lesson_id: string };
+        Returns: Timestamp;
+      };
+      can_review_course: {
+        Args: { p_user_id: UUID; p_course_id: string };
+        Returns: boolean;
+      };
+      upsert_course_review: {
+        Args: { p_course_id: string; p_rating: number; p_review_text: string | null };
+        Returns: CourseReview;
+      };
+      queue_quiz_mistakes: {
+        Args: { p_lesson_id: string; p_answers: (number | null)[] };
+        Returns: number;
+      };
+      record_review: {
+        Args: { p_item_id: UUID; p_quality: number };
+        Returns: ReviewItem;
+      };
+      add_review_variants: {
+        Args: { p_parent_item_id: UUID; p_questions: ReviewQuestion[] };
+        Returns: ReviewItem[];
+      };
+      get_public_profile: {
+        Args: { p_username: string };
+        Returns: PublicProfile | null;
+      };
+      record_transaction: {
+        Args: {
+          p_transaction_id: string;
+          p_transaction_type: TransactionType;
+          p_amount_hbar?: number | null;
+          p_from_account?: string | null;
+          p_to_account?: string | null;
+          p_related_course_id?: string | null;
+          p_memo?: string | null;
+          p_hashscan_url?: string | null;
+          p_error_message?: string | null;
+        };
+        Returns: UUID | null;
+      };
+      register_hcs_topic: {
+        Args: {
+          p_topic_id: string;
+          p_memo?: string;
+          p_schema_id?: string | null;
+          p_submit_public_key?: string | null;
+          p_transaction_id?: string | null;
+        };
+        Returns: HcsTopic;
+      };
     };
   };
 }
@@ -0,0 +1,264 @@
+/**
+ * HashConnect Wallet Adapter
+ *
+ * Hedera-native wallets (HashPack, Blade, Kabila) paired over WalletConnect.
+ * Transactions are built with the Hedera SDK and signed as native Hedera
+ * transactions, so learners never need the JSON-RPC relay or an ECDSA alias.
+ */
+
+import {
+  AccountId,
+  Hbar,
+  LedgerId,
+  TokenAssociateTransaction,
+  TokenId,
+  TransferTransaction,
+  type Transaction,
+} from '@hashgraph/sdk';
+import { HashConnect, type SessionData } from 'hashconnect';
+import { env } from '@/config';
+import { getMirrorNode } from '../hedera/mirror-node';
+import type { MirrorAccount, MirrorRequestOptions } from '../hedera/mirror-node';
+import { getHashScanUrl, HEDERA_MAINNET_CHAIN_ID, HEDERA_TESTNET_CHAIN_ID } from '../hederaUtils';
+import type { TransactionResult, WalletConnectionResult } from '../hederaUtils';
+import type { WalletAdapter } from './types';
+
+const network: 'testnet' | 'mainnet' = env.HEDERA_NETWORK === 'mainnet' ? 'mainnet' : 'testnet';
+
+let hashconnect: HashConnect | null = null;
+let initPromise: Promise<void> | null = null;
+let pairedAccountId: string | null = null;
+const accountListeners = new Set<(accounts: string[]) => void>();
+
+function notifyAccountListeners(accounts: string[]) {
+  accountListeners.forEach((listener) => listener(accounts));
+}
+
+/**
+ * Create and initialize the HashConnect instance once per page load
+ * init() restores any session paired on a previous visit.
+ */
+async function getHashConnect(): Promise<HashConnect> {
+  if (!env.WALLETCONNECT_PROJECT_ID) {
+    throw new Error('HashConnect is not configured (missing VITE_WALLETCONNECT_PROJECT_ID)');
+  }
+
+  if (!hashconnect) {
+    hashconnect = new HashConnect(
+      network === 'testnet' ? LedgerId.TESTNET : LedgerId.MAINNET,
+      env.WALLETCONNECT_PROJECT_ID,
+      {
+        name: env.APP_NAME,
+        description: 'Learn Web3 on Hedera',
+        icons: [`${env.APP_URL}/favicon.ico`],
+        url: env.APP_URL,
+      },
+      env.IS_DEVELOPMENT
+    );
+
+    hashconnect.pairingEvent.on((pairing: SessionData) => {
+      pairedAccountId = pairing.accountIds[0] || null;
+    });
+
+    hashconnect.disconnectionEvent.on(() => {
+      pairedAccountId = null;
+      notifyAccountListeners([]);
+    });
+
+    initPromise = hashconnect.init().then(() => {
+      pairedAccountId = hashconnect?.connectedAccountIds[0]?.toString() || pairedAccountId;
+    });
+  }
+
+  await initPromise;
+  return hashconnect;
+}
+
+/**
+ * Open the pairing modal and wait for the learner to approve in their wallet
+ */
+function waitForPairing(client: HashConnect): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const handlePairing = (pairing: SessionData) => {
+      client.pairingEvent.off(handlePairing);
+      const accountId = pairing.accountIds[0];
+      if (accountId) {
+        resolve(accountId);
+      } else {
+        reject(new Error('No account was shared by the wallet'));
+      }
+    };
+
+    client.pairingEvent.on(handlePairing);
+    client.openPairingModal();
+  });
+}
+
+function requirePairedAccount(): AccountId {
+  if (!hashconnect || !pairedAccountId) {
+    throw new Error('No Hedera wallet paired. Please connect your wallet first.');
+  }
+  return AccountId.fromString(pairedAccountId);
+}
+
+function parseAccount(account: string): AccountId {
+  return account.startsWith('0x')
+    ? AccountId.fromEvmAddress(0, 0, account)
+    : AccountId.fromString(account);
+}
+
+/**
+ * Look up an account (by ID or EVM address) on the mirror node
+ */
+async function fetchMirrorAccount(account: string, options?: MirrorRequestOptions): Promise<MirrorAccount> {
+  const data = await getMirrorNode().getAccount(account, options);
+  if (!data) {
+    throw new Error(`Account ${account} not found on mirror node`);
+  }
+  return data;
+}
+
+/**
+ * Freeze, sign in the wallet, execute and wait for the receipt
+ */
+async function executeWithWallet(transaction: Transaction): Promise<TransactionResult> {
+  const accountId = requirePairedAccount();
+  const signer = hashconnect!.getSigner(accountId);
+
+  try {
+    const frozen = await transaction.freezeWithSigner(signer);
+    const response = await frozen.executeWithSigner(signer);
+    const receipt = await response.getReceiptWithSigner(signer);
+    const transactionId = response.transactionId.toString();
+
+    return {
+      transactionId,
+      status: receipt.status.toString() === 'SUCCESS' ? 'success' : 'failed',
+      explorerUrl: getHashScanUrl(transactionId, network),
+      timestamp: Date.now(),
+    };
+  } catch (error: any) {
+    console.error('HashConnect transaction failed:', error);
+    const message = error?.message || String(error);
+    if (/reject/i.test(message)) {
+      throw new Error('Transaction was rejected in your wallet');
+    }
+    throw new Error(message);
+  }
+}
+
+export const hashconnectAdapter: WalletAdapter = {
+  id: 'hashconnect',
+  name: 'HashPack & Hedera wallets',
+  icon: '🔷',
+  description: 'HashPack, Blade or Kabila via WalletConnect',
+
+  isAvailable() {
+    return !!env.WALLETCONNECT_PROJECT_ID;
+  },
+
+  async connect(): Promise<WalletConnectionResult> {
+    const client = await getHashConnect();
+    const accountId = pairedAccountId || (await waitForPairing(client));
+    pairedAccountId = accountId;
+
+    const account = await fetchMirrorAccount(accountId);
+    const evmAddress = (account.evm_address || '').startsWith('0x')
+      ? account.evm_address!
+      : `0x${account.evm_address || ''}`;
+
+    return {
+      accountId,
+      evmAddress: evmAddress.toLowerCase(),
+      network,
+      connected: true,
+    };
+  },
+
+  async disconnect() {
+    if (hashconnect) {
+      await hashconnect.disconnect();
+    }
+    pairedAccountId = null;
+  },
+
+  async getConnectedAddress() {
+    if (!this.isAvailable()) return null;
+
+    await getHashConnect();
+    if (!pairedAccountId) return null;
+
+    const account = await fetchMirrorAccount(pairedAccountId);
+    return account.evm_address ? String(account.evm_address).toLowerCase() : null;
+  },
+
+  async getChainId() {
+    return network === 'testnet' ? HEDERA_TESTNET_CHAIN_ID : HEDERA_MAINNET_CHAIN_ID;
+  },
+
+  async signMessage(message) {
+    const accountId = requirePairedAccount();
+
+    try {
+      const [signerSignature] = await hashconnect!.signMessages(accountId, message);
+      const signature = Array.from(signerSignature.signature)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+
+      return { signature, signatureType: 'hedera' };
+    } catch (error: any) {
+      if (/reject/i.test(error?.message || '')) {
+        throw new Error('Signature request was rejected by user');
+      }
+      throw error;
+    }
+  },
+
+  async getBalance(account) {
+    const data = await fetchMirrorAccount(account, { ttlMs: 0 });
+    // Mirror node reports tinybars (1 HBAR = 100,000,000 tinybars)
+    return Number(data.balance?.balance || 0) / 1e8;
+  },
+
+  async submitTransaction(fromAccountId, toAccountId, amount) {
+    const sender = requirePairedAccount();
+    const recipient = parseAccount(toAccountId);
+
+    if (fromAccountId.startsWith('0.0.') && fromAccountId !== sender.toString()) {
+      throw new Error(`Connected wallet is ${sender.toString()}, not ${fromAccountId}`);
+    }
+
+    const transaction = new TransferTransaction()
+      .addHbarTransfer(sender, new Hbar(-amount))
+      .addHbarTransfer(recipient, new Hbar(amount));
+
+    return executeWithWallet(transaction);
+  },
+
+  async associateToken(tokenId) {
+    const accountId = requirePairedAccount();
+
+    const transaction = new TokenAssociateTransaction()
+      .setAccountId(accountId)
+      .setTokenIds([TokenId.fromString(tokenId)]);
+
+    return executeWithWallet(transaction);
+  },
+
+  async isTokenAssociated(tokenId, account) {
+    try {
+      const tokens = await getMirrorNode().getAccountTokens(account, tokenId, { ttlMs: 0 });
+      return tokens.length > 0;
+    } catch (error) {
+      console.error('Error checking token association:', error);
+      return false;
+    }
+  },
+
+  onAccountsChanged(callback) {
+    accountListeners.add(callback);
+    return () => {
+      accountListeners.delete(callback);
+    };
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Wallet Adapter Registry
+ *
+ * Lists the wallets the app supports and remembers which one the learner
+ * last connected with, so hederaUtils and WalletContext can route calls to it.
+ *
+ * Usage:
+ *   import { getAvailableWalletAdapters, getActiveWalletAdapter } from '@/lib/wallets';
+ */
+
+import { metamaskAdapter } from './metamask-adapter';
+import { hashconnectAdapter } from './hashconnect-adapter';
+import { mockAdapter } from './mock-adapter';
+import type { WalletAdapter, WalletAdapterId } from './types';
+
+export type { WalletAdapter, WalletAdapterId, WalletSignature, WalletSignatureType } from './types';
+
+const STORAGE_KEY = 'walletAdapter';
+
+export const WALLET_ADAPTERS: WalletAdapter[] = [metamaskAdapter, hashconnectAdapter, mockAdapter];
+
+export function getWalletAdapter(id: WalletAdapterId): WalletAdapter {
+  const adapter = WALLET_ADAPTERS.find((candidate) => candidate.id === id);
+  if (!adapter) {
+    throw new Error(`Unknown wallet: ${id}`);
+  }
+  return adapter;
+}
+
+/**
+ * Wallets that can be used in this browser with the current configuration
+ */
+export function getAvailableWalletAdapters(): WalletAdapter[] {
+  return WALLET_ADAPTERS.filter((adapter) => adapter.isAvailable());
+}
+
+/**
+ * The wallet the learner last connected with (Metamask if none yet)
+ */
+export function getActiveWalletAdapter(): WalletAdapter {
+  const storedId = typeof window !== 'undefined'
+    ? (localStorage.getItem(STORAGE_KEY) as WalletAdapterId | null)
+    : null;
+
+  return WALLET_ADAPTERS.find((adapter) => adapter.id === storedId) || metamaskAdapter;
+}
+
+export function setActiveWalletAdapter(id: WalletAdapterId): WalletAdapter {
+  const adapter = getWalletAdapter(id);
+  localStorage.setItem(STORAGE_KEY, id);
+  return adapter;
+}
@@ -0,0 +1,83 @@
+/**
+ * Metamask (EIP-1193) Wallet Adapter
+ *
+ * Covers any injected EVM wallet: Metamask, and HashPack/Blade/Kabila when
+ * used through their EVM (JSON-RPC relay) mode. Signs with personal_sign
+ * and sends transactions through the Hashio relay.
+ */
+
+import { BrowserProvider } from 'ethers';
+import {
+  connectEvmWallet,
+  detectWallet,
+  getBalance,
+  getCurrentChainId,
+  submitEvmTransaction,
+  associateEvmToken,
+  isEvmTokenAssociated,
+  listenToAccountChanges,
+  listenToChainChanges,
+} from '../hederaUtils';
+import type { WalletAdapter } from './types';
+
+export const metamaskAdapter: WalletAdapter = {
+  id: 'metamask',
+  name: 'Metamask',
+  icon: '🦊',
+  description: 'Browser extension wallets (Metamask or any EVM wallet)',
+
+  isAvailable() {
+    return detectWallet();
+  },
+
+  async connect() {
+    return connectEvmWallet();
+  },
+
+  async disconnect() {
+    // Injected wallets have no programmatic disconnect
+  },
+
+  async getConnectedAddress() {
+    if (!detectWallet()) return null;
+
+    const accounts = (await window.ethereum!.request({ method: 'eth_accounts' })) as string[];
+    return accounts && accounts.length > 0 ? accounts[0] : null;
+  },
+
+  async getChainId() {
+    return getCurrentChainId();
+  },
+
+  async signMessage(message) {
+    const provider = new BrowserProvider(window.ethereum!);
+    const signer = await provider.getSigner();
+    const signature = await signer.signMessage(message);
+    return { signature, signatureType: 'evm' };
+  },
+
+  async getBalance(account) {
+    return getBalance(account);
+  },
+
+  async submitTransaction(fromAccountId, toAccountId, amount) {
+    return submitEvmTransaction(fromAccountId, toAccountId, amount);
+  },
+
+  async associateToken(tokenId) {
+    return associateEvmToken(tokenId);
+  },
+
+  async isTokenAssociated(tokenId, account) {
+    return isEvmTokenAssociated(tokenId, account);
+  },
+
+  onAccountsChanged(callback) {
+    return listenToAccountChanges(callback);
+  },
+
+  onChainChanged(callback) {
+    return listenToChainChanges((chainIdHex) => callback(parseInt(chainIdHex, 16)));
+  },
+};
+
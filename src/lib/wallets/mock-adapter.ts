@@ -0,0 +1,141 @@
+/**
+ * Mock Wallet Adapter
+ *
+ * An in-browser wallet for development, demos and automated tests: no
+ * extension, no pairing and no testnet HBAR needed. Sign-in signatures are
+ * real EIP-191 signatures from a throwaway key, so wallet-login accepts them;
+ * transfers and associations only update in-memory state (and the fake
+ * mirror node, when VITE_USE_FAKE_MIRROR_NODE is set).
+ */
+
+import { Wallet } from 'ethers';
+import { env } from '@/config';
+import { getHashScanUrl, HEDERA_TESTNET_CHAIN_ID } from '../hederaUtils';
+import { getFakeMirrorNode } from '../hedera/mirror-node-fake';
+import type { WalletAdapter } from './types';
+
+const STORAGE_KEY = 'mockWalletKey';
+const STARTING_BALANCE = 1000;
+
+let wallet: Wallet | null = null;
+let connected = false;
+const balances = new Map<string, number>();
+const associatedTokens = new Set<string>();
+
+/**
+ * Reuse the same throwaway key across reloads so sessions can be restored
+ */
+function getWallet(): Wallet {
+  if (!wallet) {
+    const storedKey = localStorage.getItem(STORAGE_KEY);
+    wallet = storedKey ? new Wallet(storedKey) : new Wallet(Wallet.createRandom().privateKey);
+    localStorage.setItem(STORAGE_KEY, wallet.privateKey);
+  }
+  return wallet;
+}
+
+function getMockBalance(account: string): number {
+  const key = account.toLowerCase();
+  if (!balances.has(key)) {
+    balances.set(key, key === getWallet().address.toLowerCase() ? STARTING_BALANCE : 0);
+  }
+  return balances.get(key)!;
+}
+
+/**
+ * Fake Hedera transaction ID in the usual payer@seconds.nanos format
+ */
+function mockTransactionId(): string {
+  const now = Date.now();
+  return `0.0.1001@${Math.floor(now / 1000)}.${String((now % 1000) * 1e6).padStart(9, '0')}`;
+}
+
+export const mockAdapter: WalletAdapter = {
+  id: 'mock',
+  name: 'Mock Wallet',
+  icon: '🧪',
+  description: 'Test wallet for development (no real transactions)',
+
+  isAvailable() {
+    return env.IS_DEVELOPMENT || env.ENABLE_MOCK_WALLET;
+  },
+
+  async connect() {
+    connected = true;
+    const evmAddress = getWallet().address.toLowerCase();
+
+    return {
+      accountId: evmAddress,
+      evmAddress,
+      network: 'testnet',
+      connected: true,
+    };
+  },
+
+  async disconnect() {
+    connected = false;
+  },
+
+  async getConnectedAddress() {
+    if (!localStorage.getItem(STORAGE_KEY)) return null;
+    connected = true;
+    return getWallet().address.toLowerCase();
+  },
+
+  async getChainId() {
+    return HEDERA_TESTNET_CHAIN_ID;
+  },
+
+  async signMessage(message) {
+    const signature = await getWallet().signMessage(message);
+    return { signature, signatureType: 'evm' };
+  },
+
+  async getBalance(account) {
+    return getMockBalance(account);
+  },
+
+  async submitTransaction(fromAccountId, toAccountId, amount) {
+    if (!connected) {
+      throw new Error('Mock wallet is not connected');
+    }
+
+    const fromBalance = getMockBalance(fromAccountId);
+    if (amount <= 0 || amount > fromBalance) {
+      throw new Error('Insufficient balance');
+    }
+
+    balances.set(fromAccountId.toLowerCase(), fromBalance - amount);
+    balances.set(toAccountId.toLowerCase(), getMockBalance(toAccountId) + amount);
+
+    const transactionId = mockTransactionId();
+
+    // Make the transfer visible to mirror node reads (balances, history)
+    if (env.USE_FAKE_MIRROR_NODE) {
+      getFakeMirrorNode().transferHbar(fromAccountId, toAccountId, Math.round(amount * 1e8), { transactionId });
+    }
+
+    return {
+      transactionId,
+      status: 'success',
+      explorerUrl: getHashScanUrl(transactionId),
+      timestamp: Date.now(),
+    };
+  },
+
+  async associateToken(tokenId) {
+    associatedTokens.add(tokenId);
+
+    const transactionId = mockTransactionId();
+    return {
+      transactionId,
+      status: 'success',
+      explorerUrl: getHashScanUrl(transactionId),
+      timestamp: Date.now(),
+    };
+  },
+
+  async isTokenAssociated(tokenId) {
+    return associatedTokens.has(tokenId);
+  },
+};
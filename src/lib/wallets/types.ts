@@ -0,0 +1,61 @@
+/**
+ * Wallet Adapter Types
+ *
+ * Every wallet the app can talk to (EIP-1193 extensions like Metamask,
+ * Hedera-native wallets via HashConnect/WalletConnect, the mock wallet)
+ * implements WalletAdapter, so WalletContext and hederaUtils never need to
+ * know which one the learner picked.
+ */
+
+import type { WalletConnectionResult, TransactionResult } from '../hederaUtils';
+
+export type WalletAdapterId = 'metamask' | 'hashconnect' | 'mock';
+
+/**
+ * How a sign-in message was signed
+ * - evm: EIP-191 personal_sign, recovered with ethers.verifyMessage
+ * - hedera: signed with the Hedera account key (hedera_signMessage)
+ */
+export type WalletSignatureType = 'evm' | 'hedera';
+
+export interface WalletSignature {
+  signature: string;
+  signatureType: WalletSignatureType;
+}
+
+export interface WalletAdapter {
+  id: WalletAdapterId;
+  name: string;
+  icon: string;
+  description: string;
+
+  /** Whether this wallet can be used in the current browser */
+  isAvailable(): boolean;
+
+  /** Connect (and switch/pair to Hedera Testnet if needed) */
+  connect(): Promise<WalletConnectionResult>;
+  disconnect(): Promise<void>;
+
+  /** EVM address of the account still connected from a previous visit, if any */
+  getConnectedAddress(): Promise<string | null>;
+
+  /** EVM chain ID the wallet is on (296 testnet, 295 mainnet) */
+  getChainId(): Promise<number>;
+
+  /** Sign a Sign-In with Ethereum message for wallet-login */
+  signMessage(message: string): Promise<WalletSignature>;
+
+  /** HBAR balance (not tinybars) for an EVM address or Hedera account ID */
+  getBalance(account: string): Promise<number>;
+
+  /** Transfer HBAR from the connected account */
+  submitTransaction(fromAccountId: string, toAccountId: string, amount: number): Promise<TransactionResult>;
+
+  /** Associate an HTS token with the connected account (needed before receiving NFTs) */
+  associateToken(tokenId: string): Promise<TransactionResult>;
+  isTokenAssociated(tokenId: string, account: string): Promise<boolean>;
+
+  /** Optional change listeners; return a cleanup function */
+  onAccountsChanged?(callback: (accounts: string[]) => void): () => void;
+  onChainChanged?(callback: (chainId: number) => void): () => void;
+}
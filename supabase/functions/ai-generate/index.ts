@@ -17,7 +17,12 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { buildCourseGenerationPrompt } from './prompts.ts';
+import {
+  buildCourseGenerationPrompt,
+  buildQuizGenerationPrompt,
+  buildRecommendationPrompt,
+  buildTutorChatPrompt,
+} from './prompts.ts';
 
 // CORS headers for cross-origin requests
 const corsHeaders = {
@@ -70,6 +75,77 @@ async function authenticateUser(req: Request) {
   return { user, supabase };
 }
 
+// Number of previous messages sent back to the tutor as conversation history
+const CHAT_HISTORY_LIMIT = 10;
+
+/**
+ * Store a tutor exchange in the chat session and shape the client response
+ */
+async function saveChatExchange(
+  supabase: any,
+  session: { id: string; message_count: number } | null,
+  userMessage: string,
+  generated: any
+): Promise<{ message: string; messageId: string; suggestions: string[] }> {
+  const answer = typeof generated?.message === 'string' ? generated.message : String(generated ?? '');
+  const suggestions = Array.isArray(generated?.suggestions)
+    ? generated.suggestions.filter((s: unknown) => typeof s === 'string').slice(0, 3)
+    : [];
+
+  if (!session) {
+    return { message: answer, messageId: crypto.randomUUID(), suggestions };
+  }
+
+  const now = Date.now();
+  const { data: inserted, error } = await supabase
+    .from('ai_chat_messages')
+    .insert([
+      { session_id: session.id, role: 'user', content: userMessage, created_at: new Date(now).toISOString() },
+      // 1ms later so the pair always sorts question-first
+      { session_id: session.id, role: 'assistant', content: answer, created_at: new Date(now + 1).toISOString() },
+    ])
+    .select('id, role');
+
+  if (error) {
+    console.error('Failed to save chat messages:', error);
+    throw new Error('Failed to save chat messages');
+  }
+
+  await supabase
+    .from('ai_chat_sessions')
+    .update({
+      last_message_at: new Date(now + 1).toISOString(),
+      message_count: (session.message_count || 0) + 2,
+    })
+    .eq('id', session.id);
+
+  const assistantRow = (inserted || []).find((row: any) => row.role === 'assistant');
+  return { message: answer, messageId: assistantRow?.id, suggestions };
+}
+
+/**
+ * Keep only well-formed recommendations for courses the client offered
+ */
+function normalizeRecommendations(generated: any, candidateIds: Set<string>): any[] {
+  const list = Array.isArray(generated) ? generated : generated?.recommendations;
+  if (!Array.isArray(list)) return [];
+
+  const seen = new Set<string>();
+  return list
+    .filter((item: any) => {
+      if (!item || !candidateIds.has(item.courseId) || seen.has(item.courseId)) return false;
+      seen.add(item.courseId);
+      return true;
+    })
+    .slice(0, 3)
+    .map((item: any) => ({
+      courseId: item.courseId,
+      reasoning: typeof item.reasoning === 'string' ? item.reasoning : '',
+      confidenceScore: Math.max(0, Math.min(100, Math.round(Number(item.confidenceScore) || 0))),
+      prerequisitesMet: Array.isArray(item.prerequisitesMet) ? item.prerequisitesMet : [],
+    }));
+}
+
 /**
  * Check if user has exceeded rate limit
  */
@@ -562,6 +638,8 @@ serve(async (req: Request) => {
     console.log('Step 3: Building full prompt...');
     let fullPrompt: string;
     let promptForLogging: string;
+    let chatMessage = '';
+    let chatSession: { id: string; message_count: number } | null = null;
 
     if (generationType === 'course') {
       // For course generation, prompt is a CoursePrompt object
@@ -576,14 +654,70 @@ serve(async (req: Request) => {
       fullPrompt = buildCourseGenerationPrompt(promptWithId);
       promptForLogging = `Course: ${prompt.topic} (${prompt.track}/${prompt.difficulty})`;
       console.log('✅ Prompt built successfully');
+    } else if (generationType === 'chat') {
+      // Tutor chat: prompt is { message, context } from chatWithTutor()
+      chatMessage = typeof prompt === 'object' && typeof prompt.message === 'string' ? prompt.message.trim() : '';
+
+      if (chatMessage.length < 3 || chatMessage.length > 1000) {
+        throw new Error('Missing or invalid chat message');
+      }
+
+      const context = prompt.context || {};
+      let history: { role: 'user' | 'assistant'; content: string }[] = [];
+
+      if (context.sessionId) {
+        const { data: session } = await supabase
+          .from('ai_chat_sessions')
+          .select('id, user_id, message_count')
+          .eq('id', context.sessionId)
+          .maybeSingle();
+
+        if (!session || session.user_id !== actualUserId) {
+          throw new Error('Missing chat session');
+        }
+        chatSession = session;
+
+        // History comes from the database, not the request, so it can't be spoofed
+        const { data: recent } = await supabase
+          .from('ai_chat_messages')
+          .select('role, content')
+          .eq('session_id', session.id)
+          .in('role', ['user', 'assistant'])
+          .order('created_at', { ascending: false })
+          .limit(CHAT_HISTORY_LIMIT);
+
+        history = (recent || []).reverse();
+      }
+
+      fullPrompt = buildTutorChatPrompt(chatMessage, context, history);
+      promptForLogging = `Chat (${context.lessonId || 'no lesson'}): ${chatMessage}`;
+    } else if (generationType === 'recommendation') {
+      // Recommendations: prompt is the learner profile from getRecommendations()
+      if (typeof prompt !== 'object' || !Array.isArray(prompt.candidates) || prompt.candidates.length === 0) {
+        throw new Error('Missing recommendation candidates');
+      }
+
+      fullPrompt = buildRecommendationPrompt(prompt);
+      promptForLogging = `Recommendations (${prompt.candidates.length} candidates)`;
+    } else if (generationType === 'quiz') {
+      // Quiz: prompt is { lessonContent, difficulty } from generateQuiz()
+      if (typeof prompt !== 'object' || typeof prompt.lessonContent !== 'string') {
+        throw new Error('Missing lesson content for quiz generation');
+      }
+
+      fullPrompt = buildQuizGenerationPrompt({
+        lessonContent: prompt.lessonContent.slice(0, 8000),
+        difficulty: prompt.difficulty || 'beginner',
+      });
+      promptForLogging = `Quiz (${prompt.difficulty || 'beginner'}): ${prompt.lessonContent.slice(0, 200)}`;
     } else {
-      // For other types (quiz, chat, recommendation), prompt might be string or object
+      // Any other type: prompt might be string or object
       fullPrompt = typeof prompt === 'string' ? prompt : JSON.stringify(prompt);
       promptForLogging = fullPrompt;
     }
 
-    // 4. Check rate limit
-    await checkRateLimit(supabase, user.id, generationType);
+    // 4. Check rate limit (same user ID the log and get_user_ai_quota use)
+    await checkRateLimit(supabase, actualPublicUserId, generationType);
 
     // 5. Call Gemini API
     console.log(`Generating ${generationType} for user ${user.id}`);
@@ -597,8 +731,19 @@ serve(async (req: Request) => {
     // 6. Log success (use actualPublicUserId to ensure correct user is logged)
     await logGeneration(supabase, actualPublicUserId, generationType, promptForLogging, true);
 
-    // 6. Return result
-    return new Response(JSON.stringify(generatedContent), {
+    // 6.5. Persist tutor messages / validate recommendations before returning
+    let responseBody = generatedContent;
+    if (generationType === 'chat') {
+      responseBody = await saveChatExchange(supabase, chatSession, chatMessage, generatedContent);
+    } else if (generationType === 'recommendation') {
+      responseBody = normalizeRecommendations(
+        generatedContent,
+        new Set(prompt.candidates.map((c: any) => c.id))
+      );
+    }
+
+    // 7. Return result
+    return new Response(JSON.stringify(responseBody), {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
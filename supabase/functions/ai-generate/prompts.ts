@@ -216,7 +216,7 @@ You MUST follow these exact requirements or validation will FAIL:
 ✅ description: 50-500 characters
 ✅ starterCode: minimum 50 characters
 ✅ solution: minimum 100 characters
-✅ tests: MUST have 1-5 tests
+✅ tests: MUST have 1-5 tests; each assertion is a JavaScript expression run against the learner's code
 ✅ hints: MUST have 2-5 hints
 ✅ explanation: minimum 100 characters (optional)
 
@@ -357,6 +357,7 @@ Generate the course as JSON matching this EXACT structure. Follow the examples p
 - "wallet_investigation" - Wallet Investigation
 - "explorer_navigation" - Explorer Navigation
 - "transaction_detective" - Transaction Detective
+- "hcs_topics" - HCS Topic Workshop
 
 \`\`\`json
 {
@@ -407,14 +408,14 @@ Generate the course as JSON matching this EXACT structure. Follow the examples p
     "solution": "import { Client, AccountId, Hbar, TransferTransaction } from '@hashgraph/sdk';\\n\\nasync function transferHbar(fromAccount, toAccount, amount) {\\n  // Create client for testnet\\n  const client = Client.forTestnet();\\n  client.setOperator(fromAccount, privateKey);\\n  \\n  // Create transfer transaction\\n  const transaction = new TransferTransaction()\\n    .addHbarTransfer(fromAccount, new Hbar(-amount))\\n    .addHbarTransfer(toAccount, new Hbar(amount));\\n  \\n  // Execute transaction\\n  const txResponse = await transaction.execute(client);\\n  const receipt = await txResponse.getReceipt(client);\\n  \\n  return txResponse.transactionId.toString();\\n}\\n\\nexport { transferHbar };",
     "tests": [
       {
-        "name": "Should create valid transaction",
-        "assertion": "Function returns transaction ID",
-        "expected": "string starting with 0.0"
+        "name": "Should define transferHbar",
+        "assertion": "typeof transferHbar",
+        "expected": "function"
       },
       {
-        "name": "Should deduct from sender",
-        "assertion": "Sender balance decreases by amount",
-        "expected": "balance reduced"
+        "name": "Should accept sender, recipient and amount",
+        "assertion": "transferHbar.length",
+        "expected": 3
       }
     ],
     "hints": [
@@ -442,6 +443,7 @@ Generate the course as JSON matching this EXACT structure. Follow the examples p
 - starterCode must have TODO comments showing what to complete
 - solution must be working, complete code
 - tests array must have at least 1 test
+- Each test "assertion" is an executable JavaScript expression that can call the learner's functions (await allowed); "expected" is the exact JSON value it must equal (omit it when the assertion itself returns true/false)
 - Use actual Hedera SDK syntax (not pseudo-code)
 - Escape newlines in strings as \\\\n
 
@@ -473,3 +475,203 @@ Begin generation:`;
 
   return [SYSTEM_PROMPT, trackPrompt, userPrompt].join('\n\n---\n\n');
 }
+
+// ============================================================================
+// AI Tutor Chat
+// ============================================================================
+
+export interface TutorChatContext {
+  courseTitle?: string;
+  lessonTitle?: string;
+  lessonType?: string;
+  lessonContent?: string;
+  progress?: {
+    completedLessons: number;
+    totalLessons: number;
+    currentLessonNumber: number;
+    currentLessonCompleted: boolean;
+  };
+}
+
+export interface TutorHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const TUTOR_SYSTEM_PROMPT = `You are the Web3Versity AI tutor, a patient teacher helping African learners understand blockchain and Hedera.
+
+# How to answer
+- Answer the learner's question about the CURRENT LESSON first; use the lesson content below as your main source
+- Keep answers short (under 200 words), friendly and jargon-free; explain any technical term you use
+- Use African everyday examples where they help (M-Pesa, market vendors, remittances, savings groups)
+- Everything on Web3Versity runs on Hedera TESTNET - never encourage spending real funds
+- Never ask for or accept seed phrases or private keys; warn the learner if they share one
+- If the question is unrelated to Web3, gently steer back to the course
+
+# Quizzes
+- If the learner asks about a quiz question, give a hint or explain the underlying concept
+- NEVER state which option is correct
+
+# Output format
+Respond with ONLY JSON (no markdown code blocks):
+{
+  "message": "your answer (markdown allowed inside the string)",
+  "suggestions": ["up to 3 short follow-up questions the learner might ask next"]
+}`;
+
+export function buildTutorChatPrompt(
+  message: string,
+  context: TutorChatContext = {},
+  history: TutorHistoryMessage[] = []
+): string {
+  const progress = context.progress
+    ? `Lesson ${context.progress.currentLessonNumber} of ${context.progress.totalLessons}; ` +
+      `${context.progress.completedLessons} lessons completed; ` +
+      `current lesson ${context.progress.currentLessonCompleted ? 'already completed' : 'not completed yet'}`
+    : 'Unknown';
+
+  const lessonContext = `
+# LEARNER CONTEXT
+
+Course: ${context.courseTitle || 'Unknown'}
+Current lesson: ${context.lessonTitle || 'Unknown'} (${context.lessonType || 'unknown type'})
+Progress: ${progress}
+
+## Current lesson content
+${context.lessonContent || '(not available)'}`;
+
+  const conversation = history.length > 0
+    ? `# CONVERSATION SO FAR\n\n${history
+        .map((entry) => `${entry.role === 'user' ? 'Learner' : 'Tutor'}: ${entry.content}`)
+        .join('\n\n')}`
+    : '';
+
+  const question = `# LEARNER'S QUESTION\n\n${message}`;
+
+  return [TUTOR_SYSTEM_PROMPT, lessonContext, conversation, question]
+    .filter(Boolean)
+    .join('\n\n---\n\n');
+}
+
+// ============================================================================
+// Course Recommendations
+// ============================================================================
+
+export interface RecommendationProfile {
+  preferredTrack: string | null;
+  completedCourses: { id: string; title: string; track: string; difficulty: string }[];
+  inProgressCourses: { id: string; title: string }[];
+  weakSpots: { courseId: string; courseTitle: string; averageScore: number }[];
+  candidates: {
+    id: string;
+    title: string;
+    track: string;
+    difficulty: string;
+    category: string;
+    prerequisitesMet: string[];
+  }[];
+}
+
+const RECOMMENDATION_SYSTEM_PROMPT = `You are the Web3Versity course advisor. Pick the courses a learner should take next.
+
+# Rules
+- ONLY recommend course IDs from the CANDIDATE COURSES list
+- Recommend at most 3 courses, best first
+- Prefer the next difficulty step in the learner's track; don't jump from beginner straight to advanced
+- If the learner has quiz weak spots, favour courses that reinforce those topics before harder ones
+- Courses that build on completed prerequisites are strong picks
+- "reasoning" is one friendly sentence addressed to the learner (max 25 words)
+
+# Output format
+Respond with ONLY a JSON array (no markdown code blocks):
+[
+  {
+    "courseId": "candidate course id",
+    "reasoning": "why this course is a good next step",
+    "confidenceScore": 0-100,
+    "prerequisitesMet": ["ids of completed prerequisite courses"]
+  }
+]`;
+
+export function buildRecommendationPrompt(profile: RecommendationProfile): string {
+  const completed = profile.completedCourses.length > 0
+    ? profile.completedCourses.map((c) => `- ${c.title} (${c.track}, ${c.difficulty})`).join('\n')
+    : '- None yet';
+
+  const inProgress = profile.inProgressCourses.length > 0
+    ? profile.inProgressCourses.map((c) => `- ${c.title}`).join('\n')
+    : '- None';
+
+  const weakSpots = profile.weakSpots.length > 0
+    ? profile.weakSpots.map((w) => `- ${w.courseTitle}: average quiz score ${w.averageScore}%`).join('\n')
+    : '- None';
+
+  const candidates = profile.candidates
+    .map((c) =>
+      `- ${c.id}: ${c.title} (${c.track}, ${c.difficulty}, ${c.category})` +
+      (c.prerequisitesMet.length > 0 ? ` - builds on ${c.prerequisitesMet.join(', ')}` : '')
+    )
+    .join('\n');
+
+  const learner = `
+# LEARNER
+
+Preferred track: ${profile.preferredTrack || 'not chosen yet'}
+
+## Completed courses
+${completed}
+
+## In progress
+${inProgress}
+
+## Quiz weak spots
+${weakSpots}
+
+# CANDIDATE COURSES
+${candidates}`;
+
+  return [RECOMMENDATION_SYSTEM_PROMPT, learner].join('\n\n---\n\n');
+}
+
+// ============================================================================
+// Quiz Generation
+// ============================================================================
+
+export interface QuizGenerationInput {
+  lessonContent: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+}
+
+const QUIZ_SYSTEM_PROMPT = `You write multiple-choice quiz questions for Web3Versity, a blockchain course platform for African learners.
+
+# Rules
+- Follow any instructions at the top of the lesson material (e.g. how many questions, which concept)
+- Otherwise write 3 questions that test understanding, not memorisation
+- Exactly 4 options per question, one correct; wrong options must be plausible
+- Vary the position of the correct answer
+- Each explanation says why the correct answer is right (1-2 sentences)
+- Use African everyday examples where they fit; everything runs on Hedera testnet
+
+# Output format
+Respond with ONLY JSON (no markdown code blocks):
+{
+  "questions": [
+    {
+      "question": "question text",
+      "options": ["A", "B", "C", "D"],
+      "correctAnswer": 0,
+      "explanation": "why the correct answer is right"
+    }
+  ]
+}`;
+
+export function buildQuizGenerationPrompt(input: QuizGenerationInput): string {
+  const material = `
+# DIFFICULTY
+${input.difficulty}
+
+# LESSON MATERIAL
+${input.lessonContent}`;
+
+  return [QUIZ_SYSTEM_PROMPT, material].join('\n\n---\n\n');
+}
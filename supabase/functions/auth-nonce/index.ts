@@ -0,0 +1,103 @@
+// supabase/functions/auth-nonce/index.ts
+//
+// Issues a single-use nonce for Sign-In with Ethereum (EIP-4361).
+// The client embeds it in the message it asks the wallet to sign;
+// wallet-login consumes it, so each signature can only be used once.
+//
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+import {
+  generateNonce,
+  isAllowedDomain,
+  NONCE_TTL_SECONDS,
+  SIWE_CHAIN_IDS,
+} from '../wallet-login/_shared/siwe.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface AuthNonceRequest {
+  walletAddress: string
+  chainId: number
+  domain: string
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { walletAddress, chainId, domain }: AuthNonceRequest = await req.json()
+
+    // 1. Validate request
+    if (!walletAddress || !/^0x[0-9a-fA-F]{40}$/.test(walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet address' }, 400)
+    }
+
+    if (!SIWE_CHAIN_IDS.includes(Number(chainId))) {
+      return jsonResponse(
+        { error: 'Unsupported network', details: `Chain ID must be one of ${SIWE_CHAIN_IDS.join(', ')}` },
+        400
+      )
+    }
+
+    if (!domain || !isAllowedDomain(domain)) {
+      return jsonResponse({ error: 'Sign-in is not allowed from this domain' }, 403)
+    }
+
+    // 2. Store nonce
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const issuedAt = new Date()
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_SECONDS * 1000)
+    const nonce = generateNonce()
+
+    const { error: insertError } = await supabaseAdmin.from('auth_nonces').insert({
+      nonce,
+      evm_address: walletAddress.toLowerCase(),
+      domain,
+      chain_id: Number(chainId),
+      issued_at: issuedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    })
+
+    if (insertError) {
+      console.error('❌ Error storing nonce:', insertError)
+      return jsonResponse({ error: 'Failed to issue nonce' }, 500)
+    }
+
+    // 3. Purge nonces that expired over a day ago (non-critical)
+    const { error: purgeError } = await supabaseAdmin
+      .from('auth_nonces')
+      .delete()
+      .lt('expires_at', new Date(issuedAt.getTime() - 24 * 60 * 60 * 1000).toISOString())
+
+    if (purgeError) {
+      console.warn('⚠️  Failed to purge expired nonces:', purgeError)
+    }
+
+    return jsonResponse({
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString(),
+    })
+  } catch (error) {
+    console.error('❌ Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
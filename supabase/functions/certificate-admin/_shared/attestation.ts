@@ -0,0 +1,179 @@
+/**
+ * Certificate Status Attestations (Deno/Edge Function Version)
+ *
+ * Revocations and reissues are published to an HCS topic that only the
+ * platform can post to, as messages signed with the platform key. Anyone can
+ * check them against the topic on a mirror node without trusting our
+ * database.
+ *
+ * Message format:
+ *   { "payload": "<attestation JSON>", "signature": "<hex>", "publicKey": "<DER hex>" }
+ */
+
+import {
+  Client,
+  PrivateKey,
+  PublicKey,
+  TopicCreateTransaction,
+  TopicMessageSubmitTransaction,
+} from 'npm:@hashgraph/sdk@^2.75.0';
+
+export type AttestationType = 'certificate.revoked' | 'certificate.reissued';
+
+export interface CertificateAttestation {
+  v: 1;
+  type: AttestationType;
+  certificate: string; // Certificate number
+  token: string;
+  serial: number;
+  reason: string;
+  at: string; // ISO timestamp
+  supersededBy?: {
+    certificate: string;
+    serial: number;
+  };
+}
+
+export interface SignedAttestation {
+  payload: string;
+  signature: string;
+  publicKey: string;
+}
+
+export interface AttestationCheck {
+  attestation: CertificateAttestation | null;
+  signatureValid: boolean;
+  // The signing key is the topic's submit key, i.e. the platform's
+  signedByPlatform: boolean;
+}
+
+// Longer reasons are cut so an attestation always fits one HCS chunk
+export const MAX_REASON_LENGTH = 300;
+
+const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com';
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Sign an attestation with the platform key
+ */
+export function signAttestation(attestation: CertificateAttestation, privateKey: PrivateKey): SignedAttestation {
+  const payload = JSON.stringify(attestation);
+  const signature = privateKey.sign(new TextEncoder().encode(payload));
+
+  return {
+    payload,
+    signature: toHex(signature),
+    publicKey: privateKey.publicKey.toString(),
+  };
+}
+
+/**
+ * Create the attestation topic, with the platform key as submit key
+ */
+export async function createAttestationTopic(client: Client, privateKey: PrivateKey): Promise<string> {
+  const createTx = await new TopicCreateTransaction()
+    .setTopicMemo('Web3Versity certificate status attestations')
+    .setSubmitKey(privateKey.publicKey)
+    .setAdminKey(privateKey.publicKey)
+    .freezeWith(client);
+
+  const createSign = await createTx.sign(privateKey);
+  const createSubmit = await createSign.execute(client);
+  const receipt = await createSubmit.getReceipt(client);
+
+  if (!receipt.topicId) {
+    throw new Error('Attestation topic creation did not return a topic ID');
+  }
+
+  return receipt.topicId.toString();
+}
+
+/**
+ * Sign and publish an attestation
+ *
+ * @returns Sequence number and transaction ID of the HCS message
+ */
+export async function publishAttestation(
+  attestation: CertificateAttestation,
+  topicId: string,
+  client: Client,
+  privateKey: PrivateKey
+): Promise<{ sequenceNumber: number; transactionId: string }> {
+  const message = JSON.stringify(signAttestation(attestation, privateKey));
+
+  const submitTx = await new TopicMessageSubmitTransaction()
+    .setTopicId(topicId)
+    .setMessage(message)
+    .freezeWith(client);
+
+  const submitSign = await submitTx.sign(privateKey);
+  const submitResult = await submitSign.execute(client);
+  const receipt = await submitResult.getReceipt(client);
+
+  return {
+    sequenceNumber: receipt.topicSequenceNumber?.toNumber() ?? 0,
+    transactionId: submitResult.transactionId.toString(),
+  };
+}
+
+/**
+ * Fetch an attestation from the mirror node and check its signature
+ *
+ * @returns null if the message isn't on the mirror node (yet)
+ */
+export async function fetchAndVerifyAttestation(
+  topicId: string,
+  sequenceNumber: number
+): Promise<AttestationCheck | null> {
+  const [messageResponse, topicResponse] = await Promise.all([
+    fetch(`${MIRROR_NODE_URL}/api/v1/topics/${topicId}/messages/${sequenceNumber}`),
+    fetch(`${MIRROR_NODE_URL}/api/v1/topics/${topicId}`),
+  ]);
+
+  if (!messageResponse.ok) return null;
+
+  const { message } = await messageResponse.json();
+  const content = new TextDecoder().decode(Uint8Array.from(atob(message), (c) => c.charCodeAt(0)));
+
+  let signed: SignedAttestation;
+  try {
+    signed = JSON.parse(content);
+  } catch {
+    return { attestation: null, signatureValid: false, signedByPlatform: false };
+  }
+
+  let signatureValid = false;
+  let signedByPlatform = false;
+
+  try {
+    const publicKey = PublicKey.fromString(signed.publicKey);
+    signatureValid = publicKey.verify(new TextEncoder().encode(signed.payload), fromHex(signed.signature));
+
+    if (topicResponse.ok) {
+      const topic = await topicResponse.json();
+      signedByPlatform = topic.submit_key?.key === publicKey.toStringRaw();
+    }
+  } catch (error) {
+    console.warn('Attestation signature check failed:', error);
+  }
+
+  let attestation: CertificateAttestation | null = null;
+  try {
+    attestation = JSON.parse(signed.payload);
+  } catch {
+    // Signature may still be checked, but there's nothing to show
+  }
+
+  return { attestation, signatureValid, signedByPlatform };
+}
@@ -0,0 +1,538 @@
+// Certificate Administration Edge Function
+// Revokes and reissues NFT certificates (admins only)
+//
+// Actions:
+//   revoke  - Mark a certificate revoked (e.g. plagiarism, course retraction)
+//   reissue - Mint a replacement (e.g. after a name change) and mark the
+//             original superseded, linking the two
+//
+// Both publish a signed attestation to the certificate status HCS topic, so
+// the change can be checked without trusting the database.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  Client,
+  PrivateKey,
+  AccountId,
+  TokenMintTransaction,
+  TransferTransaction,
+  Hbar,
+} from 'npm:@hashgraph/sdk@^2.75.0';
+import { generateAndUploadCertificate } from '../mint-certificate/_shared/certificate-generator.ts';
+import {
+  createAttestationTopic,
+  publishAttestation,
+  MAX_REASON_LENGTH,
+  type CertificateAttestation,
+} from './_shared/attestation.ts';
+
+console.log('Certificate Admin Function Started');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ATTESTATION_TOPIC_SETTING = 'certificate_attestation_topic_id';
+
+interface AdminRequest {
+  action: 'revoke' | 'reissue';
+  certificateId: string;
+  reason: string;
+  holderName?: string; // reissue only; defaults to the learner's current username
+}
+
+type CertificateStatus = 'minting' | 'minted' | 'transferred' | 'failed' | 'revoked' | 'superseded';
+
+/**
+ * The nft_certificates columns this function reads
+ */
+interface NftCertificate {
+  id: string;
+  user_id: string;
+  course_id: string;
+  course_title: string;
+  completion_date: string;
+  token_id: string;
+  collection_id: string | null;
+  serial_number: number;
+  certificate_number: string;
+  certificate_data: { courseName?: string } | null;
+  status: CertificateStatus;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Database user ID of the caller, from the wallet-login JWT
+ */
+async function getUserIdFromAuth(authHeader: string | null): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+  if (token.split('.').length !== 3) return null;
+
+  const authClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const { data: { user }, error } = await authClient.auth.getUser();
+  if (error || !user) return null;
+
+  // wallet-login stores the database user ID in app_metadata; user_metadata is
+  // writable by the user, so it cannot be trusted for the admin check
+  return user.app_metadata?.user_id ?? null;
+}
+
+function createHederaClient(): { client: Client; operatorId: AccountId; privateKey: PrivateKey } {
+  const operatorId = Deno.env.get('HEDERA_OPERATOR_ID');
+  const operatorKey = Deno.env.get('HEDERA_OPERATOR_KEY');
+
+  if (!operatorId || !operatorKey) {
+    throw new Error('Certificate service not configured');
+  }
+
+  let privateKey: PrivateKey;
+  try {
+    privateKey = PrivateKey.fromStringECDSA(operatorKey);
+  } catch {
+    privateKey = PrivateKey.fromStringED25519(operatorKey);
+  }
+
+  const client = Client.forTestnet();
+  const accountId = AccountId.fromString(operatorId);
+  client.setOperator(accountId, privateKey);
+  client.setDefaultMaxTransactionFee(new Hbar(100));
+
+  return { client, operatorId: accountId, privateKey };
+}
+
+/**
+ * Topic attestations are published to, created on first use
+ */
+async function getAttestationTopicId(
+  supabase: SupabaseClient,
+  client: Client,
+  privateKey: PrivateKey
+): Promise<string> {
+  const configured = Deno.env.get('CERTIFICATE_ATTESTATION_TOPIC_ID');
+  if (configured) return configured;
+
+  const { data: setting } = await supabase
+    .from('platform_settings')
+    .select('setting_value')
+    .eq('setting_key', ATTESTATION_TOPIC_SETTING)
+    .maybeSingle();
+
+  if (setting?.setting_value) return String(setting.setting_value);
+
+  console.log('🏗️ Creating certificate attestation topic...');
+  const topicId = await createAttestationTopic(client, privateKey);
+  console.log(`✅ Attestation topic created: ${topicId}`);
+
+  await supabase.from('platform_settings').insert({
+    setting_key: ATTESTATION_TOPIC_SETTING,
+    setting_value: topicId,
+    description: 'HCS topic for signed certificate revocation and reissue attestations',
+  });
+
+  return topicId;
+}
+
+/**
+ * Mint a replacement certificate and send it to the learner
+ *
+ * @returns The new nft_certificates row
+ */
+async function mintReplacement(
+  supabase: SupabaseClient,
+  original: NftCertificate,
+  holderName: string,
+  hederaAccountId: string,
+  hedera: ReturnType<typeof createHederaClient>
+): Promise<NftCertificate> {
+  const { client, operatorId, privateKey } = hedera;
+
+  const hmacSecret = Deno.env.get('HEDERA_HMAC_SECRET');
+  if (!hmacSecret) {
+    throw new Error('Certificate signing not configured');
+  }
+
+  const { data: certNumber } = await supabase
+    .rpc('generate_certificate_number')
+    .single();
+
+  const certificateNumber = certNumber || `W3V-${new Date().getFullYear()}-${Date.now()}`;
+  const courseName = original.certificate_data?.courseName || original.course_title;
+  const completionDate = original.completion_date;
+
+  console.log(`🎓 Reissuing ${original.certificate_number} as ${certificateNumber}`);
+
+  const pinataApiKey = Deno.env.get('PINATA_API_KEY');
+  const pinataApiSecret = Deno.env.get('PINATA_API_SECRET');
+  const pinataConfig = pinataApiKey && pinataApiSecret
+    ? { apiKey: pinataApiKey, apiSecret: pinataApiSecret }
+    : undefined;
+
+  // Reissues use the course's current template
+  const [{ data: course }, { data: template }] = await Promise.all([
+    supabase.from('courses').select('track, difficulty').eq('id', original.course_id).maybeSingle(),
+    supabase.rpc('get_certificate_template', { p_course_id: original.course_id }).maybeSingle(),
+  ]);
+
+  const certificatePackage = await generateAndUploadCertificate(
+    { userName: holderName, hederaAccountId },
+    {
+      courseName,
+      track: course?.track,
+      difficulty: course?.difficulty,
+      template: template?.svg_template,
+    },
+    certificateNumber,
+    completionDate,
+    client,
+    privateKey,
+    hmacSecret,
+    Deno.env.get('VITE_APP_URL') || 'https://web3versity.netlify.app',
+    pinataConfig
+  );
+
+  // Hedera has a 100-byte limit, so only the IPFS hash (or HFS IDs) go on-chain
+  const onChainMetadata = certificatePackage.ipfsMetadataHash || JSON.stringify({
+    h: certificatePackage.metadataFileId,
+    i: certificatePackage.imageFileId,
+  });
+
+  // Reissues stay in the original's collection
+  const mintTx = await new TokenMintTransaction()
+    .setTokenId(original.token_id)
+    .setMetadata([new TextEncoder().encode(onChainMetadata)])
+    .setMaxTransactionFee(new Hbar(20))
+    .freezeWith(client);
+
+  const mintSign = await mintTx.sign(privateKey);
+  const mintSubmit = await mintSign.execute(client);
+  const mintReceipt = await mintSubmit.getReceipt(client);
+  const serialNumber = mintReceipt.serials[0].toNumber();
+  const mintTransactionId = mintSubmit.transactionId.toString();
+
+  console.log(`✅ Replacement minted - Serial: ${serialNumber}`);
+
+  // The learner already holds the original, so the collection is associated
+  let transferTransactionId: string | undefined;
+  let status: CertificateStatus = 'minted';
+
+  try {
+    const transferTx = await new TransferTransaction()
+      .addNftTransfer(original.token_id, serialNumber, operatorId, AccountId.fromString(hederaAccountId))
+      .setTransactionMemo(`Web3Versity Certificate: ${certificateNumber}`)
+      .setMaxTransactionFee(new Hbar(20))
+      .freezeWith(client);
+
+    const transferSign = await transferTx.sign(privateKey);
+    const transferSubmit = await transferSign.execute(client);
+    await transferSubmit.getReceipt(client);
+
+    transferTransactionId = transferSubmit.transactionId.toString();
+    status = 'transferred';
+  } catch (transferError) {
+    const message = transferError instanceof Error ? transferError.message : String(transferError);
+    if (!message.includes('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT')) {
+      throw transferError;
+    }
+    console.log('⚠️ Recipient account not associated with token. Replacement stays in treasury.');
+  }
+
+  // Log transaction FIRST (before certificate insert due to FK constraint).
+  // The consensus timestamp is filled in when the ledger is reconciled.
+  const { error: transactionError } = await supabase.from('transactions').insert({
+    user_id: original.user_id,
+    transaction_type: 'nft_mint_certificate',
+    transaction_id: mintTransactionId,
+    amount_hbar: 0,
+    status: 'success',
+    from_account: operatorId.toString(),
+    to_account: hederaAccountId,
+    related_course_id: original.course_id,
+    memo: `Certificate ${certificateNumber} (reissue of ${original.certificate_number})`,
+    consensus_timestamp: null,
+    hashscan_url: `https://hashscan.io/testnet/token/${original.token_id}/${serialNumber}`,
+  });
+
+  if (transactionError) {
+    console.error('Failed to record mint transaction:', transactionError);
+  }
+
+  const now = new Date().toISOString();
+  const { data: replacement, error: insertError } = await supabase
+    .from('nft_certificates')
+    .insert({
+      user_id: original.user_id,
+      course_id: original.course_id,
+      course_title: original.course_title,
+      completion_date: completionDate,
+      token_id: original.token_id,
+      collection_id: original.collection_id,
+      issued_at: now,
+      created_at: now,
+      serial_number: serialNumber,
+      certificate_number: certificateNumber,
+      verification_code: certificateNumber,
+      image_hfs_file_id: certificatePackage.imageFileId,
+      metadata_hfs_file_id: certificatePackage.metadataFileId,
+      metadata_uri: `hfs://${certificatePackage.metadataFileId}`,
+      image_uri: `hfs://${certificatePackage.imageFileId}`,
+      ipfs_image_hash: certificatePackage.ipfsImageHash,
+      ipfs_image_url: certificatePackage.ipfsImageUrl,
+      ipfs_metadata_hash: certificatePackage.ipfsMetadataHash,
+      ipfs_metadata_url: certificatePackage.ipfsMetadataUrl,
+      svg_content: certificatePackage.svgContent,
+      platform_signature: certificatePackage.platformSignature,
+      certificate_data: {
+        courseName,
+        userName: holderName,
+        completionDate,
+        certificateNumber,
+        userHederaAccountId: hederaAccountId,
+      },
+      mint_transaction_id: mintTransactionId,
+      transaction_id: mintTransactionId,
+      transfer_transaction_id: transferTransactionId,
+      transferred_at: transferTransactionId ? now : null,
+      status,
+      supersedes: original.id,
+    })
+    .select()
+    .single();
+
+  if (insertError || !replacement) {
+    console.error('Database insert error:', insertError);
+    throw new Error(`Replacement ${certificateNumber} was minted but could not be recorded`);
+  }
+
+  return replacement;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let hedera: ReturnType<typeof createHederaClient> | null = null;
+
+  // Puts a claimed certificate back if the action fails before it takes effect
+  let releaseClaim: (() => Promise<void>) | null = null;
+
+  try {
+    const { action, certificateId, reason, holderName }: AdminRequest = await req.json();
+    console.log('📥 Certificate admin request:', { action, certificateId });
+
+    const adminId = await getUserIdFromAuth(req.headers.get('Authorization'));
+    if (!adminId) {
+      return jsonResponse({ error: 'Unauthorized - Please connect your wallet' }, 401);
+    }
+
+    // Create Supabase client with service role
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: admin } = await supabase
+      .from('users')
+      .select('is_admin')
+      .eq('id', adminId)
+      .maybeSingle();
+
+    if (!admin?.is_admin) {
+      return jsonResponse({ error: 'Only admins can revoke or reissue certificates' }, 403);
+    }
+
+    if (action !== 'revoke' && action !== 'reissue') {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+    const trimmedReason = reason?.trim().substring(0, MAX_REASON_LENGTH);
+    if (!trimmedReason) {
+      return jsonResponse({ error: 'A reason is required' }, 400);
+    }
+
+    const { data: certificate } = await supabase
+      .from('nft_certificates')
+      .select('*')
+      .eq('id', certificateId)
+      .maybeSingle<NftCertificate>();
+
+    if (!certificate) {
+      return jsonResponse({ error: 'Certificate not found' }, 404);
+    }
+
+    if (certificate.status === 'revoked' || certificate.status === 'superseded') {
+      return jsonResponse({ error: `Certificate is already ${certificate.status}` }, 400);
+    }
+
+    if (certificate.status !== 'minted' && certificate.status !== 'transferred') {
+      return jsonResponse({ error: `Certificate was never issued (status: ${certificate.status})` }, 400);
+    }
+
+    const now = new Date().toISOString();
+
+    // Claim the certificate before minting or publishing anything, so two
+    // admins (or a double click) cannot revoke or reissue it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('nft_certificates')
+      .update(action === 'revoke'
+        ? {
+            status: 'revoked',
+            revoked_at: now,
+            revoked_by: adminId,
+            revocation_reason: trimmedReason,
+          }
+        : { status: 'superseded' })
+      .eq('id', certificate.id)
+      .in('status', ['minted', 'transferred'])
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('Database update error:', claimError);
+      return jsonResponse({ error: 'Failed to update certificate' }, 500);
+    }
+
+    if (!claimed) {
+      return jsonResponse({ error: 'Certificate is already being revoked or reissued' }, 409);
+    }
+
+    releaseClaim = async () => {
+      const { error: releaseError } = await supabase
+        .from('nft_certificates')
+        .update({
+          status: certificate.status,
+          revoked_at: null,
+          revoked_by: null,
+          revocation_reason: null,
+        })
+        .eq('id', certificate.id);
+
+      if (releaseError) {
+        console.error('Failed to release certificate claim:', releaseError);
+      }
+    };
+
+    hedera = createHederaClient();
+    const { client, privateKey } = hedera;
+    const topicId = await getAttestationTopicId(supabase, client, privateKey);
+
+    const attestation: CertificateAttestation = {
+      v: 1,
+      type: action === 'revoke' ? 'certificate.revoked' : 'certificate.reissued',
+      certificate: certificate.certificate_number,
+      token: certificate.token_id,
+      serial: certificate.serial_number,
+      reason: trimmedReason,
+      at: now,
+    };
+
+    let replacement: NftCertificate | null = null;
+
+    if (action === 'reissue') {
+      const { data: user } = await supabase
+        .from('users')
+        .select('username, hedera_account_id')
+        .eq('id', certificate.user_id)
+        .single();
+
+      if (!user?.hedera_account_id) {
+        await releaseClaim();
+        releaseClaim = null;
+        client.close();
+        return jsonResponse({ error: 'Certificate holder not found' }, 404);
+      }
+
+      replacement = await mintReplacement(
+        supabase,
+        certificate,
+        holderName?.trim() || user.username,
+        user.hedera_account_id,
+        hedera
+      );
+
+      // The replacement exists on-chain, so the original stays superseded from here on
+      releaseClaim = null;
+
+      const { error: linkError } = await supabase
+        .from('nft_certificates')
+        .update({ superseded_by: replacement.id })
+        .eq('id', certificate.id);
+
+      if (linkError) {
+        console.error('Database update error:', linkError);
+      }
+
+      attestation.supersededBy = {
+        certificate: replacement.certificate_number,
+        serial: replacement.serial_number,
+      };
+    }
+
+    console.log(`📝 Publishing ${attestation.type} attestation to ${topicId}...`);
+    const published = await publishAttestation(attestation, topicId, client, privateKey);
+    console.log(`✅ Attestation published - Sequence: ${published.sequenceNumber}`);
+    releaseClaim = null;
+
+    client.close();
+
+    const { error: eventError } = await supabase.from('certificate_events').insert({
+      certificate_id: certificate.id,
+      event_type: action === 'revoke' ? 'revoked' : 'reissued',
+      reason: trimmedReason,
+      actor_id: adminId,
+      related_certificate_id: replacement?.id ?? null,
+      hcs_topic_id: topicId,
+      hcs_sequence_number: published.sequenceNumber,
+      hcs_transaction_id: published.transactionId,
+    });
+
+    if (eventError) {
+      console.error('Failed to record certificate event:', eventError);
+    }
+
+    return jsonResponse({
+      success: true,
+      certificate: {
+        id: certificate.id,
+        certificateNumber: certificate.certificate_number,
+        status: action === 'revoke' ? 'revoked' : 'superseded',
+      },
+      replacement: replacement && {
+        id: replacement.id,
+        certificateNumber: replacement.certificate_number,
+        tokenId: replacement.token_id,
+        serialNumber: replacement.serial_number,
+        status: replacement.status,
+      },
+      attestation: {
+        topicId,
+        sequenceNumber: published.sequenceNumber,
+        transactionId: published.transactionId,
+      },
+    });
+  } catch (error) {
+    console.error('❌ Certificate admin action failed:', error);
+    hedera?.client.close();
+    await releaseClaim?.();
+
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Certificate admin action failed',
+    }, 500);
+  }
+});
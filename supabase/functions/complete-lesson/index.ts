@@ -0,0 +1,208 @@
+// Lesson Completion Edge Function
+// Server-authoritative lesson completion: re-grades quiz answers against the
+// stored correctAnswer values, enforces a minimum time on the lesson and awards
+// XP atomically through the complete_lesson() database function.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+console.log('Lesson Completion Function Started');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PASSING_SCORE = 70;
+
+// Minimum seconds between opening a lesson and completing it
+const MIN_SECONDS_TEXT = 15;
+const MAX_SECONDS_TEXT = 120;
+const SECONDS_PER_QUIZ_QUESTION = 5;
+const MIN_SECONDS_INTERACTIVE = 15;
+const MIN_SECONDS_PRACTICAL = 30;
+
+interface CompleteLessonRequest {
+  lessonId: string;
+  courseId: string;
+  /** Selected option index per quiz question (quiz lessons only) */
+  answers?: (number | null)[];
+}
+
+interface LessonRow {
+  id: string;
+  course_id: string;
+  lesson_type: string;
+  duration_minutes: number | null;
+  content: any;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Minimum time a learner must spend on a lesson before it can be completed.
+ * Text lessons scale with their estimated duration (a quarter of it, capped).
+ */
+function getMinimumSeconds(lesson: LessonRow): number {
+  switch (lesson.lesson_type) {
+    case 'text': {
+      const estimated = Math.round((lesson.duration_minutes || 0) * 60 * 0.25);
+      return Math.min(Math.max(estimated, MIN_SECONDS_TEXT), MAX_SECONDS_TEXT);
+    }
+    case 'quiz':
+      return (lesson.content?.questions?.length || 1) * SECONDS_PER_QUIZ_QUESTION;
+    case 'practical':
+      return MIN_SECONDS_PRACTICAL;
+    default:
+      return MIN_SECONDS_INTERACTIVE;
+  }
+}
+
+/**
+ * Grade quiz answers against the stored questions
+ *
+ * @returns Score percentage (0-100), or null if the answers are malformed
+ */
+function gradeQuiz(lesson: LessonRow, answers: unknown): number | null {
+  const questions: { correctAnswer: number }[] = lesson.content?.questions || [];
+
+  if (questions.length === 0 || !Array.isArray(answers) || answers.length !== questions.length) {
+    return null;
+  }
+
+  const correct = questions.filter((question, index) => answers[index] === question.correctAnswer).length;
+  return Math.round((correct / questions.length) * 100);
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { lessonId, courseId, answers }: CompleteLessonRequest = await req.json();
+
+    if (!lessonId || !courseId) {
+      return jsonResponse({ success: false, error: 'lessonId and courseId are required' }, 400);
+    }
+
+    // The user must come from the session JWT, never from the request body
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const authClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user: authUser }, error: authError } = await authClient.auth.getUser();
+    // wallet-login stores the database user ID in app_metadata; user_metadata
+    // is writable by the user and must not be trusted for identity
+    const userId = authUser?.app_metadata?.user_id;
+
+    if (authError || !userId) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Service role client for grading and the completion RPC
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: lesson, error: lessonError } = await supabase
+      .from('lessons')
+      .select('id, course_id, lesson_type, duration_minutes, content')
+      .eq('id', lessonId)
+      .maybeSingle();
+
+    if (lessonError || !lesson) {
+      return jsonResponse({ success: false, error: 'Lesson not found' }, 404);
+    }
+
+    // Re-grade quizzes server-side; any client-side score is ignored
+    let score: number | null = null;
+    if (lesson.lesson_type === 'quiz') {
+      score = gradeQuiz(lesson as LessonRow, answers);
+
+      if (score === null) {
+        return jsonResponse({ success: false, error: 'Answers do not match the quiz questions' }, 400);
+      }
+
+      if (score < PASSING_SCORE) {
+        return jsonResponse({
+          success: false,
+          error: `Quiz score below ${PASSING_SCORE}% - not marked as complete`,
+          scorePercentage: score,
+        }, 400);
+      }
+    }
+
+    // Enforce time on lesson using the server-recorded start time
+    const { data: session } = await supabase
+      .from('lesson_sessions')
+      .select('started_at')
+      .eq('user_id', userId)
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    const minimumSeconds = getMinimumSeconds(lesson as LessonRow);
+    const elapsedSeconds = session
+      ? Math.floor((Date.now() - new Date(session.started_at).getTime()) / 1000)
+      : 0;
+
+    if (elapsedSeconds < minimumSeconds) {
+      const retryAfterSeconds = minimumSeconds - elapsedSeconds;
+      return jsonResponse({
+        success: false,
+        error: session
+          ? `Please spend a little more time on this lesson (${retryAfterSeconds}s left)`
+          : 'Lesson session not started. Reopen the lesson and try again.',
+        retryAfterSeconds,
+      }, 429);
+    }
+
+    const { data: result, error: completeError } = await supabase
+      .rpc('complete_lesson', {
+        p_user_id: userId,
+        p_lesson_id: lessonId,
+        p_course_id: courseId,
+        p_score: score,
+        p_time_spent_seconds: elapsedSeconds,
+      })
+      .single();
+
+    if (completeError) {
+      console.error('❌ complete_lesson failed:', completeError);
+      return jsonResponse({ success: false, error: completeError.message }, 400);
+    }
+
+    console.log('✅ Lesson completed:', { userId, lessonId, ...result });
+
+    return jsonResponse({
+      success: true,
+      xpEarned: result.xp_earned,
+      oldLevel: result.old_level,
+      newLevel: result.new_level,
+      leveledUp: result.new_level > result.old_level,
+      courseComplete: result.course_complete,
+      alreadyCompleted: result.already_completed,
+      scorePercentage: score,
+    });
+  } catch (error) {
+    console.error('Lesson completion error:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
@@ -3,6 +3,13 @@
  *
  * Compiles and deploys Solidity contracts to Hedera testnet.
  * This function handles the server-side Hedera SDK operations.
+ *
+ * Actions:
+ * - compile: Compile one or more Solidity files, returning ABIs, bytecode
+ *   and compiler errors/warnings with line numbers (no operator needed)
+ * - deploy: Compile the sources and deploy one of their contracts
+ * - execute / query: Call a deployed contract, either with ABI-encoded
+ *   `functionData` or with simple typed `functionParams`
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
@@ -16,27 +23,64 @@ import {
   AccountId,
   Hbar,
 } from 'npm:@hashgraph/sdk@^2.40.0';
+import solc from 'npm:solc@0.8.20';
 
 // Hedera configuration from environment variables
 const HEDERA_NETWORK = Deno.env.get('HEDERA_NETWORK') || 'testnet';
 const HEDERA_OPERATOR_ID = Deno.env.get('HEDERA_OPERATOR_ID');
 const HEDERA_OPERATOR_KEY = Deno.env.get('HEDERA_OPERATOR_KEY');
 
+// Limits for learner-written sources
+const MAX_SOURCE_FILES = 10;
+const MAX_SOURCE_BYTES = 100000;
+const SOURCE_FILE_NAME_REGEX = /^[A-Za-z0-9_][A-Za-z0-9_./-]{0,63}\.sol$/;
+
 interface DeployRequest {
   healthCheck?: boolean;
-  action: 'deploy' | 'execute' | 'query';
+  action: 'compile' | 'deploy' | 'execute' | 'query';
+  // For compile/deploy
+  sources?: Record<string, string>; // file name -> Solidity source
   // For deploy
   contractName?: string;
-  solidityCode?: string;
+  solidityCode?: string; // Single-file shorthand for sources
   constructorParams?: any[];
+  constructorData?: string; // ABI-encoded constructor arguments (hex)
   // For execute/query
   contractId?: string;
   functionName?: string;
   functionParams?: Array<{ type: string; value: any }>;
+  functionData?: string; // ABI-encoded call data including the selector (hex)
   gas?: number;
   outputType?: string; // For query - helps decode return values (e.g., "string", "uint256", "(uint256, uint256)")
 }
 
+interface CompilerDiagnostic {
+  severity: 'error' | 'warning' | 'info';
+  type: string; // e.g. ParserError, TypeError, Warning
+  errorCode?: string;
+  message: string;
+  formattedMessage?: string;
+  file: string | null;
+  line: number | null; // 1-based
+  column: number | null; // 1-based
+  endLine: number | null;
+  endColumn: number | null;
+}
+
+interface CompiledContract {
+  name: string;
+  file: string;
+  abi: unknown[];
+  bytecode: string; // hex, empty for interfaces and abstract contracts
+  userdoc?: unknown;
+}
+
+interface CompileResult {
+  success: boolean;
+  contracts: CompiledContract[];
+  diagnostics: CompilerDiagnostic[];
+}
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -65,6 +109,21 @@ serve(async (req) => {
       );
     }
 
+    // Compiling doesn't touch the network
+    if (body.action === 'compile') {
+      const result = compileSources(body.sources || {});
+
+      return new Response(
+        JSON.stringify(result),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
     // Validate environment variables
     if (!HEDERA_OPERATOR_ID || !HEDERA_OPERATOR_KEY) {
       throw new Error('Hedera operator credentials not configured');
@@ -137,24 +196,20 @@ async function deployContract(
   error?: string;
 }> {
   try {
-    if (!data.solidityCode) {
+    const sources = data.sources ?? (data.solidityCode ? { 'Contract.sol': data.solidityCode } : null);
+    if (!sources) {
       throw new Error('Solidity code is required');
     }
 
     console.log('Compiling and deploying contract...');
 
-    // Note: In production, you'd use solc (Solidity compiler) here
-    // For now, we'll use pre-compiled bytecode for common contracts
-    const bytecode = await compileContract(data.solidityCode, data.contractName || 'Contract');
+    const bytecode = compileForDeploy(sources, data.contractName || 'Contract');
 
     // Log bytecode info
     console.log(`Deploying with bytecode length: ${bytecode.length} bytes`);
-    console.log(`First 20 bytes: ${Array.from(bytecode.slice(0, 20)).map(b => b.toString(16).padStart(2, '0')).join('')}`);
 
-    // IMPORTANT: Try deploying with hex string instead of Uint8Array
-    // Convert Uint8Array back to hex string for Hedera SDK
-    const bytecodeHex = Array.from(bytecode).map(b => b.toString(16).padStart(2, '0')).join('');
-    console.log(`Bytecode as hex string (first 40 chars): ${bytecodeHex.substring(0, 40)}`);
+    // IMPORTANT: Deploy with a hex string instead of Uint8Array
+    const bytecodeHex = bytesToHex(bytecode);
 
     // Deploy contract using ContractCreateFlow
     // Dynamically set gas based on bytecode size
@@ -167,7 +222,11 @@ async function deployContract(
       .setBytecode(bytecodeHex) // Hex string format
       .setGas(gasLimit) // Dynamic gas based on contract complexity
       .setConstructorParameters(
-        data.constructorParams ? buildConstructorParams(data.constructorParams) : new ContractFunctionParameters()
+        data.constructorData
+          ? hexToBytes(data.constructorData)
+          : data.constructorParams
+            ? buildConstructorParams(data.constructorParams)
+            : new ContractFunctionParameters()
       );
 
     const txResponse = await contractCreateTx.execute(client);
@@ -213,18 +272,23 @@ async function executeContract(
       throw new Error('Contract ID and function name are required');
     }
 
-    const params = data.functionParams
-      ? buildFunctionParams(data.functionParams)
-      : new ContractFunctionParameters();
-
     console.log(`📝 Executing: contractId=${data.contractId}, function=${data.functionName}`);
     console.log(`⛽ Gas limit: ${data.gas || 300000}`);
 
-    const executeTx = await new ContractExecuteTransaction()
+    const transaction = new ContractExecuteTransaction()
       .setContractId(data.contractId)
-      .setGas(data.gas || 300000) // Increased default gas from 100k to 300k
-      .setFunction(data.functionName, params)
-      .execute(client);
+      .setGas(data.gas || 300000); // Increased default gas from 100k to 300k
+
+    if (data.functionData) {
+      transaction.setFunctionParameters(hexToBytes(data.functionData));
+    } else {
+      const params = data.functionParams
+        ? buildFunctionParams(data.functionParams)
+        : new ContractFunctionParameters();
+      transaction.setFunction(data.functionName, params);
+    }
+
+    const executeTx = await transaction.execute(client);
 
     const receipt = await executeTx.getReceipt(client);
 
@@ -254,6 +318,7 @@ async function queryContract(
 ): Promise<{
   success: boolean;
   result?: any;
+  resultData?: string;
   error?: string;
 }> {
   try {
@@ -261,18 +326,30 @@ async function queryContract(
       throw new Error('Contract ID and function name are required');
     }
 
-    const params = data.functionParams
-      ? buildFunctionParams(data.functionParams)
-      : new ContractFunctionParameters();
-
     const query = new ContractCallQuery()
       .setContractId(data.contractId)
-      .setGas(data.gas || 300000)
-      .setFunction(data.functionName, params);
+      .setGas(data.gas || 300000);
+
+    if (data.functionData) {
+      query.setFunctionParameters(hexToBytes(data.functionData));
+    } else {
+      const params = data.functionParams
+        ? buildFunctionParams(data.functionParams)
+        : new ContractFunctionParameters();
+      query.setFunction(data.functionName, params);
+    }
 
     const result = await query.execute(client);
 
     console.log(`Queried function: ${data.functionName}`);
+
+    // ABI-encoded calls are decoded by the caller, which has the ABI
+    if (data.functionData) {
+      return {
+        success: true,
+        resultData: `0x${bytesToHex(result.asBytes())}`,
+      };
+    }
     console.log(`Output type: ${data.outputType || 'unknown'}`);
 
     // Decode result based on output type
@@ -324,83 +401,148 @@ async function queryContract(
 }
 
 /**
- * Compile Solidity code (simplified - uses pre-compiled bytecode)
- * In production, integrate with @solidity/solc or similar
+ * Compile Solidity sources with solc (standard JSON)
+ *
+ * Files may import each other by path (e.g. `import "./Ownable.sol";`);
+ * imports of files that were not sent are reported as errors.
  */
-async function compileContract(solidityCode: string, contractName: string): Promise<Uint8Array> {
-  console.log(`📝 Compile request: contractName="${contractName}", codeLength=${solidityCode.length}`);
-
-  // Pre-compiled bytecode for common contracts (includes constructor bytecode + runtime bytecode)
-  const PRECOMPILED_CONTRACTS: Record<string, string> = {
-    'Simple Counter': '608060405234801561001057600080fd5b506102a8806100206000396000f3fe608060405234801561001057600080fd5b506004361061004c5760003560e01c806306661abd146100515780632baeceb71461006f578063a87d942c14610079578063d09de08a14610097575b600080fd5b6100596100a1565b6040516100669190610143565b60405180910390f35b6100776100a7565b005b610081610106565b60405161008e9190610143565b60405180910390f35b61009f61010f565b005b60005481565b60008054116100eb576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016100e2906101bb565b60405180910390fd5b60016000808282546100fd919061020a565b92505081905550565b60008054905090565b6001600080828254610121919061023e565b92505081905550565b6000819050919050565b61013d8161012a565b82525050565b60006020820190506101586000830184610134565b92915050565b600082825260208201905092915050565b7f436f756e74206973207a65726f00000000000000000000000000000000000000600082015250565b60006101a5600d8361015e565b91506101b08261016f565b602082019050919050565b600060208201905081810360008301526101d481610198565b9050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b60006102158261012a565b91506102208361012a565b9250828203905081811115610238576102376101db565b5b92915050565b60006102498261012a565b91506102548361012a565b925082820190508082111561026c5761026b6101db565b5b9291505056fea264697066735822122051697613e2eacbbc91d5130aff102b3067b1de59ae26892816957bd26d239ac664736f6c63430008140033',
-    'Message Storage': '608060405234801561001057600080fd5b5033600160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550610727806100616000396000f3fe608060405234801561001057600080fd5b50600436106100415760003560e01c8063368b8772146100465780638da5cb5b14610062578063ce6d41de14610080575b600080fd5b610060600480360381019061005b91906102c3565b61009e565b005b61006a6100b1565b604051610077919061034d565b60405180910390f35b6100886100d7565b60405161009591906103e7565b60405180910390f35b80600090816100ad919061061f565b5050565b600160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b6060600080546100e690610438565b80601f016020809104026020016040519081016040528092919081815260200182805461011290610438565b801561015f5780601f106101345761010080835404028352916020019161015f565b820191906000526020600020905b81548152906001019060200180831161014257829003601f168201915b5050505050905090565b6000604051905090565b600080fd5b600080fd5b600080fd5b600080fd5b6000601f19601f8301169050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6101d082610187565b810181811067ffffffffffffffff821117156101ef576101ee610198565b5b80604052505050565b6000610202610169565b905061020e82826101c7565b919050565b600067ffffffffffffffff82111561022e5761022d610198565b5b61023782610187565b9050602081019050919050565b82818337600083830152505050565b600061026661026184610213565b6101f8565b90508281526020810184848401111561028257610281610182565b5b61028d848285610244565b509392505050565b600082601f8301126102aa576102a961017d565b5b81356102ba848260208601610253565b91505092915050565b6000602082840312156102d9576102d8610173565b5b600082013567ffffffffffffffff8111156102f7576102f6610178565b5b61030384828501610295565b91505092915050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b60006103378261030c565b9050919050565b6103478161032c565b82525050565b6000602082019050610362600083018461033e565b92915050565b600081519050919050565b600082825260208201905092915050565b60005b838110156103a2578082015181840152602081019050610387565b60008484015250505050565b60006103b982610368565b6103c38185610373565b93506103d3818560208601610384565b6103dc81610187565b840191505092915050565b6000602082019050818103600083015261040181846103ae565b905092915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b6000600282049050600182168061045057607f821691505b60208210810361046357610462610409565b5b50919050565b60008190508160005260206000209050919050565b60006020601f8301049050919050565b600082821b905092915050565b6000600883026104cb7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8261048e565b6104d5868361048e565b95508019841693508086168417925050509392505050565b6000819050919050565b6000819050919050565b600061051c610517610512846104ed565b6104f7565b6104ed565b9050919050565b6000819050919050565b61053683610501565b61054a61054282610523565b84845461049b565b825550505050565b600090565b61055f610552565b61056a81848461052d565b505050565b5b8181101561058e57610583600082610557565b600181019050610570565b5050565b601f8211156105d3576105a481610469565b6105ad8461047e565b810160208510156105bc578190505b6105d06105c88561047e565b83018261056f565b50505b505050565b600082821c905092915050565b60006105f6600019846008026105d8565b1980831691505092915050565b600061060f83836105e5565b9150826002028217905092915050565b61062882610368565b67ffffffffffffffff81111561064157610640610198565b5b61064b8254610438565b610656828285610592565b600060209050601f8311600181146106895760008415610677578287015190505b6106818582610603565b8655506106e9565b601f19841661069786610469565b60005b828110156106bf5784890151825560018201915060208501945060208101905061069a565b868310156106dc57848901516106d8601f8916826105e5565b8355505b6001600288020188555050505b50505050505056fea264697066735822122082041c3c0fd96935845fc3b70865684ce44c12979773d3751ca3fd92deacd4aa64736f6c63430008140033',
-    'Simple Voting': '608060405234801561001057600080fd5b5061057c806100206000396000f3fe608060405234801561001057600080fd5b50600436106100625760003560e01c806309eef43e1461006757806341c12a70146100975780634717f97c146100a157806390cf581c146100c0578063b5b47f42146100ca578063fb286c65146100e8575b600080fd5b610081600480360381019061007c91906103a6565b610106565b60405161008e91906103ee565b60405180910390f35b61009f610126565b005b6100a9610226565b6040516100b7929190610422565b60405180910390f35b6100c8610237565b005b6100d2610337565b6040516100df919061044b565b60405180910390f35b6100f061033d565b6040516100fd919061044b565b60405180910390f35b60026020528060005260406000206000915054906101000a900460ff1681565b600260003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff16156101b3576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016101aa906104c3565b60405180910390fd5b60018060008282546101c59190610512565b925050819055506001600260003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff021916908315150217905550565b600080600054600154915091509091565b600260003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff16156102c4576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016102bb906104c3565b60405180910390fd5b60016000808282546102d69190610512565b925050819055506001600260003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff021916908315150217905550565b60015481565b60005481565b600080fd5b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b600061037382610348565b9050919050565b61038381610368565b811461038e57600080fd5b50565b6000813590506103a08161037a565b92915050565b6000602082840312156103bc576103bb610343565b5b60006103ca84828501610391565b91505092915050565b60008115159050919050565b6103e8816103d3565b82525050565b600060208201905061040360008301846103df565b92915050565b6000819050919050565b61041c81610409565b82525050565b60006040820190506104376000830185610413565b6104446020830184610413565b9392505050565b60006020820190506104606000830184610413565b92915050565b600082825260208201905092915050565b7f416c726561647920766f74656400000000000000000000000000000000000000600082015250565b60006104ad600d83610466565b91506104b882610477565b602082019050919050565b600060208201905081810360008301526104dc816104a0565b9050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b600061051d82610409565b915061052883610409565b92508282019050808211156105405761053f6104e3565b5b9291505056fea264697066735822122097c25db73e839965620283786b6341c3796b0e061376478d893a5a3ca130b74564736f6c63430008140033',
+function compileSources(sources: Record<string, string>): CompileResult {
+  const fileNames = Object.keys(sources);
+
+  if (fileNames.length === 0) {
+    throw new Error('At least one Solidity file is required');
+  }
+  if (fileNames.length > MAX_SOURCE_FILES) {
+    throw new Error(`A contract can have at most ${MAX_SOURCE_FILES} files`);
+  }
+  fileNames.forEach((name) => {
+    if (!SOURCE_FILE_NAME_REGEX.test(name)) {
+      throw new Error(`Invalid file name: ${name}`);
+    }
+  });
+
+  const totalBytes = Object.values(sources).reduce(
+    (sum, content) => sum + new TextEncoder().encode(content).length,
+    0
+  );
+  if (totalBytes > MAX_SOURCE_BYTES) {
+    throw new Error(`Sources must be ${MAX_SOURCE_BYTES / 1000} KB or less`);
+  }
+
+  const input = {
+    language: 'Solidity',
+    sources: Object.fromEntries(
+      Object.entries(sources).map(([name, content]) => [name, { content }])
+    ),
+    settings: {
+      optimizer: { enabled: false },
+      evmVersion: 'london', // Hedera compatibility
+      outputSelection: {
+        '*': {
+          '*': ['abi', 'evm.bytecode.object', 'userdoc'],
+        },
+      },
+    },
   };
 
-  // Try exact match first (case-insensitive)
-  for (const [name, bytecode] of Object.entries(PRECOMPILED_CONTRACTS)) {
-    if (contractName.toLowerCase() === name.toLowerCase()) {
-      console.log(`✅ Exact match found: ${name}`);
-      console.log(`Bytecode length: ${bytecode.length} hex chars = ${bytecode.length / 2} bytes`);
+  const output = JSON.parse(
+    solc.compile(JSON.stringify(input), {
+      import: (path: string) => ({ error: `File not found: ${path}` }),
+    })
+  );
 
-      // Remove 0x prefix if present
-      const cleanBytecode = bytecode.startsWith('0x') ? bytecode.slice(2) : bytecode;
+  const diagnostics: CompilerDiagnostic[] = (output.errors || []).map((error: any) => {
+    const location = error.sourceLocation;
+    const content = location ? sources[location.file] : undefined;
+    const start = content !== undefined ? locateOffset(content, location.start) : null;
+    const end = content !== undefined ? locateOffset(content, location.end) : null;
 
-      // Parse bytecode carefully
-      const hexPairs = cleanBytecode.match(/.{1,2}/g);
-      if (!hexPairs) {
-        throw new Error(`Invalid bytecode format for ${name}`);
-      }
+    return {
+      severity: error.severity,
+      type: error.type,
+      errorCode: error.errorCode,
+      message: error.message,
+      formattedMessage: error.formattedMessage,
+      file: location?.file ?? null,
+      line: start?.line ?? null,
+      column: start?.column ?? null,
+      endLine: end?.line ?? null,
+      endColumn: end?.column ?? null,
+    };
+  });
 
-      const bytes = new Uint8Array(hexPairs.map(byte => parseInt(byte, 16)));
-      console.log(`Parsed to ${bytes.length} bytes`);
-      console.log(`First 10 bytes: ${Array.from(bytes.slice(0, 10)).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' ')}`);
+  const contracts: CompiledContract[] = [];
+  Object.entries(output.contracts || {}).forEach(([file, fileContracts]: [string, any]) => {
+    Object.entries(fileContracts).forEach(([name, artifact]: [string, any]) => {
+      contracts.push({
+        name,
+        file,
+        abi: artifact.abi || [],
+        bytecode: artifact.evm?.bytecode?.object || '',
+        userdoc: artifact.userdoc,
+      });
+    });
+  });
 
-      return bytes;
-    }
-  }
+  return { success: true, contracts, diagnostics };
+}
 
-  // Try partial match in contract name
-  for (const [name, bytecode] of Object.entries(PRECOMPILED_CONTRACTS)) {
-    if (contractName.toLowerCase().includes(name.toLowerCase().replace(' ', ''))) {
-      console.log(`✅ Partial name match found: ${name}`);
+/**
+ * Line and column (both 1-based) of a solc source offset
+ *
+ * solc reports offsets in UTF-8 bytes, not characters.
+ */
+function locateOffset(content: string, byteOffset: number): { line: number; column: number } {
+  const bytes = new TextEncoder().encode(content);
+  const prefix = new TextDecoder().decode(bytes.slice(0, Math.max(byteOffset, 0)));
+  const lines = prefix.split('\n');
 
-      const cleanBytecode = bytecode.startsWith('0x') ? bytecode.slice(2) : bytecode;
-      const hexPairs = cleanBytecode.match(/.{1,2}/g);
-      if (!hexPairs) {
-        throw new Error(`Invalid bytecode format for ${name}`);
-      }
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
 
-      const bytes = new Uint8Array(hexPairs.map(byte => parseInt(byte, 16)));
-      console.log(`Parsed to ${bytes.length} bytes`);
-      return bytes;
-    }
+/**
+ * Compile sources and pick the contract to deploy
+ *
+ * @throws Error listing the first compile error, or if the contract is not found
+ */
+function compileForDeploy(sources: Record<string, string>, contractName: string): Uint8Array {
+  const result = compileSources(sources);
+
+  const errors = result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Compilation failed: ${errors[0].formattedMessage || errors[0].message}`);
   }
 
-  // Try match in Solidity code
-  for (const [name, bytecode] of Object.entries(PRECOMPILED_CONTRACTS)) {
-    const contractNameInCode = name.replace(' ', '');
-    if (solidityCode.includes(`contract ${contractNameInCode}`)) {
-      console.log(`✅ Code match found: contract ${contractNameInCode}`);
+  const deployable = result.contracts.filter((contract) => contract.bytecode.length > 0);
+  const contract =
+    deployable.find((candidate) => candidate.name === contractName) ??
+    (deployable.length === 1 ? deployable[0] : undefined);
 
-      const cleanBytecode = bytecode.startsWith('0x') ? bytecode.slice(2) : bytecode;
-      const hexPairs = cleanBytecode.match(/.{1,2}/g);
-      if (!hexPairs) {
-        throw new Error(`Invalid bytecode format for ${name}`);
-      }
+  if (!contract) {
+    const names = deployable.map((candidate) => candidate.name).join(', ');
+    throw new Error(`Contract "${contractName}" not found. Deployable contracts: ${names || 'none'}`);
+  }
 
-      const bytes = new Uint8Array(hexPairs.map(byte => parseInt(byte, 16)));
-      console.log(`Parsed to ${bytes.length} bytes`);
-      return bytes;
-    }
+  console.log(`Compiled ${contract.file}:${contract.name} (${contract.bytecode.length / 2} bytes)`);
+
+  return hexToBytes(contract.bytecode);
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+    throw new Error('Invalid hex data');
+  }
+
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
   }
+  return bytes;
+}
 
-  // No match found - throw error instead of using fallback
-  const supported = Object.keys(PRECOMPILED_CONTRACTS).join(', ');
-  console.error(`❌ No matching pre-compiled contract found`);
-  console.error(`Contract name provided: "${contractName}"`);
-  console.error(`Supported contracts: ${supported}`);
-  throw new Error(`Contract "${contractName}" not supported. Supported contracts: ${supported}`);
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
 /**
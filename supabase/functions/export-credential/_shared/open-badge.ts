@@ -0,0 +1,365 @@
+/**
+ * Open Badges 3.0 Credentials (Deno/Edge Function Version)
+ *
+ * Builds certificates as Open Badges 3.0 / W3C Verifiable Credentials and
+ * signs them with an Ed25519 Data Integrity proof (eddsa-jcs-2022). Batch
+ * verification reports are signed the same way.
+ *
+ * The issuer is a did:key, so the public key is part of the issuer ID and
+ * any standard verifier can check a credential without contacting us.
+ *
+ * Spec references:
+ * - https://www.imsglobal.org/spec/ob/v3p0/
+ * - https://www.w3.org/TR/vc-di-eddsa/#eddsa-jcs-2022
+ */
+
+import { PrivateKey, PublicKey } from 'npm:@hashgraph/sdk@^2.75.0';
+
+export const CREDENTIAL_CONTEXT = [
+  'https://www.w3.org/ns/credentials/v2',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json',
+];
+
+const CRYPTOSUITE = 'eddsa-jcs-2022';
+
+// Multicodec prefix for an Ed25519 public key
+const ED25519_MULTICODEC = [0xed, 0x01];
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export interface IssuerKey {
+  privateKey: PrivateKey;
+  did: string; // did:key:z6Mk...
+  verificationMethod: string; // did:key:z6Mk...#z6Mk...
+  publicKeyMultibase: string;
+}
+
+export interface DataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: typeof CRYPTOSUITE;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: 'assertionMethod';
+  proofValue?: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: {
+    id: string;
+    type: string[];
+    name: string;
+    url: string;
+  };
+  validFrom: string;
+  name: string;
+  credentialSubject: Record<string, unknown>;
+  proof?: DataIntegrityProof;
+  [key: string]: unknown;
+}
+
+export interface OpenBadgeCredential extends VerifiableCredential {
+  evidence: Record<string, unknown>[];
+}
+
+export interface CertificateCredentialData {
+  id: string;
+  certificateNumber: string;
+  userName: string;
+  hederaAccountId: string;
+  courseId: string;
+  courseName: string;
+  completionDate: string;
+  issuedAt: string;
+  tokenId: string;
+  serialNumber: number;
+  imageUrl?: string;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function base58Encode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  return '1'.repeat(zeros) + digits.reverse().map((d) => BASE58_ALPHABET[d]).join('');
+}
+
+function base58Decode(text: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < text.length && text[zeros] === '1') zeros++;
+
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character: ${char}`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  return new Uint8Array([...new Array(zeros).fill(0), ...bytes.reverse()]);
+}
+
+/**
+ * JSON Canonicalization Scheme (RFC 8785)
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item)).join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record).filter((key) => record[key] !== undefined).sort();
+  return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`).join(',')}}`;
+}
+
+async function sha256(text: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Issuer identity from the platform's Ed25519 credential signing key
+ */
+export function getIssuerKey(privateKeyString: string): IssuerKey {
+  const privateKey = PrivateKey.fromStringED25519(privateKeyString);
+  const publicKeyMultibase = 'z' + base58Encode(
+    new Uint8Array([...ED25519_MULTICODEC, ...privateKey.publicKey.toBytesRaw()])
+  );
+  const did = `did:key:${publicKeyMultibase}`;
+
+  return {
+    privateKey,
+    did,
+    verificationMethod: `${did}#${publicKeyMultibase}`,
+    publicKeyMultibase,
+  };
+}
+
+/**
+ * Public key of a did:key verification method
+ */
+function resolveDidKey(verificationMethod: string): PublicKey {
+  const match = verificationMethod.match(/^did:key:(z[1-9A-HJ-NP-Za-km-z]+)#\1$/);
+  if (!match) {
+    throw new Error('Verification method must be a did:key');
+  }
+
+  const bytes = base58Decode(match[1].substring(1));
+  if (bytes.length !== 34 || bytes[0] !== ED25519_MULTICODEC[0] || bytes[1] !== ED25519_MULTICODEC[1]) {
+    throw new Error('Verification method is not an Ed25519 key');
+  }
+
+  return PublicKey.fromBytesED25519(bytes.slice(2));
+}
+
+// ============================================================================
+// Credentials
+// ============================================================================
+
+function issuerProfile(issuer: IssuerKey, appUrl: string): VerifiableCredential['issuer'] {
+  return {
+    id: issuer.did,
+    type: ['Profile'],
+    name: 'Web3Versity',
+    url: appUrl,
+  };
+}
+
+/**
+ * Open Badges 3.0 credential for a course certificate
+ *
+ * The Hedera NFT is included as evidence, so a verifier can also check the
+ * certificate on-chain.
+ */
+export function buildCertificateCredential(
+  certificate: CertificateCredentialData,
+  issuer: IssuerKey,
+  appUrl: string
+): OpenBadgeCredential {
+  const hashScanUrl = `https://hashscan.io/testnet/token/${certificate.tokenId}/${certificate.serialNumber}`;
+
+  return {
+    '@context': CREDENTIAL_CONTEXT,
+    id: `urn:uuid:${certificate.id}`,
+    type: ['VerifiableCredential', 'OpenBadgeCredential'],
+    issuer: issuerProfile(issuer, appUrl),
+    validFrom: new Date(certificate.issuedAt).toISOString(),
+    name: `${certificate.courseName} Certificate`,
+    credentialSubject: {
+      type: ['AchievementSubject'],
+      identifier: [
+        {
+          type: 'IdentityObject',
+          identityType: 'name',
+          hashed: false,
+          identityHash: certificate.userName,
+        },
+        {
+          type: 'IdentityObject',
+          identityType: 'accountId',
+          hashed: false,
+          identityHash: `hedera:testnet:${certificate.hederaAccountId}`,
+        },
+      ],
+      activityEndDate: new Date(certificate.completionDate).toISOString(),
+      achievement: {
+        id: `${appUrl}/courses/${certificate.courseId}`,
+        type: ['Achievement'],
+        achievementType: 'Certificate',
+        name: certificate.courseName,
+        description: `Completion of the ${certificate.courseName} course on Web3Versity`,
+        criteria: {
+          narrative: 'Completed every lesson of the course on Web3Versity.',
+        },
+        ...(certificate.imageUrl && {
+          image: { id: certificate.imageUrl, type: 'Image' },
+        }),
+      },
+    },
+    evidence: [
+      {
+        id: hashScanUrl,
+        type: ['Evidence'],
+        name: 'Hedera NFT certificate',
+        description: `Certificate ${certificate.certificateNumber} minted as serial #${certificate.serialNumber} of token ${certificate.tokenId} on Hedera testnet`,
+        genre: 'Blockchain record',
+      },
+      {
+        id: `${appUrl}/verify?cert=${certificate.certificateNumber}`,
+        type: ['Evidence'],
+        name: 'Web3Versity verification page',
+        description: 'Shows whether the certificate has since been revoked or reissued',
+      },
+    ],
+  };
+}
+
+/**
+ * Signable report of a batch verification
+ *
+ * Records what the platform found for each row at the time of the check, so
+ * an employer can keep it on file and show it to others without them
+ * contacting us. It is not a statement about the certificates' status later.
+ */
+export function buildVerificationReport(
+  results: Record<string, unknown>[],
+  issuer: IssuerKey,
+  appUrl: string
+): VerifiableCredential {
+  const checkedAt = new Date().toISOString();
+
+  return {
+    '@context': [CREDENTIAL_CONTEXT[0]],
+    id: `urn:uuid:${crypto.randomUUID()}`,
+    type: ['VerifiableCredential', 'CertificateVerificationReport'],
+    issuer: issuerProfile(issuer, appUrl),
+    validFrom: checkedAt,
+    name: 'Web3Versity certificate verification report',
+    credentialSubject: {
+      type: 'CertificateVerificationReport',
+      checkedAt,
+      network: 'hedera:testnet',
+      total: results.length,
+      valid: results.filter((row) => row.valid).length,
+      results,
+    },
+  };
+}
+
+function proofHashData(credential: VerifiableCredential, proofConfig: DataIntegrityProof): Promise<Uint8Array> {
+  const { proof: _proof, ...document } = credential;
+
+  return Promise.all([
+    sha256(canonicalize({ ...proofConfig, '@context': credential['@context'] })),
+    sha256(canonicalize(document)),
+  ]).then(([proofHash, documentHash]) => new Uint8Array([...proofHash, ...documentHash]));
+}
+
+/**
+ * Add an eddsa-jcs-2022 Data Integrity proof
+ */
+export async function signCredential<T extends VerifiableCredential>(
+  credential: T,
+  issuer: IssuerKey
+): Promise<T> {
+  const proofConfig: DataIntegrityProof = {
+    type: 'DataIntegrityProof',
+    cryptosuite: CRYPTOSUITE,
+    created: new Date().toISOString(),
+    verificationMethod: issuer.verificationMethod,
+    proofPurpose: 'assertionMethod',
+  };
+
+  const signature = issuer.privateKey.sign(await proofHashData(credential, proofConfig));
+
+  return {
+    ...credential,
+    proof: { ...proofConfig, proofValue: 'z' + base58Encode(signature) },
+  };
+}
+
+/**
+ * Check a credential's proof and that it was signed by its issuer
+ */
+export async function verifyCredential(credential: VerifiableCredential): Promise<{ valid: boolean; error?: string }> {
+  const proof = credential?.proof;
+
+  if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== CRYPTOSUITE) {
+    return { valid: false, error: `Expected a ${CRYPTOSUITE} Data Integrity proof` };
+  }
+
+  if (!proof.proofValue?.startsWith('z')) {
+    return { valid: false, error: 'Proof value is not base58btc encoded' };
+  }
+
+  const issuerId = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+  if (proof.verificationMethod.split('#')[0] !== issuerId) {
+    return { valid: false, error: 'Credential was not signed by its issuer' };
+  }
+
+  try {
+    const publicKey = resolveDidKey(proof.verificationMethod);
+    const { proofValue, ...proofConfig } = proof;
+    const valid = publicKey.verify(
+      await proofHashData(credential, proofConfig),
+      base58Decode(proofValue.substring(1))
+    );
+
+    return valid ? { valid } : { valid, error: 'Signature does not match' };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Invalid proof' };
+  }
+}
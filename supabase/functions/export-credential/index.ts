@@ -0,0 +1,205 @@
+// Open Badges 3.0 Credential Export Edge Function
+// Exports NFT certificates as signed Verifiable Credentials
+//
+// Requests:
+//   GET                                - Issuer profile with the public key credentials are signed with
+//   POST { certificateId }             - Signed credential for one of the caller's certificates
+//   POST { action: 'verify', credential } - Check a credential's proof and the certificate's current status,
+//                                           or a signed batch verification report's proof
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildCertificateCredential,
+  getIssuerKey,
+  signCredential,
+  verifyCredential,
+  type IssuerKey,
+  type VerifiableCredential,
+} from './_shared/open-badge.ts';
+
+console.log('Credential Export Function Started');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function getAppUrl(): string {
+  return Deno.env.get('VITE_APP_URL') || 'https://web3versity.netlify.app';
+}
+
+function getIssuer(): IssuerKey {
+  const signingKey = Deno.env.get('CREDENTIAL_SIGNING_KEY');
+  if (!signingKey) {
+    throw new Error('Credential signing not configured');
+  }
+  return getIssuerKey(signingKey);
+}
+
+/**
+ * Database user ID of the caller, from the wallet-login JWT
+ */
+async function getUserIdFromAuth(authHeader: string | null): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+  if (token.split('.').length !== 3) return null;
+
+  const authClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const { data: { user }, error } = await authClient.auth.getUser();
+  if (error || !user) return null;
+
+  // Only app_metadata is set server-side by wallet-login
+  return user.app_metadata?.user_id ?? null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Issuer profile: the published key third parties verify against
+    if (req.method === 'GET') {
+      const issuer = getIssuer();
+
+      return jsonResponse({
+        '@context': ['https://www.w3.org/ns/credentials/v2', 'https://w3id.org/security/multikey/v1'],
+        id: issuer.did,
+        type: ['Profile'],
+        name: 'Web3Versity',
+        url: getAppUrl(),
+        verificationMethod: [
+          {
+            id: issuer.verificationMethod,
+            type: 'Multikey',
+            controller: issuer.did,
+            publicKeyMultibase: issuer.publicKeyMultibase,
+          },
+        ],
+        assertionMethod: [issuer.verificationMethod],
+      });
+    }
+
+    const { action = 'export', certificateId, credential } = await req.json();
+
+    // Create Supabase client with service role
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (action === 'verify') {
+      const issuer = getIssuer();
+      const result = await verifyCredential(credential as VerifiableCredential);
+      const issuedByPlatform = credential?.issuer?.id === issuer.did;
+
+      // Reports describe what was found when they were signed; there is no status to look up
+      if (Array.isArray(credential?.type) && credential.type.includes('CertificateVerificationReport')) {
+        return jsonResponse({
+          valid: result.valid && issuedByPlatform,
+          proofValid: result.valid,
+          issuedByPlatform,
+          status: null,
+          error: result.error || (!issuedByPlatform ? 'Report was not issued by Web3Versity' : undefined),
+        });
+      }
+
+      // The proof can't say whether the certificate was revoked since
+      let status: string | null = null;
+      const id = typeof credential?.id === 'string' ? credential.id.replace(/^urn:uuid:/, '') : null;
+      if (result.valid && issuedByPlatform && id) {
+        const { data } = await supabase
+          .from('nft_certificates')
+          .select('status')
+          .eq('id', id)
+          .maybeSingle();
+
+        status = data?.status === 'revoked' || data?.status === 'superseded'
+          ? data.status
+          : data ? 'active' : null;
+      }
+
+      return jsonResponse({
+        valid: result.valid && issuedByPlatform && status === 'active',
+        proofValid: result.valid,
+        issuedByPlatform,
+        status,
+        error: result.error || (!issuedByPlatform ? 'Credential was not issued by Web3Versity' : undefined),
+      });
+    }
+
+    if (action !== 'export') {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+    const userId = await getUserIdFromAuth(req.headers.get('Authorization'));
+    if (!userId) {
+      return jsonResponse({ error: 'Unauthorized - Please connect your wallet' }, 401);
+    }
+
+    if (!certificateId) {
+      return jsonResponse({ error: 'Missing certificateId' }, 400);
+    }
+
+    const { data: certificate } = await supabase
+      .from('nft_certificates')
+      .select('*')
+      .eq('id', certificateId)
+      .maybeSingle();
+
+    if (!certificate || certificate.user_id !== userId) {
+      return jsonResponse({ error: 'Certificate not found' }, 404);
+    }
+
+    if (certificate.status !== 'minted' && certificate.status !== 'transferred') {
+      return jsonResponse({ error: `Certificate cannot be exported (status: ${certificate.status})` }, 400);
+    }
+
+    const issuer = getIssuer();
+    const data = certificate.certificate_data || {};
+
+    const unsigned = buildCertificateCredential(
+      {
+        id: certificate.id,
+        certificateNumber: certificate.certificate_number,
+        userName: data.userName,
+        hederaAccountId: data.userHederaAccountId,
+        courseId: certificate.course_id,
+        courseName: data.courseName || certificate.course_title,
+        completionDate: certificate.completion_date || data.completionDate,
+        issuedAt: certificate.issued_at || certificate.created_at,
+        tokenId: certificate.token_id,
+        serialNumber: certificate.serial_number,
+        imageUrl: certificate.ipfs_image_url || undefined,
+      },
+      issuer,
+      getAppUrl()
+    );
+
+    const signed = await signCredential(unsigned, issuer);
+    console.log(`✅ Exported credential for ${certificate.certificate_number}`);
+
+    return jsonResponse({ success: true, credential: signed });
+  } catch (error) {
+    console.error('❌ Credential request failed:', error);
+
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Credential request failed',
+    }, 500);
+  }
+});
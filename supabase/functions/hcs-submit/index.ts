@@ -3,13 +3,22 @@
  *
  * Submits messages to Hedera Consensus Service topics.
  * This function handles the server-side Hedera SDK operations.
+ *
+ * Actions:
+ * - submit (default): the operator submits a message
+ * - create-topic: the operator creates a topic, optionally with a submit key
+ * - submit-signed: the operator pays for a message the learner already
+ *   signed with the topic's submit key
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import {
   Client,
+  TopicCreateTransaction,
   TopicMessageSubmitTransaction,
+  Transaction,
   PrivateKey,
+  PublicKey,
   AccountId,
 } from 'npm:@hashgraph/sdk@^2.40.0';
 
@@ -21,12 +30,30 @@ const HEDERA_OPERATOR_KEY = Deno.env.get('HEDERA_OPERATOR_KEY');
 // HCS Topic ID for message board
 const MESSAGE_BOARD_TOPIC_ID = Deno.env.get('HCS_MESSAGE_BOARD_TOPIC');
 
+// Hedera limits
+const MAX_MEMO_BYTES = 100;
+const MAX_MESSAGE_BYTES = 1024; // One chunk
+
 interface SubmitRequest {
   healthCheck?: boolean;
+  action?: 'submit' | 'create-topic' | 'submit-signed';
   topicId?: string;
-  message: string;
-  username: string;
+  message?: string;
+  username?: string;
   userAccountId?: string;
+  rawMessage?: string; // Submitted as-is instead of the { username, message } payload
+  memo?: string;
+  submitKey?: string; // DER-encoded public key
+  transactionBytes?: string; // base64, learner-signed TopicMessageSubmitTransaction
+}
+
+interface SubmitResult {
+  success: boolean;
+  transactionId?: string;
+  consensusTimestamp?: string;
+  sequenceNumber?: number;
+  topicId?: string;
+  error?: string;
 }
 
 serve(async (req) => {
@@ -62,13 +89,6 @@ serve(async (req) => {
       throw new Error('Hedera operator credentials not configured');
     }
 
-    // Use provided topic ID or default
-    const topicId = body.topicId || MESSAGE_BOARD_TOPIC_ID;
-
-    if (!topicId) {
-      throw new Error('Topic ID not provided and no default configured');
-    }
-
     // Initialize Hedera client
     const client = Client.forTestnet();
     client.setOperator(
@@ -76,8 +96,22 @@ serve(async (req) => {
       PrivateKey.fromString(HEDERA_OPERATOR_KEY)
     );
 
-    // Submit message to topic
-    const result = await submitMessage(client, topicId, body);
+    let result: SubmitResult;
+
+    if (body.action === 'create-topic') {
+      result = await createTopic(client, body);
+    } else {
+      // Use provided topic ID or default
+      const topicId = body.topicId || MESSAGE_BOARD_TOPIC_ID;
+
+      if (!topicId) {
+        throw new Error('Topic ID not provided and no default configured');
+      }
+
+      result = body.action === 'submit-signed'
+        ? await submitSignedMessage(client, topicId, body)
+        : await submitMessage(client, topicId, body);
+    }
 
     return new Response(
       JSON.stringify(result),
@@ -116,24 +150,22 @@ async function submitMessage(
   client: Client,
   topicId: string,
   data: SubmitRequest
-): Promise<{
-  success: boolean;
-  transactionId?: string;
-  consensusTimestamp?: string;
-  sequenceNumber?: number;
-  error?: string;
-}> {
+): Promise<SubmitResult> {
   try {
     // Create message payload with username and message
-    const messagePayload = {
+    const messagePayload = data.rawMessage ?? JSON.stringify({
       username: data.username,
       message: data.message,
       userAccountId: data.userAccountId,
       timestamp: new Date().toISOString(),
-    };
+    });
+
+    // Convert to bytes
+    const messageBytes = new TextEncoder().encode(messagePayload);
 
-    // Convert to JSON string and then to bytes
-    const messageBytes = new TextEncoder().encode(JSON.stringify(messagePayload));
+    if (messageBytes.length > MAX_MESSAGE_BYTES) {
+      return { success: false, error: `Message must be ${MAX_MESSAGE_BYTES} bytes or less` };
+    }
 
     // Submit message to topic
     const submitTx = await new TopicMessageSubmitTransaction()
@@ -154,7 +186,7 @@ async function submitMessage(
       success: true,
       transactionId: submitTx.transactionId.toString(),
       consensusTimestamp: record.consensusTimestamp.toString(),
-      sequenceNumber: record.consensusTimestamp.nanos, // Approximation
+      sequenceNumber: Number(receipt.topicSequenceNumber),
     };
 
   } catch (error) {
@@ -165,3 +197,109 @@ async function submitMessage(
     };
   }
 }
+
+/**
+ * Create a topic paid for by the operator
+ *
+ * No admin key is set, so nobody (including the platform) can change or
+ * delete a learner's topic afterwards.
+ */
+async function createTopic(
+  client: Client,
+  data: SubmitRequest
+): Promise<SubmitResult> {
+  try {
+    const memo = data.memo ?? '';
+
+    if (new TextEncoder().encode(memo).length > MAX_MEMO_BYTES) {
+      return { success: false, error: `Topic memo must be ${MAX_MEMO_BYTES} bytes or less` };
+    }
+
+    const createTx = new TopicCreateTransaction().setTopicMemo(memo);
+
+    if (data.submitKey) {
+      createTx.setSubmitKey(PublicKey.fromString(data.submitKey));
+    }
+
+    const response = await createTx.freezeWith(client).execute(client);
+    const receipt = await response.getReceipt(client);
+
+    if (!receipt.topicId) {
+      throw new Error('Topic ID missing from receipt');
+    }
+
+    console.log(`Created topic ${receipt.topicId.toString()}`);
+    console.log(`Transaction ID: ${response.transactionId.toString()}`);
+
+    return {
+      success: true,
+      topicId: receipt.topicId.toString(),
+      transactionId: response.transactionId.toString(),
+    };
+
+  } catch (error) {
+    console.error('Error creating HCS topic:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Execute a message submission the learner signed with the topic's submit key
+ *
+ * The learner builds the transaction with the operator as payer; only
+ * single-chunk submissions to the requested topic are countersigned.
+ */
+async function submitSignedMessage(
+  client: Client,
+  topicId: string,
+  data: SubmitRequest
+): Promise<SubmitResult> {
+  try {
+    if (!data.transactionBytes) {
+      return { success: false, error: 'Signed transaction not provided' };
+    }
+
+    const bytes = Uint8Array.from(atob(data.transactionBytes), (char) => char.charCodeAt(0));
+    const transaction = Transaction.fromBytes(bytes);
+
+    if (!(transaction instanceof TopicMessageSubmitTransaction)) {
+      return { success: false, error: 'Not a topic message submission' };
+    }
+    if (transaction.topicId?.toString() !== topicId) {
+      return { success: false, error: 'Transaction is for a different topic' };
+    }
+    if (transaction.transactionId?.accountId?.toString() !== HEDERA_OPERATOR_ID) {
+      return { success: false, error: 'Transaction must be paid by the platform operator' };
+    }
+    if ((transaction.message?.length ?? 0) > MAX_MESSAGE_BYTES) {
+      return { success: false, error: `Message must be ${MAX_MESSAGE_BYTES} bytes or less` };
+    }
+
+    await transaction.sign(PrivateKey.fromString(HEDERA_OPERATOR_KEY!));
+    const response = await transaction.execute(client);
+
+    // Fails with INVALID_SIGNATURE if the submit key did not sign
+    const receipt = await response.getReceipt(client);
+    const record = await response.getRecord(client);
+
+    console.log(`Submitted signed message to topic ${topicId}`);
+    console.log(`Transaction ID: ${response.transactionId.toString()}`);
+
+    return {
+      success: true,
+      transactionId: response.transactionId.toString(),
+      consensusTimestamp: record.consensusTimestamp.toString(),
+      sequenceNumber: Number(receipt.topicSequenceNumber),
+    };
+
+  } catch (error) {
+    console.error('Error submitting signed message to HCS:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Badge NFT Image and Metadata (Deno/Edge Function Version)
+ *
+ * Renders a badge's emoji to an SVG medallion and builds its HIP-412
+ * metadata. Both are the same for everyone who earns the badge, so they are
+ * generated once per badge and reused for every mint.
+ */
+
+export type BadgeRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+export interface BadgeData {
+  id: string;
+  name: string;
+  description: string;
+  iconEmoji: string;
+  category: string;
+  rarity: BadgeRarity;
+  xpReward: number;
+}
+
+/** HIP-412 NFT metadata (https://hips.hedera.com/hip/hip-412) */
+export interface BadgeMetadata {
+  name: string;
+  creator: string;
+  description: string;
+  image: string;
+  type: string;
+  format: 'HIP412@2.0.0';
+  properties: Record<string, string | number>;
+  attributes: Array<{
+    trait_type: string;
+    value: string | number;
+    display_type?: string;
+  }>;
+}
+
+const RARITY_COLORS: Record<BadgeRarity, { from: string; to: string; ring: string }> = {
+  common: { from: '#9ca3af', to: '#4b5563', ring: '#e5e7eb' },
+  rare: { from: '#60a5fa', to: '#2563eb', ring: '#bfdbfe' },
+  epic: { from: '#a78bfa', to: '#7c3aed', ring: '#ddd6fe' },
+  legendary: { from: '#facc15', to: '#f97316', ring: '#fde68a' },
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render a badge as an SVG medallion: the emoji on a rarity-colored disc,
+ * with the badge name and rarity underneath
+ */
+export function generateBadgeSVG(badge: BadgeData): string {
+  const colors = RARITY_COLORS[badge.rarity] || RARITY_COLORS.common;
+  const name = badge.name.length > 28 ? `${badge.name.substring(0, 27)}…` : badge.name;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="480" viewBox="0 0 400 480">
+  <defs>
+    <linearGradient id="disc" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${colors.from}"/>
+      <stop offset="100%" stop-color="${colors.to}"/>
+    </linearGradient>
+  </defs>
+  <rect width="400" height="480" rx="32" fill="#ffffff"/>
+  <circle cx="200" cy="190" r="150" fill="${colors.ring}"/>
+  <circle cx="200" cy="190" r="132" fill="url(#disc)"/>
+  <text x="200" y="190" font-size="128" text-anchor="middle" dominant-baseline="central" font-family="'Apple Color Emoji','Segoe UI Emoji','Noto Color Emoji',sans-serif">${escapeXml(badge.iconEmoji || '🏆')}</text>
+  <text x="200" y="392" font-size="26" font-weight="bold" text-anchor="middle" fill="#111827" font-family="Arial,sans-serif">${escapeXml(name)}</text>
+  <text x="200" y="428" font-size="16" text-anchor="middle" fill="${colors.to}" font-family="Arial,sans-serif" letter-spacing="3">${badge.rarity.toUpperCase()} BADGE</text>
+  <text x="200" y="458" font-size="12" text-anchor="middle" fill="#6b7280" font-family="Arial,sans-serif">Web3Versity</text>
+</svg>`;
+}
+
+/**
+ * Build a badge's HIP-412 metadata
+ *
+ * @param badge - Badge details
+ * @param imageUri - Where the SVG is stored (ipfs://... or hfs://...)
+ */
+export function createBadgeMetadata(badge: BadgeData, imageUri: string): BadgeMetadata {
+  return {
+    name: `${badge.name} Badge`,
+    creator: 'Web3Versity',
+    description: badge.description,
+    image: imageUri,
+    type: 'image/svg+xml',
+    format: 'HIP412@2.0.0',
+    properties: {
+      badgeId: badge.id,
+      platform: 'Web3Versity',
+      network: 'Hedera Testnet',
+    },
+    attributes: [
+      { trait_type: 'Rarity', value: badge.rarity },
+      { trait_type: 'Category', value: badge.category },
+      { trait_type: 'XP Reward', value: badge.xpReward, display_type: 'number' },
+    ],
+  };
+}
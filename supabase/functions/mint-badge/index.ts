@@ -0,0 +1,551 @@
+// Hedera NFT Badge Minting Edge Function
+// Mints earned achievement badges as NFTs on Hedera Testnet, one collection per rarity
+//
+// Actions:
+//   collection - Token ID of the collection a badge is minted into (created
+//                on first use), so the wallet can associate it before claiming
+//   claim      - Mint the badge and transfer it to the learner. Claiming a
+//                badge that was minted but couldn't be transferred (token not
+//                associated) retries the transfer instead of minting again.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  Client,
+  PrivateKey,
+  AccountId,
+  TokenCreateTransaction,
+  TokenType,
+  TokenSupplyType,
+  TokenMintTransaction,
+  TransferTransaction,
+  Hbar,
+} from 'npm:@hashgraph/sdk@^2.75.0';
+import { uploadToHFS } from '../mint-certificate/_shared/certificate-generator.ts';
+import { uploadToPinata, uploadJSONToPinata } from '../mint-certificate/_shared/pinata-uploader.ts';
+import {
+  generateBadgeSVG,
+  createBadgeMetadata,
+  type BadgeData,
+  type BadgeRarity,
+} from './_shared/badge-metadata.ts';
+
+console.log('Badge Minting Function Started');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Hedera limits NFT metadata to 100 bytes, so only the metadata URI goes on-chain
+const MAX_NFT_METADATA_BYTES = 100;
+
+// A claim still marked in progress after this long died mid-way and may be retried
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+interface BadgeRequest {
+  action?: 'collection' | 'claim';
+  achievementId: string;
+}
+
+interface AchievementRow {
+  id: string;
+  name: string;
+  description: string;
+  icon_emoji: string | null;
+  category: string;
+  rarity: BadgeRarity;
+  xp_reward: number | null;
+  nft_metadata_uri: string | null;
+}
+
+interface ClaimResponse {
+  success: true;
+  badge: {
+    achievementId: string;
+    tokenId: string;
+    serialNumber: number;
+    metadataUri: string;
+    mintTransactionId: string;
+    transferTransactionId?: string;
+    hashScanUrl: string;
+    status: 'minted' | 'transferred';
+  };
+  warning?: string;
+  associationRequired?: boolean;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Database user ID of the caller, from the wallet-login JWT
+ */
+async function getUserIdFromAuth(authHeader: string | null): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+  if (token.split('.').length !== 3) return null;
+
+  const authClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const { data: { user }, error } = await authClient.auth.getUser();
+  if (error || !user) return null;
+
+  // wallet-login stores the database user ID in app_metadata; user_metadata
+  // is writable by the user and must not be trusted for identity
+  return user.app_metadata?.user_id ?? null;
+}
+
+function createHederaClient(): { client: Client; operatorId: AccountId; privateKey: PrivateKey } {
+  const operatorId = Deno.env.get('HEDERA_OPERATOR_ID');
+  const operatorKey = Deno.env.get('HEDERA_OPERATOR_KEY');
+
+  if (!operatorId || !operatorKey) {
+    throw new Error('Badge minting service not configured');
+  }
+
+  let privateKey: PrivateKey;
+  try {
+    privateKey = PrivateKey.fromStringECDSA(operatorKey);
+  } catch {
+    privateKey = PrivateKey.fromStringED25519(operatorKey);
+  }
+
+  const client = Client.forTestnet();
+  const accountId = AccountId.fromString(operatorId);
+  client.setOperator(accountId, privateKey);
+  client.setDefaultMaxTransactionFee(new Hbar(50));
+
+  return { client, operatorId: accountId, privateKey };
+}
+
+/**
+ * Token ID of the collection for a rarity, creating the collection if needed
+ */
+async function ensureCollection(
+  supabase: SupabaseClient,
+  rarity: BadgeRarity,
+  getClient: () => ReturnType<typeof createHederaClient>
+): Promise<string> {
+  const { data: existing } = await supabase
+    .from('badge_nft_collections')
+    .select('token_id')
+    .eq('rarity', rarity)
+    .maybeSingle();
+
+  if (existing) return existing.token_id;
+
+  console.log(`🏗️ Creating ${rarity} badge collection...`);
+  const { client, operatorId, privateKey } = getClient();
+  const label = rarity.charAt(0).toUpperCase() + rarity.slice(1);
+
+  const createTx = await new TokenCreateTransaction()
+    .setTokenName(`Web3Versity ${label} Badges`)
+    .setTokenSymbol(`W3VB${rarity.substring(0, 3).toUpperCase()}`)
+    .setTokenType(TokenType.NonFungibleUnique)
+    .setSupplyType(TokenSupplyType.Infinite)
+    .setTreasuryAccountId(operatorId)
+    .setSupplyKey(privateKey.publicKey)
+    .setAdminKey(privateKey.publicKey)
+    .setTokenMemo(`Web3Versity ${rarity} achievement badges`)
+    .setMaxTransactionFee(new Hbar(50))
+    .freezeWith(client);
+
+  const createSign = await createTx.sign(privateKey);
+  const createSubmit = await createSign.execute(client);
+  const createReceipt = await createSubmit.getReceipt(client);
+  const tokenId = createReceipt.tokenId?.toString();
+
+  if (!tokenId) {
+    throw new Error('Collection creation did not return a token ID');
+  }
+
+  console.log(`✅ ${label} badge collection created: ${tokenId}`);
+
+  const { error: insertError } = await supabase
+    .from('badge_nft_collections')
+    .insert({
+      rarity,
+      token_id: tokenId,
+      creation_transaction_id: createSubmit.transactionId.toString(),
+    });
+
+  if (insertError) {
+    // Another request created the collection at the same time; use theirs
+    const { data: winner } = await supabase
+      .from('badge_nft_collections')
+      .select('token_id')
+      .eq('rarity', rarity)
+      .single();
+
+    if (!winner) throw new Error('Failed to record badge collection');
+    console.warn(`⚠️ Collection ${tokenId} unused, ${winner.token_id} was created first`);
+    return winner.token_id;
+  }
+
+  return tokenId;
+}
+
+/**
+ * Metadata URI for a badge, uploading its image and HIP-412 metadata on first use
+ *
+ * Uses IPFS (via Pinata) when configured so wallets and HashScan can show the
+ * badge, and Hedera File Service otherwise.
+ */
+async function ensureBadgeMetadata(
+  supabase: SupabaseClient,
+  badge: BadgeData,
+  cachedUri: string | null,
+  client: Client,
+  privateKey: PrivateKey
+): Promise<string> {
+  if (cachedUri) return cachedUri;
+
+  console.log(`🎨 Generating badge image for ${badge.id}...`);
+  const svg = generateBadgeSVG(badge);
+
+  const pinataApiKey = Deno.env.get('PINATA_API_KEY');
+  const pinataApiSecret = Deno.env.get('PINATA_API_SECRET');
+
+  let metadataUri: string | undefined;
+
+  if (pinataApiKey && pinataApiSecret) {
+    try {
+      const image = await uploadToPinata(svg, `badge-${badge.id}.svg`, pinataApiKey, pinataApiSecret);
+      const metadata = await uploadJSONToPinata(
+        createBadgeMetadata(badge, image.ipfsUrl),
+        `badge-${badge.id}-metadata.json`,
+        pinataApiKey,
+        pinataApiSecret
+      );
+      metadataUri = metadata.ipfsUrl;
+    } catch (error) {
+      console.error('⚠️ Pinata upload failed (continuing with HFS only):', error);
+    }
+  }
+
+  if (!metadataUri) {
+    const imageFileId = await uploadToHFS(new TextEncoder().encode(svg), client, privateKey, `badge-${badge.id}.svg`);
+    const metadata = createBadgeMetadata(badge, `hfs://${imageFileId}`);
+    const metadataFileId = await uploadToHFS(
+      new TextEncoder().encode(JSON.stringify(metadata)),
+      client,
+      privateKey,
+      `badge-${badge.id}-metadata.json`
+    );
+    metadataUri = `hfs://${metadataFileId}`;
+  }
+
+  await supabase
+    .from('achievements')
+    .update({ nft_metadata_uri: metadataUri })
+    .eq('id', badge.id);
+
+  console.log(`✅ Badge metadata ready: ${metadataUri}`);
+  return metadataUri;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let hederaClient: ReturnType<typeof createHederaClient> | null = null;
+  const getClient = () => {
+    if (!hederaClient) hederaClient = createHederaClient();
+    return hederaClient;
+  };
+
+  // Hands a claimed badge back if the request fails part-way
+  let releaseClaim: (() => Promise<void>) | null = null;
+
+  try {
+    const { action = 'claim', achievementId }: BadgeRequest = await req.json();
+    console.log('📥 Badge request:', { action, achievementId });
+
+    const userId = await getUserIdFromAuth(req.headers.get('Authorization'));
+    if (!userId) {
+      return jsonResponse({ error: 'Unauthorized - Please connect your wallet' }, 401);
+    }
+
+    if (!achievementId) {
+      return jsonResponse({ error: 'achievementId is required' }, 400);
+    }
+
+    // Create Supabase client with service role
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Only badges the caller has earned can be claimed
+    const { data: earned, error: earnedError } = await supabase
+      .from('user_achievements')
+      .select(`
+        id,
+        nft_token_id,
+        nft_serial_number,
+        nft_transaction_id,
+        nft_metadata_uri,
+        nft_status,
+        achievements:achievement_id (
+          id,
+          name,
+          description,
+          icon_emoji,
+          category,
+          rarity,
+          xp_reward,
+          nft_metadata_uri
+        )
+      `)
+      .eq('user_id', userId)
+      .eq('achievement_id', achievementId)
+      .maybeSingle();
+
+    if (earnedError) {
+      console.error('❌ Badge lookup error:', earnedError);
+      return jsonResponse({ error: 'Failed to look up badge' }, 500);
+    }
+
+    if (!earned || !earned.achievements) {
+      return jsonResponse({ error: 'You have not earned this badge yet' }, 404);
+    }
+
+    const achievement: AchievementRow = earned.achievements;
+    const badge: BadgeData = {
+      id: achievement.id,
+      name: achievement.name,
+      description: achievement.description,
+      iconEmoji: achievement.icon_emoji || '🏆',
+      category: achievement.category,
+      rarity: achievement.rarity,
+      xpReward: achievement.xp_reward || 0,
+    };
+
+    // A badge stays in the collection it was minted into
+    const collectionTokenId = earned.nft_token_id || await ensureCollection(supabase, badge.rarity, getClient);
+
+    if (action === 'collection') {
+      return jsonResponse({ success: true, tokenId: collectionTokenId, rarity: badge.rarity });
+    }
+
+    if (earned.nft_status === 'transferred') {
+      return jsonResponse({
+        error: 'Badge already claimed',
+        details: { tokenId: earned.nft_token_id, serialNumber: earned.nft_serial_number },
+      }, 400);
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('username, hedera_account_id')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !user?.hedera_account_id) {
+      return jsonResponse({ error: 'User not found' }, 404);
+    }
+
+    // Claim the row before touching the network, so a second request for the
+    // same badge (e.g. a double click) cannot mint it again
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+    const { data: claim, error: claimError } = await supabase
+      .from('user_achievements')
+      .update({ nft_status: 'claiming', nft_claim_started_at: new Date().toISOString() })
+      .eq('id', earned.id)
+      .or(`nft_status.is.null,nft_status.eq.minted,and(nft_status.eq.claiming,nft_claim_started_at.lt.${staleBefore})`)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('❌ Badge claim error:', claimError);
+      return jsonResponse({ error: 'Failed to claim badge' }, 500);
+    }
+
+    if (!claim) {
+      return jsonResponse({ error: 'This badge is already being claimed' }, 409);
+    }
+
+    // Back to unminted, or to minted once the serial is recorded
+    let releaseStatus: 'minted' | null = earned.nft_serial_number ? 'minted' : null;
+    releaseClaim = async () => {
+      const { error: releaseError } = await supabase
+        .from('user_achievements')
+        .update({ nft_status: releaseStatus, nft_claim_started_at: null })
+        .eq('id', earned.id)
+        .eq('nft_status', 'claiming');
+
+      if (releaseError) {
+        console.error('Failed to release badge claim:', releaseError);
+      }
+    };
+
+    const { client, operatorId, privateKey } = getClient();
+    const recipientId = AccountId.fromString(user.hedera_account_id);
+
+    let serialNumber: number = earned.nft_serial_number;
+    let mintTransactionId: string = earned.nft_transaction_id;
+    let metadataUri: string = earned.nft_metadata_uri;
+
+    if (!serialNumber) {
+      metadataUri = await ensureBadgeMetadata(supabase, badge, achievement.nft_metadata_uri, client, privateKey);
+
+      const metadataBytes = new TextEncoder().encode(metadataUri);
+      if (metadataBytes.length > MAX_NFT_METADATA_BYTES) {
+        throw new Error(`Metadata URI too large: ${metadataBytes.length} bytes (max ${MAX_NFT_METADATA_BYTES})`);
+      }
+
+      console.log(`🪙 Minting ${badge.id} into ${collectionTokenId}...`);
+
+      const mintTx = await new TokenMintTransaction()
+        .setTokenId(collectionTokenId)
+        .setMetadata([metadataBytes])
+        .setMaxTransactionFee(new Hbar(20))
+        .freezeWith(client);
+
+      const mintSign = await mintTx.sign(privateKey);
+      const mintSubmit = await mintSign.execute(client);
+      const mintReceipt = await mintSubmit.getReceipt(client);
+
+      serialNumber = mintReceipt.serials[0].toNumber();
+      mintTransactionId = mintSubmit.transactionId.toString();
+
+      console.log(`✅ Badge minted - Serial: ${serialNumber}`);
+
+      // Log transaction FIRST (the badge row references it). The consensus
+      // timestamp is filled in when the ledger is reconciled with the mirror node.
+      const { error: transactionError } = await supabase.from('transactions').insert({
+        user_id: userId,
+        transaction_type: 'nft_mint_badge',
+        transaction_id: mintTransactionId,
+        amount_hbar: 0,
+        status: 'success',
+        from_account: operatorId.toString(),
+        to_account: user.hedera_account_id,
+        memo: `Badge: ${badge.name}`,
+        consensus_timestamp: null,
+        hashscan_url: `https://hashscan.io/testnet/token/${collectionTokenId}/${serialNumber}`,
+      });
+
+      if (transactionError) {
+        console.error('Failed to record mint transaction:', transactionError);
+      }
+
+      // Record the serial before transferring so a failed transfer is retried, not re-minted
+      const { error: updateError } = await supabase
+        .from('user_achievements')
+        .update({
+          nft_token_id: collectionTokenId,
+          nft_serial_number: serialNumber,
+          nft_transaction_id: mintTransactionId,
+          nft_metadata_uri: metadataUri,
+          nft_minted_at: new Date().toISOString(),
+        })
+        .eq('id', earned.id);
+
+      if (updateError) {
+        // Releasing the claim would let the next claim mint a second NFT. Keep
+        // the row in 'claiming' and clear its start time so the stale-claim
+        // takeover skips it until it is repaired from the logged serial.
+        console.error(`Failed to record minted serial ${collectionTokenId}/${serialNumber}:`, updateError);
+        releaseClaim = null;
+        await supabase
+          .from('user_achievements')
+          .update({ nft_claim_started_at: null })
+          .eq('id', earned.id)
+          .eq('nft_status', 'claiming');
+        throw new Error('Badge minted but could not be recorded. Please contact support.');
+      }
+      releaseStatus = 'minted';
+
+      await supabase
+        .from('achievements')
+        .update({ nft_collection_id: collectionTokenId })
+        .eq('id', badge.id);
+    }
+
+    // Attempt to transfer NFT to recipient
+    console.log(`📨 Attempting to transfer to ${user.hedera_account_id}...`);
+
+    let transferTransactionId: string | undefined;
+    let status: 'minted' | 'transferred' = 'minted';
+
+    try {
+      const transferTx = await new TransferTransaction()
+        .addNftTransfer(collectionTokenId, serialNumber, operatorId, recipientId)
+        .setTransactionMemo(`Web3Versity Badge: ${badge.name}`)
+        .setMaxTransactionFee(new Hbar(20))
+        .freezeWith(client);
+
+      const transferSign = await transferTx.sign(privateKey);
+      const transferSubmit = await transferSign.execute(client);
+      await transferSubmit.getReceipt(client);
+
+      transferTransactionId = transferSubmit.transactionId.toString();
+      status = 'transferred';
+      console.log('✅ Badge transferred successfully');
+    } catch (transferError) {
+      const message = transferError instanceof Error ? transferError.message : String(transferError);
+      console.error('Transfer failed:', message);
+
+      if (!message.includes('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT')) {
+        throw transferError;
+      }
+      console.log('⚠️ Recipient account not associated with token. Badge stays in treasury until claimed again.');
+    }
+
+    client.close();
+
+    if (status === 'transferred') {
+      await supabase
+        .from('user_achievements')
+        .update({ nft_status: 'transferred', nft_claim_started_at: null })
+        .eq('id', earned.id);
+    } else {
+      await releaseClaim();
+    }
+    releaseClaim = null;
+
+    const hashScanUrl = `https://hashscan.io/testnet/token/${collectionTokenId}/${serialNumber}`;
+
+    const response: ClaimResponse = {
+      success: true,
+      badge: {
+        achievementId: badge.id,
+        tokenId: collectionTokenId,
+        serialNumber,
+        metadataUri,
+        mintTransactionId,
+        transferTransactionId,
+        hashScanUrl,
+        status,
+      },
+    };
+
+    if (status === 'minted') {
+      response.warning = `Badge minted but not transferred. Associate token ${collectionTokenId} with your account and claim again.`;
+      response.associationRequired = true;
+    }
+
+    return jsonResponse(response);
+  } catch (error) {
+    console.error('❌ Badge minting failed:', error);
+    hederaClient?.client.close();
+    await releaseClaim?.();
+
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Badge minting failed',
+    }, 500);
+  }
+});
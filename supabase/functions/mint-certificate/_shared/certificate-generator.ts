@@ -206,6 +206,9 @@ export async function generateAndUploadCertificate(
   },
   courseData: {
     courseName: string;
+    track?: string;
+    difficulty?: string;
+    template?: string; // SVG template assigned to the course, if any
   },
   certificateNumber: string,
   completionDate: string,
@@ -252,7 +255,9 @@ export async function generateAndUploadCertificate(
     certificateNumber,
     verificationUrl,
     platformSignature,
-  });
+    track: courseData.track,
+    difficulty: courseData.difficulty,
+  }, courseData.template);
 
   // Validate SVG size
   validateSVGSize(svg, 4096);
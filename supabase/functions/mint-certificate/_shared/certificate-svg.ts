@@ -7,6 +7,7 @@
 
 // Use npm: specifier for QR code generation (works in Deno)
 import qrcode from 'npm:qrcode@1.5.3';
+import { DEFAULT_CERTIFICATE_TEMPLATE, renderCertificateTemplate } from './certificate-template.ts';
 
 export interface CertificateData {
   userName: string;
@@ -15,6 +16,8 @@ export interface CertificateData {
   certificateNumber: string;
   verificationUrl: string;
   platformSignature: string;
+  track?: string;
+  difficulty?: string;
 }
 
 /**
@@ -66,67 +69,24 @@ async function generateQRCodeSVG(url: string): Promise<string> {
 /**
  * Generate complete SVG certificate
  *
- * Creates a professional certificate SVG with:
- * - Gradient background
- * - Certificate content (name, course, date, cert number)
- * - Embedded QR code
- * - Platform signature display
+ * Fills the course's certificate template (or the built-in layout) with
+ * the certificate content and an embedded QR code. Long names and course
+ * titles are wrapped rather than truncated.
  *
- * Optimized to < 4KB (removes whitespace, uses short attribute names)
+ * Whitespace between tags is removed to keep the SVG small (< 4KB target)
  *
  * @param data - Certificate data
+ * @param template - SVG template with {{placeholders}}
  * @returns Optimized SVG string
  */
-export async function generateCertificateSVG(data: CertificateData): Promise<string> {
-  const { userName, courseName, completionDate, certificateNumber, verificationUrl, platformSignature } = data;
-
-  // Format date
-  const formattedDate = new Date(completionDate).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-
+export async function generateCertificateSVG(
+  data: CertificateData,
+  template: string = DEFAULT_CERTIFICATE_TEMPLATE
+): Promise<string> {
   // Generate QR code
-  const qrPath = await generateQRCodeSVG(verificationUrl);
-
-  // Build SVG (minified for size optimization)
-  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1000 700" width="1000" height="700">
-<defs>
-<linearGradient id="g1" x1="0%" y1="0%" x2="100%" y2="100%">
-<stop offset="0%" style="stop-color:#1e3a8a;stop-opacity:1"/>
-<stop offset="100%" style="stop-color:#3b82f6;stop-opacity:1"/>
-</linearGradient>
-<linearGradient id="g2" x1="0%" y1="0%" x2="100%" y2="0%">
-<stop offset="0%" style="stop-color:#fbbf24;stop-opacity:1"/>
-<stop offset="100%" style="stop-color:#f97316;stop-opacity:1"/>
-</linearGradient>
-</defs>
-<rect width="1000" height="700" fill="url(#g1)"/>
-<rect x="40" y="40" width="920" height="620" fill="#fefefe" opacity="0.95"/>
-<rect x="50" y="50" width="900" height="600" fill="none" stroke="url(#g2)" stroke-width="4"/>
-<g transform="translate(500,100)">
-<circle r="60" fill="url(#g2)" opacity="0.9"/>
-<text y="20" font-family="serif" font-size="64" font-weight="bold" fill="#fff" text-anchor="middle">★</text>
-</g>
-<text x="500" y="200" font-family="serif" font-size="32" font-weight="bold" fill="#1e3a8a" text-anchor="middle">CERTIFICATE OF COMPLETION</text>
-<text x="500" y="245" font-family="Arial,sans-serif" font-size="18" fill="#6b7280" text-anchor="middle">This certifies that</text>
-<text x="500" y="310" font-family="serif" font-size="36" font-weight="bold" fill="#1e3a8a" text-anchor="middle">${userName}</text>
-<rect x="300" y="320" width="400" height="2" fill="url(#g2)"/>
-<text x="500" y="365" font-family="Arial,sans-serif" font-size="18" fill="#6b7280" text-anchor="middle">has successfully completed</text>
-<text x="500" y="415" font-family="Arial,sans-serif" font-size="28" font-weight="bold" fill="#374151" text-anchor="middle">${courseName}</text>
-<text x="500" y="470" font-family="Arial,sans-serif" font-size="16" fill="#9ca3af" text-anchor="middle">Completion Date: ${formattedDate}</text>
-<text x="500" y="500" font-family="monospace" font-size="14" fill="#9ca3af" text-anchor="middle">Certificate #${certificateNumber}</text>
-<text x="100" y="580" font-family="Arial,sans-serif" font-size="12" fill="#6b7280" text-anchor="start">Issued by Web3Versity</text>
-<text x="100" y="600" font-family="Arial,sans-serif" font-size="12" fill="#6b7280" text-anchor="start">Powered by Hedera</text>
-<text x="900" y="520" font-family="Arial,sans-serif" font-size="10" fill="#6b7280" text-anchor="end">Scan to Verify:</text>
-<g transform="translate(800,530)">
-${qrPath}
-</g>
-<text x="900" y="640" font-family="monospace" font-size="8" fill="#d1d5db" text-anchor="end" opacity="0.5">Sig: ${platformSignature.substring(0, 16)}...</text>
-</svg>`.replace(/\n\s*/g, ''); // Remove whitespace for optimization
+  const qrCode = await generateQRCodeSVG(data.verificationUrl);
 
-  return svg;
+  return renderCertificateTemplate(template, { ...data, qrCode });
 }
 
 /**
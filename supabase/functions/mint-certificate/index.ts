@@ -136,7 +136,7 @@ serve(async (req) => {
 
     const { data: course, error: courseError } = await supabase
       .from('courses')
-      .select('title, id')
+      .select('title, id, track, difficulty')
       .eq('id', courseId)
       .single();
 
@@ -274,6 +274,15 @@ serve(async (req) => {
       console.log('ℹ️ No Pinata credentials - HFS only');
     }
 
+    // Course's own template, else its track's, else the default (none = built-in layout)
+    const { data: template } = await supabase
+      .rpc('get_certificate_template', { p_course_id: courseId })
+      .maybeSingle();
+
+    if (template) {
+      console.log(`🖼️ Using certificate template "${template.name}" (${template.assigned_by})`);
+    }
+
     const certificatePackage = await generateAndUploadCertificate(
       {
         userName: user.username,
@@ -281,6 +290,9 @@ serve(async (req) => {
       },
       {
         courseName: course.title,
+        track: course.track,
+        difficulty: course.difficulty,
+        template: template?.svg_template,
       },
       certificateNumber,
       completionDate,
@@ -0,0 +1,227 @@
+// Transaction Reconciliation Edge Function
+// Settles the caller's ledger rows from the mirror node
+//
+// Requests:
+//   POST { ids } - Reconcile these of the caller's transactions (pending or not yet reconciled)
+//
+// Status, consensus timestamp and reconciled_at are only ever written here,
+// from what the mirror node reports, so the ledger cannot be edited from the
+// browser.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+console.log('Transaction Reconciliation Function Started');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/** Rows reconciled per request */
+const MAX_IDS = 50;
+
+/** Mirror node lookups in flight at once */
+const CONCURRENCY = 5;
+
+/**
+ * How long the mirror node gets to report a transaction before it is
+ * treated as lost (it normally has one within seconds)
+ */
+const GIVE_UP_MS = 60 * 60 * 1000; // 1 hour
+
+interface LedgerRow {
+  id: string;
+  transaction_id: string | null;
+  status: 'pending' | 'success' | 'failed';
+  created_at: string;
+}
+
+interface MirrorResult {
+  status: 'success' | 'failed';
+  consensusTimestamp: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function getMirrorNodeUrl(): string {
+  const network = Deno.env.get('HEDERA_NETWORK') || 'testnet';
+  return (
+    Deno.env.get('MIRROR_NODE_URL') ||
+    (network === 'testnet'
+      ? 'https://testnet.mirrornode.hedera.com'
+      : 'https://mainnet-public.mirrornode.hedera.com')
+  ).replace(/\/+$/, '');
+}
+
+/**
+ * Database user ID of the caller, from the wallet-login JWT
+ */
+async function getUserIdFromAuth(authHeader: string | null): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+
+  const authClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const { data: { user }, error } = await authClient.auth.getUser();
+  if (error || !user) return null;
+
+  // Only app_metadata is set server-side by wallet-login
+  return user.app_metadata?.user_id ?? null;
+}
+
+/**
+ * 0.0.123@1700000000.000000001 -> 0.0.123-1700000000-000000001
+ */
+function toMirrorTransactionId(transactionId: string): string {
+  if (!transactionId.includes('@')) return transactionId;
+  return transactionId.replace('@', '-').replace(/\.(\d+)$/, '-$1');
+}
+
+/**
+ * Final result of a transaction, or null while the mirror node does not have
+ * it (throws if the mirror node could not be reached)
+ */
+async function lookupTransaction(transactionId: string): Promise<MirrorResult | null> {
+  const isEvmHash = transactionId.startsWith('0x');
+  const path = isEvmHash
+    ? `contracts/results/${transactionId}`
+    : `transactions/${toMirrorTransactionId(transactionId)}`;
+
+  const response = await fetch(`${getMirrorNodeUrl()}/api/v1/${path}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Mirror node returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  // contracts/results returns a single result, transactions a list
+  const tx = isEvmHash ? data : data.transactions?.[0];
+  if (!tx?.result) return null;
+
+  const seconds = parseFloat(tx.consensus_timestamp ?? tx.timestamp);
+  return {
+    status: tx.result === 'SUCCESS' ? 'success' : 'failed',
+    consensusTimestamp: Number.isNaN(seconds) ? null : new Date(seconds * 1000).toISOString(),
+  };
+}
+
+/**
+ * Settle one row. Rows the mirror node cannot resolve (no transaction ID
+ * recorded, or still unknown after an hour) are marked reconciled as they
+ * are - or failed, if still pending - so they stop being polled. Mirror node
+ * errors leave the row for the next attempt.
+ *
+ * @returns Whether the row changed
+ */
+async function reconcileRow(supabase: SupabaseClient, row: LedgerRow): Promise<boolean> {
+  let result: MirrorResult | null = null;
+  let errorMessage: string | null = null;
+
+  // Rows logged before the wallet returned a hash carry the 'pending' placeholder
+  if (!row.transaction_id || row.transaction_id === 'pending') {
+    errorMessage = 'No transaction ID was recorded';
+  } else {
+    try {
+      result = await lookupTransaction(row.transaction_id);
+    } catch (error) {
+      console.error(`Failed to fetch transaction ${row.transaction_id}:`, error);
+      return false;
+    }
+
+    if (!result) {
+      if (Date.now() - new Date(row.created_at).getTime() <= GIVE_UP_MS) {
+        return false;
+      }
+      errorMessage = 'Transaction not found on the mirror node';
+    }
+  }
+
+  const now = new Date().toISOString();
+  const update: Record<string, unknown> = {
+    status: result?.status ?? (row.status === 'pending' ? 'failed' : row.status),
+    reconciled_at: now,
+    updated_at: now,
+  };
+  if (result?.consensusTimestamp) update.consensus_timestamp = result.consensusTimestamp;
+  if (row.status === 'pending' && errorMessage) update.error_message = errorMessage;
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .update(update)
+    .eq('id', row.id)
+    .is('reconciled_at', null)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to update transaction ${row.id}:`, error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await getUserIdFromAuth(req.headers.get('Authorization'));
+    if (!userId) {
+      return jsonResponse({ error: 'Unauthorized - Please connect your wallet' }, 401);
+    }
+
+    const { ids } = await req.json();
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+      return jsonResponse({ error: 'ids must be an array of transaction row IDs' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Only the caller's own rows that are still open
+    const { data: rows, error } = await supabase
+      .from('transactions')
+      .select('id, transaction_id, status, created_at')
+      .eq('user_id', userId)
+      .is('reconciled_at', null)
+      .in('id', ids.slice(0, MAX_IDS));
+
+    if (error) {
+      console.error('Failed to load transactions:', error);
+      return jsonResponse({ error: 'Failed to load transactions' }, 500);
+    }
+
+    const queue = [...(rows as LedgerRow[])];
+    let changed = 0;
+
+    const worker = async () => {
+      for (let row = queue.shift(); row; row = queue.shift()) {
+        if (await reconcileRow(supabase, row)) {
+          changed++;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker));
+
+    return jsonResponse({ changed });
+  } catch (error) {
+    console.error('❌ Reconciliation failed:', error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Reconciliation failed',
+    }, 500);
+  }
+});
@@ -1,9 +1,15 @@
 // Hedera NFT Certificate Verification Edge Function
 // Verifies certificates on Hedera Testnet via Mirror Node API
+//
+// Requests:
+//   POST { certificateNumber } or { tokenId, serialNumber } - Verify one certificate
+//   POST { action: 'batch', rows }                         - Verify up to 100 certificates and get a signed report
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { validatePlatformSignature } from '../mint-certificate/_shared/signature.ts';
+import { fetchAndVerifyAttestation } from '../certificate-admin/_shared/attestation.ts';
+import { buildVerificationReport, getIssuerKey, signCredential } from '../export-credential/_shared/open-badge.ts';
 
 console.log('Certificate Verification Function Started');
 
@@ -44,6 +50,339 @@ async function fetchFromHFSMirror(
   return bytes;
 }
 
+// Longest reissue chain followed in either direction
+const MAX_CHAIN_LENGTH = 10;
+
+const CHAIN_FIELDS = 'id, certificate_number, serial_number, status, issued_at, supersedes, superseded_by';
+
+function attestationUrl(topicId: string, sequenceNumber: number): string {
+  return `https://hashscan.io/testnet/topic/${topicId}/message/${sequenceNumber}`;
+}
+
+/**
+ * Revocation/reissue status of a certificate and the history of its reissue chain
+ */
+async function getLifecycle(supabase: SupabaseClient, certificate: any) {
+  // Walk back to the original certificate and forward to the current one
+  const chain: any[] = [certificate];
+
+  let previousId = certificate.supersedes;
+  while (previousId && chain.length < MAX_CHAIN_LENGTH) {
+    const { data } = await supabase.from('nft_certificates').select(CHAIN_FIELDS).eq('id', previousId).maybeSingle();
+    if (!data) break;
+    chain.unshift(data);
+    previousId = data.supersedes;
+  }
+
+  let nextId = certificate.superseded_by;
+  while (nextId && chain.length < MAX_CHAIN_LENGTH * 2) {
+    const { data } = await supabase.from('nft_certificates').select(CHAIN_FIELDS).eq('id', nextId).maybeSingle();
+    if (!data) break;
+    chain.push(data);
+    nextId = data.superseded_by;
+  }
+
+  const byId = new Map(chain.map((c) => [c.id, c]));
+
+  const { data: events } = await supabase
+    .from('certificate_events')
+    .select('*')
+    .in('certificate_id', [...byId.keys()])
+    .order('created_at', { ascending: true });
+
+  const history = [
+    ...chain.map((c) => ({
+      type: 'issued',
+      certificateNumber: c.certificate_number,
+      serialNumber: c.serial_number,
+      at: c.issued_at,
+      current: c.id === certificate.id,
+    })),
+    ...(events || []).map((e: any) => ({
+      type: e.event_type,
+      certificateNumber: byId.get(e.certificate_id)?.certificate_number,
+      serialNumber: byId.get(e.certificate_id)?.serial_number,
+      at: e.created_at,
+      reason: e.reason,
+      replacement: e.related_certificate_id ? byId.get(e.related_certificate_id)?.certificate_number : undefined,
+      attestation: e.hcs_topic_id && e.hcs_sequence_number
+        ? {
+            topicId: e.hcs_topic_id,
+            sequenceNumber: e.hcs_sequence_number,
+            hashScanUrl: attestationUrl(e.hcs_topic_id, e.hcs_sequence_number),
+          }
+        : undefined,
+    })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  const status = certificate.status === 'revoked' || certificate.status === 'superseded'
+    ? certificate.status
+    : 'active';
+
+  if (status === 'active') {
+    return { lifecycle: { status }, history };
+  }
+
+  // Check the attestation behind the current status on HCS, not just our database
+  const event = [...(events || [])]
+    .reverse()
+    .find((e: any) => e.certificate_id === certificate.id);
+
+  let attestation = null;
+  if (event?.hcs_topic_id && event.hcs_sequence_number) {
+    let check = null;
+    try {
+      check = await fetchAndVerifyAttestation(event.hcs_topic_id, event.hcs_sequence_number);
+    } catch (error) {
+      console.warn('Failed to fetch attestation from mirror node:', error);
+    }
+
+    attestation = {
+      topicId: event.hcs_topic_id,
+      sequenceNumber: event.hcs_sequence_number,
+      found: !!check,
+      signatureValid: check?.signatureValid ?? false,
+      signedByPlatform: check?.signedByPlatform ?? false,
+      hashScanUrl: attestationUrl(event.hcs_topic_id, event.hcs_sequence_number),
+    };
+  }
+
+  const replacement = certificate.superseded_by ? byId.get(certificate.superseded_by) : null;
+
+  return {
+    lifecycle: {
+      status,
+      reason: status === 'revoked' ? certificate.revocation_reason : event?.reason,
+      revokedAt: certificate.revoked_at,
+      supersededBy: replacement
+        ? {
+            certificateNumber: replacement.certificate_number,
+            serialNumber: replacement.serial_number,
+          }
+        : undefined,
+      attestation,
+    },
+    history,
+  };
+}
+
+const CERTIFICATE_SELECT = `
+  *,
+  courses (title),
+  users (username)
+`;
+
+interface CertificateLookup {
+  certificateNumber?: string;
+  tokenId?: string;
+  serialNumber?: number;
+}
+
+/**
+ * Certificate by number, or by token ID + serial number
+ */
+async function findCertificate(supabase: SupabaseClient, lookup: CertificateLookup) {
+  let query = supabase.from('nft_certificates').select(CERTIFICATE_SELECT);
+
+  query = lookup.certificateNumber
+    ? query.eq('certificate_number', lookup.certificateNumber)
+    : query.eq('token_id', lookup.tokenId).eq('serial_number', lookup.serialNumber);
+
+  const { data, error } = await query.single();
+  return error || !data ? null : data;
+}
+
+/**
+ * NFT as seen by the Mirror Node, or null if it doesn't exist
+ */
+async function fetchNft(tokenId: string, serialNumber: number): Promise<any | null> {
+  const mirrorNodeUrl = 'https://testnet.mirrornode.hedera.com';
+  const response = await fetch(`${mirrorNodeUrl}/api/v1/tokens/${tokenId}/nfts/${serialNumber}`);
+
+  return response.ok ? await response.json() : null;
+}
+
+async function checkPlatformSignature(certificate: any): Promise<boolean> {
+  const hmacSecret = Deno.env.get('HEDERA_HMAC_SECRET');
+  if (!hmacSecret || !certificate.platform_signature) return false;
+
+  return await validatePlatformSignature(
+    {
+      certificateNumber: certificate.certificate_number,
+      userName: certificate.certificate_data.userName,
+      courseName: certificate.certificate_data.courseName,
+      completionDate: certificate.certificate_data.completionDate,
+      userHederaAccountId: certificate.certificate_data.userHederaAccountId || '',
+    },
+    certificate.platform_signature,
+    hmacSecret
+  );
+}
+
+// ============================================================================
+// Batch Verification
+// ============================================================================
+
+const MAX_BATCH_ROWS = 100;
+
+// Rows checked at once, to stay well under the Mirror Node rate limit
+const BATCH_CONCURRENCY = 5;
+
+interface BatchRow extends CertificateLookup {
+  reference?: string; // Caller's own label, e.g. the candidate's name
+}
+
+function parseBatchRow(row: any): BatchRow | null {
+  const reference = typeof row?.reference === 'string' ? row.reference.trim().slice(0, 200) || undefined : undefined;
+
+  if (typeof row?.certificateNumber === 'string' && /^W3V-\d{4}-\d+$/i.test(row.certificateNumber.trim())) {
+    return { reference, certificateNumber: row.certificateNumber.trim().toUpperCase() };
+  }
+
+  const serialNumber = Number(row?.serialNumber);
+  if (typeof row?.tokenId === 'string' && /^\d+\.\d+\.\d+$/.test(row.tokenId.trim()) && Number.isInteger(serialNumber) && serialNumber > 0) {
+    return { reference, tokenId: row.tokenId.trim(), serialNumber };
+  }
+
+  return null;
+}
+
+/**
+ * One row of a batch report
+ *
+ * Lighter than a single verification: no HFS metadata or HCS attestation
+ * lookups. The row links to the verification page for the full picture.
+ */
+async function verifyBatchRow(supabase: SupabaseClient, row: BatchRow | null, index: number) {
+  const base = {
+    row: index + 1,
+    reference: row?.reference,
+    query: row?.certificateNumber || (row ? `${row.tokenId}/${row.serialNumber}` : undefined),
+  };
+
+  if (!row) {
+    return { ...base, found: false, valid: false, error: 'Expected a certificate number or a token ID and serial number' };
+  }
+
+  const certificate = await findCertificate(supabase, row);
+  if (!certificate) {
+    return { ...base, found: false, valid: false, error: 'Certificate not found' };
+  }
+
+  const [nftData, signatureValid] = await Promise.all([
+    fetchNft(certificate.token_id, certificate.serial_number).catch(() => null),
+    checkPlatformSignature(certificate),
+  ]);
+
+  const status = certificate.status === 'revoked' || certificate.status === 'superseded'
+    ? certificate.status
+    : 'active';
+  const holderAccountId = certificate.certificate_data?.userHederaAccountId || null;
+
+  return {
+    ...base,
+    found: true,
+    // Same rule as a single verification: on-chain and neither revoked nor reissued
+    valid: !!nftData && status === 'active',
+    status,
+    certificateId: certificate.id,
+    certificateNumber: certificate.certificate_number,
+    tokenId: certificate.token_id,
+    serialNumber: certificate.serial_number,
+    holder: {
+      name: certificate.certificate_data?.userName || certificate.users?.username,
+      hederaAccountId: holderAccountId,
+    },
+    course: certificate.courses?.title || certificate.certificate_data?.courseName,
+    completionDate: certificate.certificate_data?.completionDate,
+    issuedAt: certificate.issued_at || certificate.minted_at,
+    signatureValid,
+    onChain: {
+      found: !!nftData,
+      owner: nftData?.account_id ?? null,
+      ownedByHolder: !!nftData && !!holderAccountId && nftData.account_id === holderAccountId,
+    },
+    revocationReason: status === 'revoked' ? certificate.revocation_reason : undefined,
+    verificationUrl: `${getAppUrl()}/verify?cert=${certificate.certificate_number}`,
+    error: nftData ? undefined : 'Not found on Hedera',
+  };
+}
+
+function getAppUrl(): string {
+  return Deno.env.get('VITE_APP_URL') || 'https://web3versity.netlify.app';
+}
+
+/**
+ * Verify up to MAX_BATCH_ROWS certificates and sign the report
+ */
+async function handleBatch(supabase: SupabaseClient, rows: unknown, userAgent: string | null): Promise<Response> {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return new Response(
+      JSON.stringify({ error: 'Provide rows to verify' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (rows.length > MAX_BATCH_ROWS) {
+    return new Response(
+      JSON.stringify({ error: `A batch can contain at most ${MAX_BATCH_ROWS} rows` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Reports are only useful signed; don't hand out one that can't be checked
+  const signingKey = Deno.env.get('CREDENTIAL_SIGNING_KEY');
+  if (!signingKey) {
+    return new Response(
+      JSON.stringify({ error: 'Credential signing not configured' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  console.log(`🔍 Batch verification request: ${rows.length} rows`);
+
+  const parsed = rows.map(parseBatchRow);
+  const results = [];
+  for (let i = 0; i < parsed.length; i += BATCH_CONCURRENCY) {
+    results.push(
+      ...(await Promise.all(
+        parsed.slice(i, i + BATCH_CONCURRENCY).map((row, offset) => verifyBatchRow(supabase, row, i + offset))
+      ))
+    );
+  }
+
+  // Log verifications
+  const checkedAt = new Date().toISOString();
+  const logged = results.filter((result) => result.found);
+  if (logged.length > 0) {
+    await supabase.from('certificate_verifications').insert(
+      logged.map((result: any) => ({
+        certificate_id: result.certificateId,
+        verified_by_user_agent: userAgent,
+        verification_result: {
+          valid: result.valid,
+          lifecycle_status: result.status,
+          blockchain_verified: result.onChain.found,
+          signature_valid: result.signatureValid,
+          batch: true,
+          timestamp: checkedAt,
+        },
+      }))
+    );
+  }
+
+  // Signed with the Open Badges key, so reports can be checked without us
+  const issuer = getIssuerKey(signingKey);
+  const report = await signCredential(buildVerificationReport(results, issuer, getAppUrl()), issuer);
+
+  console.log(`✅ Batch verified: ${results.filter((result) => result.valid).length}/${results.length} valid`);
+
+  return new Response(
+    JSON.stringify({ success: true, results, report }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -51,10 +390,7 @@ serve(async (req) => {
   }
 
   try {
-    // Parse request - can verify by certificate number OR token ID + serial
-    const { certificateNumber, tokenId, serialNumber } = await req.json();
-
-    console.log('🔍 Verification request:', { certificateNumber, tokenId, serialNumber });
+    const body = await req.json();
 
     // Create Supabase client (anon key for public verification)
     const supabase = createClient(
@@ -62,57 +398,16 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? ''
     );
 
-    let certificate;
-
-    // Method 1: Verify by certificate number (most common)
-    if (certificateNumber) {
-      const { data, error } = await supabase
-        .from('nft_certificates')
-        .select(`
-          *,
-          courses (title),
-          users (username)
-        `)
-        .eq('certificate_number', certificateNumber)
-        .single();
-
-      if (error || !data) {
-        return new Response(
-          JSON.stringify({
-            valid: false,
-            error: 'Certificate not found in database',
-          }),
-          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      certificate = data;
+    if (body.action === 'batch') {
+      return await handleBatch(supabase, body.rows, req.headers.get('user-agent'));
     }
-    // Method 2: Verify by token ID + serial number
-    else if (tokenId && serialNumber !== undefined) {
-      const { data, error } = await supabase
-        .from('nft_certificates')
-        .select(`
-          *,
-          courses (title),
-          users (username)
-        `)
-        .eq('token_id', tokenId)
-        .eq('serial_number', serialNumber)
-        .single();
-
-      if (error || !data) {
-        return new Response(
-          JSON.stringify({
-            valid: false,
-            error: 'Certificate not found in database',
-          }),
-          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      certificate = data;
-    } else {
+
+    // Parse request - can verify by certificate number OR token ID + serial
+    const { certificateNumber, tokenId, serialNumber } = body;
+
+    console.log('🔍 Verification request:', { certificateNumber, tokenId, serialNumber });
+
+    if (!certificateNumber && !(tokenId && serialNumber !== undefined)) {
       return new Response(
         JSON.stringify({
           error: 'Must provide either certificateNumber or (tokenId + serialNumber)',
@@ -121,14 +416,24 @@ serve(async (req) => {
       );
     }
 
+    // Method 1: certificate number (most common), Method 2: token ID + serial number
+    const certificate = await findCertificate(supabase, { certificateNumber, tokenId, serialNumber });
+
+    if (!certificate) {
+      return new Response(
+        JSON.stringify({
+          valid: false,
+          error: 'Certificate not found in database',
+        }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Verify on Hedera blockchain via Mirror Node
     console.log('🔗 Verifying on Hedera blockchain...');
 
-    const mirrorNodeUrl = 'https://testnet.mirrornode.hedera.com';
-    const nftUrl = `${mirrorNodeUrl}/api/v1/tokens/${certificate.token_id}/nfts/${certificate.serial_number}`;
-
-    const nftResponse = await fetch(nftUrl);
-    if (!nftResponse.ok) {
+    const nftData = await fetchNft(certificate.token_id, certificate.serial_number);
+    if (!nftData) {
       return new Response(
         JSON.stringify({
           valid: false,
@@ -142,8 +447,6 @@ serve(async (req) => {
       );
     }
 
-    const nftData = await nftResponse.json();
-
     // Try to decode NFT metadata (could be base64 JSON or IPFS CID)
     let nftMetadata: any = null;
     try {
@@ -177,41 +480,31 @@ serve(async (req) => {
 
     // Validate platform signature
     console.log('🔐 Validating platform signature...');
-    const hmacSecret = Deno.env.get('HEDERA_HMAC_SECRET');
-    let signatureValid = false;
+    const signatureValid = await checkPlatformSignature(certificate);
 
-    if (hmacSecret && certificate.platform_signature) {
-      signatureValid = await validatePlatformSignature(
-        {
-          certificateNumber: certificate.certificate_number,
-          userName: certificate.certificate_data.userName,
-          courseName: certificate.certificate_data.courseName,
-          completionDate: certificate.certificate_data.completionDate,
-          userHederaAccountId: certificate.certificate_data.userHederaAccountId || '',
-        },
-        certificate.platform_signature,
-        hmacSecret
-      );
-    }
+    // Revoked and superseded certificates are still real NFTs, but no longer valid
+    const { lifecycle, history } = await getLifecycle(supabase, certificate);
+    const valid = lifecycle.status === 'active';
 
     // Log verification
     await supabase.from('certificate_verifications').insert({
       certificate_id: certificate.id,
       verified_by_user_agent: req.headers.get('user-agent'),
       verification_result: {
-        valid: true,
+        valid,
+        lifecycle_status: lifecycle.status,
         blockchain_verified: true,
         signature_valid: signatureValid,
         timestamp: new Date().toISOString(),
       },
     });
 
-    console.log('✅ Certificate verified successfully');
+    console.log(valid ? '✅ Certificate verified successfully' : `⚠️ Certificate is ${lifecycle.status}`);
 
     // Return comprehensive verification result
     return new Response(
       JSON.stringify({
-        valid: true,
+        valid,
         blockchain_verified: true,
         signature_valid: signatureValid,
         certificate: {
@@ -239,6 +532,8 @@ serve(async (req) => {
           modifiedTimestamp: nftData.modified_timestamp,
         },
         metadata: fullMetadata,
+        lifecycle,
+        history,
         hashScanUrl: `https://hashscan.io/testnet/token/${certificate.token_id}/${certificate.serial_number}`,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
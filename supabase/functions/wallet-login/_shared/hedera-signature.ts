@@ -0,0 +1,89 @@
+/**
+ * Hedera-native message signature verification (Deno/Edge Function Version)
+ *
+ * HashConnect/WalletConnect wallets (HashPack, Blade, Kabila) sign with the
+ * account's Hedera key rather than an EIP-191 secp256k1 signature, so the
+ * signer is checked against the key the mirror node has on record.
+ */
+
+import { PublicKey } from 'npm:@hashgraph/sdk@^2.75.0'
+
+const MIRROR_NODE_URLS: Record<number, string> = {
+  296: 'https://testnet.mirrornode.hedera.com',
+  295: 'https://mainnet.mirrornode.hedera.com',
+}
+
+export interface HederaSignatureResult {
+  valid: boolean
+  evmAddress?: string
+  error?: string
+}
+
+/**
+ * Prefix applied by hedera_signMessage (HIP-820 / hedera-wallet-connect)
+ */
+function prefixMessage(message: string): Uint8Array {
+  return new TextEncoder().encode(`\x19Hedera Signed Message:\n${message.length}${message}`)
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex
+  const bytes = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * Verify a message signed by a Hedera account
+ *
+ * @param accountId - Hedera account ID (0.0.xxxxx)
+ * @param message - The exact message the wallet was asked to sign
+ * @param signature - Hex-encoded signature returned by the wallet
+ * @param chainId - 296 (testnet) or 295 (mainnet), selects the mirror node
+ */
+export async function verifyHederaSignature(
+  accountId: string,
+  message: string,
+  signature: string,
+  chainId: number
+): Promise<HederaSignatureResult> {
+  const mirrorNodeUrl = MIRROR_NODE_URLS[chainId]
+  if (!mirrorNodeUrl) {
+    return { valid: false, error: `Unsupported chain ID ${chainId}` }
+  }
+
+  if (!/^0\.0\.\d+$/.test(accountId)) {
+    return { valid: false, error: 'Invalid Hedera account ID' }
+  }
+
+  const response = await fetch(`${mirrorNodeUrl}/api/v1/accounts/${accountId}`)
+  if (!response.ok) {
+    return { valid: false, error: `Account ${accountId} not found on mirror node` }
+  }
+
+  const account = await response.json()
+  const keyType: string | undefined = account.key?._type
+  const keyHex: string | undefined = account.key?.key
+
+  // Threshold and key-list accounts cannot sign in with a single signature
+  if (!keyHex || (keyType !== 'ED25519' && keyType !== 'ECDSA_SECP256K1')) {
+    return { valid: false, error: `Unsupported account key type: ${keyType || 'none'}` }
+  }
+
+  const publicKey = keyType === 'ED25519'
+    ? PublicKey.fromStringED25519(keyHex)
+    : PublicKey.fromStringECDSA(keyHex)
+
+  const valid = publicKey.verify(prefixMessage(message), hexToBytes(signature))
+  if (!valid) {
+    return { valid: false, error: 'Signature does not match the account key' }
+  }
+
+  const evmAddress: string | undefined = account.evm_address
+  return {
+    valid: true,
+    evmAddress: evmAddress ? (evmAddress.startsWith('0x') ? evmAddress : `0x${evmAddress}`).toLowerCase() : undefined,
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) helpers (Deno/Edge Function Version)
+ *
+ * Shared by auth-nonce (issues nonces) and wallet-login (verifies messages)
+ */
+
+/** Hedera testnet (296) and mainnet (295) EVM chain IDs */
+export const SIWE_CHAIN_IDS = [296, 295]
+
+/** How long a nonce (and the message signed with it) stays valid */
+export const NONCE_TTL_SECONDS = 5 * 60
+
+/** Tolerated clock difference between the browser and the edge function */
+export const CLOCK_SKEW_SECONDS = 60
+
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement: string | null
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime: string | null
+}
+
+/**
+ * Generate an alphanumeric nonce (EIP-4361 requires at least 8 characters)
+ */
+export function generateNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Domains allowed to request sign-in, from SIWE_ALLOWED_DOMAINS (comma separated)
+ * When unset, only the app's own host (from VITE_APP_URL) is allowed, so a
+ * phishing site cannot obtain a signature that logs in here.
+ */
+export function getAllowedDomains(): string[] {
+  const configured = (Deno.env.get('SIWE_ALLOWED_DOMAINS') || '')
+    .split(',')
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean)
+
+  if (configured.length > 0) return configured
+
+  const appUrl = Deno.env.get('VITE_APP_URL') || 'https://web3versity.netlify.app'
+  return [new URL(appUrl).host.toLowerCase()]
+}
+
+export function isAllowedDomain(domain: string): boolean {
+  return getAllowedDomains().includes(domain.toLowerCase())
+}
+
+/**
+ * Parse an EIP-4361 message
+ *
+ * @throws Error if the message is not a well-formed Sign-In with Ethereum message
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const lines = message.split('\n')
+
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/)
+  if (!header) {
+    throw new Error('Not a Sign-In with Ethereum message')
+  }
+
+  const address = lines[1]?.trim()
+  if (!address || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error('Message is missing a valid address')
+  }
+
+  // Optional statement sits between two blank lines after the address
+  let cursor = 2
+  let statement: string | null = null
+  if (lines[cursor] === '' && lines[cursor + 1] && !lines[cursor + 1].includes(': ')) {
+    statement = lines[cursor + 1]
+    cursor += 2
+  }
+  while (lines[cursor] === '') cursor += 1
+
+  const fields: Record<string, string> = {}
+  for (const line of lines.slice(cursor)) {
+    const separator = line.indexOf(': ')
+    if (separator === -1) continue
+    fields[line.slice(0, separator)] = line.slice(separator + 2)
+  }
+
+  const chainId = Number(fields['Chain ID'])
+  if (!fields['URI'] || fields['Version'] !== '1' || !Number.isInteger(chainId) || !fields['Nonce'] || !fields['Issued At']) {
+    throw new Error('Message is missing required Sign-In with Ethereum fields')
+  }
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId,
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time'] || null,
+  }
+}
+
+/**
+ * Check the time window of a parsed message
+ *
+ * @returns An error message, or null if the message is currently valid
+ */
+export function checkSiweTimestamps(siwe: SiweMessage, now = Date.now()): string | null {
+  const issuedAt = Date.parse(siwe.issuedAt)
+  if (Number.isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_SECONDS * 1000) {
+    return 'Message issue time is invalid'
+  }
+
+  if (!siwe.expirationTime) {
+    return 'Message has no expiration time'
+  }
+
+  const expiresAt = Date.parse(siwe.expirationTime)
+  if (Number.isNaN(expiresAt) || expiresAt <= now) {
+    return 'Sign-in message has expired'
+  }
+
+  return null
+}
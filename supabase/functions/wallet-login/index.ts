@@ -1,6 +1,12 @@
 // supabase/functions/wallet-login/index.ts
 //
 // CHANGELOG:
+// 2025-11-07: Accept Hedera-native signatures (signatureType 'hedera') from
+//             HashConnect/WalletConnect wallets, verified against the account
+//             key on the mirror node.
+// 2025-11-06: Require Sign-In with Ethereum (EIP-4361) messages with a nonce from
+//             auth-nonce. Nonces are single-use and expire, so captured
+//             signatures can no longer be replayed.
 // 2025-10-27: CRITICAL FIX - Use generateLink() + verifyOtp() for session creation.
 //             This is the official Supabase workaround for server-side session generation.
 //             Creates proper session records in Supabase's session store with valid tokens.
@@ -11,6 +17,14 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
 import { ethers } from 'https://esm.sh/ethers@6.9.0'
+import {
+  checkSiweTimestamps,
+  isAllowedDomain,
+  parseSiweMessage,
+  SIWE_CHAIN_IDS,
+  type SiweMessage,
+} from './_shared/siwe.ts'
+import { verifyHederaSignature } from './_shared/hedera-signature.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,6 +36,8 @@ interface WalletLoginRequest {
   signature: string
   message: string
   hederaAccountId?: string
+  // 'evm' (EIP-191, default) or 'hedera' (signed with the Hedera account key)
+  signatureType?: 'evm' | 'hedera'
 }
 
 serve(async (req) => {
@@ -105,7 +121,7 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { walletAddress, signature, message, hederaAccountId }: WalletLoginRequest = await req.json()
+    const { walletAddress, signature, message, hederaAccountId, signatureType = 'evm' }: WalletLoginRequest = await req.json()
 
     console.log('📝 Wallet login request details:')
     console.log('  💳 Wallet address length:', walletAddress?.length || 0)
@@ -113,35 +129,104 @@ serve(async (req) => {
     console.log('  📄 Message length:', message?.length || 0)
     console.log('  ✍️  Signature length:', signature?.length || 0)
 
-    // 4. Verify wallet signature
-    console.log('🖊️  Verifying wallet signature...')
+    // 4. Parse the Sign-In with Ethereum message
+    console.log('🧾 Parsing sign-in message...')
     const normalizedAddress = walletAddress.toLowerCase()
+    let siwe: SiweMessage
 
     try {
-      const recoveredAddress = ethers.verifyMessage(message, signature)
-      const recoveredNormalized = recoveredAddress.toLowerCase()
+      siwe = parseSiweMessage(message)
+    } catch (error) {
+      console.error('❌ Invalid sign-in message:', error.message)
+      return new Response(
+        JSON.stringify({ error: 'Invalid sign-in message', details: error.message }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-      console.log('  🎯 Expected address:', normalizedAddress)
-      console.log('  🔍 Recovered address:', recoveredNormalized)
-      console.log('  ✔️  Match:', recoveredNormalized === normalizedAddress ? '✅ YES' : '❌ NO')
+    // 4a. Verify wallet signature
+    console.log('🖊️  Verifying wallet signature (' + signatureType + ')...')
 
-      if (recoveredNormalized !== normalizedAddress) {
-        console.error('❌ Signature verification failed: Address mismatch')
+    if (signatureType === 'hedera') {
+      const result = await verifyHederaSignature(hederaAccountId || '', message, signature, siwe.chainId)
+
+      if (!result.valid || result.evmAddress !== normalizedAddress) {
+        const reason = result.error || 'Invalid signature - address mismatch'
+        console.error('❌ Hedera signature verification failed:', reason)
         return new Response(
-          JSON.stringify({ error: 'Invalid signature - address mismatch' }),
+          JSON.stringify({ error: 'Signature verification failed', details: reason }),
           { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
       }
 
-      console.log('✅ Signature verified successfully for address:', normalizedAddress)
-    } catch (error) {
-      console.error('❌ Signature verification exception:', error)
+      console.log('✅ Hedera signature verified for account:', hederaAccountId)
+    } else {
+      try {
+        const recoveredAddress = ethers.verifyMessage(message, signature)
+        const recoveredNormalized = recoveredAddress.toLowerCase()
+
+        console.log('  🎯 Expected address:', normalizedAddress)
+        console.log('  🔍 Recovered address:', recoveredNormalized)
+        console.log('  ✔️  Match:', recoveredNormalized === normalizedAddress ? '✅ YES' : '❌ NO')
+
+        if (recoveredNormalized !== normalizedAddress) {
+          console.error('❌ Signature verification failed: Address mismatch')
+          return new Response(
+            JSON.stringify({ error: 'Invalid signature - address mismatch' }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        console.log('✅ Signature verified successfully for address:', normalizedAddress)
+      } catch (error) {
+        console.error('❌ Signature verification exception:', error)
+        return new Response(
+          JSON.stringify({ error: 'Signature verification failed', details: error.message }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    // 4b. Verify the signed message is fresh, unused and meant for this wallet
+    const siweError =
+      siwe.address.toLowerCase() !== normalizedAddress ? 'Message address does not match wallet'
+      : !SIWE_CHAIN_IDS.includes(siwe.chainId) ? `Unsupported chain ID ${siwe.chainId}`
+      : !isAllowedDomain(siwe.domain) ? 'Sign-in is not allowed from this domain'
+      : checkSiweTimestamps(siwe)
+
+    if (siweError) {
+      console.error('❌ Sign-in message rejected:', siweError)
       return new Response(
-        JSON.stringify({ error: 'Signature verification failed', details: error.message }),
+        JSON.stringify({ error: siweError }),
         { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
+    const { data: nonceConsumed, error: nonceError } = await supabaseAdmin.rpc('consume_auth_nonce', {
+      p_nonce: siwe.nonce,
+      p_evm_address: normalizedAddress,
+      p_domain: siwe.domain,
+      p_chain_id: siwe.chainId,
+    })
+
+    if (nonceError) {
+      console.error('❌ Error consuming nonce:', nonceError)
+      return new Response(
+        JSON.stringify({ error: 'Database error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!nonceConsumed) {
+      console.error('❌ Nonce is unknown, expired or already used')
+      return new Response(
+        JSON.stringify({ error: 'Sign-in message has expired or was already used. Please sign in again.' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log('✅ Nonce consumed, chain ID:', siwe.chainId)
+
     // 5. Check if user exists in database
     console.log('🔍 Checking if user exists in database...')
     const { data: existingUser, error: fetchError } = await supabaseAdmin
@@ -291,6 +376,11 @@ serve(async (req) => {
         wallet_address: normalizedAddress,
         hedera_account_id: hederaAccountId,
         user_id: userId,
+      },
+      // Read by current_user_id() in the database; unlike user_metadata,
+      // users can't change it themselves
+      app_metadata: {
+        user_id: userId,
       }
     })
 
@@ -339,6 +429,9 @@ serve(async (req) => {
             wallet_address: normalizedAddress,
             hedera_account_id: hederaAccountId,
             user_id: userId,
+          },
+          app_metadata: {
+            user_id: userId,
           }
         })
 
@@ -0,0 +1,381 @@
+-- ============================================================================
+-- Migration 022: Community Discussions
+-- ============================================================================
+-- Purpose: Back the /community page with real data instead of mockDiscussions
+-- Created: 2025-10-29
+-- Description:
+--   - Keeps discussions.reply_count / last_activity_at in sync via triggers
+--   - One vote per user per discussion/reply (toggle + switch) via RPC
+--   - Solution marking by the thread author (or an admin)
+--   - Admin-only pin/lock moderation
+--   - View counts: one per signed-in user per discussion
+--   - Live community stats and top contributors
+--   - current_user_id(): the caller's users.id from their JWT, used by these
+--     and later functions instead of trusting a user ID sent by the client
+-- ============================================================================
+
+-- ============================================================================
+-- Function: current_user_id
+-- ============================================================================
+-- wallet-login puts the users.id in the JWT's app_metadata, which only the
+-- service role can write (user_metadata is editable by the user). NULL for
+-- anonymous requests.
+
+CREATE OR REPLACE FUNCTION current_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(auth.jwt() -> 'app_metadata' ->> 'user_id', '')::UUID;
+$$;
+
+GRANT EXECUTE ON FUNCTION current_user_id() TO authenticated, anon;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE discussions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE replies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discussion_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view discussions"
+  ON discussions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create discussions"
+  ON discussions FOR INSERT
+  WITH CHECK (author_id = current_user_id());
+
+CREATE POLICY "Anyone can view replies"
+  ON replies FOR SELECT
+  USING (true);
+
+-- Replies to a locked thread are rejected at the database level
+CREATE POLICY "Users can reply to unlocked discussions"
+  ON replies FOR INSERT
+  WITH CHECK (
+    author_id = current_user_id() AND
+    NOT EXISTS (
+      SELECT 1 FROM discussions d
+      WHERE d.id = discussion_id AND d.is_locked = TRUE
+    )
+  );
+
+CREATE POLICY "Anyone can view votes"
+  ON discussion_votes FOR SELECT
+  USING (true);
+
+-- ============================================================================
+-- Trigger: keep reply_count and last_activity_at in sync
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_discussion_reply_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE discussions
+    SET
+      reply_count = reply_count + 1,
+      last_activity_at = NOW()
+    WHERE id = NEW.discussion_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE discussions
+    SET reply_count = GREATEST(reply_count - 1, 0)
+    WHERE id = OLD.discussion_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_discussion_reply_stats ON replies;
+CREATE TRIGGER trg_sync_discussion_reply_stats
+  AFTER INSERT OR DELETE ON replies
+  FOR EACH ROW EXECUTE FUNCTION sync_discussion_reply_stats();
+
+-- ============================================================================
+-- Function: cast_discussion_vote
+-- ============================================================================
+-- Casting the same vote twice removes it; casting the opposite vote switches it.
+-- upvote_count stores the net score (upvotes - downvotes).
+-- Returns the new score and the caller's resulting vote (NULL when removed).
+
+CREATE OR REPLACE FUNCTION cast_discussion_vote(
+  p_vote_type TEXT,
+  p_discussion_id UUID DEFAULT NULL,
+  p_reply_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  score INTEGER,
+  user_vote TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_existing discussion_votes%ROWTYPE;
+  v_user_vote TEXT;
+  v_score INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_vote_type NOT IN ('upvote', 'downvote') THEN
+    RAISE EXCEPTION 'Invalid vote type: %', p_vote_type;
+  END IF;
+
+  IF (p_discussion_id IS NULL) = (p_reply_id IS NULL) THEN
+    RAISE EXCEPTION 'Exactly one of discussion or reply must be provided';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM discussion_votes
+  WHERE user_id = v_user_id
+    AND discussion_id IS NOT DISTINCT FROM p_discussion_id
+    AND reply_id IS NOT DISTINCT FROM p_reply_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO discussion_votes (user_id, discussion_id, reply_id, vote_type)
+    VALUES (v_user_id, p_discussion_id, p_reply_id, p_vote_type);
+    v_user_vote := p_vote_type;
+  ELSIF v_existing.vote_type = p_vote_type THEN
+    DELETE FROM discussion_votes WHERE id = v_existing.id;
+    v_user_vote := NULL;
+  ELSE
+    UPDATE discussion_votes SET vote_type = p_vote_type WHERE id = v_existing.id;
+    v_user_vote := p_vote_type;
+  END IF;
+
+  SELECT COALESCE(SUM(CASE WHEN vote_type = 'upvote' THEN 1 ELSE -1 END), 0)::INTEGER
+  INTO v_score
+  FROM discussion_votes
+  WHERE discussion_id IS NOT DISTINCT FROM p_discussion_id
+    AND reply_id IS NOT DISTINCT FROM p_reply_id;
+
+  IF p_discussion_id IS NOT NULL THEN
+    UPDATE discussions SET upvote_count = v_score WHERE id = p_discussion_id;
+  ELSE
+    UPDATE replies SET upvote_count = v_score WHERE id = p_reply_id;
+  END IF;
+
+  RETURN QUERY SELECT v_score, v_user_vote;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cast_discussion_vote(TEXT, UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- Function: toggle_reply_solution
+-- ============================================================================
+-- Only the discussion author or an admin may mark a solution. A thread has at
+-- most one solution; marking the current solution again clears it.
+
+CREATE OR REPLACE FUNCTION toggle_reply_solution(p_reply_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_discussion_id UUID;
+  v_author_id UUID;
+  v_is_solution BOOLEAN;
+  v_is_admin BOOLEAN;
+BEGIN
+  SELECT r.discussion_id, r.is_solution, d.author_id
+  INTO v_discussion_id, v_is_solution, v_author_id
+  FROM replies r
+  JOIN discussions d ON d.id = r.discussion_id
+  WHERE r.id = p_reply_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reply not found: %', p_reply_id;
+  END IF;
+
+  SELECT COALESCE(is_admin, FALSE) INTO v_is_admin FROM users WHERE id = v_user_id;
+
+  IF v_user_id IS NULL OR (v_author_id IS DISTINCT FROM v_user_id AND NOT COALESCE(v_is_admin, FALSE)) THEN
+    RAISE EXCEPTION 'Only the discussion author can mark a solution';
+  END IF;
+
+  UPDATE replies SET is_solution = FALSE, updated_at = NOW()
+  WHERE discussion_id = v_discussion_id AND is_solution = TRUE;
+
+  IF v_is_solution THEN
+    UPDATE discussions SET is_solved = FALSE, updated_at = NOW() WHERE id = v_discussion_id;
+    RETURN FALSE;
+  END IF;
+
+  UPDATE replies SET is_solution = TRUE, updated_at = NOW() WHERE id = p_reply_id;
+  UPDATE discussions SET is_solved = TRUE, updated_at = NOW() WHERE id = v_discussion_id;
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION toggle_reply_solution(UUID) TO authenticated;
+
+-- ============================================================================
+-- Function: moderate_discussion (admin only)
+-- ============================================================================
+-- NULL arguments leave the corresponding flag unchanged.
+
+CREATE OR REPLACE FUNCTION moderate_discussion(
+  p_discussion_id UUID,
+  p_is_pinned BOOLEAN DEFAULT NULL,
+  p_is_locked BOOLEAN DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = current_user_id() AND is_admin = TRUE) THEN
+    RAISE EXCEPTION 'Only admins can moderate discussions';
+  END IF;
+
+  UPDATE discussions
+  SET
+    is_pinned = COALESCE(p_is_pinned, is_pinned),
+    is_locked = COALESCE(p_is_locked, is_locked),
+    updated_at = NOW()
+  WHERE id = p_discussion_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discussion not found: %', p_discussion_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION moderate_discussion(UUID, BOOLEAN, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- Function: increment_discussion_views
+-- ============================================================================
+-- Counts each signed-in learner once per discussion, so reopening a thread
+-- (or calling the RPC in a loop) does not inflate view_count.
+
+CREATE TABLE IF NOT EXISTS discussion_views (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  discussion_id UUID NOT NULL REFERENCES discussions(id) ON DELETE CASCADE,
+  viewed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, discussion_id)
+);
+
+-- Only reachable through increment_discussion_views()
+ALTER TABLE discussion_views ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION increment_discussion_views(p_discussion_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO discussion_views (user_id, discussion_id)
+  VALUES (v_user_id, p_discussion_id)
+  ON CONFLICT (user_id, discussion_id) DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE discussions SET view_count = view_count + 1 WHERE id = p_discussion_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION increment_discussion_views(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION increment_discussion_views(UUID) TO authenticated;
+
+-- ============================================================================
+-- Function: get_community_stats
+-- ============================================================================
+-- Active members = distinct users who posted a thread or reply in the last 30 days.
+
+CREATE OR REPLACE FUNCTION get_community_stats()
+RETURNS TABLE (
+  active_members INTEGER,
+  total_discussions INTEGER,
+  total_replies INTEGER,
+  questions_answered INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (
+      SELECT COUNT(DISTINCT a.author_id)::INTEGER FROM (
+        SELECT author_id FROM discussions WHERE created_at >= NOW() - INTERVAL '30 days'
+        UNION
+        SELECT author_id FROM replies WHERE created_at >= NOW() - INTERVAL '30 days'
+      ) a
+      WHERE a.author_id IS NOT NULL
+    ),
+    (SELECT COUNT(*)::INTEGER FROM discussions),
+    (SELECT COUNT(*)::INTEGER FROM replies),
+    (SELECT COUNT(*)::INTEGER FROM discussions WHERE is_solved = TRUE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_community_stats() TO authenticated, anon;
+
+-- ============================================================================
+-- Function: get_top_contributors
+-- ============================================================================
+-- Ranked by accepted solutions first, then total replies.
+
+CREATE OR REPLACE FUNCTION get_top_contributors(entry_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  avatar_emoji TEXT,
+  answer_count INTEGER,
+  solution_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    u.id AS user_id,
+    u.username,
+    u.avatar_emoji,
+    COUNT(r.id)::INTEGER AS answer_count,
+    COUNT(r.id) FILTER (WHERE r.is_solution)::INTEGER AS solution_count
+  FROM replies r
+  JOIN users u ON u.id = r.author_id
+  GROUP BY u.id, u.username, u.avatar_emoji
+  ORDER BY solution_count DESC, answer_count DESC, u.username ASC
+  LIMIT entry_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_top_contributors(INTEGER) TO authenticated, anon;
+
+-- Comments
+COMMENT ON FUNCTION cast_discussion_vote IS 'Casts, switches or removes a user''s single vote on a discussion or reply and returns the new net score.';
+COMMENT ON FUNCTION toggle_reply_solution IS 'Marks or unmarks a reply as the accepted solution. Restricted to the discussion author or admins.';
+COMMENT ON FUNCTION moderate_discussion IS 'Admin-only pin/lock of a discussion thread.';
+COMMENT ON FUNCTION get_community_stats IS 'Live community page stats: active members (30 days), threads, replies and solved questions.';
+COMMENT ON FUNCTION current_user_id IS 'users.id of the caller, from the app_metadata of their wallet-login JWT.';
+COMMENT ON FUNCTION get_top_contributors IS 'Top community contributors by accepted solutions and reply count.';
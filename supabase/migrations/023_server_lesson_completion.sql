@@ -0,0 +1,263 @@
+-- ============================================================================
+-- Migration 023: Server-Authoritative Lesson Completion
+-- ============================================================================
+-- Purpose: Stop the browser from writing completions, scores and XP directly
+-- Created: 2025-10-30
+-- Description:
+--   - lesson_sessions records when a learner opened a lesson (server clock)
+--   - complete_lesson() inserts the completion, awards lesson + course bonus XP
+--     and updates level/counters in a single transaction
+--   - complete_lesson() is only callable by the service role (complete-lesson
+--     edge function), which re-grades quizzes and enforces time-on-lesson
+--   - Clients can no longer insert lesson_completions themselves
+--   - Badge XP is awarded by a trigger on user_achievements; award_xp() is no
+--     longer callable from the browser
+-- ============================================================================
+
+-- ============================================================================
+-- Table: lesson_sessions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS lesson_sessions (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  lesson_id TEXT NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, lesson_id)
+);
+
+-- Only reachable through the functions below
+ALTER TABLE lesson_sessions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Lock down direct writes
+-- ============================================================================
+
+REVOKE INSERT, UPDATE, DELETE ON lesson_completions FROM anon, authenticated;
+
+-- complete_lesson() maintains users.lessons_completed now
+DROP FUNCTION IF EXISTS increment_lessons_completed(UUID);
+
+-- ============================================================================
+-- Function: start_lesson_session
+-- ============================================================================
+-- Called when a learner opens a lesson. The first open wins so leaving and
+-- coming back does not reset the clock. The learner comes from the JWT, so
+-- nobody can start the clock on someone else's behalf.
+
+CREATE OR REPLACE FUNCTION start_lesson_session(p_lesson_id TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_started_at TIMESTAMPTZ;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO lesson_sessions (user_id, lesson_id)
+  VALUES (v_user_id, p_lesson_id)
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+
+  SELECT started_at INTO v_started_at
+  FROM lesson_sessions
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id;
+
+  RETURN v_started_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_lesson_session(TEXT) TO authenticated;
+
+-- ============================================================================
+-- Function: calculate_lesson_xp
+-- ============================================================================
+-- Business rules (previously calculateLessonXP in the client):
+--   text / interactive: 10 XP
+--   quiz 70-99%: 20 XP, quiz 100%: 30 XP, quiz below 70%: not completable
+--   practical: 50 XP
+
+CREATE OR REPLACE FUNCTION calculate_lesson_xp(p_lesson_type TEXT, p_score NUMERIC)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_lesson_type
+    WHEN 'text' THEN 10
+    WHEN 'interactive' THEN 10
+    WHEN 'quiz' THEN
+      CASE
+        WHEN p_score IS NULL OR p_score < 70 THEN 0
+        WHEN p_score >= 100 THEN 30
+        ELSE 20
+      END
+    WHEN 'practical' THEN 50
+    ELSE 0
+  END;
+$$;
+
+-- ============================================================================
+-- Function: complete_lesson
+-- ============================================================================
+-- Idempotent: completing a lesson twice returns already_completed = TRUE and
+-- awards nothing. The unique (user_id, lesson_id) constraint makes concurrent
+-- calls safe. The 100 XP course bonus is awarded by the call whose insert
+-- completes the course, so it can only happen once.
+
+CREATE OR REPLACE FUNCTION complete_lesson(
+  p_user_id UUID,
+  p_lesson_id TEXT,
+  p_course_id TEXT,
+  p_score NUMERIC,
+  p_time_spent_seconds INTEGER
+)
+RETURNS TABLE (
+  xp_earned INTEGER,
+  old_level INTEGER,
+  new_level INTEGER,
+  course_complete BOOLEAN,
+  already_completed BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lesson_type TEXT;
+  v_lesson_course TEXT;
+  v_old_level INTEGER;
+  v_total_xp INTEGER;
+  v_lesson_xp INTEGER;
+  v_bonus_xp INTEGER := 0;
+  v_inserted_id UUID;
+  v_lessons_completed INTEGER;
+  v_total_lessons INTEGER;
+BEGIN
+  -- Serialize completions per user so XP and level stay consistent
+  SELECT current_level, total_xp INTO v_old_level, v_total_xp
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT lesson_type, course_id INTO v_lesson_type, v_lesson_course
+  FROM lessons
+  WHERE id = p_lesson_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  IF v_lesson_course <> p_course_id THEN
+    RAISE EXCEPTION 'Lesson does not belong to this course';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_progress WHERE user_id = p_user_id AND course_id = p_course_id
+  ) THEN
+    RAISE EXCEPTION 'User not enrolled in course. Please enroll first.';
+  END IF;
+
+  IF v_lesson_type = 'quiz' AND (p_score IS NULL OR p_score < 70) THEN
+    RAISE EXCEPTION 'Quiz score below 70%% - not marked as complete';
+  END IF;
+
+  v_lesson_xp := calculate_lesson_xp(v_lesson_type, p_score);
+
+  INSERT INTO lesson_completions (
+    user_id, lesson_id, course_id, completed_at, time_spent_seconds,
+    score_percentage, attempts, xp_earned
+  )
+  VALUES (
+    p_user_id, p_lesson_id, p_course_id, NOW(), p_time_spent_seconds,
+    CASE WHEN v_lesson_type = 'quiz' THEN p_score ELSE NULL END, 1, v_lesson_xp
+  )
+  ON CONFLICT (user_id, lesson_id) DO NOTHING
+  RETURNING id INTO v_inserted_id;
+
+  IF v_inserted_id IS NULL THEN
+    RETURN QUERY
+    SELECT 0, v_old_level, v_old_level,
+      COALESCE((
+        SELECT up.progress_percentage >= 100
+        FROM user_progress up
+        WHERE up.user_id = p_user_id AND up.course_id = p_course_id
+      ), FALSE),
+      TRUE;
+    RETURN;
+  END IF;
+
+  -- update_course_progress() has recounted user_progress by now
+  SELECT lessons_completed, total_lessons INTO v_lessons_completed, v_total_lessons
+  FROM user_progress
+  WHERE user_id = p_user_id AND course_id = p_course_id;
+
+  IF v_total_lessons > 0 AND v_lessons_completed >= v_total_lessons THEN
+    v_bonus_xp := 100;
+
+    UPDATE user_progress
+    SET completed_at = COALESCE(completed_at, NOW())
+    WHERE user_id = p_user_id AND course_id = p_course_id;
+  END IF;
+
+  v_total_xp := v_total_xp + v_lesson_xp + v_bonus_xp;
+
+  UPDATE users
+  SET
+    total_xp = v_total_xp,
+    current_level = GREATEST(current_level, calculate_user_level(v_total_xp)),
+    lessons_completed = lessons_completed + 1
+  WHERE id = p_user_id;
+
+  RETURN QUERY
+  SELECT
+    v_lesson_xp + v_bonus_xp,
+    v_old_level,
+    (SELECT current_level FROM users WHERE id = p_user_id),
+    v_bonus_xp > 0,
+    FALSE;
+END;
+$$;
+
+-- The edge function is the only caller; browsers must not pass their own score
+REVOKE EXECUTE ON FUNCTION complete_lesson(UUID, TEXT, TEXT, NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_lesson(UUID, TEXT, TEXT, NUMERIC, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION complete_lesson(UUID, TEXT, TEXT, NUMERIC, INTEGER) IS
+'Atomically records a lesson completion and awards lesson XP plus the course completion bonus. Service role only.';
+
+-- ============================================================================
+-- Badge XP
+-- ============================================================================
+-- award_xp() takes any user and any amount, so it must not be exposed through
+-- PostgREST. Earning a badge awards its xp_reward (50 by default) from the
+-- database instead, once per user_achievements row.
+
+REVOKE EXECUTE ON FUNCTION award_xp(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION award_badge_xp()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM award_xp(
+    NEW.user_id,
+    COALESCE((SELECT xp_reward FROM achievements WHERE id = NEW.achievement_id), 50)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_award_badge_xp ON user_achievements;
+CREATE TRIGGER trigger_award_badge_xp
+  AFTER INSERT ON user_achievements
+  FOR EACH ROW
+  EXECUTE FUNCTION award_badge_xp();
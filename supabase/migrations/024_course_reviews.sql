@@ -0,0 +1,248 @@
+-- ============================================================================
+-- Migration 024: Course Reviews
+-- ============================================================================
+-- Purpose: Let learners rate and review courses they have worked through
+-- Created: 2025-10-31
+-- Description:
+--   - course_reviews holds one 1-5 star rating (+ optional text) per learner
+--     per course, editable later
+--   - Only learners who completed the course or reached the progress
+--     threshold may review (enforced in upsert_course_review)
+--   - courses.average_rating / total_ratings are recomputed by trigger from
+--     visible reviews
+--   - Admins can hide abusive reviews; hidden reviews drop out of the stats
+-- ============================================================================
+
+-- ============================================================================
+-- Table: course_reviews
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS course_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id TEXT NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Review
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  review_text TEXT CHECK (review_text IS NULL OR char_length(review_text) <= 2000),
+
+  -- Moderation
+  is_hidden BOOLEAN DEFAULT FALSE NOT NULL,
+  hidden_reason TEXT,
+  hidden_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  hidden_at TIMESTAMPTZ,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (course_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_reviews_course ON course_reviews(course_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_course_reviews_hidden ON course_reviews(is_hidden) WHERE is_hidden = TRUE;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+-- Writes go through the functions below so eligibility cannot be bypassed
+
+ALTER TABLE course_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Hidden reviews stay visible to their author and to admins (for moderation)
+CREATE POLICY "Anyone can view visible course reviews"
+  ON course_reviews FOR SELECT
+  USING (
+    NOT is_hidden
+    OR user_id = current_user_id()
+    OR EXISTS (SELECT 1 FROM users WHERE id = current_user_id() AND is_admin = TRUE)
+  );
+
+-- ============================================================================
+-- Trigger: keep courses.average_rating and total_ratings in sync
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_course_rating_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course_id TEXT := COALESCE(NEW.course_id, OLD.course_id);
+BEGIN
+  UPDATE courses
+  SET
+    average_rating = COALESCE((
+      SELECT ROUND(AVG(rating)::NUMERIC, 1)
+      FROM course_reviews
+      WHERE course_id = v_course_id AND is_hidden = FALSE
+    ), 0),
+    total_ratings = (
+      SELECT COUNT(*)
+      FROM course_reviews
+      WHERE course_id = v_course_id AND is_hidden = FALSE
+    )
+  WHERE id = v_course_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_course_rating_stats ON course_reviews;
+CREATE TRIGGER trg_sync_course_rating_stats
+  AFTER INSERT OR UPDATE OF rating, is_hidden OR DELETE ON course_reviews
+  FOR EACH ROW EXECUTE FUNCTION sync_course_rating_stats();
+
+-- ============================================================================
+-- Function: can_review_course
+-- ============================================================================
+-- A learner may review a course once they completed it or got at least
+-- halfway through.
+
+CREATE OR REPLACE FUNCTION can_review_course(p_user_id UUID, p_course_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_progress
+    WHERE user_id = p_user_id
+      AND course_id = p_course_id
+      AND (completed_at IS NOT NULL OR progress_percentage >= 50)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_review_course(UUID, TEXT) TO authenticated, anon;
+
+-- ============================================================================
+-- Function: upsert_course_review
+-- ============================================================================
+-- Creates the caller's review or updates it in place. Editing a review that
+-- was hidden keeps it hidden until an admin restores it.
+
+CREATE OR REPLACE FUNCTION upsert_course_review(
+  p_course_id TEXT,
+  p_rating INTEGER,
+  p_review_text TEXT DEFAULT NULL
+)
+RETURNS course_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_review course_reviews;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  IF NOT can_review_course(v_user_id, p_course_id) THEN
+    RAISE EXCEPTION 'Complete at least half of the course before reviewing it';
+  END IF;
+
+  INSERT INTO course_reviews (course_id, user_id, rating, review_text)
+  VALUES (p_course_id, v_user_id, p_rating, NULLIF(TRIM(p_review_text), ''))
+  ON CONFLICT (course_id, user_id) DO UPDATE
+  SET
+    rating = EXCLUDED.rating,
+    review_text = EXCLUDED.review_text,
+    updated_at = NOW()
+  RETURNING * INTO v_review;
+
+  RETURN v_review;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION upsert_course_review(TEXT, INTEGER, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Function: delete_course_review
+-- ============================================================================
+-- Deletes the caller's own review.
+
+CREATE OR REPLACE FUNCTION delete_course_review(p_course_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM course_reviews
+  WHERE user_id = current_user_id() AND course_id = p_course_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_course_review(TEXT) TO authenticated;
+
+-- ============================================================================
+-- Function: moderate_course_review
+-- ============================================================================
+-- Admin-only hide/restore. Hiding requires a reason for the audit trail.
+
+CREATE OR REPLACE FUNCTION moderate_course_review(
+  p_review_id UUID,
+  p_is_hidden BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = v_user_id AND is_admin = TRUE) THEN
+    RAISE EXCEPTION 'Only admins can moderate reviews';
+  END IF;
+
+  IF p_is_hidden AND NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to hide a review';
+  END IF;
+
+  UPDATE course_reviews
+  SET
+    is_hidden = p_is_hidden,
+    hidden_reason = CASE WHEN p_is_hidden THEN TRIM(p_reason) ELSE NULL END,
+    hidden_by = CASE WHEN p_is_hidden THEN v_user_id ELSE NULL END,
+    hidden_at = CASE WHEN p_is_hidden THEN NOW() ELSE NULL END
+  WHERE id = p_review_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found: %', p_review_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION moderate_course_review(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Backfill: reset seeded ratings to match the (empty) review table
+-- ============================================================================
+
+UPDATE courses c
+SET
+  average_rating = COALESCE(s.avg_rating, 0),
+  total_ratings = COALESCE(s.total, 0)
+FROM (
+  SELECT
+    co.id,
+    ROUND(AVG(r.rating)::NUMERIC, 1) AS avg_rating,
+    COUNT(r.id) AS total
+  FROM courses co
+  LEFT JOIN course_reviews r ON r.course_id = co.id AND r.is_hidden = FALSE
+  GROUP BY co.id
+) s
+WHERE c.id = s.id;
+
+COMMENT ON TABLE course_reviews IS 'Learner star ratings and text reviews; aggregates are mirrored onto courses';
@@ -0,0 +1,301 @@
+-- ============================================================================
+-- Migration 025: Spaced-Repetition Review Queue
+-- ============================================================================
+-- Purpose: Bring back quiz questions a learner got wrong until they stick
+-- Created: 2025-11-03
+-- Description:
+--   - review_items holds one card per missed quiz question (plus optional
+--     AI-generated variants of it), scheduled with the SM-2 algorithm
+--   - Missed questions are graded and snapshotted server-side from
+--     lessons.content so a client cannot queue arbitrary answers
+--   - review_log records every review for streak/activity stats
+-- ============================================================================
+
+-- ============================================================================
+-- Table: review_items
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS review_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  course_id TEXT NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  lesson_id TEXT NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+
+  -- Card identity: '<lesson_id>:<question_index>' for quiz questions,
+  -- '<parent key>:v<n>' for AI variants
+  item_key TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'quiz' CHECK (source IN ('quiz', 'ai_variant')),
+  parent_item_id UUID REFERENCES review_items(id) ON DELETE CASCADE,
+  question_index INTEGER NOT NULL,
+
+  -- Snapshot of { question, options, correctAnswer, explanation }
+  question JSONB NOT NULL,
+
+  -- SM-2 state
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_date DATE NOT NULL DEFAULT (CURRENT_DATE + 1),
+  last_reviewed_at TIMESTAMPTZ,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (user_id, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_items_due ON review_items(user_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_review_items_parent ON review_items(parent_item_id) WHERE parent_item_id IS NOT NULL;
+
+-- ============================================================================
+-- Table: review_log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS review_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES review_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  quality SMALLINT NOT NULL CHECK (quality BETWEEN 0 AND 5),
+  interval_days INTEGER NOT NULL,
+  reviewed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_log_user_date ON review_log(user_id, reviewed_at DESC);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+-- A learner's mistakes are their own. Writes go through the functions below.
+
+ALTER TABLE review_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own review items"
+  ON review_items FOR SELECT
+  USING (user_id = current_user_id());
+
+CREATE POLICY "Users can view their own review log"
+  ON review_log FOR SELECT
+  USING (user_id = current_user_id());
+
+-- ============================================================================
+-- Function: queue_quiz_mistakes
+-- ============================================================================
+-- Grades a quiz attempt against the stored questions and queues every missed
+-- question. Missing a question that is already queued counts as a lapse and
+-- brings it back for tomorrow.
+
+CREATE OR REPLACE FUNCTION queue_quiz_mistakes(
+  p_lesson_id TEXT,
+  p_answers JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_lesson lessons;
+  v_question JSONB;
+  v_index INTEGER;
+  v_queued INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_lesson FROM lessons WHERE id = p_lesson_id;
+
+  IF v_lesson.id IS NULL OR v_lesson.lesson_type <> 'quiz' THEN
+    RAISE EXCEPTION 'Quiz lesson not found: %', p_lesson_id;
+  END IF;
+
+  IF jsonb_typeof(p_answers) <> 'array'
+     OR jsonb_array_length(p_answers) <> jsonb_array_length(v_lesson.content->'questions') THEN
+    RAISE EXCEPTION 'Answers do not match the quiz questions';
+  END IF;
+
+  FOR v_index IN 0 .. jsonb_array_length(v_lesson.content->'questions') - 1 LOOP
+    v_question := v_lesson.content->'questions'->v_index;
+
+    -- Unanswered (null) counts as missed
+    IF (p_answers->v_index) IS DISTINCT FROM (v_question->'correctAnswer') THEN
+      INSERT INTO review_items (user_id, course_id, lesson_id, item_key, question_index, question)
+      VALUES (
+        v_user_id,
+        v_lesson.course_id,
+        v_lesson.id,
+        v_lesson.id || ':' || v_index,
+        v_index,
+        jsonb_build_object(
+          'question', v_question->'question',
+          'options', v_question->'options',
+          'correctAnswer', v_question->'correctAnswer',
+          'explanation', v_question->'explanation'
+        )
+      )
+      ON CONFLICT (user_id, item_key) DO UPDATE
+      SET
+        question = EXCLUDED.question,
+        repetitions = 0,
+        interval_days = 1,
+        lapses = review_items.lapses + 1,
+        due_date = LEAST(review_items.due_date, CURRENT_DATE + 1);
+
+      v_queued := v_queued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION queue_quiz_mistakes(TEXT, JSONB) TO authenticated;
+
+-- ============================================================================
+-- Function: record_review
+-- ============================================================================
+-- Applies one SM-2 step. Quality: 0-2 = forgot, 3 = hard, 4 = good, 5 = easy.
+--   - Forgot: repetitions reset, due again tomorrow
+--   - Remembered: 1 day, then 6 days, then interval * ease factor
+--   - Ease factor moves by 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02), min 1.3
+
+CREATE OR REPLACE FUNCTION record_review(
+  p_item_id UUID,
+  p_quality INTEGER
+)
+RETURNS review_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_item review_items;
+  v_interval INTEGER;
+  v_repetitions INTEGER;
+  v_ease NUMERIC;
+BEGIN
+  IF p_quality IS NULL OR p_quality < 0 OR p_quality > 5 THEN
+    RAISE EXCEPTION 'Quality must be between 0 and 5';
+  END IF;
+
+  SELECT * INTO v_item
+  FROM review_items
+  WHERE id = p_item_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Review item not found: %', p_item_id;
+  END IF;
+
+  IF p_quality < 3 THEN
+    v_repetitions := 0;
+    v_interval := 1;
+  ELSE
+    v_repetitions := v_item.repetitions + 1;
+    v_interval := CASE
+      WHEN v_item.repetitions = 0 THEN 1
+      WHEN v_item.repetitions = 1 THEN 6
+      ELSE GREATEST(1, ROUND(v_item.interval_days * v_item.ease_factor))::INTEGER
+    END;
+  END IF;
+
+  v_ease := GREATEST(
+    1.3,
+    v_item.ease_factor + (0.1 - (5 - p_quality) * (0.08 + (5 - p_quality) * 0.02))
+  );
+
+  UPDATE review_items
+  SET
+    repetitions = v_repetitions,
+    interval_days = v_interval,
+    ease_factor = v_ease,
+    lapses = lapses + CASE WHEN p_quality < 3 THEN 1 ELSE 0 END,
+    due_date = CURRENT_DATE + v_interval,
+    last_reviewed_at = NOW()
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  INSERT INTO review_log (item_id, user_id, quality, interval_days)
+  VALUES (p_item_id, v_user_id, p_quality, v_interval);
+
+  RETURN v_item;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_review(UUID, INTEGER) TO authenticated;
+
+-- ============================================================================
+-- Function: add_review_variants
+-- ============================================================================
+-- Stores AI-generated variants of a queued question, due today so the learner
+-- can practice them straight away.
+
+CREATE OR REPLACE FUNCTION add_review_variants(
+  p_parent_item_id UUID,
+  p_questions JSONB
+)
+RETURNS SETOF review_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_parent review_items;
+  v_question JSONB;
+  v_offset INTEGER;
+  v_index INTEGER := 0;
+BEGIN
+  SELECT * INTO v_parent
+  FROM review_items
+  WHERE id = p_parent_item_id AND user_id = v_user_id AND source = 'quiz';
+
+  IF v_parent.id IS NULL THEN
+    RAISE EXCEPTION 'Review item not found: %', p_parent_item_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_offset FROM review_items WHERE parent_item_id = v_parent.id;
+
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_questions) LOOP
+    IF jsonb_typeof(v_question->'options') <> 'array'
+       OR jsonb_typeof(v_question->'correctAnswer') <> 'number'
+       OR (v_question->>'correctAnswer')::INTEGER NOT BETWEEN 0 AND jsonb_array_length(v_question->'options') - 1 THEN
+      CONTINUE;
+    END IF;
+
+    v_index := v_index + 1;
+
+    RETURN QUERY
+    INSERT INTO review_items (
+      user_id, course_id, lesson_id, item_key, source, parent_item_id,
+      question_index, question, due_date
+    )
+    VALUES (
+      v_user_id,
+      v_parent.course_id,
+      v_parent.lesson_id,
+      v_parent.item_key || ':v' || (v_offset + v_index),
+      'ai_variant',
+      v_parent.id,
+      v_parent.question_index,
+      jsonb_build_object(
+        'question', v_question->'question',
+        'options', v_question->'options',
+        'correctAnswer', v_question->'correctAnswer',
+        'explanation', v_question->'explanation'
+      ),
+      CURRENT_DATE
+    )
+    RETURNING *;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_review_variants(UUID, JSONB) TO authenticated;
+
+COMMENT ON TABLE review_items IS 'Spaced-repetition cards built from missed quiz questions (SM-2 scheduling)';
+COMMENT ON TABLE review_log IS 'One row per review answer, used for review stats and the streak calendar';
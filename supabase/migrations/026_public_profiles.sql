@@ -0,0 +1,100 @@
+-- ============================================================================
+-- Migration 026: Public Learner Profiles
+-- ============================================================================
+-- Purpose: Serve /profile/:username to other learners and guests
+-- Created: 2025-11-05
+-- Description:
+--   - get_public_profile returns everything a profile page shows in one call
+--   - When users.profile_public is false only the username and avatar are
+--     returned, so private details never leave the database
+--   - Certificates are limited to ones that reached the learner's wallet
+-- ============================================================================
+
+-- ============================================================================
+-- Function: get_public_profile
+-- ============================================================================
+-- Returns NULL when no active user has this username.
+
+CREATE OR REPLACE FUNCTION get_public_profile(p_username TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users;
+BEGIN
+  SELECT * INTO v_user
+  FROM users
+  WHERE username = p_username AND is_active = true;
+
+  IF v_user.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT v_user.profile_public THEN
+    RETURN jsonb_build_object(
+      'username', v_user.username,
+      'avatar_emoji', v_user.avatar_emoji,
+      'profile_public', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'username', v_user.username,
+    'avatar_emoji', v_user.avatar_emoji,
+    'profile_public', true,
+    'bio', v_user.bio,
+    'location', v_user.location,
+    'current_level', v_user.current_level,
+    'total_xp', v_user.total_xp,
+    'current_streak', v_user.current_streak,
+    'created_at', v_user.created_at,
+
+    'badges', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'name', a.name,
+        'description', a.description,
+        'icon_emoji', a.icon_emoji,
+        'rarity', a.rarity,
+        'earned_at', ua.earned_at
+      ) ORDER BY ua.earned_at DESC)
+      FROM user_achievements ua
+      JOIN achievements a ON a.id = ua.achievement_id
+      WHERE ua.user_id = v_user.id
+    ), '[]'::jsonb),
+
+    'completed_courses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'title', c.title,
+        'thumbnail_emoji', c.thumbnail_emoji,
+        'track', c.track,
+        'difficulty', c.difficulty,
+        'completed_at', up.completed_at
+      ) ORDER BY up.completed_at DESC)
+      FROM user_progress up
+      JOIN courses c ON c.id = up.course_id
+      WHERE up.user_id = v_user.id AND up.completed_at IS NOT NULL
+    ), '[]'::jsonb),
+
+    'certificates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'certificate_number', nc.certificate_number,
+        'course_id', nc.course_id,
+        'course_title', c.title,
+        'token_id', nc.token_id,
+        'serial_number', nc.serial_number,
+        'minted_at', nc.minted_at
+      ) ORDER BY nc.minted_at DESC)
+      FROM nft_certificates nc
+      LEFT JOIN courses c ON c.id = nc.course_id
+      WHERE nc.user_id = v_user.id AND nc.status = 'transferred'
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_profile(TEXT) TO anon, authenticated;
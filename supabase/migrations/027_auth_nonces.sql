@@ -0,0 +1,74 @@
+-- ============================================================================
+-- Migration 027: Wallet Login Nonces
+-- ============================================================================
+-- Purpose: Make wallet signatures single-use (Sign-In with Ethereum, EIP-4361)
+-- Created: 2025-11-06
+-- Description:
+--   - auth-nonce issues a nonce bound to wallet, domain and chain ID
+--   - wallet-login consumes it exactly once via consume_auth_nonce, so a
+--     captured signature cannot be replayed
+--   - Nonces expire after a few minutes; stale rows are purged on issue
+-- ============================================================================
+
+-- ============================================================================
+-- Table: auth_nonces
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  evm_address TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  chain_id INTEGER NOT NULL CHECK (chain_id IN (295, 296)),
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires ON auth_nonces(expires_at);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+-- No policies: only the edge functions (service role) touch nonces
+
+ALTER TABLE auth_nonces ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Function: consume_auth_nonce
+-- ============================================================================
+-- Marks a nonce as used if it is unused, unexpired and was issued for this
+-- wallet, domain and chain. Returns false otherwise. The single UPDATE makes
+-- two concurrent logins with the same signature race safely.
+
+CREATE OR REPLACE FUNCTION consume_auth_nonce(
+  p_nonce TEXT,
+  p_evm_address TEXT,
+  p_domain TEXT,
+  p_chain_id INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_consumed TEXT;
+BEGIN
+  UPDATE auth_nonces
+  SET used_at = NOW()
+  WHERE nonce = p_nonce
+    AND evm_address = LOWER(p_evm_address)
+    AND domain = p_domain
+    AND chain_id = p_chain_id
+    AND used_at IS NULL
+    AND expires_at > NOW()
+  RETURNING nonce INTO v_consumed;
+
+  RETURN v_consumed IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_auth_nonce(TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_auth_nonce(TEXT, TEXT, TEXT, INTEGER) TO service_role;
+
+COMMENT ON TABLE auth_nonces IS 'Single-use Sign-In with Ethereum nonces issued by the auth-nonce edge function';
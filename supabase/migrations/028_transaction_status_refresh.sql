@@ -0,0 +1,59 @@
+-- ============================================================================
+-- Migration 028: Transaction Status Refresh
+-- ============================================================================
+-- Purpose: Let learners' pending transactions settle once the mirror node
+--          reports a result
+-- Created: 2025-11-07
+-- Description:
+--   - transactions has no UPDATE policy, so rows logged as 'pending' by the
+--     client never moved on; update_transaction_status records the hash and
+--     the final result for the learner's own pending rows only
+--   - Settled rows ('success'/'failed') can no longer be changed
+--   - Index for the Transaction History page (newest first per user)
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created
+  ON transactions(user_id, created_at DESC);
+
+-- ============================================================================
+-- Function: update_transaction_status
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_transaction_status(
+  p_id UUID,
+  p_status TEXT,
+  p_transaction_id TEXT DEFAULT NULL,
+  p_consensus_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_error_message TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_status NOT IN ('pending', 'success', 'failed') THEN
+    RAISE EXCEPTION 'Invalid transaction status: %', p_status;
+  END IF;
+
+  UPDATE transactions
+  SET status = p_status,
+      transaction_id = COALESCE(p_transaction_id, transaction_id),
+      consensus_timestamp = COALESCE(p_consensus_timestamp, consensus_timestamp),
+      error_message = COALESCE(p_error_message, error_message),
+      updated_at = NOW()
+  WHERE id = p_id
+    AND user_id = v_user_id
+    AND status = 'pending';
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_transaction_status(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
@@ -0,0 +1,137 @@
+-- ============================================================================
+-- Migration 029: Unified Transaction Ledger
+-- ============================================================================
+-- Purpose: Record every on-chain practical action in transactions
+-- Created: 2025-11-08
+-- Description:
+--   - New transaction types for contract deploys/calls, HCS messages,
+--     practice NFT mints and account creation
+--   - record_transaction logs an action (idempotent per Hedera transaction
+--     ID) with the course it was performed in, always as 'pending'
+--   - reconciled_at marks rows whose status and consensus_timestamp have been
+--     confirmed against the mirror node (or that it could not resolve); until
+--     then the mirror node result overrides what the client or Edge Function
+--     recorded
+--   - Only the reconcile-transactions Edge Function (service role) settles
+--     rows; browsers can no longer insert rows directly or set their status
+-- ============================================================================
+
+-- ============================================================================
+-- Transaction types
+-- ============================================================================
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'faucet_request',
+    'practice_transfer',
+    'nft_mint_certificate',
+    'nft_mint_badge',
+    'token_transfer',
+    'contract_deploy',
+    'contract_call',
+    'hcs_submit',
+    'nft_mint_practice',
+    'account_create'
+  ));
+
+-- ============================================================================
+-- Mirror node reconciliation
+-- ============================================================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN transactions.reconciled_at IS 'When status/consensus_timestamp were confirmed against the mirror node';
+
+-- ============================================================================
+-- Function: record_transaction
+-- ============================================================================
+
+-- Learners report the hash; whether it succeeded is for the mirror node to say
+
+DROP FUNCTION IF EXISTS record_transaction(TEXT, TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION record_transaction(
+  p_transaction_id TEXT,
+  p_transaction_type TEXT,
+  p_amount_hbar DECIMAL DEFAULT NULL,
+  p_from_account TEXT DEFAULT NULL,
+  p_to_account TEXT DEFAULT NULL,
+  p_related_course_id TEXT DEFAULT NULL,
+  p_memo TEXT DEFAULT NULL,
+  p_hashscan_url TEXT DEFAULT NULL,
+  p_error_message TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_transaction_id IS NULL OR p_transaction_id = '' THEN
+    RAISE EXCEPTION 'Transaction ID is required';
+  END IF;
+
+  INSERT INTO transactions (
+    user_id,
+    transaction_id,
+    transaction_type,
+    status,
+    amount_hbar,
+    from_account,
+    to_account,
+    related_course_id,
+    memo,
+    hashscan_url,
+    error_message
+  )
+  VALUES (
+    v_user_id,
+    p_transaction_id,
+    p_transaction_type,
+    'pending',
+    p_amount_hbar,
+    p_from_account,
+    p_to_account,
+    p_related_course_id,
+    p_memo,
+    p_hashscan_url,
+    p_error_message
+  )
+  ON CONFLICT (transaction_id) DO NOTHING
+  RETURNING id INTO v_id;
+
+  -- Already recorded (e.g. the same action reported twice)
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id
+    FROM transactions
+    WHERE transaction_id = p_transaction_id AND user_id = v_user_id;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_transaction(TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Lock down direct writes
+-- ============================================================================
+-- update_transaction_status (028) let the browser pick the final status; the
+-- reconcile-transactions Edge Function now writes it from the mirror node.
+-- Edge Functions insert with the service role, which bypasses RLS.
+
+DROP FUNCTION IF EXISTS update_transaction_status(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS update_transaction_status(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT, BOOLEAN);
+
+DROP POLICY IF EXISTS "Users can insert own transactions" ON transactions;
+REVOKE INSERT, UPDATE, DELETE ON transactions FROM anon, authenticated;
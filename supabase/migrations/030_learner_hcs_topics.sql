@@ -0,0 +1,140 @@
+-- ============================================================================
+-- Migration 030: Learner-Owned HCS Topics
+-- ============================================================================
+-- Purpose: Let learners create their own Hedera Consensus Service topics
+-- Created: 2025-11-09
+-- Description:
+--   - hcs_topics lists the topics a learner created in the HCS workshop,
+--     with the message schema they post and the public submit key (if the
+--     topic is restricted to the holder of a key)
+--   - register_hcs_topic records a topic once the Edge Function created it
+--   - New transaction type hcs_topic_create for the ledger
+-- ============================================================================
+
+-- ============================================================================
+-- Table: hcs_topics
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS hcs_topics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Topic
+  topic_id TEXT NOT NULL UNIQUE,
+  memo TEXT NOT NULL DEFAULT '',
+
+  -- Message schema ID (see src/lib/hedera/hcs-schemas.ts), NULL for free text
+  schema_id TEXT,
+
+  -- DER-encoded public key; NULL when anyone may submit
+  submit_public_key TEXT,
+
+  -- Hedera transaction that created the topic
+  transaction_id TEXT,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_hcs_topics_user ON hcs_topics(user_id, created_at DESC);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+-- Topics are public on the network anyway; writes go through the function below
+
+ALTER TABLE hcs_topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view HCS topics"
+  ON hcs_topics FOR SELECT
+  USING (true);
+
+-- ============================================================================
+-- Transaction types
+-- ============================================================================
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'faucet_request',
+    'practice_transfer',
+    'nft_mint_certificate',
+    'nft_mint_badge',
+    'token_transfer',
+    'contract_deploy',
+    'contract_call',
+    'hcs_submit',
+    'nft_mint_practice',
+    'account_create',
+    'hcs_topic_create'
+  ));
+
+-- ============================================================================
+-- Function: register_hcs_topic
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION register_hcs_topic(
+  p_topic_id TEXT,
+  p_memo TEXT DEFAULT '',
+  p_schema_id TEXT DEFAULT NULL,
+  p_submit_public_key TEXT DEFAULT NULL,
+  p_transaction_id TEXT DEFAULT NULL
+)
+RETURNS hcs_topics
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := current_user_id();
+  v_topic hcs_topics;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_topic_id IS NULL OR p_topic_id !~ '^\d+\.\d+\.\d+$' THEN
+    RAISE EXCEPTION 'Invalid topic ID: %', p_topic_id;
+  END IF;
+
+  -- Hedera limits topic memos to 100 bytes
+  IF octet_length(COALESCE(p_memo, '')) > 100 THEN
+    RAISE EXCEPTION 'Topic memo must be 100 bytes or less';
+  END IF;
+
+  INSERT INTO hcs_topics (
+    user_id,
+    topic_id,
+    memo,
+    schema_id,
+    submit_public_key,
+    transaction_id
+  )
+  VALUES (
+    v_user_id,
+    p_topic_id,
+    COALESCE(p_memo, ''),
+    p_schema_id,
+    p_submit_public_key,
+    p_transaction_id
+  )
+  ON CONFLICT (topic_id) DO NOTHING
+  RETURNING * INTO v_topic;
+
+  -- Already registered (e.g. a retried request)
+  IF v_topic.id IS NULL THEN
+    SELECT * INTO v_topic
+    FROM hcs_topics
+    WHERE topic_id = p_topic_id AND user_id = v_user_id;
+
+    IF v_topic.id IS NULL THEN
+      RAISE EXCEPTION 'Topic % is registered to another user', p_topic_id;
+    END IF;
+  END IF;
+
+  RETURN v_topic;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION register_hcs_topic(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
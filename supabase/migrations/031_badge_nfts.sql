@@ -0,0 +1,146 @@
+-- ============================================================================
+-- Migration 031: Badge NFTs
+-- ============================================================================
+-- Purpose: Let learners claim earned badges as Hedera NFTs
+-- Created: 2025-11-10
+-- Description:
+--   - badge_nft_collections holds one HTS collection per badge rarity,
+--     created by the mint-badge Edge Function the first time it is needed
+--   - user_achievements records the minted serial, where it is (still in
+--     the treasury or in the learner's wallet) and its metadata URI; a claim
+--     in progress holds the row ('claiming') so a badge is never minted twice
+--   - achievements.nft_metadata_uri caches each badge's HIP-412 metadata so
+--     the image and JSON are uploaded once per badge, not once per claim
+--   - get_public_profile shows the serial of badges in the learner's wallet
+-- ============================================================================
+
+-- ============================================================================
+-- Table: badge_nft_collections
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS badge_nft_collections (
+  rarity TEXT PRIMARY KEY CHECK (rarity IN ('common', 'rare', 'epic', 'legendary')),
+
+  -- HTS token
+  token_id TEXT NOT NULL UNIQUE,
+
+  -- Hedera transaction that created the token
+  creation_transaction_id TEXT,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Token IDs are public on the network; writes go through the Edge Function
+ALTER TABLE badge_nft_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view badge NFT collections"
+  ON badge_nft_collections FOR SELECT
+  USING (true);
+
+-- ============================================================================
+-- Table: user_achievements
+-- ============================================================================
+-- nft_token_id, nft_minted_at and nft_transaction_id already exist
+
+ALTER TABLE user_achievements
+  ADD COLUMN IF NOT EXISTS nft_serial_number INTEGER,
+  ADD COLUMN IF NOT EXISTS nft_metadata_uri TEXT,
+  ADD COLUMN IF NOT EXISTS nft_status TEXT
+    CHECK (nft_status IN ('claiming', 'minted', 'transferred')),
+  ADD COLUMN IF NOT EXISTS nft_claim_started_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_achievements_nft
+  ON user_achievements(nft_token_id, nft_serial_number)
+  WHERE nft_serial_number IS NOT NULL;
+
+-- ============================================================================
+-- Function: get_public_profile
+-- ============================================================================
+-- Same as migration 026, plus the NFT serial of each badge
+
+CREATE OR REPLACE FUNCTION get_public_profile(p_username TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users;
+BEGIN
+  SELECT * INTO v_user
+  FROM users
+  WHERE username = p_username AND is_active = true;
+
+  IF v_user.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT v_user.profile_public THEN
+    RETURN jsonb_build_object(
+      'username', v_user.username,
+      'avatar_emoji', v_user.avatar_emoji,
+      'profile_public', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'username', v_user.username,
+    'avatar_emoji', v_user.avatar_emoji,
+    'profile_public', true,
+    'bio', v_user.bio,
+    'location', v_user.location,
+    'current_level', v_user.current_level,
+    'total_xp', v_user.total_xp,
+    'current_streak', v_user.current_streak,
+    'created_at', v_user.created_at,
+
+    'badges', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'name', a.name,
+        'description', a.description,
+        'icon_emoji', a.icon_emoji,
+        'rarity', a.rarity,
+        'earned_at', ua.earned_at,
+        'nft_token_id', CASE WHEN ua.nft_status = 'transferred' THEN ua.nft_token_id END,
+        'nft_serial_number', CASE WHEN ua.nft_status = 'transferred' THEN ua.nft_serial_number END
+      ) ORDER BY ua.earned_at DESC)
+      FROM user_achievements ua
+      JOIN achievements a ON a.id = ua.achievement_id
+      WHERE ua.user_id = v_user.id
+    ), '[]'::jsonb),
+
+    'completed_courses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'title', c.title,
+        'thumbnail_emoji', c.thumbnail_emoji,
+        'track', c.track,
+        'difficulty', c.difficulty,
+        'completed_at', up.completed_at
+      ) ORDER BY up.completed_at DESC)
+      FROM user_progress up
+      JOIN courses c ON c.id = up.course_id
+      WHERE up.user_id = v_user.id AND up.completed_at IS NOT NULL
+    ), '[]'::jsonb),
+
+    'certificates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'certificate_number', nc.certificate_number,
+        'course_id', nc.course_id,
+        'course_title', c.title,
+        'token_id', nc.token_id,
+        'serial_number', nc.serial_number,
+        'minted_at', nc.minted_at
+      ) ORDER BY nc.minted_at DESC)
+      FROM nft_certificates nc
+      LEFT JOIN courses c ON c.id = nc.course_id
+      WHERE nc.user_id = v_user.id AND nc.status = 'transferred'
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_profile(TEXT) TO anon, authenticated;
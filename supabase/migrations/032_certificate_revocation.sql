@@ -0,0 +1,84 @@
+-- ============================================================================
+-- Migration 032: Certificate Revocation and Reissue
+-- ============================================================================
+-- Purpose: Let admins revoke certificates and reissue them
+-- Created: 2025-11-11
+-- Description:
+--   - nft_certificates gains the revoked and superseded statuses, who
+--     revoked a certificate and why, and links between a reissued
+--     certificate and the one it replaced
+--   - certificate_events is the history shown on the verification page;
+--     each event points at the signed HCS attestation that published it
+--   - Writes go through the certificate-admin Edge Function (service role);
+--     the open UPDATE policy from migration 017 is dropped so learners
+--     cannot revoke, un-revoke or relink certificates themselves
+-- ============================================================================
+
+-- ============================================================================
+-- Table: nft_certificates
+-- ============================================================================
+
+ALTER TABLE nft_certificates
+  -- Revocation
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revocation_reason TEXT,
+
+  -- Reissue chain
+  ADD COLUMN IF NOT EXISTS supersedes UUID REFERENCES nft_certificates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS superseded_by UUID REFERENCES nft_certificates(id) ON DELETE SET NULL;
+
+ALTER TABLE nft_certificates DROP CONSTRAINT IF EXISTS nft_certificates_status_check;
+
+ALTER TABLE nft_certificates ADD CONSTRAINT nft_certificates_status_check
+  CHECK (status IN ('minting', 'minted', 'transferred', 'failed', 'revoked', 'superseded'));
+
+-- A revoked certificate always says why
+ALTER TABLE nft_certificates ADD CONSTRAINT nft_certificates_revocation_reason_check
+  CHECK (status <> 'revoked' OR NULLIF(TRIM(revocation_reason), '') IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_nft_certificates_supersedes ON nft_certificates(supersedes);
+
+-- ============================================================================
+-- Table: certificate_events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS certificate_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  certificate_id UUID NOT NULL REFERENCES nft_certificates(id) ON DELETE CASCADE,
+
+  -- What happened
+  event_type TEXT NOT NULL CHECK (event_type IN ('revoked', 'reissued')),
+  reason TEXT NOT NULL,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  -- The replacement, for reissues
+  related_certificate_id UUID REFERENCES nft_certificates(id) ON DELETE SET NULL,
+
+  -- Signed attestation on HCS
+  hcs_topic_id TEXT,
+  hcs_sequence_number BIGINT,
+  hcs_transaction_id TEXT,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_certificate_events_certificate
+  ON certificate_events(certificate_id, created_at);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+-- Certificate history is public, like the certificates themselves. The
+-- service role bypasses RLS, so no UPDATE policy is needed on nft_certificates.
+
+DROP POLICY IF EXISTS "Service role can update certificates" ON nft_certificates;
+
+ALTER TABLE certificate_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view certificate events"
+  ON certificate_events FOR SELECT
+  USING (true);
+
+COMMENT ON TABLE certificate_events IS 'Revocations and reissues of NFT certificates, each attested on HCS';
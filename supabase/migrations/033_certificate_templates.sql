@@ -0,0 +1,248 @@
+-- ============================================================================
+-- Migration 033: Certificate Templates
+-- ============================================================================
+-- Purpose: Let admins design certificate layouts and choose them per course
+-- Created: 2025-11-12
+-- Description:
+--   - certificate_templates holds SVG templates with {{placeholders}}
+--     (learner name, course, date, certificate number, QR code, ribbon...)
+--   - certificate_template_assignments points a course or a whole track at
+--     a template; a course assignment wins over its track's
+--   - Courses without either use the default template, and the built-in
+--     layout when there is no default
+--   - Writes go through the admin-only functions below
+-- ============================================================================
+
+-- ============================================================================
+-- Table: certificate_templates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS certificate_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (LENGTH(TRIM(name)) BETWEEN 1 AND 80),
+  description TEXT,
+
+  -- SVG markup with {{placeholders}}; minted certificates above 4KB are
+  -- uploaded to HFS in several chunks, so this is a sanity limit only
+  svg_template TEXT NOT NULL CHECK (OCTET_LENGTH(svg_template) <= 16384),
+
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Metadata
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- At most one default template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificate_templates_default
+  ON certificate_templates(is_default) WHERE is_default;
+
+-- ============================================================================
+-- Table: certificate_template_assignments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS certificate_template_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES certificate_templates(id) ON DELETE CASCADE,
+
+  -- Exactly one of these
+  course_id TEXT UNIQUE REFERENCES courses(id) ON DELETE CASCADE,
+  track TEXT UNIQUE CHECK (track IN ('explorer', 'developer')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CHECK ((course_id IS NULL) <> (track IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_certificate_template_assignments_template
+  ON certificate_template_assignments(template_id);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+-- Templates end up on public certificates anyway
+
+ALTER TABLE certificate_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE certificate_template_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view certificate templates"
+  ON certificate_templates FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view certificate template assignments"
+  ON certificate_template_assignments FOR SELECT
+  USING (true);
+
+-- ============================================================================
+-- Function: get_certificate_template
+-- ============================================================================
+-- Template for a course's certificates: the course's own, then its track's,
+-- then the default. No row means the built-in layout.
+
+CREATE OR REPLACE FUNCTION get_certificate_template(p_course_id TEXT)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  svg_template TEXT,
+  assigned_by TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.id, t.name, t.svg_template, x.assigned_by
+  FROM (
+    SELECT a.template_id, 'course'::TEXT AS assigned_by, 1 AS priority
+    FROM certificate_template_assignments a
+    WHERE a.course_id = p_course_id
+
+    UNION ALL
+
+    SELECT a.template_id, 'track'::TEXT, 2
+    FROM certificate_template_assignments a
+    JOIN courses c ON c.track = a.track
+    WHERE c.id = p_course_id
+
+    UNION ALL
+
+    SELECT d.id, 'default'::TEXT, 3
+    FROM certificate_templates d
+    WHERE d.is_default
+  ) x
+  JOIN certificate_templates t ON t.id = x.template_id
+  ORDER BY x.priority
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_certificate_template(TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- Function: save_certificate_template
+-- ============================================================================
+-- Admin-only create (p_template_id NULL) or update. Returns the template ID.
+
+CREATE OR REPLACE FUNCTION save_certificate_template(
+  p_template_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_svg_template TEXT,
+  p_is_default BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = current_user_id() AND is_admin = TRUE) THEN
+    RAISE EXCEPTION 'Only admins can manage certificate templates';
+  END IF;
+
+  -- A backstop only: templates are sanitized against an allowlist of SVG
+  -- elements and attributes when validated and again when rendered
+  IF p_svg_template !~ '^\s*<svg[\s>]' OR p_svg_template ~* '<script|<foreignObject|[\s/]on[a-z]+\s*=|javascript:' THEN
+    RAISE EXCEPTION 'Template must be plain SVG without scripts or event handlers';
+  END IF;
+
+  IF p_is_default THEN
+    UPDATE certificate_templates
+    SET is_default = FALSE
+    WHERE is_default AND id IS DISTINCT FROM p_template_id;
+  END IF;
+
+  IF p_template_id IS NULL THEN
+    INSERT INTO certificate_templates (name, description, svg_template, is_default, created_by)
+    VALUES (TRIM(p_name), NULLIF(TRIM(p_description), ''), p_svg_template, p_is_default, current_user_id())
+    RETURNING id INTO v_template_id;
+  ELSE
+    UPDATE certificate_templates
+    SET
+      name = TRIM(p_name),
+      description = NULLIF(TRIM(p_description), ''),
+      svg_template = p_svg_template,
+      is_default = p_is_default,
+      updated_at = NOW()
+    WHERE id = p_template_id
+    RETURNING id INTO v_template_id;
+
+    IF v_template_id IS NULL THEN
+      RAISE EXCEPTION 'Template not found: %', p_template_id;
+    END IF;
+  END IF;
+
+  RETURN v_template_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_certificate_template(UUID, TEXT, TEXT, TEXT, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- Function: delete_certificate_template
+-- ============================================================================
+-- Admin-only. Its assignments go with it; already minted certificates keep
+-- their SVG.
+
+CREATE OR REPLACE FUNCTION delete_certificate_template(
+  p_template_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = current_user_id() AND is_admin = TRUE) THEN
+    RAISE EXCEPTION 'Only admins can manage certificate templates';
+  END IF;
+
+  DELETE FROM certificate_templates WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found: %', p_template_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_certificate_template(UUID) TO authenticated;
+
+-- ============================================================================
+-- Function: assign_certificate_template
+-- ============================================================================
+-- Admin-only. Assign a template to a course or a track, or clear the
+-- assignment with p_template_id NULL.
+
+CREATE OR REPLACE FUNCTION assign_certificate_template(
+  p_template_id UUID,
+  p_course_id TEXT DEFAULT NULL,
+  p_track TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = current_user_id() AND is_admin = TRUE) THEN
+    RAISE EXCEPTION 'Only admins can manage certificate templates';
+  END IF;
+
+  IF (p_course_id IS NULL) = (p_track IS NULL) THEN
+    RAISE EXCEPTION 'Assign a template to either a course or a track';
+  END IF;
+
+  DELETE FROM certificate_template_assignments
+  WHERE course_id = p_course_id OR track = p_track;
+
+  IF p_template_id IS NOT NULL THEN
+    INSERT INTO certificate_template_assignments (template_id, course_id, track)
+    VALUES (p_template_id, p_course_id, p_track);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_certificate_template(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON TABLE certificate_templates IS 'Admin-designed SVG certificate layouts with {{placeholders}}';
+COMMENT ON TABLE certificate_template_assignments IS 'Which certificate template a course or track uses';